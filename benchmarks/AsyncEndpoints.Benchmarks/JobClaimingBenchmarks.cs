@@ -0,0 +1,107 @@
+using AsyncEndpoints.Extensions;
+using AsyncEndpoints.JobProcessing;
+using AsyncEndpoints.Redis.Extensions;
+using BenchmarkDotNet.Attributes;
+using Microsoft.Extensions.DependencyInjection;
+
+namespace AsyncEndpoints.Benchmarks;
+
+/// <summary>
+/// Compares draining a backlog of queued jobs with one claim per job, as workers did before batch claiming,
+/// against claiming the backlog in batches of the worker batch size.
+/// The in-memory store is used unless the ASYNCENDPOINTS_BENCHMARK_REDIS environment variable holds a Redis connection string.
+/// </summary>
+[MemoryDiagnoser]
+public class JobClaimingBenchmarks
+{
+	private readonly Guid _workerId = Guid.NewGuid();
+	private readonly List<Guid> _jobIds = [];
+	private ServiceProvider _serviceProvider = null!;
+	private IJobStore _jobStore = null!;
+
+	/// <summary>
+	/// Gets or sets the number of queued jobs drained by every invocation.
+	/// </summary>
+	[Params(500)]
+	public int JobCount { get; set; }
+
+	/// <summary>
+	/// Gets or sets the maximum number of jobs claimed at once, as bounded by the batch size of the worker.
+	/// </summary>
+	[Params(10, 50)]
+	public int BatchSize { get; set; }
+
+	[GlobalSetup]
+	public void GlobalSetup()
+	{
+		var services = new ServiceCollection()
+			.AddLogging()
+			.AddAsyncEndpoints();
+
+		var redisConnectionString = Environment.GetEnvironmentVariable("ASYNCENDPOINTS_BENCHMARK_REDIS");
+		if (string.IsNullOrWhiteSpace(redisConnectionString))
+		{
+			services.AddAsyncEndpointsInMemoryStore();
+		}
+		else
+		{
+			services.AddAsyncEndpointsRedisStore(redisConnectionString);
+		}
+
+		_serviceProvider = services.BuildServiceProvider();
+		_jobStore = _serviceProvider.GetRequiredService<IJobStore>();
+	}
+
+	[IterationSetup]
+	public void IterationSetup()
+	{
+		for (var i = 0; i < JobCount; i++)
+		{
+			var job = new Job { Name = "benchmark", Payload = "{}" };
+			_jobStore.CreateJob(job, CancellationToken.None).GetAwaiter().GetResult();
+			_jobIds.Add(job.Id);
+		}
+	}
+
+	[IterationCleanup]
+	public void IterationCleanup()
+	{
+		foreach (var jobId in _jobIds)
+		{
+			_jobStore.DeleteJob(jobId, CancellationToken.None).GetAwaiter().GetResult();
+		}
+
+		_jobIds.Clear();
+	}
+
+	[GlobalCleanup]
+	public void GlobalCleanup() => _serviceProvider.Dispose();
+
+	[Benchmark(Baseline = true)]
+	public async Task<int> ClaimOneJobPerCall()
+	{
+		var claimedCount = 0;
+		while ((await _jobStore.ClaimNextJobForWorker(_workerId, null, CancellationToken.None)).DataOrNull != null)
+		{
+			claimedCount++;
+		}
+
+		return claimedCount;
+	}
+
+	[Benchmark]
+	public async Task<int> ClaimJobsInBatches()
+	{
+		var claimedCount = 0;
+		while (true)
+		{
+			var claimedJobs = await _jobStore.ClaimNextJobsForWorker(_workerId, null, BatchSize, CancellationToken.None);
+			if (claimedJobs.DataOrNull is not { Count: > 0 })
+			{
+				return claimedCount;
+			}
+
+			claimedCount += claimedJobs.DataOrNull.Count;
+		}
+	}
+}
@@ -0,0 +1,132 @@
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.JobProcessing;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.ChangeTracking;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using Microsoft.EntityFrameworkCore.Storage.ValueConversion;
+using System.Text.Json;
+
+namespace AsyncEndpoints.EntityFrameworkCore.Configuration;
+
+/// <summary>
+/// Configures how <see cref="Job"/> entities are stored by the Entity Framework Core job store.
+/// </summary>
+/// <remarks>
+/// Headers, route parameters, query parameters, errors, callbacks and progress are stored as JSON columns.
+/// Timestamps are stored as UTC ticks, so they compare and sort the same way on every provider, including SQLite.
+/// </remarks>
+/// <param name="tableName">The name of the table jobs are stored in.</param>
+/// <param name="schema">The schema of the table, or null to use the default schema.</param>
+public class JobEntityTypeConfiguration(string tableName = JobEntityTypeConfiguration.DefaultTableName, string? schema = null) : IEntityTypeConfiguration<Job>
+{
+	/// <summary>
+	/// The default name of the table jobs are stored in.
+	/// </summary>
+	public const string DefaultTableName = "AsyncEndpointsJobs";
+
+	/// <summary>
+	/// The name of the shadow property used as optimistic concurrency token.
+	/// </summary>
+	public const string ConcurrencyStampPropertyName = "ConcurrencyStamp";
+
+	/// <summary>
+	/// The name of the shadow property jobs are claimed in order of. It holds the UTC ticks of the creation time,
+	/// moved earlier by <see cref="AsyncEndpointsConstants.PriorityAgingSeconds"/> seconds for every priority level.
+	/// </summary>
+	public const string ClaimOrderPropertyName = "ClaimOrder";
+
+	private static readonly JsonSerializerOptions _jsonSerializerOptions = JsonSerializerOptions.Default;
+
+	private static readonly ValueConverter<DateTimeOffset, long> _dateTimeOffsetToUtcTicksConverter = new(
+		value => value.UtcTicks,
+		value => new DateTimeOffset(value, TimeSpan.Zero));
+
+	private static readonly ValueConverter<DateTime, long> _dateTimeToUtcTicksConverter = new(
+		value => value.ToUniversalTime().Ticks,
+		value => new DateTime(value, DateTimeKind.Utc));
+
+	private readonly string _tableName = tableName;
+	private readonly string? _schema = schema;
+
+	/// <inheritdoc />
+	public void Configure(EntityTypeBuilder<Job> builder)
+	{
+		builder.ToTable(_tableName, _schema);
+		builder.HasKey(job => job.Id);
+
+		builder.Property(job => job.Id).ValueGeneratedNever();
+		builder.Property(job => job.Name).IsRequired().HasMaxLength(256);
+		builder.Property(job => job.Status).IsRequired();
+		builder.Property(job => job.Payload).IsRequired();
+		builder.Property(job => job.PayloadBlobId).HasMaxLength(256);
+		builder.Property(job => job.Result);
+		builder.Property(job => job.ResultBlobId).HasMaxLength(256);
+		builder.Property(job => job.RetryCount);
+		builder.Property(job => job.MaxRetries);
+		builder.Property(job => job.Priority);
+		builder.Property(job => job.Queue).IsRequired().HasMaxLength(256);
+		builder.Property(job => job.WorkerId);
+		builder.Property(job => job.ParentJobId);
+		builder.Property(job => job.TraceParent).HasMaxLength(128);
+		builder.Property(job => job.TraceState).HasMaxLength(512);
+		builder.Property(job => job.Baggage);
+
+		builder.Property(job => job.Headers).HasJsonConversion().IsRequired();
+		builder.Property(job => job.RouteParams).HasJsonConversion().IsRequired();
+		builder.Property(job => job.QueryParams).HasJsonConversion().IsRequired();
+		builder.Property(job => job.Error).HasJsonConversion();
+		builder.Property(job => job.Callback).HasJsonConversion();
+		builder.Property(job => job.Progress).HasJsonConversion();
+		builder.Property(job => job.ContinuationJobIds).HasJsonConversion().IsRequired();
+		builder.Property(job => job.Runs).HasJsonConversion().IsRequired();
+
+		builder.Property(job => job.CreatedAt).HasConversion(_dateTimeOffsetToUtcTicksConverter);
+		builder.Property(job => job.StartedAt).HasConversion(_dateTimeOffsetToUtcTicksConverter);
+		builder.Property(job => job.LeaseRenewedAt).HasConversion(_dateTimeOffsetToUtcTicksConverter);
+		builder.Property(job => job.CompletedAt).HasConversion(_dateTimeOffsetToUtcTicksConverter);
+		builder.Property(job => job.LastUpdatedAt).HasConversion(_dateTimeOffsetToUtcTicksConverter);
+		builder.Property(job => job.ExpiresAt).HasConversion(_dateTimeOffsetToUtcTicksConverter);
+		builder.Property(job => job.RetryDelayUntil).HasConversion(_dateTimeToUtcTicksConverter);
+
+		// Every write replaces the stamp, so concurrent claims and updates of the same job are detected
+		builder.Property<Guid>(ConcurrencyStampPropertyName).IsConcurrencyToken();
+
+		// Priority and creation time never change, so the claim order is set once when the job is created
+		builder.Property<long>(ClaimOrderPropertyName);
+
+		// Indexes used by job claiming, recovery, job queries and purging of expired jobs
+		builder.HasIndex(nameof(Job.Status), nameof(Job.Queue), ClaimOrderPropertyName);
+		builder.HasIndex(job => new { job.Status, job.CreatedAt });
+		builder.HasIndex(job => new { job.Name, job.CreatedAt });
+		builder.HasIndex(job => job.CreatedAt);
+		builder.HasIndex(job => job.ExpiresAt);
+	}
+
+	internal static long GetClaimOrder(Job job) =>
+		job.CreatedAt.AddSeconds(-job.Priority * (double)AsyncEndpointsConstants.PriorityAgingSeconds).UtcTicks;
+
+	internal static string SerializeJson<T>(T value) => JsonSerializer.Serialize(value, _jsonSerializerOptions);
+
+	internal static T DeserializeJson<T>(string value) => JsonSerializer.Deserialize<T>(value, _jsonSerializerOptions)!;
+}
+
+internal static class JobPropertyBuilderExtensions
+{
+	/// <summary>
+	/// Stores the property as a JSON column and compares snapshots by their JSON representation,
+	/// so that changes made inside mutable collections are detected.
+	/// </summary>
+	public static PropertyBuilder<T> HasJsonConversion<T>(this PropertyBuilder<T> property)
+	{
+		var converter = new ValueConverter<T, string>(
+			value => JobEntityTypeConfiguration.SerializeJson(value),
+			value => JobEntityTypeConfiguration.DeserializeJson<T>(value));
+
+		var comparer = new ValueComparer<T>(
+			(left, right) => JobEntityTypeConfiguration.SerializeJson(left) == JobEntityTypeConfiguration.SerializeJson(right),
+			value => JobEntityTypeConfiguration.SerializeJson(value).GetHashCode(),
+			value => JobEntityTypeConfiguration.DeserializeJson<T>(JobEntityTypeConfiguration.SerializeJson(value)));
+
+		return property.HasConversion(converter, comparer);
+	}
+}
@@ -0,0 +1,45 @@
+using AsyncEndpoints.JobProcessing;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using Microsoft.EntityFrameworkCore.Storage.ValueConversion;
+
+namespace AsyncEndpoints.EntityFrameworkCore.Configuration;
+
+/// <summary>
+/// Configures how <see cref="JobIdempotencyKey"/> entities are stored by the Entity Framework Core job store.
+/// </summary>
+/// <remarks>
+/// The scoped key is the primary key, so concurrent submissions with the same key cannot both be stored.
+/// The expiry is stored as UTC ticks, like the timestamps of jobs.
+/// </remarks>
+/// <param name="tableName">The name of the table idempotency keys are stored in.</param>
+/// <param name="schema">The schema of the table, or null to use the default schema.</param>
+public class JobIdempotencyKeyEntityTypeConfiguration(string tableName = JobIdempotencyKeyEntityTypeConfiguration.DefaultTableName, string? schema = null) : IEntityTypeConfiguration<JobIdempotencyKey>
+{
+	/// <summary>
+	/// The default name of the table idempotency keys are stored in.
+	/// </summary>
+	public const string DefaultTableName = "AsyncEndpointsJobIdempotencyKeys";
+
+	private static readonly ValueConverter<DateTimeOffset, long> _dateTimeOffsetToUtcTicksConverter = new(
+		value => value.UtcTicks,
+		value => new DateTimeOffset(value, TimeSpan.Zero));
+
+	private readonly string _tableName = tableName;
+	private readonly string? _schema = schema;
+
+	/// <inheritdoc />
+	public void Configure(EntityTypeBuilder<JobIdempotencyKey> builder)
+	{
+		builder.ToTable(_tableName, _schema);
+		builder.HasKey(idempotencyKey => idempotencyKey.Key);
+
+		builder.Property(idempotencyKey => idempotencyKey.Key).HasMaxLength(64);
+		builder.Property(idempotencyKey => idempotencyKey.JobId);
+		builder.Property(idempotencyKey => idempotencyKey.Fingerprint).IsRequired().HasMaxLength(64);
+		builder.Property(idempotencyKey => idempotencyKey.ExpiresAt).HasConversion(_dateTimeOffsetToUtcTicksConverter);
+
+		// Index used by purging of expired keys
+		builder.HasIndex(idempotencyKey => idempotencyKey.ExpiresAt);
+	}
+}
@@ -0,0 +1,49 @@
+using AsyncEndpoints.JobProcessing;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using Microsoft.EntityFrameworkCore.Storage.ValueConversion;
+
+namespace AsyncEndpoints.EntityFrameworkCore.Configuration;
+
+/// <summary>
+/// Configures how <see cref="WorkerHeartbeat"/> entities are stored by the Entity Framework Core job store.
+/// </summary>
+/// <remarks>
+/// Each worker keeps a single row holding its latest heartbeat. The queues and job IDs are stored as JSON columns,
+/// and the timestamps as UTC ticks, like the timestamps of jobs.
+/// </remarks>
+/// <param name="tableName">The name of the table worker heartbeats are stored in.</param>
+/// <param name="schema">The schema of the table, or null to use the default schema.</param>
+public class WorkerHeartbeatEntityTypeConfiguration(string tableName = WorkerHeartbeatEntityTypeConfiguration.DefaultTableName, string? schema = null) : IEntityTypeConfiguration<WorkerHeartbeat>
+{
+	/// <summary>
+	/// The default name of the table worker heartbeats are stored in.
+	/// </summary>
+	public const string DefaultTableName = "AsyncEndpointsWorkers";
+
+	private static readonly ValueConverter<DateTimeOffset, long> _dateTimeOffsetToUtcTicksConverter = new(
+		value => value.UtcTicks,
+		value => new DateTimeOffset(value, TimeSpan.Zero));
+
+	private readonly string _tableName = tableName;
+	private readonly string? _schema = schema;
+
+	/// <inheritdoc />
+	public void Configure(EntityTypeBuilder<WorkerHeartbeat> builder)
+	{
+		builder.ToTable(_tableName, _schema);
+		builder.HasKey(heartbeat => heartbeat.WorkerId);
+
+		builder.Property(heartbeat => heartbeat.WorkerId).ValueGeneratedNever();
+		builder.Property(heartbeat => heartbeat.HostName).IsRequired().HasMaxLength(256);
+		builder.Property(heartbeat => heartbeat.MaximumConcurrency);
+		builder.Property(heartbeat => heartbeat.Queues).HasJsonConversion().IsRequired();
+		builder.Property(heartbeat => heartbeat.JobIds).HasJsonConversion().IsRequired();
+		builder.Property(heartbeat => heartbeat.StartedAt).HasConversion(_dateTimeOffsetToUtcTicksConverter);
+		builder.Property(heartbeat => heartbeat.LastHeartbeatAt).HasConversion(_dateTimeOffsetToUtcTicksConverter);
+		builder.Property(heartbeat => heartbeat.ExpiresAt).HasConversion(_dateTimeOffsetToUtcTicksConverter);
+
+		// Index used by listing of live workers and purging of dead workers
+		builder.HasIndex(heartbeat => heartbeat.ExpiresAt);
+	}
+}
@@ -0,0 +1,30 @@
+using AsyncEndpoints.EntityFrameworkCore.Configuration;
+using Microsoft.EntityFrameworkCore;
+
+namespace AsyncEndpoints.EntityFrameworkCore.Extensions;
+
+/// <summary>
+/// Extension methods for adding the AsyncEndpoints job model to an Entity Framework Core model.
+/// </summary>
+public static class ModelBuilderExtensions
+{
+	/// <summary>
+	/// Adds the <see cref="JobProcessing.Job"/>, <see cref="JobProcessing.JobIdempotencyKey"/> and <see cref="JobProcessing.WorkerHeartbeat"/> entities used by the Entity Framework Core job store to the model.
+	/// Call this from <see cref="DbContext.OnModelCreating(ModelBuilder)"/> of the context passed to
+	/// <see cref="EntityFrameworkServiceCollectionExtensions.AddAsyncEndpointsEntityFrameworkStore{TDbContext}(Microsoft.Extensions.DependencyInjection.IServiceCollection)"/>.
+	/// </summary>
+	/// <param name="modelBuilder">The <see cref="ModelBuilder"/> of the context.</param>
+	/// <param name="tableName">The name of the table jobs are stored in.</param>
+	/// <param name="schema">The schema of the tables, or null to use the default schema.</param>
+	/// <param name="idempotencyKeyTableName">The name of the table idempotency keys are stored in.</param>
+	/// <param name="workerTableName">The name of the table worker heartbeats are stored in.</param>
+	/// <returns>The <see cref="ModelBuilder"/> for method chaining.</returns>
+	public static ModelBuilder ApplyAsyncEndpointsJobConfiguration(this ModelBuilder modelBuilder, string tableName = JobEntityTypeConfiguration.DefaultTableName, string? schema = null,
+		string idempotencyKeyTableName = JobIdempotencyKeyEntityTypeConfiguration.DefaultTableName, string workerTableName = WorkerHeartbeatEntityTypeConfiguration.DefaultTableName)
+	{
+		return modelBuilder
+			.ApplyConfiguration(new JobEntityTypeConfiguration(tableName, schema))
+			.ApplyConfiguration(new JobIdempotencyKeyEntityTypeConfiguration(idempotencyKeyTableName, schema))
+			.ApplyConfiguration(new WorkerHeartbeatEntityTypeConfiguration(workerTableName, schema));
+	}
+}
@@ -0,0 +1,31 @@
+using AsyncEndpoints.EntityFrameworkCore.Storage;
+using AsyncEndpoints.JobProcessing;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.DependencyInjection;
+
+namespace AsyncEndpoints.EntityFrameworkCore.Extensions;
+
+/// <summary>
+/// Extension methods for configuring and registering AsyncEndpoints Entity Framework Core services with the dependency injection container.
+/// </summary>
+public static class EntityFrameworkServiceCollectionExtensions
+{
+	/// <summary>
+	/// Adds an Entity Framework Core based job store implementation to the dependency injection container.
+	/// Use this for production deployments on relational databases such as SQL Server or PostgreSQL that require persistence and distributed processing.
+	/// </summary>
+	/// <remarks>
+	/// The context must be registered separately, for example with <c>AddDbContext</c> or <c>AddDbContextFactory</c>,
+	/// and its model must include the job entity through <see cref="ModelBuilderExtensions.ApplyAsyncEndpointsJobConfiguration"/>.
+	/// </remarks>
+	/// <typeparam name="TDbContext">The type of the context jobs are stored with.</typeparam>
+	/// <param name="services">The <see cref="IServiceCollection"/> to add services to.</param>
+	/// <returns>The <see cref="IServiceCollection"/> for method chaining.</returns>
+	public static IServiceCollection AddAsyncEndpointsEntityFrameworkStore<TDbContext>(this IServiceCollection services)
+		where TDbContext : DbContext
+	{
+		services.AddSingleton<IJobStore, EntityFrameworkJobStore<TDbContext>>();
+
+		return services;
+	}
+}
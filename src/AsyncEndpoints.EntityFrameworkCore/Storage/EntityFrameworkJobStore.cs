@@ -0,0 +1,1710 @@
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.EntityFrameworkCore.Configuration;
+using AsyncEndpoints.Infrastructure;
+using AsyncEndpoints.Infrastructure.Observability;
+using AsyncEndpoints.JobProcessing;
+using AsyncEndpoints.Utilities;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+using System.Diagnostics;
+
+namespace AsyncEndpoints.EntityFrameworkCore.Storage;
+
+/// <inheritdoc />
+/// <summary>
+/// An Entity Framework Core implementation of IJobStore that stores jobs in a relational database, suitable for multi-instance deployments.
+/// Concurrent claims and updates of the same job are detected with an optimistic concurrency token, and job recovery is supported.
+/// </summary>
+/// <remarks>
+/// Each operation resolves a new <typeparamref name="TDbContext"/> from its own service scope, so the store can be registered as a singleton.
+/// Status change notifications only reach clients connected to the same instance.
+/// </remarks>
+/// <typeparam name="TDbContext">The type of the context jobs are stored with.</typeparam>
+public class EntityFrameworkJobStore<TDbContext>(ILogger<EntityFrameworkJobStore<TDbContext>> logger, IServiceScopeFactory serviceScopeFactory, IDateTimeProvider dateTimeProvider, IAsyncEndpointsObservability metrics, IJobStatusNotifier jobStatusNotifier, IOptions<AsyncEndpointsConfigurations> options) : IJobStore
+	where TDbContext : DbContext
+{
+	private readonly ILogger<EntityFrameworkJobStore<TDbContext>> _logger = logger;
+	private readonly IServiceScopeFactory _serviceScopeFactory = serviceScopeFactory;
+	private readonly IDateTimeProvider _dateTimeProvider = dateTimeProvider;
+	private readonly IAsyncEndpointsObservability _metrics = metrics;
+	private readonly IJobStatusNotifier _jobStatusNotifier = jobStatusNotifier;
+	private readonly AsyncEndpointsRetentionConfigurations _retentionConfigurations = options.Value.RetentionConfigurations;
+
+	private static readonly string _jobStoreErrorCode = "JOB_STORE_ERROR";
+	private static readonly string _createJobOperationName = "CreateJob";
+	private static readonly string _createJobWithIdempotencyKeyOperationName = "CreateJobWithIdempotencyKey";
+	private static readonly string _getJobByIdOperationName = "GetJobById";
+	private static readonly string _updateJobOperationName = "UpdateJob";
+	private static readonly string _updateInProgressJobOperationName = "UpdateInProgressJob";
+	private static readonly string _updateJobProgressOperationName = "UpdateJobProgress";
+	private static readonly string _updateJobCallbackOperationName = "UpdateJobCallback";
+	private static readonly string _claimNextJobOperationName = "ClaimNextJob";
+	private static readonly string _claimNextJobsOperationName = "ClaimNextJobs";
+	private static readonly string _cancelJobOperationName = "CancelJob";
+	private static readonly string _requeueJobOperationName = "RequeueJob";
+	private static readonly string _releaseJobOperationName = "ReleaseJob";
+	private static readonly string _queryJobsOperationName = "QueryJobs";
+	private static readonly string _getJobStatsOperationName = "GetJobStats";
+	private static readonly string _deleteJobOperationName = "DeleteJob";
+	private static readonly string _deleteExpiredJobsOperationName = "DeleteExpiredJobs";
+	private static readonly string _saveWorkerHeartbeatOperationName = "SaveWorkerHeartbeat";
+	private static readonly string _getWorkersOperationName = "GetWorkers";
+	private static readonly string _invalidJobErrorCode = "INVALID_JOB";
+	private static readonly string _invalidJobIdErrorCode = "INVALID_JOB_ID";
+	private static readonly string _jobNotFoundErrorCode = "JOB_NOT_FOUND";
+	private static readonly string _duplicateJobErrorCode = "DUPLICATE_JOB";
+	private static readonly string _jobCreateFailedErrorCode = "JOB_CREATE_FAILED";
+	private static readonly string _jobNotCancelableErrorCode = "JOB_NOT_CANCELABLE";
+	private static readonly string _jobNotRequeueableErrorCode = "JOB_NOT_REQUEUEABLE";
+	private static readonly string _concurrencyConflict = "CONCURRENCY_CONFLICT";
+	private static readonly string _errorTypeTag = "error.type";
+	private static readonly int _claimCandidateCount = 10;
+	private static readonly int _idempotentCreateAttempts = 2;
+
+	public bool SupportsJobRecovery => true; // Entity Framework Core store supports recovery
+
+	/// <inheritdoc />
+	public async Task<MethodResult> CreateJob(Job job, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_createJobOperationName, this.GetType().Name, job?.Id);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (job == null)
+			{
+				_logger.LogWarning("Attempted to create null job");
+				_metrics.RecordStoreError(_createJobOperationName, _invalidJobErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job");
+				activity?.SetTag(_errorTypeTag, _invalidJobErrorCode);
+
+				return MethodResult.Failure(
+					AsyncEndpointError.FromCode(_invalidJobErrorCode, "Job cannot be null"));
+			}
+
+			if (job.Id == Guid.Empty)
+			{
+				_logger.LogWarning("Attempted to create job with empty ID");
+				_metrics.RecordStoreError(_createJobOperationName, _invalidJobIdErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job ID");
+				activity?.SetTag(_errorTypeTag, _invalidJobIdErrorCode);
+
+				return MethodResult.Failure(
+					AsyncEndpointError.FromCode(_invalidJobIdErrorCode, "Job ID cannot be empty"));
+			}
+
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job create operation cancelled");
+				return await Task.FromCanceled<MethodResult>(cancellationToken);
+			}
+
+			await using var scope = _serviceScopeFactory.CreateAsyncScope();
+			var dbContext = scope.ServiceProvider.GetRequiredService<TDbContext>();
+
+			if (await dbContext.Set<Job>().AnyAsync(storedJob => storedJob.Id == job.Id, cancellationToken))
+			{
+				_logger.LogError("Failed to create job with ID {JobId}", job.Id);
+				_metrics.RecordStoreError(_createJobOperationName, _duplicateJobErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Duplicate job");
+				activity?.SetTag(_errorTypeTag, _duplicateJobErrorCode);
+
+				return MethodResult.Failure(
+					AsyncEndpointError.FromCode(_jobCreateFailedErrorCode, $"Failed to create job with ID {job.Id}"));
+			}
+
+			dbContext.Add(job);
+			dbContext.Entry(job).Property(JobEntityTypeConfiguration.ClaimOrderPropertyName).CurrentValue = JobEntityTypeConfiguration.GetClaimOrder(job);
+			RenewConcurrencyStamp(dbContext, job);
+			await dbContext.SaveChangesAsync(cancellationToken);
+
+			_logger.LogInformation("Created job {JobId} with name {JobName}", job.Id, job.Name);
+			NotifyStatusChanged(job);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_createJobOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_createJobOperationName, this.GetType().Name);
+
+			return MethodResult.Success();
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_createJobOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error creating job: {JobName}", job?.Name);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_createJobOperationName, this.GetType().Name, duration);
+
+			return MethodResult.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error creating job: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<Job>> CreateJobWithIdempotencyKey(Job job, JobIdempotencyKey idempotencyKey, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_createJobWithIdempotencyKeyOperationName, this.GetType().Name, job?.Id);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (job == null)
+			{
+				_logger.LogWarning("Attempted to create null job");
+				_metrics.RecordStoreError(_createJobWithIdempotencyKeyOperationName, _invalidJobErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job");
+				activity?.SetTag(_errorTypeTag, _invalidJobErrorCode);
+
+				return MethodResult<Job>.Failure(
+					AsyncEndpointError.FromCode(_invalidJobErrorCode, "Job cannot be null"));
+			}
+
+			if (job.Id == Guid.Empty)
+			{
+				_logger.LogWarning("Attempted to create job with empty ID");
+				_metrics.RecordStoreError(_createJobWithIdempotencyKeyOperationName, _invalidJobIdErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job ID");
+				activity?.SetTag(_errorTypeTag, _invalidJobIdErrorCode);
+
+				return MethodResult<Job>.Failure(
+					AsyncEndpointError.FromCode(_invalidJobIdErrorCode, "Job ID cannot be empty"));
+			}
+
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job create operation cancelled");
+				return await Task.FromCanceled<MethodResult<Job>>(cancellationToken);
+			}
+
+			for (var attempt = 1; attempt <= _idempotentCreateAttempts; attempt++)
+			{
+				await using var scope = _serviceScopeFactory.CreateAsyncScope();
+				var dbContext = scope.ServiceProvider.GetRequiredService<TDbContext>();
+
+				var existingKey = await dbContext.Set<JobIdempotencyKey>().FirstOrDefaultAsync(storedKey => storedKey.Key == idempotencyKey.Key, cancellationToken);
+				if (existingKey != null)
+				{
+					var existingJob = existingKey.IsExpired(_dateTimeProvider.DateTimeOffsetNow) ? null
+						: await dbContext.Set<Job>().AsNoTracking().FirstOrDefaultAsync(storedJob => storedJob.Id == existingKey.JobId, cancellationToken);
+
+					if (existingJob != null)
+					{
+						if (existingKey.Fingerprint != idempotencyKey.Fingerprint)
+						{
+							_logger.LogWarning("Idempotency key of job {JobId} was reused with a different payload", existingKey.JobId);
+							_metrics.RecordStoreError(_createJobWithIdempotencyKeyOperationName, AsyncEndpointsConstants.IdempotencyKeyMismatchErrorCode, this.GetType().Name);
+							activity?.SetStatus(ActivityStatusCode.Error, "Idempotency key mismatch");
+							activity?.SetTag(_errorTypeTag, AsyncEndpointsConstants.IdempotencyKeyMismatchErrorCode);
+
+							return MethodResult<Job>.Failure(
+								AsyncEndpointError.FromCode(AsyncEndpointsConstants.IdempotencyKeyMismatchErrorCode, "Idempotency key was already used with a different payload"));
+						}
+
+						_logger.LogDebug("Found existing job {JobId} for idempotency key", existingJob.Id);
+						var existingDuration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+						_metrics.RecordStoreOperationDuration(_createJobWithIdempotencyKeyOperationName, this.GetType().Name, existingDuration);
+						_metrics.RecordStoreOperation(_createJobWithIdempotencyKeyOperationName, this.GetType().Name);
+
+						return MethodResult<Job>.Success(existingJob);
+					}
+
+					// Keys that expired, or whose job expired or was deleted, are replaced in the same save as the new job
+					dbContext.Remove(existingKey);
+				}
+
+				if (await dbContext.Set<Job>().AnyAsync(storedJob => storedJob.Id == job.Id, cancellationToken))
+				{
+					break;
+				}
+
+				dbContext.Add(job);
+				dbContext.Entry(job).Property(JobEntityTypeConfiguration.ClaimOrderPropertyName).CurrentValue = JobEntityTypeConfiguration.GetClaimOrder(job);
+				RenewConcurrencyStamp(dbContext, job);
+				dbContext.Add(idempotencyKey);
+
+				try
+				{
+					await dbContext.SaveChangesAsync(cancellationToken);
+				}
+				catch (DbUpdateException) when (attempt < _idempotentCreateAttempts)
+				{
+					// Another submission stored or replaced the same key in the meantime, so the key is looked up again
+					continue;
+				}
+
+				_logger.LogInformation("Created job {JobId} with name {JobName} for idempotency key", job.Id, job.Name);
+				NotifyStatusChanged(job);
+				var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+				_metrics.RecordStoreOperationDuration(_createJobWithIdempotencyKeyOperationName, this.GetType().Name, duration);
+				_metrics.RecordStoreOperation(_createJobWithIdempotencyKeyOperationName, this.GetType().Name);
+
+				return MethodResult<Job>.Success(job);
+			}
+
+			_logger.LogError("Failed to create job with ID {JobId} for idempotency key", job.Id);
+			_metrics.RecordStoreError(_createJobWithIdempotencyKeyOperationName, _duplicateJobErrorCode, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, "Duplicate job");
+			activity?.SetTag(_errorTypeTag, _duplicateJobErrorCode);
+
+			return MethodResult<Job>.Failure(
+				AsyncEndpointError.FromCode(_jobCreateFailedErrorCode, $"Failed to create job with ID {job.Id}"));
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_createJobWithIdempotencyKeyOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error creating job: {JobName}", job?.Name);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_createJobWithIdempotencyKeyOperationName, this.GetType().Name, duration);
+
+			return MethodResult<Job>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error creating job: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<Job>> GetJobById(Guid id, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_getJobByIdOperationName, this.GetType().Name, id);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (id == Guid.Empty)
+			{
+				_logger.LogWarning("Attempted to retrieve job with empty ID");
+				_metrics.RecordStoreError(_getJobByIdOperationName, _invalidJobIdErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job ID");
+				activity?.SetTag(_errorTypeTag, _invalidJobIdErrorCode);
+
+				return MethodResult<Job>.Failure(
+					AsyncEndpointError.FromCode(_invalidJobIdErrorCode, "Job ID cannot be empty"));
+			}
+
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job get operation cancelled for ID {JobId}", id);
+				return await Task.FromCanceled<MethodResult<Job>>(cancellationToken);
+			}
+
+			await using var scope = _serviceScopeFactory.CreateAsyncScope();
+			var dbContext = scope.ServiceProvider.GetRequiredService<TDbContext>();
+
+			var job = await dbContext.Set<Job>().AsNoTracking().FirstOrDefaultAsync(storedJob => storedJob.Id == id, cancellationToken);
+
+			if (job == null)
+			{
+				_logger.LogWarning("Job not found with Id {JobId} from store", id);
+				_metrics.RecordStoreError(_getJobByIdOperationName, _jobNotFoundErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Job not found");
+				activity?.SetTag(_errorTypeTag, _jobNotFoundErrorCode);
+
+				return MethodResult<Job>.Failure(
+					AsyncEndpointError.FromCode(_jobNotFoundErrorCode, $"Job with ID {id} not found"));
+			}
+
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_getJobByIdOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_getJobByIdOperationName, this.GetType().Name);
+
+			return MethodResult<Job>.Success(job);
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_getJobByIdOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error retrieving job: {JobId}", id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_getJobByIdOperationName, this.GetType().Name, duration);
+
+			return MethodResult<Job>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error retrieving job: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult> UpdateJob(Job job, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_updateJobOperationName, this.GetType().Name, job?.Id);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (job == null)
+			{
+				_logger.LogWarning("Attempted to update null job");
+				_metrics.RecordStoreError(_updateJobOperationName, _invalidJobErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job");
+				activity?.SetTag(_errorTypeTag, _invalidJobErrorCode);
+
+				return MethodResult.Failure(
+					AsyncEndpointError.FromCode(_invalidJobErrorCode, "Job cannot be null"));
+			}
+
+			if (job.Id == Guid.Empty)
+			{
+				_logger.LogWarning("Attempted to update job with empty ID");
+				_metrics.RecordStoreError(_updateJobOperationName, _invalidJobIdErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job ID");
+				activity?.SetTag(_errorTypeTag, _invalidJobIdErrorCode);
+
+				return MethodResult.Failure(
+					AsyncEndpointError.FromCode(_invalidJobIdErrorCode, "Job ID cannot be empty"));
+			}
+
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job update operation cancelled for ID {JobId}", job.Id);
+				return await Task.FromCanceled<MethodResult>(cancellationToken);
+			}
+
+			await using var scope = _serviceScopeFactory.CreateAsyncScope();
+			var dbContext = scope.ServiceProvider.GetRequiredService<TDbContext>();
+
+			var existingJob = await dbContext.Set<Job>().FirstOrDefaultAsync(storedJob => storedJob.Id == job.Id, cancellationToken);
+			if (existingJob == null)
+			{
+				_logger.LogWarning("Attempted to update non-existent job {JobId}", job.Id);
+				_metrics.RecordStoreError(_updateJobOperationName, _jobNotFoundErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Job not found");
+				activity?.SetTag(_errorTypeTag, _jobNotFoundErrorCode);
+
+				return MethodResult.Failure(
+					AsyncEndpointError.FromCode(_jobNotFoundErrorCode, $"Job with ID {job.Id} not found"));
+			}
+
+			ApplyUpdate(existingJob, job);
+			RenewConcurrencyStamp(dbContext, existingJob);
+
+			try
+			{
+				await dbContext.SaveChangesAsync(cancellationToken);
+			}
+			catch (DbUpdateConcurrencyException)
+			{
+				// Another instance modified the job between our read and update
+				_logger.LogWarning("Job {JobId} was modified by another instance during update", job.Id);
+				_metrics.RecordStoreError(_updateJobOperationName, _concurrencyConflict, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Concurrency conflict");
+				activity?.SetTag(_errorTypeTag, _concurrencyConflict);
+
+				return MethodResult.Failure(
+					AsyncEndpointError.FromCode("JOB_UPDATE_CONFLICT", "Job was modified by another instance"));
+			}
+
+			_logger.LogDebug("Updated job {JobId}", job.Id);
+			NotifyStatusChanged(existingJob);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_updateJobOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_updateJobOperationName, this.GetType().Name);
+
+			return MethodResult.Success();
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_updateJobOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error updating job: {JobId}", job?.Id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_updateJobOperationName, this.GetType().Name, duration);
+
+			return MethodResult.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error updating job: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<bool>> UpdateInProgressJob(Job job, Guid? workerId, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_updateInProgressJobOperationName, this.GetType().Name, job?.Id);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (job == null)
+			{
+				_logger.LogWarning("Attempted to update null job");
+				_metrics.RecordStoreError(_updateInProgressJobOperationName, _invalidJobErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job");
+				activity?.SetTag(_errorTypeTag, _invalidJobErrorCode);
+
+				return MethodResult<bool>.Failure(
+					AsyncEndpointError.FromCode(_invalidJobErrorCode, "Job cannot be null"));
+			}
+
+			if (job.Id == Guid.Empty)
+			{
+				_logger.LogWarning("Attempted to update job with empty ID");
+				_metrics.RecordStoreError(_updateInProgressJobOperationName, _invalidJobIdErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job ID");
+				activity?.SetTag(_errorTypeTag, _invalidJobIdErrorCode);
+
+				return MethodResult<bool>.Failure(
+					AsyncEndpointError.FromCode(_invalidJobIdErrorCode, "Job ID cannot be empty"));
+			}
+
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job update operation cancelled for ID {JobId}", job.Id);
+				return await Task.FromCanceled<MethodResult<bool>>(cancellationToken);
+			}
+
+			await using var scope = _serviceScopeFactory.CreateAsyncScope();
+			var dbContext = scope.ServiceProvider.GetRequiredService<TDbContext>();
+
+			// Retry on concurrency conflicts so that a job canceled, released or recovered concurrently is left alone
+			Job? currentJob;
+			while (true)
+			{
+				currentJob = await dbContext.Set<Job>().FirstOrDefaultAsync(storedJob => storedJob.Id == job.Id, cancellationToken);
+				if (currentJob == null || currentJob.Status != JobStatus.InProgress || currentJob.WorkerId != workerId)
+				{
+					_logger.LogDebug("Job {JobId} is no longer held by worker {WorkerId}, skipping update", job.Id, workerId);
+					return MethodResult<bool>.Success(false);
+				}
+
+				ApplyUpdate(currentJob, job);
+				RenewConcurrencyStamp(dbContext, currentJob);
+
+				if (await TrySaveChanges(dbContext, cancellationToken))
+				{
+					break;
+				}
+			}
+
+			_logger.LogDebug("Updated in-progress job {JobId}", job.Id);
+			NotifyStatusChanged(currentJob);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_updateInProgressJobOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_updateInProgressJobOperationName, this.GetType().Name);
+
+			return MethodResult<bool>.Success(true);
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_updateInProgressJobOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error updating in-progress job: {JobId}", job?.Id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_updateInProgressJobOperationName, this.GetType().Name, duration);
+
+			return MethodResult<bool>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error updating in-progress job: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<Job>> ClaimNextJobForWorker(Guid workerId, string? queue, CancellationToken cancellationToken)
+	{
+		using var _ = _logger.BeginScope(new { WorkerId = workerId });
+
+		// Start activity only if tracing is enabled
+		// Note: We don't know the specific job ID yet, so we'll pass null
+		using var activity = _metrics.StartStoreOperationActivity(_claimNextJobOperationName, this.GetType().Name);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Claim next job for worker operation cancelled");
+				return await Task.FromCanceled<MethodResult<Job>>(cancellationToken);
+			}
+
+			_logger.LogDebug("Attempting to claim next job for worker {WorkerId}", workerId);
+
+			await using var scope = _serviceScopeFactory.CreateAsyncScope();
+			var dbContext = scope.ServiceProvider.GetRequiredService<TDbContext>();
+
+			var now = _dateTimeProvider.UtcNow;
+
+			// Find the oldest available jobs, adjusted by priority; other workers may claim some of them before we do
+			var candidateJobIds = await dbContext.Set<Job>()
+				.AsNoTracking()
+				.Where(job => job.WorkerId == null)
+				.Where(job => queue == null || job.Queue == queue)
+				.Where(job =>
+					job.Status == JobStatus.Queued ||
+					job.Status == JobStatus.Scheduled &&
+					(job.RetryDelayUntil == null || job.RetryDelayUntil <= now)
+				)
+				.OrderBy(job => EF.Property<long>(job, JobEntityTypeConfiguration.ClaimOrderPropertyName)) // Claim the oldest job first
+				.Select(job => job.Id)
+				.Take(_claimCandidateCount)
+				.ToListAsync(cancellationToken);
+
+			foreach (var candidateJobId in candidateJobIds)
+			{
+				var claimedJob = await TryClaimJob(dbContext, candidateJobId, workerId, cancellationToken);
+				if (claimedJob == null)
+				{
+					continue;
+				}
+
+				_logger.LogInformation("Successfully claimed job {JobId} for worker {WorkerId}", claimedJob.Id, workerId);
+				NotifyStatusChanged(claimedJob);
+				activity?.SetTag("job.id", claimedJob.Id.ToString());
+				var successDuration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+				_metrics.RecordStoreOperationDuration(_claimNextJobOperationName, this.GetType().Name, successDuration);
+				_metrics.RecordStoreOperation(_claimNextJobOperationName, this.GetType().Name);
+
+				return MethodResult<Job>.Success(claimedJob);
+			}
+
+			_logger.LogDebug("No available jobs to claim for worker {WorkerId}", workerId);
+			// Return successful result with null data to indicate no jobs available (not an error)
+			var noJobsDuration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_claimNextJobOperationName, this.GetType().Name, noJobsDuration);
+			_metrics.RecordStoreOperation(_claimNextJobOperationName, this.GetType().Name);
+
+			return MethodResult<Job>.Success(default);
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_claimNextJobOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error claiming next job for worker {WorkerId}", workerId);
+			var errorDuration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_claimNextJobOperationName, this.GetType().Name, errorDuration);
+
+			return MethodResult<Job>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error claiming job: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<List<Job>>> ClaimNextJobsForWorker(Guid workerId, string? queue, int maxCount, CancellationToken cancellationToken)
+	{
+		using var _ = _logger.BeginScope(new { WorkerId = workerId });
+
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_claimNextJobsOperationName, this.GetType().Name);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Claim next jobs for worker operation cancelled");
+				return await Task.FromCanceled<MethodResult<List<Job>>>(cancellationToken);
+			}
+
+			_logger.LogDebug("Attempting to claim up to {MaxCount} jobs for worker {WorkerId}", maxCount, workerId);
+
+			var claimedJobs = new List<Job>();
+			if (maxCount > 0)
+			{
+				await using var scope = _serviceScopeFactory.CreateAsyncScope();
+				var dbContext = scope.ServiceProvider.GetRequiredService<TDbContext>();
+
+				var now = _dateTimeProvider.UtcNow;
+
+				// The candidates of the whole batch are found with a single query; each of them is then claimed with its concurrency stamp
+				var candidateJobIds = await dbContext.Set<Job>()
+					.AsNoTracking()
+					.Where(job => job.WorkerId == null)
+					.Where(job => queue == null || job.Queue == queue)
+					.Where(job =>
+						job.Status == JobStatus.Queued ||
+						job.Status == JobStatus.Scheduled &&
+						(job.RetryDelayUntil == null || job.RetryDelayUntil <= now)
+					)
+					.OrderBy(job => EF.Property<long>(job, JobEntityTypeConfiguration.ClaimOrderPropertyName))
+					.Select(job => job.Id)
+					.Take(maxCount + _claimCandidateCount)
+					.ToListAsync(cancellationToken);
+
+				foreach (var candidateJobId in candidateJobIds)
+				{
+					if (claimedJobs.Count >= maxCount)
+					{
+						break;
+					}
+
+					var claimedJob = await TryClaimJob(dbContext, candidateJobId, workerId, cancellationToken);
+					if (claimedJob == null)
+					{
+						continue;
+					}
+
+					NotifyStatusChanged(claimedJob);
+					claimedJobs.Add(claimedJob);
+				}
+			}
+
+			_logger.LogDebug("Claimed {ClaimedCount} jobs for worker {WorkerId}", claimedJobs.Count, workerId);
+			activity?.SetTag("job.count", claimedJobs.Count);
+			var successDuration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_claimNextJobsOperationName, this.GetType().Name, successDuration);
+			_metrics.RecordStoreOperation(_claimNextJobsOperationName, this.GetType().Name);
+
+			return MethodResult<List<Job>>.Success(claimedJobs);
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_claimNextJobsOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error claiming next jobs for worker {WorkerId}", workerId);
+			var errorDuration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_claimNextJobsOperationName, this.GetType().Name, errorDuration);
+
+			return MethodResult<List<Job>>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error claiming jobs: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult> UpdateJobProgress(Guid id, JobProgress progress, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_updateJobProgressOperationName, this.GetType().Name, id);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (id == Guid.Empty)
+			{
+				_logger.LogWarning("Attempted to update progress of job with empty ID");
+				_metrics.RecordStoreError(_updateJobProgressOperationName, _invalidJobIdErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job ID");
+				activity?.SetTag(_errorTypeTag, _invalidJobIdErrorCode);
+
+				return MethodResult.Failure(
+					AsyncEndpointError.FromCode(_invalidJobIdErrorCode, "Job ID cannot be empty"));
+			}
+
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job progress update operation cancelled for ID {JobId}", id);
+				return await Task.FromCanceled<MethodResult>(cancellationToken);
+			}
+
+			await using var scope = _serviceScopeFactory.CreateAsyncScope();
+			var dbContext = scope.ServiceProvider.GetRequiredService<TDbContext>();
+
+			// Retry on concurrency conflicts so that concurrent status changes, such as cancellations, are never overwritten
+			Job? currentJob;
+			while (true)
+			{
+				currentJob = await dbContext.Set<Job>().FirstOrDefaultAsync(storedJob => storedJob.Id == id, cancellationToken);
+				if (currentJob == null)
+				{
+					_logger.LogWarning("Attempted to update progress of non-existent job {JobId}", id);
+					_metrics.RecordStoreError(_updateJobProgressOperationName, _jobNotFoundErrorCode, this.GetType().Name);
+					activity?.SetStatus(ActivityStatusCode.Error, "Job not found");
+					activity?.SetTag(_errorTypeTag, _jobNotFoundErrorCode);
+
+					return MethodResult.Failure(
+						AsyncEndpointError.FromCode(_jobNotFoundErrorCode, $"Job with ID {id} not found"));
+				}
+
+				if (currentJob.Status != JobStatus.InProgress)
+				{
+					_logger.LogDebug("Ignoring progress of job {JobId} in status {Status}", id, currentJob.Status);
+					return MethodResult.Success();
+				}
+
+				currentJob.Progress = progress;
+				currentJob.LastUpdatedAt = _dateTimeProvider.DateTimeOffsetNow;
+				RenewConcurrencyStamp(dbContext, currentJob);
+
+				if (await TrySaveChanges(dbContext, cancellationToken))
+				{
+					break;
+				}
+			}
+
+			_logger.LogDebug("Updated progress of job {JobId}", id);
+			NotifyStatusChanged(currentJob);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_updateJobProgressOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_updateJobProgressOperationName, this.GetType().Name);
+
+			return MethodResult.Success();
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_updateJobProgressOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error updating progress of job: {JobId}", id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_updateJobProgressOperationName, this.GetType().Name, duration);
+
+			return MethodResult.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error updating job progress: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult> UpdateJobCallback(Guid id, JobCallback callback, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_updateJobCallbackOperationName, this.GetType().Name, id);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (id == Guid.Empty)
+			{
+				_logger.LogWarning("Attempted to update callback of job with empty ID");
+				_metrics.RecordStoreError(_updateJobCallbackOperationName, _invalidJobIdErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job ID");
+				activity?.SetTag(_errorTypeTag, _invalidJobIdErrorCode);
+
+				return MethodResult.Failure(
+					AsyncEndpointError.FromCode(_invalidJobIdErrorCode, "Job ID cannot be empty"));
+			}
+
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job callback update operation cancelled for ID {JobId}", id);
+				return await Task.FromCanceled<MethodResult>(cancellationToken);
+			}
+
+			await using var scope = _serviceScopeFactory.CreateAsyncScope();
+			var dbContext = scope.ServiceProvider.GetRequiredService<TDbContext>();
+
+			// Retry on concurrency conflicts so that concurrent changes of other job fields are never overwritten
+			Job? currentJob;
+			while (true)
+			{
+				currentJob = await dbContext.Set<Job>().FirstOrDefaultAsync(storedJob => storedJob.Id == id, cancellationToken);
+				if (currentJob == null)
+				{
+					_logger.LogWarning("Attempted to update callback of non-existent job {JobId}", id);
+					_metrics.RecordStoreError(_updateJobCallbackOperationName, _jobNotFoundErrorCode, this.GetType().Name);
+					activity?.SetStatus(ActivityStatusCode.Error, "Job not found");
+					activity?.SetTag(_errorTypeTag, _jobNotFoundErrorCode);
+
+					return MethodResult.Failure(
+						AsyncEndpointError.FromCode(_jobNotFoundErrorCode, $"Job with ID {id} not found"));
+				}
+
+				currentJob.Callback = callback.CreateCopy();
+				RenewConcurrencyStamp(dbContext, currentJob);
+
+				if (await TrySaveChanges(dbContext, cancellationToken))
+				{
+					break;
+				}
+			}
+
+			_logger.LogDebug("Updated callback of job {JobId}", id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_updateJobCallbackOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_updateJobCallbackOperationName, this.GetType().Name);
+
+			return MethodResult.Success();
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_updateJobCallbackOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error updating callback of job: {JobId}", id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_updateJobCallbackOperationName, this.GetType().Name, duration);
+
+			return MethodResult.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error updating job callback: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<Job>> CancelJob(Guid id, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_cancelJobOperationName, this.GetType().Name, id);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (id == Guid.Empty)
+			{
+				_logger.LogWarning("Attempted to cancel job with empty ID");
+				_metrics.RecordStoreError(_cancelJobOperationName, _invalidJobIdErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job ID");
+				activity?.SetTag(_errorTypeTag, _invalidJobIdErrorCode);
+
+				return MethodResult<Job>.Failure(
+					AsyncEndpointError.FromCode(_invalidJobIdErrorCode, "Job ID cannot be empty"));
+			}
+
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job cancel operation cancelled for ID {JobId}", id);
+				return await Task.FromCanceled<MethodResult<Job>>(cancellationToken);
+			}
+
+			await using var scope = _serviceScopeFactory.CreateAsyncScope();
+			var dbContext = scope.ServiceProvider.GetRequiredService<TDbContext>();
+
+			// Retry on concurrency conflicts so that the cancellation is applied to the latest state of the job
+			Job? currentJob;
+			JobStatus previousStatus;
+			while (true)
+			{
+				currentJob = await dbContext.Set<Job>().FirstOrDefaultAsync(storedJob => storedJob.Id == id, cancellationToken);
+				if (currentJob == null)
+				{
+					_logger.LogWarning("Attempted to cancel non-existent job {JobId}", id);
+					_metrics.RecordStoreError(_cancelJobOperationName, _jobNotFoundErrorCode, this.GetType().Name);
+					activity?.SetStatus(ActivityStatusCode.Error, "Job not found");
+					activity?.SetTag(_errorTypeTag, _jobNotFoundErrorCode);
+
+					return MethodResult<Job>.Failure(
+						AsyncEndpointError.FromCode(_jobNotFoundErrorCode, $"Job with ID {id} not found"));
+				}
+
+				if (currentJob.Status == JobStatus.Canceled)
+				{
+					_logger.LogDebug("Job {JobId} is already canceled", id);
+					return MethodResult<Job>.Success(currentJob);
+				}
+
+				if (currentJob.Status is not (JobStatus.Queued or JobStatus.Scheduled or JobStatus.InProgress))
+				{
+					_logger.LogWarning("Attempted to cancel job {JobId} in status {Status}", id, currentJob.Status);
+					_metrics.RecordStoreError(_cancelJobOperationName, _jobNotCancelableErrorCode, this.GetType().Name);
+					activity?.SetStatus(ActivityStatusCode.Error, "Job not cancelable");
+					activity?.SetTag(_errorTypeTag, _jobNotCancelableErrorCode);
+
+					return MethodResult<Job>.Failure(
+						AsyncEndpointError.FromCode(_jobNotCancelableErrorCode, $"Job with ID {id} cannot be canceled in status {currentJob.Status}"));
+				}
+
+				var now = _dateTimeProvider.DateTimeOffsetNow;
+				previousStatus = currentJob.Status;
+				currentJob.Status = JobStatus.Canceled;
+				currentJob.CompletedAt = now;
+				currentJob.LastUpdatedAt = now;
+				RenewConcurrencyStamp(dbContext, currentJob);
+
+				if (await TrySaveChanges(dbContext, cancellationToken))
+				{
+					break;
+				}
+			}
+
+			_logger.LogInformation("Canceled job {JobId} previously in status {Status}", id, previousStatus);
+			NotifyStatusChanged(currentJob);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_cancelJobOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_cancelJobOperationName, this.GetType().Name);
+
+			return MethodResult<Job>.Success(currentJob);
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_cancelJobOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error canceling job: {JobId}", id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_cancelJobOperationName, this.GetType().Name, duration);
+
+			return MethodResult<Job>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error canceling job: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<Job>> RequeueJob(Guid id, bool resetRetries, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_requeueJobOperationName, this.GetType().Name, id);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (id == Guid.Empty)
+			{
+				_logger.LogWarning("Attempted to requeue job with empty ID");
+				_metrics.RecordStoreError(_requeueJobOperationName, _invalidJobIdErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job ID");
+				activity?.SetTag(_errorTypeTag, _invalidJobIdErrorCode);
+
+				return MethodResult<Job>.Failure(
+					AsyncEndpointError.FromCode(_invalidJobIdErrorCode, "Job ID cannot be empty"));
+			}
+
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job requeue operation cancelled for ID {JobId}", id);
+				return await Task.FromCanceled<MethodResult<Job>>(cancellationToken);
+			}
+
+			await using var scope = _serviceScopeFactory.CreateAsyncScope();
+			var dbContext = scope.ServiceProvider.GetRequiredService<TDbContext>();
+
+			// Retry on concurrency conflicts so that a job requeued concurrently is only requeued once
+			Job? currentJob;
+			while (true)
+			{
+				currentJob = await dbContext.Set<Job>().FirstOrDefaultAsync(storedJob => storedJob.Id == id, cancellationToken);
+				if (currentJob == null)
+				{
+					_logger.LogWarning("Attempted to requeue non-existent job {JobId}", id);
+					_metrics.RecordStoreError(_requeueJobOperationName, _jobNotFoundErrorCode, this.GetType().Name);
+					activity?.SetStatus(ActivityStatusCode.Error, "Job not found");
+					activity?.SetTag(_errorTypeTag, _jobNotFoundErrorCode);
+
+					return MethodResult<Job>.Failure(
+						AsyncEndpointError.FromCode(_jobNotFoundErrorCode, $"Job with ID {id} not found"));
+				}
+
+				if (currentJob.Status != JobStatus.Failed)
+				{
+					_logger.LogWarning("Attempted to requeue job {JobId} in status {Status}", id, currentJob.Status);
+					_metrics.RecordStoreError(_requeueJobOperationName, _jobNotRequeueableErrorCode, this.GetType().Name);
+					activity?.SetStatus(ActivityStatusCode.Error, "Job not requeueable");
+					activity?.SetTag(_errorTypeTag, _jobNotRequeueableErrorCode);
+
+					return MethodResult<Job>.Failure(
+						AsyncEndpointError.FromCode(_jobNotRequeueableErrorCode, $"Job with ID {id} cannot be requeued in status {currentJob.Status}"));
+				}
+
+				currentJob.Requeue(resetRetries, _dateTimeProvider);
+				RenewConcurrencyStamp(dbContext, currentJob);
+
+				if (await TrySaveChanges(dbContext, cancellationToken))
+				{
+					break;
+				}
+			}
+
+			_logger.LogInformation("Requeued failed job {JobId}", id);
+			NotifyStatusChanged(currentJob);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_requeueJobOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_requeueJobOperationName, this.GetType().Name);
+
+			return MethodResult<Job>.Success(currentJob);
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_requeueJobOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error requeuing job: {JobId}", id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_requeueJobOperationName, this.GetType().Name, duration);
+
+			return MethodResult<Job>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error requeuing job: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult> ReleaseJob(Guid id, Guid workerId, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_releaseJobOperationName, this.GetType().Name, id);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (id == Guid.Empty)
+			{
+				_logger.LogWarning("Attempted to release job with empty ID");
+				_metrics.RecordStoreError(_releaseJobOperationName, _invalidJobIdErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job ID");
+				activity?.SetTag(_errorTypeTag, _invalidJobIdErrorCode);
+
+				return MethodResult.Failure(
+					AsyncEndpointError.FromCode(_invalidJobIdErrorCode, "Job ID cannot be empty"));
+			}
+
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job release operation cancelled for ID {JobId}", id);
+				return await Task.FromCanceled<MethodResult>(cancellationToken);
+			}
+
+			await using var scope = _serviceScopeFactory.CreateAsyncScope();
+			var dbContext = scope.ServiceProvider.GetRequiredService<TDbContext>();
+
+			// Retry on concurrency conflicts so that a job canceled or recovered concurrently is left alone
+			Job? currentJob;
+			while (true)
+			{
+				currentJob = await dbContext.Set<Job>().FirstOrDefaultAsync(storedJob => storedJob.Id == id, cancellationToken);
+				if (currentJob == null)
+				{
+					_logger.LogWarning("Attempted to release non-existent job {JobId}", id);
+					_metrics.RecordStoreError(_releaseJobOperationName, _jobNotFoundErrorCode, this.GetType().Name);
+					activity?.SetStatus(ActivityStatusCode.Error, "Job not found");
+					activity?.SetTag(_errorTypeTag, _jobNotFoundErrorCode);
+
+					return MethodResult.Failure(
+						AsyncEndpointError.FromCode(_jobNotFoundErrorCode, $"Job with ID {id} not found"));
+				}
+
+				// The job was canceled, recovered or claimed by another worker in the meantime, so it is left alone
+				if (currentJob.Status != JobStatus.InProgress || currentJob.WorkerId != workerId)
+				{
+					_logger.LogDebug("Job {JobId} is no longer held by worker {WorkerId}, skipping release", id, workerId);
+					return MethodResult.Success();
+				}
+
+				currentJob.RecordRun(JobRunOutcome.Released, null, _dateTimeProvider);
+				currentJob.Requeue(false, _dateTimeProvider);
+				RenewConcurrencyStamp(dbContext, currentJob);
+
+				if (await TrySaveChanges(dbContext, cancellationToken))
+				{
+					break;
+				}
+			}
+
+			_logger.LogInformation("Released job {JobId} claimed by worker {WorkerId}", id, workerId);
+			NotifyStatusChanged(currentJob);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_releaseJobOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_releaseJobOperationName, this.GetType().Name);
+
+			return MethodResult.Success();
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_releaseJobOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error releasing job: {JobId}", id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_releaseJobOperationName, this.GetType().Name, duration);
+
+			return MethodResult.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error releasing job: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult> DeleteJob(Guid id, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_deleteJobOperationName, this.GetType().Name, id);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (id == Guid.Empty)
+			{
+				_logger.LogWarning("Attempted to delete job with empty ID");
+				_metrics.RecordStoreError(_deleteJobOperationName, _invalidJobIdErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job ID");
+				activity?.SetTag(_errorTypeTag, _invalidJobIdErrorCode);
+
+				return MethodResult.Failure(
+					AsyncEndpointError.FromCode(_invalidJobIdErrorCode, "Job ID cannot be empty"));
+			}
+
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job delete operation cancelled for ID {JobId}", id);
+				return await Task.FromCanceled<MethodResult>(cancellationToken);
+			}
+
+			await using var scope = _serviceScopeFactory.CreateAsyncScope();
+			var dbContext = scope.ServiceProvider.GetRequiredService<TDbContext>();
+
+			var deletedCount = await dbContext.Set<Job>()
+				.Where(job => job.Id == id)
+				.ExecuteDeleteAsync(cancellationToken);
+
+			if (deletedCount == 0)
+			{
+				_logger.LogWarning("Attempted to delete non-existent job {JobId}", id);
+				_metrics.RecordStoreError(_deleteJobOperationName, _jobNotFoundErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Job not found");
+				activity?.SetTag(_errorTypeTag, _jobNotFoundErrorCode);
+
+				return MethodResult.Failure(
+					AsyncEndpointError.FromCode(_jobNotFoundErrorCode, $"Job with ID {id} not found"));
+			}
+
+			_logger.LogInformation("Deleted job {JobId}", id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_deleteJobOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_deleteJobOperationName, this.GetType().Name);
+
+			return MethodResult.Success();
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_deleteJobOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error deleting job: {JobId}", id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_deleteJobOperationName, this.GetType().Name, duration);
+
+			return MethodResult.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error deleting job: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<int>> DeleteExpiredJobs(int maxCount, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_deleteExpiredJobsOperationName, this.GetType().Name);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Expired job deletion cancelled");
+				return await Task.FromCanceled<MethodResult<int>>(cancellationToken);
+			}
+
+			await using var scope = _serviceScopeFactory.CreateAsyncScope();
+			var dbContext = scope.ServiceProvider.GetRequiredService<TDbContext>();
+
+			var now = _dateTimeProvider.DateTimeOffsetNow;
+			var expiredJobIds = await dbContext.Set<Job>()
+				.Where(job => job.ExpiresAt != null && job.ExpiresAt <= now)
+				.OrderBy(job => job.ExpiresAt)
+				.Select(job => job.Id)
+				.Take(maxCount)
+				.ToListAsync(cancellationToken);
+
+			// The expiry is checked again, so jobs updated in the meantime are kept
+			var deletedCount = expiredJobIds.Count == 0 ? 0 : await dbContext.Set<Job>()
+				.Where(job => expiredJobIds.Contains(job.Id) && job.ExpiresAt != null && job.ExpiresAt <= now)
+				.ExecuteDeleteAsync(cancellationToken);
+
+			await dbContext.Set<JobIdempotencyKey>()
+				.Where(idempotencyKey => idempotencyKey.ExpiresAt <= now)
+				.ExecuteDeleteAsync(cancellationToken);
+
+			_logger.LogDebug("Deleted {JobCount} expired jobs", deletedCount);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_deleteExpiredJobsOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_deleteExpiredJobsOperationName, this.GetType().Name);
+
+			return MethodResult<int>.Success(deletedCount);
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_deleteExpiredJobsOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error deleting expired jobs");
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_deleteExpiredJobsOperationName, this.GetType().Name, duration);
+
+			return MethodResult<int>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error deleting expired jobs: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult> SaveWorkerHeartbeat(WorkerHeartbeat heartbeat, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_saveWorkerHeartbeatOperationName, this.GetType().Name);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Worker heartbeat operation cancelled");
+				return await Task.FromCanceled<MethodResult>(cancellationToken);
+			}
+
+			await using var scope = _serviceScopeFactory.CreateAsyncScope();
+			var dbContext = scope.ServiceProvider.GetRequiredService<TDbContext>();
+
+			// Only the worker itself writes its heartbeat, so the row is replaced without concurrency checks
+			var storedHeartbeat = await dbContext.Set<WorkerHeartbeat>()
+				.FirstOrDefaultAsync(worker => worker.WorkerId == heartbeat.WorkerId, cancellationToken);
+			if (storedHeartbeat == null)
+			{
+				dbContext.Set<WorkerHeartbeat>().Add(heartbeat);
+			}
+			else
+			{
+				dbContext.Entry(storedHeartbeat).CurrentValues.SetValues(heartbeat);
+			}
+
+			await dbContext.SaveChangesAsync(cancellationToken);
+
+			// Only leases of jobs still held by the worker are renewed, so recovered or completed jobs are left alone
+			var renewedCount = heartbeat.JobIds.Count == 0 ? 0 : await dbContext.Set<Job>()
+				.Where(job => heartbeat.JobIds.Contains(job.Id) && job.Status == JobStatus.InProgress && job.WorkerId == heartbeat.WorkerId)
+				.ExecuteUpdateAsync(setters => setters.SetProperty(job => job.LeaseRenewedAt, heartbeat.LastHeartbeatAt), cancellationToken);
+
+			_logger.LogDebug("Stored heartbeat of worker {WorkerId}, renewing the leases of {JobCount} jobs", heartbeat.WorkerId, renewedCount);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_saveWorkerHeartbeatOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_saveWorkerHeartbeatOperationName, this.GetType().Name);
+
+			return MethodResult.Success();
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_saveWorkerHeartbeatOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error storing heartbeat of worker {WorkerId}", heartbeat.WorkerId);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_saveWorkerHeartbeatOperationName, this.GetType().Name, duration);
+
+			return MethodResult.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error storing worker heartbeat: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<List<WorkerHeartbeat>>> GetWorkers(CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_getWorkersOperationName, this.GetType().Name);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Get workers operation cancelled");
+				return await Task.FromCanceled<MethodResult<List<WorkerHeartbeat>>>(cancellationToken);
+			}
+
+			await using var scope = _serviceScopeFactory.CreateAsyncScope();
+			var dbContext = scope.ServiceProvider.GetRequiredService<TDbContext>();
+
+			var now = _dateTimeProvider.DateTimeOffsetNow;
+			var liveWorkers = await dbContext.Set<WorkerHeartbeat>()
+				.AsNoTracking()
+				.Where(worker => worker.ExpiresAt > now)
+				.OrderBy(worker => worker.StartedAt)
+				.ToListAsync(cancellationToken);
+
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_getWorkersOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_getWorkersOperationName, this.GetType().Name);
+
+			return MethodResult<List<WorkerHeartbeat>>.Success(liveWorkers);
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_getWorkersOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error retrieving workers");
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_getWorkersOperationName, this.GetType().Name, duration);
+
+			return MethodResult<List<WorkerHeartbeat>>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error retrieving workers: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult> RemoveWorker(Guid workerId, CancellationToken cancellationToken)
+	{
+		try
+		{
+			await using var scope = _serviceScopeFactory.CreateAsyncScope();
+			var dbContext = scope.ServiceProvider.GetRequiredService<TDbContext>();
+
+			await dbContext.Set<WorkerHeartbeat>()
+				.Where(worker => worker.WorkerId == workerId)
+				.ExecuteDeleteAsync(cancellationToken);
+
+			_logger.LogDebug("Removed worker {WorkerId}", workerId);
+			return MethodResult.Success();
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Unexpected error removing worker {WorkerId}", workerId);
+			return MethodResult.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error removing worker: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<JobQueryResult>> QueryJobs(JobQuery query, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_queryJobsOperationName, this.GetType().Name);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			var validationResult = query.Validate();
+			if (!validationResult.IsSuccess)
+			{
+				_logger.LogWarning("Attempted to query jobs with invalid query: {Error}", validationResult.Error.Message);
+				_metrics.RecordStoreError(_queryJobsOperationName, validationResult.Error.Code, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job query");
+				activity?.SetTag(_errorTypeTag, validationResult.Error.Code);
+
+				return MethodResult<JobQueryResult>.Failure(validationResult.Error);
+			}
+
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job query operation cancelled");
+				return await Task.FromCanceled<MethodResult<JobQueryResult>>(cancellationToken);
+			}
+
+			await using var scope = _serviceScopeFactory.CreateAsyncScope();
+			var dbContext = scope.ServiceProvider.GetRequiredService<TDbContext>();
+
+			var matchingJobs = ApplyFilters(dbContext.Set<Job>().AsNoTracking(), query);
+			var candidateJobs = new List<Job>();
+
+			// Jobs created in the same millisecond are ordered by ID as a string, which databases don't agree on,
+			// so jobs of the cursor millisecond and the last millisecond of the page are ordered in memory
+			var olderJobs = matchingJobs;
+			if (query.Cursor != null && JobQueryCursor.TryDecode(query.Cursor, out var cursorCreatedAt, out var cursorJobId))
+			{
+				var cursorJobs = await CreatedInMillisecond(matchingJobs, cursorCreatedAt).ToListAsync(cancellationToken);
+				candidateJobs.AddRange(cursorJobs.Where(job => JobQueryCursor.IsAfter(job.CreatedAt.ToUnixTimeMilliseconds(), job.Id, cursorCreatedAt, cursorJobId)));
+
+				var cursorStart = DateTimeOffset.FromUnixTimeMilliseconds(cursorCreatedAt);
+				olderJobs = matchingJobs.Where(job => job.CreatedAt < cursorStart);
+			}
+
+			// Fetch one extra job to find out whether there is a next page
+			var fetchCount = query.PageSize + 1 - candidateJobs.Count;
+			if (fetchCount > 0)
+			{
+				var fetchedJobs = await olderJobs
+					.OrderByDescending(job => job.CreatedAt)
+					.Take(fetchCount)
+					.ToListAsync(cancellationToken);
+
+				if (fetchedJobs.Count == fetchCount)
+				{
+					var boundaryCreatedAt = fetchedJobs[^1].CreatedAt.ToUnixTimeMilliseconds();
+					fetchedJobs.RemoveAll(job => job.CreatedAt.ToUnixTimeMilliseconds() == boundaryCreatedAt);
+					fetchedJobs.AddRange(await CreatedInMillisecond(olderJobs, boundaryCreatedAt).ToListAsync(cancellationToken));
+				}
+
+				candidateJobs.AddRange(fetchedJobs);
+			}
+
+			var pageJobs = candidateJobs
+				.OrderByDescending(job => job.CreatedAt.ToUnixTimeMilliseconds())
+				.ThenByDescending(job => job.Id.ToString(), StringComparer.Ordinal)
+				.Take(query.PageSize + 1)
+				.ToList();
+
+			string? nextCursor = null;
+			if (pageJobs.Count > query.PageSize)
+			{
+				pageJobs.RemoveAt(pageJobs.Count - 1);
+				nextCursor = JobQueryCursor.Encode(pageJobs[^1]);
+			}
+
+			_logger.LogDebug("Queried {JobCount} jobs", pageJobs.Count);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_queryJobsOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_queryJobsOperationName, this.GetType().Name);
+
+			return MethodResult<JobQueryResult>.Success(new JobQueryResult(pageJobs, nextCursor));
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_queryJobsOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error querying jobs");
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_queryJobsOperationName, this.GetType().Name, duration);
+
+			return MethodResult<JobQueryResult>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error querying jobs: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<JobStats>> GetJobStats(CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_getJobStatsOperationName, this.GetType().Name);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Get job stats operation cancelled");
+				return await Task.FromCanceled<MethodResult<JobStats>>(cancellationToken);
+			}
+
+			await using var scope = _serviceScopeFactory.CreateAsyncScope();
+			var dbContext = scope.ServiceProvider.GetRequiredService<TDbContext>();
+			var jobs = dbContext.Set<Job>().AsNoTracking();
+
+			var stats = new JobStats { GeneratedAt = _dateTimeProvider.DateTimeOffsetNow };
+
+			var statusCounts = await jobs
+				.GroupBy(job => job.Status)
+				.Select(group => new { Status = group.Key, Count = group.LongCount() })
+				.ToListAsync(cancellationToken);
+			foreach (var statusCount in statusCounts)
+			{
+				stats.StatusCounts[statusCount.Status] = statusCount.Count;
+			}
+
+			var jobNameCounts = await jobs
+				.Where(job => job.Status == JobStatus.Queued || job.Status == JobStatus.Scheduled || job.Status == JobStatus.InProgress)
+				.GroupBy(job => new { job.Name, job.Status })
+				.Select(group => new { group.Key.Name, group.Key.Status, Count = group.LongCount() })
+				.ToListAsync(cancellationToken);
+			foreach (var jobNameCount in jobNameCounts)
+			{
+				stats.AddJobNameCount(jobNameCount.Name, jobNameCount.Status, jobNameCount.Count);
+			}
+
+			stats.OldestQueuedJobCreatedAt = await jobs
+				.Where(job => job.Status == JobStatus.Queued)
+				.OrderBy(job => job.CreatedAt)
+				.Select(job => (DateTimeOffset?)job.CreatedAt)
+				.FirstOrDefaultAsync(cancellationToken);
+
+			stats.ScheduledRetryCount = await jobs
+				.LongCountAsync(job => job.Status == JobStatus.Scheduled && job.RetryCount > 0, cancellationToken);
+
+			_logger.LogDebug("Retrieved job stats");
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_getJobStatsOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_getJobStatsOperationName, this.GetType().Name);
+
+			return MethodResult<JobStats>.Success(stats);
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_getJobStatsOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error retrieving job stats");
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_getJobStatsOperationName, this.GetType().Name, duration);
+
+			return MethodResult<JobStats>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error retrieving job stats: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<int> RecoverStuckJobs(long timeoutUnixTime, int maxRetries, CancellationToken cancellationToken)
+	{
+		await using var scope = _serviceScopeFactory.CreateAsyncScope();
+		var dbContext = scope.ServiceProvider.GetRequiredService<TDbContext>();
+
+		// Heartbeats of dead workers are no longer listed, so they are purged along with the recovery
+		var checkedAt = _dateTimeProvider.DateTimeOffsetNow;
+		await dbContext.Set<WorkerHeartbeat>()
+			.Where(worker => worker.ExpiresAt <= checkedAt)
+			.ExecuteDeleteAsync(cancellationToken);
+
+		// Jobs claimed before leases were introduced have no renewal yet, so their start time is used instead
+		var timeout = DateTimeOffset.FromUnixTimeSeconds(timeoutUnixTime);
+		var stuckJobs = await dbContext.Set<Job>()
+			.Where(job => job.Status == JobStatus.InProgress &&
+				((job.LeaseRenewedAt != null && job.LeaseRenewedAt <= timeout) ||
+				(job.LeaseRenewedAt == null && job.StartedAt != null && job.StartedAt <= timeout)))
+			.ToListAsync(cancellationToken);
+
+		var recoveredCount = 0;
+		foreach (var job in stuckJobs)
+		{
+			var now = _dateTimeProvider.DateTimeOffsetNow;
+			var recovered = job.RetryCount < job.MaxRetries;
+			job.RecordRun(JobRunOutcome.Abandoned, null, _dateTimeProvider);
+
+			if (recovered)
+			{
+				// Recover: reschedule immediately, increment retry count
+				job.Status = JobStatus.Scheduled;
+				job.RetryCount++;
+				job.RetryDelayUntil = null;
+			}
+			else
+			{
+				// Mark as permanently failed, keeping the job for the failed retention of its name
+				job.Status = JobStatus.Failed;
+				job.Error = AsyncEndpointError.FromMessage("Job failed after maximum retries");
+				job.CompletedAt = now;
+				job.ExpiresAt = now + _retentionConfigurations.GetRetention(job.Name, JobStatus.Failed);
+			}
+
+			job.WorkerId = null;
+			job.StartedAt = null;
+			job.LeaseRenewedAt = null;
+			job.LastUpdatedAt = now;
+			RenewConcurrencyStamp(dbContext, job);
+
+			try
+			{
+				await dbContext.SaveChangesAsync(cancellationToken);
+			}
+			catch (DbUpdateConcurrencyException)
+			{
+				// The job was completed, canceled or recovered by another instance in the meantime
+				_logger.LogDebug("Job {JobId} was modified by another instance during recovery", job.Id);
+				dbContext.Entry(job).State = EntityState.Detached;
+				continue;
+			}
+
+			NotifyStatusChanged(job);
+			if (recovered)
+			{
+				recoveredCount++;
+			}
+		}
+
+		return recoveredCount;
+	}
+
+	private async Task<Job?> TryClaimJob(TDbContext dbContext, Guid jobId, Guid workerId, CancellationToken cancellationToken)
+	{
+		var job = await dbContext.Set<Job>().FirstOrDefaultAsync(storedJob => storedJob.Id == jobId, cancellationToken);
+
+		// Check if the job was already claimed by another worker
+		if (job == null || job.WorkerId != null || job.Status is not (JobStatus.Queued or JobStatus.Scheduled))
+		{
+			_logger.LogDebug("Job {JobId} was already claimed by another worker", jobId);
+			return null;
+		}
+
+		var now = _dateTimeProvider.DateTimeOffsetNow;
+		job.Status = JobStatus.InProgress;
+		job.WorkerId = workerId;
+		job.StartedAt = now;
+		job.LeaseRenewedAt = now;
+		job.LastUpdatedAt = now;
+		RenewConcurrencyStamp(dbContext, job);
+
+		if (!await TrySaveChanges(dbContext, cancellationToken))
+		{
+			_logger.LogDebug("Job {JobId} was claimed by another worker", jobId);
+			return null;
+		}
+
+		return job;
+	}
+
+	/// <summary>
+	/// Saves the pending changes, discarding them if another instance modified the same job in the meantime.
+	/// </summary>
+	/// <returns>True if the changes were saved, otherwise false.</returns>
+	private static async Task<bool> TrySaveChanges(TDbContext dbContext, CancellationToken cancellationToken)
+	{
+		try
+		{
+			await dbContext.SaveChangesAsync(cancellationToken);
+			return true;
+		}
+		catch (DbUpdateConcurrencyException)
+		{
+			dbContext.ChangeTracker.Clear();
+			return false;
+		}
+	}
+
+	/// <summary>
+	/// Copies the updatable fields of a job to the tracked job entity.
+	/// </summary>
+	private void ApplyUpdate(Job existingJob, Job job)
+	{
+		existingJob.Status = job.Status;
+		existingJob.WorkerId = job.WorkerId;
+		existingJob.StartedAt = job.StartedAt;
+		existingJob.CompletedAt = job.CompletedAt;
+		existingJob.Result = job.Result;
+		existingJob.ResultBlobId = job.ResultBlobId;
+		existingJob.Error = job.Error;
+		existingJob.RetryCount = job.RetryCount;
+		existingJob.RetryDelayUntil = job.RetryDelayUntil;
+		existingJob.Callback = job.Callback;
+		existingJob.ContinuationJobIds = job.ContinuationJobIds;
+		existingJob.Runs = job.Runs;
+		existingJob.ExpiresAt = job.ExpiresAt;
+		existingJob.LastUpdatedAt = _dateTimeProvider.DateTimeOffsetNow;
+	}
+
+	private static void RenewConcurrencyStamp(TDbContext dbContext, Job job)
+	{
+		dbContext.Entry(job).Property(JobEntityTypeConfiguration.ConcurrencyStampPropertyName).CurrentValue = Guid.NewGuid();
+	}
+
+	private static IQueryable<Job> ApplyFilters(IQueryable<Job> jobs, JobQuery query)
+	{
+		if (query.Name != null)
+			jobs = jobs.Where(job => job.Name == query.Name);
+
+		if (query.Status.HasValue)
+			jobs = jobs.Where(job => job.Status == query.Status.Value);
+
+		if (query.CreatedFrom.HasValue)
+			jobs = jobs.Where(job => job.CreatedAt >= query.CreatedFrom.Value);
+
+		if (query.CreatedTo.HasValue)
+			jobs = jobs.Where(job => job.CreatedAt <= query.CreatedTo.Value);
+
+		if (query.CompletedFrom.HasValue)
+			jobs = jobs.Where(job => job.CompletedAt != null && job.CompletedAt >= query.CompletedFrom.Value);
+
+		if (query.CompletedTo.HasValue)
+			jobs = jobs.Where(job => job.CompletedAt != null && job.CompletedAt <= query.CompletedTo.Value);
+
+		if (query.WorkerId.HasValue)
+			jobs = jobs.Where(job => job.WorkerId == query.WorkerId.Value);
+
+		return jobs;
+	}
+
+	private static IQueryable<Job> CreatedInMillisecond(IQueryable<Job> jobs, long createdAtUnixMilliseconds)
+	{
+		var start = DateTimeOffset.FromUnixTimeMilliseconds(createdAtUnixMilliseconds);
+		var end = start.AddMilliseconds(1);
+
+		return jobs.Where(job => job.CreatedAt >= start && job.CreatedAt < end);
+	}
+
+	private void NotifyStatusChanged(Job job)
+	{
+		// Notifications only reach clients of this instance, like the in-memory store
+		_ = _jobStatusNotifier.NotifyStatusChanged(job.Id, job.Status, CancellationToken.None);
+	}
+}
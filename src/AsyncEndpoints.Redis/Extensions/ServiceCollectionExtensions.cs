@@ -1,3 +1,4 @@
+using AsyncEndpoints.Configuration;
 using AsyncEndpoints.Infrastructure;
 using AsyncEndpoints.Infrastructure.Observability;
 using AsyncEndpoints.Infrastructure.Serialization;
@@ -7,6 +8,7 @@ using AsyncEndpoints.Redis.Services;
 using AsyncEndpoints.Redis.Storage;
 using Microsoft.Extensions.DependencyInjection;
 using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
 using StackExchange.Redis;
 
 namespace AsyncEndpoints.Redis.Extensions;
@@ -49,6 +51,26 @@ public static class RedisServiceCollectionExtensions
 			return new RedisJobRecoveryService(logger, connectionString, redisLuaScriptService);
 		});
 
+		services.AddSingleton<IJobCancellationNotifier>(provider =>
+		{
+			var logger = provider.GetRequiredService<ILogger<RedisJobCancellationNotifier>>();
+			return new RedisJobCancellationNotifier(logger, connectionString);
+		});
+
+		services.AddSingleton<IJobLimiter>(provider =>
+		{
+			var logger = provider.GetRequiredService<ILogger<RedisJobLimiter>>();
+			var redisLuaScriptService = provider.GetRequiredService<IRedisLuaScriptService>();
+			var configurations = provider.GetRequiredService<IOptions<AsyncEndpointsConfigurations>>();
+			return new RedisJobLimiter(logger, connectionString, redisLuaScriptService, configurations);
+		});
+
+		services.AddSingleton<IJobStatusNotifier>(provider =>
+		{
+			var logger = provider.GetRequiredService<ILogger<RedisJobStatusNotifier>>();
+			return new RedisJobStatusNotifier(logger, connectionString);
+		});
+
 		return services;
 	}
 
@@ -78,6 +100,26 @@ public static class RedisServiceCollectionExtensions
 			return new RedisJobStore(logger, database, dateTimeProvider, jobHashConverter, serializer, redisLuaScriptService, metrics);
 		});
 
+		services.AddSingleton<IJobCancellationNotifier>(provider =>
+		{
+			var logger = provider.GetRequiredService<ILogger<RedisJobCancellationNotifier>>();
+			return new RedisJobCancellationNotifier(logger, connectionMultiplexer);
+		});
+
+		services.AddSingleton<IJobLimiter>(provider =>
+		{
+			var logger = provider.GetRequiredService<ILogger<RedisJobLimiter>>();
+			var redisLuaScriptService = provider.GetRequiredService<IRedisLuaScriptService>();
+			var configurations = provider.GetRequiredService<IOptions<AsyncEndpointsConfigurations>>();
+			return new RedisJobLimiter(logger, connectionMultiplexer, redisLuaScriptService, configurations);
+		});
+
+		services.AddSingleton<IJobStatusNotifier>(provider =>
+		{
+			var logger = provider.GetRequiredService<ILogger<RedisJobStatusNotifier>>();
+			return new RedisJobStatusNotifier(logger, connectionMultiplexer);
+		});
+
 		return services;
 	}
 
@@ -110,6 +152,26 @@ public static class RedisServiceCollectionExtensions
 			return new RedisJobStore(logger, config.ConnectionString, dateTimeProvider, jobHashConverter, serializer, redisLuaScriptService, metrics);
 		});
 
+		services.AddSingleton<IJobCancellationNotifier>(provider =>
+		{
+			var logger = provider.GetRequiredService<ILogger<RedisJobCancellationNotifier>>();
+			return new RedisJobCancellationNotifier(logger, config.ConnectionString);
+		});
+
+		services.AddSingleton<IJobLimiter>(provider =>
+		{
+			var logger = provider.GetRequiredService<ILogger<RedisJobLimiter>>();
+			var redisLuaScriptService = provider.GetRequiredService<IRedisLuaScriptService>();
+			var configurations = provider.GetRequiredService<IOptions<AsyncEndpointsConfigurations>>();
+			return new RedisJobLimiter(logger, config.ConnectionString, redisLuaScriptService, configurations);
+		});
+
+		services.AddSingleton<IJobStatusNotifier>(provider =>
+		{
+			var logger = provider.GetRequiredService<ILogger<RedisJobStatusNotifier>>();
+			return new RedisJobStatusNotifier(logger, config.ConnectionString);
+		});
+
 		return services;
 	}
 }
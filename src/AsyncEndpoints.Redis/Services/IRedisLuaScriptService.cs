@@ -1,3 +1,5 @@
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.JobProcessing;
 using AsyncEndpoints.Utilities;
 using StackExchange.Redis;
 
@@ -18,11 +20,120 @@ public interface IRedisLuaScriptService
 	Task<MethodResult<RedisValue[]>> ClaimSingleJob(IDatabase database, Guid jobId, Guid workerId);
 
 	/// <summary>
-	/// Recovers stuck jobs that were in progress beyond the specified timeout by executing a Lua script.
+	/// Claims up to the specified number of due jobs from the given queues atomically using a single Lua script.
 	/// </summary>
 	/// <param name="database">The Redis database instance.</param>
-	/// <param name="timeoutUnixTime">The Unix timestamp before which jobs should be considered stuck.</param>
+	/// <param name="queueKeys">The keys of the queues to claim the jobs from.</param>
+	/// <param name="workerId">The unique identifier of the worker claiming the jobs.</param>
+	/// <param name="maxCount">The maximum number of jobs to claim.</param>
+	/// <param name="candidateCount">The maximum number of candidates read from each queue.</param>
+	/// <returns>A task that represents the asynchronous operation. The task result contains a MethodResult with the Redis values of each claimed job.</returns>
+	Task<MethodResult<List<RedisValue[]>>> ClaimJobs(IDatabase database, IReadOnlyList<string> queueKeys, Guid workerId, int maxCount, int candidateCount);
+
+	/// <summary>
+	/// Recovers stuck jobs whose lease was last renewed before the specified timeout by executing a Lua script,
+	/// and removes the heartbeats of dead workers.
+	/// </summary>
+	/// <param name="database">The Redis database instance.</param>
+	/// <param name="timeoutUnixTime">The Unix timestamp before which a lease renewal is considered expired.</param>
 	/// <param name="maxRetries">The maximum number of retries for failed jobs.</param>
 	/// <returns>The number of jobs recovered.</returns>
 	Task<int> RecoverStuckJobs(IDatabase database, long timeoutUnixTime, int maxRetries);
+
+	/// <summary>
+	/// Stores the heartbeat of a worker and renews the leases of the in-progress jobs it still holds by executing a Lua script,
+	/// along with the leases of the concurrency slots those jobs took. The heartbeat expires from Redis along with the worker.
+	/// </summary>
+	/// <param name="database">The Redis database instance.</param>
+	/// <param name="heartbeat">The heartbeat of the worker.</param>
+	/// <returns>The number of jobs whose lease was renewed.</returns>
+	Task<int> SaveWorkerHeartbeat(IDatabase database, WorkerHeartbeat heartbeat);
+
+	/// <summary>
+	/// Cancels a queued, scheduled or in-progress job atomically using a Lua script and removes it from the queue and in-progress sets.
+	/// </summary>
+	/// <param name="database">The Redis database instance.</param>
+	/// <param name="jobId">The unique identifier of the job to cancel.</param>
+	/// <returns>A task that represents the asynchronous operation. The task result contains a MethodResult indicating whether the job was canceled.</returns>
+	Task<MethodResult> CancelJob(IDatabase database, Guid jobId);
+
+	/// <summary>
+	/// Moves a failed job back to the queue atomically using a Lua script and removes its expiry.
+	/// </summary>
+	/// <param name="database">The Redis database instance.</param>
+	/// <param name="jobId">The unique identifier of the job to requeue.</param>
+	/// <param name="resetRetries">True to reset the retry count of the job, false to keep it.</param>
+	/// <returns>A task that represents the asynchronous operation. The task result contains a MethodResult indicating whether the job was requeued.</returns>
+	Task<MethodResult> RequeueJob(IDatabase database, Guid jobId, bool resetRetries);
+
+	/// <summary>
+	/// Returns an in-progress job held by a worker to the queue atomically using a Lua script, without counting a retry.
+	/// </summary>
+	/// <param name="database">The Redis database instance.</param>
+	/// <param name="jobId">The unique identifier of the job to release.</param>
+	/// <param name="workerId">The ID of the worker that claimed the job.</param>
+	/// <returns>A task that represents the asynchronous operation. The task result contains a MethodResult indicating whether the job exists.</returns>
+	Task<MethodResult> ReleaseJob(IDatabase database, Guid jobId, Guid workerId);
+
+	/// <summary>
+	/// Creates a job atomically using a Lua script: stores its hash and the mapping of its idempotency key, if any,
+	/// adds it to its queue and the query indexes, and publishes its status.
+	/// </summary>
+	/// <param name="database">The Redis database instance.</param>
+	/// <param name="job">The job to create.</param>
+	/// <param name="hashEntries">The hash entries of the job.</param>
+	/// <param name="queueScore">The score of the job in its queue, used if the job is queued or scheduled.</param>
+	/// <param name="idempotencyKey">The idempotency key of the submission, or null to create the job unconditionally.</param>
+	/// <returns>A task that represents the asynchronous operation. The task result contains null if the job was created, or the ID of the existing job of the idempotency key.
+	/// It contains a DUPLICATE_JOB error if a job with the same ID exists, or an IDEMPOTENCY_KEY_MISMATCH error if the key was used with a different payload.</returns>
+	Task<MethodResult<Guid?>> CreateJob(IDatabase database, Job job, HashEntry[] hashEntries, double queueScore, JobIdempotencyKey? idempotencyKey);
+
+	/// <summary>
+	/// Stores the fields of a job and moves it between its queue, the in-progress set and the status indexes atomically using a Lua script.
+	/// </summary>
+	/// <param name="database">The Redis database instance.</param>
+	/// <param name="job">The updated job.</param>
+	/// <param name="hashEntries">The hash entries of the updated job.</param>
+	/// <param name="queueScore">The score of the job in its queue, used if the job is queued or scheduled.</param>
+	/// <param name="onlyIfInProgress">True to only update the job while it is in progress and held by the specified worker.</param>
+	/// <param name="workerId">The ID of the worker expected to hold the job.</param>
+	/// <returns>A task that represents the asynchronous operation. The task result contains whether the job was updated, or a JOB_NOT_FOUND error if an unconditional update targets a missing job.</returns>
+	Task<MethodResult<bool>> UpdateJob(IDatabase database, Job job, HashEntry[] hashEntries, double queueScore, bool onlyIfInProgress, Guid? workerId);
+
+	/// <summary>
+	/// Stores the serialized progress of a job atomically using a Lua script, but only while the job is in progress.
+	/// </summary>
+	/// <param name="database">The Redis database instance.</param>
+	/// <param name="jobId">The unique identifier of the job.</param>
+	/// <param name="serializedProgress">The serialized progress to store.</param>
+	/// <returns>A task that represents the asynchronous operation. The task result contains a MethodResult indicating whether the job exists.</returns>
+	Task<MethodResult> UpdateJobProgress(IDatabase database, Guid jobId, string serializedProgress);
+
+	/// <summary>
+	/// Stores the serialized callback of a job atomically using a Lua script, without recreating a job that no longer exists.
+	/// </summary>
+	/// <param name="database">The Redis database instance.</param>
+	/// <param name="jobId">The unique identifier of the job.</param>
+	/// <param name="serializedCallback">The serialized callback to store.</param>
+	/// <returns>A task that represents the asynchronous operation. The task result contains a MethodResult indicating whether the job exists.</returns>
+	Task<MethodResult> UpdateJobCallback(IDatabase database, Guid jobId, string serializedCallback);
+
+	/// <summary>
+	/// Takes a concurrency slot and a rate limit token of the name of a job atomically using a Lua script.
+	/// Concurrency slots are leased, so the slots of workers that stopped without releasing them expire.
+	/// </summary>
+	/// <param name="database">The Redis database instance.</param>
+	/// <param name="job">The claimed job.</param>
+	/// <param name="limits">The limits of the job name.</param>
+	/// <param name="leaseDuration">How long the concurrency slot is held if the job never releases it.</param>
+	/// <returns>A task that represents the asynchronous operation. The task result contains whether the job may be processed now, or how long it should be deferred.</returns>
+	Task<MethodResult<JobLimitAcquisition>> AcquireJobLimits(IDatabase database, Job job, AsyncEndpointsJobLimits limits, TimeSpan leaseDuration);
+
+	/// <summary>
+	/// Releases the concurrency slot taken for a job.
+	/// </summary>
+	/// <param name="database">The Redis database instance.</param>
+	/// <param name="job">The job that was processed.</param>
+	/// <returns>A task that represents the asynchronous operation. The task result contains a MethodResult indicating whether the slot was released.</returns>
+	Task<MethodResult> ReleaseJobLimits(IDatabase database, Job job);
 }
@@ -1,3 +1,4 @@
+using AsyncEndpoints.Configuration;
 using AsyncEndpoints.Infrastructure.Serialization;
 using AsyncEndpoints.JobProcessing;
 using AsyncEndpoints.Utilities;
@@ -29,16 +30,30 @@ public class JobHashConverter(ISerializer serializer) : IJobHashConverter
 			new HashEntry(nameof(Job.RouteParams), Serialize(job.RouteParams)),
 			new HashEntry(nameof(Job.QueryParams), Serialize(job.QueryParams)),
 			new HashEntry(nameof(Job.Payload), job.Payload),
+			new HashEntry(nameof(Job.PayloadBlobId), job.PayloadBlobId ?? ""),
 			new HashEntry(nameof(Job.Result), job.Result ?? ""),
+			new HashEntry(nameof(Job.ResultBlobId), job.ResultBlobId ?? ""),
 			new HashEntry(nameof(Job.Error), job.Error != null ? Serialize(job.Error) : ""),
 			new HashEntry(nameof(Job.RetryCount), job.RetryCount),
 			new HashEntry(nameof(Job.MaxRetries), job.MaxRetries),
+			new HashEntry(nameof(Job.Priority), job.Priority),
+			new HashEntry(nameof(Job.Queue), job.Queue),
 			new HashEntry(nameof(Job.RetryDelayUntil), job.RetryDelayUntil?.ToString("O") ?? ""),
 			new HashEntry(nameof(Job.WorkerId), job.WorkerId?.ToString() ?? ""),
 			new HashEntry(nameof(Job.CreatedAt), job.CreatedAt.ToString("O")),
 			new HashEntry(nameof(Job.StartedAt), job.StartedAt?.ToString("O") ?? ""),
+			new HashEntry(nameof(Job.LeaseRenewedAt), job.LeaseRenewedAt?.ToString("O") ?? ""),
 			new HashEntry(nameof(Job.CompletedAt), job.CompletedAt?.ToString("O") ?? ""),
-			new HashEntry(nameof(Job.LastUpdatedAt), job.LastUpdatedAt.ToString("O"))
+			new HashEntry(nameof(Job.LastUpdatedAt), job.LastUpdatedAt.ToString("O")),
+			new HashEntry(nameof(Job.Callback), job.Callback != null ? Serialize(job.Callback) : ""),
+			new HashEntry(nameof(Job.Progress), job.Progress != null ? Serialize(job.Progress) : ""),
+			new HashEntry(nameof(Job.ParentJobId), job.ParentJobId?.ToString() ?? ""),
+			new HashEntry(nameof(Job.ContinuationJobIds), job.ContinuationJobIds.Count > 0 ? Serialize(job.ContinuationJobIds) : ""),
+			new HashEntry(nameof(Job.Runs), job.Runs.Count > 0 ? Serialize(job.Runs) : ""),
+			new HashEntry(nameof(Job.TraceParent), job.TraceParent ?? ""),
+			new HashEntry(nameof(Job.TraceState), job.TraceState ?? ""),
+			new HashEntry(nameof(Job.Baggage), job.Baggage ?? ""),
+			new HashEntry(nameof(Job.ExpiresAt), job.ExpiresAt?.ToString("O") ?? "")
 		];
 	}
 
@@ -56,16 +71,35 @@ public class JobHashConverter(ISerializer serializer) : IJobHashConverter
 			RouteParams = string.IsNullOrEmpty(dict[nameof(Job.RouteParams)]) ? [] : Deserialize<Dictionary<string, object?>>(dict[nameof(Job.RouteParams)]) ?? [],
 			QueryParams = string.IsNullOrEmpty(dict[nameof(Job.QueryParams)]) ? [] : Deserialize<List<KeyValuePair<string, List<string?>>>>(dict[nameof(Job.QueryParams)]) ?? [],
 			Payload = dict[nameof(Job.Payload)],
+			// Jobs stored before blob offloading was introduced have no blob ID fields
+			PayloadBlobId = string.IsNullOrEmpty(dict.GetValueOrDefault(nameof(Job.PayloadBlobId))) ? null : dict[nameof(Job.PayloadBlobId)],
 			Result = string.IsNullOrEmpty(dict[nameof(Job.Result)]) ? null : dict[nameof(Job.Result)],
+			ResultBlobId = string.IsNullOrEmpty(dict.GetValueOrDefault(nameof(Job.ResultBlobId))) ? null : dict[nameof(Job.ResultBlobId)],
 			Error = string.IsNullOrEmpty(dict[nameof(Job.Error)]) ? null : Deserialize<AsyncEndpointError>(dict[nameof(Job.Error)]),
 			RetryCount = int.Parse(dict[nameof(Job.RetryCount)]),
 			MaxRetries = int.Parse(dict[nameof(Job.MaxRetries)]),
+			// Jobs stored before priorities and queues were introduced have no priority and queue fields
+			Priority = string.IsNullOrEmpty(dict.GetValueOrDefault(nameof(Job.Priority))) ? 0 : int.Parse(dict[nameof(Job.Priority)]),
+			Queue = string.IsNullOrEmpty(dict.GetValueOrDefault(nameof(Job.Queue))) ? AsyncEndpointsConstants.DefaultQueueName : dict[nameof(Job.Queue)],
 			RetryDelayUntil = string.IsNullOrEmpty(dict[nameof(Job.RetryDelayUntil)]) ? null : DateTime.ParseExact(dict[nameof(Job.RetryDelayUntil)], "O", CultureInfo.InvariantCulture),
 			WorkerId = string.IsNullOrEmpty(dict[nameof(Job.WorkerId)]) ? null : Guid.Parse(dict[nameof(Job.WorkerId)]),
 			CreatedAt = DateTimeOffset.ParseExact(dict[nameof(Job.CreatedAt)], "O", CultureInfo.InvariantCulture),
 			StartedAt = string.IsNullOrEmpty(dict[nameof(Job.StartedAt)]) ? null : DateTimeOffset.ParseExact(dict[nameof(Job.StartedAt)], "O", CultureInfo.InvariantCulture),
+			// Jobs stored before leases were introduced have no lease field
+			LeaseRenewedAt = string.IsNullOrEmpty(dict.GetValueOrDefault(nameof(Job.LeaseRenewedAt))) ? null : DateTimeOffset.ParseExact(dict[nameof(Job.LeaseRenewedAt)], "O", CultureInfo.InvariantCulture),
 			CompletedAt = string.IsNullOrEmpty(dict[nameof(Job.CompletedAt)]) ? null : DateTimeOffset.ParseExact(dict[nameof(Job.CompletedAt)], "O", CultureInfo.InvariantCulture),
-			LastUpdatedAt = DateTimeOffset.ParseExact(dict[nameof(Job.LastUpdatedAt)], "O", CultureInfo.InvariantCulture)
+			LastUpdatedAt = DateTimeOffset.ParseExact(dict[nameof(Job.LastUpdatedAt)], "O", CultureInfo.InvariantCulture),
+			// Jobs stored before callbacks were introduced have no callback field
+			Callback = string.IsNullOrEmpty(dict.GetValueOrDefault(nameof(Job.Callback))) ? null : Deserialize<JobCallback>(dict[nameof(Job.Callback)]),
+			Progress = string.IsNullOrEmpty(dict.GetValueOrDefault(nameof(Job.Progress))) ? null : Deserialize<JobProgress>(dict[nameof(Job.Progress)]),
+			ParentJobId = string.IsNullOrEmpty(dict.GetValueOrDefault(nameof(Job.ParentJobId))) ? null : Guid.Parse(dict[nameof(Job.ParentJobId)]),
+			ContinuationJobIds = string.IsNullOrEmpty(dict.GetValueOrDefault(nameof(Job.ContinuationJobIds))) ? [] : Deserialize<List<Guid>>(dict[nameof(Job.ContinuationJobIds)]) ?? [],
+			Runs = string.IsNullOrEmpty(dict.GetValueOrDefault(nameof(Job.Runs))) ? [] : Deserialize<List<JobRun>>(dict[nameof(Job.Runs)]) ?? [],
+			// Jobs stored before trace context propagation was introduced have no trace context fields
+			TraceParent = string.IsNullOrEmpty(dict.GetValueOrDefault(nameof(Job.TraceParent))) ? null : dict[nameof(Job.TraceParent)],
+			TraceState = string.IsNullOrEmpty(dict.GetValueOrDefault(nameof(Job.TraceState))) ? null : dict[nameof(Job.TraceState)],
+			Baggage = string.IsNullOrEmpty(dict.GetValueOrDefault(nameof(Job.Baggage))) ? null : dict[nameof(Job.Baggage)],
+			ExpiresAt = string.IsNullOrEmpty(dict.GetValueOrDefault(nameof(Job.ExpiresAt))) ? null : DateTimeOffset.ParseExact(dict[nameof(Job.ExpiresAt)], "O", CultureInfo.InvariantCulture)
 		};
 	}
 
@@ -0,0 +1,77 @@
+using AsyncEndpoints.JobProcessing;
+using Microsoft.Extensions.Logging;
+using StackExchange.Redis;
+
+namespace AsyncEndpoints.Redis.Services;
+
+/// <inheritdoc />
+/// <summary>
+/// A Redis pub/sub implementation of IJobCancellationNotifier that delivers cancellation requests to workers running in other instances.
+/// </summary>
+public class RedisJobCancellationNotifier : IJobCancellationNotifier
+{
+	private readonly ILogger<RedisJobCancellationNotifier> _logger;
+	private readonly ISubscriber _subscriber;
+
+	private static readonly RedisChannel _cancellationChannel = RedisChannel.Literal("ae:jobs:cancellations");
+
+	/// <summary>
+	/// Initializes a new instance of the <see cref="RedisJobCancellationNotifier"/> class.
+	/// </summary>
+	/// <param name="logger">The logger instance.</param>
+	/// <param name="connectionString">The Redis connection string.</param>
+	public RedisJobCancellationNotifier(ILogger<RedisJobCancellationNotifier> logger, string connectionString)
+	{
+		_logger = logger ?? throw new ArgumentNullException(nameof(logger));
+		_subscriber = InitializeSubscriber(connectionString ?? throw new ArgumentNullException(nameof(connectionString)));
+	}
+
+	/// <summary>
+	/// Initializes a new instance of the <see cref="RedisJobCancellationNotifier"/> class with a pre-configured connection.
+	/// </summary>
+	/// <param name="logger">The logger instance.</param>
+	/// <param name="connectionMultiplexer">The Redis connection multiplexer instance.</param>
+	public RedisJobCancellationNotifier(ILogger<RedisJobCancellationNotifier> logger, IConnectionMultiplexer connectionMultiplexer)
+	{
+		_logger = logger ?? throw new ArgumentNullException(nameof(logger));
+		_subscriber = (connectionMultiplexer ?? throw new ArgumentNullException(nameof(connectionMultiplexer))).GetSubscriber();
+	}
+
+	/// <inheritdoc />
+	public async Task NotifyCancellation(Guid jobId, Guid workerId, CancellationToken cancellationToken)
+	{
+		await _subscriber.PublishAsync(_cancellationChannel, $"{jobId}:{workerId}");
+	}
+
+	/// <inheritdoc />
+	public async Task Subscribe(Action<Guid, Guid> onCancellationRequested, CancellationToken cancellationToken)
+	{
+		void Handler(RedisChannel _, RedisValue message)
+		{
+			var parts = message.ToString().Split(':');
+			if (parts.Length != 2 || !Guid.TryParse(parts[0], out var jobId) || !Guid.TryParse(parts[1], out var workerId))
+			{
+				_logger.LogWarning("Received malformed job cancellation message: {Message}", message.ToString());
+				return;
+			}
+
+			onCancellationRequested(jobId, workerId);
+		}
+
+		await _subscriber.SubscribeAsync(_cancellationChannel, Handler);
+		cancellationToken.Register(() => _subscriber.Unsubscribe(_cancellationChannel, Handler));
+	}
+
+	private ISubscriber InitializeSubscriber(string connectionString)
+	{
+		var redis = ConnectionMultiplexer.Connect(connectionString);
+
+		// Register for connection events to handle reconnection
+		redis.ConnectionFailed += (sender, e) =>
+			_logger.LogError(e.Exception, "Redis connection failed: {ErrorMessage}", e.Exception?.Message);
+		redis.ConnectionRestored += (sender, e) =>
+			_logger.LogInformation("Redis connection restored");
+
+		return redis.GetSubscriber();
+	}
+}
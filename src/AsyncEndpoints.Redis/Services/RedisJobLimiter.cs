@@ -0,0 +1,106 @@
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.JobProcessing;
+using AsyncEndpoints.Utilities;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+using StackExchange.Redis;
+
+namespace AsyncEndpoints.Redis.Services;
+
+/// <inheritdoc />
+/// <summary>
+/// A Redis implementation of IJobLimiter that keeps the concurrency slots and rate limit tokens in Redis,
+/// so the limits hold across every worker sharing the Redis instance.
+/// </summary>
+/// <remarks>
+/// A concurrency slot is first leased for the execution timeout of the job, or the default job timeout when the timeout is disabled.
+/// Worker heartbeats then renew it along with the lease of the job, so a job running past that timeout keeps its slot,
+/// and the slots of workers that stopped without releasing them are freed once the lease expires.
+/// </remarks>
+public class RedisJobLimiter : IJobLimiter
+{
+	private readonly ILogger<RedisJobLimiter> _logger;
+	private readonly IDatabase _database;
+	private readonly IRedisLuaScriptService _redisLuaScriptService;
+	private readonly AsyncEndpointsWorkerConfigurations _workerConfigurations;
+
+	/// <summary>
+	/// Initializes a new instance of the <see cref="RedisJobLimiter"/> class.
+	/// </summary>
+	/// <param name="logger">The logger instance.</param>
+	/// <param name="connectionString">The Redis connection string.</param>
+	/// <param name="redisLuaScriptService">Service for executing Redis Lua scripts.</param>
+	/// <param name="configurations">The AsyncEndpoints configurations holding the limits of every job name.</param>
+	public RedisJobLimiter(ILogger<RedisJobLimiter> logger, string connectionString, IRedisLuaScriptService redisLuaScriptService, IOptions<AsyncEndpointsConfigurations> configurations)
+	{
+		_logger = logger ?? throw new ArgumentNullException(nameof(logger));
+		_redisLuaScriptService = redisLuaScriptService ?? throw new ArgumentNullException(nameof(redisLuaScriptService));
+		_workerConfigurations = (configurations ?? throw new ArgumentNullException(nameof(configurations))).Value.WorkerConfigurations;
+		_database = InitializeDatabase(connectionString ?? throw new ArgumentNullException(nameof(connectionString)));
+	}
+
+	/// <summary>
+	/// Initializes a new instance of the <see cref="RedisJobLimiter"/> class with a pre-configured connection.
+	/// </summary>
+	/// <param name="logger">The logger instance.</param>
+	/// <param name="connectionMultiplexer">The Redis connection multiplexer instance.</param>
+	/// <param name="redisLuaScriptService">Service for executing Redis Lua scripts.</param>
+	/// <param name="configurations">The AsyncEndpoints configurations holding the limits of every job name.</param>
+	public RedisJobLimiter(ILogger<RedisJobLimiter> logger, IConnectionMultiplexer connectionMultiplexer, IRedisLuaScriptService redisLuaScriptService, IOptions<AsyncEndpointsConfigurations> configurations)
+	{
+		_logger = logger ?? throw new ArgumentNullException(nameof(logger));
+		_redisLuaScriptService = redisLuaScriptService ?? throw new ArgumentNullException(nameof(redisLuaScriptService));
+		_workerConfigurations = (configurations ?? throw new ArgumentNullException(nameof(configurations))).Value.WorkerConfigurations;
+		_database = (connectionMultiplexer ?? throw new ArgumentNullException(nameof(connectionMultiplexer))).GetDatabase();
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<JobLimitAcquisition>> TryAcquire(Job job, CancellationToken cancellationToken)
+	{
+		var limits = _workerConfigurations.GetJobLimits(job.Name);
+		if (limits == null)
+			return MethodResult<JobLimitAcquisition>.Success(JobLimitAcquisition.Acquired);
+
+		var leaseDuration = _workerConfigurations.GetJobTimeout(job.Name) ?? TimeSpan.FromMinutes(AsyncEndpointsConstants.DefaultJobTimeoutMinutes);
+
+		try
+		{
+			return await _redisLuaScriptService.AcquireJobLimits(_database, job, limits, leaseDuration);
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Unexpected error taking the limits of job {JobId}", job.Id);
+			return MethodResult<JobLimitAcquisition>.Failure(ex);
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult> Release(Job job, CancellationToken cancellationToken)
+	{
+		if (!(_workerConfigurations.GetJobLimits(job.Name)?.MaxConcurrency > 0))
+			return MethodResult.Success();
+
+		try
+		{
+			return await _redisLuaScriptService.ReleaseJobLimits(_database, job);
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Unexpected error releasing the limits of job {JobId}", job.Id);
+			return MethodResult.Failure(ex);
+		}
+	}
+
+	private IDatabase InitializeDatabase(string connectionString)
+	{
+		var redis = ConnectionMultiplexer.Connect(connectionString);
+
+		// Register for connection events to handle reconnection
+		redis.ConnectionFailed += (sender, e) =>
+			_logger.LogError(e.Exception, "Redis connection failed: {ErrorMessage}", e.Exception?.Message);
+		redis.ConnectionRestored += (sender, e) =>
+			_logger.LogInformation("Redis connection restored");
+
+		return redis.GetDatabase();
+	}
+}
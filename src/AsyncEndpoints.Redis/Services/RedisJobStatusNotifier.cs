@@ -0,0 +1,78 @@
+using AsyncEndpoints.JobProcessing;
+using Microsoft.Extensions.Logging;
+using StackExchange.Redis;
+
+namespace AsyncEndpoints.Redis.Services;
+
+/// <inheritdoc />
+/// <summary>
+/// A Redis pub/sub implementation of IJobStatusNotifier that wakes clients waiting for job changes on any instance.
+/// Status changes are published by <see cref="Storage.RedisJobStore"/> and the Lua scripts that change jobs.
+/// </summary>
+public class RedisJobStatusNotifier : IJobStatusNotifier
+{
+	private readonly ILogger<RedisJobStatusNotifier> _logger;
+	private readonly ISubscriber _subscriber;
+
+	private static readonly RedisChannel _statusChannel = RedisChannel.Literal("ae:jobs:status");
+
+	/// <summary>
+	/// Initializes a new instance of the <see cref="RedisJobStatusNotifier"/> class.
+	/// </summary>
+	/// <param name="logger">The logger instance.</param>
+	/// <param name="connectionString">The Redis connection string.</param>
+	public RedisJobStatusNotifier(ILogger<RedisJobStatusNotifier> logger, string connectionString)
+	{
+		_logger = logger ?? throw new ArgumentNullException(nameof(logger));
+		_subscriber = InitializeSubscriber(connectionString ?? throw new ArgumentNullException(nameof(connectionString)));
+	}
+
+	/// <summary>
+	/// Initializes a new instance of the <see cref="RedisJobStatusNotifier"/> class with a pre-configured connection.
+	/// </summary>
+	/// <param name="logger">The logger instance.</param>
+	/// <param name="connectionMultiplexer">The Redis connection multiplexer instance.</param>
+	public RedisJobStatusNotifier(ILogger<RedisJobStatusNotifier> logger, IConnectionMultiplexer connectionMultiplexer)
+	{
+		_logger = logger ?? throw new ArgumentNullException(nameof(logger));
+		_subscriber = (connectionMultiplexer ?? throw new ArgumentNullException(nameof(connectionMultiplexer))).GetSubscriber();
+	}
+
+	/// <inheritdoc />
+	public async Task NotifyStatusChanged(Guid jobId, JobStatus status, CancellationToken cancellationToken)
+	{
+		await _subscriber.PublishAsync(_statusChannel, $"{jobId}:{(int)status}");
+	}
+
+	/// <inheritdoc />
+	public async Task Subscribe(Action<Guid, JobStatus> onStatusChanged, CancellationToken cancellationToken)
+	{
+		void Handler(RedisChannel _, RedisValue message)
+		{
+			var parts = message.ToString().Split(':');
+			if (parts.Length != 2 || !Guid.TryParse(parts[0], out var jobId) || !int.TryParse(parts[1], out var status))
+			{
+				_logger.LogWarning("Received malformed job status message: {Message}", message.ToString());
+				return;
+			}
+
+			onStatusChanged(jobId, (JobStatus)status);
+		}
+
+		await _subscriber.SubscribeAsync(_statusChannel, Handler);
+		cancellationToken.Register(() => _subscriber.Unsubscribe(_statusChannel, Handler));
+	}
+
+	private ISubscriber InitializeSubscriber(string connectionString)
+	{
+		var redis = ConnectionMultiplexer.Connect(connectionString);
+
+		// Register for connection events to handle reconnection
+		redis.ConnectionFailed += (sender, e) =>
+			_logger.LogError(e.Exception, "Redis connection failed: {ErrorMessage}", e.Exception?.Message);
+		redis.ConnectionRestored += (sender, e) =>
+			_logger.LogInformation("Redis connection restored");
+
+		return redis.GetSubscriber();
+	}
+}
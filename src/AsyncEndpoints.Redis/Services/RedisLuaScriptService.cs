@@ -1,117 +1,245 @@
+using AsyncEndpoints.Configuration;
 using AsyncEndpoints.Infrastructure;
+using AsyncEndpoints.Infrastructure.Serialization;
 using AsyncEndpoints.JobProcessing;
 using AsyncEndpoints.Utilities;
 using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
 using StackExchange.Redis;
+using System.Globalization;
 
 namespace AsyncEndpoints.Redis.Services;
 
 /// <inheritdoc />
-public class RedisLuaScriptService(ILogger<RedisLuaScriptService> logger, IDateTimeProvider dateTimeProvider) : IRedisLuaScriptService
+public class RedisLuaScriptService(ILogger<RedisLuaScriptService> logger, IDateTimeProvider dateTimeProvider, ISerializer serializer, IOptions<AsyncEndpointsConfigurations> configurations) : IRedisLuaScriptService
 {
-	private readonly ILogger<RedisLuaScriptService> _logger = logger ?? throw new ArgumentNullException(nameof(logger));
-	private readonly IDateTimeProvider _dateTimeProvider = dateTimeProvider;
+	private static readonly AsyncEndpointError _retriesExhaustedError = AsyncEndpointError.FromMessage("Job failed after maximum retries");
 
-	/// <inheritdoc />
-	public async Task<MethodResult<RedisValue[]>> ClaimSingleJob(IDatabase database, Guid jobId, Guid workerId)
-	{
-		using var _ = _logger.BeginScope(new { JobId = jobId, WorkerId = workerId });
+	// Jobs are queued in the sorted set of their queue, scored by their due time moved earlier by their priority
+	private static readonly string _queueFunctions = @"
+			local function getQueueKey(jobKey)
+				local queue = redis.call('HGET', jobKey, 'Queue')
+				if not queue or queue == '' or queue == '" + AsyncEndpointsConstants.DefaultQueueName + @"' then
+					return 'ae:jobs:queue'
+				end
+				return 'ae:jobs:queue:' .. queue
+			end
 
-		_logger.LogDebug("Starting Redis job claim operation for job {JobId} by worker {WorkerId}", jobId, workerId);
+			local function getPriorityOffset(jobKey)
+				local priority = tonumber(redis.call('HGET', jobKey, 'Priority')) or 0
+				return priority * " + AsyncEndpointsConstants.PriorityAgingSeconds + @"
+			end
+";
 
-		var jobKey = GetJobKey(jobId);
+	// Keeps the worker and completion time indexes used by job queries in line with the job; the worker of each indexed job
+	// is kept in a hash, so the entry of a job Redis expired natively can still be found and removed
+	private static readonly string _indexFunctions = @"
+			local function setWorkerIndex(jobId, createdScore, workerId)
+				local currentWorkerId = redis.call('HGET', 'ae:jobs:index:workerids', jobId)
+				if currentWorkerId == workerId then
+					return
+				end
 
-		// Use atomic Lua script to check and claim the job in one operation
-		var luaScript = @"
-			local jobKey = ARGV[1]
-			local expectedStatus1 = ARGV[2]  -- Queued
-			local expectedStatus2 = ARGV[3]  -- Scheduled  
-			local newStatus = ARGV[4]        -- InProgress
-			local newWorkerId = ARGV[5]
-			local newStartedAt = ARGV[6]
-			local newLastUpdatedAt = ARGV[7]
-			local queueKey = ARGV[8]
-			local jobId = ARGV[9]
-			local currentTime = ARGV[10]
-
-			-- Get required fields atomically
-			local currentStatus = redis.call('HGET', jobKey, 'Status')
-			local currentWorkerId = redis.call('HGET', jobKey, 'WorkerId')
-			local currentRetryDelayUntil = redis.call('HGET', jobKey, 'RetryDelayUntil')
+				if currentWorkerId then
+					redis.call('ZREM', 'ae:jobs:index:worker:' .. currentWorkerId, jobId)
+				end
 
-			-- Check if job can be claimed - all checks in one atomic operation
-			if currentWorkerId and currentWorkerId ~= '' then
-				return redis.error_reply('ALREADY_ASSIGNED')
+				if workerId ~= '' and createdScore then
+					redis.call('ZADD', 'ae:jobs:index:worker:' .. workerId, createdScore, jobId)
+					redis.call('HSET', 'ae:jobs:index:workerids', jobId, workerId)
+				else
+					redis.call('HDEL', 'ae:jobs:index:workerids', jobId)
+				end
 			end
 
-			if not (currentStatus == expectedStatus1 or currentStatus == expectedStatus2) then
-				return redis.error_reply('WRONG_STATUS')
+			local function setCompletedIndex(jobId, completedAtMs)
+				if completedAtMs ~= '' then
+					redis.call('ZADD', 'ae:jobs:index:completed', completedAtMs, jobId)
+				else
+					redis.call('ZREM', 'ae:jobs:index:completed', jobId)
+				end
 			end
+";
+
+	// Claims a single job for a worker, returning the fields of the claimed job, or nil and the reason the job could not be claimed
+	private static readonly string _claimFunctions = @"
+			local function claimJob(jobId, newWorkerId, newStartedAt, currentScore, currentTime)
+				local jobKey = 'ae:job:' .. jobId
+				local newStatus = '" + (int)JobStatus.InProgress + @"'
+				local queueKey = getQueueKey(jobKey)
 
-			-- Check retry delay if it exists
-			if currentRetryDelayUntil and currentRetryDelayUntil ~= '' then
-				local retryUntil = tonumber(currentRetryDelayUntil)
-				if retryUntil and retryUntil > tonumber(currentTime) then
-					return redis.error_reply('RETRY_DELAY')
+				-- Get required fields atomically
+				local currentStatus = redis.call('HGET', jobKey, 'Status')
+				local currentWorkerId = redis.call('HGET', jobKey, 'WorkerId')
+				local currentRetryDelayUntil = redis.call('HGET', jobKey, 'RetryDelayUntil')
+				local currentQueueScore = redis.call('ZSCORE', queueKey, jobId)
+
+				-- Check if job can be claimed - all checks in one atomic operation
+				if currentWorkerId and currentWorkerId ~= '' then
+					return nil, 'ALREADY_ASSIGNED'
+				end
+
+				if not (currentStatus == '" + (int)JobStatus.Queued + @"' or currentStatus == '" + (int)JobStatus.Scheduled + @"') then
+					return nil, 'WRONG_STATUS'
 				end
+
+				-- Check the job is due; the queue score is the due time moved earlier by the priority of the job
+				if currentQueueScore and tonumber(currentQueueScore) + getPriorityOffset(jobKey) > currentScore then
+					return nil, 'RETRY_DELAY'
+				end
+
+				-- Get all fields we need to return the complete job object
+				local currentId = redis.call('HGET', jobKey, 'Id')
+				local currentName = redis.call('HGET', jobKey, 'Name')
+				local currentHeaders = redis.call('HGET', jobKey, 'Headers')
+				local currentRouteParams = redis.call('HGET', jobKey, 'RouteParams')
+				local currentQueryParams = redis.call('HGET', jobKey, 'QueryParams')
+				local currentPayload = redis.call('HGET', jobKey, 'Payload')
+				local currentResult = redis.call('HGET', jobKey, 'Result')
+				local currentError = redis.call('HGET', jobKey, 'Error')
+				local currentRetryCount = redis.call('HGET', jobKey, 'RetryCount')
+				local currentMaxRetries = redis.call('HGET', jobKey, 'MaxRetries')
+				local currentCreatedAt = redis.call('HGET', jobKey, 'CreatedAt')
+				local currentCompletedAt = redis.call('HGET', jobKey, 'CompletedAt')
+				local currentPriority = redis.call('HGET', jobKey, 'Priority')
+				local currentQueue = redis.call('HGET', jobKey, 'Queue')
+				local currentPayloadBlobId = redis.call('HGET', jobKey, 'PayloadBlobId')
+				local currentTraceParent = redis.call('HGET', jobKey, 'TraceParent')
+				local currentTraceState = redis.call('HGET', jobKey, 'TraceState')
+				local currentBaggage = redis.call('HGET', jobKey, 'Baggage')
+
+				-- Convert startedAt to Unix timestamp for easier comparison in recovery
+				local startedAtUnix = tonumber(currentTime) -- Use the current time provided as Unix timestamp
+
+				-- Claim the job atomically
+				redis.call('HSET', jobKey, 'Status', newStatus)
+				redis.call('HSET', jobKey, 'WorkerId', newWorkerId)
+				redis.call('HSET', jobKey, 'StartedAt', newStartedAt)
+				redis.call('HSET', jobKey, 'StartedAtUnix', startedAtUnix)
+				redis.call('HSET', jobKey, 'LeaseRenewedAt', newStartedAt)
+				redis.call('HSET', jobKey, 'LastUpdatedAt', newStartedAt)
+				redis.call('ZREM', queueKey, jobId)
+
+				-- Add to in-progress set scored by the lease renewal time, which heartbeats move forward, for efficient recovery scanning
+				redis.call('ZADD', 'ae:jobs:inprogress', startedAtUnix, jobId)
+
+				-- Move the job to the in-progress status index and the index of its worker used by job queries
+				local createdScore = redis.call('ZSCORE', 'ae:jobs:index:created', jobId)
+				if createdScore then
+					redis.call('ZREM', 'ae:jobs:index:status:' .. currentStatus, jobId)
+					redis.call('ZADD', 'ae:jobs:index:status:' .. newStatus, createdScore, jobId)
+				end
+				setWorkerIndex(jobId, createdScore, newWorkerId)
+
+				-- Wake clients waiting for changes of the job
+				redis.call('PUBLISH', 'ae:jobs:status', jobId .. ':' .. newStatus)
+
+				return {
+					currentId, currentName, newStatus, currentHeaders, currentRouteParams,
+					currentQueryParams, currentPayload, currentResult, currentError,
+					currentRetryCount, currentMaxRetries, currentRetryDelayUntil,
+					currentWorkerId, currentCreatedAt, newStartedAt, currentCompletedAt, newStartedAt,
+					currentPriority, currentQueue, currentPayloadBlobId,
+					currentTraceParent, currentTraceState, currentBaggage
+				}
 			end
+";
 
-			-- Get all fields we need to return the complete job object
-			local currentId = redis.call('HGET', jobKey, 'Id')
-			local currentName = redis.call('HGET', jobKey, 'Name')
-			local currentHeaders = redis.call('HGET', jobKey, 'Headers')
-			local currentRouteParams = redis.call('HGET', jobKey, 'RouteParams')
-			local currentQueryParams = redis.call('HGET', jobKey, 'QueryParams')
-			local currentPayload = redis.call('HGET', jobKey, 'Payload')
-			local currentResult = redis.call('HGET', jobKey, 'Result')
-			local currentError = redis.call('HGET', jobKey, 'Error')
-			local currentRetryCount = redis.call('HGET', jobKey, 'RetryCount')
-			local currentMaxRetries = redis.call('HGET', jobKey, 'MaxRetries')
-			local currentCreatedAt = redis.call('HGET', jobKey, 'CreatedAt')
-			local currentCompletedAt = redis.call('HGET', jobKey, 'CompletedAt')
+	// Records the claim of a job that is ending as a run, filling in the attempt, worker and start time of a run serialized in .NET
+	private static readonly string _runFunctions = @"
+			local function replacePlain(value, placeholder, replacement)
+				local first, last = string.find(value, placeholder, 1, true)
+				if not first then
+					return value
+				end
+				return string.sub(value, 1, first - 1) .. replacement .. string.sub(value, last + 1)
+			end
 
-			-- Convert startedAt to Unix timestamp for easier comparison in recovery
-			local startedAtUnix = tonumber(currentTime) -- Use the current time provided as Unix timestamp
+			local function recordRun(jobKey, runTemplate)
+				local startedAt = redis.call('HGET', jobKey, 'StartedAt')
+				if not startedAt or startedAt == '' then
+					return
+				end
 
-			-- Claim the job atomically
-			redis.call('HSET', jobKey, 'Status', newStatus)
-			redis.call('HSET', jobKey, 'WorkerId', newWorkerId)
-			redis.call('HSET', jobKey, 'StartedAt', newStartedAt)
-			redis.call('HSET', jobKey, 'StartedAtUnix', startedAtUnix)
-			redis.call('HSET', jobKey, 'LastUpdatedAt', newLastUpdatedAt)
-			redis.call('ZREM', queueKey, jobId)
-			
-			-- Add to in-progress set with started timestamp as score for efficient recovery scanning
-			redis.call('ZADD', 'ae:jobs:inprogress', startedAtUnix, jobId)
+				local runs = redis.call('HGET', jobKey, 'Runs')
+				local attempt = 1
+				if runs and runs ~= '' then
+					attempt = #cjson.decode(runs) + 1
+				end
+
+				local workerId = redis.call('HGET', jobKey, 'WorkerId')
+				local workerIdValue = 'null'
+				if workerId and workerId ~= '' then
+					workerIdValue = '""' .. workerId .. '""'
+				end
+
+				local run = replacePlain(runTemplate.json, runTemplate.attempt, tostring(attempt))
+				run = replacePlain(run, runTemplate.workerId, workerIdValue)
+				run = replacePlain(run, runTemplate.startedAt, '""' .. startedAt .. '""')
+
+				-- Existing runs are appended to as text, so they are stored exactly as they were serialized
+				if attempt == 1 then
+					runs = '[' .. run .. ']'
+				else
+					runs = string.sub(runs, 1, -2) .. ',' .. run .. ']'
+				end
+				redis.call('HSET', jobKey, 'Runs', runs)
+			end
+";
+
+	private readonly ILogger<RedisLuaScriptService> _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+	private readonly IDateTimeProvider _dateTimeProvider = dateTimeProvider;
+	private readonly ISerializer _serializer = serializer ?? throw new ArgumentNullException(nameof(serializer));
+	private readonly IOptions<AsyncEndpointsConfigurations> _configurations = configurations ?? throw new ArgumentNullException(nameof(configurations));
+
+	/// <inheritdoc />
+	public async Task<MethodResult<RedisValue[]>> ClaimSingleJob(IDatabase database, Guid jobId, Guid workerId)
+	{
+		using var _ = _logger.BeginScope(new { JobId = jobId, WorkerId = workerId });
+
+		_logger.LogDebug("Starting Redis job claim operation for job {JobId} by worker {WorkerId}", jobId, workerId);
+
+		// Use atomic Lua script to check and claim the job in one operation
+		var luaScript = _queueFunctions + _indexFunctions + _claimFunctions + @"
+			local jobId = ARGV[1]
+			local newWorkerId = ARGV[2]
+			local newStartedAt = ARGV[3]
+			local currentScore = tonumber(ARGV[4])
+			local currentTime = ARGV[5]
+
+			local fields, reason = claimJob(jobId, newWorkerId, newStartedAt, currentScore, currentTime)
+			if not fields then
+				return redis.error_reply(reason)
+			end
 
 			-- Return all fields needed to construct the complete job object
-			return { 
-				currentId, currentName, newStatus, currentHeaders, currentRouteParams, 
-				currentQueryParams, currentPayload, currentResult, currentError, 
-				currentRetryCount, currentMaxRetries, currentRetryDelayUntil, 
-				currentWorkerId, currentCreatedAt, newStartedAt, currentCompletedAt, newLastUpdatedAt
-			}
+			return fields
 		";
 
 		var now = _dateTimeProvider.DateTimeOffsetNow;
 		var currentTime = now.ToUnixTimeSeconds().ToString();
 
-		var result = await database.ScriptEvaluateAsync(
-			luaScript,
-			values:
-			[
-				jobKey,
-				((int)JobStatus.Queued).ToString(),      // Expected status 1
-                ((int)JobStatus.Scheduled).ToString(),   // Expected status 2
-                ((int)JobStatus.InProgress).ToString(),  // New status
-                workerId.ToString(),                     // New worker ID
-                now.ToString("O"),                       // Started at
-                now.ToString("O"),                       // Last updated at
-                "ae:jobs:queue",                         // Queue key
-                jobId.ToString(),
-				currentTime                              // Current time for retry delay check
-            ]
-		);
+		RedisResult result;
+		try
+		{
+			result = await database.ScriptEvaluateAsync(
+				luaScript,
+				values:
+				[
+					jobId.ToString(),
+					workerId.ToString(),                     // New worker ID
+					now.ToString("O"),                       // Started and last updated at
+					GetQueueScore(now),                      // Current time for the due check
+					currentTime                              // Current time for the in-progress set
+				]
+			);
+		}
+		catch (RedisServerException ex) when (ex.Message.Contains("ALREADY_ASSIGNED") || ex.Message.Contains("WRONG_STATUS") || ex.Message.Contains("RETRY_DELAY"))
+		{
+			// Another worker claimed the job first, or the job is not due yet
+			_logger.LogDebug("Job {JobId} could not be claimed: {Reason}", jobId, ex.Message);
+			return MethodResult<RedisValue[]>.Failure(AsyncEndpointError.FromCode("JOB_NOT_CLAIMED", "Could not claim job"));
+		}
 
 		_logger.LogDebug("Redis script execution completed for job claim operation");
 
@@ -149,10 +277,78 @@ public class RedisLuaScriptService(ILogger<RedisLuaScriptService> logger, IDateT
 		}
 	}
 
+	/// <inheritdoc />
+	public async Task<MethodResult<List<RedisValue[]>>> ClaimJobs(IDatabase database, IReadOnlyList<string> queueKeys, Guid workerId, int maxCount, int candidateCount)
+	{
+		using var _ = _logger.BeginScope(new { WorkerId = workerId });
+
+		_logger.LogDebug("Starting Redis batch claim of up to {MaxCount} jobs by worker {WorkerId}", maxCount, workerId);
+
+		// Candidates of every queue are gathered and claimed by the same script, so a whole batch costs a single round-trip
+		var luaScript = _queueFunctions + _indexFunctions + _claimFunctions + @"
+			local newWorkerId = ARGV[1]
+			local newStartedAt = ARGV[2]
+			local currentScore = tonumber(ARGV[3])
+			local currentTime = ARGV[4]
+			local maxCount = tonumber(ARGV[5])
+			local candidateCount = tonumber(ARGV[6])
+
+			-- Queue keys follow the fixed arguments; candidates of all queues are merged by their score
+			local candidates = {}
+			for i = 7, #ARGV do
+				local entries = redis.call('ZRANGEBYSCORE', ARGV[i], '-inf', ARGV[3], 'WITHSCORES', 'LIMIT', 0, candidateCount)
+				for j = 1, #entries, 2 do
+					table.insert(candidates, { entries[j], tonumber(entries[j + 1]) })
+				end
+			end
+			table.sort(candidates, function(a, b) return a[2] < b[2] end)
+
+			-- Jobs with a priority may be found before they are due, so they are skipped like jobs that can no longer be claimed
+			local claimed = {}
+			for _, candidate in ipairs(candidates) do
+				if #claimed >= maxCount then
+					break
+				end
+
+				local fields = claimJob(candidate[1], newWorkerId, newStartedAt, currentScore, currentTime)
+				if fields then
+					table.insert(claimed, fields)
+				end
+			end
+
+			return claimed
+		";
+
+		var now = _dateTimeProvider.DateTimeOffsetNow;
+
+		var values = new List<RedisValue>
+		{
+			workerId.ToString(),
+			now.ToString("O"),
+			GetQueueScore(now),
+			now.ToUnixTimeSeconds().ToString(),
+			maxCount,
+			candidateCount
+		};
+		values.AddRange(queueKeys.Select(queueKey => (RedisValue)queueKey));
+
+		var result = await database.ScriptEvaluateAsync(luaScript, values: [.. values]);
+
+		if (result.IsNull || result.Resp3Type == ResultType.Error)
+		{
+			_logger.LogError("Lua script error occurred during batch job claim operation: {Error}", result.ToString());
+			return MethodResult<List<RedisValue[]>>.Failure(AsyncEndpointError.FromCode("JOB_CLAIM_ERROR", $"Could not claim jobs due to script error: {result}"));
+		}
+
+		var claimedJobs = ((RedisResult[])result!).Select(fields => (RedisValue[])fields!).ToList();
+		_logger.LogDebug("Claimed {ClaimedCount} jobs for worker {WorkerId}", claimedJobs.Count, workerId);
+		return MethodResult<List<RedisValue[]>>.Success(claimedJobs);
+	}
+
 	/// <inheritdoc />
 	public async Task<int> RecoverStuckJobs(IDatabase database, long timeoutUnixTime, int maxRetries)
 	{
-		var luaScript = @"
+		var luaScript = _queueFunctions + _indexFunctions + _runFunctions + @"
 			local timeoutUnixTime = tonumber(ARGV[1])
 			local maxRetries = tonumber(ARGV[2])
 			local currentTimeUnix = tonumber(ARGV[3])
@@ -160,8 +356,31 @@ public class RedisLuaScriptService(ILogger<RedisLuaScriptService> logger, IDateT
 			local inProgressStatus = tonumber(ARGV[5])
 			local scheduledStatus = tonumber(ARGV[6])
 			local failedStatus = tonumber(ARGV[7])
+			local failureError = ARGV[8]
+			local abandonedRun = { json = ARGV[9], attempt = ARGV[10], workerId = ARGV[11], startedAt = ARGV[12] }
+			local failedExpiresAtMs = ARGV[13]
+			local failedExpiresAtIso = ARGV[14]
+			local currentTimeMs = ARGV[15]
+
+			-- Job names whose failed retention differs from the default, followed by their expiry in milliseconds and ISO 8601 format
+			local failedExpiries = {}
+			for i = 16, #ARGV, 3 do
+				failedExpiries[ARGV[i]] = { ARGV[i + 1], ARGV[i + 2] }
+			end
+
+			-- Moves a job between the status indexes used by job queries
+			local function moveStatusIndex(jobId, fromStatus, toStatus)
+				local createdScore = redis.call('ZSCORE', 'ae:jobs:index:created', jobId)
+				if createdScore then
+					redis.call('ZREM', 'ae:jobs:index:status:' .. fromStatus, jobId)
+					redis.call('ZADD', 'ae:jobs:index:status:' .. toStatus, createdScore, jobId)
+				end
+			end
+
+			-- Heartbeats of dead workers are no longer listed; their hashes expire on their own
+			redis.call('ZREMRANGEBYSCORE', 'ae:workers', '-inf', currentTimeUnix)
 
-			-- Get all in-progress jobs that started before the timeout
+			-- Get all in-progress jobs whose lease was last renewed before the timeout
 			local inProgressJobIds = redis.call('ZRANGEBYSCORE', 'ae:jobs:inprogress', '-inf', timeoutUnixTime - 1)
 
 			local recoveredCount = 0
@@ -169,15 +388,17 @@ public class RedisLuaScriptService(ILogger<RedisLuaScriptService> logger, IDateT
 			for _, jobId in ipairs(inProgressJobIds) do
 				local jobKey = 'ae:job:' .. jobId
 				local status = redis.call('HGET', jobKey, 'Status')
-				local startedAtUnix = redis.call('HGET', jobKey, 'StartedAtUnix')
 				local retryCount = redis.call('HGET', jobKey, 'RetryCount') or '0'
 				local maxRetriesForJob = redis.call('HGET', jobKey, 'MaxRetries') or ARGV[2]
 
-				-- Check that job is in-progress and has a valid start time before timeout
-				if tonumber(status) == inProgressStatus and startedAtUnix and startedAtUnix ~= '' and tonumber(startedAtUnix) <= timeoutUnixTime then
+				-- Check that job is still in-progress; the lease renewal time is the score of the in-progress set
+				if tonumber(status) == inProgressStatus then
 					retryCount = tonumber(retryCount)
 					maxRetriesForJob = tonumber(maxRetriesForJob)
 
+					-- The worker holding the job stopped renewing its lease, so its attempt ends here
+					recordRun(jobKey, abandonedRun)
+
 					if retryCount < maxRetriesForJob then
 						-- Recover: reschedule immediately, increment retry count
 						local newRetryCount = retryCount + 1
@@ -189,22 +410,42 @@ public class RedisLuaScriptService(ILogger<RedisLuaScriptService> logger, IDateT
 							'WorkerId', '',
 							'StartedAt', '',
 							'StartedAtUnix', '',
+							'LeaseRenewedAt', '',
 							'LastUpdatedAt', currentTimeIso)
 
-						redis.call('ZADD', 'ae:jobs:queue', currentTimeUnix, jobId)
+						redis.call('ZADD', getQueueKey(jobKey), currentTimeUnix - getPriorityOffset(jobKey), jobId)
 						redis.call('ZREM', 'ae:jobs:inprogress', jobId)
+						moveStatusIndex(jobId, inProgressStatus, scheduledStatus)
+						setWorkerIndex(jobId, nil, '')
+						redis.call('PUBLISH', 'ae:jobs:status', jobId .. ':' .. scheduledStatus)
 						recoveredCount = recoveredCount + 1
 					else
-						-- Mark as permanently failed
+						-- Mark as permanently failed, keeping the job for the failed retention of its name
+						local jobName = redis.call('HGET', jobKey, 'Name')
+						local expiry = failedExpiries[jobName] or { failedExpiresAtMs, failedExpiresAtIso }
+
 						redis.call('HSET', jobKey,
 							'Status', tostring(failedStatus),
-							'Error', 'Job failed after maximum retries',
+							'Error', failureError,
+							'CompletedAt', currentTimeIso,
+							'ExpiresAt', expiry[2],
 							'WorkerId', '',
 							'StartedAt', '',
 							'StartedAtUnix', '',
+							'LeaseRenewedAt', '',
 							'LastUpdatedAt', currentTimeIso)
 
+						-- Let Redis expire the hash natively; the expiry index is used to clean up the index sets afterwards
+						if expiry[1] ~= '' then
+							redis.call('PEXPIREAT', jobKey, expiry[1])
+							redis.call('ZADD', 'ae:jobs:index:expiry', expiry[1], jobId .. ':' .. jobName)
+						end
+
 						redis.call('ZREM', 'ae:jobs:inprogress', jobId)
+						moveStatusIndex(jobId, inProgressStatus, failedStatus)
+						setWorkerIndex(jobId, nil, '')
+						setCompletedIndex(jobId, currentTimeMs)
+						redis.call('PUBLISH', 'ae:jobs:status', jobId .. ':' .. failedStatus)
 					end
 				end
 			end
@@ -216,19 +457,785 @@ public class RedisLuaScriptService(ILogger<RedisLuaScriptService> logger, IDateT
 		var currentTimeUnix = now.ToUnixTimeSeconds();
 		var currentTimeIso = now.ToString("O"); // ISO 8601 format
 
+		var retentionConfigurations = _configurations.Value.RetentionConfigurations;
+		List<RedisValue> values =
+		[
+			timeoutUnixTime.ToString(),
+			maxRetries.ToString(),
+			currentTimeUnix.ToString(),
+			currentTimeIso,
+			((int)JobStatus.InProgress).ToString(),
+			((int)JobStatus.Scheduled).ToString(),
+			((int)JobStatus.Failed).ToString(),
+			// Stored like any other job error, so failed jobs read back the same way whatever failed them
+			_serializer.Serialize(_retriesExhaustedError),
+			.. GetRunTemplateValues(JobRunOutcome.Abandoned, now),
+			.. GetExpiryValues(now, retentionConfigurations.FailedJobRetention),
+			now.ToUnixTimeMilliseconds().ToString()
+		];
+
+		foreach (var jobName in retentionConfigurations.JobNameOverrides.Keys)
+		{
+			values.Add(jobName);
+			values.AddRange(GetExpiryValues(now, retentionConfigurations.GetRetention(jobName, JobStatus.Failed)));
+		}
+
+		var result = await database.ScriptEvaluateAsync(luaScript, values: [.. values]);
+
+		return (int)(long)result;
+	}
+
+	/// <inheritdoc />
+	public async Task<int> SaveWorkerHeartbeat(IDatabase database, WorkerHeartbeat heartbeat)
+	{
+		using var _ = _logger.BeginScope(new { heartbeat.WorkerId });
+
+		var luaScript = @"
+			local workerId = ARGV[1]
+			local workerKey = 'ae:worker:' .. workerId
+			local expiresAtUnix = tonumber(ARGV[2])
+			local ttlSeconds = tonumber(ARGV[3])
+			local heartbeatIso = ARGV[4]
+			local heartbeatUnix = tonumber(ARGV[5])
+			local inProgressStatus = ARGV[6]
+			local expiresAtMs = ARGV[13]
+
+			-- Store the heartbeat, expiring along with it so the hashes of dead workers disappear on their own
+			redis.call('HSET', workerKey,
+				'WorkerId', workerId,
+				'HostName', ARGV[7],
+				'MaximumConcurrency', ARGV[8],
+				'Queues', ARGV[9],
+				'JobIds', ARGV[10],
+				'StartedAt', ARGV[11],
+				'LastHeartbeatAt', heartbeatIso,
+				'ExpiresAt', ARGV[12])
+			redis.call('EXPIRE', workerKey, ttlSeconds)
+			redis.call('ZADD', 'ae:workers', expiresAtUnix, workerId)
+
+			-- Renew the leases of the jobs still held by the worker, so recovered or completed jobs are left alone
+			local renewedCount = 0
+			for i = 14, #ARGV do
+				local jobId = ARGV[i]
+				local jobKey = 'ae:job:' .. jobId
+				if redis.call('HGET', jobKey, 'Status') == inProgressStatus and redis.call('HGET', jobKey, 'WorkerId') == workerId then
+					redis.call('HSET', jobKey, 'LeaseRenewedAt', heartbeatIso)
+					redis.call('ZADD', 'ae:jobs:inprogress', 'XX', heartbeatUnix, jobId)
+
+					-- A concurrency slot taken by the job is leased along with the job, so it is kept while the job runs past its timeout
+					redis.call('ZADD', 'ae:limits:running:' .. redis.call('HGET', jobKey, 'Name'), 'XX', expiresAtMs, jobId)
+					renewedCount = renewedCount + 1
+				end
+			end
+
+			return renewedCount
+		";
+
+		var ttlSeconds = Math.Max(1, (long)Math.Ceiling((heartbeat.ExpiresAt - heartbeat.LastHeartbeatAt).TotalSeconds));
+		var values = new List<RedisValue>
+		{
+			heartbeat.WorkerId.ToString(),
+			heartbeat.ExpiresAt.ToUnixTimeSeconds().ToString(),
+			ttlSeconds.ToString(),
+			heartbeat.LastHeartbeatAt.ToString("O"),
+			heartbeat.LastHeartbeatAt.ToUnixTimeSeconds().ToString(),
+			((int)JobStatus.InProgress).ToString(),
+			heartbeat.HostName,
+			heartbeat.MaximumConcurrency.ToString(),
+			_serializer.Serialize(heartbeat.Queues),
+			_serializer.Serialize(heartbeat.JobIds),
+			heartbeat.StartedAt.ToString("O"),
+			heartbeat.ExpiresAt.ToString("O"),
+			heartbeat.ExpiresAt.ToUnixTimeMilliseconds().ToString()
+		};
+		values.AddRange(heartbeat.JobIds.Select(jobId => (RedisValue)jobId.ToString()));
+
+		var result = await database.ScriptEvaluateAsync(luaScript, values: [.. values]);
+
+		_logger.LogDebug("Stored heartbeat of worker {WorkerId}, renewing the leases of {JobCount} jobs", heartbeat.WorkerId, (long)result);
+		return (int)(long)result;
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult> CancelJob(IDatabase database, Guid jobId)
+	{
+		using var _ = _logger.BeginScope(new { JobId = jobId });
+
+		_logger.LogDebug("Starting Redis job cancel operation for job {JobId}", jobId);
+
+		var luaScript = _queueFunctions + _indexFunctions + @"
+			local jobKey = ARGV[1]
+			local jobId = ARGV[2]
+			local queuedStatus = ARGV[3]
+			local scheduledStatus = ARGV[4]
+			local inProgressStatus = ARGV[5]
+			local canceledStatus = ARGV[6]
+			local currentTimeIso = ARGV[7]
+			local currentTimeMs = ARGV[8]
+
+			local currentStatus = redis.call('HGET', jobKey, 'Status')
+			if not currentStatus then
+				return redis.error_reply('NOT_FOUND')
+			end
+
+			-- Canceling an already canceled job is a no-op
+			if currentStatus == canceledStatus then
+				return 0
+			end
+
+			if not (currentStatus == queuedStatus or currentStatus == scheduledStatus or currentStatus == inProgressStatus) then
+				return redis.error_reply('NOT_CANCELABLE')
+			end
+
+			-- Keep the worker ID so the worker processing the job can be notified
+			redis.call('HSET', jobKey,
+				'Status', canceledStatus,
+				'CompletedAt', currentTimeIso,
+				'LastUpdatedAt', currentTimeIso)
+
+			redis.call('ZREM', getQueueKey(jobKey), jobId)
+			redis.call('ZREM', 'ae:jobs:inprogress', jobId)
+
+			-- Move the job to the canceled status index used by job queries
+			local createdScore = redis.call('ZSCORE', 'ae:jobs:index:created', jobId)
+			if createdScore then
+				redis.call('ZREM', 'ae:jobs:index:status:' .. currentStatus, jobId)
+				redis.call('ZADD', 'ae:jobs:index:status:' .. canceledStatus, createdScore, jobId)
+			end
+			setCompletedIndex(jobId, currentTimeMs)
+
+			-- Wake clients waiting for changes of the job
+			redis.call('PUBLISH', 'ae:jobs:status', jobId .. ':' .. canceledStatus)
+
+			return 1
+		";
+
+		var now = _dateTimeProvider.DateTimeOffsetNow;
+
+		try
+		{
+			await database.ScriptEvaluateAsync(luaScript,
+				values:
+				[
+					GetJobKey(jobId),
+					jobId.ToString(),
+					((int)JobStatus.Queued).ToString(),
+					((int)JobStatus.Scheduled).ToString(),
+					((int)JobStatus.InProgress).ToString(),
+					((int)JobStatus.Canceled).ToString(),
+					now.ToString("O"),
+					now.ToUnixTimeMilliseconds().ToString()
+				]);
+
+			_logger.LogDebug("Successfully canceled job {JobId}", jobId);
+			return MethodResult.Success();
+		}
+		catch (RedisServerException ex) when (ex.Message.Contains("NOT_FOUND"))
+		{
+			return MethodResult.Failure(AsyncEndpointError.FromCode("JOB_NOT_FOUND", $"Job with ID {jobId} not found"));
+		}
+		catch (RedisServerException ex) when (ex.Message.Contains("NOT_CANCELABLE"))
+		{
+			return MethodResult.Failure(AsyncEndpointError.FromCode("JOB_NOT_CANCELABLE", $"Job with ID {jobId} cannot be canceled in its current status"));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult> RequeueJob(IDatabase database, Guid jobId, bool resetRetries)
+	{
+		using var _ = _logger.BeginScope(new { JobId = jobId });
+
+		_logger.LogDebug("Starting Redis job requeue operation for job {JobId}", jobId);
+
+		var luaScript = _queueFunctions + _indexFunctions + @"
+			local jobKey = ARGV[1]
+			local jobId = ARGV[2]
+			local failedStatus = ARGV[3]
+			local queuedStatus = ARGV[4]
+			local resetRetries = ARGV[5]
+			local currentTimeUnix = tonumber(ARGV[6])
+			local currentTimeIso = ARGV[7]
+
+			local currentStatus = redis.call('HGET', jobKey, 'Status')
+			if not currentStatus then
+				return redis.error_reply('NOT_FOUND')
+			end
+
+			if currentStatus ~= failedStatus then
+				return redis.error_reply('NOT_REQUEUEABLE')
+			end
+
+			-- The error of the last attempt is kept until the job finishes again
+			redis.call('HSET', jobKey,
+				'Status', queuedStatus,
+				'WorkerId', '',
+				'StartedAt', '',
+				'StartedAtUnix', '',
+				'LeaseRenewedAt', '',
+				'CompletedAt', '',
+				'RetryDelayUntil', '',
+				'ExpiresAt', '',
+				'LastUpdatedAt', currentTimeIso)
+
+			if resetRetries == '1' then
+				redis.call('HSET', jobKey, 'RetryCount', '0')
+			end
+
+			-- A requeued job is kept until it finishes again
+			local jobName = redis.call('HGET', jobKey, 'Name')
+			redis.call('PERSIST', jobKey)
+			redis.call('ZREM', 'ae:jobs:index:expiry', jobId .. ':' .. jobName)
+
+			redis.call('ZADD', getQueueKey(jobKey), currentTimeUnix - getPriorityOffset(jobKey), jobId)
+
+			-- Move the job to the queued status index used by job queries
+			local createdScore = redis.call('ZSCORE', 'ae:jobs:index:created', jobId)
+			if createdScore then
+				redis.call('ZREM', 'ae:jobs:index:status:' .. failedStatus, jobId)
+				redis.call('ZADD', 'ae:jobs:index:status:' .. queuedStatus, createdScore, jobId)
+			end
+			setWorkerIndex(jobId, nil, '')
+			setCompletedIndex(jobId, '')
+
+			-- Wake clients waiting for changes of the job
+			redis.call('PUBLISH', 'ae:jobs:status', jobId .. ':' .. queuedStatus)
+
+			return 1
+		";
+
+		var now = _dateTimeProvider.DateTimeOffsetNow;
+
+		try
+		{
+			await database.ScriptEvaluateAsync(luaScript,
+				values:
+				[
+					GetJobKey(jobId),
+					jobId.ToString(),
+					((int)JobStatus.Failed).ToString(),
+					((int)JobStatus.Queued).ToString(),
+					resetRetries ? "1" : "0",
+					now.ToUnixTimeSeconds().ToString(),
+					now.ToString("O")
+				]);
+
+			_logger.LogDebug("Successfully requeued job {JobId}", jobId);
+			return MethodResult.Success();
+		}
+		catch (RedisServerException ex) when (ex.Message.Contains("NOT_FOUND"))
+		{
+			return MethodResult.Failure(AsyncEndpointError.FromCode("JOB_NOT_FOUND", $"Job with ID {jobId} not found"));
+		}
+		catch (RedisServerException ex) when (ex.Message.Contains("NOT_REQUEUEABLE"))
+		{
+			return MethodResult.Failure(AsyncEndpointError.FromCode("JOB_NOT_REQUEUEABLE", $"Job with ID {jobId} cannot be requeued in its current status"));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult> ReleaseJob(IDatabase database, Guid jobId, Guid workerId)
+	{
+		using var _ = _logger.BeginScope(new { JobId = jobId, WorkerId = workerId });
+
+		_logger.LogDebug("Starting Redis job release operation for job {JobId}", jobId);
+
+		var luaScript = _queueFunctions + _indexFunctions + _runFunctions + @"
+			local jobKey = ARGV[1]
+			local jobId = ARGV[2]
+			local workerId = ARGV[3]
+			local inProgressStatus = ARGV[4]
+			local queuedStatus = ARGV[5]
+			local currentTimeUnix = tonumber(ARGV[6])
+			local currentTimeIso = ARGV[7]
+			local releasedRun = { json = ARGV[8], attempt = ARGV[9], workerId = ARGV[10], startedAt = ARGV[11] }
+
+			local currentStatus = redis.call('HGET', jobKey, 'Status')
+			if not currentStatus then
+				return redis.error_reply('NOT_FOUND')
+			end
+
+			-- The job was canceled, recovered or claimed by another worker in the meantime, so it is left alone
+			if currentStatus ~= inProgressStatus or redis.call('HGET', jobKey, 'WorkerId') ~= workerId then
+				return 0
+			end
+
+			recordRun(jobKey, releasedRun)
+
+			redis.call('HSET', jobKey,
+				'Status', queuedStatus,
+				'WorkerId', '',
+				'StartedAt', '',
+				'StartedAtUnix', '',
+				'LeaseRenewedAt', '',
+				'RetryDelayUntil', '',
+				'LastUpdatedAt', currentTimeIso)
+
+			redis.call('ZREM', 'ae:jobs:inprogress', jobId)
+			redis.call('ZADD', getQueueKey(jobKey), currentTimeUnix - getPriorityOffset(jobKey), jobId)
+
+			-- Move the job to the queued status index used by job queries
+			local createdScore = redis.call('ZSCORE', 'ae:jobs:index:created', jobId)
+			if createdScore then
+				redis.call('ZREM', 'ae:jobs:index:status:' .. inProgressStatus, jobId)
+				redis.call('ZADD', 'ae:jobs:index:status:' .. queuedStatus, createdScore, jobId)
+			end
+			setWorkerIndex(jobId, nil, '')
+
+			-- Wake clients waiting for changes of the job
+			redis.call('PUBLISH', 'ae:jobs:status', jobId .. ':' .. queuedStatus)
+
+			return 1
+		";
+
+		var now = _dateTimeProvider.DateTimeOffsetNow;
+
+		try
+		{
+			var result = await database.ScriptEvaluateAsync(luaScript,
+				values:
+				[
+					GetJobKey(jobId),
+					jobId.ToString(),
+					workerId.ToString(),
+					((int)JobStatus.InProgress).ToString(),
+					((int)JobStatus.Queued).ToString(),
+					now.ToUnixTimeSeconds().ToString(),
+					now.ToString("O"),
+					.. GetRunTemplateValues(JobRunOutcome.Released, now)
+				]);
+
+			if ((long)result == 0)
+			{
+				_logger.LogDebug("Job {JobId} is no longer held by worker {WorkerId}, skipping release", jobId, workerId);
+				return MethodResult.Success();
+			}
+
+			_logger.LogDebug("Successfully released job {JobId}", jobId);
+			return MethodResult.Success();
+		}
+		catch (RedisServerException ex) when (ex.Message.Contains("NOT_FOUND"))
+		{
+			return MethodResult.Failure(AsyncEndpointError.FromCode("JOB_NOT_FOUND", $"Job with ID {jobId} not found"));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<Guid?>> CreateJob(IDatabase database, Job job, HashEntry[] hashEntries, double queueScore, JobIdempotencyKey? idempotencyKey)
+	{
+		using var _ = _logger.BeginScope(new { JobId = job.Id });
+
+		_logger.LogDebug("Starting Redis job create operation for job {JobId}", job.Id);
+
+		var luaScript = _queueFunctions + _indexFunctions + @"
+			local jobKey = ARGV[1]
+			local jobId = ARGV[2]
+			local status = ARGV[3]
+			local jobName = ARGV[4]
+			local queue = ARGV[5]
+			local queueScore = ARGV[6]
+			local createdScore = ARGV[7]
+			local workerId = ARGV[8]
+			local completedAtMs = ARGV[9]
+			local idempotencyKey = ARGV[10]
+			local fingerprint = ARGV[11]
+			local idempotencyExpiresAtMs = ARGV[12]
+
+			-- A submission with a known idempotency key resolves to the job of the key, as long as that job still exists
+			if idempotencyKey ~= '' then
+				local existing = redis.call('HMGET', idempotencyKey, '" + nameof(JobIdempotencyKey.JobId) + @"', '" + nameof(JobIdempotencyKey.Fingerprint) + @"')
+				if existing[1] then
+					if existing[2] ~= fingerprint then
+						return redis.error_reply('IDEMPOTENCY_KEY_MISMATCH')
+					end
+
+					if redis.call('EXISTS', 'ae:job:' .. existing[1]) == 1 then
+						return existing[1]
+					end
+
+					-- The job of the key expired or was deleted, so the key is replaced
+					redis.call('DEL', idempotencyKey)
+				end
+			end
+
+			-- Concurrent creations of a deterministic job ID store it exactly once
+			if redis.call('EXISTS', jobKey) == 1 then
+				return redis.error_reply('DUPLICATE_JOB')
+			end
+
+			-- The hash entries of the job follow the fixed arguments as field and value pairs
+			local fields = {}
+			for i = 13, #ARGV do
+				table.insert(fields, ARGV[i])
+			end
+			redis.call('HSET', jobKey, unpack(fields))
+
+			-- Redis expires the mapping of the idempotency key natively
+			if idempotencyKey ~= '' then
+				redis.call('HSET', idempotencyKey, '" + nameof(JobIdempotencyKey.JobId) + @"', jobId, '" + nameof(JobIdempotencyKey.Fingerprint) + @"', fingerprint)
+				redis.call('PEXPIREAT', idempotencyKey, idempotencyExpiresAtMs)
+			end
+
+			-- Queued and scheduled jobs wait in their queue; named queues are remembered, so workers consuming every queue can find their jobs
+			if status == '" + (int)JobStatus.Queued + @"' or status == '" + (int)JobStatus.Scheduled + @"' then
+				redis.call('ZADD', getQueueKey(jobKey), queueScore, jobId)
+			end
+			if queue ~= '" + AsyncEndpointsConstants.DefaultQueueName + @"' then
+				redis.call('SADD', 'ae:jobs:queues', queue)
+			end
+
+			-- Add the job to the secondary indexes used to query jobs
+			redis.call('ZADD', 'ae:jobs:index:created', createdScore, jobId)
+			redis.call('ZADD', 'ae:jobs:index:name:' .. jobName, createdScore, jobId)
+			redis.call('ZADD', 'ae:jobs:index:status:' .. status, createdScore, jobId)
+			setWorkerIndex(jobId, createdScore, workerId)
+			setCompletedIndex(jobId, completedAtMs)
+
+			-- Wake clients waiting for the job, and idle workers when the job is queued
+			redis.call('PUBLISH', 'ae:jobs:status', jobId .. ':' .. status)
+
+			return false
+		";
+
+		var values = new List<RedisValue>
+		{
+			GetJobKey(job.Id),
+			job.Id.ToString(),
+			((int)job.Status).ToString(),
+			job.Name,
+			job.Queue,
+			queueScore.ToString("R", CultureInfo.InvariantCulture),
+			job.CreatedAt.ToUnixTimeMilliseconds(),
+			job.WorkerId?.ToString() ?? "",
+			job.CompletedAt?.ToUnixTimeMilliseconds().ToString() ?? "",
+			idempotencyKey != null ? GetIdempotencyKey(idempotencyKey.Key) : "",
+			idempotencyKey?.Fingerprint ?? "",
+			idempotencyKey?.ExpiresAt.ToUnixTimeMilliseconds().ToString() ?? ""
+		};
+		foreach (var hashEntry in hashEntries)
+		{
+			values.Add(hashEntry.Name);
+			values.Add(hashEntry.Value);
+		}
+
+		try
+		{
+			var result = await database.ScriptEvaluateAsync(luaScript, values: [.. values]);
+			if (result.IsNull)
+			{
+				_logger.LogDebug("Successfully created job {JobId}", job.Id);
+				return MethodResult<Guid?>.Success(null);
+			}
+
+			var existingJobId = Guid.Parse(result.ToString()!);
+			_logger.LogDebug("Found existing job {ExistingJobId} for the idempotency key of job {JobId}", existingJobId, job.Id);
+			return MethodResult<Guid?>.Success(existingJobId);
+		}
+		catch (RedisServerException ex) when (ex.Message.Contains("IDEMPOTENCY_KEY_MISMATCH"))
+		{
+			return MethodResult<Guid?>.Failure(AsyncEndpointError.FromCode(AsyncEndpointsConstants.IdempotencyKeyMismatchErrorCode,
+				"Idempotency key was already used with a different payload"));
+		}
+		catch (RedisServerException ex) when (ex.Message.Contains("DUPLICATE_JOB"))
+		{
+			return MethodResult<Guid?>.Failure(AsyncEndpointError.FromCode("DUPLICATE_JOB", $"Job with ID {job.Id} already exists"));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<bool>> UpdateJob(IDatabase database, Job job, HashEntry[] hashEntries, double queueScore, bool onlyIfInProgress, Guid? workerId)
+	{
+		using var _ = _logger.BeginScope(new { JobId = job.Id });
+
+		_logger.LogDebug("Starting Redis job update operation for job {JobId}", job.Id);
+
+		var luaScript = _queueFunctions + _indexFunctions + @"
+			local jobKey = ARGV[1]
+			local jobId = ARGV[2]
+			local onlyIfInProgress = ARGV[3]
+			local workerId = ARGV[4]
+			local inProgressStatus = ARGV[5]
+			local newStatus = ARGV[6]
+			local createdScore = ARGV[7]
+			local queueScore = ARGV[8]
+			local inProgressScore = ARGV[9]
+			local expiresAtMs = ARGV[10]
+			local expiryMember = ARGV[11]
+			local newWorkerId = ARGV[12]
+			local completedAtMs = ARGV[13]
+
+			local currentStatus = redis.call('HGET', jobKey, 'Status')
+			if onlyIfInProgress == '1' then
+				-- The job was deleted, canceled, released or recovered in the meantime, so it is left alone
+				if currentStatus ~= inProgressStatus or redis.call('HGET', jobKey, 'WorkerId') ~= workerId then
+					return 0
+				end
+			elseif not currentStatus then
+				return redis.error_reply('NOT_FOUND')
+			end
+
+			-- The hash entries of the job follow the fixed arguments as field and value pairs
+			local fields = {}
+			for i = 14, #ARGV do
+				table.insert(fields, ARGV[i])
+			end
+			redis.call('HSET', jobKey, unpack(fields))
+
+			-- Only queued and scheduled jobs wait in their queue, and only in-progress jobs are leased
+			local queueKey = getQueueKey(jobKey)
+			redis.call('ZREM', queueKey, jobId)
+			redis.call('ZREM', 'ae:jobs:inprogress', jobId)
+			if newStatus == '" + (int)JobStatus.Queued + @"' or newStatus == '" + (int)JobStatus.Scheduled + @"' then
+				redis.call('ZADD', queueKey, queueScore, jobId)
+			elseif newStatus == inProgressStatus and inProgressScore ~= '' then
+				redis.call('ZADD', 'ae:jobs:inprogress', inProgressScore, jobId)
+			end
+
+			-- Move the job to the status, worker and completion time indexes used by job queries
+			redis.call('ZREM', 'ae:jobs:index:status:' .. currentStatus, jobId)
+			redis.call('ZADD', 'ae:jobs:index:status:' .. newStatus, createdScore, jobId)
+			setWorkerIndex(jobId, createdScore, newWorkerId)
+			setCompletedIndex(jobId, completedAtMs)
+
+			-- Let Redis expire the hash natively; the expiry index is used to clean up the index sets afterwards
+			if expiresAtMs ~= '' then
+				redis.call('PEXPIREAT', jobKey, expiresAtMs)
+				redis.call('ZADD', 'ae:jobs:index:expiry', expiresAtMs, expiryMember)
+			else
+				redis.call('PERSIST', jobKey)
+				redis.call('ZREM', 'ae:jobs:index:expiry', expiryMember)
+			end
+
+			-- Wake clients waiting for changes of the job
+			redis.call('PUBLISH', 'ae:jobs:status', jobId .. ':' .. newStatus)
+
+			return 1
+		";
+
+		// In-progress jobs are scored by their lease renewal time for efficient recovery scanning
+		var leaseRenewedAt = job.LeaseRenewedAt ?? job.StartedAt ?? _dateTimeProvider.DateTimeOffsetNow;
+
+		var values = new List<RedisValue>
+		{
+			GetJobKey(job.Id),
+			job.Id.ToString(),
+			onlyIfInProgress ? "1" : "0",
+			workerId?.ToString() ?? "",
+			((int)JobStatus.InProgress).ToString(),
+			((int)job.Status).ToString(),
+			job.CreatedAt.ToUnixTimeMilliseconds(),
+			queueScore.ToString("R", CultureInfo.InvariantCulture),
+			job.WorkerId.HasValue ? leaseRenewedAt.ToUnixTimeSeconds().ToString() : "",
+			job.ExpiresAt?.ToUnixTimeMilliseconds().ToString() ?? "",
+			$"{job.Id}:{job.Name}",
+			job.WorkerId?.ToString() ?? "",
+			job.CompletedAt?.ToUnixTimeMilliseconds().ToString() ?? ""
+		};
+		foreach (var hashEntry in hashEntries)
+		{
+			values.Add(hashEntry.Name);
+			values.Add(hashEntry.Value);
+		}
+
+		try
+		{
+			var result = await database.ScriptEvaluateAsync(luaScript, values: [.. values]);
+			if ((long)result == 0)
+			{
+				_logger.LogDebug("Job {JobId} is no longer held by worker {WorkerId}, skipping update", job.Id, workerId);
+				return MethodResult<bool>.Success(false);
+			}
+
+			_logger.LogDebug("Successfully updated job {JobId}", job.Id);
+			return MethodResult<bool>.Success(true);
+		}
+		catch (RedisServerException ex) when (ex.Message.Contains("NOT_FOUND"))
+		{
+			return MethodResult<bool>.Failure(AsyncEndpointError.FromCode("JOB_NOT_FOUND", $"Job with ID {job.Id} not found"));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult> UpdateJobProgress(IDatabase database, Guid jobId, string serializedProgress)
+	{
+		using var _ = _logger.BeginScope(new { JobId = jobId });
+
+		_logger.LogDebug("Starting Redis job progress update for job {JobId}", jobId);
+
+		var luaScript = @"
+			local jobKey = ARGV[1]
+			local jobId = ARGV[2]
+			local inProgressStatus = ARGV[3]
+			local progress = ARGV[4]
+			local currentTimeIso = ARGV[5]
+
+			local currentStatus = redis.call('HGET', jobKey, 'Status')
+			if not currentStatus then
+				return redis.error_reply('NOT_FOUND')
+			end
+
+			-- Progress reported after the job finished or was canceled is ignored
+			if currentStatus ~= inProgressStatus then
+				return 0
+			end
+
+			redis.call('HSET', jobKey,
+				'Progress', progress,
+				'LastUpdatedAt', currentTimeIso)
+
+			-- Wake clients waiting for changes of the job
+			redis.call('PUBLISH', 'ae:jobs:status', jobId .. ':' .. currentStatus)
+
+			return 1
+		";
+
+		var now = _dateTimeProvider.DateTimeOffsetNow;
+
+		try
+		{
+			await database.ScriptEvaluateAsync(luaScript,
+				values:
+				[
+					GetJobKey(jobId),
+					jobId.ToString(),
+					((int)JobStatus.InProgress).ToString(),
+					serializedProgress,
+					now.ToString("O")
+				]);
+
+			_logger.LogDebug("Successfully updated progress of job {JobId}", jobId);
+			return MethodResult.Success();
+		}
+		catch (RedisServerException ex) when (ex.Message.Contains("NOT_FOUND"))
+		{
+			return MethodResult.Failure(AsyncEndpointError.FromCode("JOB_NOT_FOUND", $"Job with ID {jobId} not found"));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult> UpdateJobCallback(IDatabase database, Guid jobId, string serializedCallback)
+	{
+		using var _ = _logger.BeginScope(new { JobId = jobId });
+
+		_logger.LogDebug("Starting Redis job callback update for job {JobId}", jobId);
+
+		var luaScript = @"
+			local jobKey = ARGV[1]
+			local callback = ARGV[2]
+
+			-- A job that expired or was deleted meanwhile is not recreated with only its callback
+			if redis.call('EXISTS', jobKey) == 0 then
+				return redis.error_reply('NOT_FOUND')
+			end
+
+			redis.call('HSET', jobKey, 'Callback', callback)
+
+			return 1
+		";
+
+		try
+		{
+			await database.ScriptEvaluateAsync(luaScript,
+				values:
+				[
+					GetJobKey(jobId),
+					serializedCallback
+				]);
+
+			_logger.LogDebug("Successfully updated callback of job {JobId}", jobId);
+			return MethodResult.Success();
+		}
+		catch (RedisServerException ex) when (ex.Message.Contains("NOT_FOUND"))
+		{
+			return MethodResult.Failure(AsyncEndpointError.FromCode("JOB_NOT_FOUND", $"Job with ID {jobId} not found"));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<JobLimitAcquisition>> AcquireJobLimits(IDatabase database, Job job, AsyncEndpointsJobLimits limits, TimeSpan leaseDuration)
+	{
+		using var _ = _logger.BeginScope(new { JobId = job.Id, JobName = job.Name });
+
+		_logger.LogDebug("Taking the limits of job name {JobName} for job {JobId}", job.Name, job.Id);
+
+		var luaScript = @"
+			local runningKey = ARGV[1]
+			local rateLimitKey = ARGV[2]
+			local jobId = ARGV[3]
+			local now = tonumber(ARGV[4])
+			local leaseUntil = ARGV[5]
+			local maxConcurrency = tonumber(ARGV[6])
+			local permits = tonumber(ARGV[7])
+			local periodMs = tonumber(ARGV[8])
+			local concurrencyDeferMs = tonumber(ARGV[9])
+
+			if maxConcurrency > 0 then
+				-- Slots of workers that stopped without releasing them expire with their lease
+				redis.call('ZREMRANGEBYSCORE', runningKey, '-inf', now)
+				if not redis.call('ZSCORE', runningKey, jobId) and redis.call('ZCARD', runningKey) >= maxConcurrency then
+					return concurrencyDeferMs
+				end
+			end
+
+			if permits > 0 then
+				-- Refill the token bucket for the time passed since it was last used, up to the number of permits
+				local bucket = redis.call('HMGET', rateLimitKey, 'Tokens', 'UpdatedAt')
+				local tokens = permits
+				if bucket[1] then
+					tokens = math.min(permits, tonumber(bucket[1]) + (now - tonumber(bucket[2])) * permits / periodMs)
+				end
+
+				if tokens < 1 then
+					redis.call('HSET', rateLimitKey, 'Tokens', tostring(tokens), 'UpdatedAt', ARGV[4])
+					redis.call('PEXPIRE', rateLimitKey, periodMs)
+					return math.ceil((1 - tokens) * periodMs / permits)
+				end
+
+				-- An idle bucket is full again after one period, so it can expire
+				redis.call('HSET', rateLimitKey, 'Tokens', tostring(tokens - 1), 'UpdatedAt', ARGV[4])
+				redis.call('PEXPIRE', rateLimitKey, periodMs)
+			end
+
+			if maxConcurrency > 0 then
+				redis.call('ZADD', runningKey, leaseUntil, jobId)
+			end
+
+			return 0
+		";
+
+		var now = _dateTimeProvider.DateTimeOffsetNow;
+		var hasRateLimit = limits.RateLimitPermits > 0 && limits.RateLimitPeriod > TimeSpan.Zero;
+
 		var result = await database.ScriptEvaluateAsync(luaScript,
 			values:
 			[
-				timeoutUnixTime.ToString(),
-				maxRetries.ToString(),
-				currentTimeUnix.ToString(),
-				currentTimeIso,
-				((int)JobStatus.InProgress).ToString(),
-				((int)JobStatus.Scheduled).ToString(),
-				((int)JobStatus.Failed).ToString()
+				GetRunningJobsKey(job.Name),
+				GetRateLimitKey(job.Name),
+				job.Id.ToString(),
+				now.ToUnixTimeMilliseconds(),
+				now.Add(leaseDuration).ToUnixTimeMilliseconds(),
+				limits.MaxConcurrency ?? 0,
+				hasRateLimit ? limits.RateLimitPermits!.Value : 0,
+				(long)limits.RateLimitPeriod.TotalMilliseconds,
+				AsyncEndpointsConstants.JobLimitDeferDelayMs
 			]);
 
-		return (int)(long)result;
+		var retryAfterMs = (long)result;
+		if (retryAfterMs > 0)
+		{
+			_logger.LogDebug("Limits of job name {JobName} are saturated for {RetryAfter}ms", job.Name, retryAfterMs);
+			return MethodResult<JobLimitAcquisition>.Success(JobLimitAcquisition.Saturated(TimeSpan.FromMilliseconds(retryAfterMs)));
+		}
+
+		return MethodResult<JobLimitAcquisition>.Success(JobLimitAcquisition.Acquired);
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult> ReleaseJobLimits(IDatabase database, Job job)
+	{
+		await database.SortedSetRemoveAsync(GetRunningJobsKey(job.Name), job.Id.ToString());
+
+		_logger.LogDebug("Released the concurrency slot of job {JobId}", job.Id);
+		return MethodResult.Success();
 	}
 
 	/// <summary>
@@ -237,4 +1244,76 @@ public class RedisLuaScriptService(ILogger<RedisLuaScriptService> logger, IDateT
 	/// <param name="jobId">The unique identifier of the job.</param>
 	/// <returns>The Redis key string for the job.</returns>
 	private static string GetJobKey(Guid jobId) => $"ae:job:{jobId}";
+
+	/// <summary>
+	/// Generates the Redis key of the hash mapping an idempotency key to its job.
+	/// </summary>
+	/// <param name="scopedKey">The idempotency key, scoped to the job name.</param>
+	/// <returns>The Redis key string for the idempotency key.</returns>
+	private static string GetIdempotencyKey(string scopedKey) => $"ae:idempotency:{scopedKey}";
+
+	/// <summary>
+	/// Generates the Redis key of the sorted set holding the leased concurrency slots of a job name.
+	/// </summary>
+	/// <param name="jobName">The name of the job.</param>
+	/// <returns>The Redis key string for the concurrency slots.</returns>
+	private static string GetRunningJobsKey(string jobName) => $"ae:limits:running:{jobName}";
+
+	/// <summary>
+	/// Generates the Redis key of the hash holding the rate limit token bucket of a job name.
+	/// </summary>
+	/// <param name="jobName">The name of the job.</param>
+	/// <returns>The Redis key string for the token bucket.</returns>
+	private static string GetRateLimitKey(string jobName) => $"ae:limits:rate:{jobName}";
+
+	/// <summary>
+	/// Formats a time the way it is compared with the scores of the queue sorted sets.
+	/// </summary>
+	/// <param name="time">The time to format.</param>
+	/// <returns>The number of seconds since the Unix epoch.</returns>
+	private static string GetQueueScore(DateTimeOffset time) =>
+		(time - DateTimeOffset.UnixEpoch).TotalSeconds.ToString("R", CultureInfo.InvariantCulture);
+
+	/// <summary>
+	/// Serializes a run ending now, with placeholders for the attempt, worker and start time that scripts fill in from the claim of the job.
+	/// </summary>
+	/// <param name="outcome">How the run ended.</param>
+	/// <param name="now">The time the run ended.</param>
+	/// <returns>The serialized run followed by the serialized attempt, worker and start time placeholders.</returns>
+	private RedisValue[] GetRunTemplateValues(JobRunOutcome outcome, DateTimeOffset now)
+	{
+		var runTemplate = new JobRun
+		{
+			Attempt = int.MinValue,
+			WorkerId = Guid.Empty,
+			StartedAt = DateTimeOffset.MinValue,
+			EndedAt = now,
+			Outcome = outcome
+		};
+
+		return
+		[
+			_serializer.Serialize(runTemplate),
+			_serializer.Serialize(runTemplate.Attempt),
+			_serializer.Serialize(runTemplate.WorkerId),
+			_serializer.Serialize(runTemplate.StartedAt)
+		];
+	}
+
+	/// <summary>
+	/// Formats the expiry of a job finished now, in milliseconds since the Unix epoch and in ISO 8601 format.
+	/// </summary>
+	/// <param name="now">The time the job finished.</param>
+	/// <param name="retention">The retention period of the job, or null if the job is kept indefinitely.</param>
+	/// <returns>The expiry values, which are empty if the job is kept indefinitely.</returns>
+	private static RedisValue[] GetExpiryValues(DateTimeOffset now, TimeSpan? retention)
+	{
+		if (!retention.HasValue)
+		{
+			return ["", ""];
+		}
+
+		var expiresAt = now + retention.Value;
+		return [expiresAt.ToUnixTimeMilliseconds().ToString(), expiresAt.ToString("O")];
+	}
 }
@@ -1,3 +1,4 @@
+using AsyncEndpoints.Configuration;
 using AsyncEndpoints.Infrastructure;
 using AsyncEndpoints.Infrastructure.Observability;
 using AsyncEndpoints.Infrastructure.Serialization;
@@ -27,12 +28,32 @@ public class RedisJobStore : IJobStore
 	private readonly IAsyncEndpointsObservability _metrics;
 
 	private static readonly string _queueKey = "ae:jobs:queue";
+	private static readonly string _queueNamesKey = "ae:jobs:queues";
 	private static readonly string _inProgressKey = "ae:jobs:inprogress";
+	private static readonly string _createdIndexKey = "ae:jobs:index:created";
+	private static readonly string _expiryIndexKey = "ae:jobs:index:expiry";
+	private static readonly string _completedIndexKey = "ae:jobs:index:completed";
+	private static readonly string _workerIdsKey = "ae:jobs:index:workerids";
+	private static readonly string _workersKey = "ae:workers";
 	private static readonly string _jobStoreErrorCode = "JOB_STORE_ERROR";
 	private static readonly string _createJobOperationName = "CreateJob";
+	private static readonly string _createJobWithIdempotencyKeyOperationName = "CreateJobWithIdempotencyKey";
 	private static readonly string _getJobByIdOperationName = "GetJobById";
 	private static readonly string _updateJobOperationName = "UpdateJob";
+	private static readonly string _updateInProgressJobOperationName = "UpdateInProgressJob";
+	private static readonly string _updateJobProgressOperationName = "UpdateJobProgress";
+	private static readonly string _updateJobCallbackOperationName = "UpdateJobCallback";
 	private static readonly string _claimNextJobOperationName = "ClaimNextJob";
+	private static readonly string _claimNextJobsOperationName = "ClaimNextJobs";
+	private static readonly string _cancelJobOperationName = "CancelJob";
+	private static readonly string _requeueJobOperationName = "RequeueJob";
+	private static readonly string _releaseJobOperationName = "ReleaseJob";
+	private static readonly string _queryJobsOperationName = "QueryJobs";
+	private static readonly string _getJobStatsOperationName = "GetJobStats";
+	private static readonly string _deleteJobOperationName = "DeleteJob";
+	private static readonly string _deleteExpiredJobsOperationName = "DeleteExpiredJobs";
+	private static readonly string _saveWorkerHeartbeatOperationName = "SaveWorkerHeartbeat";
+	private static readonly string _getWorkersOperationName = "GetWorkers";
 	private static readonly string _invalidJobErrorCode = "INVALID_JOB";
 	private static readonly string _invalidJobIdErrorCode = "INVALID_JOB_ID";
 	private static readonly string _jobNotFoundErrorCode = "JOB_NOT_FOUND";
@@ -41,6 +62,9 @@ public class RedisJobStore : IJobStore
 	private static readonly string _deserializationError = "DESERIALIZATION_ERROR";
 	private static readonly string _errorTypeTag = "error.type";
 	private static readonly string _parseError = "PARSE_ERROR";
+	private static readonly int _queryBatchSize = 100;
+	private static readonly int _claimCandidateCount = 10;
+	private static readonly int _idempotentCreateAttempts = 2;
 
 	public bool SupportsJobRecovery => true; // Redis supports recovery
 
@@ -123,11 +147,10 @@ public class RedisJobStore : IJobStore
 				return await Task.FromCanceled<MethodResult>(cancellationToken);
 			}
 
-			var jobKey = GetJobKey(job.Id);
-
-			// Use hash exists check to avoid overwriting
-			var jobExists = await _database.KeyExistsAsync(jobKey);
-			if (jobExists)
+			// The hash, the queue entry and the indexes of the job are written in one script, only if no job with the same ID exists yet,
+			// so that concurrent creations of a deterministic job ID store it exactly once and a job is never left out of its queue
+			var createResult = await _redisLuaScriptService.CreateJob(_database, job, _jobHashConverter.ConvertToHashEntries(job), GetJobScore(job), null);
+			if (!createResult.IsSuccess)
 			{
 				_logger.LogError("Job with ID {JobId} already exists", job.Id);
 				_metrics.RecordStoreError(_createJobOperationName, _duplicateJobErrorCode, this.GetType().Name);
@@ -138,16 +161,6 @@ public class RedisJobStore : IJobStore
 					AsyncEndpointError.FromCode(_jobCreateFailedErrorCode, $"Job with ID {job.Id} already exists"));
 			}
 
-			// Create job in Redis as a hash
-			var hashEntries = _jobHashConverter.ConvertToHashEntries(job);
-			await _database.HashSetAsync(jobKey, hashEntries);
-
-			// Add job to the queue set if it's queued
-			if (job.Status == JobStatus.Queued)
-			{
-				await _database.SortedSetAddAsync(_queueKey, job.Id.ToString(), GetJobScore(job));
-			}
-
 			_logger.LogInformation("Created job {JobId} with name {JobName}", job.Id, job.Name);
 			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
 			_metrics.RecordStoreOperationDuration(_createJobOperationName, this.GetType().Name, duration);
@@ -170,6 +183,111 @@ public class RedisJobStore : IJobStore
 		}
 	}
 
+	/// <inheritdoc />
+	public async Task<MethodResult<Job>> CreateJobWithIdempotencyKey(Job job, JobIdempotencyKey idempotencyKey, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_createJobWithIdempotencyKeyOperationName, this.GetType().Name, job?.Id);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (job == null)
+			{
+				_logger.LogWarning("Attempted to create null job");
+				_metrics.RecordStoreError(_createJobWithIdempotencyKeyOperationName, _invalidJobErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job");
+				activity?.SetTag(_errorTypeTag, _invalidJobErrorCode);
+
+				return MethodResult<Job>.Failure(
+					AsyncEndpointError.FromCode(_invalidJobErrorCode, "Job cannot be null"));
+			}
+
+			if (job.Id == Guid.Empty)
+			{
+				_logger.LogWarning("Attempted to create job with empty ID");
+				_metrics.RecordStoreError(_createJobWithIdempotencyKeyOperationName, _invalidJobIdErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job ID");
+				activity?.SetTag(_errorTypeTag, _invalidJobIdErrorCode);
+
+				return MethodResult<Job>.Failure(
+					AsyncEndpointError.FromCode(_invalidJobIdErrorCode, "Job ID cannot be empty"));
+			}
+
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job create operation cancelled");
+				return await Task.FromCanceled<MethodResult<Job>>(cancellationToken);
+			}
+
+			var hashEntries = _jobHashConverter.ConvertToHashEntries(job);
+
+			for (var attempt = 1; attempt <= _idempotentCreateAttempts; attempt++)
+			{
+				// The job and the key mapping are written in one script, unless the key is already mapped to an existing job,
+				// so concurrent submissions with the same key create a single job. Redis expires the mapping natively.
+				var createResult = await _redisLuaScriptService.CreateJob(_database, job, hashEntries, GetJobScore(job), idempotencyKey);
+				if (!createResult.IsSuccess)
+				{
+					// The job ID itself is taken
+					if (createResult.Error.Code != AsyncEndpointsConstants.IdempotencyKeyMismatchErrorCode)
+						break;
+
+					_logger.LogWarning("Idempotency key of job {JobId} was reused with a different payload", job.Id);
+					_metrics.RecordStoreError(_createJobWithIdempotencyKeyOperationName, AsyncEndpointsConstants.IdempotencyKeyMismatchErrorCode, this.GetType().Name);
+					activity?.SetStatus(ActivityStatusCode.Error, "Idempotency key mismatch");
+					activity?.SetTag(_errorTypeTag, AsyncEndpointsConstants.IdempotencyKeyMismatchErrorCode);
+
+					return MethodResult<Job>.Failure(createResult.Error);
+				}
+
+				if (createResult.Data == null)
+				{
+					_logger.LogInformation("Created job {JobId} with name {JobName} for idempotency key", job.Id, job.Name);
+					var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+					_metrics.RecordStoreOperationDuration(_createJobWithIdempotencyKeyOperationName, this.GetType().Name, duration);
+					_metrics.RecordStoreOperation(_createJobWithIdempotencyKeyOperationName, this.GetType().Name);
+
+					return MethodResult<Job>.Success(job);
+				}
+
+				var existingJobHash = await _database.HashGetAllAsync(GetJobKey(createResult.Data.Value));
+				if (existingJobHash.Length > 0)
+				{
+					_logger.LogDebug("Found existing job {JobId} for idempotency key", createResult.Data.Value);
+					var existingDuration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+					_metrics.RecordStoreOperationDuration(_createJobWithIdempotencyKeyOperationName, this.GetType().Name, existingDuration);
+					_metrics.RecordStoreOperation(_createJobWithIdempotencyKeyOperationName, this.GetType().Name);
+
+					return MethodResult<Job>.Success(_jobHashConverter.ConvertFromHashEntries(existingJobHash));
+				}
+
+				// The job of the key expired right after the key was read, so the script replaces the key on the next attempt
+			}
+
+			_logger.LogError("Failed to create job with ID {JobId} for idempotency key", job.Id);
+			_metrics.RecordStoreError(_createJobWithIdempotencyKeyOperationName, _duplicateJobErrorCode, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, "Duplicate job");
+			activity?.SetTag(_errorTypeTag, _duplicateJobErrorCode);
+
+			return MethodResult<Job>.Failure(
+				AsyncEndpointError.FromCode(_jobCreateFailedErrorCode, $"Failed to create job with ID {job.Id}"));
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_createJobWithIdempotencyKeyOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error creating job: {JobName}", job?.Name);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_createJobWithIdempotencyKeyOperationName, this.GetType().Name, duration);
+
+			return MethodResult<Job>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error creating job: {ex.Message}", ex));
+		}
+	}
+
 	/// <inheritdoc />
 	public async Task<MethodResult<Job>> GetJobById(Guid id, CancellationToken cancellationToken)
 	{
@@ -282,42 +400,20 @@ public class RedisJobStore : IJobStore
 				return await Task.FromCanceled<MethodResult>(cancellationToken);
 			}
 
-			var jobKey = GetJobKey(job.Id);
-			var jobExists = await _database.KeyExistsAsync(jobKey);
-
-			if (!jobExists)
-			{
-				_logger.LogWarning("Attempted to update non-existent job {JobId}", job.Id);
-				_metrics.RecordStoreError(_updateJobOperationName, _jobNotFoundErrorCode, this.GetType().Name);
-				activity?.SetStatus(ActivityStatusCode.Error, "Job not found");
-				activity?.SetTag(_errorTypeTag, _jobNotFoundErrorCode);
-
-				return MethodResult.Failure(
-					AsyncEndpointError.FromCode(_jobNotFoundErrorCode, $"Job with ID {job.Id} not found"));
-			}
-
 			// Update the last updated timestamp
 			job.LastUpdatedAt = _dateTimeProvider.DateTimeOffsetNow;
 
-			// Convert the job to hash entries and update the hash
+			// The hash, the queue, the in-progress set and the query indexes are updated by a single script, so they never disagree
 			var hashEntries = _jobHashConverter.ConvertToHashEntries(job);
-			await _database.HashSetAsync(jobKey, hashEntries);
-
-			// Update queue and in-progress sets based on job status
-			await _database.SortedSetRemoveAsync(_queueKey, job.Id.ToString());
-			await _database.SortedSetRemoveAsync(_inProgressKey, job.Id.ToString());
-
-			// Only add back to queue if it's queued or scheduled for retry
-			if (job.Status == JobStatus.Queued || job.Status == JobStatus.Scheduled)
-			{
-				await _database.SortedSetAddAsync(_queueKey, job.Id.ToString(), GetJobScore(job));
-			}
-			// Add to in-progress set if status is InProgress and has a worker assigned
-			else if (job.Status == JobStatus.InProgress && job.WorkerId.HasValue)
+			var updateResult = await _redisLuaScriptService.UpdateJob(_database, job, hashEntries, GetJobScore(job), false, null);
+			if (!updateResult.IsSuccess)
 			{
-				// Add to in-progress set with started timestamp as score for efficient recovery scanning
-				var startedAtScore = (job.StartedAt?.ToUnixTimeSeconds() ?? _dateTimeProvider.DateTimeOffsetNow.ToUnixTimeSeconds()).ToString();
-				await _database.SortedSetAddAsync(_inProgressKey, job.Id.ToString(), double.Parse(startedAtScore));
+				_logger.LogWarning("Failed to update job {JobId}: {Error}", job.Id, updateResult.Error.Message);
+				_metrics.RecordStoreError(_updateJobOperationName, updateResult.Error.Code, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, updateResult.Error.Message);
+				activity?.SetTag(_errorTypeTag, updateResult.Error.Code);
+
+				return MethodResult.Failure(updateResult.Error);
 			}
 
 			_logger.LogDebug("Updated job {JobId}", job.Id);
@@ -343,7 +439,81 @@ public class RedisJobStore : IJobStore
 	}
 
 	/// <inheritdoc />
-	public async Task<MethodResult<Job>> ClaimNextJobForWorker(Guid workerId, CancellationToken cancellationToken)
+	public async Task<MethodResult<bool>> UpdateInProgressJob(Job job, Guid? workerId, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_updateInProgressJobOperationName, this.GetType().Name, job?.Id);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (job == null)
+			{
+				_logger.LogWarning("Attempted to update null job");
+				_metrics.RecordStoreError(_updateInProgressJobOperationName, _invalidJobErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job");
+				activity?.SetTag(_errorTypeTag, _invalidJobErrorCode);
+
+				return MethodResult<bool>.Failure(
+					AsyncEndpointError.FromCode(_invalidJobErrorCode, "Job cannot be null"));
+			}
+
+			if (job.Id == Guid.Empty)
+			{
+				_logger.LogWarning("Attempted to update job with empty ID");
+				_metrics.RecordStoreError(_updateInProgressJobOperationName, _invalidJobIdErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job ID");
+				activity?.SetTag(_errorTypeTag, _invalidJobIdErrorCode);
+
+				return MethodResult<bool>.Failure(
+					AsyncEndpointError.FromCode(_invalidJobIdErrorCode, "Job ID cannot be empty"));
+			}
+
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job update operation cancelled for ID {JobId}", job.Id);
+				return await Task.FromCanceled<MethodResult<bool>>(cancellationToken);
+			}
+
+			job.LastUpdatedAt = _dateTimeProvider.DateTimeOffsetNow;
+
+			// The ownership check and the update run in the same script, so a job canceled or recovered concurrently is never overwritten
+			var hashEntries = _jobHashConverter.ConvertToHashEntries(job);
+			var updateResult = await _redisLuaScriptService.UpdateJob(_database, job, hashEntries, GetJobScore(job), true, workerId);
+			if (!updateResult.IsSuccess)
+			{
+				_logger.LogWarning("Failed to update in-progress job {JobId}: {Error}", job.Id, updateResult.Error.Message);
+				_metrics.RecordStoreError(_updateInProgressJobOperationName, updateResult.Error.Code, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, updateResult.Error.Message);
+				activity?.SetTag(_errorTypeTag, updateResult.Error.Code);
+
+				return updateResult;
+			}
+
+			_logger.LogDebug("Updated in-progress job {JobId}: {Updated}", job.Id, updateResult.Data);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_updateInProgressJobOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_updateInProgressJobOperationName, this.GetType().Name);
+
+			return updateResult;
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_updateInProgressJobOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error updating in-progress job: {JobId}", job?.Id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_updateInProgressJobOperationName, this.GetType().Name, duration);
+
+			return MethodResult<bool>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error updating in-progress job: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<Job>> ClaimNextJobForWorker(Guid workerId, string? queue, CancellationToken cancellationToken)
 	{
 		using var _ = _logger.BeginScope(new { WorkerId = workerId });
 
@@ -362,61 +532,55 @@ public class RedisJobStore : IJobStore
 
 			_logger.LogDebug("Attempting to claim next job for worker {WorkerId}", workerId);
 
-			// Get the next available job from the queue (oldest first), considering retry delays
-			var availableJobIds = await _database.SortedSetRangeByScoreAsync(
-				_queueKey,
-				start: double.NegativeInfinity,
-				stop: GetScoreForTime(_dateTimeProvider.UtcNow),
-				exclude: Exclude.None,
-				skip: 0,
-				take: 1  // Only take the next available job
-			);
-
-			if (availableJobIds.Length == 0)
-			{
-				_logger.LogDebug("No available jobs to claim for worker {WorkerId}", workerId);
-				var noJobsDuration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
-				_metrics.RecordStoreOperationDuration(_claimNextJobOperationName, this.GetType().Name, noJobsDuration);
-				_metrics.RecordStoreOperation(_claimNextJobOperationName, this.GetType().Name);
-
-				return MethodResult<Job>.Success(default);
-			}
-
-			var jobIdString = availableJobIds[0].ToString();
-			if (!Guid.TryParse(jobIdString, out var jobId))
+			// Get the next available jobs from the queues (oldest first, adjusted by priority), considering retry delays
+			List<string> queueKeys = queue != null ? [GetQueueKey(queue)] : await GetAllQueueKeys();
+			var candidates = new List<SortedSetEntry>();
+			foreach (var queueKey in queueKeys)
 			{
-				_logger.LogDebug("Failed to parse jobId from jobIdString {JobIdString} for worker {WorkerId}", jobIdString, workerId);
-				var parseErrorDuration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
-				_metrics.RecordStoreOperationDuration(_claimNextJobOperationName, this.GetType().Name, parseErrorDuration);
-				_metrics.RecordStoreError(_claimNextJobOperationName, _parseError, this.GetType().Name);
-				activity?.SetStatus(ActivityStatusCode.Error, "Parse error");
-				activity?.SetTag(_errorTypeTag, _parseError);
-
-				return MethodResult<Job>.Success(default);
+				candidates.AddRange(await _database.SortedSetRangeByScoreWithScoresAsync(
+					queueKey,
+					start: double.NegativeInfinity,
+					stop: GetScoreForTime(_dateTimeProvider.UtcNow),
+					exclude: Exclude.None,
+					skip: 0,
+					take: _claimCandidateCount
+				));
 			}
 
-			_logger.LogDebug("Attempting to claim job {JobId} for worker {WorkerId}", jobId, workerId);
-			var result = await ClaimSingleJob(jobId, workerId);
-			if (!result.IsSuccess)
+			// Other workers may claim some of the candidates before we do, and jobs with a priority may be found before they are due
+			foreach (var candidate in candidates.OrderBy(x => x.Score).Take(_claimCandidateCount))
 			{
-				_logger.LogDebug("Failed to claim job for worker {WorkerId}", workerId);
-				_metrics.RecordStoreError(_claimNextJobOperationName, result.Error.Code, this.GetType().Name);
-				activity?.SetStatus(ActivityStatusCode.Error, result.Error.Message);
-				activity?.SetTag(_errorTypeTag, result.Error.Code);
-
-				var claimFailureDuration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
-				_metrics.RecordStoreOperationDuration(_claimNextJobOperationName, this.GetType().Name, claimFailureDuration);
+				var jobIdString = candidate.Element.ToString();
+				if (!Guid.TryParse(jobIdString, out var jobId))
+				{
+					_logger.LogDebug("Failed to parse jobId from jobIdString {JobIdString} for worker {WorkerId}", jobIdString, workerId);
+					_metrics.RecordStoreError(_claimNextJobOperationName, _parseError, this.GetType().Name);
+					continue;
+				}
+
+				_logger.LogDebug("Attempting to claim job {JobId} for worker {WorkerId}", jobId, workerId);
+				var result = await ClaimSingleJob(jobId, workerId);
+				if (!result.IsSuccess)
+				{
+					_logger.LogDebug("Failed to claim job {JobId} for worker {WorkerId}: {Error}", jobId, workerId, result.Error.Message);
+					continue;
+				}
+
+				_logger.LogInformation("Successfully claimed job {JobId} for worker {WorkerId}", jobId, workerId);
+				activity?.SetTag("job.id", jobId.ToString());
+				var successDuration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+				_metrics.RecordStoreOperationDuration(_claimNextJobOperationName, this.GetType().Name, successDuration);
+				_metrics.RecordStoreOperation(_claimNextJobOperationName, this.GetType().Name);
 
-				return MethodResult<Job>.Success(default);
+				return result;
 			}
 
-			_logger.LogInformation("Successfully claimed job {JobId} for worker {WorkerId}", jobId, workerId);
-			activity?.SetTag("job.id", jobId.ToString());
-			var successDuration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
-			_metrics.RecordStoreOperationDuration(_claimNextJobOperationName, this.GetType().Name, successDuration);
+			_logger.LogDebug("No available jobs to claim for worker {WorkerId}", workerId);
+			var noJobsDuration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_claimNextJobOperationName, this.GetType().Name, noJobsDuration);
 			_metrics.RecordStoreOperation(_claimNextJobOperationName, this.GetType().Name);
 
-			return result;
+			return MethodResult<Job>.Success(default);
 		}
 		catch (Exception ex)
 		{
@@ -434,76 +598,1049 @@ public class RedisJobStore : IJobStore
 	}
 
 	/// <inheritdoc />
-	public async Task<int> RecoverStuckJobs(long timeoutUnixTime, int maxRetries, CancellationToken cancellationToken)
+	public async Task<MethodResult<List<Job>>> ClaimNextJobsForWorker(Guid workerId, string? queue, int maxCount, CancellationToken cancellationToken)
 	{
-		return await _redisLuaScriptService.RecoverStuckJobs(_database, timeoutUnixTime, maxRetries);
-	}
+		using var _ = _logger.BeginScope(new { WorkerId = workerId });
 
-	private async Task<MethodResult<Job>> ClaimSingleJob(Guid jobId, Guid workerId)
-	{
-		var result = await _redisLuaScriptService.ClaimSingleJob(_database, jobId, workerId);
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_claimNextJobsOperationName, this.GetType().Name);
 
-		if (!result.IsSuccess)
+		var startTime = DateTimeOffset.UtcNow;
+		try
 		{
-			return MethodResult<Job>.Failure(result.Error);
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Claim next jobs for worker operation cancelled");
+				return await Task.FromCanceled<MethodResult<List<Job>>>(cancellationToken);
+			}
+
+			_logger.LogDebug("Attempting to claim up to {MaxCount} jobs for worker {WorkerId}", maxCount, workerId);
+
+			var claimedJobs = new List<Job>();
+			if (maxCount > 0)
+			{
+				List<string> queueKeys = queue != null ? [GetQueueKey(queue)] : await GetAllQueueKeys();
+
+				// Every queue is read for more candidates than requested, as other workers may claim some of them before we do
+				var result = await _redisLuaScriptService.ClaimJobs(_database, queueKeys, workerId, maxCount, maxCount + _claimCandidateCount);
+				if (!result.IsSuccess)
+				{
+					_metrics.RecordStoreError(_claimNextJobsOperationName, result.Error.Code, this.GetType().Name);
+					activity?.SetStatus(ActivityStatusCode.Error, result.Error.Message);
+					activity?.SetTag(_errorTypeTag, result.Error.Code);
+
+					_logger.LogError("Failed to claim jobs for worker {WorkerId}: {Error}", workerId, result.Error.Message);
+					var failureDuration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+					_metrics.RecordStoreOperationDuration(_claimNextJobsOperationName, this.GetType().Name, failureDuration);
+
+					return MethodResult<List<Job>>.Failure(result.Error);
+				}
+
+				foreach (var resultArray in result.Data)
+				{
+					// A job that cannot be read back stays in progress and is picked up again by the recovery service
+					var jobId = Guid.TryParse(resultArray[0].ToString(), out var parsedJobId) ? parsedJobId : Guid.Empty;
+					var claimedJob = CreateClaimedJob(jobId, resultArray, workerId);
+					if (!claimedJob.IsSuccess)
+					{
+						_metrics.RecordStoreError(_claimNextJobsOperationName, _parseError, this.GetType().Name);
+						continue;
+					}
+
+					claimedJobs.Add(claimedJob.Data);
+				}
+			}
+
+			_logger.LogDebug("Claimed {ClaimedCount} jobs for worker {WorkerId}", claimedJobs.Count, workerId);
+			activity?.SetTag("job.count", claimedJobs.Count);
+			var successDuration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_claimNextJobsOperationName, this.GetType().Name, successDuration);
+			_metrics.RecordStoreOperation(_claimNextJobsOperationName, this.GetType().Name);
+
+			return MethodResult<List<Job>>.Success(claimedJobs);
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_claimNextJobsOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error claiming next jobs for worker {WorkerId}", workerId);
+			var errorDuration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_claimNextJobsOperationName, this.GetType().Name, errorDuration);
+
+			return MethodResult<List<Job>>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error claiming jobs: {ex.Message}", ex));
 		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult> UpdateJobProgress(Guid id, JobProgress progress, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_updateJobProgressOperationName, this.GetType().Name, id);
 
+		var startTime = DateTimeOffset.UtcNow;
 		try
 		{
-			// Construct the job from the returned Redis values
-			var resultArray = result.Data;
+			if (id == Guid.Empty)
+			{
+				_logger.LogWarning("Attempted to update progress of job with empty ID");
+				_metrics.RecordStoreError(_updateJobProgressOperationName, _invalidJobIdErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job ID");
+				activity?.SetTag(_errorTypeTag, _invalidJobIdErrorCode);
 
-			var claimedJob = new Job
+				return MethodResult.Failure(
+					AsyncEndpointError.FromCode(_invalidJobIdErrorCode, "Job ID cannot be empty"));
+			}
+
+			if (cancellationToken.IsCancellationRequested)
 			{
-				Id = Guid.Parse(resultArray[0].ToString()),
-				Name = resultArray[1].ToString(),
-				Status = (JobStatus)int.Parse(resultArray[2].ToString()),
-				Headers = string.IsNullOrEmpty(resultArray[3].ToString()) ? [] : Deserialize<Dictionary<string, List<string?>>>(resultArray[3].ToString()) ?? [],
-				RouteParams = string.IsNullOrEmpty(resultArray[4].ToString()) ? [] : Deserialize<Dictionary<string, object?>>(resultArray[4].ToString()) ?? [],
-				QueryParams = string.IsNullOrEmpty(resultArray[5].ToString()) ? [] : Deserialize<List<KeyValuePair<string, List<string?>>>>(resultArray[5].ToString()) ?? [],
-				Payload = resultArray[6].ToString(),
-				Result = string.IsNullOrEmpty(resultArray[7].ToString()) ? null : resultArray[7].ToString(),
-				Error = string.IsNullOrEmpty(resultArray[8].ToString()) ? null : Deserialize<AsyncEndpointError>(resultArray[8].ToString()),
-				RetryCount = int.Parse(resultArray[9].ToString()),
-				MaxRetries = int.Parse(resultArray[10].ToString()),
-				RetryDelayUntil = string.IsNullOrEmpty(resultArray[11].ToString()) ? null : DateTime.ParseExact(resultArray[11].ToString(), "O", CultureInfo.InvariantCulture),
-				WorkerId = workerId, // Newly assigned
-				CreatedAt = DateTimeOffset.ParseExact(resultArray[13].ToString(), "O", CultureInfo.InvariantCulture),
-				StartedAt = DateTimeOffset.ParseExact(resultArray[14].ToString(), "O", CultureInfo.InvariantCulture), // Newly set
-				CompletedAt = string.IsNullOrEmpty(resultArray[15].ToString()) ? null : DateTimeOffset.ParseExact(resultArray[15].ToString(), "O", CultureInfo.InvariantCulture),
-				LastUpdatedAt = DateTimeOffset.ParseExact(resultArray[16].ToString(), "O", CultureInfo.InvariantCulture) // Newly set
-			};
+				_logger.LogDebug("Job progress update operation cancelled for ID {JobId}", id);
+				return await Task.FromCanceled<MethodResult>(cancellationToken);
+			}
 
-			return MethodResult<Job>.Success(claimedJob);
+			// Only the progress fields are written, so concurrent status changes such as cancellations are never overwritten
+			var updateResult = await _redisLuaScriptService.UpdateJobProgress(_database, id, _serializer.Serialize(progress));
+			if (!updateResult.IsSuccess)
+			{
+				_logger.LogWarning("Failed to update progress of job {JobId}: {Error}", id, updateResult.Error.Message);
+				_metrics.RecordStoreError(_updateJobProgressOperationName, updateResult.Error.Code, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, updateResult.Error.Message);
+				activity?.SetTag(_errorTypeTag, updateResult.Error.Code);
+
+				return updateResult;
+			}
+
+			_logger.LogDebug("Updated progress of job {JobId}", id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_updateJobProgressOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_updateJobProgressOperationName, this.GetType().Name);
+
+			return MethodResult.Success();
 		}
 		catch (Exception ex)
 		{
-			_logger.LogError(ex, "Error constructing job object after claiming job {JobId}", jobId);
-			return MethodResult<Job>.Failure(AsyncEndpointError.FromCode("JOB_CONSTRUCTION_ERROR", $"Error constructing job object: {ex.Message}"));
+			_metrics.RecordStoreError(_updateJobProgressOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error updating progress of job: {JobId}", id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_updateJobProgressOperationName, this.GetType().Name, duration);
+
+			return MethodResult.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error updating job progress: {ex.Message}", ex));
 		}
 	}
 
-	private IDatabase InitializeDatabase(string connectionString)
+	/// <inheritdoc />
+	public async Task<MethodResult> UpdateJobCallback(Guid id, JobCallback callback, CancellationToken cancellationToken)
 	{
-		var redis = ConnectionMultiplexer.Connect(connectionString);
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_updateJobCallbackOperationName, this.GetType().Name, id);
 
-		// Register for connection events to handle reconnection
-		redis.ConnectionFailed += (sender, e) =>
-			_logger.LogError(e.Exception, "Redis connection failed: {ErrorMessage}", e.Exception?.Message);
-		redis.ConnectionRestored += (sender, e) =>
-			_logger.LogInformation("Redis connection restored");
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (id == Guid.Empty)
+			{
+				_logger.LogWarning("Attempted to update callback of job with empty ID");
+				_metrics.RecordStoreError(_updateJobCallbackOperationName, _invalidJobIdErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job ID");
+				activity?.SetTag(_errorTypeTag, _invalidJobIdErrorCode);
 
-		return redis.GetDatabase();
-	}
+				return MethodResult.Failure(
+					AsyncEndpointError.FromCode(_invalidJobIdErrorCode, "Job ID cannot be empty"));
+			}
 
-	private static string GetJobKey(Guid jobId) => $"ae:job:{jobId}";
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job callback update operation cancelled for ID {JobId}", id);
+				return await Task.FromCanceled<MethodResult>(cancellationToken);
+			}
 
-	private static double GetJobScore(Job job)
-	{
-		// Use timestamp as score for the sorted set to prioritize older jobs
-		// If there's a retry delay, use that time instead
-		var effectiveTime = job.RetryDelayUntil ?? job.CreatedAt.UtcDateTime;
-		return GetScoreForTime(effectiveTime);
+			// Only the callback field is written, so concurrent changes of other job fields are never overwritten
+			var updateResult = await _redisLuaScriptService.UpdateJobCallback(_database, id, _serializer.Serialize(callback));
+			if (!updateResult.IsSuccess)
+			{
+				_logger.LogWarning("Failed to update callback of job {JobId}: {Error}", id, updateResult.Error.Message);
+				_metrics.RecordStoreError(_updateJobCallbackOperationName, updateResult.Error.Code, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, updateResult.Error.Message);
+				activity?.SetTag(_errorTypeTag, updateResult.Error.Code);
+
+				return updateResult;
+			}
+
+			_logger.LogDebug("Updated callback of job {JobId}", id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_updateJobCallbackOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_updateJobCallbackOperationName, this.GetType().Name);
+
+			return MethodResult.Success();
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_updateJobCallbackOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error updating callback of job: {JobId}", id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_updateJobCallbackOperationName, this.GetType().Name, duration);
+
+			return MethodResult.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error updating job callback: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<Job>> CancelJob(Guid id, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_cancelJobOperationName, this.GetType().Name, id);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (id == Guid.Empty)
+			{
+				_logger.LogWarning("Attempted to cancel job with empty ID");
+				_metrics.RecordStoreError(_cancelJobOperationName, _invalidJobIdErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job ID");
+				activity?.SetTag(_errorTypeTag, _invalidJobIdErrorCode);
+
+				return MethodResult<Job>.Failure(
+					AsyncEndpointError.FromCode(_invalidJobIdErrorCode, "Job ID cannot be empty"));
+			}
+
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job cancel operation cancelled for ID {JobId}", id);
+				return await Task.FromCanceled<MethodResult<Job>>(cancellationToken);
+			}
+
+			var cancelResult = await _redisLuaScriptService.CancelJob(_database, id);
+			if (!cancelResult.IsSuccess)
+			{
+				_logger.LogWarning("Failed to cancel job {JobId}: {Error}", id, cancelResult.Error.Message);
+				_metrics.RecordStoreError(_cancelJobOperationName, cancelResult.Error.Code, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, cancelResult.Error.Message);
+				activity?.SetTag(_errorTypeTag, cancelResult.Error.Code);
+
+				return MethodResult<Job>.Failure(cancelResult.Error);
+			}
+
+			var hashEntries = await _database.HashGetAllAsync(GetJobKey(id));
+			var job = hashEntries.Length == 0 ? null : _jobHashConverter.ConvertFromHashEntries(hashEntries);
+			if (job == null)
+			{
+				_logger.LogError("Conversion failed for canceled job with ID {JobId}", id);
+				_metrics.RecordStoreError(_cancelJobOperationName, _deserializationError, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Deserialization error");
+				activity?.SetTag(_errorTypeTag, _deserializationError);
+
+				return MethodResult<Job>.Failure(
+					AsyncEndpointError.FromCode(_deserializationError, $"Failed to convert hash to job with ID {id}"));
+			}
+
+			_logger.LogInformation("Canceled job {JobId}", id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_cancelJobOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_cancelJobOperationName, this.GetType().Name);
+
+			return MethodResult<Job>.Success(job);
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_cancelJobOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error canceling job: {JobId}", id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_cancelJobOperationName, this.GetType().Name, duration);
+
+			return MethodResult<Job>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error canceling job: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<Job>> RequeueJob(Guid id, bool resetRetries, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_requeueJobOperationName, this.GetType().Name, id);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (id == Guid.Empty)
+			{
+				_logger.LogWarning("Attempted to requeue job with empty ID");
+				_metrics.RecordStoreError(_requeueJobOperationName, _invalidJobIdErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job ID");
+				activity?.SetTag(_errorTypeTag, _invalidJobIdErrorCode);
+
+				return MethodResult<Job>.Failure(
+					AsyncEndpointError.FromCode(_invalidJobIdErrorCode, "Job ID cannot be empty"));
+			}
+
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job requeue operation cancelled for ID {JobId}", id);
+				return await Task.FromCanceled<MethodResult<Job>>(cancellationToken);
+			}
+
+			var requeueResult = await _redisLuaScriptService.RequeueJob(_database, id, resetRetries);
+			if (!requeueResult.IsSuccess)
+			{
+				_logger.LogWarning("Failed to requeue job {JobId}: {Error}", id, requeueResult.Error.Message);
+				_metrics.RecordStoreError(_requeueJobOperationName, requeueResult.Error.Code, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, requeueResult.Error.Message);
+				activity?.SetTag(_errorTypeTag, requeueResult.Error.Code);
+
+				return MethodResult<Job>.Failure(requeueResult.Error);
+			}
+
+			var hashEntries = await _database.HashGetAllAsync(GetJobKey(id));
+			var job = hashEntries.Length == 0 ? null : _jobHashConverter.ConvertFromHashEntries(hashEntries);
+			if (job == null)
+			{
+				_logger.LogError("Conversion failed for requeued job with ID {JobId}", id);
+				_metrics.RecordStoreError(_requeueJobOperationName, _deserializationError, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Deserialization error");
+				activity?.SetTag(_errorTypeTag, _deserializationError);
+
+				return MethodResult<Job>.Failure(
+					AsyncEndpointError.FromCode(_deserializationError, $"Failed to convert hash to job with ID {id}"));
+			}
+
+			_logger.LogInformation("Requeued job {JobId}", id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_requeueJobOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_requeueJobOperationName, this.GetType().Name);
+
+			return MethodResult<Job>.Success(job);
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_requeueJobOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error requeuing job: {JobId}", id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_requeueJobOperationName, this.GetType().Name, duration);
+
+			return MethodResult<Job>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error requeuing job: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult> ReleaseJob(Guid id, Guid workerId, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_releaseJobOperationName, this.GetType().Name, id);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (id == Guid.Empty)
+			{
+				_logger.LogWarning("Attempted to release job with empty ID");
+				_metrics.RecordStoreError(_releaseJobOperationName, _invalidJobIdErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job ID");
+				activity?.SetTag(_errorTypeTag, _invalidJobIdErrorCode);
+
+				return MethodResult.Failure(
+					AsyncEndpointError.FromCode(_invalidJobIdErrorCode, "Job ID cannot be empty"));
+			}
+
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job release operation cancelled for ID {JobId}", id);
+				return await Task.FromCanceled<MethodResult>(cancellationToken);
+			}
+
+			var releaseResult = await _redisLuaScriptService.ReleaseJob(_database, id, workerId);
+			if (!releaseResult.IsSuccess)
+			{
+				_logger.LogWarning("Failed to release job {JobId}: {Error}", id, releaseResult.Error.Message);
+				_metrics.RecordStoreError(_releaseJobOperationName, releaseResult.Error.Code, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, releaseResult.Error.Message);
+				activity?.SetTag(_errorTypeTag, releaseResult.Error.Code);
+
+				return releaseResult;
+			}
+
+			_logger.LogInformation("Released job {JobId} claimed by worker {WorkerId}", id, workerId);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_releaseJobOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_releaseJobOperationName, this.GetType().Name);
+
+			return releaseResult;
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_releaseJobOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error releasing job: {JobId}", id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_releaseJobOperationName, this.GetType().Name, duration);
+
+			return MethodResult.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error releasing job: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult> DeleteJob(Guid id, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_deleteJobOperationName, this.GetType().Name, id);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (id == Guid.Empty)
+			{
+				_logger.LogWarning("Attempted to delete job with empty ID");
+				_metrics.RecordStoreError(_deleteJobOperationName, _invalidJobIdErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job ID");
+				activity?.SetTag(_errorTypeTag, _invalidJobIdErrorCode);
+
+				return MethodResult.Failure(
+					AsyncEndpointError.FromCode(_invalidJobIdErrorCode, "Job ID cannot be empty"));
+			}
+
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job delete operation cancelled for ID {JobId}", id);
+				return await Task.FromCanceled<MethodResult>(cancellationToken);
+			}
+
+			var jobKey = GetJobKey(id);
+			var jobName = await _database.HashGetAsync(jobKey, nameof(Job.Name));
+			if (jobName.IsNull)
+			{
+				_logger.LogWarning("Attempted to delete non-existent job {JobId}", id);
+				_metrics.RecordStoreError(_deleteJobOperationName, _jobNotFoundErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Job not found");
+				activity?.SetTag(_errorTypeTag, _jobNotFoundErrorCode);
+
+				return MethodResult.Failure(
+					AsyncEndpointError.FromCode(_jobNotFoundErrorCode, $"Job with ID {id} not found"));
+			}
+
+			await _database.KeyDeleteAsync(jobKey);
+			await RemoveFromIndexes(id, jobName.ToString());
+
+			_logger.LogInformation("Deleted job {JobId}", id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_deleteJobOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_deleteJobOperationName, this.GetType().Name);
+
+			return MethodResult.Success();
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_deleteJobOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error deleting job: {JobId}", id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_deleteJobOperationName, this.GetType().Name, duration);
+
+			return MethodResult.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error deleting job: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	/// <remarks>
+	/// Expired job hashes are removed by Redis itself. This method removes them from the queue and index sets,
+	/// and deletes any hash Redis has not evicted yet.
+	/// </remarks>
+	public async Task<MethodResult<int>> DeleteExpiredJobs(int maxCount, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_deleteExpiredJobsOperationName, this.GetType().Name);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Expired job deletion cancelled");
+				return await Task.FromCanceled<MethodResult<int>>(cancellationToken);
+			}
+
+			var now = _dateTimeProvider.DateTimeOffsetNow.ToUnixTimeMilliseconds();
+			var expiredMembers = await _database.SortedSetRangeByScoreAsync(_expiryIndexKey, double.NegativeInfinity, now, take: maxCount);
+
+			var deletedCount = 0;
+			foreach (var member in expiredMembers)
+			{
+				var (jobId, jobName) = ParseExpiryIndexMember(member.ToString());
+				await _database.KeyDeleteAsync(GetJobKey(jobId));
+				await RemoveFromIndexes(jobId, jobName);
+				deletedCount++;
+			}
+
+			_logger.LogDebug("Deleted {JobCount} expired jobs", deletedCount);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_deleteExpiredJobsOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_deleteExpiredJobsOperationName, this.GetType().Name);
+
+			return MethodResult<int>.Success(deletedCount);
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_deleteExpiredJobsOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error deleting expired jobs");
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_deleteExpiredJobsOperationName, this.GetType().Name, duration);
+
+			return MethodResult<int>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error deleting expired jobs: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult> SaveWorkerHeartbeat(WorkerHeartbeat heartbeat, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_saveWorkerHeartbeatOperationName, this.GetType().Name);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Worker heartbeat operation cancelled");
+				return await Task.FromCanceled<MethodResult>(cancellationToken);
+			}
+
+			await _redisLuaScriptService.SaveWorkerHeartbeat(_database, heartbeat);
+
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_saveWorkerHeartbeatOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_saveWorkerHeartbeatOperationName, this.GetType().Name);
+
+			return MethodResult.Success();
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_saveWorkerHeartbeatOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error storing heartbeat of worker {WorkerId}", heartbeat.WorkerId);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_saveWorkerHeartbeatOperationName, this.GetType().Name, duration);
+
+			return MethodResult.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error storing worker heartbeat: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<List<WorkerHeartbeat>>> GetWorkers(CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_getWorkersOperationName, this.GetType().Name);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Get workers operation cancelled");
+				return await Task.FromCanceled<MethodResult<List<WorkerHeartbeat>>>(cancellationToken);
+			}
+
+			var now = _dateTimeProvider.DateTimeOffsetNow.ToUnixTimeSeconds();
+			var workerIds = await _database.SortedSetRangeByScoreAsync(_workersKey, now, double.PositiveInfinity, Exclude.Start);
+
+			var liveWorkers = new List<WorkerHeartbeat>();
+			foreach (var workerId in workerIds)
+			{
+				// The hash may have expired since the sorted set was read
+				var hashEntries = await _database.HashGetAllAsync(GetWorkerKey(workerId.ToString()));
+				if (hashEntries.Length > 0)
+				{
+					liveWorkers.Add(ConvertToWorkerHeartbeat(hashEntries));
+				}
+			}
+
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_getWorkersOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_getWorkersOperationName, this.GetType().Name);
+
+			return MethodResult<List<WorkerHeartbeat>>.Success([.. liveWorkers.OrderBy(worker => worker.StartedAt)]);
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_getWorkersOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error retrieving workers");
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_getWorkersOperationName, this.GetType().Name, duration);
+
+			return MethodResult<List<WorkerHeartbeat>>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error retrieving workers: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult> RemoveWorker(Guid workerId, CancellationToken cancellationToken)
+	{
+		try
+		{
+			await _database.KeyDeleteAsync(GetWorkerKey(workerId.ToString()));
+			await _database.SortedSetRemoveAsync(_workersKey, workerId.ToString());
+
+			_logger.LogDebug("Removed worker {WorkerId}", workerId);
+			return MethodResult.Success();
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Unexpected error removing worker {WorkerId}", workerId);
+			return MethodResult.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error removing worker: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<JobQueryResult>> QueryJobs(JobQuery query, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_queryJobsOperationName, this.GetType().Name);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			var validationResult = query.Validate();
+			if (!validationResult.IsSuccess)
+			{
+				_logger.LogWarning("Attempted to query jobs with invalid query: {Error}", validationResult.Error.Message);
+				_metrics.RecordStoreError(_queryJobsOperationName, validationResult.Error.Code, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job query");
+				activity?.SetTag(_errorTypeTag, validationResult.Error.Code);
+
+				return MethodResult<JobQueryResult>.Failure(validationResult.Error);
+			}
+
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job query operation cancelled");
+				return await Task.FromCanceled<MethodResult<JobQueryResult>>(cancellationToken);
+			}
+
+			// Use the most selective index available, the remaining filters are applied on the loaded jobs
+			var useCompletedIndex = !query.WorkerId.HasValue && (query.CompletedFrom.HasValue || query.CompletedTo.HasValue);
+			var indexKey = query.WorkerId.HasValue ? GetWorkerIndexKey(query.WorkerId.Value.ToString())
+				: useCompletedIndex ? _completedIndexKey
+				: query.Name != null ? GetNameIndexKey(query.Name)
+				: query.Status.HasValue ? GetStatusIndexKey(query.Status.Value) : _createdIndexKey;
+
+			var minScore = query.CreatedFrom?.ToUnixTimeMilliseconds() ?? double.NegativeInfinity;
+			var maxScore = query.CreatedTo?.ToUnixTimeMilliseconds() ?? double.PositiveInfinity;
+
+			long cursorCreatedAt = 0;
+			var cursorJobId = Guid.Empty;
+			var hasCursor = query.Cursor != null && JobQueryCursor.TryDecode(query.Cursor, out cursorCreatedAt, out cursorJobId);
+			if (hasCursor)
+			{
+				maxScore = Math.Min(maxScore, cursorCreatedAt);
+			}
+
+			// Fetch one extra job to find out whether there is a next page
+			var pageJobs = new List<Job>();
+			if (useCompletedIndex)
+			{
+				var candidateIds = await GetCompletedJobCandidates(query, minScore, maxScore, hasCursor, cursorCreatedAt, cursorJobId);
+				for (var i = 0; i < candidateIds.Count && pageJobs.Count <= query.PageSize; i += _queryBatchSize)
+				{
+					cancellationToken.ThrowIfCancellationRequested();
+
+					await AddMatchingJobs(pageJobs, candidateIds.Skip(i).Take(_queryBatchSize), query);
+				}
+			}
+
+			var skip = 0;
+			while (!useCompletedIndex && pageJobs.Count <= query.PageSize)
+			{
+				cancellationToken.ThrowIfCancellationRequested();
+
+				var entries = await _database.SortedSetRangeByScoreWithScoresAsync(
+					indexKey,
+					start: minScore,
+					stop: maxScore,
+					exclude: Exclude.None,
+					order: Order.Descending,
+					skip: skip,
+					take: _queryBatchSize);
+
+				skip += entries.Length;
+
+				var candidateIds = new List<Guid>();
+				foreach (var entry in entries)
+				{
+					if (!Guid.TryParse(entry.Element.ToString(), out var jobId))
+						continue;
+
+					if (hasCursor && !JobQueryCursor.IsAfter((long)entry.Score, jobId, cursorCreatedAt, cursorJobId))
+						continue;
+
+					candidateIds.Add(jobId);
+				}
+
+				await AddMatchingJobs(pageJobs, candidateIds, query);
+
+				if (entries.Length < _queryBatchSize)
+					break;
+			}
+
+			string? nextCursor = null;
+			if (pageJobs.Count > query.PageSize)
+			{
+				pageJobs.RemoveAt(pageJobs.Count - 1);
+				nextCursor = JobQueryCursor.Encode(pageJobs[^1]);
+			}
+
+			_logger.LogDebug("Queried {JobCount} jobs using index {IndexKey}", pageJobs.Count, indexKey);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_queryJobsOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_queryJobsOperationName, this.GetType().Name);
+
+			return MethodResult<JobQueryResult>.Success(new JobQueryResult(pageJobs, nextCursor));
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_queryJobsOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error querying jobs");
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_queryJobsOperationName, this.GetType().Name, duration);
+
+			return MethodResult<JobQueryResult>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error querying jobs: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<JobStats>> GetJobStats(CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_getJobStatsOperationName, this.GetType().Name);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Get job stats operation cancelled");
+				return await Task.FromCanceled<MethodResult<JobStats>>(cancellationToken);
+			}
+
+			var stats = new JobStats { GeneratedAt = _dateTimeProvider.DateTimeOffsetNow };
+
+			// Finished jobs expired by Redis are counted until DeleteExpiredJobs removes them from the status index
+			foreach (var status in Enum.GetValues<JobStatus>())
+			{
+				stats.StatusCounts[status] = await _database.SortedSetLengthAsync(GetStatusIndexKey(status));
+			}
+
+			// The status index is scored by creation time, so its first entry is the oldest queued job
+			var oldestQueued = await _database.SortedSetRangeByRankWithScoresAsync(GetStatusIndexKey(JobStatus.Queued), 0, 0);
+			if (oldestQueued.Length > 0)
+			{
+				stats.OldestQueuedJobCreatedAt = DateTimeOffset.FromUnixTimeMilliseconds((long)oldestQueued[0].Score);
+			}
+
+			RedisValue[] fields = [nameof(Job.Name), nameof(Job.RetryCount)];
+			foreach (var status in Enum.GetValues<JobStatus>().Where(JobStats.IsUnfinished))
+			{
+				var statusIndexKey = GetStatusIndexKey(status);
+				for (long start = 0; ; start += _queryBatchSize)
+				{
+					cancellationToken.ThrowIfCancellationRequested();
+
+					var members = await _database.SortedSetRangeByRankAsync(statusIndexKey, start, start + _queryBatchSize - 1);
+					var values = await Task.WhenAll(members
+						.Where(member => Guid.TryParse(member.ToString(), out _))
+						.Select(member => _database.HashGetAsync(GetJobKey(Guid.Parse(member.ToString())), fields)));
+
+					foreach (var jobValues in values)
+					{
+						// Jobs removed from the store may still be referenced by an index
+						if (jobValues[0].IsNullOrEmpty)
+							continue;
+
+						stats.AddJobNameCount(jobValues[0].ToString(), status, 1);
+						if (status == JobStatus.Scheduled && (int)jobValues[1] > 0)
+						{
+							stats.ScheduledRetryCount++;
+						}
+					}
+
+					if (members.Length < _queryBatchSize)
+						break;
+				}
+			}
+
+			_logger.LogDebug("Retrieved job stats");
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_getJobStatsOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_getJobStatsOperationName, this.GetType().Name);
+
+			return MethodResult<JobStats>.Success(stats);
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_getJobStatsOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error retrieving job stats");
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_getJobStatsOperationName, this.GetType().Name, duration);
+
+			return MethodResult<JobStats>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error retrieving job stats: {ex.Message}", ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<int> RecoverStuckJobs(long timeoutUnixTime, int maxRetries, CancellationToken cancellationToken)
+	{
+		return await _redisLuaScriptService.RecoverStuckJobs(_database, timeoutUnixTime, maxRetries);
+	}
+
+	/// <summary>
+	/// Removes a job from the queue, the in-progress set and every index set.
+	/// </summary>
+	/// <param name="jobId">The ID of the job.</param>
+	/// <param name="jobName">The name of the job.</param>
+	private async Task RemoveFromIndexes(Guid jobId, string jobName)
+	{
+		var member = jobId.ToString();
+		foreach (var queueKey in await GetAllQueueKeys())
+		{
+			await _database.SortedSetRemoveAsync(queueKey, member);
+		}
+		await _database.SortedSetRemoveAsync(_inProgressKey, member);
+		await _database.SortedSetRemoveAsync(_createdIndexKey, member);
+		await _database.SortedSetRemoveAsync(GetNameIndexKey(jobName), member);
+		foreach (var status in Enum.GetValues<JobStatus>())
+		{
+			await _database.SortedSetRemoveAsync(GetStatusIndexKey(status), member);
+		}
+		await _database.SortedSetRemoveAsync(_expiryIndexKey, GetExpiryIndexMember(jobId, jobName));
+		await _database.SortedSetRemoveAsync(_completedIndexKey, member);
+
+		// The worker of the job is looked up in the index itself, as the hash may already have been expired by Redis
+		var workerId = await _database.HashGetAsync(_workerIdsKey, member);
+		if (!workerId.IsNull)
+		{
+			await _database.SortedSetRemoveAsync(GetWorkerIndexKey(workerId.ToString()), member);
+			await _database.HashDeleteAsync(_workerIdsKey, member);
+		}
+	}
+
+	/// <summary>
+	/// Gets the IDs of the jobs completed in the range of a query, in query order (newest first, then by descending ID).
+	/// </summary>
+	private async Task<List<Guid>> GetCompletedJobCandidates(JobQuery query, double minCreatedScore, double maxCreatedScore, bool hasCursor, long cursorCreatedAt, Guid cursorJobId)
+	{
+		var members = await _database.SortedSetRangeByScoreAsync(
+			_completedIndexKey,
+			start: query.CompletedFrom?.ToUnixTimeMilliseconds() ?? double.NegativeInfinity,
+			stop: query.CompletedTo?.ToUnixTimeMilliseconds() ?? double.PositiveInfinity);
+		if (members.Length == 0)
+			return [];
+
+		// The completed index is scored by completion time, so the jobs are ordered by the creation time kept in the created index
+		var createdScores = await _database.SortedSetScoresAsync(_createdIndexKey, members);
+
+		var candidates = new List<(long CreatedAt, Guid JobId)>();
+		for (var i = 0; i < members.Length; i++)
+		{
+			if (!createdScores[i].HasValue || !Guid.TryParse(members[i].ToString(), out var jobId))
+				continue;
+
+			var createdAt = (long)createdScores[i]!.Value;
+			if (createdAt < minCreatedScore || createdAt > maxCreatedScore)
+				continue;
+
+			if (hasCursor && !JobQueryCursor.IsAfter(createdAt, jobId, cursorCreatedAt, cursorJobId))
+				continue;
+
+			candidates.Add((createdAt, jobId));
+		}
+
+		return candidates
+			.OrderByDescending(candidate => candidate.CreatedAt)
+			.ThenByDescending(candidate => candidate.JobId.ToString(), StringComparer.Ordinal)
+			.Select(candidate => candidate.JobId)
+			.ToList();
+	}
+
+	/// <summary>
+	/// Loads candidate jobs in order and adds those matching the query to the page, stopping once it holds one extra job.
+	/// </summary>
+	private async Task AddMatchingJobs(List<Job> pageJobs, IEnumerable<Guid> candidateIds, JobQuery query)
+	{
+		var hashes = await Task.WhenAll(candidateIds.Select(jobId => _database.HashGetAllAsync(GetJobKey(jobId))));
+		foreach (var hashEntries in hashes)
+		{
+			// Jobs removed from the store may still be referenced by an index
+			if (hashEntries.Length == 0)
+				continue;
+
+			var job = _jobHashConverter.ConvertFromHashEntries(hashEntries);
+			if (job != null && query.Matches(job))
+			{
+				pageJobs.Add(job);
+				if (pageJobs.Count > query.PageSize)
+					break;
+			}
+		}
+	}
+
+	private async Task<MethodResult<Job>> ClaimSingleJob(Guid jobId, Guid workerId)
+	{
+		var result = await _redisLuaScriptService.ClaimSingleJob(_database, jobId, workerId);
+
+		if (!result.IsSuccess)
+		{
+			return MethodResult<Job>.Failure(result.Error);
+		}
+
+		return CreateClaimedJob(jobId, result.Data, workerId);
+	}
+
+	private MethodResult<Job> CreateClaimedJob(Guid jobId, RedisValue[] resultArray, Guid workerId)
+	{
+		try
+		{
+			// Construct the job from the returned Redis values
+			var claimedJob = new Job
+			{
+				Id = Guid.Parse(resultArray[0].ToString()),
+				Name = resultArray[1].ToString(),
+				Status = (JobStatus)int.Parse(resultArray[2].ToString()),
+				Headers = string.IsNullOrEmpty(resultArray[3].ToString()) ? [] : Deserialize<Dictionary<string, List<string?>>>(resultArray[3].ToString()) ?? [],
+				RouteParams = string.IsNullOrEmpty(resultArray[4].ToString()) ? [] : Deserialize<Dictionary<string, object?>>(resultArray[4].ToString()) ?? [],
+				QueryParams = string.IsNullOrEmpty(resultArray[5].ToString()) ? [] : Deserialize<List<KeyValuePair<string, List<string?>>>>(resultArray[5].ToString()) ?? [],
+				Payload = resultArray[6].ToString(),
+				Result = string.IsNullOrEmpty(resultArray[7].ToString()) ? null : resultArray[7].ToString(),
+				Error = string.IsNullOrEmpty(resultArray[8].ToString()) ? null : Deserialize<AsyncEndpointError>(resultArray[8].ToString()),
+				RetryCount = int.Parse(resultArray[9].ToString()),
+				MaxRetries = int.Parse(resultArray[10].ToString()),
+				RetryDelayUntil = string.IsNullOrEmpty(resultArray[11].ToString()) ? null : DateTime.ParseExact(resultArray[11].ToString(), "O", CultureInfo.InvariantCulture),
+				WorkerId = workerId, // Newly assigned
+				CreatedAt = DateTimeOffset.ParseExact(resultArray[13].ToString(), "O", CultureInfo.InvariantCulture),
+				StartedAt = DateTimeOffset.ParseExact(resultArray[14].ToString(), "O", CultureInfo.InvariantCulture), // Newly set
+				LeaseRenewedAt = DateTimeOffset.ParseExact(resultArray[14].ToString(), "O", CultureInfo.InvariantCulture), // Newly set
+				CompletedAt = string.IsNullOrEmpty(resultArray[15].ToString()) ? null : DateTimeOffset.ParseExact(resultArray[15].ToString(), "O", CultureInfo.InvariantCulture),
+				LastUpdatedAt = DateTimeOffset.ParseExact(resultArray[16].ToString(), "O", CultureInfo.InvariantCulture), // Newly set
+				Priority = string.IsNullOrEmpty(resultArray[17].ToString()) ? 0 : int.Parse(resultArray[17].ToString()),
+				Queue = string.IsNullOrEmpty(resultArray[18].ToString()) ? AsyncEndpointsConstants.DefaultQueueName : resultArray[18].ToString(),
+				PayloadBlobId = resultArray.Length <= 19 || string.IsNullOrEmpty(resultArray[19].ToString()) ? null : resultArray[19].ToString(),
+				TraceParent = resultArray.Length <= 20 || string.IsNullOrEmpty(resultArray[20].ToString()) ? null : resultArray[20].ToString(),
+				TraceState = resultArray.Length <= 21 || string.IsNullOrEmpty(resultArray[21].ToString()) ? null : resultArray[21].ToString(),
+				Baggage = resultArray.Length <= 22 || string.IsNullOrEmpty(resultArray[22].ToString()) ? null : resultArray[22].ToString()
+			};
+
+			return MethodResult<Job>.Success(claimedJob);
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error constructing job object after claiming job {JobId}", jobId);
+			return MethodResult<Job>.Failure(AsyncEndpointError.FromCode("JOB_CONSTRUCTION_ERROR", $"Error constructing job object: {ex.Message}"));
+		}
+	}
+
+	private WorkerHeartbeat ConvertToWorkerHeartbeat(HashEntry[] hashEntries)
+	{
+		var dict = hashEntries.ToDictionary(x => x.Name.ToString(), x => x.Value.ToString());
+
+		return new WorkerHeartbeat
+		{
+			WorkerId = Guid.Parse(dict[nameof(WorkerHeartbeat.WorkerId)]),
+			HostName = dict[nameof(WorkerHeartbeat.HostName)],
+			MaximumConcurrency = int.Parse(dict[nameof(WorkerHeartbeat.MaximumConcurrency)]),
+			Queues = Deserialize<List<string>>(dict[nameof(WorkerHeartbeat.Queues)]) ?? [],
+			JobIds = Deserialize<List<Guid>>(dict[nameof(WorkerHeartbeat.JobIds)]) ?? [],
+			StartedAt = DateTimeOffset.ParseExact(dict[nameof(WorkerHeartbeat.StartedAt)], "O", CultureInfo.InvariantCulture),
+			LastHeartbeatAt = DateTimeOffset.ParseExact(dict[nameof(WorkerHeartbeat.LastHeartbeatAt)], "O", CultureInfo.InvariantCulture),
+			ExpiresAt = DateTimeOffset.ParseExact(dict[nameof(WorkerHeartbeat.ExpiresAt)], "O", CultureInfo.InvariantCulture)
+		};
+	}
+
+	private IDatabase InitializeDatabase(string connectionString)
+	{
+		var redis = ConnectionMultiplexer.Connect(connectionString);
+
+		// Register for connection events to handle reconnection
+		redis.ConnectionFailed += (sender, e) =>
+			_logger.LogError(e.Exception, "Redis connection failed: {ErrorMessage}", e.Exception?.Message);
+		redis.ConnectionRestored += (sender, e) =>
+			_logger.LogInformation("Redis connection restored");
+
+		return redis.GetDatabase();
+	}
+
+	private static string GetJobKey(Guid jobId) => $"ae:job:{jobId}";
+
+	private static string GetWorkerKey(string workerId) => $"ae:worker:{workerId}";
+
+	private static string GetNameIndexKey(string jobName) => $"ae:jobs:index:name:{jobName}";
+
+	private static string GetStatusIndexKey(JobStatus status) => $"ae:jobs:index:status:{(int)status}";
+
+	private static string GetWorkerIndexKey(string workerId) => $"ae:jobs:index:worker:{workerId}";
+
+	// The job name is kept in the member, so the name index can be cleaned up after Redis has expired the hash
+	private static string GetExpiryIndexMember(Guid jobId, string jobName) => $"{jobId}:{jobName}";
+
+	private static (Guid JobId, string JobName) ParseExpiryIndexMember(string member) =>
+		(Guid.Parse(member.AsSpan(0, 36)), member[37..]);
+
+	private static string GetQueueKey(string queue) =>
+		queue == AsyncEndpointsConstants.DefaultQueueName ? _queueKey : $"{_queueKey}:{queue}";
+
+	/// <summary>
+	/// Gets the keys of the default queue and every named queue jobs were created in.
+	/// </summary>
+	private async Task<List<string>> GetAllQueueKeys()
+	{
+		var queueNames = await _database.SetMembersAsync(_queueNamesKey);
+		return [_queueKey, .. queueNames.Select(x => GetQueueKey(x.ToString()))];
+	}
+
+	private static double GetJobScore(Job job)
+	{
+		// Use timestamp as score for the sorted set to prioritize older jobs
+		// If there's a retry delay, use that time instead
+		var effectiveTime = job.RetryDelayUntil ?? job.CreatedAt.UtcDateTime;
+
+		// Every priority level moves the job ahead by the aging interval, so long-waiting jobs are not starved
+		return GetScoreForTime(effectiveTime) - job.Priority * (double)AsyncEndpointsConstants.PriorityAgingSeconds;
 	}
 
 	private static double GetScoreForTime(DateTime dateTime)
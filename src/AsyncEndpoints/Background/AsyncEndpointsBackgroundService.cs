@@ -23,6 +23,7 @@ public sealed class AsyncEndpointsBackgroundService : BackgroundService, IAsyncD
 	private readonly IJobProducerService _jobProducerService;
 	private readonly IJobConsumerService _jobConsumerService;
 	private readonly AsyncEndpointsWorkerConfigurations _workerConfigurations;
+	private readonly Channel<Job> _jobChannel;
 	private readonly ChannelReader<Job> _readerJobChannel;
 	private readonly ChannelWriter<Job> _writerJobChannel;
 	private readonly SemaphoreSlim _semaphoreSlim;
@@ -51,9 +52,9 @@ public sealed class AsyncEndpointsBackgroundService : BackgroundService, IAsyncD
 			SingleWriter = false
 		};
 
-		var jobChannel = Channel.CreateBounded<Job>(channelOptions);
-		_readerJobChannel = jobChannel.Reader;
-		_writerJobChannel = jobChannel.Writer;
+		_jobChannel = Channel.CreateBounded<Job>(channelOptions);
+		_readerJobChannel = _jobChannel.Reader;
+		_writerJobChannel = _jobChannel.Writer;
 		_semaphoreSlim = new SemaphoreSlim(
 			_workerConfigurations.MaximumConcurrency,
 			_workerConfigurations.MaximumConcurrency
@@ -154,9 +155,13 @@ public sealed class AsyncEndpointsBackgroundService : BackgroundService, IAsyncD
 	{
 		_logger.LogInformation("AsyncEndpoints Background Service is starting");
 
-		var producerTask = _jobProducerService.ProduceJobsAsync(_writerJobChannel, stoppingToken);
+		// Handlers in flight are given the shutdown timeout to finish once the worker stops, and are canceled afterwards
+		using var processingTokenSource = new CancellationTokenSource();
+		using var stoppingRegistration = stoppingToken.Register(() => processingTokenSource.CancelAfter(TimeSpan.FromSeconds(_workerConfigurations.ShutdownTimeoutSeconds)));
+
+		var producerTask = _jobProducerService.ProduceJobsAsync(_jobChannel, stoppingToken);
 		var consumerTasks = Enumerable.Range(0, _workerConfigurations.MaximumConcurrency)
-			.Select(_ => _jobConsumerService.ConsumeJobsAsync(_readerJobChannel, _semaphoreSlim, stoppingToken))
+			.Select(_ => _jobConsumerService.ConsumeJobsAsync(_readerJobChannel, _semaphoreSlim, stoppingToken, processingTokenSource.Token))
 			.ToArray();
 
 		_logger.LogDebug("Started {ConsumerCount} consumer tasks and 1 producer task", consumerTasks.Length);
@@ -185,6 +190,9 @@ public sealed class AsyncEndpointsBackgroundService : BackgroundService, IAsyncD
 			_logger.LogError(ex, "AsyncEndpoints Background Service encountered an unrecoverable error");
 		}
 
+		// The producer may have written a job after the consumers drained the channel, so it is drained once more
+		await _jobConsumerService.ReleaseBufferedJobsAsync(_readerJobChannel, CancellationToken.None);
+
 		_logger.LogInformation("AsyncEndpoints Background Service is stopping");
 	}
 
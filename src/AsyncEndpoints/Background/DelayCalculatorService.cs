@@ -23,6 +23,8 @@ public class DelayCalculatorService(ILogger<DelayCalculatorService> logger, IOpt
 				workerConfigurations.PollingIntervalMs * 2),
 			JobClaimingState.ErrorOccurred => TimeSpan.FromSeconds(
 				AsyncEndpointsConstants.JobProducerErrorDelaySeconds),
+			JobClaimingState.JobDeferred => _basePollingInterval, // Other jobs may be ready while this one waits
+			JobClaimingState.ChannelFull => _basePollingInterval, // Consumers free capacity as they take jobs
 			_ => _basePollingInterval // Default case
 		};
 
@@ -11,6 +11,7 @@ namespace AsyncEndpoints.Background;
 
 /// <summary>
 /// Background service that recovers stuck jobs that were in progress during system failures.
+/// A job is stuck once its lease expires, because the worker holding it died and stopped sending heartbeats.
 /// This service is enabled when AddAsyncEndpointsWorker is called with recovery configuration.
 /// </summary>
 public class DistributedJobRecoveryService(
@@ -23,7 +24,7 @@ public class DistributedJobRecoveryService(
 	private readonly IJobStore _jobStore = jobStore ?? throw new ArgumentNullException(nameof(jobStore));
 	private readonly IDateTimeProvider _dateTimeProvider = dateTimeProvider ?? throw new ArgumentNullException(nameof(dateTimeProvider));
 	private readonly TimeSpan _recoveryInterval = TimeSpan.FromSeconds(recoveryConfigurations.RecoveryCheckIntervalSeconds);
-	private readonly int _jobTimeoutMinutes = recoveryConfigurations.JobTimeoutMinutes;
+	private readonly int _leaseDurationSeconds = recoveryConfigurations.LeaseDurationSeconds;
 	private readonly int _maxRetries = recoveryConfigurations.MaximumRetries;
 
 	protected override async Task ExecuteAsync(CancellationToken stoppingToken)
@@ -34,7 +35,7 @@ public class DistributedJobRecoveryService(
 			return;
 		}
 
-		_logger.LogInformation("Job Recovery Service starting with timeout {Timeout} minutes and check interval {Interval} seconds", _jobTimeoutMinutes, _recoveryInterval.TotalSeconds);
+		_logger.LogInformation("Job Recovery Service starting with lease duration {LeaseDuration} seconds and check interval {Interval} seconds", _leaseDurationSeconds, _recoveryInterval.TotalSeconds);
 
 		while (!stoppingToken.IsCancellationRequested)
 		{
@@ -57,7 +58,7 @@ public class DistributedJobRecoveryService(
 
 	private async Task RecoverStuckJobs(CancellationToken cancellationToken)
 	{
-		var timeoutUnixTime = _dateTimeProvider.DateTimeOffsetNow.AddMinutes(-_jobTimeoutMinutes).ToUnixTimeSeconds();
+		var timeoutUnixTime = _dateTimeProvider.DateTimeOffsetNow.AddSeconds(-_leaseDurationSeconds).ToUnixTimeSeconds();
 		var recoveredCount = await _jobStore.RecoverStuckJobs(
 			timeoutUnixTime,
 			_maxRetries,
@@ -37,11 +37,21 @@ public class HandlerExecutionService(ILogger<HandlerExecutionService> logger, IS
 
 		_logger.LogDebug("Found handler invoker for job: {JobName}, starting execution", jobName);
 
+		// Bind the scoped progress reporter to the job so handlers can report progress through their context
+		var progressReporter = serviceScope.ServiceProvider.GetService<JobProgressReporter>();
+		progressReporter?.Attach(job.Id);
+
 		try
 		{
 			_logger.LogDebug("Invoking handler for job: {JobName}, JobId: {JobId}", jobName, job.Id);
 			var result = await invoker(serviceScope.ServiceProvider, request, job, cancellationToken);
 
+			// Store progress held back by throttling before the job result is stored
+			if (progressReporter != null)
+			{
+				await progressReporter.Flush(CancellationToken.None);
+			}
+
 			if (result.IsSuccess)
 			{
 				_logger.LogDebug("Handler execution successful for job: {JobName}, JobId: {JobId}", jobName, job.Id);
@@ -0,0 +1,26 @@
+using System;
+using System.Threading;
+
+namespace AsyncEndpoints.Background;
+
+/// <summary>
+/// Tracks the cancellation tokens of jobs being processed by the current worker.
+/// </summary>
+public interface IJobCancellationRegistry
+{
+	/// <summary>
+	/// Registers a job that is about to be processed and creates its cancellation scope.
+	/// </summary>
+	/// <param name="jobId">The unique identifier of the job.</param>
+	/// <param name="cancellationToken">The worker cancellation token the job token is linked to.</param>
+	/// <param name="timeout">The execution timeout after which the job token is canceled, or null for no timeout.</param>
+	/// <returns>A <see cref="JobCancellationScope"/> that must be disposed when processing completes.</returns>
+	JobCancellationScope Register(Guid jobId, CancellationToken cancellationToken, TimeSpan? timeout = null);
+
+	/// <summary>
+	/// Requests cancellation of a job processed by the current worker.
+	/// If the job has not started processing yet, it is canceled as soon as it is registered.
+	/// </summary>
+	/// <param name="jobId">The unique identifier of the job to cancel.</param>
+	void RequestCancellation(Guid jobId);
+}
@@ -12,11 +12,12 @@ namespace AsyncEndpoints.Background;
 public interface IJobClaimingService
 {
 	/// <summary>
-	/// Claims and attempts to enqueue a job, returning the appropriate delay state based on the outcome
+	/// Claims a batch of jobs with a single store operation and attempts to enqueue them, returning the appropriate delay state based on the outcome
 	/// </summary>
 	/// <param name="writerJobChannel">The channel to write jobs to</param>
 	/// <param name="workerId">The ID of the current worker</param>
+	/// <param name="maxCount">The maximum number of jobs to claim, usually the free capacity of the channel</param>
 	/// <param name="stoppingToken">Cancellation token</param>
 	/// <returns>The result containing delay calculation state</returns>
-	Task<JobClaimingState> ClaimAndEnqueueJobAsync(ChannelWriter<Job> writerJobChannel, Guid workerId, CancellationToken stoppingToken);
+	Task<JobClaimingState> ClaimAndEnqueueJobsAsync(ChannelWriter<Job> writerJobChannel, Guid workerId, int maxCount, CancellationToken stoppingToken);
 }
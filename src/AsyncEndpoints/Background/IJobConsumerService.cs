@@ -12,11 +12,21 @@ namespace AsyncEndpoints.Background
 	{
 		/// <summary>
 		/// Consumes jobs from the provided channel and processes them asynchronously.
+		/// Jobs still buffered in the channel when the consumption stops are released back to the queue.
 		/// </summary>
 		/// <param name="readerJobChannel">The channel reader to read jobs from.</param>
 		/// <param name="semaphoreSlim">The semaphore to control concurrency.</param>
 		/// <param name="stoppingToken">A cancellation token to stop the consumption process.</param>
+		/// <param name="processingToken">A cancellation token to cancel the handlers in flight, usually canceled some time after <paramref name="stoppingToken"/> so they can finish.</param>
 		/// <returns>A task representing the asynchronous operation.</returns>
-		Task ConsumeJobsAsync(ChannelReader<Job> readerJobChannel, SemaphoreSlim semaphoreSlim, CancellationToken stoppingToken);
+		Task ConsumeJobsAsync(ChannelReader<Job> readerJobChannel, SemaphoreSlim semaphoreSlim, CancellationToken stoppingToken, CancellationToken processingToken);
+
+		/// <summary>
+		/// Releases the jobs buffered in the provided channel back to the queue without processing them.
+		/// </summary>
+		/// <param name="readerJobChannel">The channel reader to drain.</param>
+		/// <param name="cancellationToken">A cancellation token to cancel the operation.</param>
+		/// <returns>The number of jobs released.</returns>
+		Task<int> ReleaseBufferedJobsAsync(ChannelReader<Job> readerJobChannel, CancellationToken cancellationToken);
 	}
 }
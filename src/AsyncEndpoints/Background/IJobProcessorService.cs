@@ -16,4 +16,12 @@ public interface IJobProcessorService
 	/// <param name="cancellationToken">A cancellation token to cancel the operation.</param>
 	/// <returns>A task representing the asynchronous operation.</returns>
 	Task ProcessAsync(Job job, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Hands a job claimed by the worker back to the queue without processing it, because the worker is stopping.
+	/// </summary>
+	/// <param name="job">The job to release.</param>
+	/// <param name="cancellationToken">A cancellation token to cancel the operation.</param>
+	/// <returns>A task representing the asynchronous operation.</returns>
+	Task ReleaseAsync(Job job, CancellationToken cancellationToken);
 }
@@ -13,9 +13,9 @@ namespace AsyncEndpoints.Background
 		/// <summary>
 		/// Produces jobs and writes them to the provided channel asynchronously.
 		/// </summary>
-		/// <param name="writerJobChannel">The channel writer to write jobs to.</param>
+		/// <param name="jobChannel">The channel to write jobs to; its free capacity bounds the number of jobs claimed at once.</param>
 		/// <param name="stoppingToken">A cancellation token to stop the production process.</param>
 		/// <returns>A task representing the asynchronous operation.</returns>
-		Task ProduceJobsAsync(ChannelWriter<Job> writerJobChannel, CancellationToken stoppingToken);
+		Task ProduceJobsAsync(Channel<Job> jobChannel, CancellationToken stoppingToken);
 	}
 }
@@ -0,0 +1,28 @@
+using System;
+using System.Collections.Generic;
+
+namespace AsyncEndpoints.Background;
+
+/// <summary>
+/// Tracks the jobs held by the current worker, from the moment they are claimed until they are processed or handed back.
+/// </summary>
+public interface IWorkerJobTracker
+{
+	/// <summary>
+	/// Starts tracking a job claimed by the current worker.
+	/// </summary>
+	/// <param name="jobId">The unique identifier of the job.</param>
+	void Track(Guid jobId);
+
+	/// <summary>
+	/// Stops tracking a job that was processed or handed back.
+	/// </summary>
+	/// <param name="jobId">The unique identifier of the job.</param>
+	void Untrack(Guid jobId);
+
+	/// <summary>
+	/// Gets the IDs of the jobs currently held by the worker.
+	/// </summary>
+	/// <returns>A snapshot of the tracked job IDs.</returns>
+	List<Guid> GetJobIds();
+}
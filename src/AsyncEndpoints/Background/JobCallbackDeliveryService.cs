@@ -0,0 +1,253 @@
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.Infrastructure;
+using AsyncEndpoints.Infrastructure.Callbacks;
+using AsyncEndpoints.JobProcessing;
+using Microsoft.Extensions.Hosting;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+using System;
+using System.Collections.Concurrent;
+using System.Linq;
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace AsyncEndpoints.Background;
+
+/// <summary>
+/// Background service that delivers the completion callbacks of finished jobs, retrying failed deliveries with exponential backoff
+/// and persisting the delivery status alongside the job. Pending callbacks whose delivery stalled are picked up by a sweep
+/// that runs on startup and periodically afterwards.
+/// </summary>
+public class JobCallbackDeliveryService(
+	ILogger<JobCallbackDeliveryService> logger,
+	IOptions<AsyncEndpointsConfigurations> configurations,
+	IJobCallbackQueue jobCallbackQueue,
+	IJobCallbackSender jobCallbackSender,
+	IJobStore jobStore,
+	IDateTimeProvider dateTimeProvider) : BackgroundService
+{
+	private static readonly JobStatus[] _finishedStatuses = [JobStatus.Completed, JobStatus.Failed, JobStatus.Canceled];
+
+	private readonly ILogger<JobCallbackDeliveryService> _logger = logger;
+	private readonly AsyncEndpointsCallbackConfigurations _callbackConfigurations = configurations.Value.CallbackConfigurations;
+	private readonly IJobCallbackQueue _jobCallbackQueue = jobCallbackQueue;
+	private readonly IJobCallbackSender _jobCallbackSender = jobCallbackSender;
+	private readonly IJobStore _jobStore = jobStore;
+	private readonly IDateTimeProvider _dateTimeProvider = dateTimeProvider;
+	private readonly TimeSpan _sweepInterval = TimeSpan.FromSeconds(configurations.Value.CallbackConfigurations.SweepIntervalSeconds);
+	private readonly TimeSpan _sweepWindow = TimeSpan.FromSeconds(configurations.Value.CallbackConfigurations.SweepWindowSeconds);
+	private readonly ConcurrentDictionary<Guid, Task> _deliveries = new();
+
+	protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+	{
+		_logger.LogDebug("Job callback delivery service starting");
+
+		var sweepTask = SweepPeriodicallyAsync(stoppingToken);
+
+		try
+		{
+			await foreach (var jobId in _jobCallbackQueue.ReadAllAsync(stoppingToken))
+			{
+				// Deliveries run independently so a slow receiver does not hold back the callbacks of other jobs
+				StartDelivery(jobId, stoppingToken);
+			}
+		}
+		catch (OperationCanceledException) when (stoppingToken.IsCancellationRequested)
+		{
+			_logger.LogDebug("Job callback delivery service stopping");
+		}
+
+		// Deliveries stop before their next attempt; callbacks left pending are picked up by the sweep of another instance or the next start
+		await sweepTask;
+		await Task.WhenAll(_deliveries.Values);
+	}
+
+	/// <summary>
+	/// Delivers the completion callback of a job until it succeeds or the maximum number of attempts is reached.
+	/// </summary>
+	/// <param name="jobId">The unique identifier of the finished job.</param>
+	/// <param name="cancellationToken">Cancellation token.</param>
+	public async Task DeliverAsync(Guid jobId, CancellationToken cancellationToken)
+	{
+		using var _ = _logger.BeginScope(new { JobId = jobId });
+
+		try
+		{
+			while (!cancellationToken.IsCancellationRequested)
+			{
+				var jobResult = await _jobStore.GetJobById(jobId, cancellationToken);
+				if (!jobResult.IsSuccess || jobResult.DataOrNull?.Callback == null)
+				{
+					_logger.LogWarning("Job {JobId} or its callback was not found, skipping callback delivery", jobId);
+					return;
+				}
+
+				var job = jobResult.Data;
+				var callback = job.Callback!;
+				if (callback.Status != JobCallbackStatus.Pending)
+				{
+					_logger.LogDebug("Callback of job {JobId} is already {CallbackStatus}, skipping delivery", jobId, callback.Status);
+					return;
+				}
+
+				var sendResult = await _jobCallbackSender.SendAsync(job, cancellationToken);
+				if (sendResult.IsSuccess)
+				{
+					callback.RecordDelivery(_dateTimeProvider.DateTimeOffsetNow);
+					_logger.LogInformation("Delivered callback of job {JobId} after {Attempts} attempt(s)", jobId, callback.Attempts);
+				}
+				else
+				{
+					callback.RecordFailure(sendResult.Error.Message, _dateTimeProvider.DateTimeOffsetNow, _callbackConfigurations.MaximumAttempts);
+					_logger.LogWarning("Callback delivery attempt {Attempts} for job {JobId} failed: {Error}", callback.Attempts, jobId, sendResult.Error.Message);
+				}
+
+				// Only the callback is written, so changes made to the job since it was read are kept
+				var updateResult = await _jobStore.UpdateJobCallback(jobId, callback, cancellationToken);
+				if (!updateResult.IsSuccess)
+				{
+					_logger.LogError("Failed to store callback delivery status of job {JobId}: {Error}", jobId, updateResult.Error.Message);
+				}
+
+				if (callback.Status != JobCallbackStatus.Pending)
+				{
+					if (callback.Status == JobCallbackStatus.Failed)
+					{
+						_logger.LogError("Giving up callback delivery for job {JobId} after {Attempts} attempts", jobId, callback.Attempts);
+					}
+					return;
+				}
+
+				await Task.Delay(CalculateRetryDelay(callback.Attempts), cancellationToken);
+			}
+		}
+		catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+		{
+			_logger.LogDebug("Callback delivery for job {JobId} interrupted by shutdown", jobId);
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Unexpected error while delivering callback of job {JobId}", jobId);
+		}
+	}
+
+	/// <summary>
+	/// Starts delivering the pending callbacks of recently finished jobs whose delivery stalled, such as callbacks of jobs
+	/// finished by an instance that stopped, or of jobs failed by distributed recovery.
+	/// </summary>
+	/// <param name="cancellationToken">Cancellation token.</param>
+	/// <returns>The number of callback deliveries started.</returns>
+	public async Task<int> SweepPendingCallbacksAsync(CancellationToken cancellationToken)
+	{
+		var now = _dateTimeProvider.DateTimeOffsetNow;
+		var startedCount = 0;
+
+		foreach (var status in _finishedStatuses)
+		{
+			var query = new JobQuery
+			{
+				Status = status,
+				CompletedFrom = now - _sweepWindow,
+				PageSize = AsyncEndpointsConstants.MaximumJobQueryPageSize
+			};
+
+			do
+			{
+				var queryResult = await _jobStore.QueryJobs(query, cancellationToken);
+				if (!queryResult.IsSuccess)
+				{
+					_logger.LogWarning("Failed to query {Status} jobs for pending callbacks: {Error}", status, queryResult.Error.Message);
+					break;
+				}
+
+				foreach (var job in queryResult.Data.Jobs.Where(job => IsDeliveryStalled(job, now)))
+				{
+					if (StartDelivery(job.Id, cancellationToken))
+					{
+						startedCount++;
+					}
+				}
+
+				query.Cursor = queryResult.Data.NextCursor;
+			}
+			while (query.Cursor != null);
+		}
+
+		if (startedCount > 0)
+		{
+			_logger.LogInformation("Resumed delivery of {Count} pending callbacks", startedCount);
+		}
+
+		return startedCount;
+	}
+
+	private async Task SweepPeriodicallyAsync(CancellationToken stoppingToken)
+	{
+		try
+		{
+			while (!stoppingToken.IsCancellationRequested)
+			{
+				try
+				{
+					await SweepPendingCallbacksAsync(stoppingToken);
+				}
+				catch (Exception ex) when (!stoppingToken.IsCancellationRequested)
+				{
+					_logger.LogError(ex, "Error during pending callback sweep");
+				}
+
+				await Task.Delay(_sweepInterval, stoppingToken);
+			}
+		}
+		catch (OperationCanceledException) when (stoppingToken.IsCancellationRequested)
+		{
+			_logger.LogDebug("Pending callback sweep stopping");
+		}
+	}
+
+	private bool StartDelivery(Guid jobId, CancellationToken cancellationToken)
+	{
+		// The delivery is started only once it is tracked, so it cannot be untracked before it was tracked
+		var delivery = new Task<Task>(() => DeliverAndUntrackAsync(jobId, cancellationToken));
+		if (!_deliveries.TryAdd(jobId, delivery.Unwrap()))
+		{
+			_logger.LogDebug("Callback of job {JobId} is already being delivered", jobId);
+			return false;
+		}
+
+		delivery.Start(TaskScheduler.Default);
+		return true;
+	}
+
+	private async Task DeliverAndUntrackAsync(Guid jobId, CancellationToken cancellationToken)
+	{
+		try
+		{
+			await DeliverAsync(jobId, cancellationToken);
+		}
+		finally
+		{
+			_deliveries.TryRemove(jobId, out _);
+		}
+	}
+
+	private bool IsDeliveryStalled(Job job, DateTimeOffset now)
+	{
+		if (job.Callback?.Status != JobCallbackStatus.Pending)
+		{
+			return false;
+		}
+
+		// The instance delivering the callback gets a full sweep interval past the due attempt before it is taken over
+		var dueAt = job.Callback.LastAttemptAt.HasValue
+			? job.Callback.LastAttemptAt.Value + CalculateRetryDelay(job.Callback.Attempts)
+			: job.CompletedAt ?? now;
+		return dueAt + _sweepInterval <= now;
+	}
+
+	private TimeSpan CalculateRetryDelay(int attempts)
+	{
+		// Exponential backoff: (2 ^ (attempts - 1)) * base delay
+		return TimeSpan.FromSeconds(Math.Pow(2, attempts - 1) * _callbackConfigurations.RetryDelayBaseSeconds);
+	}
+}
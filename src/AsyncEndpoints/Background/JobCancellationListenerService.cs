@@ -0,0 +1,41 @@
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.JobProcessing;
+using Microsoft.Extensions.Hosting;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+using System;
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace AsyncEndpoints.Background;
+
+/// <summary>
+/// Background service that listens for job cancellation requests and cancels the matching jobs running on this worker.
+/// </summary>
+public class JobCancellationListenerService(
+	ILogger<JobCancellationListenerService> logger,
+	IOptions<AsyncEndpointsConfigurations> configurations,
+	IJobCancellationNotifier jobCancellationNotifier,
+	IJobCancellationRegistry jobCancellationRegistry) : BackgroundService
+{
+	private readonly ILogger<JobCancellationListenerService> _logger = logger;
+	private readonly Guid _workerId = configurations.Value.WorkerConfigurations.WorkerId;
+	private readonly IJobCancellationNotifier _jobCancellationNotifier = jobCancellationNotifier;
+	private readonly IJobCancellationRegistry _jobCancellationRegistry = jobCancellationRegistry;
+
+	protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+	{
+		_logger.LogDebug("Job cancellation listener starting for worker {WorkerId}", _workerId);
+
+		await _jobCancellationNotifier.Subscribe(OnCancellationRequested, stoppingToken);
+	}
+
+	private void OnCancellationRequested(Guid jobId, Guid workerId)
+	{
+		if (workerId != _workerId)
+			return;
+
+		_logger.LogInformation("Cancellation requested for job {JobId} on worker {WorkerId}", jobId, workerId);
+		_jobCancellationRegistry.RequestCancellation(jobId);
+	}
+}
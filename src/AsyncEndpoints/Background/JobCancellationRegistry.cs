@@ -0,0 +1,74 @@
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.Infrastructure;
+using System;
+using System.Collections.Generic;
+using System.Linq;
+using System.Threading;
+
+namespace AsyncEndpoints.Background;
+
+/// <inheritdoc />
+public class JobCancellationRegistry(IDateTimeProvider dateTimeProvider) : IJobCancellationRegistry
+{
+	private readonly IDateTimeProvider _dateTimeProvider = dateTimeProvider;
+	private readonly Dictionary<Guid, JobCancellationScope> _activeScopes = [];
+	private readonly Dictionary<Guid, DateTime> _pendingCancellations = [];
+	private readonly object _lock = new();
+
+	/// <inheritdoc />
+	public JobCancellationScope Register(Guid jobId, CancellationToken cancellationToken, TimeSpan? timeout = null)
+	{
+		JobCancellationScope? scope = null;
+		scope = new JobCancellationScope(cancellationToken, timeout, () => Unregister(jobId, scope!));
+
+		lock (_lock)
+		{
+			_activeScopes[jobId] = scope;
+
+			if (_pendingCancellations.Remove(jobId))
+			{
+				scope.Cancel();
+			}
+		}
+
+		return scope;
+	}
+
+	/// <inheritdoc />
+	public void RequestCancellation(Guid jobId)
+	{
+		lock (_lock)
+		{
+			if (_activeScopes.TryGetValue(jobId, out var scope))
+			{
+				scope.Cancel();
+				return;
+			}
+
+			PrunePendingCancellations();
+			_pendingCancellations[jobId] = _dateTimeProvider.UtcNow;
+		}
+	}
+
+	private void Unregister(Guid jobId, JobCancellationScope scope)
+	{
+		lock (_lock)
+		{
+			if (_activeScopes.TryGetValue(jobId, out var activeScope) && ReferenceEquals(activeScope, scope))
+			{
+				_activeScopes.Remove(jobId);
+			}
+		}
+	}
+
+	private void PrunePendingCancellations()
+	{
+		// A pending cancellation only matters while the job may still be buffered for processing, which is kept for a fixed window
+		// because the job timeout can be disabled or overridden per job name
+		var threshold = _dateTimeProvider.UtcNow.AddMinutes(-AsyncEndpointsConstants.PendingJobCancellationRetentionMinutes);
+		foreach (var expiredJobId in _pendingCancellations.Where(x => x.Value < threshold).Select(x => x.Key).ToList())
+		{
+			_pendingCancellations.Remove(expiredJobId);
+		}
+	}
+}
@@ -0,0 +1,61 @@
+using System;
+using System.Threading;
+
+namespace AsyncEndpoints.Background;
+
+/// <summary>
+/// Represents the cancellation scope of a single job execution on the current worker.
+/// </summary>
+public sealed class JobCancellationScope : IDisposable
+{
+	private readonly CancellationTokenSource _jobCancellationTokenSource = new();
+	private readonly CancellationTokenSource _timeoutCancellationTokenSource;
+	private readonly CancellationTokenSource _linkedCancellationTokenSource;
+	private readonly Action _onDispose;
+	private bool _disposed = false;
+
+	internal JobCancellationScope(CancellationToken cancellationToken, TimeSpan? timeout, Action onDispose)
+	{
+		_timeoutCancellationTokenSource = timeout.HasValue ? new CancellationTokenSource(timeout.Value) : new CancellationTokenSource();
+		_linkedCancellationTokenSource = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken, _jobCancellationTokenSource.Token, _timeoutCancellationTokenSource.Token);
+		_onDispose = onDispose;
+	}
+
+	/// <summary>
+	/// Gets the token that is canceled when the job is canceled, its timeout expires or the worker stops.
+	/// </summary>
+	public CancellationToken Token => _linkedCancellationTokenSource.Token;
+
+	/// <summary>
+	/// Gets a value indicating whether the job itself was canceled, as opposed to the worker stopping.
+	/// </summary>
+	public bool IsJobCanceled => _jobCancellationTokenSource.IsCancellationRequested;
+
+	/// <summary>
+	/// Gets a value indicating whether the execution timeout of the job expired.
+	/// </summary>
+	public bool IsTimedOut => _timeoutCancellationTokenSource.IsCancellationRequested;
+
+	internal void Cancel()
+	{
+		if (!_disposed)
+		{
+			_jobCancellationTokenSource.Cancel();
+		}
+	}
+
+	/// <summary>
+	/// Removes the job from the registry and releases the cancellation resources.
+	/// </summary>
+	public void Dispose()
+	{
+		if (_disposed)
+			return;
+
+		_disposed = true;
+		_onDispose();
+		_linkedCancellationTokenSource.Dispose();
+		_timeoutCancellationTokenSource.Dispose();
+		_jobCancellationTokenSource.Dispose();
+	}
+}
@@ -1,6 +1,8 @@
+using AsyncEndpoints.Configuration;
 using AsyncEndpoints.JobProcessing;
 using Microsoft.Extensions.Logging;
 using System;
+using System.Collections.Generic;
 using System.Threading;
 using System.Threading.Channels;
 using System.Threading.Tasks;
@@ -8,37 +10,95 @@ using System.Threading.Tasks;
 namespace AsyncEndpoints.Background;
 
 /// <inheritdoc />
-public class JobClaimingService(ILogger<JobClaimingService> logger, IJobManager jobManager, IJobChannelEnqueuer jobChannelEnqueuer) : IJobClaimingService
+public class JobClaimingService(ILogger<JobClaimingService> logger, IJobManager jobManager, IJobChannelEnqueuer jobChannelEnqueuer, IJobLimiter jobLimiter, IWorkerJobTracker workerJobTracker) : IJobClaimingService
 {
 	private readonly ILogger<JobClaimingService> _logger = logger;
 	private readonly IJobManager _jobManager = jobManager;
 	private readonly IJobChannelEnqueuer _jobChannelEnqueuer = jobChannelEnqueuer;
+	private readonly IJobLimiter _jobLimiter = jobLimiter;
+	private readonly IWorkerJobTracker _workerJobTracker = workerJobTracker;
 
 	/// <inheritdoc />
-	public async Task<JobClaimingState> ClaimAndEnqueueJobAsync(ChannelWriter<Job> writerJobChannel, Guid workerId, CancellationToken stoppingToken)
+	public async Task<JobClaimingState> ClaimAndEnqueueJobsAsync(ChannelWriter<Job> writerJobChannel, Guid workerId, int maxCount, CancellationToken stoppingToken)
 	{
-		_logger.LogDebug("Attempting to claim job for worker {WorkerId}", workerId);
+		_logger.LogDebug("Attempting to claim up to {MaxCount} jobs for worker {WorkerId}", maxCount, workerId);
 
-		var claimedJobResult = await _jobManager.ClaimNextAvailableJob(workerId, stoppingToken);
-		if (claimedJobResult.IsFailure)
+		var claimedJobsResult = await _jobManager.ClaimNextAvailableJobs(workerId, maxCount, stoppingToken);
+		if (claimedJobsResult.IsFailure)
 		{
-			_logger.LogError("Failed to claim job for processing: {Error}", claimedJobResult.Error?.Message);
+			_logger.LogError("Failed to claim jobs for processing: {Error}", claimedJobsResult.Error?.Message);
 			return JobClaimingState.ErrorOccurred;
 		}
 
-		var job = claimedJobResult.DataOrNull;
-		if (job == null)
+		var jobs = claimedJobsResult.Data;
+		if (jobs.Count == 0)
 		{
 			_logger.LogDebug("No job available for worker {WorkerId}", workerId);
 			return JobClaimingState.NoJobFound;
 		}
 
+		var states = new List<JobClaimingState>();
+		foreach (var job in jobs)
+		{
+			if (states.Contains(JobClaimingState.FailedToEnqueue))
+			{
+				// The channel stopped taking jobs, so the rest of the batch is handed back for other workers to claim
+				await _jobManager.ReleaseJob(job.Id, workerId, CancellationToken.None);
+				continue;
+			}
+
+			states.Add(await EnqueueClaimedJobAsync(writerJobChannel, job, workerId, stoppingToken));
+		}
+
+		// The slowest outcome of the batch decides how long the producer waits before claiming again
+		if (states.Contains(JobClaimingState.ErrorOccurred))
+			return JobClaimingState.ErrorOccurred;
+
+		if (states.Contains(JobClaimingState.FailedToEnqueue))
+			return JobClaimingState.FailedToEnqueue;
+
+		return states.Contains(JobClaimingState.JobSuccessfullyEnqueued) ? JobClaimingState.JobSuccessfullyEnqueued : JobClaimingState.JobDeferred;
+	}
+
+	private async Task<JobClaimingState> EnqueueClaimedJobAsync(ChannelWriter<Job> writerJobChannel, Job job, Guid workerId, CancellationToken stoppingToken)
+	{
+		var acquisitionResult = await _jobLimiter.TryAcquire(job, stoppingToken);
+		if (acquisitionResult.IsFailure)
+		{
+			_logger.LogError("Failed to take the limits of job {JobId}: {Error}", job.Id, acquisitionResult.Error?.Message);
+			await _jobManager.DeferJob(job.Id, TimeSpan.FromSeconds(AsyncEndpointsConstants.JobProducerErrorDelaySeconds), stoppingToken);
+			return JobClaimingState.ErrorOccurred;
+		}
+
+		var acquisition = acquisitionResult.Data;
+		if (!acquisition.IsAcquired)
+		{
+			_logger.LogDebug("Limits of job name {JobName} are saturated, deferring job {JobId} by {RetryAfter}ms", job.Name, job.Id, acquisition.RetryAfter.TotalMilliseconds);
+
+			var deferResult = await _jobManager.DeferJob(job.Id, acquisition.RetryAfter, stoppingToken);
+			if (deferResult.IsFailure)
+			{
+				_logger.LogError("Failed to defer job {JobId}: {Error}", job.Id, deferResult.Error?.Message);
+				return JobClaimingState.ErrorOccurred;
+			}
+
+			return JobClaimingState.JobDeferred;
+		}
+
 		_logger.LogDebug("Successfully claimed job {JobId}, attempting to enqueue", job.Id);
 
+		// Tracked before it is enqueued, so the heartbeats renew its lease while it waits for a free slot
+		_workerJobTracker.Track(job.Id);
+
 		var enqueued = await _jobChannelEnqueuer.Enqueue(writerJobChannel, job, stoppingToken);
 		if (!enqueued)
 		{
 			_logger.LogError("Failed to enqueue job for processing: {JobId}", job.Id);
+			_workerJobTracker.Untrack(job.Id);
+			await _jobLimiter.Release(job, CancellationToken.None);
+
+			// The enqueue fails when the worker is stopping as well, so the job is released without the stopping token
+			await _jobManager.ReleaseJob(job.Id, workerId, CancellationToken.None);
 			return JobClaimingState.FailedToEnqueue;
 		}
 
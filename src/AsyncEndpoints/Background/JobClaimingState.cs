@@ -23,5 +23,15 @@ public enum JobClaimingState
 	/// <summary>
 	/// State when an error occurred during job processing
 	/// </summary>
-	ErrorOccurred = 400
+	ErrorOccurred = 400,
+
+	/// <summary>
+	/// State when a job was claimed but deferred because the limits of its name are saturated
+	/// </summary>
+	JobDeferred = 500,
+
+	/// <summary>
+	/// State when no job was claimed because the channel has no free capacity
+	/// </summary>
+	ChannelFull = 600
 }
@@ -17,7 +17,7 @@ public class JobConsumerService(ILogger<JobConsumerService> logger, IServiceScop
 	private readonly IAsyncEndpointsObservability _metrics = metrics;
 
 	/// <inheritdoc />
-	public async Task ConsumeJobsAsync(ChannelReader<Job> readerJobChannel, SemaphoreSlim semaphoreSlim, CancellationToken stoppingToken)
+	public async Task ConsumeJobsAsync(ChannelReader<Job> readerJobChannel, SemaphoreSlim semaphoreSlim, CancellationToken stoppingToken, CancellationToken processingToken)
 	{
 		_logger.LogDebug("Starting job consumption loop");
 
@@ -28,18 +28,27 @@ public class JobConsumerService(ILogger<JobConsumerService> logger, IServiceScop
 				if (stoppingToken.IsCancellationRequested)
 				{
 					_logger.LogDebug("Cancellation requested, exiting job consumption loop");
+					await ReleaseJobAsync(job, CancellationToken.None);
 					break;
 				}
 
 				_logger.LogDebug("Acquiring semaphore for job {JobId}", job.Id);
-				await semaphoreSlim.WaitAsync(stoppingToken);
+				try
+				{
+					await semaphoreSlim.WaitAsync(stoppingToken);
+				}
+				catch (OperationCanceledException) when (stoppingToken.IsCancellationRequested)
+				{
+					await ReleaseJobAsync(job, CancellationToken.None);
+					throw;
+				}
 
 				try
 				{
 					_logger.LogDebug("Processing job {JobId} on consumer thread", job.Id);
 					await using var scope = _serviceScopeFactory.CreateAsyncScope();
 					var jobProcessorService = scope.ServiceProvider.GetRequiredService<IJobProcessorService>();
-					await jobProcessorService.ProcessAsync(job, stoppingToken);
+					await jobProcessorService.ProcessAsync(job, processingToken);
 					_metrics.RecordBackgroundProcessingRate(job.WorkerId?.ToString() ?? "unknown");
 					_logger.LogDebug("Completed processing job {JobId}", job.Id);
 				}
@@ -59,6 +68,41 @@ public class JobConsumerService(ILogger<JobConsumerService> logger, IServiceScop
 			_logger.LogDebug(ex, "Job consumption loop cancelled");
 		}
 
+		// Jobs left in the channel would otherwise stay in progress until their lease expires
+		await ReleaseBufferedJobsAsync(readerJobChannel, CancellationToken.None);
+
 		_logger.LogDebug("Job consumption loop finished");
 	}
+
+	/// <inheritdoc />
+	public async Task<int> ReleaseBufferedJobsAsync(ChannelReader<Job> readerJobChannel, CancellationToken cancellationToken)
+	{
+		var releasedCount = 0;
+		while (readerJobChannel.TryRead(out var job))
+		{
+			await ReleaseJobAsync(job, cancellationToken);
+			releasedCount++;
+		}
+
+		if (releasedCount > 0)
+		{
+			_logger.LogInformation("Released {JobCount} buffered jobs back to the queue", releasedCount);
+		}
+
+		return releasedCount;
+	}
+
+	private async Task ReleaseJobAsync(Job job, CancellationToken cancellationToken)
+	{
+		try
+		{
+			await using var scope = _serviceScopeFactory.CreateAsyncScope();
+			var jobProcessorService = scope.ServiceProvider.GetRequiredService<IJobProcessorService>();
+			await jobProcessorService.ReleaseAsync(job, cancellationToken);
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error releasing job {JobId}", job.Id);
+		}
+	}
 }
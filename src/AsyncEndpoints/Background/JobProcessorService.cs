@@ -1,8 +1,10 @@
+using AsyncEndpoints.Configuration;
 using AsyncEndpoints.Infrastructure.Observability;
 using AsyncEndpoints.Infrastructure.Serialization;
 using AsyncEndpoints.JobProcessing;
 using AsyncEndpoints.Utilities;
 using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
 using System;
 using System.Diagnostics;
 using System.Threading;
@@ -14,13 +16,17 @@ namespace AsyncEndpoints.Background;
 /// <summary>
 /// Provides functionality for processing individual jobs by executing their handlers and managing job lifecycle updates.
 /// </summary>
-public class JobProcessorService(ILogger<JobProcessorService> logger, IJobManager jobManager, IHandlerExecutionService handlerExecutionService, ISerializer serializer, IAsyncEndpointsObservability metrics) : IJobProcessorService
+public class JobProcessorService(ILogger<JobProcessorService> logger, IJobManager jobManager, IHandlerExecutionService handlerExecutionService, ISerializer serializer, IAsyncEndpointsObservability metrics, IJobCancellationRegistry jobCancellationRegistry, IJobLimiter jobLimiter, IWorkerJobTracker workerJobTracker, IOptions<AsyncEndpointsConfigurations> options) : IJobProcessorService
 {
 	private readonly ILogger<JobProcessorService> _logger = logger;
 	private readonly IJobManager _jobManager = jobManager;
 	private readonly IHandlerExecutionService _handlerExecutionService = handlerExecutionService;
 	private readonly ISerializer _serializer = serializer;
 	private readonly IAsyncEndpointsObservability _metrics = metrics;
+	private readonly IJobCancellationRegistry _jobCancellationRegistry = jobCancellationRegistry;
+	private readonly IJobLimiter _jobLimiter = jobLimiter;
+	private readonly IWorkerJobTracker _workerJobTracker = workerJobTracker;
+	private readonly AsyncEndpointsWorkerConfigurations _workerConfigurations = options.Value.WorkerConfigurations;
 
 	/// <inheritdoc />
 	public async Task ProcessAsync(Job job, CancellationToken cancellationToken)
@@ -33,9 +39,41 @@ public class JobProcessorService(ILogger<JobProcessorService> logger, IJobManage
 
 		using var durationTimer = _metrics.TimeJobProcessingDuration(job.Name, "processing");
 
+		var timeout = _workerConfigurations.GetJobTimeout(job.Name);
+		using var jobCancellationScope = _jobCancellationRegistry.Register(job.Id, cancellationToken, timeout);
+
 		try
 		{
-			var result = await ProcessJobPayloadAsync(job, cancellationToken);
+			var result = await ProcessJobPayloadWithinDeadlineAsync(job, timeout, jobCancellationScope.Token);
+			if (jobCancellationScope.IsJobCanceled)
+			{
+				activity?.SetTag("job.canceled", true);
+
+				_logger.LogInformation("Job {JobId} was canceled during processing", job.Id);
+				return;
+			}
+
+			if (result != null && !result.IsSuccess && cancellationToken.IsCancellationRequested)
+			{
+				// The handler did not finish before the shutdown timeout of the worker, so the job is handed back instead of counting a failure
+				activity?.SetTag("job.released", true);
+
+				_logger.LogWarning("Job {JobId} was interrupted by the worker stopping, releasing it", job.Id);
+				await _jobManager.ReleaseJob(job.Id, _workerConfigurations.WorkerId, CancellationToken.None);
+				return;
+			}
+
+			if (result == null || jobCancellationScope.IsTimedOut)
+			{
+				// The handler either gave up because its token was canceled, or ignored the token and overran the deadline.
+				// Either way the failure is reported as a timeout and retried like any other failure, even if the handler finished late with a result
+				activity?.SetTag("job.timed_out", true);
+
+				_logger.LogWarning("Job {JobId} timed out after {Timeout}", job.Id, timeout);
+				result = MethodResult<string>.Failure(AsyncEndpointError.FromCode(AsyncEndpointsConstants.JobTimeoutErrorCode,
+					$"Job exceeded its execution timeout of {timeout}"));
+			}
+
 			if (!result.IsSuccess)
 			{
 				activity?.SetStatus(ActivityStatusCode.Error, result.Error.Message);
@@ -73,6 +111,63 @@ public class JobProcessorService(ILogger<JobProcessorService> logger, IJobManage
 
 			_logger.LogError(ex, "Exception occurred during job processing");
 		}
+		finally
+		{
+			// The job is no longer held, so the heartbeats stop renewing its lease
+			_workerJobTracker.Untrack(job.Id);
+
+			// Free the concurrency slot of the job name whatever the outcome, so deferred jobs of the same name can run
+			var releaseResult = await _jobLimiter.Release(job, CancellationToken.None);
+			if (!releaseResult.IsSuccess)
+			{
+				_logger.LogWarning("Failed to release the limits of job {JobId}: {Error}", job.Id, releaseResult.Error?.Message);
+			}
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task ReleaseAsync(Job job, CancellationToken cancellationToken)
+	{
+		_logger.LogDebug("Releasing unprocessed job {JobId}", job.Id);
+
+		_workerJobTracker.Untrack(job.Id);
+
+		var limiterReleaseResult = await _jobLimiter.Release(job, cancellationToken);
+		if (!limiterReleaseResult.IsSuccess)
+		{
+			_logger.LogWarning("Failed to release the limits of job {JobId}: {Error}", job.Id, limiterReleaseResult.Error?.Message);
+		}
+
+		await _jobManager.ReleaseJob(job.Id, _workerConfigurations.WorkerId, cancellationToken);
+	}
+
+	/// <summary>
+	/// Processes the payload of a job, discarding the result of a handler that ignores its token and overruns the execution timeout of the job.
+	/// </summary>
+	/// <param name="job">The job containing the payload to process.</param>
+	/// <param name="timeout">The execution timeout of the job, or null if the job has no timeout.</param>
+	/// <param name="cancellationToken">A cancellation token to cancel the operation.</param>
+	/// <returns>The result of the payload processing, or null if the deadline passed before the handler finished.</returns>
+	private async Task<MethodResult<string>?> ProcessJobPayloadWithinDeadlineAsync(Job job, TimeSpan? timeout, CancellationToken cancellationToken)
+	{
+		var processingTask = ProcessJobPayloadAsync(job, cancellationToken);
+		if (!timeout.HasValue)
+		{
+			return await processingTask;
+		}
+
+		using var deadlineTokenSource = new CancellationTokenSource();
+		var completedTask = await Task.WhenAny(processingTask, Task.Delay(timeout.Value, deadlineTokenSource.Token));
+		if (completedTask != processingTask)
+		{
+			// The job keeps its lease and its concurrency slot until the handler returns, so it is not retried while the handler still runs
+			_logger.LogWarning("Handler of job {JobId} did not stop at its execution timeout, waiting for it before reporting the timeout", job.Id);
+			await processingTask;
+			return null;
+		}
+
+		deadlineTokenSource.Cancel();
+		return await processingTask;
 	}
 
 	/// <summary>
@@ -94,7 +189,20 @@ public class JobProcessorService(ILogger<JobProcessorService> logger, IJobManage
 				return MethodResult<string>.Failure(new InvalidOperationException($"Handler registration not found for job name: {job.Name}"));
 			}
 
-			var request = _serializer.Deserialize(job.Payload, handlerRegistration.RequestType);
+			var payload = job.Payload;
+			if (job.PayloadBlobId != null)
+			{
+				var payloadResult = await _jobManager.GetJobPayload(job, cancellationToken);
+				if (!payloadResult.IsSuccess)
+				{
+					_logger.LogError("Failed to read request payload for job: {JobName}", job.Name);
+					return MethodResult<string>.Failure(payloadResult.Error);
+				}
+
+				payload = payloadResult.Data;
+			}
+
+			var request = _serializer.Deserialize(payload, handlerRegistration.RequestType);
 			if (request == null)
 			{
 				_logger.LogError("Failed to deserialize request payload for job: {JobName}", job.Name);
@@ -13,29 +13,36 @@ namespace AsyncEndpoints.Background;
 /// <summary>
 /// Implements the IJobProducerService interface to produce jobs and write them to a channel.
 /// Polls the job manager for queued jobs and writes them to the channel for consumption.
-/// Implements adaptive polling based on job availability and channel capacity.
+/// Implements adaptive polling based on job availability and channel capacity, and wakes up as soon as a job is queued while idle.
 /// </summary>
 public class JobProducerService(
 	ILogger<JobProducerService> logger,
 	IOptions<AsyncEndpointsConfigurations> configurations,
 	IDelayCalculatorService delayCalculatorService,
-	IServiceScopeFactory serviceScopeFactory) : IJobProducerService
+	IServiceScopeFactory serviceScopeFactory,
+	IJobStatusNotifier jobStatusNotifier) : IJobProducerService
 {
 	private readonly ILogger<JobProducerService> _logger = logger;
 	private readonly AsyncEndpointsWorkerConfigurations _workerConfigurations = configurations.Value.WorkerConfigurations;
 	private readonly IServiceScopeFactory _serviceScopeFactory = serviceScopeFactory;
 	private readonly IDelayCalculatorService _delayCalculatorService = delayCalculatorService;
+	private readonly IJobStatusNotifier _jobStatusNotifier = jobStatusNotifier;
+
+	// Holds at most one pending wake-up, so a burst of queued jobs wakes the idle producer once
+	private readonly Channel<bool> _jobQueuedSignal = Channel.CreateBounded<bool>(new BoundedChannelOptions(1) { FullMode = BoundedChannelFullMode.DropWrite });
 
 	/// <summary>
 	/// Produces jobs and writes them to the provided channel asynchronously.
 	/// </summary>
-	/// <param name="writerJobChannel">The channel writer to write jobs to.</param>
+	/// <param name="jobChannel">The channel to write jobs to.</param>
 	/// <param name="stoppingToken">A cancellation token to stop the production process.</param>
 	/// <returns>A task representing the asynchronous operation.</returns>
-	public async Task ProduceJobsAsync(ChannelWriter<Job> writerJobChannel, CancellationToken stoppingToken)
+	public async Task ProduceJobsAsync(Channel<Job> jobChannel, CancellationToken stoppingToken)
 	{
 		try
 		{
+			await SubscribeToQueuedJobs(stoppingToken);
+
 			while (!stoppingToken.IsCancellationRequested)
 			{
 				await using var scope = _serviceScopeFactory.CreateAsyncScope();
@@ -45,11 +52,23 @@ public class JobProducerService(
 
 				try
 				{
-					var result = await jobClaimingService.ClaimAndEnqueueJobAsync(writerJobChannel, _workerConfigurations.WorkerId, stoppingToken);
+					// Claim a batch of jobs in a single store operation, but no more than the channel can take
+					var freeCapacity = _workerConfigurations.MaximumQueueSize - jobChannel.Reader.Count;
+					var claimCount = Math.Min(_workerConfigurations.BatchSize, freeCapacity);
+					var result = claimCount > 0
+						? await jobClaimingService.ClaimAndEnqueueJobsAsync(jobChannel.Writer, _workerConfigurations.WorkerId, claimCount, stoppingToken)
+						: JobClaimingState.ChannelFull;
 
 					var delay = _delayCalculatorService.CalculateDelay(result, _workerConfigurations);
 
-					await Task.Delay(delay, stoppingToken);
+					if (result == JobClaimingState.NoJobFound)
+					{
+						await WaitForQueuedJob(delay, stoppingToken);
+					}
+					else
+					{
+						await Task.Delay(delay, stoppingToken);
+					}
 				}
 				catch (OperationCanceledException)
 				{
@@ -65,7 +84,51 @@ public class JobProducerService(
 		}
 		finally
 		{
-			writerJobChannel.Complete();
+			jobChannel.Writer.Complete();
+		}
+	}
+
+	/// <summary>
+	/// Subscribes to job status changes, so that a job queued by any instance wakes the idle producer.
+	/// The producer keeps polling when the subscription fails.
+	/// </summary>
+	/// <param name="stoppingToken">A cancellation token that ends the subscription.</param>
+	private async Task SubscribeToQueuedJobs(CancellationToken stoppingToken)
+	{
+		try
+		{
+			await _jobStatusNotifier.Subscribe((_, status) =>
+			{
+				if (status == JobStatus.Queued)
+				{
+					_jobQueuedSignal.Writer.TryWrite(true);
+				}
+			}, stoppingToken);
+		}
+		catch (Exception ex) when (ex is not OperationCanceledException)
+		{
+			_logger.LogWarning(ex, "Failed to subscribe to queued jobs, falling back to polling");
+		}
+	}
+
+	/// <summary>
+	/// Waits until a job is queued or the polling delay has elapsed, whichever comes first.
+	/// </summary>
+	/// <param name="delay">The polling delay used as a fallback.</param>
+	/// <param name="stoppingToken">A cancellation token to stop waiting.</param>
+	private async Task WaitForQueuedJob(TimeSpan delay, CancellationToken stoppingToken)
+	{
+		using var delayCts = CancellationTokenSource.CreateLinkedTokenSource(stoppingToken);
+		delayCts.CancelAfter(delay);
+
+		try
+		{
+			await _jobQueuedSignal.Reader.ReadAsync(delayCts.Token);
+			_logger.LogDebug("Woken up by a queued job");
+		}
+		catch (OperationCanceledException) when (!stoppingToken.IsCancellationRequested)
+		{
+			// The polling delay elapsed without a queued job
 		}
 	}
 }
@@ -0,0 +1,117 @@
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.Handlers;
+using AsyncEndpoints.Infrastructure;
+using AsyncEndpoints.Infrastructure.Serialization;
+using AsyncEndpoints.JobProcessing;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+using System;
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace AsyncEndpoints.Background;
+
+/// <inheritdoc />
+/// <summary>
+/// Reports the progress of the job executed in the current handler scope.
+/// Writes are throttled to one per <see cref="AsyncEndpointsWorkerConfigurations.ProgressUpdateIntervalMs"/>;
+/// reports in between replace each other and the latest one is written by the next report or by <see cref="Flush"/>.
+/// </summary>
+public class JobProgressReporter(ILogger<JobProgressReporter> logger, IJobManager jobManager, ISerializer serializer, IDateTimeProvider dateTimeProvider, IOptions<AsyncEndpointsConfigurations> configurations) : IJobProgressReporter
+{
+	private readonly ILogger<JobProgressReporter> _logger = logger;
+	private readonly IJobManager _jobManager = jobManager;
+	private readonly ISerializer _serializer = serializer;
+	private readonly IDateTimeProvider _dateTimeProvider = dateTimeProvider;
+	private readonly TimeSpan _updateInterval = TimeSpan.FromMilliseconds(configurations.Value.WorkerConfigurations.ProgressUpdateIntervalMs);
+	private readonly object _lock = new();
+	private Guid? _jobId;
+	private JobProgress? _pendingProgress;
+	private DateTimeOffset? _lastWrittenAt;
+
+	/// <summary>
+	/// Binds the reporter to the job executed in the current handler scope.
+	/// </summary>
+	/// <param name="jobId">The unique identifier of the job.</param>
+	public void Attach(Guid jobId)
+	{
+		lock (_lock)
+		{
+			_jobId = jobId;
+		}
+	}
+
+	/// <inheritdoc />
+	public Task ReportProgress(double percentComplete, string? message = null, CancellationToken cancellationToken = default)
+	{
+		return Report(percentComplete, message, null, cancellationToken);
+	}
+
+	/// <inheritdoc />
+	public Task ReportProgress<TData>(double percentComplete, string? message, TData data, CancellationToken cancellationToken = default)
+	{
+		var serializedData = data is null ? null : _serializer.Serialize(data);
+		return Report(percentComplete, message, serializedData, cancellationToken);
+	}
+
+	/// <summary>
+	/// Writes the latest progress that was held back by throttling, if any.
+	/// </summary>
+	/// <param name="cancellationToken">Cancellation token.</param>
+	public async Task Flush(CancellationToken cancellationToken)
+	{
+		Guid jobId;
+		JobProgress progress;
+		lock (_lock)
+		{
+			if (_jobId == null || _pendingProgress == null)
+				return;
+
+			jobId = _jobId.Value;
+			progress = _pendingProgress;
+			_pendingProgress = null;
+			_lastWrittenAt = progress.ReportedAt;
+		}
+
+		try
+		{
+			await _jobManager.ReportJobProgress(jobId, progress, cancellationToken);
+		}
+		catch (Exception ex)
+		{
+			// Progress is informational, failing to store it must never fail the job
+			_logger.LogWarning(ex, "Failed to report progress of job {JobId}", jobId);
+		}
+	}
+
+	private async Task Report(double percentComplete, string? message, string? data, CancellationToken cancellationToken)
+	{
+		if (double.IsNaN(percentComplete) || percentComplete < 0 || percentComplete > 100)
+			throw new ArgumentOutOfRangeException(nameof(percentComplete), percentComplete, "Progress must be between 0 and 100 percent.");
+
+		var progress = new JobProgress
+		{
+			PercentComplete = percentComplete,
+			Message = message,
+			Data = data,
+			ReportedAt = _dateTimeProvider.DateTimeOffsetNow
+		};
+
+		lock (_lock)
+		{
+			if (_jobId == null)
+			{
+				_logger.LogDebug("Ignoring progress reported outside of a job");
+				return;
+			}
+
+			_pendingProgress = progress;
+
+			// Completion is always written right away, everything else at most once per interval
+			if (percentComplete < 100 && _lastWrittenAt.HasValue && progress.ReportedAt - _lastWrittenAt.Value < _updateInterval)
+				return;
+		}
+
+		await Flush(cancellationToken);
+	}
+}
@@ -0,0 +1,121 @@
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.Infrastructure.Blobs;
+using AsyncEndpoints.JobProcessing;
+using Microsoft.Extensions.Hosting;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+using System;
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace AsyncEndpoints.Background;
+
+/// <summary>
+/// Background service that deletes jobs whose retention period has passed.
+/// Stores that expire jobs natively, such as Redis, use the purge to clean up what the expiry leaves behind.
+/// Expired payloads and results are deleted from the blob store, if one is registered.
+/// This service is enabled when AddAsyncEndpointsWorker is called.
+/// </summary>
+public class JobRetentionPurgeService(
+	ILogger<JobRetentionPurgeService> logger,
+	IJobStore jobStore,
+	IOptions<AsyncEndpointsConfigurations> options,
+	IJobBlobStore? jobBlobStore = null) : BackgroundService
+{
+	private readonly ILogger<JobRetentionPurgeService> _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+	private readonly IJobStore _jobStore = jobStore ?? throw new ArgumentNullException(nameof(jobStore));
+	private readonly IJobBlobStore? _jobBlobStore = jobBlobStore;
+	private readonly TimeSpan _purgeInterval = TimeSpan.FromSeconds(options.Value.RetentionConfigurations.PurgeIntervalSeconds);
+	private readonly int _purgeBatchSize = options.Value.RetentionConfigurations.PurgeBatchSize;
+
+	protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+	{
+		_logger.LogInformation("Job Retention Purge Service starting with purge interval {Interval} seconds", _purgeInterval.TotalSeconds);
+
+		while (!stoppingToken.IsCancellationRequested)
+		{
+			try
+			{
+				await PurgeExpiredJobs(stoppingToken);
+				await PurgeExpiredBlobs(stoppingToken);
+			}
+			catch (Exception ex) when (!stoppingToken.IsCancellationRequested)
+			{
+				_logger.LogError(ex, "Error during job retention purge cycle");
+			}
+			finally
+			{
+				await Task.Delay(_purgeInterval, stoppingToken);
+			}
+		}
+
+		_logger.LogInformation("Job Retention Purge Service stopped");
+	}
+
+	/// <summary>
+	/// Deletes expired jobs in batches until a batch comes back smaller than the batch size.
+	/// </summary>
+	/// <param name="cancellationToken">Cancellation token.</param>
+	/// <returns>The number of deleted jobs.</returns>
+	internal async Task<int> PurgeExpiredJobs(CancellationToken cancellationToken)
+	{
+		var purgedCount = 0;
+		while (!cancellationToken.IsCancellationRequested)
+		{
+			var deleteResult = await _jobStore.DeleteExpiredJobs(_purgeBatchSize, cancellationToken);
+			if (!deleteResult.IsSuccess)
+			{
+				_logger.LogError("Failed to delete expired jobs: {Error}", deleteResult.Error?.Message);
+				break;
+			}
+
+			purgedCount += deleteResult.Data;
+			if (deleteResult.Data < _purgeBatchSize)
+				break;
+		}
+
+		if (purgedCount > 0)
+		{
+			_logger.LogInformation("Purged {PurgedCount} expired jobs", purgedCount);
+		}
+		else
+		{
+			_logger.LogDebug("No expired jobs found during purge");
+		}
+
+		return purgedCount;
+	}
+
+	/// <summary>
+	/// Deletes expired blobs in batches until a batch comes back smaller than the batch size.
+	/// </summary>
+	/// <param name="cancellationToken">Cancellation token.</param>
+	/// <returns>The number of deleted blobs.</returns>
+	internal async Task<int> PurgeExpiredBlobs(CancellationToken cancellationToken)
+	{
+		if (_jobBlobStore == null)
+			return 0;
+
+		var purgedCount = 0;
+		while (!cancellationToken.IsCancellationRequested)
+		{
+			var deleteResult = await _jobBlobStore.DeleteExpiredBlobs(_purgeBatchSize, cancellationToken);
+			if (!deleteResult.IsSuccess)
+			{
+				_logger.LogError("Failed to delete expired blobs: {Error}", deleteResult.Error?.Message);
+				break;
+			}
+
+			purgedCount += deleteResult.Data;
+			if (deleteResult.Data < _purgeBatchSize)
+				break;
+		}
+
+		if (purgedCount > 0)
+		{
+			_logger.LogInformation("Purged {PurgedCount} expired blobs", purgedCount);
+		}
+
+		return purgedCount;
+	}
+}
@@ -0,0 +1,86 @@
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.Infrastructure.Observability;
+using AsyncEndpoints.JobProcessing;
+using Microsoft.Extensions.Hosting;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+using System;
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace AsyncEndpoints.Background;
+
+/// <summary>
+/// Background service that periodically queries the job stats from the job store and publishes them to the job count,
+/// oldest queued job age and scheduled retry gauges.
+/// This service is enabled when AddAsyncEndpointsWorker is called and metrics are enabled.
+/// </summary>
+public class JobStatsPublisherService(
+	ILogger<JobStatsPublisherService> logger,
+	IJobStore jobStore,
+	IAsyncEndpointsObservability metrics,
+	IOptions<AsyncEndpointsConfigurations> options) : BackgroundService
+{
+	private readonly ILogger<JobStatsPublisherService> _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+	private readonly IJobStore _jobStore = jobStore ?? throw new ArgumentNullException(nameof(jobStore));
+	private readonly IAsyncEndpointsObservability _metrics = metrics ?? throw new ArgumentNullException(nameof(metrics));
+	private readonly bool _metricsEnabled = options.Value.ObservabilityConfigurations.EnableMetrics;
+	private readonly TimeSpan _publishInterval = TimeSpan.FromSeconds(options.Value.ObservabilityConfigurations.JobStatsIntervalSeconds);
+
+	protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+	{
+		if (!_metricsEnabled)
+		{
+			_logger.LogDebug("Job Stats Publisher Service disabled because metrics are disabled");
+			return;
+		}
+
+		_logger.LogInformation("Job Stats Publisher Service starting with publish interval {Interval} seconds", _publishInterval.TotalSeconds);
+
+		while (!stoppingToken.IsCancellationRequested)
+		{
+			try
+			{
+				await PublishJobStats(stoppingToken);
+			}
+			catch (Exception ex) when (!stoppingToken.IsCancellationRequested)
+			{
+				_logger.LogError(ex, "Error during job stats publication");
+			}
+			finally
+			{
+				await Task.Delay(_publishInterval, stoppingToken);
+			}
+		}
+
+		_logger.LogInformation("Job Stats Publisher Service stopped");
+	}
+
+	/// <summary>
+	/// Queries the job stats and sets the gauges of the job store.
+	/// </summary>
+	/// <param name="cancellationToken">Cancellation token.</param>
+	/// <returns>True if the stats were published, false if they could not be retrieved.</returns>
+	internal async Task<bool> PublishJobStats(CancellationToken cancellationToken)
+	{
+		var statsResult = await _jobStore.GetJobStats(cancellationToken);
+		if (!statsResult.IsSuccess)
+		{
+			_logger.LogError("Failed to retrieve job stats: {Error}", statsResult.Error?.Message);
+			return false;
+		}
+
+		var stats = statsResult.Data;
+		var storeType = _jobStore.GetType().Name;
+		foreach (var statusCount in stats.StatusCounts)
+		{
+			_metrics.SetJobCurrentCount(statusCount.Key.ToString(), storeType, statusCount.Value);
+		}
+
+		_metrics.SetOldestQueuedJobAge(storeType, stats.GetOldestQueuedJobAge()?.TotalSeconds ?? 0);
+		_metrics.SetScheduledRetryCount(storeType, stats.ScheduledRetryCount);
+
+		_logger.LogDebug("Published job stats for {StoreType}", storeType);
+		return true;
+	}
+}
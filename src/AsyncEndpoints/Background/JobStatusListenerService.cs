@@ -0,0 +1,27 @@
+using AsyncEndpoints.JobProcessing;
+using Microsoft.Extensions.Hosting;
+using Microsoft.Extensions.Logging;
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace AsyncEndpoints.Background;
+
+/// <summary>
+/// Background service that listens for job status changes and wakes the clients of this instance waiting for them.
+/// </summary>
+public class JobStatusListenerService(
+	ILogger<JobStatusListenerService> logger,
+	IJobStatusNotifier jobStatusNotifier,
+	IJobStatusWatcher jobStatusWatcher) : BackgroundService
+{
+	private readonly ILogger<JobStatusListenerService> _logger = logger;
+	private readonly IJobStatusNotifier _jobStatusNotifier = jobStatusNotifier;
+	private readonly IJobStatusWatcher _jobStatusWatcher = jobStatusWatcher;
+
+	protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+	{
+		_logger.LogDebug("Job status listener starting");
+
+		await _jobStatusNotifier.Subscribe(_jobStatusWatcher.OnStatusChanged, stoppingToken);
+	}
+}
@@ -0,0 +1,122 @@
+using AsyncEndpoints.Infrastructure;
+using AsyncEndpoints.Infrastructure.Serialization;
+using AsyncEndpoints.JobProcessing;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Hosting;
+using Microsoft.Extensions.Logging;
+using System;
+using System.Linq;
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace AsyncEndpoints.Background;
+
+/// <summary>
+/// Background service that enqueues the occurrences of recurring jobs through <see cref="IJobManager"/>.
+/// Every occurrence is created with a job ID derived from the job name and occurrence time, so when several
+/// instances share a job store each occurrence is enqueued exactly once.
+/// This service is enabled when AddAsyncEndpointsRecurringJob is called.
+/// </summary>
+public class RecurringJobSchedulerService(
+	ILogger<RecurringJobSchedulerService> logger,
+	IRecurringJobRegistry recurringJobRegistry,
+	IServiceScopeFactory serviceScopeFactory,
+	ISerializer serializer,
+	IDateTimeProvider dateTimeProvider) : BackgroundService
+{
+	private static readonly TimeSpan _minimumDelay = TimeSpan.FromSeconds(1);
+	private static readonly TimeSpan _maximumDelay = TimeSpan.FromMinutes(1);
+
+	private readonly ILogger<RecurringJobSchedulerService> _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+	private readonly IRecurringJobRegistry _recurringJobRegistry = recurringJobRegistry ?? throw new ArgumentNullException(nameof(recurringJobRegistry));
+	private readonly IServiceScopeFactory _serviceScopeFactory = serviceScopeFactory ?? throw new ArgumentNullException(nameof(serviceScopeFactory));
+	private readonly ISerializer _serializer = serializer ?? throw new ArgumentNullException(nameof(serializer));
+	private readonly IDateTimeProvider _dateTimeProvider = dateTimeProvider ?? throw new ArgumentNullException(nameof(dateTimeProvider));
+
+	protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+	{
+		_logger.LogInformation("Recurring Job Scheduler Service starting with {RecurringJobCount} recurring jobs", _recurringJobRegistry.Definitions.Count);
+
+		while (!stoppingToken.IsCancellationRequested)
+		{
+			try
+			{
+				await EnqueueDueJobs(stoppingToken);
+			}
+			catch (Exception ex) when (!stoppingToken.IsCancellationRequested)
+			{
+				_logger.LogError(ex, "Error during recurring job scheduling cycle");
+			}
+			finally
+			{
+				await Task.Delay(GetDelay(), stoppingToken);
+			}
+		}
+
+		_logger.LogInformation("Recurring Job Scheduler Service stopped");
+	}
+
+	/// <summary>
+	/// Enqueues the due occurrence of every recurring job. When several occurrences were missed, only the latest one is enqueued.
+	/// </summary>
+	/// <param name="cancellationToken">Cancellation token.</param>
+	internal async Task EnqueueDueJobs(CancellationToken cancellationToken)
+	{
+		var now = _dateTimeProvider.DateTimeOffsetNow;
+		foreach (var definition in _recurringJobRegistry.Definitions)
+		{
+			var state = _recurringJobRegistry.GetState(definition.Name);
+			if (state?.NextRunAt == null || state.NextRunAt > now)
+				continue;
+
+			var runAt = state.NextRunAt.Value;
+			var nextRunAt = definition.Schedule.GetNextOccurrence(runAt);
+			while (nextRunAt <= now)
+			{
+				runAt = nextRunAt.Value;
+				nextRunAt = definition.Schedule.GetNextOccurrence(runAt);
+			}
+
+			await EnqueueOccurrence(definition, runAt, nextRunAt, cancellationToken);
+		}
+	}
+
+	private async Task EnqueueOccurrence(RecurringJobDefinition definition, DateTimeOffset runAt, DateTimeOffset? nextRunAt, CancellationToken cancellationToken)
+	{
+		var jobId = definition.GetOccurrenceJobId(runAt);
+		using var _ = _logger.BeginScope(new { JobName = definition.Name, JobId = jobId });
+
+		await using var scope = _serviceScopeFactory.CreateAsyncScope();
+		var jobManager = scope.ServiceProvider.GetRequiredService<IJobManager>();
+
+		var payload = definition.PayloadFactory(_serializer);
+		var result = await jobManager.ScheduleJob(jobId, definition.Name, payload, runAt, cancellationToken);
+		if (!result.IsSuccess)
+		{
+			// The occurrence stays due and is retried on the next cycle
+			_logger.LogError("Failed to enqueue occurrence {RunAt} of recurring job {JobName}: {Error}", runAt, definition.Name, result.Error?.Message);
+			return;
+		}
+
+		_recurringJobRegistry.RecordRun(definition.Name, runAt, jobId, nextRunAt);
+		_logger.LogInformation("Enqueued occurrence {RunAt} of recurring job {JobName} as job {JobId}, next occurrence at {NextRunAt}", runAt, definition.Name, jobId, nextRunAt);
+	}
+
+	private TimeSpan GetDelay()
+	{
+		var nextRunAt = _recurringJobRegistry.GetStates()
+			.Where(x => x.NextRunAt.HasValue)
+			.Select(x => x.NextRunAt!.Value)
+			.DefaultIfEmpty(DateTimeOffset.MaxValue)
+			.Min();
+
+		if (nextRunAt == DateTimeOffset.MaxValue)
+			return _maximumDelay;
+
+		var delay = nextRunAt - _dateTimeProvider.DateTimeOffsetNow;
+		if (delay < _minimumDelay)
+			return _minimumDelay;
+
+		return delay > _maximumDelay ? _maximumDelay : delay;
+	}
+}
@@ -0,0 +1,103 @@
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.Infrastructure;
+using AsyncEndpoints.JobProcessing;
+using AsyncEndpoints.Utilities;
+using Microsoft.Extensions.Hosting;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+using System;
+using System.Linq;
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace AsyncEndpoints.Background;
+
+/// <summary>
+/// Background service that registers the worker with the job store and sends a heartbeat every <see cref="AsyncEndpointsRecoveryConfigurations.HeartbeatIntervalSeconds"/>.
+/// Every heartbeat renews the leases of the jobs the worker holds, so they are only recovered once the worker dies.
+/// The worker is removed from the job store when the service stops.
+/// This service is enabled when AddAsyncEndpointsWorker is called.
+/// </summary>
+public class WorkerHeartbeatService(
+	ILogger<WorkerHeartbeatService> logger,
+	IJobStore jobStore,
+	IWorkerJobTracker workerJobTracker,
+	IDateTimeProvider dateTimeProvider,
+	IOptions<AsyncEndpointsConfigurations> options,
+	AsyncEndpointsRecoveryConfigurations recoveryConfigurations) : BackgroundService
+{
+	private readonly ILogger<WorkerHeartbeatService> _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+	private readonly IJobStore _jobStore = jobStore ?? throw new ArgumentNullException(nameof(jobStore));
+	private readonly IWorkerJobTracker _workerJobTracker = workerJobTracker ?? throw new ArgumentNullException(nameof(workerJobTracker));
+	private readonly IDateTimeProvider _dateTimeProvider = dateTimeProvider ?? throw new ArgumentNullException(nameof(dateTimeProvider));
+	private readonly AsyncEndpointsWorkerConfigurations _workerConfigurations = options.Value.WorkerConfigurations;
+	private readonly TimeSpan _heartbeatInterval = TimeSpan.FromSeconds(recoveryConfigurations.HeartbeatIntervalSeconds);
+	private readonly TimeSpan _leaseDuration = TimeSpan.FromSeconds(recoveryConfigurations.LeaseDurationSeconds);
+	private readonly DateTimeOffset _startedAt = dateTimeProvider.DateTimeOffsetNow;
+
+	public override async Task StopAsync(CancellationToken cancellationToken)
+	{
+		await base.StopAsync(cancellationToken);
+
+		var removeResult = await _jobStore.RemoveWorker(_workerConfigurations.WorkerId, cancellationToken);
+		if (!removeResult.IsSuccess)
+		{
+			_logger.LogWarning("Failed to remove worker {WorkerId}: {Error}", _workerConfigurations.WorkerId, removeResult.Error?.Message);
+		}
+	}
+
+	protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+	{
+		_logger.LogInformation("Worker Heartbeat Service starting for worker {WorkerId} with heartbeat interval {Interval} seconds", _workerConfigurations.WorkerId, _heartbeatInterval.TotalSeconds);
+
+		while (!stoppingToken.IsCancellationRequested)
+		{
+			try
+			{
+				await SendHeartbeat(stoppingToken);
+			}
+			catch (Exception ex) when (!stoppingToken.IsCancellationRequested)
+			{
+				_logger.LogError(ex, "Error during worker heartbeat");
+			}
+			finally
+			{
+				await Task.Delay(_heartbeatInterval, stoppingToken);
+			}
+		}
+
+		_logger.LogInformation("Worker Heartbeat Service stopped");
+	}
+
+	/// <summary>
+	/// Stores a heartbeat of the worker, renewing the leases of the jobs it holds.
+	/// </summary>
+	/// <param name="cancellationToken">Cancellation token.</param>
+	/// <returns>The result of storing the heartbeat.</returns>
+	internal async Task<MethodResult> SendHeartbeat(CancellationToken cancellationToken)
+	{
+		var now = _dateTimeProvider.DateTimeOffsetNow;
+		var heartbeat = new WorkerHeartbeat
+		{
+			WorkerId = _workerConfigurations.WorkerId,
+			HostName = Environment.MachineName,
+			MaximumConcurrency = _workerConfigurations.MaximumConcurrency,
+			Queues = [.. _workerConfigurations.Queues.Keys.Order(StringComparer.Ordinal)],
+			JobIds = _workerJobTracker.GetJobIds(),
+			StartedAt = _startedAt,
+			LastHeartbeatAt = now,
+			ExpiresAt = now.Add(_leaseDuration)
+		};
+
+		var saveResult = await _jobStore.SaveWorkerHeartbeat(heartbeat, cancellationToken);
+		if (!saveResult.IsSuccess)
+		{
+			// The leases survive a few missed heartbeats, so a failure is only logged and the next heartbeat tries again
+			_logger.LogWarning("Failed to store heartbeat of worker {WorkerId}: {Error}", heartbeat.WorkerId, saveResult.Error?.Message);
+			return saveResult;
+		}
+
+		_logger.LogDebug("Stored heartbeat of worker {WorkerId} holding {JobCount} jobs", heartbeat.WorkerId, heartbeat.JobIds.Count);
+		return saveResult;
+	}
+}
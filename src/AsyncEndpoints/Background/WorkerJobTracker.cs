@@ -0,0 +1,21 @@
+using System;
+using System.Collections.Concurrent;
+using System.Collections.Generic;
+using System.Linq;
+
+namespace AsyncEndpoints.Background;
+
+/// <inheritdoc />
+public class WorkerJobTracker : IWorkerJobTracker
+{
+	private readonly ConcurrentDictionary<Guid, byte> _jobIds = new();
+
+	/// <inheritdoc />
+	public void Track(Guid jobId) => _jobIds.TryAdd(jobId, 0);
+
+	/// <inheritdoc />
+	public void Untrack(Guid jobId) => _jobIds.TryRemove(jobId, out _);
+
+	/// <inheritdoc />
+	public List<Guid> GetJobIds() => [.. _jobIds.Keys.OrderBy(jobId => jobId)];
+}
@@ -0,0 +1,13 @@
+namespace AsyncEndpoints.Configuration;
+
+/// <summary>
+/// Configuration settings for storing large job payloads and results outside the job store.
+/// Payloads and results are only offloaded when a blob store, such as the one added by AddAsyncEndpointsFileSystemBlobStore, is registered.
+/// </summary>
+public sealed class AsyncEndpointsBlobStorageConfigurations
+{
+	/// <summary>
+	/// Gets or sets the size in bytes above which the payload or result of a job is stored in the blob store instead of the job store.
+	/// </summary>
+	public int OffloadThresholdBytes { get; set; } = AsyncEndpointsConstants.DefaultBlobOffloadThresholdBytes;
+}
@@ -0,0 +1,52 @@
+using System.Collections.Generic;
+
+namespace AsyncEndpoints.Configuration;
+
+/// <summary>
+/// Configuration settings for job completion callbacks.
+/// </summary>
+public sealed class AsyncEndpointsCallbackConfigurations
+{
+	/// <summary>
+	/// Gets or sets the secret used to sign callback requests with HMAC-SHA256.
+	/// When not set, callback requests are sent without a signature header.
+	/// </summary>
+	public string? SigningSecret { get; set; } = null;
+
+	/// <summary>
+	/// Gets or sets the name of the header carrying the callback request signature.
+	/// </summary>
+	public string SignatureHeaderName { get; set; } = AsyncEndpointsConstants.CallbackSignatureHeaderName;
+
+	/// <summary>
+	/// Gets or sets the hosts callback URLs are allowed to point to.
+	/// An empty collection allows any host.
+	/// </summary>
+	public List<string> AllowedHosts { get; set; } = [];
+
+	/// <summary>
+	/// Gets or sets the maximum number of delivery attempts for a callback.
+	/// </summary>
+	public int MaximumAttempts { get; set; } = AsyncEndpointsConstants.DefaultCallbackMaximumAttempts;
+
+	/// <summary>
+	/// Gets or sets the base delay in seconds for callback delivery exponential backoff.
+	/// </summary>
+	public double RetryDelayBaseSeconds { get; set; } = 2.0;
+
+	/// <summary>
+	/// Gets or sets the timeout in seconds for a single callback delivery attempt.
+	/// </summary>
+	public int TimeoutSeconds { get; set; } = AsyncEndpointsConstants.DefaultCallbackTimeoutSeconds;
+
+	/// <summary>
+	/// Gets or sets the interval in seconds between sweeps for pending callbacks whose delivery stalled,
+	/// for example because the instance delivering them stopped. A sweep also runs when the worker starts.
+	/// </summary>
+	public int SweepIntervalSeconds { get; set; } = AsyncEndpointsConstants.DefaultCallbackSweepIntervalSeconds;
+
+	/// <summary>
+	/// Gets or sets how far back in seconds a sweep looks for finished jobs with pending callbacks.
+	/// </summary>
+	public int SweepWindowSeconds { get; set; } = AsyncEndpointsConstants.DefaultCallbackSweepWindowSeconds;
+}
@@ -24,4 +24,19 @@ public sealed class AsyncEndpointsConfigurations
 	/// Gets or sets the observability-specific configurations.
 	/// </summary>
 	public AsyncEndpointsObservabilityConfigurations ObservabilityConfigurations { get; set; } = new();
+
+	/// <summary>
+	/// Gets or sets the completion-callback-specific configurations.
+	/// </summary>
+	public AsyncEndpointsCallbackConfigurations CallbackConfigurations { get; set; } = new();
+
+	/// <summary>
+	/// Gets or sets the job-retention-specific configurations.
+	/// </summary>
+	public AsyncEndpointsRetentionConfigurations RetentionConfigurations { get; set; } = new();
+
+	/// <summary>
+	/// Gets or sets the blob-storage-specific configurations.
+	/// </summary>
+	public AsyncEndpointsBlobStorageConfigurations BlobStorageConfigurations { get; set; } = new();
 }
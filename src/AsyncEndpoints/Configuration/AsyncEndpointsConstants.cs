@@ -4,6 +4,12 @@ public static class AsyncEndpointsConstants
 {
 	public const string AsyncEndpointTag = "AsyncEndpoint";
 	public const string JobIdHeaderName = "X-Async-Request-Id";
+	public const string CallbackUrlHeaderName = "X-Async-Callback-Url";
+	public const string CallbackSignatureHeaderName = "X-Async-Signature";
+	public const string RunAtHeaderName = "X-Async-Run-At";
+	public const string DelayHeaderName = "X-Async-Delay";
+	public const string PriorityHeaderName = "X-Async-Priority";
+	public const string IdempotencyKeyHeaderName = "Idempotency-Key";
 	public const int MaximumRetries = 3;
 
 	// Configuration Default Values
@@ -11,6 +17,59 @@ public static class AsyncEndpointsConstants
 	public const int DefaultJobTimeoutMinutes = 30;
 	public const int DefaultBatchSize = 5;
 	public const int DefaultMaximumQueueSize = 50;
+	public const int DefaultProgressUpdateIntervalMs = 1000;
+	public const int DefaultShutdownTimeoutSeconds = 20;
+
+	// Job Priority and Queue Constants
+	public const string DefaultQueueName = "default";
+	public const string InvalidJobPriorityErrorCode = "INVALID_JOB_PRIORITY";
+	public const int PriorityAgingSeconds = 60;
+
+	// Idempotency Constants
+	public const string InvalidIdempotencyKeyErrorCode = "INVALID_IDEMPOTENCY_KEY";
+	public const string IdempotencyKeyMismatchErrorCode = "IDEMPOTENCY_KEY_MISMATCH";
+	public const int MaximumIdempotencyKeyLength = 256;
+	public const int DefaultIdempotencyKeyExpiryHours = 24;
+
+	// Job Timeout Constants
+	public const string JobTimeoutErrorCode = "JOB_TIMEOUT";
+
+	// Job Cancellation Constants
+	public const int PendingJobCancellationRetentionMinutes = 60;
+
+	// Job Limit Constants
+	public const int JobLimitDeferDelayMs = 1000;
+
+	// Job Query Constants
+	public const int DefaultJobQueryPageSize = 50;
+	public const int MaximumJobQueryPageSize = 500;
+
+	// Job Callback Constants
+	public const string CallbackHttpClientName = "AsyncEndpoints.Callbacks";
+	public const string InvalidCallbackUrlErrorCode = "INVALID_CALLBACK_URL";
+	public const string InvalidJobScheduleErrorCode = "INVALID_JOB_SCHEDULE";
+	public const int DefaultCallbackMaximumAttempts = 5;
+	public const int DefaultCallbackTimeoutSeconds = 10;
+	public const int DefaultCallbackSweepIntervalSeconds = 60;
+	public const int DefaultCallbackSweepWindowSeconds = 86400;
+
+	// Job Client Constants
+	public const string UnknownJobNameErrorCode = "UNKNOWN_JOB_NAME";
+	public const string InvalidJobRequestTypeErrorCode = "INVALID_JOB_REQUEST_TYPE";
+
+	// Job Continuation Constants
+	public const string ContinuationFailedErrorCode = "CONTINUATION_FAILED";
+
+	// Job Retention Constants
+	public const int DefaultPurgeIntervalSeconds = 60;
+	public const int DefaultPurgeBatchSize = 100;
+
+	// Job Stats Constants
+	public const int DefaultJobStatsIntervalSeconds = 30;
+
+	// Job Status Streaming Constants
+	public const int MaximumJobStatusWaitSeconds = 60;
+	public const int JobEventsKeepAliveSeconds = 15;
 
 	// Background Service Constants
 	public const int BackgroundServiceShutdownTimeoutSeconds = 30;
@@ -26,4 +85,10 @@ public static class AsyncEndpointsConstants
 
 	// Job Result Serialization Constants
 	public const string JobResultPlaceholder = "{{JOB_RESULT_PLACEHOLDER}}";
+
+	// Job Blob Storage Constants
+	public const int DefaultBlobOffloadThresholdBytes = 64 * 1024;
+	public const string BlobNotFoundErrorCode = "BLOB_NOT_FOUND";
+	public const string JobResultNotAvailableErrorCode = "JOB_RESULT_NOT_AVAILABLE";
+	public const string ResultOffloadFailedErrorCode = "RESULT_OFFLOAD_FAILED";
 }
@@ -0,0 +1,26 @@
+using System;
+
+namespace AsyncEndpoints.Configuration;
+
+/// <summary>
+/// Concurrency and rate limits of the jobs with a specific name.
+/// Jobs claimed while a limit is saturated are deferred instead of processed, without counting a retry.
+/// </summary>
+public sealed class AsyncEndpointsJobLimits
+{
+	/// <summary>
+	/// Gets or sets the maximum number of jobs with the name that are processed at the same time, or null for no maximum.
+	/// </summary>
+	public int? MaxConcurrency { get; set; } = null;
+
+	/// <summary>
+	/// Gets or sets the number of jobs with the name that may start every <see cref="RateLimitPeriod"/>, or null for no rate limit.
+	/// The limit is a token bucket: unused permits accumulate up to this number, so short bursts are allowed.
+	/// </summary>
+	public int? RateLimitPermits { get; set; } = null;
+
+	/// <summary>
+	/// Gets or sets the period in which <see cref="RateLimitPermits"/> are refilled.
+	/// </summary>
+	public TimeSpan RateLimitPeriod { get; set; } = TimeSpan.FromMinutes(1);
+}
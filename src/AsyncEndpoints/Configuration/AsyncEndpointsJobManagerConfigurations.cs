@@ -1,3 +1,7 @@
+using AsyncEndpoints.Utilities;
+using System;
+using System.Collections.Generic;
+
 namespace AsyncEndpoints.Configuration;
 
 /// <summary>
@@ -14,4 +18,88 @@ public sealed class AsyncEndpointsJobManagerConfigurations
 	/// Gets or sets the base delay in seconds for job retry exponential backoff.
 	/// </summary>
 	public double RetryDelayBaseSeconds { get; set; } = 2.0;
+
+	/// <summary>
+	/// Gets or sets the error codes that fail any job immediately, without retrying it.
+	/// </summary>
+	public HashSet<string> NonRetryableErrorCodes { get; set; } = new(StringComparer.Ordinal);
+
+	/// <summary>
+	/// Gets or sets the retry policies of jobs with a specific name, usually set when the handler is registered.
+	/// </summary>
+	public Dictionary<string, AsyncEndpointsRetryPolicy> RetryPolicies { get; set; } = [];
+
+	/// <summary>
+	/// Gets or sets the queues jobs with a specific name are placed in, usually set when the handler is registered.
+	/// Jobs with other names are placed in the default queue.
+	/// </summary>
+	public Dictionary<string, string> JobQueues { get; set; } = [];
+
+	/// <summary>
+	/// Gets or sets how long an idempotency key keeps returning the job first submitted with it.
+	/// Reusing a key after it expired submits a new job.
+	/// </summary>
+	public TimeSpan IdempotencyKeyExpiry { get; set; } = TimeSpan.FromHours(AsyncEndpointsConstants.DefaultIdempotencyKeyExpiryHours);
+
+	/// <summary>
+	/// Gets the maximum number of retries of new jobs with the specified name.
+	/// </summary>
+	/// <param name="jobName">The name of the job.</param>
+	/// <returns>The maximum number of retries.</returns>
+	public int GetMaxRetries(string jobName)
+	{
+		return RetryPolicies.GetValueOrDefault(jobName)?.MaxRetries ?? DefaultMaxRetries;
+	}
+
+	/// <summary>
+	/// Gets the name of the queue new jobs with the specified name are placed in.
+	/// </summary>
+	/// <param name="jobName">The name of the job.</param>
+	/// <returns>The name of the queue.</returns>
+	public string GetQueue(string jobName)
+	{
+		return JobQueues.GetValueOrDefault(jobName) ?? AsyncEndpointsConstants.DefaultQueueName;
+	}
+
+	/// <summary>
+	/// Determines whether a failed job with the specified name may be retried after the specified error.
+	/// </summary>
+	/// <param name="jobName">The name of the job.</param>
+	/// <param name="error">The error the job failed with.</param>
+	/// <returns>False if the error code is non-retryable, otherwise true.</returns>
+	public bool IsRetryable(string jobName, AsyncEndpointError error)
+	{
+		if (NonRetryableErrorCodes.Contains(error.Code))
+			return false;
+
+		return RetryPolicies.GetValueOrDefault(jobName)?.NonRetryableErrorCodes.Contains(error.Code) != true;
+	}
+
+	/// <summary>
+	/// Gets the delay before a failed job with the specified name is retried.
+	/// </summary>
+	/// <param name="jobName">The name of the job.</param>
+	/// <param name="retryCount">The retry count of the job, including the retry being scheduled.</param>
+	/// <param name="jitterSample">A random value between 0 and 1 that scales the jitter.</param>
+	/// <returns>The retry delay.</returns>
+	public TimeSpan GetRetryDelay(string jobName, int retryCount, double jitterSample)
+	{
+		var retryPolicy = RetryPolicies.GetValueOrDefault(jobName);
+		var baseDelaySeconds = retryPolicy?.BaseDelaySeconds ?? RetryDelayBaseSeconds;
+
+		var delaySeconds = (retryPolicy?.BackoffType ?? RetryBackoffType.Exponential) switch
+		{
+			RetryBackoffType.Fixed => baseDelaySeconds,
+			RetryBackoffType.Linear => retryCount * baseDelaySeconds,
+			_ => Math.Pow(2, retryCount) * baseDelaySeconds
+		};
+
+		if (retryPolicy?.MaxDelaySeconds is double maxDelaySeconds && delaySeconds > maxDelaySeconds)
+		{
+			delaySeconds = maxDelaySeconds;
+		}
+
+		var jitterFactor = Math.Clamp(retryPolicy?.JitterFactor ?? 0, 0, 1);
+		return TimeSpan.FromSeconds(delaySeconds * (1 - jitterFactor * jitterSample));
+	}
 }
@@ -0,0 +1,24 @@
+using System;
+
+namespace AsyncEndpoints.Configuration;
+
+/// <summary>
+/// Retention periods of the jobs with a specific name.
+/// </summary>
+public sealed class AsyncEndpointsJobRetentionOverride
+{
+	/// <summary>
+	/// Gets or sets how long completed jobs are kept after they complete.
+	/// </summary>
+	public TimeSpan? CompletedJobRetention { get; set; } = null;
+
+	/// <summary>
+	/// Gets or sets how long failed jobs are kept after their final failure.
+	/// </summary>
+	public TimeSpan? FailedJobRetention { get; set; } = null;
+
+	/// <summary>
+	/// Gets or sets how long canceled jobs are kept after they are canceled.
+	/// </summary>
+	public TimeSpan? CanceledJobRetention { get; set; } = null;
+}
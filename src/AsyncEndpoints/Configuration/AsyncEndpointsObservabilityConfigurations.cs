@@ -14,4 +14,10 @@ public sealed class AsyncEndpointsObservabilityConfigurations
 	/// Gets or sets a value indicating whether distributed tracing is enabled.
 	/// </summary>
 	public bool EnableTracing { get; set; } = true;
+
+	/// <summary>
+	/// Gets or sets the interval in seconds between publications of the job counts, oldest queued job age and scheduled retries to the metrics.
+	/// The job store is queried on every publication, so counting many jobs may call for a longer interval.
+	/// </summary>
+	public int JobStatsIntervalSeconds { get; set; } = AsyncEndpointsConstants.DefaultJobStatsIntervalSeconds;
 }
@@ -1,3 +1,5 @@
+using System;
+
 namespace AsyncEndpoints.Configuration;
 
 /// <summary>
@@ -13,12 +15,25 @@ public class AsyncEndpointsRecoveryConfigurations
 	/// <summary>
 	/// Time in minutes after which a job in progress is considered stuck
 	/// </summary>
+	[Obsolete("Stuck jobs are recovered once their lease expires, use LeaseDurationSeconds instead.")]
 	public int JobTimeoutMinutes { get; set; } = 30;
 
+	/// <summary>
+	/// Time in seconds a worker holds a job and stays registered without sending a heartbeat.
+	/// Jobs whose lease is not renewed within this time are considered abandoned and recovered
+	/// </summary>
+	public int LeaseDurationSeconds { get; set; } = 60;
+
+	/// <summary>
+	/// Interval in seconds between two heartbeats of a worker, each renewing the leases of the jobs it holds.
+	/// Should be well below <see cref="LeaseDurationSeconds"/>, so a single missed heartbeat does not expire the leases
+	/// </summary>
+	public int HeartbeatIntervalSeconds { get; set; } = 15;
+
 	/// <summary>
 	/// Interval in seconds between recovery checks
 	/// </summary>
-	public int RecoveryCheckIntervalSeconds { get; set; } = 300; // 5 minutes
+	public int RecoveryCheckIntervalSeconds { get; set; } = 30;
 
 	/// <summary>
 	/// Maximum number of times to retry a failed job
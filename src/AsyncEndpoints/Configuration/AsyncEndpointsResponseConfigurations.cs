@@ -1,7 +1,9 @@
+using AsyncEndpoints.Infrastructure.Blobs;
 using AsyncEndpoints.JobProcessing;
 using AsyncEndpoints.Utilities;
 using Microsoft.AspNetCore.Http;
 using System;
+using System.Collections.Generic;
 using System.Threading.Tasks;
 
 namespace AsyncEndpoints.Configuration;
@@ -10,14 +12,32 @@ public sealed class AsyncEndpointsResponseConfigurations
 {
 	public Func<Job, HttpContext, Task<IResult>> JobSubmittedResponseFactory { get; set; }
 	public Func<MethodResult<Job>, HttpContext, Task<IResult>> JobStatusResponseFactory { get; set; }
+	public Func<MethodResult<JobBlob>, HttpContext, Task<IResult>> JobResultResponseFactory { get; set; }
+	public Func<MethodResult<Job>, HttpContext, Task<IResult>> JobRunsResponseFactory { get; set; }
 	public Func<AsyncEndpointError?, HttpContext, Task<IResult>> JobSubmissionErrorResponseFactory { get; set; }
+	public Func<MethodResult<Job>, HttpContext, Task<IResult>> JobCancellationResponseFactory { get; set; }
+	public Func<MethodResult<JobQueryResult>, HttpContext, Task<IResult>> JobListResponseFactory { get; set; }
+	public Func<MethodResult, HttpContext, Task<IResult>> JobDeletionResponseFactory { get; set; }
+	public Func<MethodResult<Job>, HttpContext, Task<IResult>> JobRequeueResponseFactory { get; set; }
+	public Func<string, MethodResult<int>, HttpContext, Task<IResult>> FailedJobsRequeueResponseFactory { get; set; }
+	public Func<MethodResult<List<WorkerHeartbeat>>, HttpContext, Task<IResult>> WorkerListResponseFactory { get; set; }
+	public Func<MethodResult<JobStats>, HttpContext, Task<IResult>> JobStatsResponseFactory { get; set; }
 	public Func<Exception, HttpContext, Task<IResult>> ExceptionResponseFactory { get; set; }
 
 	public AsyncEndpointsResponseConfigurations()
 	{
 		JobSubmittedResponseFactory = ResponseDefaults.DefaultJobSubmittedResponseFactory;
 		JobStatusResponseFactory = ResponseDefaults.DefaultJobStatusResponseFactory;
+		JobResultResponseFactory = ResponseDefaults.DefaultJobResultResponseFactory;
+		JobRunsResponseFactory = ResponseDefaults.DefaultJobRunsResponseFactory;
 		JobSubmissionErrorResponseFactory = ResponseDefaults.DefaultJobSubmissionErrorResponseFactory;
+		JobCancellationResponseFactory = ResponseDefaults.DefaultJobCancellationResponseFactory;
+		JobListResponseFactory = ResponseDefaults.DefaultJobListResponseFactory;
+		JobDeletionResponseFactory = ResponseDefaults.DefaultJobDeletionResponseFactory;
+		JobRequeueResponseFactory = ResponseDefaults.DefaultJobRequeueResponseFactory;
+		FailedJobsRequeueResponseFactory = ResponseDefaults.DefaultFailedJobsRequeueResponseFactory;
+		WorkerListResponseFactory = ResponseDefaults.DefaultWorkerListResponseFactory;
+		JobStatsResponseFactory = ResponseDefaults.DefaultJobStatsResponseFactory;
 		ExceptionResponseFactory = ResponseDefaults.DefaultExceptionResponseFactory;
 	}
 }
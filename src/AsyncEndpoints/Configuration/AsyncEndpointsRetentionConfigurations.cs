@@ -0,0 +1,61 @@
+using AsyncEndpoints.JobProcessing;
+using System;
+using System.Collections.Generic;
+
+namespace AsyncEndpoints.Configuration;
+
+/// <summary>
+/// Configuration settings for how long finished jobs are kept in the job store.
+/// A retention period that is not set keeps jobs of that status indefinitely.
+/// </summary>
+public sealed class AsyncEndpointsRetentionConfigurations
+{
+	/// <summary>
+	/// Gets or sets how long completed jobs are kept after they complete.
+	/// </summary>
+	public TimeSpan? CompletedJobRetention { get; set; } = null;
+
+	/// <summary>
+	/// Gets or sets how long failed jobs are kept after their final failure.
+	/// </summary>
+	public TimeSpan? FailedJobRetention { get; set; } = null;
+
+	/// <summary>
+	/// Gets or sets how long canceled jobs are kept after they are canceled.
+	/// </summary>
+	public TimeSpan? CanceledJobRetention { get; set; } = null;
+
+	/// <summary>
+	/// Gets or sets retention periods that replace the defaults for jobs with a specific name.
+	/// Retention periods not set in an override fall back to the defaults.
+	/// </summary>
+	public Dictionary<string, AsyncEndpointsJobRetentionOverride> JobNameOverrides { get; set; } = [];
+
+	/// <summary>
+	/// Gets or sets the interval in seconds between purges of expired jobs.
+	/// </summary>
+	public int PurgeIntervalSeconds { get; set; } = AsyncEndpointsConstants.DefaultPurgeIntervalSeconds;
+
+	/// <summary>
+	/// Gets or sets the maximum number of expired jobs deleted at once. A purge keeps deleting batches until fewer expired jobs are left.
+	/// </summary>
+	public int PurgeBatchSize { get; set; } = AsyncEndpointsConstants.DefaultPurgeBatchSize;
+
+	/// <summary>
+	/// Gets the retention period of a finished job.
+	/// </summary>
+	/// <param name="jobName">The name of the job.</param>
+	/// <param name="status">The terminal status of the job.</param>
+	/// <returns>The retention period, or null if jobs with the name and status are kept indefinitely.</returns>
+	public TimeSpan? GetRetention(string jobName, JobStatus status)
+	{
+		var jobNameOverride = JobNameOverrides.GetValueOrDefault(jobName);
+		return status switch
+		{
+			JobStatus.Completed => jobNameOverride?.CompletedJobRetention ?? CompletedJobRetention,
+			JobStatus.Failed => jobNameOverride?.FailedJobRetention ?? FailedJobRetention,
+			JobStatus.Canceled => jobNameOverride?.CanceledJobRetention ?? CanceledJobRetention,
+			_ => null
+		};
+	}
+}
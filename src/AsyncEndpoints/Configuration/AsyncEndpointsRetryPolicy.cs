@@ -0,0 +1,42 @@
+using System;
+using System.Collections.Generic;
+
+namespace AsyncEndpoints.Configuration;
+
+/// <summary>
+/// Retry behavior of the jobs with a specific name.
+/// Settings that are not set fall back to the job manager defaults.
+/// </summary>
+public sealed class AsyncEndpointsRetryPolicy
+{
+	/// <summary>
+	/// Gets or sets the maximum number of retries of a failed job. The value is stored on the job when it is created.
+	/// </summary>
+	public int? MaxRetries { get; set; } = null;
+
+	/// <summary>
+	/// Gets or sets how the delay between retries grows.
+	/// </summary>
+	public RetryBackoffType BackoffType { get; set; } = RetryBackoffType.Exponential;
+
+	/// <summary>
+	/// Gets or sets the base delay in seconds the backoff is calculated from.
+	/// </summary>
+	public double? BaseDelaySeconds { get; set; } = null;
+
+	/// <summary>
+	/// Gets or sets the maximum delay in seconds between retries, or null for no maximum.
+	/// </summary>
+	public double? MaxDelaySeconds { get; set; } = null;
+
+	/// <summary>
+	/// Gets or sets the fraction of the delay, between 0 and 1, that is randomly taken off every retry delay,
+	/// so jobs that failed together do not retry together.
+	/// </summary>
+	public double JitterFactor { get; set; } = 0;
+
+	/// <summary>
+	/// Gets or sets the error codes that fail a job immediately, without retrying it.
+	/// </summary>
+	public HashSet<string> NonRetryableErrorCodes { get; set; } = new(StringComparer.Ordinal);
+}
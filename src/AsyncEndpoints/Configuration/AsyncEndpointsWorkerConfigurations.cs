@@ -1,4 +1,6 @@
 using System;
+using System.Collections.Generic;
+using System.Linq;
 
 namespace AsyncEndpoints.Configuration;
 
@@ -21,17 +23,37 @@ public sealed class AsyncEndpointsWorkerConfigurations
 
 	/// <summary>
 	/// Gets or sets the polling interval in milliseconds for checking new jobs.
+	/// Idle workers also wake up as soon as a job is queued, so polling acts as a fallback.
 	/// </summary>
 	public int PollingIntervalMs { get; set; } = AsyncEndpointsConstants.DefaultPollingIntervalMs;
 
 	/// <summary>
 	/// Gets or sets the timeout in minutes for job execution.
-	/// Jobs that run longer than this will be marked as failed.
+	/// Jobs that run longer than this will be marked as failed. A value of 0 or less disables the timeout.
 	/// </summary>
 	public int JobTimeoutMinutes { get; set; } = AsyncEndpointsConstants.DefaultJobTimeoutMinutes;
 
 	/// <summary>
-	/// Gets or sets the maximum number of jobs to process in a single batch.
+	/// Gets or sets execution timeouts that replace <see cref="JobTimeoutMinutes"/> for jobs with a specific name,
+	/// usually set when the handler is registered.
+	/// </summary>
+	public Dictionary<string, TimeSpan> JobTimeouts { get; set; } = [];
+
+	/// <summary>
+	/// Gets or sets the queues the worker consumes, with the weight of each queue.
+	/// Before every claim the queues are ordered at random, where a queue with a higher weight is more likely to be tried first,
+	/// so queues with a low weight are still consumed while busier queues have work. The worker consumes every queue when empty.
+	/// </summary>
+	public Dictionary<string, int> Queues { get; set; } = [];
+
+	/// <summary>
+	/// Gets or sets the concurrency and rate limits of jobs with a specific name, usually set when the handler is registered.
+	/// The limits hold across every worker sharing a Redis job store, and per worker with other stores.
+	/// </summary>
+	public Dictionary<string, AsyncEndpointsJobLimits> JobLimits { get; set; } = [];
+
+	/// <summary>
+	/// Gets or sets the maximum number of jobs claimed from the store in a single operation, capped by the free capacity of the job queue.
 	/// </summary>
 	public int BatchSize { get; set; } = AsyncEndpointsConstants.DefaultBatchSize;
 
@@ -40,8 +62,73 @@ public sealed class AsyncEndpointsWorkerConfigurations
 	/// </summary>
 	public int MaximumQueueSize { get; set; } = AsyncEndpointsConstants.DefaultMaximumQueueSize;
 
+	/// <summary>
+	/// Gets or sets the minimum interval in milliseconds between two progress writes of the same job.
+	/// Progress reported more often is coalesced, and only the latest report is stored.
+	/// </summary>
+	public int ProgressUpdateIntervalMs { get; set; } = AsyncEndpointsConstants.DefaultProgressUpdateIntervalMs;
+
+	/// <summary>
+	/// Gets or sets the time in seconds the handlers in flight are given to finish when the worker stops.
+	/// Handlers still running afterwards are canceled and their jobs are released back to the queue without counting a retry.
+	/// Should be below the shutdown timeout of the host, so the jobs are released before the host stops.
+	/// </summary>
+	public int ShutdownTimeoutSeconds { get; set; } = AsyncEndpointsConstants.DefaultShutdownTimeoutSeconds;
+
 	/// <summary>
 	/// Gets or sets the configurations for job recovery functionality.
 	/// </summary>
 	public AsyncEndpointsRecoveryConfigurations RecoveryConfigurations { get; set; } = new AsyncEndpointsRecoveryConfigurations();
+
+	/// <summary>
+	/// Gets the execution timeout of jobs with the specified name.
+	/// </summary>
+	/// <param name="jobName">The name of the job.</param>
+	/// <returns>The execution timeout, or null if jobs with the name may run indefinitely.</returns>
+	public TimeSpan? GetJobTimeout(string jobName)
+	{
+		if (JobTimeouts.TryGetValue(jobName, out var jobTimeout))
+			return jobTimeout > TimeSpan.Zero ? jobTimeout : null;
+
+		return JobTimeoutMinutes > 0 ? TimeSpan.FromMinutes(JobTimeoutMinutes) : null;
+	}
+
+	/// <summary>
+	/// Gets the concurrency and rate limits of jobs with the specified name.
+	/// </summary>
+	/// <param name="jobName">The name of the job.</param>
+	/// <returns>The limits of the job name, or null if jobs with the name are not limited.</returns>
+	public AsyncEndpointsJobLimits? GetJobLimits(string jobName)
+	{
+		if (!JobLimits.TryGetValue(jobName, out var jobLimits))
+			return null;
+
+		return jobLimits.MaxConcurrency > 0 || jobLimits.RateLimitPermits > 0 ? jobLimits : null;
+	}
+
+	/// <summary>
+	/// Orders the consumed queues for a claim. Queues are picked one by one with a probability proportional to their weight.
+	/// </summary>
+	/// <param name="random">The source of the random picks.</param>
+	/// <returns>The names of the queues in the order they should be tried, or an empty list if the worker consumes every queue.</returns>
+	public List<string> GetQueueClaimOrder(Random random)
+	{
+		var remainingQueues = Queues.Select(x => (Name: x.Key, Weight: Math.Max(x.Value, 1))).ToList();
+		var claimOrder = new List<string>(remainingQueues.Count);
+		while (remainingQueues.Count > 0)
+		{
+			var pick = random.Next(remainingQueues.Sum(x => x.Weight));
+			var index = 0;
+			while (pick >= remainingQueues[index].Weight)
+			{
+				pick -= remainingQueues[index].Weight;
+				index++;
+			}
+
+			claimOrder.Add(remainingQueues[index].Name);
+			remainingQueues.RemoveAt(index);
+		}
+
+		return claimOrder;
+	}
 }
@@ -0,0 +1,22 @@
+namespace AsyncEndpoints.Configuration;
+
+/// <summary>
+/// Describes how the delay between retries of a failed job grows.
+/// </summary>
+public enum RetryBackoffType
+{
+	/// <summary>
+	/// Every retry waits the base delay.
+	/// </summary>
+	Fixed,
+
+	/// <summary>
+	/// The delay grows by the base delay with every retry.
+	/// </summary>
+	Linear,
+
+	/// <summary>
+	/// The delay doubles with every retry.
+	/// </summary>
+	Exponential
+}
@@ -1,7 +1,11 @@
 using AsyncEndpoints.Configuration;
+using AsyncEndpoints.JobProcessing;
+using AsyncEndpoints.Utilities;
 using Microsoft.AspNetCore.Http;
 using System;
 using System.Collections.Generic;
+using System.Globalization;
+using System.Security.Claims;
 
 namespace AsyncEndpoints.Extensions;
 
@@ -31,6 +35,113 @@ public static class HttpContextExtensions
 		return jobIdGuid;
 	}
 
+	/// <summary>
+	/// Gets the completion callback URL for the job from the request headers or, if not present, from the endpoint metadata.
+	/// The callback URL is read from the header specified by AsyncEndpointsConstants.CallbackUrlHeaderName.
+	/// </summary>
+	/// <param name="httpContext">The HTTP context containing the request information.</param>
+	/// <returns>The callback URL if one was supplied, otherwise null.</returns>
+	public static string? GetCallbackUrl(this HttpContext httpContext)
+	{
+		if (httpContext.Request.Headers.TryGetValue(AsyncEndpointsConstants.CallbackUrlHeaderName, out var callbackUrlHeaderValue)
+			&& !string.IsNullOrWhiteSpace(callbackUrlHeaderValue))
+		{
+			return callbackUrlHeaderValue.ToString();
+		}
+
+		return httpContext.GetEndpoint()?.Metadata.GetMetadata<JobCallbackMetadata>()?.Url;
+	}
+
+	/// <summary>
+	/// Tries to get the time the job should run at from the request headers.
+	/// The time is read from the header specified by AsyncEndpointsConstants.RunAtHeaderName as an ISO 8601 timestamp,
+	/// or calculated from the delay in the header specified by AsyncEndpointsConstants.DelayHeaderName, such as "30s" or "5m".
+	/// </summary>
+	/// <param name="httpContext">The HTTP context containing the request information.</param>
+	/// <param name="now">The current time the delay is added to.</param>
+	/// <param name="runAt">The time the job should run at, or null if the job should run immediately.</param>
+	/// <returns>False if a header has an invalid value or both headers are present, otherwise true.</returns>
+	public static bool TryGetRunAt(this HttpContext httpContext, DateTimeOffset now, out DateTimeOffset? runAt)
+	{
+		runAt = null;
+
+		var headers = httpContext.Request.Headers;
+		var hasRunAt = headers.TryGetValue(AsyncEndpointsConstants.RunAtHeaderName, out var runAtHeaderValue) && !string.IsNullOrWhiteSpace(runAtHeaderValue);
+		var hasDelay = headers.TryGetValue(AsyncEndpointsConstants.DelayHeaderName, out var delayHeaderValue) && !string.IsNullOrWhiteSpace(delayHeaderValue);
+
+		if (hasRunAt && hasDelay)
+			return false;
+
+		if (hasRunAt)
+		{
+			if (!DateTimeOffset.TryParse(runAtHeaderValue.ToString(), CultureInfo.InvariantCulture, DateTimeStyles.AssumeUniversal, out var parsedRunAt))
+				return false;
+
+			runAt = parsedRunAt;
+		}
+		else if (hasDelay)
+		{
+			if (!WaitDurationParser.TryParse(delayHeaderValue.ToString(), out var delay))
+				return false;
+
+			runAt = now.Add(delay);
+		}
+
+		return true;
+	}
+
+	/// <summary>
+	/// Tries to get the priority of the job from the request headers or, if not present, from the endpoint metadata.
+	/// The priority is read from the header specified by AsyncEndpointsConstants.PriorityHeaderName as an integer.
+	/// </summary>
+	/// <param name="httpContext">The HTTP context containing the request information.</param>
+	/// <param name="priority">The priority of the job, or 0 if no priority was supplied.</param>
+	/// <returns>False if the header has an invalid value, otherwise true.</returns>
+	public static bool TryGetPriority(this HttpContext httpContext, out int priority)
+	{
+		if (httpContext.Request.Headers.TryGetValue(AsyncEndpointsConstants.PriorityHeaderName, out var priorityHeaderValue)
+			&& !string.IsNullOrWhiteSpace(priorityHeaderValue))
+		{
+			return int.TryParse(priorityHeaderValue.ToString(), NumberStyles.Integer, CultureInfo.InvariantCulture, out priority);
+		}
+
+		priority = httpContext.GetEndpoint()?.Metadata.GetMetadata<JobPriorityMetadata>()?.Priority ?? 0;
+		return true;
+	}
+
+	/// <summary>
+	/// Gets the idempotency key of the job from the request headers.
+	/// The key is read from the header specified by AsyncEndpointsConstants.IdempotencyKeyHeaderName.
+	/// </summary>
+	/// <param name="httpContext">The HTTP context containing the request information.</param>
+	/// <returns>The idempotency key if one was supplied, otherwise null.</returns>
+	public static string? GetIdempotencyKey(this HttpContext httpContext)
+	{
+		if (httpContext.Request.Headers.TryGetValue(AsyncEndpointsConstants.IdempotencyKeyHeaderName, out var idempotencyKeyHeaderValue))
+		{
+			return idempotencyKeyHeaderValue.ToString();
+		}
+
+		return null;
+	}
+
+	/// <summary>
+	/// Gets the identity of the authenticated caller, which idempotency keys are scoped to.
+	/// The identity is read from the name identifier claim or, if not present, from the name of the user.
+	/// </summary>
+	/// <param name="httpContext">The HTTP context containing the request information.</param>
+	/// <returns>The identity of the caller, or null for anonymous callers.</returns>
+	public static string? GetCaller(this HttpContext httpContext)
+	{
+		var user = httpContext.User;
+		if (user.Identity?.IsAuthenticated != true)
+		{
+			return null;
+		}
+
+		return user.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? user.Identity.Name;
+	}
+
 	/// <summary>
 	/// Extracts all headers from the HTTP request context into a dictionary.
 	/// The keys are case-insensitive.
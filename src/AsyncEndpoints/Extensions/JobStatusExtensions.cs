@@ -0,0 +1,19 @@
+using AsyncEndpoints.JobProcessing;
+
+namespace AsyncEndpoints.Extensions;
+
+/// <summary>
+/// Extension methods for working with job statuses.
+/// </summary>
+public static class JobStatusExtensions
+{
+	/// <summary>
+	/// Determines whether a job in the given status has finished and will not change status anymore.
+	/// </summary>
+	/// <param name="status">The status of the job.</param>
+	/// <returns>True if the status is Completed, Failed or Canceled, otherwise false.</returns>
+	public static bool IsFinished(this JobStatus status)
+	{
+		return status is JobStatus.Completed or JobStatus.Failed or JobStatus.Canceled;
+	}
+}
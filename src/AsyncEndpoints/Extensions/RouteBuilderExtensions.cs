@@ -2,11 +2,14 @@ using AsyncEndpoints.Configuration;
 using AsyncEndpoints.Handlers;
 using AsyncEndpoints.Infrastructure.Serialization;
 using AsyncEndpoints.JobProcessing;
+using AsyncEndpoints.Utilities;
 using Microsoft.AspNetCore.Builder;
 using Microsoft.AspNetCore.Http;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.AspNetCore.Routing;
+using Microsoft.Extensions.DependencyInjection;
 using System;
+using System.Collections.Generic;
 using System.Threading;
 using System.Threading.Tasks;
 
@@ -167,6 +170,7 @@ public static class RouteBuilderExtensions
 
 	/// <summary>
 	/// Maps an asynchronous GET endpoint that fetches job responses by job ID.
+	/// The optional wait query parameter (e.g. ?wait=30s) long-polls until the job changes or the wait time elapses.
 	/// </summary>
 	/// <param name="endpoints">The <see cref="IEndpointRouteBuilder"/> to add the route to.</param>
 	/// <param name="pattern">The URL pattern for the endpoint. Should contain a {jobId} parameter.</param>
@@ -174,10 +178,237 @@ public static class RouteBuilderExtensions
 	public static IEndpointConventionBuilder MapAsyncGetJobDetails(
 		this IEndpointRouteBuilder endpoints,
 		string pattern = "/jobs/{jobId:guid}") => endpoints
+			.MapGet(pattern, (HttpContext httpContext, [FromRoute] Guid jobId, [FromQuery] string? wait, [FromServices] IJobManager jobManager, [FromServices] IJobStatusWatcher jobStatusWatcher, [FromServices] AsyncEndpointsConfigurations asyncEndpointsConfigurations, CancellationToken cancellationToken) =>
+				HandleGetJobDetailsRequest(httpContext, jobId, wait, jobManager, jobStatusWatcher, asyncEndpointsConfigurations, cancellationToken))
+			.WithTags(AsyncEndpointsConstants.AsyncEndpointTag);
+
+	/// <summary>
+	/// Maps a Server-Sent Events endpoint that streams the changes of a job until it completes, fails or is canceled.
+	/// </summary>
+	/// <param name="endpoints">The <see cref="IEndpointRouteBuilder"/> to add the route to.</param>
+	/// <param name="pattern">The URL pattern for the endpoint. Should contain a {jobId} parameter.</param>
+	/// <returns>An <see cref="IEndpointConventionBuilder"/> that can be used to further configure the endpoint.</returns>
+	public static IEndpointConventionBuilder MapAsyncJobEvents(
+		this IEndpointRouteBuilder endpoints,
+		string pattern = "/jobs/{jobId:guid}/events") => endpoints
+			.MapGet(pattern, (HttpContext httpContext, [FromRoute] Guid jobId, [FromServices] IJobManager jobManager, [FromServices] IJobStatusWatcher jobStatusWatcher, [FromServices] AsyncEndpointsConfigurations asyncEndpointsConfigurations, CancellationToken cancellationToken) =>
+				HandleJobEventsRequest(httpContext, jobId, jobManager, jobStatusWatcher, asyncEndpointsConfigurations, cancellationToken))
+			.WithTags(AsyncEndpointsConstants.AsyncEndpointTag);
+
+	/// <summary>
+	/// Maps an endpoint that streams the result of a completed job with its content type, including results too large to be part of the job details.
+	/// </summary>
+	/// <param name="endpoints">The <see cref="IEndpointRouteBuilder"/> to add the route to.</param>
+	/// <param name="pattern">The URL pattern for the endpoint. Should contain a {jobId} parameter.</param>
+	/// <returns>An <see cref="IEndpointConventionBuilder"/> that can be used to further configure the endpoint.</returns>
+	public static IEndpointConventionBuilder MapAsyncGetJobResult(
+		this IEndpointRouteBuilder endpoints,
+		string pattern = "/jobs/{jobId:guid}/result") => endpoints
 			.MapGet(pattern, (HttpContext httpContext, [FromRoute] Guid jobId, [FromServices] IJobManager jobManager, [FromServices] AsyncEndpointsConfigurations asyncEndpointsConfigurations, CancellationToken cancellationToken) =>
-				HandleGetJobDetailsRequest(httpContext, jobId, jobManager, asyncEndpointsConfigurations, cancellationToken))
+				HandleGetJobResultRequest(httpContext, jobId, jobManager, asyncEndpointsConfigurations, cancellationToken))
+			.WithTags(AsyncEndpointsConstants.AsyncEndpointTag);
+
+	/// <summary>
+	/// Maps an endpoint that returns the attempts made at processing a job, oldest first, with their worker, timing, outcome and error.
+	/// </summary>
+	/// <param name="endpoints">The <see cref="IEndpointRouteBuilder"/> to add the route to.</param>
+	/// <param name="pattern">The URL pattern for the endpoint. Should contain a {jobId} parameter.</param>
+	/// <returns>An <see cref="IEndpointConventionBuilder"/> that can be used to further configure the endpoint.</returns>
+	public static IEndpointConventionBuilder MapAsyncGetJobRuns(
+		this IEndpointRouteBuilder endpoints,
+		string pattern = "/jobs/{jobId:guid}/runs") => endpoints
+			.MapGet(pattern, (HttpContext httpContext, [FromRoute] Guid jobId, [FromServices] IJobManager jobManager, [FromServices] AsyncEndpointsConfigurations asyncEndpointsConfigurations, CancellationToken cancellationToken) =>
+				HandleGetJobRunsRequest(httpContext, jobId, jobManager, asyncEndpointsConfigurations, cancellationToken))
+			.WithTags(AsyncEndpointsConstants.AsyncEndpointTag);
+
+	/// <summary>
+	/// Maps an endpoint that lists jobs, newest first, with optional filters and cursor-based paging.
+	/// Supported query parameters are name, status, createdFrom, createdTo, completedFrom, completedTo, workerId, pageSize and cursor.
+	/// </summary>
+	/// <param name="endpoints">The <see cref="IEndpointRouteBuilder"/> to add the route to.</param>
+	/// <param name="pattern">The URL pattern for the endpoint.</param>
+	/// <returns>An <see cref="IEndpointConventionBuilder"/> that can be used to further configure the endpoint.</returns>
+	public static IEndpointConventionBuilder MapAsyncListJobs(
+		this IEndpointRouteBuilder endpoints,
+		string pattern = "/jobs") => endpoints
+			.MapGet(pattern, (HttpContext httpContext,
+				[FromQuery] string? name,
+				[FromQuery] JobStatus? status,
+				[FromQuery] DateTimeOffset? createdFrom,
+				[FromQuery] DateTimeOffset? createdTo,
+				[FromQuery] DateTimeOffset? completedFrom,
+				[FromQuery] DateTimeOffset? completedTo,
+				[FromQuery] Guid? workerId,
+				[FromQuery] int? pageSize,
+				[FromQuery] string? cursor,
+				[FromServices] IJobManager jobManager,
+				[FromServices] AsyncEndpointsConfigurations asyncEndpointsConfigurations,
+				CancellationToken cancellationToken) =>
+			{
+				var query = new JobQuery
+				{
+					Name = name,
+					Status = status,
+					CreatedFrom = createdFrom,
+					CreatedTo = createdTo,
+					CompletedFrom = completedFrom,
+					CompletedTo = completedTo,
+					WorkerId = workerId,
+					PageSize = pageSize ?? AsyncEndpointsConstants.DefaultJobQueryPageSize,
+					Cursor = cursor
+				};
+
+				return HandleListJobsRequest(httpContext, query, jobManager, asyncEndpointsConfigurations, cancellationToken);
+			})
+			.WithTags(AsyncEndpointsConstants.AsyncEndpointTag);
+
+	/// <summary>
+	/// Maps an endpoint that lists the recurring jobs registered with AddAsyncEndpointsRecurringJob, with their next and last occurrences.
+	/// </summary>
+	/// <param name="endpoints">The <see cref="IEndpointRouteBuilder"/> to add the route to.</param>
+	/// <param name="pattern">The URL pattern for the endpoint.</param>
+	/// <returns>An <see cref="IEndpointConventionBuilder"/> that can be used to further configure the endpoint.</returns>
+	public static IEndpointConventionBuilder MapAsyncRecurringJobs(
+		this IEndpointRouteBuilder endpoints,
+		string pattern = "/jobs/recurring") => endpoints
+			.MapGet(pattern, (HttpContext httpContext, [FromServices] IJobManager jobManager, [FromServices] AsyncEndpointsConfigurations asyncEndpointsConfigurations, CancellationToken cancellationToken) =>
+				HandleListRecurringJobsRequest(httpContext, jobManager, asyncEndpointsConfigurations, cancellationToken))
+			.WithTags(AsyncEndpointsConstants.AsyncEndpointTag);
+
+	/// <summary>
+	/// Maps an endpoint that lists the live workers sharing the job store, with their concurrency, the queues they consume and the jobs they hold.
+	/// Workers whose last heartbeat has expired are considered dead and are not listed.
+	/// </summary>
+	/// <param name="endpoints">The <see cref="IEndpointRouteBuilder"/> to add the route to.</param>
+	/// <param name="pattern">The URL pattern for the endpoint.</param>
+	/// <returns>An <see cref="IEndpointConventionBuilder"/> that can be used to further configure the endpoint.</returns>
+	public static IEndpointConventionBuilder MapAsyncListWorkers(
+		this IEndpointRouteBuilder endpoints,
+		string pattern = "/workers") => endpoints
+			.MapGet(pattern, (HttpContext httpContext, [FromServices] IJobManager jobManager, [FromServices] AsyncEndpointsConfigurations asyncEndpointsConfigurations, CancellationToken cancellationToken) =>
+				HandleListWorkersRequest(httpContext, jobManager, asyncEndpointsConfigurations, cancellationToken))
+			.WithTags(AsyncEndpointsConstants.AsyncEndpointTag);
+
+	/// <summary>
+	/// Maps an endpoint that returns the job counts per status and per job name, the age of the oldest queued job and the number of scheduled retries.
+	/// The stats are computed from the job store on every request.
+	/// </summary>
+	/// <param name="endpoints">The <see cref="IEndpointRouteBuilder"/> to add the route to.</param>
+	/// <param name="pattern">The URL pattern for the endpoint.</param>
+	/// <returns>An <see cref="IEndpointConventionBuilder"/> that can be used to further configure the endpoint.</returns>
+	public static IEndpointConventionBuilder MapAsyncJobStats(
+		this IEndpointRouteBuilder endpoints,
+		string pattern = "/jobs/stats") => endpoints
+			.MapGet(pattern, (HttpContext httpContext, [FromServices] IJobManager jobManager, [FromServices] AsyncEndpointsConfigurations asyncEndpointsConfigurations, CancellationToken cancellationToken) =>
+				HandleJobStatsRequest(httpContext, jobManager, asyncEndpointsConfigurations, cancellationToken))
 			.WithTags(AsyncEndpointsConstants.AsyncEndpointTag);
 
+	/// <summary>
+	/// Maps an endpoint that cancels a queued, scheduled or in-progress job by its ID.
+	/// If the job is being processed, the worker running it is signaled to stop the handler.
+	/// </summary>
+	/// <param name="endpoints">The <see cref="IEndpointRouteBuilder"/> to add the route to.</param>
+	/// <param name="pattern">The URL pattern for the endpoint. Should contain a {jobId} parameter.</param>
+	/// <returns>An <see cref="IEndpointConventionBuilder"/> that can be used to further configure the endpoint.</returns>
+	public static IEndpointConventionBuilder MapAsyncCancelJob(
+		this IEndpointRouteBuilder endpoints,
+		string pattern = "/jobs/{jobId:guid}") => endpoints
+			.MapDelete(pattern, (HttpContext httpContext, [FromRoute] Guid jobId, [FromServices] IJobManager jobManager, [FromServices] AsyncEndpointsConfigurations asyncEndpointsConfigurations, CancellationToken cancellationToken) =>
+				HandleCancelJobRequest(httpContext, jobId, jobManager, asyncEndpointsConfigurations, cancellationToken))
+			.WithTags(AsyncEndpointsConstants.AsyncEndpointTag);
+
+	/// <summary>
+	/// Maps an administrative endpoint that deletes a job by its ID, regardless of its status.
+	/// Deleting a queued or in-progress job does not stop a worker that already claimed it.
+	/// </summary>
+	/// <param name="endpoints">The <see cref="IEndpointRouteBuilder"/> to add the route to.</param>
+	/// <param name="pattern">The URL pattern for the endpoint. Should contain a {jobId} parameter.</param>
+	/// <returns>An <see cref="IEndpointConventionBuilder"/> that can be used to further configure the endpoint.</returns>
+	public static IEndpointConventionBuilder MapAsyncDeleteJob(
+		this IEndpointRouteBuilder endpoints,
+		string pattern = "/admin/jobs/{jobId:guid}") => endpoints
+			.MapDelete(pattern, (HttpContext httpContext, [FromRoute] Guid jobId, [FromServices] IJobManager jobManager, [FromServices] AsyncEndpointsConfigurations asyncEndpointsConfigurations, CancellationToken cancellationToken) =>
+				HandleDeleteJobRequest(httpContext, jobId, jobManager, asyncEndpointsConfigurations, cancellationToken))
+			.WithTags(AsyncEndpointsConstants.AsyncEndpointTag);
+
+	/// <summary>
+	/// Maps an administrative endpoint that lists the dead-letter jobs of a job name, which are the jobs that failed permanently.
+	/// Jobs are returned newest first. Supported query parameters are pageSize and cursor.
+	/// </summary>
+	/// <param name="endpoints">The <see cref="IEndpointRouteBuilder"/> to add the route to.</param>
+	/// <param name="pattern">The URL pattern for the endpoint. Should contain a {jobName} parameter.</param>
+	/// <returns>An <see cref="IEndpointConventionBuilder"/> that can be used to further configure the endpoint.</returns>
+	public static IEndpointConventionBuilder MapAsyncDeadLetterJobs(
+		this IEndpointRouteBuilder endpoints,
+		string pattern = "/admin/jobs/dead-letter/{jobName}") => endpoints
+			.MapGet(pattern, (HttpContext httpContext,
+				[FromRoute] string jobName,
+				[FromQuery] int? pageSize,
+				[FromQuery] string? cursor,
+				[FromServices] IJobManager jobManager,
+				[FromServices] AsyncEndpointsConfigurations asyncEndpointsConfigurations,
+				CancellationToken cancellationToken) =>
+			{
+				var query = new JobQuery
+				{
+					Name = jobName,
+					Status = JobStatus.Failed,
+					PageSize = pageSize ?? AsyncEndpointsConstants.DefaultJobQueryPageSize,
+					Cursor = cursor
+				};
+
+				return HandleListJobsRequest(httpContext, query, jobManager, asyncEndpointsConfigurations, cancellationToken);
+			})
+			.WithTags(AsyncEndpointsConstants.AsyncEndpointTag);
+
+	/// <summary>
+	/// Maps an administrative endpoint that moves a failed job back to the queue.
+	/// The optional resetRetries query parameter (e.g. ?resetRetries=true) gives the job its full number of retries again.
+	/// </summary>
+	/// <param name="endpoints">The <see cref="IEndpointRouteBuilder"/> to add the route to.</param>
+	/// <param name="pattern">The URL pattern for the endpoint. Should contain a {jobId} parameter.</param>
+	/// <returns>An <see cref="IEndpointConventionBuilder"/> that can be used to further configure the endpoint.</returns>
+	public static IEndpointConventionBuilder MapAsyncRequeueJob(
+		this IEndpointRouteBuilder endpoints,
+		string pattern = "/admin/jobs/{jobId:guid}/requeue") => endpoints
+			.MapPost(pattern, (HttpContext httpContext, [FromRoute] Guid jobId, [FromQuery] bool? resetRetries, [FromServices] IJobManager jobManager, [FromServices] AsyncEndpointsConfigurations asyncEndpointsConfigurations, CancellationToken cancellationToken) =>
+				HandleRequeueJobRequest(httpContext, jobId, resetRetries ?? false, jobManager, asyncEndpointsConfigurations, cancellationToken))
+			.WithTags(AsyncEndpointsConstants.AsyncEndpointTag);
+
+	/// <summary>
+	/// Maps an administrative endpoint that moves all failed jobs of a job name back to the queue.
+	/// The optional resetRetries query parameter (e.g. ?resetRetries=true) gives the jobs their full number of retries again.
+	/// </summary>
+	/// <param name="endpoints">The <see cref="IEndpointRouteBuilder"/> to add the route to.</param>
+	/// <param name="pattern">The URL pattern for the endpoint. Should contain a {jobName} parameter.</param>
+	/// <returns>An <see cref="IEndpointConventionBuilder"/> that can be used to further configure the endpoint.</returns>
+	public static IEndpointConventionBuilder MapAsyncRequeueFailedJobs(
+		this IEndpointRouteBuilder endpoints,
+		string pattern = "/admin/jobs/dead-letter/{jobName}/requeue") => endpoints
+			.MapPost(pattern, (HttpContext httpContext, [FromRoute] string jobName, [FromQuery] bool? resetRetries, [FromServices] IJobManager jobManager, [FromServices] AsyncEndpointsConfigurations asyncEndpointsConfigurations, CancellationToken cancellationToken) =>
+				HandleRequeueFailedJobsRequest(httpContext, jobName, resetRetries ?? false, jobManager, asyncEndpointsConfigurations, cancellationToken))
+			.WithTags(AsyncEndpointsConstants.AsyncEndpointTag);
+
+	/// <summary>
+	/// Configures a completion callback URL for jobs submitted through the async endpoint.
+	/// A callback URL supplied in the request header specified by AsyncEndpointsConstants.CallbackUrlHeaderName takes precedence.
+	/// </summary>
+	/// <param name="builder">The <see cref="IEndpointConventionBuilder"/> of the async endpoint.</param>
+	/// <param name="callbackUrl">The URL the job response is posted to once the job finishes.</param>
+	/// <returns>The <see cref="IEndpointConventionBuilder"/> for method chaining.</returns>
+	public static IEndpointConventionBuilder WithJobCallback(this IEndpointConventionBuilder builder, string callbackUrl) => builder
+		.WithMetadata(new JobCallbackMetadata(callbackUrl));
+
+	/// <summary>
+	/// Configures the priority of jobs submitted through the async endpoint. Jobs with a higher priority are claimed first.
+	/// A priority supplied in the request header specified by AsyncEndpointsConstants.PriorityHeaderName takes precedence.
+	/// </summary>
+	/// <param name="builder">The <see cref="IEndpointConventionBuilder"/> of the async endpoint.</param>
+	/// <param name="priority">The priority of the jobs.</param>
+	/// <returns>The <see cref="IEndpointConventionBuilder"/> for method chaining.</returns>
+	public static IEndpointConventionBuilder WithJobPriority(this IEndpointConventionBuilder builder, int priority) => builder
+		.WithMetadata(new JobPriorityMetadata(priority));
+
 	private static async Task<IResult> HandleRequestWithBody<TRequest>(string jobName, Func<HttpContext, TRequest, CancellationToken, Task<IResult?>?>? handler, HttpContext httpContext, IJsonBodyParserService jsonBodyParserService, IAsyncEndpointRequestDelegate asyncEndpointRequestDelegate, AsyncEndpointsConfigurations asyncEndpointsConfigurations, CancellationToken cancellationToken)
 	{
 		try
@@ -208,12 +439,211 @@ public static class RouteBuilderExtensions
 		}
 	}
 
-	private static async Task<IResult> HandleGetJobDetailsRequest(HttpContext httpContext, Guid jobId, IJobManager jobManager, AsyncEndpointsConfigurations asyncEndpointsConfigurations, CancellationToken cancellationToken)
+	private static async Task<IResult> HandleGetJobDetailsRequest(HttpContext httpContext, Guid jobId, string? wait, IJobManager jobManager, IJobStatusWatcher jobStatusWatcher, AsyncEndpointsConfigurations asyncEndpointsConfigurations, CancellationToken cancellationToken)
 	{
+		try
+		{
+			if (!WaitDurationParser.TryParse(wait, out var waitDuration))
+			{
+				return Results.Problem(
+					detail: $"Invalid wait duration '{wait}'. Use values such as 30s, 500ms or 1m.",
+					title: "Invalid Wait Duration",
+					statusCode: 400);
+			}
+
+			if (waitDuration <= TimeSpan.Zero)
+			{
+				var result = await jobManager.GetJobById(jobId, cancellationToken);
+				return await asyncEndpointsConfigurations.ResponseConfigurations.JobStatusResponseFactory(result, httpContext);
+			}
+
+			// Watch before reading the job so a change in between is not missed
+			using var subscription = jobStatusWatcher.Watch(jobId);
+			var jobResult = await jobManager.GetJobById(jobId, cancellationToken);
+			if (jobResult.IsSuccess && jobResult.DataOrNull != null && !jobResult.Data.Status.IsFinished())
+			{
+				var maximumWait = TimeSpan.FromSeconds(AsyncEndpointsConstants.MaximumJobStatusWaitSeconds);
+				if (await subscription.WaitForChange(waitDuration < maximumWait ? waitDuration : maximumWait, cancellationToken) != null)
+				{
+					jobResult = await jobManager.GetJobById(jobId, cancellationToken);
+				}
+			}
+
+			return await asyncEndpointsConfigurations.ResponseConfigurations.JobStatusResponseFactory(jobResult, httpContext);
+		}
+		catch (Exception ex)
+		{
+			return await asyncEndpointsConfigurations.ResponseConfigurations.ExceptionResponseFactory(ex, httpContext);
+		}
+	}
+
+	private static async Task<IResult> HandleGetJobResultRequest(HttpContext httpContext, Guid jobId, IJobManager jobManager, AsyncEndpointsConfigurations asyncEndpointsConfigurations, CancellationToken cancellationToken)
+	{
+		try
+		{
+			var result = await jobManager.GetJobResult(jobId, cancellationToken);
+			return await asyncEndpointsConfigurations.ResponseConfigurations.JobResultResponseFactory(result, httpContext);
+		}
+		catch (Exception ex)
+		{
+			return await asyncEndpointsConfigurations.ResponseConfigurations.ExceptionResponseFactory(ex, httpContext);
+		}
+	}
+
+	private static async Task<IResult> HandleGetJobRunsRequest(HttpContext httpContext, Guid jobId, IJobManager jobManager, AsyncEndpointsConfigurations asyncEndpointsConfigurations, CancellationToken cancellationToken)
+	{
+		try
+		{
+			var result = await jobManager.GetJobById(jobId, cancellationToken);
+			return await asyncEndpointsConfigurations.ResponseConfigurations.JobRunsResponseFactory(result, httpContext);
+		}
+		catch (Exception ex)
+		{
+			return await asyncEndpointsConfigurations.ResponseConfigurations.ExceptionResponseFactory(ex, httpContext);
+		}
+	}
+
+	private static async Task<IResult> HandleJobEventsRequest(HttpContext httpContext, Guid jobId, IJobManager jobManager, IJobStatusWatcher jobStatusWatcher, AsyncEndpointsConfigurations asyncEndpointsConfigurations, CancellationToken cancellationToken)
+	{
+		// Watch before reading the job so a change in between is not missed
+		var subscription = jobStatusWatcher.Watch(jobId);
 		try
 		{
 			var result = await jobManager.GetJobById(jobId, cancellationToken);
-			return await asyncEndpointsConfigurations.ResponseConfigurations.JobStatusResponseFactory(result, httpContext);
+			if (!result.IsSuccess || result.DataOrNull == null)
+			{
+				subscription.Dispose();
+				return await asyncEndpointsConfigurations.ResponseConfigurations.JobStatusResponseFactory(result, httpContext);
+			}
+
+			return new JobEventStreamResponse(result.Data, subscription);
+		}
+		catch (Exception ex)
+		{
+			subscription.Dispose();
+			return await asyncEndpointsConfigurations.ResponseConfigurations.ExceptionResponseFactory(ex, httpContext);
+		}
+	}
+
+	private static async Task<IResult> HandleCancelJobRequest(HttpContext httpContext, Guid jobId, IJobManager jobManager, AsyncEndpointsConfigurations asyncEndpointsConfigurations, CancellationToken cancellationToken)
+	{
+		try
+		{
+			var result = await jobManager.CancelJob(jobId, cancellationToken);
+			return await asyncEndpointsConfigurations.ResponseConfigurations.JobCancellationResponseFactory(result, httpContext);
+		}
+		catch (Exception ex)
+		{
+			return await asyncEndpointsConfigurations.ResponseConfigurations.ExceptionResponseFactory(ex, httpContext);
+		}
+	}
+
+	private static async Task<IResult> HandleDeleteJobRequest(HttpContext httpContext, Guid jobId, IJobManager jobManager, AsyncEndpointsConfigurations asyncEndpointsConfigurations, CancellationToken cancellationToken)
+	{
+		try
+		{
+			var result = await jobManager.DeleteJob(jobId, cancellationToken);
+			return await asyncEndpointsConfigurations.ResponseConfigurations.JobDeletionResponseFactory(result, httpContext);
+		}
+		catch (Exception ex)
+		{
+			return await asyncEndpointsConfigurations.ResponseConfigurations.ExceptionResponseFactory(ex, httpContext);
+		}
+	}
+
+	private static async Task<IResult> HandleRequeueJobRequest(HttpContext httpContext, Guid jobId, bool resetRetries, IJobManager jobManager, AsyncEndpointsConfigurations asyncEndpointsConfigurations, CancellationToken cancellationToken)
+	{
+		try
+		{
+			var result = await jobManager.RequeueJob(jobId, resetRetries, cancellationToken);
+			return await asyncEndpointsConfigurations.ResponseConfigurations.JobRequeueResponseFactory(result, httpContext);
+		}
+		catch (Exception ex)
+		{
+			return await asyncEndpointsConfigurations.ResponseConfigurations.ExceptionResponseFactory(ex, httpContext);
+		}
+	}
+
+	private static async Task<IResult> HandleRequeueFailedJobsRequest(HttpContext httpContext, string jobName, bool resetRetries, IJobManager jobManager, AsyncEndpointsConfigurations asyncEndpointsConfigurations, CancellationToken cancellationToken)
+	{
+		try
+		{
+			var result = await jobManager.RequeueFailedJobs(jobName, resetRetries, cancellationToken);
+			return await asyncEndpointsConfigurations.ResponseConfigurations.FailedJobsRequeueResponseFactory(jobName, result, httpContext);
+		}
+		catch (Exception ex)
+		{
+			return await asyncEndpointsConfigurations.ResponseConfigurations.ExceptionResponseFactory(ex, httpContext);
+		}
+	}
+
+	private static async Task<IResult> HandleListJobsRequest(HttpContext httpContext, JobQuery query, IJobManager jobManager, AsyncEndpointsConfigurations asyncEndpointsConfigurations, CancellationToken cancellationToken)
+	{
+		try
+		{
+			var result = await jobManager.QueryJobs(query, cancellationToken);
+			return await asyncEndpointsConfigurations.ResponseConfigurations.JobListResponseFactory(result, httpContext);
+		}
+		catch (Exception ex)
+		{
+			return await asyncEndpointsConfigurations.ResponseConfigurations.ExceptionResponseFactory(ex, httpContext);
+		}
+	}
+
+	private static async Task<IResult> HandleListRecurringJobsRequest(HttpContext httpContext, IJobManager jobManager, AsyncEndpointsConfigurations asyncEndpointsConfigurations, CancellationToken cancellationToken)
+	{
+		try
+		{
+			// The registry is only registered once a recurring job is added
+			var recurringJobRegistry = httpContext.RequestServices.GetService<IRecurringJobRegistry>();
+			var response = new List<RecurringJobResponse>();
+			foreach (var state in recurringJobRegistry?.GetStates() ?? [])
+			{
+				string? lastJobStatus = null;
+				if (state.LastJobId.HasValue)
+				{
+					var lastJob = await jobManager.GetJobById(state.LastJobId.Value, cancellationToken);
+					lastJobStatus = lastJob.DataOrNull?.Status.ToString();
+				}
+
+				response.Add(new RecurringJobResponse
+				{
+					Name = state.Name,
+					CronExpression = state.CronExpression,
+					NextRunAt = state.NextRunAt,
+					LastRunAt = state.LastRunAt,
+					LastJobId = state.LastJobId,
+					LastJobStatus = lastJobStatus
+				});
+			}
+
+			return Results.Ok(response);
+		}
+		catch (Exception ex)
+		{
+			return await asyncEndpointsConfigurations.ResponseConfigurations.ExceptionResponseFactory(ex, httpContext);
+		}
+	}
+
+	private static async Task<IResult> HandleListWorkersRequest(HttpContext httpContext, IJobManager jobManager, AsyncEndpointsConfigurations asyncEndpointsConfigurations, CancellationToken cancellationToken)
+	{
+		try
+		{
+			var result = await jobManager.GetWorkers(cancellationToken);
+			return await asyncEndpointsConfigurations.ResponseConfigurations.WorkerListResponseFactory(result, httpContext);
+		}
+		catch (Exception ex)
+		{
+			return await asyncEndpointsConfigurations.ResponseConfigurations.ExceptionResponseFactory(ex, httpContext);
+		}
+	}
+
+	private static async Task<IResult> HandleJobStatsRequest(HttpContext httpContext, IJobManager jobManager, AsyncEndpointsConfigurations asyncEndpointsConfigurations, CancellationToken cancellationToken)
+	{
+		try
+		{
+			var result = await jobManager.GetJobStats(cancellationToken);
+			return await asyncEndpointsConfigurations.ResponseConfigurations.JobStatsResponseFactory(result, httpContext);
 		}
 		catch (Exception ex)
 		{
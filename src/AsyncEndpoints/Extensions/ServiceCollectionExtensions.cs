@@ -2,13 +2,19 @@ using AsyncEndpoints.Background;
 using AsyncEndpoints.Configuration;
 using AsyncEndpoints.Handlers;
 using AsyncEndpoints.Infrastructure;
+using AsyncEndpoints.Infrastructure.Blobs;
+using AsyncEndpoints.Infrastructure.Callbacks;
 using AsyncEndpoints.Infrastructure.Observability;
 using AsyncEndpoints.Infrastructure.Serialization;
 using AsyncEndpoints.JobProcessing;
 using AsyncEndpoints.Utilities;
 using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.DependencyInjection.Extensions;
+using Microsoft.Extensions.Hosting;
+using Microsoft.Extensions.Logging;
 using System;
 using System.Diagnostics.CodeAnalysis;
+using System.Linq;
 using System.Text.Json.Serialization.Metadata;
 
 namespace AsyncEndpoints.Extensions;
@@ -34,11 +40,18 @@ public static class ServiceCollectionExtensions
 		services.AddHttpContextAccessor();
 		services.AddSingleton<AsyncEndpointsConfigurations>();
 		services.AddScoped<IJobManager, JobManager>();
+		services.AddScoped<IJobClient, JobClient>();
 		services.AddScoped<IAsyncEndpointRequestDelegate, AsyncEndpointRequestDelegate>();
 		services.AddScoped<IJsonBodyParserService, JsonBodyParserService>();
 		services.AddSingleton<IDateTimeProvider, DateTimeProvider>();
 		services.AddSingleton<ISerializer, Serializer>();
 		services.AddSingleton<IAsyncEndpointsObservability, AsyncEndpointsObservability>();
+		services.TryAddSingleton<IJobCancellationNotifier, InMemoryJobCancellationNotifier>();
+		services.TryAddSingleton<IJobLimiter, InMemoryJobLimiter>();
+		services.TryAddSingleton<IJobCallbackQueue, JobCallbackQueue>();
+		services.TryAddSingleton<IJobStatusNotifier, InMemoryJobStatusNotifier>();
+		services.AddSingleton<IJobStatusWatcher, JobStatusWatcher>();
+		services.AddHostedService<JobStatusListenerService>();
 		services.AddAsyncEndpointsJsonTypeInfoResolver(AsyncEndpointsJsonSerializationContext.Default);
 
 		return services;
@@ -58,6 +71,25 @@ public static class ServiceCollectionExtensions
 		return services;
 	}
 
+	/// <summary>
+	/// Adds a blob store that keeps job payloads and results larger than the offload threshold as files in a directory,
+	/// instead of in the job store. Instances processing the same jobs must share the directory.
+	/// </summary>
+	/// <param name="services">The <see cref="IServiceCollection"/> to add services to.</param>
+	/// <param name="rootPath">The directory the payloads and results are stored in. It is created if it does not exist.</param>
+	/// <returns>The <see cref="IServiceCollection"/> for method chaining.</returns>
+	public static IServiceCollection AddAsyncEndpointsFileSystemBlobStore(this IServiceCollection services, string rootPath)
+	{
+		ArgumentException.ThrowIfNullOrWhiteSpace(rootPath);
+
+		services.AddSingleton<IJobBlobStore>(serviceProvider => new FileSystemJobBlobStore(
+			rootPath,
+			serviceProvider.GetRequiredService<ILogger<FileSystemJobBlobStore>>(),
+			serviceProvider.GetRequiredService<IDateTimeProvider>()));
+
+		return services;
+	}
+
 	/// <summary>
 	/// Adds a JSON type information resolver to handle serialization/deserialization of AsyncEndpoints types.
 	/// </summary>
@@ -76,10 +108,10 @@ public static class ServiceCollectionExtensions
 
 	/// <summary>
 	/// Adds the background worker services required to process async jobs.
-	/// This includes job consumers, producers, processors, and the hosted background service.
+	/// This includes job consumers, producers, processors, the worker heartbeat, and the hosted background service.
 	/// </summary>
 	/// <param name="services">The <see cref="IServiceCollection"/> to add services to.</param>
-	/// <param name="recoveryConfigurations">Optional configurations for distributed job recovery.</param>
+	/// <param name="recoveryConfigurations">Optional configurations for worker heartbeats, job leases and distributed job recovery.</param>
 	/// <returns>The <see cref="IServiceCollection"/> for method chaining.</returns>
 	public static IServiceCollection AddAsyncEndpointsWorker(this IServiceCollection services,
 		Action<AsyncEndpointsRecoveryConfigurations>? recoveryConfigurations = null)
@@ -99,9 +131,22 @@ public static class ServiceCollectionExtensions
 		services.AddTransient<IJobClaimingService, JobClaimingService>();
 		services.AddTransient<IHandlerExecutionService, HandlerExecutionService>();
 		services.AddTransient<IDelayCalculatorService, DelayCalculatorService>();
+		services.AddSingleton<IJobCancellationRegistry, JobCancellationRegistry>();
+		services.AddSingleton<IWorkerJobTracker, WorkerJobTracker>();
+		services.AddSingleton<IJobCallbackSender, JobCallbackSender>();
+		services.AddScoped<JobProgressReporter>();
+		services.AddScoped<IJobProgressReporter>(serviceProvider => serviceProvider.GetRequiredService<JobProgressReporter>());
+		services.AddHttpClient(AsyncEndpointsConstants.CallbackHttpClientName);
+
+		// Hosted services stop in reverse order, so the heartbeats keep the leases of running jobs alive until the worker has shut down
+		services.AddHostedService<WorkerHeartbeatService>();
 
 		// Always register the main background service
 		services.AddHostedService<AsyncEndpointsBackgroundService>();
+		services.AddHostedService<JobCancellationListenerService>();
+		services.AddHostedService<JobCallbackDeliveryService>();
+		services.AddHostedService<JobRetentionPurgeService>();
+		services.AddHostedService<JobStatsPublisherService>();
 
 		// Conditionally register recovery service based on configuration
 		if (recoveryConfig.EnableDistributedJobRecovery)
@@ -112,6 +157,102 @@ public static class ServiceCollectionExtensions
 		return services;
 	}
 
+	/// <summary>
+	/// Registers a job that is enqueued on a cron schedule, evaluated in UTC, through the <see cref="IJobManager"/>.
+	/// Every occurrence uses a job ID derived from the job name and occurrence time, so instances sharing a job store enqueue it exactly once.
+	/// A handler for the job name must be registered with AddAsyncEndpointHandler on the instances processing jobs.
+	/// </summary>
+	/// <typeparam name="TRequest">The type of the request passed to the handler.</typeparam>
+	/// <param name="services">The <see cref="IServiceCollection"/> to add services to.</param>
+	/// <param name="jobName">The name of the handler that processes the job.</param>
+	/// <param name="cronExpression">The five-field cron expression of the schedule, e.g. "0 3 * * *" for every day at 03:00 UTC.</param>
+	/// <param name="payloadFactory">Creates the request passed to the handler for every occurrence.</param>
+	/// <returns>The <see cref="IServiceCollection"/> for method chaining.</returns>
+	/// <exception cref="ArgumentException">Thrown when the cron expression is invalid or a recurring job with the same name is already registered.</exception>
+	public static IServiceCollection AddAsyncEndpointsRecurringJob<TRequest>(this IServiceCollection services, string jobName, string cronExpression, Func<TRequest> payloadFactory)
+	{
+		ArgumentException.ThrowIfNullOrWhiteSpace(jobName);
+		ArgumentNullException.ThrowIfNull(payloadFactory);
+
+		if (!CronExpression.TryParse(cronExpression, out var schedule))
+			throw new ArgumentException($"'{cronExpression}' is not a valid cron expression. Expected five fields: minute hour day-of-month month day-of-week.", nameof(cronExpression));
+
+		if (services.Any(x => x.ImplementationInstance is RecurringJobDefinition definition && definition.Name == jobName))
+			throw new ArgumentException($"A recurring job named '{jobName}' is already registered.", nameof(jobName));
+
+		services.AddSingleton(new RecurringJobDefinition(jobName, schedule, serializer => serializer.Serialize(payloadFactory())));
+		services.TryAddSingleton<IRecurringJobRegistry, RecurringJobRegistry>();
+		services.TryAddEnumerable(ServiceDescriptor.Singleton<IHostedService, RecurringJobSchedulerService>());
+
+		return services;
+	}
+
+	/// <summary>
+	/// Registers a continuation that enqueues the job <paramref name="nextJobName"/> when a job named <paramref name="jobName"/> completes successfully.
+	/// The result of the completed job is passed unchanged as the request of the continuation.
+	/// </summary>
+	/// <param name="services">The <see cref="IServiceCollection"/> to add services to.</param>
+	/// <param name="jobName">The name of the job that enqueues the continuation.</param>
+	/// <param name="nextJobName">The name of the handler that processes the continuation.</param>
+	/// <returns>The <see cref="IServiceCollection"/> for method chaining.</returns>
+	/// <exception cref="ArgumentException">Thrown when the same continuation is already registered.</exception>
+	public static IServiceCollection AddAsyncEndpointsContinuation(this IServiceCollection services, string jobName, string nextJobName)
+	{
+		return services.AddJobContinuation(jobName, nextJobName, JobContinuationTrigger.OnSuccess, (_, job) => job.Result ?? "null");
+	}
+
+	/// <summary>
+	/// Registers a continuation that enqueues the job <paramref name="nextJobName"/> when a job named <paramref name="jobName"/> completes successfully.
+	/// </summary>
+	/// <typeparam name="TResponse">The type of the response returned by the handler of the completed job.</typeparam>
+	/// <typeparam name="TNextRequest">The type of the request passed to the handler of the continuation.</typeparam>
+	/// <param name="services">The <see cref="IServiceCollection"/> to add services to.</param>
+	/// <param name="jobName">The name of the job that enqueues the continuation.</param>
+	/// <param name="nextJobName">The name of the handler that processes the continuation.</param>
+	/// <param name="map">Maps the response of the completed job to the request of the continuation.</param>
+	/// <returns>The <see cref="IServiceCollection"/> for method chaining.</returns>
+	/// <exception cref="ArgumentException">Thrown when the same continuation is already registered.</exception>
+	public static IServiceCollection AddAsyncEndpointsContinuation<TResponse, TNextRequest>(this IServiceCollection services, string jobName, string nextJobName, Func<TResponse, TNextRequest> map)
+	{
+		ArgumentNullException.ThrowIfNull(map);
+
+		return services.AddJobContinuation(jobName, nextJobName, JobContinuationTrigger.OnSuccess,
+			(serializer, job) => serializer.Serialize(map(serializer.Deserialize<TResponse>(job.Result ?? "null")!)));
+	}
+
+	/// <summary>
+	/// Registers a continuation that enqueues the job <paramref name="nextJobName"/> when a job named <paramref name="jobName"/> fails and will not be retried.
+	/// The request of the failed job is passed unchanged as the request of the continuation.
+	/// </summary>
+	/// <param name="services">The <see cref="IServiceCollection"/> to add services to.</param>
+	/// <param name="jobName">The name of the job that enqueues the continuation.</param>
+	/// <param name="nextJobName">The name of the handler that processes the continuation.</param>
+	/// <returns>The <see cref="IServiceCollection"/> for method chaining.</returns>
+	/// <exception cref="ArgumentException">Thrown when the same continuation is already registered.</exception>
+	public static IServiceCollection AddAsyncEndpointsFailureContinuation(this IServiceCollection services, string jobName, string nextJobName)
+	{
+		return services.AddJobContinuation(jobName, nextJobName, JobContinuationTrigger.OnFailure, (_, job) => job.Payload);
+	}
+
+	/// <summary>
+	/// Registers a continuation that enqueues the job <paramref name="nextJobName"/> when a job named <paramref name="jobName"/> fails and will not be retried.
+	/// </summary>
+	/// <typeparam name="TRequest">The type of the request of the failed job.</typeparam>
+	/// <typeparam name="TNextRequest">The type of the request passed to the handler of the continuation.</typeparam>
+	/// <param name="services">The <see cref="IServiceCollection"/> to add services to.</param>
+	/// <param name="jobName">The name of the job that enqueues the continuation.</param>
+	/// <param name="nextJobName">The name of the handler that processes the continuation.</param>
+	/// <param name="map">Maps the request and the final error of the failed job to the request of the continuation.</param>
+	/// <returns>The <see cref="IServiceCollection"/> for method chaining.</returns>
+	/// <exception cref="ArgumentException">Thrown when the same continuation is already registered.</exception>
+	public static IServiceCollection AddAsyncEndpointsFailureContinuation<TRequest, TNextRequest>(this IServiceCollection services, string jobName, string nextJobName, Func<TRequest, AsyncEndpointError, TNextRequest> map)
+	{
+		ArgumentNullException.ThrowIfNull(map);
+
+		return services.AddJobContinuation(jobName, nextJobName, JobContinuationTrigger.OnFailure,
+			(serializer, job) => serializer.Serialize(map(serializer.Deserialize<TRequest>(job.Payload)!, job.Error!)));
+	}
+
 	/// <summary>
 	/// Registers an asynchronous endpoint handler for processing requests of type TRequest and returning responses of type TResponse.
 	/// </summary>
@@ -120,17 +261,25 @@ public static class ServiceCollectionExtensions
 	/// <typeparam name="TResponse">The type of the response object.</typeparam>
 	/// <param name="services">The <see cref="IServiceCollection"/> to add services to.</param>
 	/// <param name="jobName">The unique name of the job, used to identify the specific handler.</param>
+	/// <param name="configureRetryPolicy">Optional action to configure how failed jobs of the handler are retried.</param>
+	/// <param name="timeout">Optional execution timeout of the handler that replaces the worker JobTimeoutMinutes.</param>
+	/// <param name="queue">Optional name of the queue the jobs of the handler are placed in. The default queue is used when null.</param>
+	/// <param name="configureLimits">Optional action to configure how many jobs of the handler run at the same time and how often they start.</param>
 	/// <returns>The <see cref="IServiceCollection"/> for method chaining.</returns>
-	public static IServiceCollection AddAsyncEndpointHandler<[DynamicallyAccessedMembers(DynamicallyAccessedMemberTypes.PublicConstructors)] TAsyncEndpointRequestHandler, TRequest, TResponse>(this IServiceCollection services, string jobName)
+	public static IServiceCollection AddAsyncEndpointHandler<[DynamicallyAccessedMembers(DynamicallyAccessedMemberTypes.PublicConstructors)] TAsyncEndpointRequestHandler, TRequest, TResponse>(this IServiceCollection services, string jobName, Action<AsyncEndpointsRetryPolicy>? configureRetryPolicy = null, TimeSpan? timeout = null, string? queue = null, Action<AsyncEndpointsJobLimits>? configureLimits = null)
 		where TAsyncEndpointRequestHandler : class, IAsyncEndpointRequestHandler<TRequest, TResponse>
 	{
 		services.AddKeyedScoped<IAsyncEndpointRequestHandler<TRequest, TResponse>, TAsyncEndpointRequestHandler>(jobName);
+		services.AddRetryPolicy(jobName, configureRetryPolicy);
+		services.AddJobTimeout(jobName, timeout);
+		services.AddJobQueue(jobName, queue);
+		services.AddJobLimits(jobName, configureLimits);
 
 		HandlerRegistrationTracker.Register<TRequest, TResponse>(jobName,
 			(serviceProvider, request, job, cancellationToken) =>
 			{
 				var handler = serviceProvider.GetRequiredKeyedService<IAsyncEndpointRequestHandler<TRequest, TResponse>>(jobName);
-				var context = AsyncContextBuilder.Build(request, job);
+				var context = AsyncContextBuilder.Build(request, job, serviceProvider.GetService<IJobProgressReporter>());
 				return handler.HandleAsync(context, cancellationToken);
 			});
 
@@ -144,22 +293,85 @@ public static class ServiceCollectionExtensions
 	/// <typeparam name="TResponse">The type of the response object.</typeparam>
 	/// <param name="services">The service collection to add the handler to.</param>
 	/// <param name="jobName">A unique name for the async job, used for identifying the handler.</param>
+	/// <param name="configureRetryPolicy">Optional action to configure how failed jobs of the handler are retried.</param>
+	/// <param name="timeout">Optional execution timeout of the handler that replaces the worker JobTimeoutMinutes.</param>
+	/// <param name="queue">Optional name of the queue the jobs of the handler are placed in. The default queue is used when null.</param>
+	/// <param name="configureLimits">Optional action to configure how many jobs of the handler run at the same time and how often they start.</param>
 	/// <returns>The service collection for method chaining.</returns>
 	public static IServiceCollection AddAsyncEndpointHandler<[DynamicallyAccessedMembers(DynamicallyAccessedMemberTypes.PublicConstructors)] TAsyncEndpointRequestHandler, TResponse>(
 		this IServiceCollection services,
-		string jobName)
+		string jobName,
+		Action<AsyncEndpointsRetryPolicy>? configureRetryPolicy = null,
+		TimeSpan? timeout = null,
+		string? queue = null,
+		Action<AsyncEndpointsJobLimits>? configureLimits = null)
 		where TAsyncEndpointRequestHandler : class, IAsyncEndpointRequestHandler<TResponse>
 	{
 		services.AddKeyedScoped<IAsyncEndpointRequestHandler<TResponse>, TAsyncEndpointRequestHandler>(jobName);
+		services.AddRetryPolicy(jobName, configureRetryPolicy);
+		services.AddJobTimeout(jobName, timeout);
+		services.AddJobQueue(jobName, queue);
+		services.AddJobLimits(jobName, configureLimits);
 
 		HandlerRegistrationTracker.Register<NoBodyRequest, TResponse>(jobName,
 			(serviceProvider, request, job, cancellationToken) =>
 			{
 				var handler = serviceProvider.GetRequiredKeyedService<IAsyncEndpointRequestHandler<TResponse>>(jobName);
-				var genericContext = AsyncContextBuilder.Build(request, job);
+				var genericContext = AsyncContextBuilder.Build(request, job, serviceProvider.GetService<IJobProgressReporter>());
 				return handler.HandleAsync(genericContext, cancellationToken);
 			});
 
 		return services;
 	}
+
+	private static void AddRetryPolicy(this IServiceCollection services, string jobName, Action<AsyncEndpointsRetryPolicy>? configureRetryPolicy)
+	{
+		if (configureRetryPolicy == null)
+			return;
+
+		var retryPolicy = new AsyncEndpointsRetryPolicy();
+		configureRetryPolicy(retryPolicy);
+
+		services.Configure<AsyncEndpointsConfigurations>(options => options.JobManagerConfigurations.RetryPolicies[jobName] = retryPolicy);
+	}
+
+	private static void AddJobTimeout(this IServiceCollection services, string jobName, TimeSpan? timeout)
+	{
+		if (timeout == null)
+			return;
+
+		services.Configure<AsyncEndpointsConfigurations>(options => options.WorkerConfigurations.JobTimeouts[jobName] = timeout.Value);
+	}
+
+	private static void AddJobQueue(this IServiceCollection services, string jobName, string? queue)
+	{
+		if (queue == null)
+			return;
+
+		services.Configure<AsyncEndpointsConfigurations>(options => options.JobManagerConfigurations.JobQueues[jobName] = queue);
+	}
+
+	private static void AddJobLimits(this IServiceCollection services, string jobName, Action<AsyncEndpointsJobLimits>? configureLimits)
+	{
+		if (configureLimits == null)
+			return;
+
+		var jobLimits = new AsyncEndpointsJobLimits();
+		configureLimits(jobLimits);
+
+		services.Configure<AsyncEndpointsConfigurations>(options => options.WorkerConfigurations.JobLimits[jobName] = jobLimits);
+	}
+
+	private static IServiceCollection AddJobContinuation(this IServiceCollection services, string jobName, string nextJobName, JobContinuationTrigger trigger, Func<ISerializer, Job, string> payloadFactory)
+	{
+		ArgumentException.ThrowIfNullOrWhiteSpace(jobName);
+		ArgumentException.ThrowIfNullOrWhiteSpace(nextJobName);
+
+		if (services.Any(x => x.ImplementationInstance is JobContinuation continuation && continuation.JobName == jobName && continuation.NextJobName == nextJobName && continuation.Trigger == trigger))
+			throw new ArgumentException($"A continuation from '{jobName}' to '{nextJobName}' is already registered.", nameof(nextJobName));
+
+		services.AddSingleton(new JobContinuation(jobName, nextJobName, trigger, payloadFactory));
+
+		return services;
+	}
 }
@@ -27,6 +27,11 @@ public class AsyncContext(
 	/// Gets the query parameters from the original request.
 	/// </summary>
 	public IEnumerable<KeyValuePair<string, List<string?>>> QueryParams { get; init; } = query;
+
+	/// <summary>
+	/// Gets the reporter used to report the progress of the job. Reports are ignored when the context is not bound to a job.
+	/// </summary>
+	public IJobProgressReporter Progress { get; init; } = NullJobProgressReporter.Instance;
 }
 
 /// <summary>
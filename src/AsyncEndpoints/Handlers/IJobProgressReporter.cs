@@ -0,0 +1,29 @@
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace AsyncEndpoints.Handlers;
+
+/// <summary>
+/// Reports the progress of the job being processed by a handler.
+/// Reports are throttled, so handlers can report as often as they like without overloading the job store.
+/// </summary>
+public interface IJobProgressReporter
+{
+	/// <summary>
+	/// Reports the percentage of the work completed and an optional message.
+	/// </summary>
+	/// <param name="percentComplete">The percentage of the work completed, between 0 and 100.</param>
+	/// <param name="message">An optional short message describing the current state of the work.</param>
+	/// <param name="cancellationToken">Cancellation token.</param>
+	Task ReportProgress(double percentComplete, string? message = null, CancellationToken cancellationToken = default);
+
+	/// <summary>
+	/// Reports the percentage of the work completed, an optional message and intermediate structured data.
+	/// </summary>
+	/// <typeparam name="TData">The type of the intermediate data.</typeparam>
+	/// <param name="percentComplete">The percentage of the work completed, between 0 and 100.</param>
+	/// <param name="message">An optional short message describing the current state of the work.</param>
+	/// <param name="data">Intermediate data that is serialized and returned with the job.</param>
+	/// <param name="cancellationToken">Cancellation token.</param>
+	Task ReportProgress<TData>(double percentComplete, string? message, TData data, CancellationToken cancellationToken = default);
+}
@@ -0,0 +1,13 @@
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace AsyncEndpoints.Handlers;
+
+internal sealed class NullJobProgressReporter : IJobProgressReporter
+{
+	public static readonly NullJobProgressReporter Instance = new();
+
+	public Task ReportProgress(double percentComplete, string? message = null, CancellationToken cancellationToken = default) => Task.CompletedTask;
+
+	public Task ReportProgress<TData>(double percentComplete, string? message, TData data, CancellationToken cancellationToken = default) => Task.CompletedTask;
+}
@@ -2,12 +2,21 @@ using AsyncEndpoints.Handlers;
 using AsyncEndpoints.JobProcessing;
 using AsyncEndpoints.Utilities;
 using Microsoft.AspNetCore.Mvc;
+using System.Collections.Generic;
 using System.Text.Json.Serialization;
 
 namespace AsyncEndpoints;
 
 [JsonSerializable(typeof(Job))]
+[JsonSerializable(typeof(JobCallback))]
+[JsonSerializable(typeof(JobProgress))]
 [JsonSerializable(typeof(JobResponse))]
+[JsonSerializable(typeof(JobPageResponse))]
+[JsonSerializable(typeof(List<JobRunResponse>))]
+[JsonSerializable(typeof(List<RecurringJobResponse>))]
+[JsonSerializable(typeof(List<WorkerResponse>))]
+[JsonSerializable(typeof(JobStatsResponse))]
+[JsonSerializable(typeof(FailedJobsRequeueResponse))]
 [JsonSerializable(typeof(NoBodyRequest))]
 [JsonSerializable(typeof(ProblemDetails))]
 [JsonSerializable(typeof(AsyncEndpointError))]
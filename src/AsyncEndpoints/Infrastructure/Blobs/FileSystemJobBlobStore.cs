@@ -0,0 +1,228 @@
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.Utilities;
+using Microsoft.Extensions.Logging;
+using System;
+using System.Globalization;
+using System.IO;
+using System.Text;
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace AsyncEndpoints.Infrastructure.Blobs;
+
+/// <summary>
+/// Stores job payloads and results as files in a directory. Every blob is kept in a content file
+/// next to a metadata file holding its content type and expiry.
+/// </summary>
+/// <remarks>
+/// Instances sharing the directory, for example through a network share, share the blobs.
+/// </remarks>
+public class FileSystemJobBlobStore : IJobBlobStore
+{
+	private static readonly string _invalidBlobIdErrorCode = "INVALID_BLOB_ID";
+	private static readonly string _contentFileExtension = ".blob";
+	private static readonly string _metadataFileExtension = ".meta";
+
+	private readonly string _rootPath;
+	private readonly ILogger<FileSystemJobBlobStore> _logger;
+	private readonly IDateTimeProvider _dateTimeProvider;
+
+	/// <summary>
+	/// Initializes a new instance of the <see cref="FileSystemJobBlobStore"/> class and creates the directory if it does not exist.
+	/// </summary>
+	/// <param name="rootPath">The directory the blobs are stored in.</param>
+	/// <param name="logger">The logger instance.</param>
+	/// <param name="dateTimeProvider">Provider for current date and time.</param>
+	public FileSystemJobBlobStore(string rootPath, ILogger<FileSystemJobBlobStore> logger, IDateTimeProvider dateTimeProvider)
+	{
+		ArgumentException.ThrowIfNullOrWhiteSpace(rootPath);
+
+		_rootPath = Path.GetFullPath(rootPath);
+		_logger = logger;
+		_dateTimeProvider = dateTimeProvider;
+
+		Directory.CreateDirectory(_rootPath);
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult> SaveBlob(string blobId, string content, string contentType, DateTimeOffset? expiresAt, CancellationToken cancellationToken)
+	{
+		if (!IsValidBlobId(blobId))
+			return MethodResult.Failure(AsyncEndpointError.FromCode(_invalidBlobIdErrorCode, $"Blob ID '{blobId}' is not a valid file name"));
+
+		try
+		{
+			// The content is written before the metadata, so a blob is never readable before its content is complete
+			await WriteFileAtomically(GetContentPath(blobId), content, cancellationToken);
+			await WriteFileAtomically(GetMetadataPath(blobId), FormatMetadata(contentType, expiresAt), cancellationToken);
+
+			_logger.LogDebug("Stored blob {BlobId}, content length: {ContentLength}", blobId, content.Length);
+			return MethodResult.Success();
+		}
+		catch (Exception ex) when (ex is IOException || ex is UnauthorizedAccessException)
+		{
+			_logger.LogError(ex, "Failed to store blob {BlobId}", blobId);
+			return MethodResult.Failure(ex);
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<JobBlob>> OpenBlob(string blobId, CancellationToken cancellationToken)
+	{
+		if (!IsValidBlobId(blobId))
+			return MethodResult<JobBlob>.Failure(AsyncEndpointError.FromCode(_invalidBlobIdErrorCode, $"Blob ID '{blobId}' is not a valid file name"));
+
+		try
+		{
+			var metadata = await ReadMetadata(blobId, cancellationToken);
+			if (metadata == null || IsExpired(metadata.Value.ExpiresAt))
+				return MethodResult<JobBlob>.Failure(AsyncEndpointError.FromCode(AsyncEndpointsConstants.BlobNotFoundErrorCode, $"Blob {blobId} not found"));
+
+			var content = new FileStream(GetContentPath(blobId), FileMode.Open, FileAccess.Read, FileShare.Read | FileShare.Delete,
+				bufferSize: 4096, FileOptions.Asynchronous | FileOptions.SequentialScan);
+			return MethodResult<JobBlob>.Success(new JobBlob(content, metadata.Value.ContentType));
+		}
+		catch (Exception ex) when (ex is FileNotFoundException || ex is DirectoryNotFoundException)
+		{
+			// The blob was deleted between reading its metadata and opening its content
+			return MethodResult<JobBlob>.Failure(AsyncEndpointError.FromCode(AsyncEndpointsConstants.BlobNotFoundErrorCode, $"Blob {blobId} not found"));
+		}
+		catch (Exception ex) when (ex is IOException || ex is UnauthorizedAccessException)
+		{
+			_logger.LogError(ex, "Failed to open blob {BlobId}", blobId);
+			return MethodResult<JobBlob>.Failure(ex);
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult> SetBlobExpiry(string blobId, DateTimeOffset? expiresAt, CancellationToken cancellationToken)
+	{
+		if (!IsValidBlobId(blobId))
+			return MethodResult.Failure(AsyncEndpointError.FromCode(_invalidBlobIdErrorCode, $"Blob ID '{blobId}' is not a valid file name"));
+
+		try
+		{
+			var metadata = await ReadMetadata(blobId, cancellationToken);
+			if (metadata == null)
+				return MethodResult.Failure(AsyncEndpointError.FromCode(AsyncEndpointsConstants.BlobNotFoundErrorCode, $"Blob {blobId} not found"));
+
+			await WriteFileAtomically(GetMetadataPath(blobId), FormatMetadata(metadata.Value.ContentType, expiresAt), cancellationToken);
+			return MethodResult.Success();
+		}
+		catch (Exception ex) when (ex is IOException || ex is UnauthorizedAccessException)
+		{
+			_logger.LogError(ex, "Failed to set the expiry of blob {BlobId}", blobId);
+			return MethodResult.Failure(ex);
+		}
+	}
+
+	/// <inheritdoc />
+	public Task<MethodResult> DeleteBlob(string blobId, CancellationToken cancellationToken)
+	{
+		if (!IsValidBlobId(blobId))
+			return Task.FromResult(MethodResult.Failure(AsyncEndpointError.FromCode(_invalidBlobIdErrorCode, $"Blob ID '{blobId}' is not a valid file name")));
+
+		try
+		{
+			// The metadata is deleted first, so a partly deleted blob is no longer readable
+			File.Delete(GetMetadataPath(blobId));
+			File.Delete(GetContentPath(blobId));
+
+			_logger.LogDebug("Deleted blob {BlobId}", blobId);
+			return Task.FromResult(MethodResult.Success());
+		}
+		catch (Exception ex) when (ex is IOException || ex is UnauthorizedAccessException)
+		{
+			_logger.LogError(ex, "Failed to delete blob {BlobId}", blobId);
+			return Task.FromResult(MethodResult.Failure(ex));
+		}
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<int>> DeleteExpiredBlobs(int maxCount, CancellationToken cancellationToken)
+	{
+		var deletedCount = 0;
+		try
+		{
+			foreach (var metadataPath in Directory.EnumerateFiles(_rootPath, "*" + _metadataFileExtension))
+			{
+				if (deletedCount >= maxCount || cancellationToken.IsCancellationRequested)
+					break;
+
+				var blobId = Path.GetFileNameWithoutExtension(metadataPath);
+				var metadata = await ReadMetadata(blobId, cancellationToken);
+				if (metadata == null || !IsExpired(metadata.Value.ExpiresAt))
+					continue;
+
+				var deleteResult = await DeleteBlob(blobId, cancellationToken);
+				if (deleteResult.IsSuccess)
+				{
+					deletedCount++;
+				}
+			}
+
+			return MethodResult<int>.Success(deletedCount);
+		}
+		catch (Exception ex) when (ex is IOException || ex is UnauthorizedAccessException)
+		{
+			_logger.LogError(ex, "Failed to delete expired blobs");
+			return MethodResult<int>.Failure(ex);
+		}
+	}
+
+	private static bool IsValidBlobId(string blobId)
+	{
+		return !string.IsNullOrWhiteSpace(blobId)
+			&& blobId != "."
+			&& blobId != ".."
+			&& blobId.IndexOfAny(Path.GetInvalidFileNameChars()) < 0
+			&& blobId.IndexOfAny(['/', '\\']) < 0;
+	}
+
+	private static string FormatMetadata(string contentType, DateTimeOffset? expiresAt)
+	{
+		return contentType + "\n" + (expiresAt?.ToString("O", CultureInfo.InvariantCulture) ?? string.Empty);
+	}
+
+	private static async Task WriteFileAtomically(string path, string content, CancellationToken cancellationToken)
+	{
+		// Readers see either the previous or the new file, never a partly written one
+		var temporaryPath = $"{path}.{Guid.NewGuid():N}.tmp";
+		try
+		{
+			await File.WriteAllTextAsync(temporaryPath, content, Encoding.UTF8, cancellationToken);
+			File.Move(temporaryPath, path, overwrite: true);
+		}
+		finally
+		{
+			File.Delete(temporaryPath);
+		}
+	}
+
+	private async Task<(string ContentType, DateTimeOffset? ExpiresAt)?> ReadMetadata(string blobId, CancellationToken cancellationToken)
+	{
+		string[] lines;
+		try
+		{
+			lines = await File.ReadAllLinesAsync(GetMetadataPath(blobId), cancellationToken);
+		}
+		catch (Exception ex) when (ex is FileNotFoundException || ex is DirectoryNotFoundException)
+		{
+			return null;
+		}
+
+		if (lines.Length == 0)
+			return null;
+
+		DateTimeOffset? expiresAt = lines.Length > 1 && !string.IsNullOrEmpty(lines[1])
+			? DateTimeOffset.ParseExact(lines[1], "O", CultureInfo.InvariantCulture)
+			: null;
+		return (lines[0], expiresAt);
+	}
+
+	private bool IsExpired(DateTimeOffset? expiresAt) => expiresAt.HasValue && expiresAt.Value <= _dateTimeProvider.DateTimeOffsetNow;
+
+	private string GetContentPath(string blobId) => Path.Combine(_rootPath, blobId + _contentFileExtension);
+
+	private string GetMetadataPath(string blobId) => Path.Combine(_rootPath, blobId + _metadataFileExtension);
+}
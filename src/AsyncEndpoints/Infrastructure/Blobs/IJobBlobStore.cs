@@ -0,0 +1,56 @@
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.Utilities;
+using System;
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace AsyncEndpoints.Infrastructure.Blobs;
+
+/// <summary>
+/// Defines a contract for storing job payloads and results that are too large to be kept in the job store.
+/// </summary>
+public interface IJobBlobStore
+{
+	/// <summary>
+	/// Stores a blob, replacing any blob with the same ID
+	/// </summary>
+	/// <param name="blobId">The ID of the blob</param>
+	/// <param name="content">The content of the blob</param>
+	/// <param name="contentType">The content type of the blob</param>
+	/// <param name="expiresAt">The time after which the blob is deleted, or null to keep it until it is deleted explicitly</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	Task<MethodResult> SaveBlob(string blobId, string content, string contentType, DateTimeOffset? expiresAt, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Opens a blob for reading
+	/// </summary>
+	/// <param name="blobId">The ID of the blob</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	/// <returns>The content and content type of the blob, or a <see cref="AsyncEndpointsConstants.BlobNotFoundErrorCode"/> error if it does not exist or has expired</returns>
+	Task<MethodResult<JobBlob>> OpenBlob(string blobId, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Changes the time after which a blob is deleted
+	/// </summary>
+	/// <param name="blobId">The ID of the blob</param>
+	/// <param name="expiresAt">The time after which the blob is deleted, or null to keep it until it is deleted explicitly</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	/// <returns>A successful result if the blob exists, or a <see cref="AsyncEndpointsConstants.BlobNotFoundErrorCode"/> error if it does not</returns>
+	Task<MethodResult> SetBlobExpiry(string blobId, DateTimeOffset? expiresAt, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Deletes a blob
+	/// </summary>
+	/// <param name="blobId">The ID of the blob</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	/// <returns>A successful result, also when the blob does not exist</returns>
+	Task<MethodResult> DeleteBlob(string blobId, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Deletes blobs whose expiry has passed
+	/// </summary>
+	/// <param name="maxCount">The maximum number of expired blobs to delete</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	/// <returns>The number of expired blobs deleted</returns>
+	Task<MethodResult<int>> DeleteExpiredBlobs(int maxCount, CancellationToken cancellationToken);
+}
@@ -0,0 +1,22 @@
+using System;
+using System.IO;
+
+namespace AsyncEndpoints.Infrastructure.Blobs;
+
+/// <summary>
+/// Represents the content of a job payload or result read from a blob store.
+/// </summary>
+/// <param name="content">The stream of the content. The caller owns the stream and must dispose it.</param>
+/// <param name="contentType">The content type the content was stored with.</param>
+public sealed class JobBlob(Stream content, string contentType)
+{
+	/// <summary>
+	/// Gets the stream of the content.
+	/// </summary>
+	public Stream Content { get; } = content ?? throw new ArgumentNullException(nameof(content));
+
+	/// <summary>
+	/// Gets the content type the content was stored with.
+	/// </summary>
+	public string ContentType { get; } = contentType ?? throw new ArgumentNullException(nameof(contentType));
+}
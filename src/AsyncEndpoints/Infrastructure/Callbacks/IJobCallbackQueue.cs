@@ -0,0 +1,25 @@
+using System;
+using System.Collections.Generic;
+using System.Threading;
+
+namespace AsyncEndpoints.Infrastructure.Callbacks;
+
+/// <summary>
+/// Defines a contract for queuing jobs whose completion callbacks are waiting to be delivered.
+/// </summary>
+public interface IJobCallbackQueue
+{
+	/// <summary>
+	/// Queues the completion callback of a finished job for delivery
+	/// </summary>
+	/// <param name="jobId">The unique identifier of the finished job</param>
+	/// <returns>True if the job was queued, otherwise false</returns>
+	bool Enqueue(Guid jobId);
+
+	/// <summary>
+	/// Reads the queued job IDs until the cancellation token is triggered
+	/// </summary>
+	/// <param name="cancellationToken">Cancellation token that ends the reading</param>
+	/// <returns>An async stream of the queued job IDs</returns>
+	IAsyncEnumerable<Guid> ReadAllAsync(CancellationToken cancellationToken);
+}
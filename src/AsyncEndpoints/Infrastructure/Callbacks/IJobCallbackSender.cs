@@ -0,0 +1,20 @@
+using AsyncEndpoints.JobProcessing;
+using AsyncEndpoints.Utilities;
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace AsyncEndpoints.Infrastructure.Callbacks;
+
+/// <summary>
+/// Defines a contract for sending the completion callback of a finished job.
+/// </summary>
+public interface IJobCallbackSender
+{
+	/// <summary>
+	/// Posts the job response to the callback URL of the job
+	/// </summary>
+	/// <param name="job">The finished job with a callback URL</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	/// <returns>A <see cref="MethodResult"/> indicating whether the receiver accepted the callback</returns>
+	Task<MethodResult> SendAsync(Job job, CancellationToken cancellationToken);
+}
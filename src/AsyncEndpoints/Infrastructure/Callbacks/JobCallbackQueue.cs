@@ -0,0 +1,30 @@
+using System;
+using System.Collections.Generic;
+using System.Threading;
+using System.Threading.Channels;
+
+namespace AsyncEndpoints.Infrastructure.Callbacks;
+
+/// <summary>
+/// Channel-based implementation of <see cref="IJobCallbackQueue"/> that hands finished jobs over to the callback delivery service of the same process.
+/// </summary>
+public class JobCallbackQueue : IJobCallbackQueue
+{
+	private readonly Channel<Guid> _channel = Channel.CreateUnbounded<Guid>(new UnboundedChannelOptions
+	{
+		SingleReader = true,
+		SingleWriter = false
+	});
+
+	/// <inheritdoc />
+	public bool Enqueue(Guid jobId)
+	{
+		return _channel.Writer.TryWrite(jobId);
+	}
+
+	/// <inheritdoc />
+	public IAsyncEnumerable<Guid> ReadAllAsync(CancellationToken cancellationToken)
+	{
+		return _channel.Reader.ReadAllAsync(cancellationToken);
+	}
+}
@@ -0,0 +1,82 @@
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.Infrastructure.Serialization;
+using AsyncEndpoints.JobProcessing;
+using AsyncEndpoints.Utilities;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+using System;
+using System.Net.Http;
+using System.Security.Cryptography;
+using System.Text;
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace AsyncEndpoints.Infrastructure.Callbacks;
+
+/// <summary>
+/// Sends job completion callbacks over HTTP, signing the request body with HMAC-SHA256 when a signing secret is configured.
+/// </summary>
+public class JobCallbackSender(ILogger<JobCallbackSender> logger, IHttpClientFactory httpClientFactory, ISerializer serializer, IOptions<AsyncEndpointsConfigurations> configurations) : IJobCallbackSender
+{
+	private static readonly string _callbackDeliveryFailedErrorCode = "CALLBACK_DELIVERY_FAILED";
+
+	private readonly ILogger<JobCallbackSender> _logger = logger;
+	private readonly IHttpClientFactory _httpClientFactory = httpClientFactory;
+	private readonly ISerializer _serializer = serializer;
+	private readonly AsyncEndpointsCallbackConfigurations _callbackConfigurations = configurations.Value.CallbackConfigurations;
+
+	/// <inheritdoc />
+	public async Task<MethodResult> SendAsync(Job job, CancellationToken cancellationToken)
+	{
+		if (job.Callback == null)
+		{
+			return MethodResult.Failure(AsyncEndpointError.FromCode(_callbackDeliveryFailedErrorCode, $"Job {job.Id} has no callback"));
+		}
+
+		var body = JobResponseMapper.ToJson(job, _serializer);
+
+		using var request = new HttpRequestMessage(HttpMethod.Post, job.Callback.Url)
+		{
+			Content = new StringContent(body, Encoding.UTF8, "application/json")
+		};
+		request.Headers.Add(AsyncEndpointsConstants.JobIdHeaderName, job.Id.ToString());
+
+		if (!string.IsNullOrEmpty(_callbackConfigurations.SigningSecret))
+		{
+			request.Headers.Add(_callbackConfigurations.SignatureHeaderName, ComputeSignature(body, _callbackConfigurations.SigningSecret));
+		}
+
+		try
+		{
+			var httpClient = _httpClientFactory.CreateClient(AsyncEndpointsConstants.CallbackHttpClientName);
+			using var timeoutCts = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken);
+			timeoutCts.CancelAfter(TimeSpan.FromSeconds(_callbackConfigurations.TimeoutSeconds));
+
+			using var response = await httpClient.SendAsync(request, timeoutCts.Token);
+			if (!response.IsSuccessStatusCode)
+			{
+				_logger.LogDebug("Callback receiver for job {JobId} responded with status code {StatusCode}", job.Id, (int)response.StatusCode);
+				return MethodResult.Failure(AsyncEndpointError.FromCode(_callbackDeliveryFailedErrorCode, $"Callback receiver responded with status code {(int)response.StatusCode}"));
+			}
+
+			return MethodResult.Success();
+		}
+		catch (Exception ex) when (ex is HttpRequestException || (ex is OperationCanceledException && !cancellationToken.IsCancellationRequested))
+		{
+			_logger.LogDebug(ex, "Callback delivery for job {JobId} failed", job.Id);
+			return MethodResult.Failure(AsyncEndpointError.FromCode(_callbackDeliveryFailedErrorCode, ex.Message, ex));
+		}
+	}
+
+	/// <summary>
+	/// Computes the signature of a callback request body in the format <c>sha256=&lt;lowercase hex HMAC&gt;</c>.
+	/// </summary>
+	/// <param name="body">The callback request body.</param>
+	/// <param name="signingSecret">The secret used as the HMAC key.</param>
+	/// <returns>The signature header value.</returns>
+	public static string ComputeSignature(string body, string signingSecret)
+	{
+		var hash = HMACSHA256.HashData(Encoding.UTF8.GetBytes(signingSecret), Encoding.UTF8.GetBytes(body));
+		return $"sha256={Convert.ToHexString(hash).ToLowerInvariant()}";
+	}
+}
@@ -3,9 +3,11 @@ using AsyncEndpoints.JobProcessing;
 using AsyncEndpoints.Utilities;
 using Microsoft.Extensions.Options;
 using System;
+using System.Collections.Concurrent;
 using System.Collections.Generic;
 using System.Diagnostics;
 using System.Diagnostics.Metrics;
+using System.Linq;
 
 namespace AsyncEndpoints.Infrastructure.Observability;
 
@@ -18,7 +20,9 @@ public class AsyncEndpointsObservability : IAsyncEndpointsObservability
 	private readonly Counter<long>? _jobsRetries;
 	private readonly Histogram<double>? _jobQueueDuration;
 	private readonly Histogram<double>? _jobProcessingDuration;
-	private readonly UpDownCounter<long>? _jobsCurrentCount;
+	private readonly ObservableGauge<long>? _jobsCurrentCount;
+	private readonly ObservableGauge<double>? _oldestQueuedJobAge;
+	private readonly ObservableGauge<long>? _scheduledRetries;
 	private readonly Histogram<double>? _handlerExecutionDuration;
 	private readonly Counter<long>? _handlerErrors;
 	private readonly Counter<long>? _storeOperations;
@@ -27,6 +31,11 @@ public class AsyncEndpointsObservability : IAsyncEndpointsObservability
 	private readonly Counter<long>? _backgroundProcessingRate;
 	private readonly AsyncEndpointsObservabilityConfigurations _config;
 
+	// Gauges report the latest values set by the job stats publisher whenever the meter is collected
+	private readonly ConcurrentDictionary<(string JobStatus, string StoreType), long> _jobCurrentCounts = new();
+	private readonly ConcurrentDictionary<string, double> _oldestQueuedJobAges = new();
+	private readonly ConcurrentDictionary<string, long> _scheduledRetryCounts = new();
+
 	private static readonly ActivitySource _activitySource = new("AsyncEndpoints", "1.0.0");
 
 	private static readonly string _jobNameTag = "job_name";
@@ -65,8 +74,15 @@ public class AsyncEndpointsObservability : IAsyncEndpointsObservability
 				unit: _unitSeconds, description: "Time jobs spend in queue before processing");
 			_jobProcessingDuration = meter.CreateHistogram<double>("asyncendpoints.jobs.processing.duration",
 				unit: _unitSeconds, description: "Time spent processing jobs");
-			_jobsCurrentCount = meter.CreateUpDownCounter<long>("asyncendpoints.jobs.current.count",
+			_jobsCurrentCount = meter.CreateObservableGauge("asyncendpoints.jobs.current.count",
+				() => _jobCurrentCounts.Select(x => new Measurement<long>(x.Value, new KeyValuePair<string, object?>(_statusTag, x.Key.JobStatus), new KeyValuePair<string, object?>(_storeTypeTag, x.Key.StoreType))),
 				description: "Current number of jobs in each state");
+			_oldestQueuedJobAge = meter.CreateObservableGauge("asyncendpoints.jobs.queue.oldest_age",
+				() => _oldestQueuedJobAges.Select(x => new Measurement<double>(x.Value, new KeyValuePair<string, object?>(_storeTypeTag, x.Key))),
+				unit: _unitSeconds, description: "Age of the oldest queued job");
+			_scheduledRetries = meter.CreateObservableGauge("asyncendpoints.jobs.scheduled_retries.count",
+				() => _scheduledRetryCounts.Select(x => new Measurement<long>(x.Value, new KeyValuePair<string, object?>(_storeTypeTag, x.Key))),
+				description: "Current number of scheduled jobs waiting for a retry");
 
 			// Handler metrics
 			_handlerExecutionDuration = meter.CreateHistogram<double>("asyncendpoints.handlers.execution.duration",
@@ -96,6 +112,8 @@ public class AsyncEndpointsObservability : IAsyncEndpointsObservability
 			_jobQueueDuration = null;
 			_jobProcessingDuration = null;
 			_jobsCurrentCount = null;
+			_oldestQueuedJobAge = null;
+			_scheduledRetries = null;
 			_handlerExecutionDuration = null;
 			_handlerErrors = null;
 			_storeOperations = null;
@@ -158,9 +176,23 @@ public class AsyncEndpointsObservability : IAsyncEndpointsObservability
 	{
 		if (_config.EnableMetrics && _jobsCurrentCount != null)
 		{
-			// For UpDownCounter, we'll record the count as a change from the previous state.
-			// For simplicity in the context of this API, we'll add the count directly.
-			_jobsCurrentCount.Add(count, new KeyValuePair<string, object?>(_statusTag, jobStatus), new KeyValuePair<string, object?>(_storeTypeTag, storeType));
+			_jobCurrentCounts[(jobStatus, storeType)] = count;
+		}
+	}
+
+	public void SetOldestQueuedJobAge(string storeType, double ageSeconds)
+	{
+		if (_config.EnableMetrics && _oldestQueuedJobAge != null)
+		{
+			_oldestQueuedJobAges[storeType] = ageSeconds;
+		}
+	}
+
+	public void SetScheduledRetryCount(string storeType, long count)
+	{
+		if (_config.EnableMetrics && _scheduledRetries != null)
+		{
+			_scheduledRetryCounts[storeType] = count;
 		}
 	}
 
@@ -250,7 +282,18 @@ public class AsyncEndpointsObservability : IAsyncEndpointsObservability
 	{
 		if (_config.EnableTracing)
 		{
-			var activity = _activitySource.StartActivity("Job.Process", ActivityKind.Consumer);
+			// Continue the trace of the request that submitted the job, even when it was submitted by another process
+			var activity = JobTraceContext.TryGetParentContext(job, out var parentContext)
+				? _activitySource.StartActivity("Job.Process", ActivityKind.Consumer, parentContext)
+				: _activitySource.StartActivity("Job.Process", ActivityKind.Consumer);
+			if (activity != null)
+			{
+				foreach (var item in JobTraceContext.GetBaggage(job))
+				{
+					activity.AddBaggage(item.Key, item.Value);
+				}
+			}
+
 			activity?.SetTag(_jobIdTag, job.Id.ToString());
 			activity?.SetTag(_activityJobName, job.Name);
 			activity?.SetTag("job.status", job.Status.ToString());
@@ -63,6 +63,20 @@ public interface IAsyncEndpointsObservability
 	/// <param name="count">Current count of jobs</param>
 	void SetJobCurrentCount(string jobStatus, string storeType, long count);
 
+	/// <summary>
+	/// Sets the age of the oldest queued job
+	/// </summary>
+	/// <param name="storeType">Type of the job store</param>
+	/// <param name="ageSeconds">Age in seconds, or zero if no job is queued</param>
+	void SetOldestQueuedJobAge(string storeType, double ageSeconds);
+
+	/// <summary>
+	/// Sets the number of scheduled jobs waiting for a retry
+	/// </summary>
+	/// <param name="storeType">Type of the job store</param>
+	/// <param name="count">Current count of scheduled retries</param>
+	void SetScheduledRetryCount(string storeType, long count);
+
 	// Handler metrics  
 	/// <summary>
 	/// Records the duration of handler execution
@@ -138,7 +152,7 @@ public interface IAsyncEndpointsObservability
 	Activity? StartJobSubmitActivity(string jobName, string storeType, Guid jobId);
 
 	/// <summary>
-	/// Starts a job processing activity if tracing is enabled
+	/// Starts a job processing activity if tracing is enabled, as a child of the activity the job was submitted in
 	/// </summary>
 	/// <param name="storeType">The type of store</param>
 	/// <param name="job">The job being processed</param>
@@ -0,0 +1,75 @@
+using AsyncEndpoints.JobProcessing;
+using System;
+using System.Collections.Generic;
+using System.Diagnostics;
+using System.Linq;
+
+namespace AsyncEndpoints.Infrastructure.Observability;
+
+/// <summary>
+/// Carries the W3C trace context of the activity a job was submitted in over the job store, so the activities
+/// of the worker processing the job, possibly in another process, join the trace of the submitting request.
+/// </summary>
+public static class JobTraceContext
+{
+	/// <summary>
+	/// Stores the traceparent, tracestate and baggage of the specified activity on the job.
+	/// Activities that do not use the W3C ID format are ignored.
+	/// </summary>
+	/// <param name="job">The job being submitted.</param>
+	/// <param name="activity">The activity the job is submitted in, usually <see cref="Activity.Current"/>.</param>
+	public static void Capture(Job job, Activity? activity)
+	{
+		if (activity == null || activity.IdFormat != ActivityIdFormat.W3C)
+			return;
+
+		job.TraceParent = activity.Id;
+		job.TraceState = activity.TraceStateString;
+
+		// Activity.Baggage lists the most recently added items first
+		var baggage = activity.Baggage.Reverse().ToList();
+		job.Baggage = baggage.Count > 0
+			? string.Join(",", baggage.Select(item => $"{Uri.EscapeDataString(item.Key)}={Uri.EscapeDataString(item.Value ?? string.Empty)}"))
+			: null;
+	}
+
+	/// <summary>
+	/// Attempts to restore the context of the activity the job was submitted in.
+	/// </summary>
+	/// <param name="job">The job being processed.</param>
+	/// <param name="parentContext">The remote context of the submitting activity.</param>
+	/// <returns>True if the job carries a valid traceparent, otherwise false.</returns>
+	public static bool TryGetParentContext(Job job, out ActivityContext parentContext)
+	{
+		parentContext = default;
+		return job.TraceParent != null && ActivityContext.TryParse(job.TraceParent, job.TraceState, isRemote: true, out parentContext);
+	}
+
+	/// <summary>
+	/// Gets the baggage of the activity the job was submitted in, in the order it was added.
+	/// Entries that cannot be parsed are skipped.
+	/// </summary>
+	/// <param name="job">The job being processed.</param>
+	/// <returns>The baggage items, which are empty if the job carries no baggage.</returns>
+	public static List<KeyValuePair<string, string?>> GetBaggage(Job job)
+	{
+		if (string.IsNullOrEmpty(job.Baggage))
+			return [];
+
+		var baggage = new List<KeyValuePair<string, string?>>();
+		foreach (var member in job.Baggage.Split(',', StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries))
+		{
+			// Properties of a member follow its value after a semicolon and are not carried over
+			var keyValue = member.Split(';')[0];
+			var separatorIndex = keyValue.IndexOf('=');
+			if (separatorIndex <= 0)
+				continue;
+
+			var key = Uri.UnescapeDataString(keyValue[..separatorIndex].Trim());
+			var value = Uri.UnescapeDataString(keyValue[(separatorIndex + 1)..].Trim());
+			baggage.Add(new KeyValuePair<string, string?>(key, value));
+		}
+
+		return baggage;
+	}
+}
@@ -0,0 +1,198 @@
+using System;
+using System.Diagnostics.CodeAnalysis;
+using System.Globalization;
+
+namespace AsyncEndpoints.JobProcessing;
+
+/// <summary>
+/// Represents a five-field cron expression (minute, hour, day of month, month and day of week) evaluated in UTC.
+/// Every field supports '*', single values, ranges ("1-5"), lists ("1,15") and steps ("*/15", "0-30/10").
+/// Sunday is both 0 and 7 in the day of week field.
+/// </summary>
+public sealed class CronExpression
+{
+	private static readonly int _maxSearchYears = 5;
+
+	private readonly string _expression;
+	private readonly ulong _minutes;
+	private readonly ulong _hours;
+	private readonly ulong _daysOfMonth;
+	private readonly ulong _months;
+	private readonly ulong _daysOfWeek;
+	private readonly bool _daysRestrictedByBothFields;
+
+	private CronExpression(string expression, ulong minutes, ulong hours, ulong daysOfMonth, ulong months, ulong daysOfWeek, bool daysRestrictedByBothFields)
+	{
+		_expression = expression;
+		_minutes = minutes;
+		_hours = hours;
+		_daysOfMonth = daysOfMonth;
+		_months = months;
+		_daysOfWeek = daysOfWeek;
+		_daysRestrictedByBothFields = daysRestrictedByBothFields;
+	}
+
+	/// <summary>
+	/// Parses a five-field cron expression.
+	/// </summary>
+	/// <param name="expression">The cron expression, e.g. "0 3 * * *" for every day at 03:00 UTC.</param>
+	/// <returns>The parsed cron expression.</returns>
+	/// <exception cref="FormatException">Thrown when the expression is not a valid five-field cron expression.</exception>
+	public static CronExpression Parse(string expression)
+	{
+		if (!TryParse(expression, out var cronExpression))
+			throw new FormatException($"'{expression}' is not a valid cron expression. Expected five fields: minute hour day-of-month month day-of-week.");
+
+		return cronExpression;
+	}
+
+	/// <summary>
+	/// Attempts to parse a five-field cron expression.
+	/// </summary>
+	/// <param name="expression">The cron expression, e.g. "0 3 * * *" for every day at 03:00 UTC.</param>
+	/// <param name="cronExpression">The parsed cron expression, if the expression is valid.</param>
+	/// <returns>True if the expression is valid, otherwise false.</returns>
+	public static bool TryParse(string? expression, [NotNullWhen(true)] out CronExpression? cronExpression)
+	{
+		cronExpression = null;
+		if (string.IsNullOrWhiteSpace(expression))
+			return false;
+
+		var fields = expression.Split(' ', StringSplitOptions.RemoveEmptyEntries);
+		if (fields.Length != 5)
+			return false;
+
+		if (!TryParseField(fields[0], 0, 59, out var minutes)
+			|| !TryParseField(fields[1], 0, 23, out var hours)
+			|| !TryParseField(fields[2], 1, 31, out var daysOfMonth)
+			|| !TryParseField(fields[3], 1, 12, out var months)
+			|| !TryParseField(fields[4], 0, 7, out var daysOfWeek))
+		{
+			return false;
+		}
+
+		// Sunday can be written as 7
+		if ((daysOfWeek & (1UL << 7)) != 0)
+		{
+			daysOfWeek = (daysOfWeek & ~(1UL << 7)) | 1UL;
+		}
+
+		// As in standard cron, a day matches either field when both day fields are restricted
+		var daysRestrictedByBothFields = !fields[2].StartsWith('*') && !fields[4].StartsWith('*');
+
+		cronExpression = new CronExpression(string.Join(' ', fields), minutes, hours, daysOfMonth, months, daysOfWeek, daysRestrictedByBothFields);
+		return true;
+	}
+
+	/// <summary>
+	/// Gets the first occurrence strictly after the specified time.
+	/// </summary>
+	/// <param name="after">The time to search from.</param>
+	/// <returns>The next occurrence in UTC, or null if the expression has no occurrence within the next five years.</returns>
+	public DateTimeOffset? GetNextOccurrence(DateTimeOffset after)
+	{
+		var utc = after.UtcDateTime;
+		var candidate = new DateTime(utc.Year, utc.Month, utc.Day, utc.Hour, utc.Minute, 0, DateTimeKind.Utc).AddMinutes(1);
+		var limit = candidate.AddYears(_maxSearchYears);
+
+		while (candidate < limit)
+		{
+			if (!Contains(_months, candidate.Month))
+			{
+				candidate = new DateTime(candidate.Year, candidate.Month, 1, 0, 0, 0, DateTimeKind.Utc).AddMonths(1);
+				continue;
+			}
+
+			if (!MatchesDay(candidate))
+			{
+				candidate = candidate.Date.AddDays(1);
+				continue;
+			}
+
+			if (!Contains(_hours, candidate.Hour))
+			{
+				candidate = candidate.Date.AddHours(candidate.Hour + 1);
+				continue;
+			}
+
+			if (!Contains(_minutes, candidate.Minute))
+			{
+				candidate = candidate.AddMinutes(1);
+				continue;
+			}
+
+			return new DateTimeOffset(candidate);
+		}
+
+		return null;
+	}
+
+	/// <inheritdoc />
+	public override string ToString() => _expression;
+
+	private bool MatchesDay(DateTime date)
+	{
+		var dayOfMonthMatches = Contains(_daysOfMonth, date.Day);
+		var dayOfWeekMatches = Contains(_daysOfWeek, (int)date.DayOfWeek);
+
+		return _daysRestrictedByBothFields
+			? dayOfMonthMatches || dayOfWeekMatches
+			: dayOfMonthMatches && dayOfWeekMatches;
+	}
+
+	private static bool Contains(ulong values, int value) => (values & (1UL << value)) != 0;
+
+	private static bool TryParseField(string field, int min, int max, out ulong values)
+	{
+		values = 0;
+		foreach (var part in field.Split(','))
+		{
+			var rangeAndStep = part.Split('/');
+			if (rangeAndStep.Length > 2)
+				return false;
+
+			var step = 1;
+			if (rangeAndStep.Length == 2 && (!TryParseNumber(rangeAndStep[1], out step) || step <= 0))
+				return false;
+
+			int start;
+			int end;
+			var range = rangeAndStep[0];
+			if (range == "*")
+			{
+				start = min;
+				end = max;
+			}
+			else
+			{
+				var bounds = range.Split('-');
+				if (bounds.Length > 2 || !TryParseNumber(bounds[0], out start))
+					return false;
+
+				if (bounds.Length == 2)
+				{
+					if (!TryParseNumber(bounds[1], out end))
+						return false;
+				}
+				else
+				{
+					// A single value with a step, e.g. "5/15", runs from the value to the end of the range
+					end = rangeAndStep.Length == 2 ? max : start;
+				}
+			}
+
+			if (start < min || end > max || start > end)
+				return false;
+
+			for (var value = start; value <= end; value += step)
+			{
+				values |= 1UL << value;
+			}
+		}
+
+		return true;
+	}
+
+	private static bool TryParseNumber(string value, out int number) =>
+		int.TryParse(value, NumberStyles.None, CultureInfo.InvariantCulture, out number);
+}
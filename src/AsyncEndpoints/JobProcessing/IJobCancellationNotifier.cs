@@ -0,0 +1,26 @@
+using System;
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace AsyncEndpoints.JobProcessing;
+
+/// <summary>
+/// Defines a contract for broadcasting job cancellation requests to the workers that are processing the jobs.
+/// </summary>
+public interface IJobCancellationNotifier
+{
+	/// <summary>
+	/// Notifies the worker processing a job that the job has been canceled
+	/// </summary>
+	/// <param name="jobId">The unique identifier of the canceled job</param>
+	/// <param name="workerId">The unique identifier of the worker processing the job</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	Task NotifyCancellation(Guid jobId, Guid workerId, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Subscribes to job cancellation notifications until the cancellation token is triggered
+	/// </summary>
+	/// <param name="onCancellationRequested">Callback invoked with the job ID and worker ID of every canceled job</param>
+	/// <param name="cancellationToken">Cancellation token that ends the subscription</param>
+	Task Subscribe(Action<Guid, Guid> onCancellationRequested, CancellationToken cancellationToken);
+}
@@ -0,0 +1,31 @@
+using AsyncEndpoints.Utilities;
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace AsyncEndpoints.JobProcessing;
+
+/// <summary>
+/// Submits jobs from application code, such as domain services, message consumers or other handlers, without an HTTP request.
+/// </summary>
+public interface IJobClient
+{
+	/// <summary>
+	/// Submits a job whose handler takes a request of type <typeparamref name="TRequest"/>.
+	/// </summary>
+	/// <typeparam name="TRequest">The type of the request passed to the handler.</typeparam>
+	/// <param name="jobName">The name of the handler that processes the job.</param>
+	/// <param name="request">The request passed to the handler, serialized through the registered serializer.</param>
+	/// <param name="options">Optional job ID, headers, route and query parameters, callback URL and run time of the job.</param>
+	/// <param name="cancellationToken">Cancellation token.</param>
+	/// <returns>The created job, or a failure if no handler is registered for the job name with a matching request type.</returns>
+	Task<MethodResult<Job>> SubmitJob<TRequest>(string jobName, TRequest request, JobSubmissionOptions? options = null, CancellationToken cancellationToken = default);
+
+	/// <summary>
+	/// Submits a job whose handler takes no request body.
+	/// </summary>
+	/// <param name="jobName">The name of the handler that processes the job.</param>
+	/// <param name="options">Optional job ID, headers, route and query parameters, callback URL and run time of the job.</param>
+	/// <param name="cancellationToken">Cancellation token.</param>
+	/// <returns>The created job, or a failure if no handler without request body is registered for the job name.</returns>
+	Task<MethodResult<Job>> SubmitJob(string jobName, JobSubmissionOptions? options = null, CancellationToken cancellationToken = default);
+}
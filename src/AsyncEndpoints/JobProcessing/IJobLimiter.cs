@@ -0,0 +1,26 @@
+using AsyncEndpoints.Utilities;
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace AsyncEndpoints.JobProcessing;
+
+/// <summary>
+/// Defines a contract for enforcing the concurrency and rate limits of job names before their claimed jobs are processed.
+/// </summary>
+public interface IJobLimiter
+{
+	/// <summary>
+	/// Takes a concurrency slot and a rate limit token for a claimed job, if its name is limited
+	/// </summary>
+	/// <param name="job">The claimed job</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	/// <returns>Whether the job may be processed now, or how long it should be deferred</returns>
+	Task<MethodResult<JobLimitAcquisition>> TryAcquire(Job job, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Releases the concurrency slot taken for a job once the job is no longer processed
+	/// </summary>
+	/// <param name="job">The job that was processed</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	Task<MethodResult> Release(Job job, CancellationToken cancellationToken);
+}
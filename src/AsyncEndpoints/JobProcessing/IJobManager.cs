@@ -1,6 +1,8 @@
+using AsyncEndpoints.Infrastructure.Blobs;
 using AsyncEndpoints.Utilities;
 using Microsoft.AspNetCore.Http;
 using System;
+using System.Collections.Generic;
 using System.Threading;
 using System.Threading.Tasks;
 
@@ -16,11 +18,47 @@ public interface IJobManager
 	/// </summary>
 	Task<MethodResult<Job>> SubmitJob(string jobName, string payload, HttpContext httpContext, CancellationToken cancellationToken);
 
+	/// <summary>
+	/// Submits a new job to the system without an HTTP request
+	/// </summary>
+	/// <param name="jobName">The name of the handler that processes the job</param>
+	/// <param name="payload">The serialized request passed to the handler</param>
+	/// <param name="options">The job ID, headers, route and query parameters, callback URL and run time of the job</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	/// <returns>The created job, or the existing job if one with the same ID was already created</returns>
+	Task<MethodResult<Job>> SubmitJob(string jobName, string payload, JobSubmissionOptions options, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Schedules a new job that is not claimed by a worker before the specified time
+	/// </summary>
+	/// <param name="jobName">The name of the handler that processes the job</param>
+	/// <param name="payload">The serialized request passed to the handler</param>
+	/// <param name="runAt">The time the job should run at; jobs due in the past are queued immediately</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	/// <returns>The created job</returns>
+	Task<MethodResult<Job>> ScheduleJob(string jobName, string payload, DateTimeOffset runAt, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Schedules a new job with the specified ID, returning the existing job if one with the same ID was already created
+	/// </summary>
+	/// <param name="jobId">The ID of the job; scheduling the same ID more than once creates the job only once</param>
+	/// <param name="jobName">The name of the handler that processes the job</param>
+	/// <param name="payload">The serialized request passed to the handler</param>
+	/// <param name="runAt">The time the job should run at; jobs due in the past are queued immediately</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	/// <returns>The created or existing job</returns>
+	Task<MethodResult<Job>> ScheduleJob(Guid jobId, string jobName, string payload, DateTimeOffset runAt, CancellationToken cancellationToken);
+
 	/// <summary>
 	/// Claims the next available job for processing by a worker
 	/// </summary>
 	Task<MethodResult<Job>> ClaimNextAvailableJob(Guid workerId, CancellationToken cancellationToken);
 
+	/// <summary>
+	/// Claims up to the specified number of available jobs for processing by a worker
+	/// </summary>
+	Task<MethodResult<List<Job>>> ClaimNextAvailableJobs(Guid workerId, int maxCount, CancellationToken cancellationToken);
+
 	/// <summary>
 	/// Processes a successful job completion
 	/// </summary>
@@ -31,8 +69,81 @@ public interface IJobManager
 	/// </summary>
 	Task<MethodResult> ProcessJobFailure(Guid jobId, AsyncEndpointError error, CancellationToken cancellationToken);
 
+	/// <summary>
+	/// Returns a claimed job to the queue without counting a retry, so it is claimed again after the specified delay
+	/// </summary>
+	/// <param name="jobId">The ID of the claimed job</param>
+	/// <param name="delay">How long the job is not claimed for</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	Task<MethodResult> DeferJob(Guid jobId, TimeSpan delay, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Returns a job claimed by the worker to the queue without counting a retry, so another worker can claim it right away.
+	/// Does nothing if the job is no longer held by the worker
+	/// </summary>
+	/// <param name="jobId">The ID of the claimed job</param>
+	/// <param name="workerId">The ID of the worker that claimed the job</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	Task<MethodResult> ReleaseJob(Guid jobId, Guid workerId, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Stores the latest progress reported by the handler processing a job
+	/// </summary>
+	Task<MethodResult> ReportJobProgress(Guid jobId, JobProgress progress, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Cancels a queued, scheduled or in-progress job and signals the worker processing it, if any
+	/// </summary>
+	Task<MethodResult<Job>> CancelJob(Guid jobId, CancellationToken cancellationToken);
+
 	/// <summary>
 	/// Gets a job by its ID
 	/// </summary>
 	Task<MethodResult<Job>> GetJobById(Guid jobId, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Gets the payload of a job, reading it from the blob store if it was too large to be kept in the job store
+	/// </summary>
+	/// <param name="job">The job whose payload is read</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	/// <returns>The serialized request passed to the handler of the job</returns>
+	Task<MethodResult<string>> GetJobPayload(Job job, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Opens the result of a completed job, whether it is kept in the job store or in the blob store
+	/// </summary>
+	/// <param name="jobId">The ID of the job</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	/// <returns>The content and content type of the result, or a JOB_RESULT_NOT_AVAILABLE error if the job has not completed</returns>
+	Task<MethodResult<JobBlob>> GetJobResult(Guid jobId, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Queries jobs matching the specified filters, one page at a time
+	/// </summary>
+	Task<MethodResult<JobQueryResult>> QueryJobs(JobQuery query, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Retrieves the live workers with their concurrency and the jobs they hold
+	/// </summary>
+	Task<MethodResult<List<WorkerHeartbeat>>> GetWorkers(CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Retrieves the job counts per status and per job name, the oldest queued job and the scheduled retries
+	/// </summary>
+	Task<MethodResult<JobStats>> GetJobStats(CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Moves a failed job back to the queue, optionally resetting its retry count
+	/// </summary>
+	Task<MethodResult<Job>> RequeueJob(Guid jobId, bool resetRetries, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Moves all failed jobs with the specified name back to the queue and returns how many were requeued
+	/// </summary>
+	Task<MethodResult<int>> RequeueFailedJobs(string jobName, bool resetRetries, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Deletes a job from the job store, regardless of its status
+	/// </summary>
+	Task<MethodResult> DeleteJob(Guid jobId, CancellationToken cancellationToken);
 }
@@ -11,9 +11,9 @@ public interface IJobRecoveryService
 	bool SupportsJobRecovery { get; }
 
 	/// <summary>
-	/// Recovers stuck jobs that were in progress beyond the specified timeout
+	/// Recovers stuck jobs, which are in progress with a lease that was last renewed before the specified time because the worker holding them died
 	/// </summary>
-	/// <param name="timeoutUnixTime">The Unix timestamp before which jobs should be considered stuck</param>
+	/// <param name="timeoutUnixTime">The Unix timestamp before which a lease renewal is considered expired</param>
 	/// <param name="maxRetries">The maximum number of retries for failed jobs</param>
 	/// <param name="cancellationToken">Cancellation token</param>
 	/// <returns>The number of jobs recovered</returns>
@@ -0,0 +1,26 @@
+using System;
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace AsyncEndpoints.JobProcessing;
+
+/// <summary>
+/// Defines a contract for broadcasting job status changes to the instances serving clients that wait for them.
+/// </summary>
+public interface IJobStatusNotifier
+{
+	/// <summary>
+	/// Notifies subscribers that a job has changed
+	/// </summary>
+	/// <param name="jobId">The unique identifier of the changed job</param>
+	/// <param name="status">The status of the job after the change</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	Task NotifyStatusChanged(Guid jobId, JobStatus status, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Subscribes to job status change notifications until the cancellation token is triggered
+	/// </summary>
+	/// <param name="onStatusChanged">Callback invoked with the job ID and status of every changed job</param>
+	/// <param name="cancellationToken">Cancellation token that ends the subscription</param>
+	Task Subscribe(Action<Guid, JobStatus> onStatusChanged, CancellationToken cancellationToken);
+}
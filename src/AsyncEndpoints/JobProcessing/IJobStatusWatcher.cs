@@ -0,0 +1,24 @@
+using System;
+
+namespace AsyncEndpoints.JobProcessing;
+
+/// <summary>
+/// Tracks the clients of the current instance that wait for job status changes.
+/// </summary>
+public interface IJobStatusWatcher
+{
+	/// <summary>
+	/// Starts watching a job for status changes.
+	/// Watch before reading the job so that changes made in between are not missed.
+	/// </summary>
+	/// <param name="jobId">The unique identifier of the job.</param>
+	/// <returns>A <see cref="JobStatusSubscription"/> that must be disposed when the client stops waiting.</returns>
+	JobStatusSubscription Watch(Guid jobId);
+
+	/// <summary>
+	/// Signals the subscriptions watching a job that the job has changed.
+	/// </summary>
+	/// <param name="jobId">The unique identifier of the changed job.</param>
+	/// <param name="status">The status of the job after the change.</param>
+	void OnStatusChanged(Guid jobId, JobStatus status);
+}
@@ -1,5 +1,7 @@
+using AsyncEndpoints.Configuration;
 using AsyncEndpoints.Utilities;
 using System;
+using System.Collections.Generic;
 using System.Threading;
 using System.Threading.Tasks;
 
@@ -16,6 +18,17 @@ public interface IJobStore
 	/// </summary>
 	Task<MethodResult> CreateJob(Job job, CancellationToken cancellationToken);
 
+	/// <summary>
+	/// Atomically creates a new job together with the idempotency key it was submitted with,
+	/// unless the key is already mapped to an existing job and has not expired
+	/// </summary>
+	/// <param name="job">The job to create</param>
+	/// <param name="idempotencyKey">The mapping of the scoped idempotency key to the new job</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	/// <returns>The new job, the existing job if the key was submitted with the same payload before,
+	/// or an <see cref="AsyncEndpointsConstants.IdempotencyKeyMismatchErrorCode"/> error if it was submitted with a different payload</returns>
+	Task<MethodResult<Job>> CreateJobWithIdempotencyKey(Job job, JobIdempotencyKey idempotencyKey, CancellationToken cancellationToken);
+
 	/// <summary>
 	/// Retrieves a job by its unique identifier
 	/// </summary>
@@ -27,9 +40,134 @@ public interface IJobStore
 	Task<MethodResult> UpdateJob(Job job, CancellationToken cancellationToken);
 
 	/// <summary>
-	/// Atomically claims the next available job for a specific worker
+	/// Atomically updates the complete job entity, only if the job is still in progress and held by the specified worker.
+	/// Used to store the outcome of a processed job, so a job canceled, released or recovered in the meantime is not overwritten
+	/// </summary>
+	/// <param name="job">The job holding the outcome of its processing</param>
+	/// <param name="workerId">The ID of the worker that processed the job</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	/// <returns>True if the job was updated, false if it is no longer in progress for the worker or no longer exists</returns>
+	Task<MethodResult<bool>> UpdateInProgressJob(Job job, Guid? workerId, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Atomically updates the progress of an in-progress job without touching any other job fields
+	/// </summary>
+	/// <param name="id">The unique identifier of the job</param>
+	/// <param name="progress">The progress reported by the handler processing the job</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	/// <returns>A successful result if the job exists; progress reported for jobs that are no longer in progress is ignored</returns>
+	Task<MethodResult> UpdateJobProgress(Guid id, JobProgress progress, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Atomically updates the completion callback of a job, such as its delivery status, without touching any other job fields
+	/// </summary>
+	/// <param name="id">The unique identifier of the job</param>
+	/// <param name="callback">The callback with its current delivery status</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	/// <returns>A successful result if the job exists, otherwise a failure with the JOB_NOT_FOUND error code</returns>
+	Task<MethodResult> UpdateJobCallback(Guid id, JobCallback callback, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Atomically claims the next available job for a specific worker.
+	/// Jobs are claimed in order of their creation time, where every priority level counts as <see cref="AsyncEndpointsConstants.PriorityAgingSeconds"/> seconds of waiting
 	/// </summary>
-	Task<MethodResult<Job>> ClaimNextJobForWorker(Guid workerId, CancellationToken cancellationToken);
+	/// <param name="workerId">The ID of the worker claiming the job</param>
+	/// <param name="queue">The queue to claim the job from, or null to claim from every queue</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	/// <returns>The claimed job, or a successful result without a job if no job is available</returns>
+	Task<MethodResult<Job>> ClaimNextJobForWorker(Guid workerId, string? queue, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Atomically claims up to the specified number of available jobs for a specific worker, in the same order as <see cref="ClaimNextJobForWorker"/>
+	/// </summary>
+	/// <param name="workerId">The ID of the worker claiming the jobs</param>
+	/// <param name="queue">The queue to claim the jobs from, or null to claim from every queue</param>
+	/// <param name="maxCount">The maximum number of jobs to claim</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	/// <returns>The claimed jobs, which are empty if no job is available</returns>
+	Task<MethodResult<List<Job>>> ClaimNextJobsForWorker(Guid workerId, string? queue, int maxCount, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Atomically cancels a queued, scheduled or in-progress job
+	/// </summary>
+	/// <param name="id">The unique identifier of the job to cancel</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	/// <returns>The canceled job, including the ID of the worker that was processing it, if any</returns>
+	Task<MethodResult<Job>> CancelJob(Guid id, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Atomically moves a failed job back to the queue and clears its expiry
+	/// </summary>
+	/// <param name="id">The unique identifier of the job to requeue</param>
+	/// <param name="resetRetries">True to reset the retry count of the job, false to keep it</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	/// <returns>The requeued job, or a JOB_NOT_REQUEUEABLE error if the job has not failed</returns>
+	Task<MethodResult<Job>> RequeueJob(Guid id, bool resetRetries, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Atomically returns an in-progress job claimed by a worker to the queue without counting a retry, so another worker can claim it.
+	/// Used by workers for jobs they claimed but did not process, or stopped processing because they are shutting down
+	/// </summary>
+	/// <param name="id">The unique identifier of the job to release</param>
+	/// <param name="workerId">The ID of the worker that claimed the job</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	/// <returns>A successful result, whether or not the job was still held by the worker, or a JOB_NOT_FOUND error if it does not exist</returns>
+	Task<MethodResult> ReleaseJob(Guid id, Guid workerId, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Queries jobs matching the specified filters, newest first, one page at a time
+	/// </summary>
+	/// <param name="query">The filters and paging options</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	/// <returns>A page of matching jobs and the cursor of the next page, if any</returns>
+	Task<MethodResult<JobQueryResult>> QueryJobs(JobQuery query, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Counts the jobs in each status and the unfinished jobs of each job name, and finds the oldest queued job and the scheduled retries
+	/// </summary>
+	/// <param name="cancellationToken">Cancellation token</param>
+	/// <returns>A snapshot of the jobs in the store</returns>
+	Task<MethodResult<JobStats>> GetJobStats(CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Deletes a job and removes it from every queue and index
+	/// </summary>
+	/// <param name="id">The unique identifier of the job to delete</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	/// <returns>A successful result if the job was deleted, or a JOB_NOT_FOUND error if it does not exist</returns>
+	Task<MethodResult> DeleteJob(Guid id, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Deletes finished jobs whose <see cref="Job.ExpiresAt"/> has passed, along with expired idempotency keys. Stores that expire jobs natively
+	/// only remove the queue and index entries left behind by expired jobs
+	/// </summary>
+	/// <param name="maxCount">The maximum number of expired jobs to delete</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	/// <returns>The number of expired jobs deleted</returns>
+	Task<MethodResult<int>> DeleteExpiredJobs(int maxCount, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Registers a worker or refreshes its registration, and renews the leases of the in-progress jobs it holds
+	/// </summary>
+	/// <param name="heartbeat">The heartbeat of the worker, including the IDs of the jobs it holds</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	/// <returns>A successful result if the heartbeat was stored; leases of jobs no longer held by the worker are not renewed</returns>
+	Task<MethodResult> SaveWorkerHeartbeat(WorkerHeartbeat heartbeat, CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Retrieves the live workers, whose latest heartbeat has not expired
+	/// </summary>
+	/// <param name="cancellationToken">Cancellation token</param>
+	/// <returns>The latest heartbeat of every live worker</returns>
+	Task<MethodResult<List<WorkerHeartbeat>>> GetWorkers(CancellationToken cancellationToken);
+
+	/// <summary>
+	/// Removes the registration of a worker that is shutting down
+	/// </summary>
+	/// <param name="workerId">The ID of the worker</param>
+	/// <param name="cancellationToken">Cancellation token</param>
+	/// <returns>A successful result, whether or not the worker was registered</returns>
+	Task<MethodResult> RemoveWorker(Guid workerId, CancellationToken cancellationToken);
 
 	/// <summary>
 	/// Determines if this job store implementation supports job recovery
@@ -37,9 +175,9 @@ public interface IJobStore
 	bool SupportsJobRecovery { get; }
 
 	/// <summary>
-	/// Recovers stuck jobs that were in progress beyond the specified timeout
+	/// Recovers stuck jobs, which are in progress with a lease that was last renewed before the specified time because the worker holding them died
 	/// </summary>
-	/// <param name="timeoutUnixTime">The Unix timestamp before which jobs should be considered stuck</param>
+	/// <param name="timeoutUnixTime">The Unix timestamp before which a lease renewal is considered expired</param>
 	/// <param name="maxRetries">The maximum number of retries for failed jobs</param>
 	/// <param name="cancellationToken">Cancellation token</param>
 	/// <returns>The number of jobs recovered</returns>
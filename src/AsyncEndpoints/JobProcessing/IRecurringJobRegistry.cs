@@ -0,0 +1,37 @@
+using System;
+using System.Collections.Generic;
+
+namespace AsyncEndpoints.JobProcessing;
+
+/// <summary>
+/// Holds the recurring job definitions and tracks their next and last occurrences.
+/// </summary>
+public interface IRecurringJobRegistry
+{
+	/// <summary>
+	/// Gets the registered recurring job definitions.
+	/// </summary>
+	IReadOnlyList<RecurringJobDefinition> Definitions { get; }
+
+	/// <summary>
+	/// Gets the schedule state of a recurring job.
+	/// </summary>
+	/// <param name="name">The name of the recurring job.</param>
+	/// <returns>The schedule state, or null if no recurring job with the name is registered.</returns>
+	RecurringJobState? GetState(string name);
+
+	/// <summary>
+	/// Gets the schedule state of every recurring job.
+	/// </summary>
+	/// <returns>The schedule states, in registration order.</returns>
+	IReadOnlyList<RecurringJobState> GetStates();
+
+	/// <summary>
+	/// Records that an occurrence of a recurring job was enqueued and moves the job to its next occurrence.
+	/// </summary>
+	/// <param name="name">The name of the recurring job.</param>
+	/// <param name="runAt">The scheduled time of the enqueued occurrence.</param>
+	/// <param name="jobId">The ID of the job created for the occurrence.</param>
+	/// <param name="nextRunAt">The time of the next occurrence, or null if the schedule has no further occurrences.</param>
+	void RecordRun(string name, DateTimeOffset runAt, Guid jobId, DateTimeOffset? nextRunAt);
+}
@@ -0,0 +1,30 @@
+using System;
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace AsyncEndpoints.JobProcessing;
+
+/// <inheritdoc />
+/// <summary>
+/// An in-process implementation of IJobCancellationNotifier that invokes subscribers directly.
+/// This implementation is suitable when the API and the worker run in the same process.
+/// </summary>
+public class InMemoryJobCancellationNotifier : IJobCancellationNotifier
+{
+	private event Action<Guid, Guid>? CancellationRequested;
+
+	/// <inheritdoc />
+	public Task NotifyCancellation(Guid jobId, Guid workerId, CancellationToken cancellationToken)
+	{
+		CancellationRequested?.Invoke(jobId, workerId);
+		return Task.CompletedTask;
+	}
+
+	/// <inheritdoc />
+	public Task Subscribe(Action<Guid, Guid> onCancellationRequested, CancellationToken cancellationToken)
+	{
+		CancellationRequested += onCancellationRequested;
+		cancellationToken.Register(() => CancellationRequested -= onCancellationRequested);
+		return Task.CompletedTask;
+	}
+}
@@ -0,0 +1,89 @@
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.Infrastructure;
+using AsyncEndpoints.Utilities;
+using Microsoft.Extensions.Options;
+using System;
+using System.Collections.Generic;
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace AsyncEndpoints.JobProcessing;
+
+/// <inheritdoc />
+/// <summary>
+/// An in-process implementation of IJobLimiter that keeps the concurrency slots and rate limit tokens in memory.
+/// The limits hold per worker, so they are only exact for single-instance deployments.
+/// </summary>
+public class InMemoryJobLimiter(IOptions<AsyncEndpointsConfigurations> configurations, IDateTimeProvider dateTimeProvider) : IJobLimiter
+{
+	private readonly AsyncEndpointsWorkerConfigurations _workerConfigurations = configurations.Value.WorkerConfigurations;
+	private readonly IDateTimeProvider _dateTimeProvider = dateTimeProvider;
+	private readonly Dictionary<string, HashSet<Guid>> _runningJobs = [];
+	private readonly Dictionary<string, (double Tokens, DateTimeOffset UpdatedAt)> _rateLimitBuckets = [];
+	private readonly object _lock = new();
+
+	/// <inheritdoc />
+	public Task<MethodResult<JobLimitAcquisition>> TryAcquire(Job job, CancellationToken cancellationToken)
+	{
+		var limits = _workerConfigurations.GetJobLimits(job.Name);
+		if (limits == null)
+			return Task.FromResult(MethodResult<JobLimitAcquisition>.Success(JobLimitAcquisition.Acquired));
+
+		lock (_lock)
+		{
+			if (!_runningJobs.TryGetValue(job.Name, out var runningJobs))
+			{
+				runningJobs = [];
+				_runningJobs[job.Name] = runningJobs;
+			}
+
+			if (limits.MaxConcurrency > 0 && !runningJobs.Contains(job.Id) && runningJobs.Count >= limits.MaxConcurrency)
+			{
+				return Task.FromResult(MethodResult<JobLimitAcquisition>.Success(
+					JobLimitAcquisition.Saturated(TimeSpan.FromMilliseconds(AsyncEndpointsConstants.JobLimitDeferDelayMs))));
+			}
+
+			if (limits.RateLimitPermits > 0 && limits.RateLimitPeriod > TimeSpan.Zero)
+			{
+				var permits = limits.RateLimitPermits.Value;
+				var periodMs = limits.RateLimitPeriod.TotalMilliseconds;
+				var now = _dateTimeProvider.DateTimeOffsetNow;
+
+				// Refill the bucket for the time passed since it was last used, up to the number of permits
+				var tokens = _rateLimitBuckets.TryGetValue(job.Name, out var bucket)
+					? Math.Min(permits, bucket.Tokens + (now - bucket.UpdatedAt).TotalMilliseconds * permits / periodMs)
+					: permits;
+
+				if (tokens < 1)
+				{
+					_rateLimitBuckets[job.Name] = (tokens, now);
+					return Task.FromResult(MethodResult<JobLimitAcquisition>.Success(
+						JobLimitAcquisition.Saturated(TimeSpan.FromMilliseconds(Math.Ceiling((1 - tokens) * periodMs / permits)))));
+				}
+
+				_rateLimitBuckets[job.Name] = (tokens - 1, now);
+			}
+
+			if (limits.MaxConcurrency > 0)
+			{
+				runningJobs.Add(job.Id);
+			}
+		}
+
+		return Task.FromResult(MethodResult<JobLimitAcquisition>.Success(JobLimitAcquisition.Acquired));
+	}
+
+	/// <inheritdoc />
+	public Task<MethodResult> Release(Job job, CancellationToken cancellationToken)
+	{
+		lock (_lock)
+		{
+			if (_runningJobs.TryGetValue(job.Name, out var runningJobs))
+			{
+				runningJobs.Remove(job.Id);
+			}
+		}
+
+		return Task.FromResult(MethodResult.Success());
+	}
+}
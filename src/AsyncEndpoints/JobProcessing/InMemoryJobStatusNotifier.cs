@@ -0,0 +1,30 @@
+using System;
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace AsyncEndpoints.JobProcessing;
+
+/// <inheritdoc />
+/// <summary>
+/// An in-process implementation of IJobStatusNotifier that invokes subscribers directly.
+/// This implementation is suitable when the API and the worker run in the same process.
+/// </summary>
+public class InMemoryJobStatusNotifier : IJobStatusNotifier
+{
+	private event Action<Guid, JobStatus>? StatusChanged;
+
+	/// <inheritdoc />
+	public Task NotifyStatusChanged(Guid jobId, JobStatus status, CancellationToken cancellationToken)
+	{
+		StatusChanged?.Invoke(jobId, status);
+		return Task.CompletedTask;
+	}
+
+	/// <inheritdoc />
+	public Task Subscribe(Action<Guid, JobStatus> onStatusChanged, CancellationToken cancellationToken)
+	{
+		StatusChanged += onStatusChanged;
+		cancellationToken.Register(() => StatusChanged -= onStatusChanged);
+		return Task.CompletedTask;
+	}
+}
@@ -1,9 +1,11 @@
+using AsyncEndpoints.Configuration;
 using AsyncEndpoints.Infrastructure;
 using AsyncEndpoints.Infrastructure.Observability;
 using AsyncEndpoints.Utilities;
 using Microsoft.Extensions.Logging;
 using System;
 using System.Collections.Concurrent;
+using System.Collections.Generic;
 using System.Diagnostics;
 using System.Linq;
 using System.Threading;
@@ -16,23 +18,43 @@ namespace AsyncEndpoints.JobProcessing;
 /// An in-memory implementation of IJobStore that uses a thread-safe concurrent dictionary for storage.
 /// This implementation is suitable for development or single-instance deployments but does not support job recovery.
 /// </summary>
-public class InMemoryJobStore(ILogger<InMemoryJobStore> logger, IDateTimeProvider dateTimeProvider, IAsyncEndpointsObservability metrics) : IJobStore
+public class InMemoryJobStore(ILogger<InMemoryJobStore> logger, IDateTimeProvider dateTimeProvider, IAsyncEndpointsObservability metrics, IJobStatusNotifier jobStatusNotifier) : IJobStore
 {
 	private readonly ILogger<InMemoryJobStore> _logger = logger;
 	private readonly IDateTimeProvider _dateTimeProvider = dateTimeProvider;
 	private readonly IAsyncEndpointsObservability _metrics = metrics;
+	private readonly IJobStatusNotifier _jobStatusNotifier = jobStatusNotifier;
 	private readonly ConcurrentDictionary<Guid, Job> jobs = new();
+	private readonly ConcurrentDictionary<string, JobIdempotencyKey> idempotencyKeys = new(StringComparer.Ordinal);
+	private readonly ConcurrentDictionary<Guid, WorkerHeartbeat> workers = new();
+	private readonly object _idempotencyLock = new();
 
 	private static readonly string _jobStoreErrorCode = "JOB_STORE_ERROR";
 	private static readonly string _createJobOperationName = "CreateJob";
+	private static readonly string _createJobWithIdempotencyKeyOperationName = "CreateJobWithIdempotencyKey";
 	private static readonly string _getJobByIdOperationName = "GetJobById";
 	private static readonly string _updateJobOperationName = "UpdateJob";
+	private static readonly string _updateInProgressJobOperationName = "UpdateInProgressJob";
+	private static readonly string _updateJobProgressOperationName = "UpdateJobProgress";
+	private static readonly string _updateJobCallbackOperationName = "UpdateJobCallback";
 	private static readonly string _claimNextJobOperationName = "ClaimNextJob";
+	private static readonly string _claimNextJobsOperationName = "ClaimNextJobs";
+	private static readonly string _cancelJobOperationName = "CancelJob";
+	private static readonly string _requeueJobOperationName = "RequeueJob";
+	private static readonly string _releaseJobOperationName = "ReleaseJob";
+	private static readonly string _queryJobsOperationName = "QueryJobs";
+	private static readonly string _getJobStatsOperationName = "GetJobStats";
+	private static readonly string _deleteJobOperationName = "DeleteJob";
+	private static readonly string _deleteExpiredJobsOperationName = "DeleteExpiredJobs";
+	private static readonly string _saveWorkerHeartbeatOperationName = "SaveWorkerHeartbeat";
+	private static readonly string _getWorkersOperationName = "GetWorkers";
 	private static readonly string _invalidJobErrorCode = "INVALID_JOB";
 	private static readonly string _invalidJobIdErrorCode = "INVALID_JOB_ID";
 	private static readonly string _jobNotFoundErrorCode = "JOB_NOT_FOUND";
 	private static readonly string _duplicateJobErrorCode = "DUPLICATE_JOB";
 	private static readonly string _jobCreateFailedErrorCode = "JOB_CREATE_FAILED";
+	private static readonly string _jobNotCancelableErrorCode = "JOB_NOT_CANCELABLE";
+	private static readonly string _jobNotRequeueableErrorCode = "JOB_NOT_REQUEUEABLE";
 	private static readonly string _concurrencyConflict = "CONCURRENCY_CONFLICT";
 	private static readonly string _errorTypeTag = "error.type";
 
@@ -81,7 +103,7 @@ public class InMemoryJobStore(ILogger<InMemoryJobStore> logger, IDateTimeProvide
 				return Task.FromCanceled<MethodResult>(cancellationToken);
 			}
 
-			if (!jobs.TryAdd(job.Id, job))
+			if (!jobs.TryAdd(job.Id, job.CreateCopy()))
 			{
 				_logger.LogError("Failed to create job with ID {JobId}", job.Id);
 				_metrics.RecordStoreError(_createJobOperationName, _duplicateJobErrorCode, this.GetType().Name);
@@ -93,6 +115,7 @@ public class InMemoryJobStore(ILogger<InMemoryJobStore> logger, IDateTimeProvide
 			}
 
 			_logger.LogInformation("Created job {JobId} with name {JobName}", job.Id, job.Name);
+			NotifyStatusChanged(job);
 			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
 			_metrics.RecordStoreOperationDuration(_createJobOperationName, this.GetType().Name, duration);
 			_metrics.RecordStoreOperation(_createJobOperationName, this.GetType().Name);
@@ -114,6 +137,107 @@ public class InMemoryJobStore(ILogger<InMemoryJobStore> logger, IDateTimeProvide
 		}
 	}
 
+	/// <inheritdoc />
+	public Task<MethodResult<Job>> CreateJobWithIdempotencyKey(Job job, JobIdempotencyKey idempotencyKey, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_createJobWithIdempotencyKeyOperationName, this.GetType().Name, job?.Id);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (job == null)
+			{
+				_logger.LogWarning("Attempted to create null job");
+				_metrics.RecordStoreError(_createJobWithIdempotencyKeyOperationName, _invalidJobErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job");
+				activity?.SetTag(_errorTypeTag, _invalidJobErrorCode);
+
+				return Task.FromResult(MethodResult<Job>.Failure(
+					AsyncEndpointError.FromCode(_invalidJobErrorCode, "Job cannot be null")));
+			}
+
+			if (job.Id == Guid.Empty)
+			{
+				_logger.LogWarning("Attempted to create job with empty ID");
+				_metrics.RecordStoreError(_createJobWithIdempotencyKeyOperationName, _invalidJobIdErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job ID");
+				activity?.SetTag(_errorTypeTag, _invalidJobIdErrorCode);
+
+				return Task.FromResult(MethodResult<Job>.Failure(
+					AsyncEndpointError.FromCode(_invalidJobIdErrorCode, "Job ID cannot be empty")));
+			}
+
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job create operation cancelled");
+				return Task.FromCanceled<MethodResult<Job>>(cancellationToken);
+			}
+
+			// The key is looked up and the job created under a lock, so concurrent submissions with the same key create a single job
+			lock (_idempotencyLock)
+			{
+				// Keys whose job expired or was deleted are replaced like expired keys
+				if (idempotencyKeys.TryGetValue(idempotencyKey.Key, out var existingKey)
+					&& !existingKey.IsExpired(_dateTimeProvider.DateTimeOffsetNow)
+					&& jobs.TryGetValue(existingKey.JobId, out var existingJob))
+				{
+					if (existingKey.Fingerprint != idempotencyKey.Fingerprint)
+					{
+						_logger.LogWarning("Idempotency key of job {JobId} was reused with a different payload", existingKey.JobId);
+						_metrics.RecordStoreError(_createJobWithIdempotencyKeyOperationName, AsyncEndpointsConstants.IdempotencyKeyMismatchErrorCode, this.GetType().Name);
+						activity?.SetStatus(ActivityStatusCode.Error, "Idempotency key mismatch");
+						activity?.SetTag(_errorTypeTag, AsyncEndpointsConstants.IdempotencyKeyMismatchErrorCode);
+
+						return Task.FromResult(MethodResult<Job>.Failure(
+							AsyncEndpointError.FromCode(AsyncEndpointsConstants.IdempotencyKeyMismatchErrorCode, "Idempotency key was already used with a different payload")));
+					}
+
+					_logger.LogDebug("Found existing job {JobId} for idempotency key", existingJob.Id);
+					var existingDuration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+					_metrics.RecordStoreOperationDuration(_createJobWithIdempotencyKeyOperationName, this.GetType().Name, existingDuration);
+					_metrics.RecordStoreOperation(_createJobWithIdempotencyKeyOperationName, this.GetType().Name);
+
+					return Task.FromResult(MethodResult<Job>.Success(existingJob.CreateCopy()));
+				}
+
+				if (!jobs.TryAdd(job.Id, job.CreateCopy()))
+				{
+					_logger.LogError("Failed to create job with ID {JobId}", job.Id);
+					_metrics.RecordStoreError(_createJobWithIdempotencyKeyOperationName, _duplicateJobErrorCode, this.GetType().Name);
+					activity?.SetStatus(ActivityStatusCode.Error, "Duplicate job");
+					activity?.SetTag(_errorTypeTag, _duplicateJobErrorCode);
+
+					return Task.FromResult(MethodResult<Job>.Failure(
+						AsyncEndpointError.FromCode(_jobCreateFailedErrorCode, $"Failed to create job with ID {job.Id}")));
+				}
+
+				idempotencyKeys[idempotencyKey.Key] = idempotencyKey;
+			}
+
+			_logger.LogInformation("Created job {JobId} with name {JobName} for idempotency key", job.Id, job.Name);
+			NotifyStatusChanged(job);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_createJobWithIdempotencyKeyOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_createJobWithIdempotencyKeyOperationName, this.GetType().Name);
+
+			return Task.FromResult(MethodResult<Job>.Success(job));
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_createJobWithIdempotencyKeyOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error creating job: {JobName}", job?.Name);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_createJobWithIdempotencyKeyOperationName, this.GetType().Name, duration);
+
+			return Task.FromResult(MethodResult<Job>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error creating job: {ex.Message}", ex)));
+		}
+	}
+
 	/// <inheritdoc />
 	public Task<MethodResult<Job>> GetJobById(Guid id, CancellationToken cancellationToken)
 	{
@@ -157,7 +281,8 @@ public class InMemoryJobStore(ILogger<InMemoryJobStore> logger, IDateTimeProvide
 			_metrics.RecordStoreOperationDuration(_getJobByIdOperationName, this.GetType().Name, duration);
 			_metrics.RecordStoreOperation(_getJobByIdOperationName, this.GetType().Name);
 
-			return Task.FromResult(MethodResult<Job>.Success(job));
+			// Stored jobs are only replaced, never modified, so callers get a copy they can change before writing it back
+			return Task.FromResult(MethodResult<Job>.Success(job.CreateCopy()));
 		}
 		catch (Exception ex)
 		{
@@ -224,17 +349,7 @@ public class InMemoryJobStore(ILogger<InMemoryJobStore> logger, IDateTimeProvide
 			}
 
 			// Create a new job instance with updated properties using the existing job as base
-			var updatedJob = existingJob.CreateCopy(
-				status: job.Status,
-				workerId: job.WorkerId,
-				startedAt: job.StartedAt,
-				completedAt: job.CompletedAt,
-				result: job.Result,
-				error: job.Error,
-				retryCount: job.RetryCount,
-				retryDelayUntil: job.RetryDelayUntil,
-				lastUpdatedAt: _dateTimeProvider.DateTimeOffsetNow // This will update the LastUpdatedAt field
-			);
+			var updatedJob = CreateUpdatedCopy(existingJob, job);
 
 			// Perform atomic update using TryUpdate once (no loop needed with immutable pattern)
 			if (!jobs.TryUpdate(job.Id, updatedJob, existingJob))
@@ -250,6 +365,7 @@ public class InMemoryJobStore(ILogger<InMemoryJobStore> logger, IDateTimeProvide
 			}
 
 			_logger.LogDebug("Updated job {JobId}", job.Id);
+			NotifyStatusChanged(updatedJob);
 			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
 			_metrics.RecordStoreOperationDuration(_updateJobOperationName, this.GetType().Name, duration);
 			_metrics.RecordStoreOperation(_updateJobOperationName, this.GetType().Name);
@@ -272,7 +388,82 @@ public class InMemoryJobStore(ILogger<InMemoryJobStore> logger, IDateTimeProvide
 	}
 
 	/// <inheritdoc />
-	public Task<MethodResult<Job>> ClaimNextJobForWorker(Guid workerId, CancellationToken cancellationToken)
+	public Task<MethodResult<bool>> UpdateInProgressJob(Job job, Guid? workerId, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_updateInProgressJobOperationName, this.GetType().Name, job?.Id);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (job == null)
+			{
+				_logger.LogWarning("Attempted to update null job");
+				_metrics.RecordStoreError(_updateInProgressJobOperationName, _invalidJobErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job");
+				activity?.SetTag(_errorTypeTag, _invalidJobErrorCode);
+
+				return Task.FromResult(MethodResult<bool>.Failure(
+					AsyncEndpointError.FromCode(_invalidJobErrorCode, "Job cannot be null")));
+			}
+
+			if (job.Id == Guid.Empty)
+			{
+				_logger.LogWarning("Attempted to update job with empty ID");
+				_metrics.RecordStoreError(_updateInProgressJobOperationName, _invalidJobIdErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job ID");
+				activity?.SetTag(_errorTypeTag, _invalidJobIdErrorCode);
+
+				return Task.FromResult(MethodResult<bool>.Failure(
+					AsyncEndpointError.FromCode(_invalidJobIdErrorCode, "Job ID cannot be empty")));
+			}
+
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job update operation cancelled for ID {JobId}", job.Id);
+				return Task.FromCanceled<MethodResult<bool>>(cancellationToken);
+			}
+
+			// Use the immutable objects pattern to ensure atomic update of the job
+			Job? currentJob;
+			Job updatedJob;
+			do
+			{
+				// The job was deleted, canceled, released or recovered in the meantime, so it is left alone
+				if (!jobs.TryGetValue(job.Id, out currentJob) || currentJob.Status != JobStatus.InProgress || currentJob.WorkerId != workerId)
+				{
+					_logger.LogDebug("Job {JobId} is no longer held by worker {WorkerId}, skipping update", job.Id, workerId);
+					return Task.FromResult(MethodResult<bool>.Success(false));
+				}
+
+				updatedJob = CreateUpdatedCopy(currentJob, job);
+			} while (!jobs.TryUpdate(job.Id, updatedJob, currentJob));
+
+			_logger.LogDebug("Updated in-progress job {JobId}", job.Id);
+			NotifyStatusChanged(updatedJob);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_updateInProgressJobOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_updateInProgressJobOperationName, this.GetType().Name);
+
+			return Task.FromResult(MethodResult<bool>.Success(true));
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_updateInProgressJobOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error updating in-progress job: {JobId}", job?.Id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_updateInProgressJobOperationName, this.GetType().Name, duration);
+
+			return Task.FromResult(MethodResult<bool>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error updating in-progress job: {ex.Message}", ex)));
+		}
+	}
+
+	/// <inheritdoc />
+	public Task<MethodResult<Job>> ClaimNextJobForWorker(Guid workerId, string? queue, CancellationToken cancellationToken)
 	{
 		using var _ = _logger.BeginScope(new { WorkerId = workerId });
 
@@ -293,15 +484,16 @@ public class InMemoryJobStore(ILogger<InMemoryJobStore> logger, IDateTimeProvide
 
 			var now = _dateTimeProvider.UtcNow;
 
-			// Find the next available job (oldest queued/scheduled job)
+			// Find the next available job (oldest queued/scheduled job, adjusted by priority)
 			var availableJob = jobs.Values
 				.Where(job => job.WorkerId == null)
+				.Where(job => queue == null || job.Queue == queue)
 				.Where(job =>
 					job.Status == JobStatus.Queued ||
 					job.Status == JobStatus.Scheduled &&
 					(job.RetryDelayUntil == null || job.RetryDelayUntil <= now)
 				)
-				.OrderBy(job => job.CreatedAt) // Claim the oldest job first
+				.OrderBy(job => job.CreatedAt.AddSeconds(-job.Priority * (double)AsyncEndpointsConstants.PriorityAgingSeconds)) // Claim the oldest job first
 				.FirstOrDefault();
 
 			if (availableJob == null)
@@ -340,17 +532,19 @@ public class InMemoryJobStore(ILogger<InMemoryJobStore> logger, IDateTimeProvide
 					status: JobStatus.InProgress,
 					workerId: workerId,
 					startedAt: _dateTimeProvider.DateTimeOffsetNow,
+					leaseRenewedAt: _dateTimeProvider.DateTimeOffsetNow,
 					lastUpdatedAt: _dateTimeProvider.DateTimeOffsetNow
 				);
 			} while (!jobs.TryUpdate(availableJob.Id, updatedJob, currentJob));
 
 			_logger.LogInformation("Successfully claimed job {JobId} for worker {WorkerId}", availableJob.Id, workerId);
+			NotifyStatusChanged(updatedJob);
 			activity?.SetTag("job.id", availableJob.Id.ToString());
 			var successDuration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
 			_metrics.RecordStoreOperationDuration(_claimNextJobOperationName, this.GetType().Name, successDuration);
 			_metrics.RecordStoreOperation(_claimNextJobOperationName, this.GetType().Name);
 
-			return Task.FromResult(MethodResult<Job>.Success(updatedJob));
+			return Task.FromResult(MethodResult<Job>.Success(updatedJob.CreateCopy()));
 		}
 		catch (Exception ex)
 		{
@@ -366,4 +560,844 @@ public class InMemoryJobStore(ILogger<InMemoryJobStore> logger, IDateTimeProvide
 				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error claiming job: {ex.Message}", ex)));
 		}
 	}
+
+	/// <inheritdoc />
+	public Task<MethodResult<List<Job>>> ClaimNextJobsForWorker(Guid workerId, string? queue, int maxCount, CancellationToken cancellationToken)
+	{
+		using var _ = _logger.BeginScope(new { WorkerId = workerId });
+
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_claimNextJobsOperationName, this.GetType().Name);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Claim next jobs for worker operation cancelled");
+				return Task.FromCanceled<MethodResult<List<Job>>>(cancellationToken);
+			}
+
+			_logger.LogDebug("Attempting to claim up to {MaxCount} jobs for worker {WorkerId}", maxCount, workerId);
+
+			var now = _dateTimeProvider.UtcNow;
+
+			// Find the available jobs in the same order as single claims (oldest queued/scheduled job, adjusted by priority)
+			var availableJobs = jobs.Values
+				.Where(job => job.WorkerId == null)
+				.Where(job => queue == null || job.Queue == queue)
+				.Where(job =>
+					job.Status == JobStatus.Queued ||
+					job.Status == JobStatus.Scheduled &&
+					(job.RetryDelayUntil == null || job.RetryDelayUntil <= now)
+				)
+				.OrderBy(job => job.CreatedAt.AddSeconds(-job.Priority * (double)AsyncEndpointsConstants.PriorityAgingSeconds))
+				.ToList();
+
+			var claimedJobs = new List<Job>();
+			foreach (var availableJob in availableJobs)
+			{
+				if (claimedJobs.Count >= maxCount)
+				{
+					break;
+				}
+
+				// Each job is claimed with the immutable objects pattern, so jobs claimed by another worker in the meantime are skipped
+				if (!jobs.TryGetValue(availableJob.Id, out var currentJob) || currentJob.WorkerId != null)
+				{
+					continue;
+				}
+
+				var updatedJob = currentJob.CreateCopy(
+					status: JobStatus.InProgress,
+					workerId: workerId,
+					startedAt: _dateTimeProvider.DateTimeOffsetNow,
+					leaseRenewedAt: _dateTimeProvider.DateTimeOffsetNow,
+					lastUpdatedAt: _dateTimeProvider.DateTimeOffsetNow
+				);
+				if (!jobs.TryUpdate(availableJob.Id, updatedJob, currentJob))
+				{
+					continue;
+				}
+
+				NotifyStatusChanged(updatedJob);
+				claimedJobs.Add(updatedJob.CreateCopy());
+			}
+
+			_logger.LogDebug("Claimed {ClaimedCount} jobs for worker {WorkerId}", claimedJobs.Count, workerId);
+			activity?.SetTag("job.count", claimedJobs.Count);
+			var successDuration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_claimNextJobsOperationName, this.GetType().Name, successDuration);
+			_metrics.RecordStoreOperation(_claimNextJobsOperationName, this.GetType().Name);
+
+			return Task.FromResult(MethodResult<List<Job>>.Success(claimedJobs));
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_claimNextJobsOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error claiming next jobs for worker {WorkerId}", workerId);
+			var errorDuration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_claimNextJobsOperationName, this.GetType().Name, errorDuration);
+
+			return Task.FromResult(MethodResult<List<Job>>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error claiming jobs: {ex.Message}", ex)));
+		}
+	}
+
+	/// <inheritdoc />
+	public Task<MethodResult> UpdateJobProgress(Guid id, JobProgress progress, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_updateJobProgressOperationName, this.GetType().Name, id);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (id == Guid.Empty)
+			{
+				_logger.LogWarning("Attempted to update progress of job with empty ID");
+				_metrics.RecordStoreError(_updateJobProgressOperationName, _invalidJobIdErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job ID");
+				activity?.SetTag(_errorTypeTag, _invalidJobIdErrorCode);
+
+				return Task.FromResult(MethodResult.Failure(
+					AsyncEndpointError.FromCode(_invalidJobIdErrorCode, "Job ID cannot be empty")));
+			}
+
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job progress update operation cancelled for ID {JobId}", id);
+				return Task.FromCanceled<MethodResult>(cancellationToken);
+			}
+
+			// Use the immutable objects pattern so that concurrent status changes, such as cancellations, are never overwritten
+			Job? currentJob;
+			Job updatedJob;
+			do
+			{
+				if (!jobs.TryGetValue(id, out currentJob))
+				{
+					_logger.LogWarning("Attempted to update progress of non-existent job {JobId}", id);
+					_metrics.RecordStoreError(_updateJobProgressOperationName, _jobNotFoundErrorCode, this.GetType().Name);
+					activity?.SetStatus(ActivityStatusCode.Error, "Job not found");
+					activity?.SetTag(_errorTypeTag, _jobNotFoundErrorCode);
+
+					return Task.FromResult(MethodResult.Failure(
+						AsyncEndpointError.FromCode(_jobNotFoundErrorCode, $"Job with ID {id} not found")));
+				}
+
+				if (currentJob.Status != JobStatus.InProgress)
+				{
+					_logger.LogDebug("Ignoring progress of job {JobId} in status {Status}", id, currentJob.Status);
+					return Task.FromResult(MethodResult.Success());
+				}
+
+				updatedJob = currentJob.CreateCopy(
+					progress: progress,
+					lastUpdatedAt: _dateTimeProvider.DateTimeOffsetNow
+				);
+			} while (!jobs.TryUpdate(id, updatedJob, currentJob));
+
+			_logger.LogDebug("Updated progress of job {JobId}", id);
+			NotifyStatusChanged(updatedJob);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_updateJobProgressOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_updateJobProgressOperationName, this.GetType().Name);
+
+			return Task.FromResult(MethodResult.Success());
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_updateJobProgressOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error updating progress of job: {JobId}", id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_updateJobProgressOperationName, this.GetType().Name, duration);
+
+			return Task.FromResult(MethodResult.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error updating job progress: {ex.Message}", ex)));
+		}
+	}
+
+	/// <inheritdoc />
+	public Task<MethodResult> UpdateJobCallback(Guid id, JobCallback callback, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_updateJobCallbackOperationName, this.GetType().Name, id);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (id == Guid.Empty)
+			{
+				_logger.LogWarning("Attempted to update callback of job with empty ID");
+				_metrics.RecordStoreError(_updateJobCallbackOperationName, _invalidJobIdErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job ID");
+				activity?.SetTag(_errorTypeTag, _invalidJobIdErrorCode);
+
+				return Task.FromResult(MethodResult.Failure(
+					AsyncEndpointError.FromCode(_invalidJobIdErrorCode, "Job ID cannot be empty")));
+			}
+
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job callback update operation cancelled for ID {JobId}", id);
+				return Task.FromCanceled<MethodResult>(cancellationToken);
+			}
+
+			// Use the immutable objects pattern so that concurrent changes of other job fields are never overwritten
+			Job? currentJob;
+			Job updatedJob;
+			do
+			{
+				if (!jobs.TryGetValue(id, out currentJob))
+				{
+					_logger.LogWarning("Attempted to update callback of non-existent job {JobId}", id);
+					_metrics.RecordStoreError(_updateJobCallbackOperationName, _jobNotFoundErrorCode, this.GetType().Name);
+					activity?.SetStatus(ActivityStatusCode.Error, "Job not found");
+					activity?.SetTag(_errorTypeTag, _jobNotFoundErrorCode);
+
+					return Task.FromResult(MethodResult.Failure(
+						AsyncEndpointError.FromCode(_jobNotFoundErrorCode, $"Job with ID {id} not found")));
+				}
+
+				updatedJob = currentJob.CreateCopy(callback: callback);
+			} while (!jobs.TryUpdate(id, updatedJob, currentJob));
+
+			_logger.LogDebug("Updated callback of job {JobId}", id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_updateJobCallbackOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_updateJobCallbackOperationName, this.GetType().Name);
+
+			return Task.FromResult(MethodResult.Success());
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_updateJobCallbackOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error updating callback of job: {JobId}", id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_updateJobCallbackOperationName, this.GetType().Name, duration);
+
+			return Task.FromResult(MethodResult.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error updating job callback: {ex.Message}", ex)));
+		}
+	}
+
+	/// <inheritdoc />
+	public Task<MethodResult<Job>> CancelJob(Guid id, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_cancelJobOperationName, this.GetType().Name, id);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (id == Guid.Empty)
+			{
+				_logger.LogWarning("Attempted to cancel job with empty ID");
+				_metrics.RecordStoreError(_cancelJobOperationName, _invalidJobIdErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job ID");
+				activity?.SetTag(_errorTypeTag, _invalidJobIdErrorCode);
+
+				return Task.FromResult(MethodResult<Job>.Failure(
+					AsyncEndpointError.FromCode(_invalidJobIdErrorCode, "Job ID cannot be empty")));
+			}
+
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job cancel operation cancelled for ID {JobId}", id);
+				return Task.FromCanceled<MethodResult<Job>>(cancellationToken);
+			}
+
+			// Use the immutable objects pattern to ensure atomic update of the job
+			Job? currentJob;
+			Job canceledJob;
+			do
+			{
+				if (!jobs.TryGetValue(id, out currentJob))
+				{
+					_logger.LogWarning("Attempted to cancel non-existent job {JobId}", id);
+					_metrics.RecordStoreError(_cancelJobOperationName, _jobNotFoundErrorCode, this.GetType().Name);
+					activity?.SetStatus(ActivityStatusCode.Error, "Job not found");
+					activity?.SetTag(_errorTypeTag, _jobNotFoundErrorCode);
+
+					return Task.FromResult(MethodResult<Job>.Failure(
+						AsyncEndpointError.FromCode(_jobNotFoundErrorCode, $"Job with ID {id} not found")));
+				}
+
+				if (currentJob.Status == JobStatus.Canceled)
+				{
+					_logger.LogDebug("Job {JobId} is already canceled", id);
+					return Task.FromResult(MethodResult<Job>.Success(currentJob.CreateCopy()));
+				}
+
+				if (currentJob.Status is not (JobStatus.Queued or JobStatus.Scheduled or JobStatus.InProgress))
+				{
+					_logger.LogWarning("Attempted to cancel job {JobId} in status {Status}", id, currentJob.Status);
+					_metrics.RecordStoreError(_cancelJobOperationName, _jobNotCancelableErrorCode, this.GetType().Name);
+					activity?.SetStatus(ActivityStatusCode.Error, "Job not cancelable");
+					activity?.SetTag(_errorTypeTag, _jobNotCancelableErrorCode);
+
+					return Task.FromResult(MethodResult<Job>.Failure(
+						AsyncEndpointError.FromCode(_jobNotCancelableErrorCode, $"Job with ID {id} cannot be canceled in status {currentJob.Status}")));
+				}
+
+				var now = _dateTimeProvider.DateTimeOffsetNow;
+				canceledJob = currentJob.CreateCopy(
+					status: JobStatus.Canceled,
+					completedAt: now,
+					lastUpdatedAt: now
+				);
+			} while (!jobs.TryUpdate(id, canceledJob, currentJob));
+
+			_logger.LogInformation("Canceled job {JobId} previously in status {Status}", id, currentJob.Status);
+			NotifyStatusChanged(canceledJob);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_cancelJobOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_cancelJobOperationName, this.GetType().Name);
+
+			return Task.FromResult(MethodResult<Job>.Success(canceledJob.CreateCopy()));
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_cancelJobOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error canceling job: {JobId}", id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_cancelJobOperationName, this.GetType().Name, duration);
+
+			return Task.FromResult(MethodResult<Job>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error canceling job: {ex.Message}", ex)));
+		}
+	}
+
+	/// <inheritdoc />
+	public Task<MethodResult<Job>> RequeueJob(Guid id, bool resetRetries, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_requeueJobOperationName, this.GetType().Name, id);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (id == Guid.Empty)
+			{
+				_logger.LogWarning("Attempted to requeue job with empty ID");
+				_metrics.RecordStoreError(_requeueJobOperationName, _invalidJobIdErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job ID");
+				activity?.SetTag(_errorTypeTag, _invalidJobIdErrorCode);
+
+				return Task.FromResult(MethodResult<Job>.Failure(
+					AsyncEndpointError.FromCode(_invalidJobIdErrorCode, "Job ID cannot be empty")));
+			}
+
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job requeue operation cancelled for ID {JobId}", id);
+				return Task.FromCanceled<MethodResult<Job>>(cancellationToken);
+			}
+
+			// Use the immutable objects pattern to ensure atomic update of the job
+			Job? currentJob;
+			Job requeuedJob;
+			do
+			{
+				if (!jobs.TryGetValue(id, out currentJob))
+				{
+					_logger.LogWarning("Attempted to requeue non-existent job {JobId}", id);
+					_metrics.RecordStoreError(_requeueJobOperationName, _jobNotFoundErrorCode, this.GetType().Name);
+					activity?.SetStatus(ActivityStatusCode.Error, "Job not found");
+					activity?.SetTag(_errorTypeTag, _jobNotFoundErrorCode);
+
+					return Task.FromResult(MethodResult<Job>.Failure(
+						AsyncEndpointError.FromCode(_jobNotFoundErrorCode, $"Job with ID {id} not found")));
+				}
+
+				if (currentJob.Status != JobStatus.Failed)
+				{
+					_logger.LogWarning("Attempted to requeue job {JobId} in status {Status}", id, currentJob.Status);
+					_metrics.RecordStoreError(_requeueJobOperationName, _jobNotRequeueableErrorCode, this.GetType().Name);
+					activity?.SetStatus(ActivityStatusCode.Error, "Job not requeueable");
+					activity?.SetTag(_errorTypeTag, _jobNotRequeueableErrorCode);
+
+					return Task.FromResult(MethodResult<Job>.Failure(
+						AsyncEndpointError.FromCode(_jobNotRequeueableErrorCode, $"Job with ID {id} cannot be requeued in status {currentJob.Status}")));
+				}
+
+				requeuedJob = currentJob.CreateCopy();
+				requeuedJob.Requeue(resetRetries, _dateTimeProvider);
+			} while (!jobs.TryUpdate(id, requeuedJob, currentJob));
+
+			_logger.LogInformation("Requeued failed job {JobId}", id);
+			NotifyStatusChanged(requeuedJob);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_requeueJobOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_requeueJobOperationName, this.GetType().Name);
+
+			return Task.FromResult(MethodResult<Job>.Success(requeuedJob.CreateCopy()));
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_requeueJobOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error requeuing job: {JobId}", id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_requeueJobOperationName, this.GetType().Name, duration);
+
+			return Task.FromResult(MethodResult<Job>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error requeuing job: {ex.Message}", ex)));
+		}
+	}
+
+	/// <inheritdoc />
+	public Task<MethodResult> ReleaseJob(Guid id, Guid workerId, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_releaseJobOperationName, this.GetType().Name, id);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (id == Guid.Empty)
+			{
+				_logger.LogWarning("Attempted to release job with empty ID");
+				_metrics.RecordStoreError(_releaseJobOperationName, _invalidJobIdErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job ID");
+				activity?.SetTag(_errorTypeTag, _invalidJobIdErrorCode);
+
+				return Task.FromResult(MethodResult.Failure(
+					AsyncEndpointError.FromCode(_invalidJobIdErrorCode, "Job ID cannot be empty")));
+			}
+
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job release operation cancelled for ID {JobId}", id);
+				return Task.FromCanceled<MethodResult>(cancellationToken);
+			}
+
+			// Use the immutable objects pattern to ensure atomic update of the job
+			Job? currentJob;
+			Job releasedJob;
+			do
+			{
+				if (!jobs.TryGetValue(id, out currentJob))
+				{
+					_logger.LogWarning("Attempted to release non-existent job {JobId}", id);
+					_metrics.RecordStoreError(_releaseJobOperationName, _jobNotFoundErrorCode, this.GetType().Name);
+					activity?.SetStatus(ActivityStatusCode.Error, "Job not found");
+					activity?.SetTag(_errorTypeTag, _jobNotFoundErrorCode);
+
+					return Task.FromResult(MethodResult.Failure(
+						AsyncEndpointError.FromCode(_jobNotFoundErrorCode, $"Job with ID {id} not found")));
+				}
+
+				// The job was canceled, recovered or claimed by another worker in the meantime, so it is left alone
+				if (currentJob.Status != JobStatus.InProgress || currentJob.WorkerId != workerId)
+				{
+					_logger.LogDebug("Job {JobId} is no longer held by worker {WorkerId}, skipping release", id, workerId);
+					return Task.FromResult(MethodResult.Success());
+				}
+
+				releasedJob = currentJob.CreateCopy();
+				releasedJob.RecordRun(JobRunOutcome.Released, null, _dateTimeProvider);
+				releasedJob.Requeue(false, _dateTimeProvider);
+			} while (!jobs.TryUpdate(id, releasedJob, currentJob));
+
+			_logger.LogInformation("Released job {JobId} claimed by worker {WorkerId}", id, workerId);
+			NotifyStatusChanged(releasedJob);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_releaseJobOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_releaseJobOperationName, this.GetType().Name);
+
+			return Task.FromResult(MethodResult.Success());
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_releaseJobOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error releasing job: {JobId}", id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_releaseJobOperationName, this.GetType().Name, duration);
+
+			return Task.FromResult(MethodResult.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error releasing job: {ex.Message}", ex)));
+		}
+	}
+
+	/// <inheritdoc />
+	public Task<MethodResult> DeleteJob(Guid id, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_deleteJobOperationName, this.GetType().Name, id);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (id == Guid.Empty)
+			{
+				_logger.LogWarning("Attempted to delete job with empty ID");
+				_metrics.RecordStoreError(_deleteJobOperationName, _invalidJobIdErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job ID");
+				activity?.SetTag(_errorTypeTag, _invalidJobIdErrorCode);
+
+				return Task.FromResult(MethodResult.Failure(
+					AsyncEndpointError.FromCode(_invalidJobIdErrorCode, "Job ID cannot be empty")));
+			}
+
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job delete operation cancelled for ID {JobId}", id);
+				return Task.FromCanceled<MethodResult>(cancellationToken);
+			}
+
+			if (!jobs.TryRemove(id, out _))
+			{
+				_logger.LogWarning("Attempted to delete non-existent job {JobId}", id);
+				_metrics.RecordStoreError(_deleteJobOperationName, _jobNotFoundErrorCode, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Job not found");
+				activity?.SetTag(_errorTypeTag, _jobNotFoundErrorCode);
+
+				return Task.FromResult(MethodResult.Failure(
+					AsyncEndpointError.FromCode(_jobNotFoundErrorCode, $"Job with ID {id} not found")));
+			}
+
+			_logger.LogInformation("Deleted job {JobId}", id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_deleteJobOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_deleteJobOperationName, this.GetType().Name);
+
+			return Task.FromResult(MethodResult.Success());
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_deleteJobOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error deleting job: {JobId}", id);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_deleteJobOperationName, this.GetType().Name, duration);
+
+			return Task.FromResult(MethodResult.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error deleting job: {ex.Message}", ex)));
+		}
+	}
+
+	/// <inheritdoc />
+	public Task<MethodResult<int>> DeleteExpiredJobs(int maxCount, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_deleteExpiredJobsOperationName, this.GetType().Name);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Expired job deletion cancelled");
+				return Task.FromCanceled<MethodResult<int>>(cancellationToken);
+			}
+
+			var now = _dateTimeProvider.DateTimeOffsetNow;
+			var expiredJobs = jobs.Values
+				.Where(job => job.ExpiresAt <= now)
+				.OrderBy(job => job.ExpiresAt)
+				.Take(maxCount)
+				.ToList();
+
+			// Only remove the exact instances found, so jobs updated in the meantime are kept
+			var deletedCount = expiredJobs.Count(job => jobs.TryRemove(new KeyValuePair<Guid, Job>(job.Id, job)));
+
+			// Expired idempotency keys are removed with the same check, so keys replaced in the meantime are kept
+			foreach (var expiredKey in idempotencyKeys.Values.Where(key => key.IsExpired(now)).ToList())
+			{
+				idempotencyKeys.TryRemove(new KeyValuePair<string, JobIdempotencyKey>(expiredKey.Key, expiredKey));
+			}
+
+			_logger.LogDebug("Deleted {JobCount} expired jobs", deletedCount);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_deleteExpiredJobsOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_deleteExpiredJobsOperationName, this.GetType().Name);
+
+			return Task.FromResult(MethodResult<int>.Success(deletedCount));
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_deleteExpiredJobsOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error deleting expired jobs");
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_deleteExpiredJobsOperationName, this.GetType().Name, duration);
+
+			return Task.FromResult(MethodResult<int>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error deleting expired jobs: {ex.Message}", ex)));
+		}
+	}
+
+	/// <inheritdoc />
+	public Task<MethodResult> SaveWorkerHeartbeat(WorkerHeartbeat heartbeat, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_saveWorkerHeartbeatOperationName, this.GetType().Name);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Worker heartbeat operation cancelled");
+				return Task.FromCanceled<MethodResult>(cancellationToken);
+			}
+
+			// Jobs are never recovered from the in-memory store, so their leases are not renewed and only the worker is recorded
+			workers[heartbeat.WorkerId] = heartbeat;
+
+			_logger.LogDebug("Stored heartbeat of worker {WorkerId} holding {JobCount} jobs", heartbeat.WorkerId, heartbeat.JobIds.Count);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_saveWorkerHeartbeatOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_saveWorkerHeartbeatOperationName, this.GetType().Name);
+
+			return Task.FromResult(MethodResult.Success());
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_saveWorkerHeartbeatOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error storing heartbeat of worker {WorkerId}", heartbeat.WorkerId);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_saveWorkerHeartbeatOperationName, this.GetType().Name, duration);
+
+			return Task.FromResult(MethodResult.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error storing worker heartbeat: {ex.Message}", ex)));
+		}
+	}
+
+	/// <inheritdoc />
+	public Task<MethodResult<List<WorkerHeartbeat>>> GetWorkers(CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_getWorkersOperationName, this.GetType().Name);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Get workers operation cancelled");
+				return Task.FromCanceled<MethodResult<List<WorkerHeartbeat>>>(cancellationToken);
+			}
+
+			// Heartbeats of dead workers are removed with the same check, so heartbeats replaced in the meantime are kept
+			var now = _dateTimeProvider.DateTimeOffsetNow;
+			foreach (var expiredHeartbeat in workers.Values.Where(heartbeat => heartbeat.IsExpired(now)).ToList())
+			{
+				workers.TryRemove(new KeyValuePair<Guid, WorkerHeartbeat>(expiredHeartbeat.WorkerId, expiredHeartbeat));
+			}
+
+			var liveWorkers = workers.Values
+				.Where(heartbeat => !heartbeat.IsExpired(now))
+				.OrderBy(heartbeat => heartbeat.StartedAt)
+				.ToList();
+
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_getWorkersOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_getWorkersOperationName, this.GetType().Name);
+
+			return Task.FromResult(MethodResult<List<WorkerHeartbeat>>.Success(liveWorkers));
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_getWorkersOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error retrieving workers");
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_getWorkersOperationName, this.GetType().Name, duration);
+
+			return Task.FromResult(MethodResult<List<WorkerHeartbeat>>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error retrieving workers: {ex.Message}", ex)));
+		}
+	}
+
+	/// <inheritdoc />
+	public Task<MethodResult> RemoveWorker(Guid workerId, CancellationToken cancellationToken)
+	{
+		workers.TryRemove(workerId, out _);
+
+		_logger.LogDebug("Removed worker {WorkerId}", workerId);
+		return Task.FromResult(MethodResult.Success());
+	}
+
+	/// <inheritdoc />
+	public Task<MethodResult<JobQueryResult>> QueryJobs(JobQuery query, CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_queryJobsOperationName, this.GetType().Name);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			var validationResult = query.Validate();
+			if (!validationResult.IsSuccess)
+			{
+				_logger.LogWarning("Attempted to query jobs with invalid query: {Error}", validationResult.Error.Message);
+				_metrics.RecordStoreError(_queryJobsOperationName, validationResult.Error.Code, this.GetType().Name);
+				activity?.SetStatus(ActivityStatusCode.Error, "Invalid job query");
+				activity?.SetTag(_errorTypeTag, validationResult.Error.Code);
+
+				return Task.FromResult(MethodResult<JobQueryResult>.Failure(validationResult.Error));
+			}
+
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Job query operation cancelled");
+				return Task.FromCanceled<MethodResult<JobQueryResult>>(cancellationToken);
+			}
+
+			var matchingJobs = jobs.Values.Where(query.Matches);
+			if (query.Cursor != null && JobQueryCursor.TryDecode(query.Cursor, out var cursorCreatedAt, out var cursorJobId))
+			{
+				matchingJobs = matchingJobs.Where(job => JobQueryCursor.IsAfter(job.CreatedAt.ToUnixTimeMilliseconds(), job.Id, cursorCreatedAt, cursorJobId));
+			}
+
+			// Fetch one extra job to find out whether there is a next page
+			var pageJobs = matchingJobs
+				.OrderByDescending(job => job.CreatedAt.ToUnixTimeMilliseconds())
+				.ThenByDescending(job => job.Id.ToString(), StringComparer.Ordinal)
+				.Take(query.PageSize + 1)
+				.ToList();
+
+			string? nextCursor = null;
+			if (pageJobs.Count > query.PageSize)
+			{
+				pageJobs.RemoveAt(pageJobs.Count - 1);
+				nextCursor = JobQueryCursor.Encode(pageJobs[^1]);
+			}
+
+			_logger.LogDebug("Queried {JobCount} jobs", pageJobs.Count);
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_queryJobsOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_queryJobsOperationName, this.GetType().Name);
+
+			return Task.FromResult(MethodResult<JobQueryResult>.Success(new JobQueryResult([.. pageJobs.Select(job => job.CreateCopy())], nextCursor)));
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_queryJobsOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error querying jobs");
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_queryJobsOperationName, this.GetType().Name, duration);
+
+			return Task.FromResult(MethodResult<JobQueryResult>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error querying jobs: {ex.Message}", ex)));
+		}
+	}
+
+	/// <inheritdoc />
+	public Task<MethodResult<JobStats>> GetJobStats(CancellationToken cancellationToken)
+	{
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartStoreOperationActivity(_getJobStatsOperationName, this.GetType().Name);
+
+		var startTime = DateTimeOffset.UtcNow;
+		try
+		{
+			if (cancellationToken.IsCancellationRequested)
+			{
+				_logger.LogDebug("Get job stats operation cancelled");
+				return Task.FromCanceled<MethodResult<JobStats>>(cancellationToken);
+			}
+
+			var stats = new JobStats { GeneratedAt = _dateTimeProvider.DateTimeOffsetNow };
+			foreach (var job in jobs.Values)
+			{
+				stats.StatusCounts[job.Status]++;
+
+				if (JobStats.IsUnfinished(job.Status))
+				{
+					stats.AddJobNameCount(job.Name, job.Status, 1);
+				}
+
+				if (job.Status == JobStatus.Queued && (stats.OldestQueuedJobCreatedAt == null || job.CreatedAt < stats.OldestQueuedJobCreatedAt))
+				{
+					stats.OldestQueuedJobCreatedAt = job.CreatedAt;
+				}
+
+				if (job.Status == JobStatus.Scheduled && job.RetryCount > 0)
+				{
+					stats.ScheduledRetryCount++;
+				}
+			}
+
+			_logger.LogDebug("Retrieved job stats");
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_getJobStatsOperationName, this.GetType().Name, duration);
+			_metrics.RecordStoreOperation(_getJobStatsOperationName, this.GetType().Name);
+
+			return Task.FromResult(MethodResult<JobStats>.Success(stats));
+		}
+		catch (Exception ex)
+		{
+			_metrics.RecordStoreError(_getJobStatsOperationName, ex.GetType().Name, this.GetType().Name);
+			activity?.SetStatus(ActivityStatusCode.Error, ex.Message);
+			activity?.SetTag(_errorTypeTag, ex.GetType().Name);
+
+			_logger.LogError(ex, "Unexpected error retrieving job stats");
+			var duration = (DateTimeOffset.UtcNow - startTime).TotalSeconds;
+			_metrics.RecordStoreOperationDuration(_getJobStatsOperationName, this.GetType().Name, duration);
+
+			return Task.FromResult(MethodResult<JobStats>.Failure(
+				AsyncEndpointError.FromCode(_jobStoreErrorCode, $"Unexpected error retrieving job stats: {ex.Message}", ex)));
+		}
+	}
+
+	/// <summary>
+	/// Creates a copy of the stored job holding the updated fields of the specified job.
+	/// </summary>
+	private Job CreateUpdatedCopy(Job existingJob, Job job)
+	{
+		return existingJob.CreateCopy(
+			status: job.Status,
+			workerId: job.WorkerId,
+			startedAt: job.StartedAt,
+			completedAt: job.CompletedAt,
+			result: job.Result,
+			resultBlobId: job.ResultBlobId,
+			error: job.Error,
+			retryCount: job.RetryCount,
+			retryDelayUntil: job.RetryDelayUntil,
+			continuationJobIds: job.ContinuationJobIds,
+			runs: job.Runs,
+			expiresAt: job.ExpiresAt,
+			lastUpdatedAt: _dateTimeProvider.DateTimeOffsetNow // This will update the LastUpdatedAt field
+		);
+	}
+
+	private void NotifyStatusChanged(Job job)
+	{
+		// The in-memory store serves clients of the same process, so notifications complete synchronously
+		_ = _jobStatusNotifier.NotifyStatusChanged(job.Id, job.Status, CancellationToken.None);
+	}
 }
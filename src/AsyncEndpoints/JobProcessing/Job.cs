@@ -39,19 +39,29 @@ public sealed class Job(DateTimeOffset currentTime)
 	public JobStatus Status { get; set; } = JobStatus.Queued;
 
 	/// <summary>
-	/// Gets or sets the result of the job execution, if successful.
+	/// Gets or sets the result of the job execution, if successful and not stored in the blob store.
 	/// </summary>
 	public string? Result { get; set; } = null;
 
+	/// <summary>
+	/// Gets or sets the ID of the blob the result is stored in, if the result was too large to be kept in the job store.
+	/// </summary>
+	public string? ResultBlobId { get; set; } = null;
+
 	/// <summary>
 	/// Gets or sets the error details if the job failed.
 	/// </summary>
 	public AsyncEndpointError? Error { get; set; } = null;
 
 	/// <summary>
-	/// Gets the payload data for the job.
+	/// Gets or sets the payload data for the job. Empty if the payload is stored in the blob store.
+	/// </summary>
+	public string Payload { get; set; } = string.Empty;
+
+	/// <summary>
+	/// Gets or sets the ID of the blob the payload is stored in, if the payload was too large to be kept in the job store.
 	/// </summary>
-	public string Payload { get; init; } = string.Empty;
+	public string? PayloadBlobId { get; set; } = null;
 
 	/// <summary>
 	/// Gets or sets the collection of HTTP headers associated with the job.
@@ -68,6 +78,20 @@ public sealed class Job(DateTimeOffset currentTime)
 	/// </summary>
 	public List<KeyValuePair<string, List<string?>>> QueryParams { get; set; } = [];
 
+	/// <summary>
+	/// Gets or sets the priority of the job. Jobs with a higher priority are claimed first.
+	/// </summary>
+	/// <remarks>
+	/// Waiting jobs are not starved: every priority level is worth <see cref="AsyncEndpointsConstants.PriorityAgingSeconds"/> seconds of waiting,
+	/// so a job is claimed before a job with a higher priority that was created long enough after it.
+	/// </remarks>
+	public int Priority { get; set; } = 0;
+
+	/// <summary>
+	/// Gets or sets the name of the queue the job is placed in. Workers can choose which queues they consume.
+	/// </summary>
+	public string Queue { get; set; } = AsyncEndpointsConstants.DefaultQueueName;
+
 	/// <summary>
 	/// Gets or sets the number of times the job has been retried.
 	/// </summary>
@@ -79,7 +103,8 @@ public sealed class Job(DateTimeOffset currentTime)
 	public int MaxRetries { get; set; } = AsyncEndpointsConstants.MaximumRetries;
 
 	/// <summary>
-	/// Gets or sets the time until which the job is scheduled for retry.
+	/// Gets or sets the time before which the job will not be claimed by a worker.
+	/// Set for jobs scheduled for a retry and for jobs submitted to run at a later time.
 	/// </summary>
 	public DateTime? RetryDelayUntil { get; set; } = null;
 
@@ -93,6 +118,12 @@ public sealed class Job(DateTimeOffset currentTime)
 	/// </summary>
 	public DateTimeOffset? StartedAt { get; set; } = null;
 
+	/// <summary>
+	/// Gets or sets the date and time the worker processing this job last renewed its lease, if applicable.
+	/// A job in progress whose lease is not renewed in time is considered abandoned and recovered.
+	/// </summary>
+	public DateTimeOffset? LeaseRenewedAt { get; set; } = null;
+
 	/// <summary>
 	/// Gets or sets the date and time when the job processing completed, if applicable.
 	/// </summary>
@@ -108,6 +139,51 @@ public sealed class Job(DateTimeOffset currentTime)
 	/// </summary>
 	public DateTimeOffset LastUpdatedAt { get; set; } = currentTime;
 
+	/// <summary>
+	/// Gets or sets the completion callback of the job and its delivery status, if a callback URL was supplied.
+	/// </summary>
+	public JobCallback? Callback { get; set; } = null;
+
+	/// <summary>
+	/// Gets or sets the latest progress reported by the handler processing the job, if any.
+	/// </summary>
+	public JobProgress? Progress { get; set; } = null;
+
+	/// <summary>
+	/// Gets or sets the ID of the job whose completion enqueued this job, if the job is a continuation.
+	/// </summary>
+	public Guid? ParentJobId { get; set; } = null;
+
+	/// <summary>
+	/// Gets or sets the IDs of the continuation jobs enqueued when this job completed or failed.
+	/// </summary>
+	public List<Guid> ContinuationJobIds { get; set; } = [];
+
+	/// <summary>
+	/// Gets or sets the attempts made at processing the job, oldest first.
+	/// </summary>
+	public List<JobRun> Runs { get; set; } = [];
+
+	/// <summary>
+	/// Gets or sets the W3C traceparent of the activity the job was submitted in, so its processing joins the same distributed trace.
+	/// </summary>
+	public string? TraceParent { get; set; } = null;
+
+	/// <summary>
+	/// Gets or sets the W3C tracestate of the activity the job was submitted in, if any.
+	/// </summary>
+	public string? TraceState { get; set; } = null;
+
+	/// <summary>
+	/// Gets or sets the baggage of the activity the job was submitted in, in the W3C baggage header format, if any.
+	/// </summary>
+	public string? Baggage { get; set; } = null;
+
+	/// <summary>
+	/// Gets or sets the time after which the finished job is deleted from the store, if a retention period applies to it.
+	/// </summary>
+	public DateTimeOffset? ExpiresAt { get; set; } = null;
+
 	/// <summary>
 	/// Creates a new job with the specified parameters including HTTP context information and max retries.
 	/// </summary>
@@ -119,6 +195,10 @@ public sealed class Job(DateTimeOffset currentTime)
 	/// <param name="queryParams">The query parameters associated with the original request.</param>
 	/// <param name="maxRetries">The maximum number of retries for the job.</param>
 	/// <param name="dateTimeProvider">Provider for current date and time.</param>
+	/// <param name="callbackUrl">Optional URL the job response is posted to once the job finishes.</param>
+	/// <param name="runAt">Optional time the job should run at. Jobs due in the future are created in the scheduled status.</param>
+	/// <param name="priority">Optional priority of the job. Jobs with a higher priority are claimed first.</param>
+	/// <param name="queue">Optional name of the queue the job is placed in. The default queue is used when null.</param>
 	/// <returns>A new <see cref="Job"/> instance.</returns>
 	public static Job Create(
 		Guid id,
@@ -128,9 +208,14 @@ public sealed class Job(DateTimeOffset currentTime)
 		Dictionary<string, object?> routeParams,
 		List<KeyValuePair<string, List<string?>>> queryParams,
 		int maxRetries,
-		IDateTimeProvider dateTimeProvider)
+		IDateTimeProvider dateTimeProvider,
+		string? callbackUrl = null,
+		DateTimeOffset? runAt = null,
+		int priority = 0,
+		string? queue = null)
 	{
 		var now = dateTimeProvider.DateTimeOffsetNow;
+		var isDelayed = runAt.HasValue && runAt.Value > now;
 		return new Job
 		{
 			Id = id,
@@ -140,8 +225,13 @@ public sealed class Job(DateTimeOffset currentTime)
 			RouteParams = routeParams,
 			QueryParams = queryParams,
 			MaxRetries = maxRetries,
+			Priority = priority,
+			Queue = queue ?? AsyncEndpointsConstants.DefaultQueueName,
 			CreatedAt = now,
-			LastUpdatedAt = now
+			LastUpdatedAt = now,
+			Callback = callbackUrl != null ? new JobCallback { Url = callbackUrl } : null,
+			Status = isDelayed ? JobStatus.Scheduled : JobStatus.Queued,
+			RetryDelayUntil = isDelayed ? runAt!.Value.UtcDateTime : null
 		};
 	}
 
@@ -166,6 +256,7 @@ public sealed class Job(DateTimeOffset currentTime)
 		{
 			case JobStatus.InProgress:
 				StartedAt = now;
+				LeaseRenewedAt = now;
 				break;
 			case JobStatus.Completed:
 			case JobStatus.Failed:
@@ -228,6 +319,52 @@ public sealed class Job(DateTimeOffset currentTime)
 		UpdateStatus(JobStatus.Failed, dateTimeProvider);
 	}
 
+	/// <summary>
+	/// Moves a failed job back to the queue so it is processed again. The error of the last attempt is kept until the job finishes again.
+	/// </summary>
+	/// <param name="resetRetries">True to reset the retry count so the job gets all its retries again, false to keep the retry count.</param>
+	/// <param name="dateTimeProvider">Provider for current date and time.</param>
+	public void Requeue(bool resetRetries, IDateTimeProvider dateTimeProvider)
+	{
+		UpdateStatus(JobStatus.Queued, dateTimeProvider);
+		WorkerId = null;
+		StartedAt = null;
+		LeaseRenewedAt = null;
+		CompletedAt = null;
+		RetryDelayUntil = null;
+		ExpiresAt = null;
+
+		if (resetRetries)
+		{
+			RetryCount = 0;
+		}
+	}
+
+	/// <summary>
+	/// Records the attempt that is ending as a run of the job, using the worker and start time of the current claim.
+	/// Does nothing if the job was never claimed or the current attempt has already been recorded.
+	/// </summary>
+	/// <param name="outcome">How the attempt ended.</param>
+	/// <param name="error">The error the attempt failed with, if any.</param>
+	/// <param name="dateTimeProvider">Provider for current date and time.</param>
+	/// <returns>True if a run was recorded, otherwise false.</returns>
+	public bool RecordRun(JobRunOutcome outcome, AsyncEndpointError? error, IDateTimeProvider dateTimeProvider)
+	{
+		if (StartedAt == null || (Runs.Count > 0 && Runs[^1].StartedAt == StartedAt.Value))
+			return false;
+
+		Runs.Add(new JobRun
+		{
+			Attempt = Runs.Count + 1,
+			WorkerId = WorkerId,
+			StartedAt = StartedAt.Value,
+			EndedAt = dateTimeProvider.DateTimeOffsetNow,
+			Outcome = outcome,
+			Error = error
+		});
+		return true;
+	}
+
 	/// <summary>
 	/// Increments the retry count for the job.
 	/// </summary>
@@ -251,24 +388,38 @@ public sealed class Job(DateTimeOffset currentTime)
 	/// <param name="status">Optional new status for the job.</param>
 	/// <param name="workerId">Optional new worker ID for the job.</param>
 	/// <param name="startedAt">Optional new started time for the job.</param>
+	/// <param name="leaseRenewedAt">Optional new lease renewal time for the job.</param>
 	/// <param name="completedAt">Optional new completed time for the job.</param>
 	/// <param name="lastUpdatedAt">Optional new last updated time for the job.</param>
 	/// <param name="result">Optional new result for the job.</param>
+	/// <param name="resultBlobId">Optional new ID of the blob the result of the job is stored in.</param>
 	/// <param name="error">Optional new error for the job.</param>
 	/// <param name="retryCount">Optional new retry count for the job.</param>
 	/// <param name="retryDelayUntil">Optional new retry delay time for the job.</param>
+	/// <param name="progress">Optional new progress for the job.</param>
+	/// <param name="callback">Optional new callback for the job.</param>
+	/// <param name="continuationJobIds">Optional new continuation job IDs for the job.</param>
+	/// <param name="runs">Optional new runs for the job.</param>
+	/// <param name="expiresAt">Optional new expiry time for the job.</param>
 	/// <param name="dateTimeProvider">Provider for current date and time.</param>
 	/// <returns>A new job instance with copied properties and any specified updates.</returns>
 	public Job CreateCopy(
 		JobStatus? status = null,
 		Guid? workerId = null,
 		DateTimeOffset? startedAt = null,
+		DateTimeOffset? leaseRenewedAt = null,
 		DateTimeOffset? completedAt = null,
 		DateTimeOffset? lastUpdatedAt = null,
 		string? result = null,
+		string? resultBlobId = null,
 		AsyncEndpointError? error = null,
 		int? retryCount = null,
 		DateTime? retryDelayUntil = null,
+		JobProgress? progress = null,
+		JobCallback? callback = null,
+		List<Guid>? continuationJobIds = null,
+		List<JobRun>? runs = null,
+		DateTimeOffset? expiresAt = null,
 		IDateTimeProvider? dateTimeProvider = null)
 	{
 		return new Job
@@ -281,16 +432,30 @@ public sealed class Job(DateTimeOffset currentTime)
 			QueryParams = [.. this.QueryParams.Select(kvp =>
 				new KeyValuePair<string, List<string?>>(kvp.Key, [.. kvp.Value]))], // Deep copy
 			Payload = this.Payload, // String is immutable
+			PayloadBlobId = this.PayloadBlobId,
 			Result = result ?? this.Result,
+			ResultBlobId = resultBlobId ?? this.ResultBlobId,
 			Error = error ?? this.Error, // AsyncEndpointError should be immutable or treated as such
 			RetryCount = retryCount ?? this.RetryCount,
 			MaxRetries = this.MaxRetries,
+			Priority = this.Priority,
+			Queue = this.Queue,
 			RetryDelayUntil = retryDelayUntil ?? this.RetryDelayUntil,
 			WorkerId = workerId ?? this.WorkerId,
 			CreatedAt = this.CreatedAt,
 			StartedAt = startedAt ?? this.StartedAt,
+			LeaseRenewedAt = leaseRenewedAt ?? this.LeaseRenewedAt,
 			CompletedAt = completedAt ?? this.CompletedAt,
-			LastUpdatedAt = lastUpdatedAt ?? (dateTimeProvider?.DateTimeOffsetNow ?? this.LastUpdatedAt)
+			LastUpdatedAt = lastUpdatedAt ?? (dateTimeProvider?.DateTimeOffsetNow ?? this.LastUpdatedAt),
+			Callback = (callback ?? this.Callback)?.CreateCopy(),
+			Progress = progress ?? this.Progress, // JobProgress is replaced, never modified
+			ParentJobId = this.ParentJobId,
+			ContinuationJobIds = [.. continuationJobIds ?? this.ContinuationJobIds],
+			Runs = [.. runs ?? this.Runs], // JobRun is immutable
+			TraceParent = this.TraceParent,
+			TraceState = this.TraceState,
+			Baggage = this.Baggage,
+			ExpiresAt = expiresAt ?? this.ExpiresAt
 		};
 	}
 }
@@ -0,0 +1,86 @@
+using System;
+
+namespace AsyncEndpoints.JobProcessing;
+
+/// <summary>
+/// Represents the completion callback of a job together with its delivery status.
+/// </summary>
+public sealed class JobCallback
+{
+	/// <summary>
+	/// Gets or sets the URL the job response is posted to once the job finishes.
+	/// </summary>
+	public string Url { get; set; } = string.Empty;
+
+	/// <summary>
+	/// Gets or sets the delivery status of the callback.
+	/// </summary>
+	public JobCallbackStatus Status { get; set; } = JobCallbackStatus.Pending;
+
+	/// <summary>
+	/// Gets or sets the number of delivery attempts made so far.
+	/// </summary>
+	public int Attempts { get; set; } = 0;
+
+	/// <summary>
+	/// Gets or sets the date and time of the last delivery attempt, if any.
+	/// </summary>
+	public DateTimeOffset? LastAttemptAt { get; set; } = null;
+
+	/// <summary>
+	/// Gets or sets the date and time when the callback was delivered, if applicable.
+	/// </summary>
+	public DateTimeOffset? DeliveredAt { get; set; } = null;
+
+	/// <summary>
+	/// Gets or sets the error message of the last failed delivery attempt, if any.
+	/// </summary>
+	public string? LastError { get; set; } = null;
+
+	/// <summary>
+	/// Records a successful delivery attempt.
+	/// </summary>
+	/// <param name="attemptedAt">The date and time of the attempt.</param>
+	public void RecordDelivery(DateTimeOffset attemptedAt)
+	{
+		Attempts++;
+		LastAttemptAt = attemptedAt;
+		DeliveredAt = attemptedAt;
+		LastError = null;
+		Status = JobCallbackStatus.Delivered;
+	}
+
+	/// <summary>
+	/// Records a failed delivery attempt and marks the callback as failed once the maximum number of attempts is reached.
+	/// </summary>
+	/// <param name="error">The error message describing why the delivery failed.</param>
+	/// <param name="attemptedAt">The date and time of the attempt.</param>
+	/// <param name="maximumAttempts">The maximum number of delivery attempts.</param>
+	public void RecordFailure(string error, DateTimeOffset attemptedAt, int maximumAttempts)
+	{
+		Attempts++;
+		LastAttemptAt = attemptedAt;
+		LastError = error;
+		if (Attempts >= maximumAttempts)
+		{
+			Status = JobCallbackStatus.Failed;
+		}
+	}
+
+	/// <summary>
+	/// Creates a copy of the current callback.
+	/// </summary>
+	/// <returns>A new callback instance with copied properties.</returns>
+	public JobCallback CreateCopy()
+	{
+		return new JobCallback
+		{
+			Url = Url,
+			Status = Status,
+			Attempts = Attempts,
+			LastAttemptAt = LastAttemptAt,
+			DeliveredAt = DeliveredAt,
+			LastError = LastError
+		};
+	}
+}
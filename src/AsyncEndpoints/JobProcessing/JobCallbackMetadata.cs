@@ -0,0 +1,13 @@
+namespace AsyncEndpoints.JobProcessing;
+
+/// <summary>
+/// Endpoint metadata carrying the completion callback URL configured for an async endpoint.
+/// </summary>
+/// <param name="url">The URL the job response is posted to once the job finishes.</param>
+public sealed class JobCallbackMetadata(string url)
+{
+	/// <summary>
+	/// Gets the URL the job response is posted to once the job finishes.
+	/// </summary>
+	public string Url { get; } = url;
+}
@@ -0,0 +1,22 @@
+namespace AsyncEndpoints.JobProcessing;
+
+/// <summary>
+/// Represents the delivery status of a job completion callback.
+/// </summary>
+public enum JobCallbackStatus
+{
+	/// <summary>
+	/// The callback has not been delivered yet.
+	/// </summary>
+	Pending = 100,
+
+	/// <summary>
+	/// The callback has been delivered successfully.
+	/// </summary>
+	Delivered = 200,
+
+	/// <summary>
+	/// The callback could not be delivered and will not be retried.
+	/// </summary>
+	Failed = 300,
+}
@@ -0,0 +1,59 @@
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.Handlers;
+using AsyncEndpoints.Infrastructure.Serialization;
+using AsyncEndpoints.Utilities;
+using Microsoft.Extensions.Logging;
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace AsyncEndpoints.JobProcessing;
+
+/// <inheritdoc />
+public sealed class JobClient(ILogger<JobClient> logger, IJobManager jobManager, ISerializer serializer) : IJobClient
+{
+	private readonly ILogger<JobClient> _logger = logger;
+	private readonly IJobManager _jobManager = jobManager;
+	private readonly ISerializer _serializer = serializer;
+
+	/// <inheritdoc />
+	public async Task<MethodResult<Job>> SubmitJob<TRequest>(string jobName, TRequest request, JobSubmissionOptions? options = null, CancellationToken cancellationToken = default)
+	{
+		using var _ = _logger.BeginScope(new { JobName = jobName, RequestType = typeof(TRequest).Name });
+
+		var handlerRegistration = HandlerRegistrationTracker.GetHandlerRegistration(jobName);
+		if (handlerRegistration == null)
+		{
+			_logger.LogWarning("Rejected job submission for unknown job: {JobName}", jobName);
+			return MethodResult<Job>.Failure(AsyncEndpointError.FromCode(AsyncEndpointsConstants.UnknownJobNameErrorCode, $"No handler is registered for job name: {jobName}"));
+		}
+
+		// The worker deserializes the payload as the registered request type
+		if (!handlerRegistration.RequestType.IsAssignableFrom(typeof(TRequest)))
+		{
+			_logger.LogWarning("Rejected job submission for job {JobName} with request type {RequestType}, expected {ExpectedRequestType}", jobName, typeof(TRequest).Name, handlerRegistration.RequestType.Name);
+			return MethodResult<Job>.Failure(AsyncEndpointError.FromCode(AsyncEndpointsConstants.InvalidJobRequestTypeErrorCode,
+				$"Job {jobName} expects a request of type {handlerRegistration.RequestType.Name}, but {typeof(TRequest).Name} was submitted"));
+		}
+
+		_logger.LogDebug("Serializing request payload for job: {JobName}", jobName);
+		var payload = _serializer.Serialize(request);
+
+		var submitJobResult = await _jobManager.SubmitJob(jobName, payload, options ?? new JobSubmissionOptions(), cancellationToken);
+		if (submitJobResult.IsSuccess)
+		{
+			_logger.LogInformation("Successfully created job {JobId} for job: {JobName}", submitJobResult.Data.Id, jobName);
+		}
+		else
+		{
+			_logger.LogError("Failed to submit job {JobName}: {ErrorMessage}", jobName, submitJobResult.Error?.Message);
+		}
+
+		return submitJobResult;
+	}
+
+	/// <inheritdoc />
+	public Task<MethodResult<Job>> SubmitJob(string jobName, JobSubmissionOptions? options = null, CancellationToken cancellationToken = default)
+	{
+		return SubmitJob(jobName, NoBodyRequest.CreateInstance(), options, cancellationToken);
+	}
+}
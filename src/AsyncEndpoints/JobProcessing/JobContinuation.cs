@@ -0,0 +1,49 @@
+using AsyncEndpoints.Infrastructure.Serialization;
+using System;
+using System.Security.Cryptography;
+using System.Text;
+
+namespace AsyncEndpoints.JobProcessing;
+
+/// <summary>
+/// Describes a follow-up job that is enqueued when a job of a given name completes or fails.
+/// </summary>
+/// <param name="jobName">The name of the job that enqueues the continuation.</param>
+/// <param name="nextJobName">The name of the handler that processes the continuation.</param>
+/// <param name="trigger">The outcome of the job that enqueues the continuation.</param>
+/// <param name="payloadFactory">Creates the serialized request of the continuation from the finished job.</param>
+public sealed class JobContinuation(string jobName, string nextJobName, JobContinuationTrigger trigger, Func<ISerializer, Job, string> payloadFactory)
+{
+	/// <summary>
+	/// Gets the name of the job that enqueues the continuation.
+	/// </summary>
+	public string JobName { get; } = jobName ?? throw new ArgumentNullException(nameof(jobName));
+
+	/// <summary>
+	/// Gets the name of the handler that processes the continuation.
+	/// </summary>
+	public string NextJobName { get; } = nextJobName ?? throw new ArgumentNullException(nameof(nextJobName));
+
+	/// <summary>
+	/// Gets the outcome of the job that enqueues the continuation.
+	/// </summary>
+	public JobContinuationTrigger Trigger { get; } = trigger;
+
+	/// <summary>
+	/// Gets the factory that creates the serialized request of the continuation from the finished job.
+	/// </summary>
+	public Func<ISerializer, Job, string> PayloadFactory { get; } = payloadFactory ?? throw new ArgumentNullException(nameof(payloadFactory));
+
+	/// <summary>
+	/// Gets the job ID of the continuation enqueued by a job. The ID is derived from the parent job ID and the
+	/// continuation only, so completing the same parent job more than once never enqueues a second continuation.
+	/// </summary>
+	/// <param name="parentJobId">The ID of the job that enqueues the continuation.</param>
+	/// <returns>The job ID of the continuation.</returns>
+	public Guid GetContinuationJobId(Guid parentJobId)
+	{
+		var value = $"{parentJobId}:{Trigger}:{NextJobName}";
+		var hash = SHA256.HashData(Encoding.UTF8.GetBytes(value));
+		return new Guid(hash.AsSpan(0, 16));
+	}
+}
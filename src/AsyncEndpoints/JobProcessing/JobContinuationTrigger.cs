@@ -0,0 +1,17 @@
+namespace AsyncEndpoints.JobProcessing;
+
+/// <summary>
+/// Represents the outcome of a job that enqueues a continuation.
+/// </summary>
+public enum JobContinuationTrigger
+{
+	/// <summary>
+	/// The continuation is enqueued when the job completes successfully.
+	/// </summary>
+	OnSuccess = 100,
+
+	/// <summary>
+	/// The continuation is enqueued when the job fails and will not be retried.
+	/// </summary>
+	OnFailure = 200,
+}
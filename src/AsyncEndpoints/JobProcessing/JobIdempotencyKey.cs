@@ -0,0 +1,68 @@
+using System;
+using System.Security.Cryptography;
+using System.Text;
+
+namespace AsyncEndpoints.JobProcessing;
+
+/// <summary>
+/// Maps an idempotency key, scoped to a job name and caller, to the job first submitted with it.
+/// </summary>
+public sealed class JobIdempotencyKey
+{
+	/// <summary>
+	/// Gets or sets the scoped key, a SHA-256 hash of the job name, the caller and the key supplied by the caller.
+	/// </summary>
+	public string Key { get; set; } = string.Empty;
+
+	/// <summary>
+	/// Gets or sets the ID of the job first submitted with the key.
+	/// </summary>
+	public Guid JobId { get; set; }
+
+	/// <summary>
+	/// Gets or sets the SHA-256 hash of the payload the job was submitted with.
+	/// </summary>
+	public string Fingerprint { get; set; } = string.Empty;
+
+	/// <summary>
+	/// Gets or sets the time the key expires at. An expired key no longer returns its job.
+	/// </summary>
+	public DateTimeOffset ExpiresAt { get; set; }
+
+	/// <summary>
+	/// Creates the mapping of an idempotency key to a new job.
+	/// </summary>
+	/// <param name="jobName">The name of the job.</param>
+	/// <param name="caller">The identity of the caller submitting the job, or null for anonymous callers.</param>
+	/// <param name="idempotencyKey">The idempotency key supplied by the caller.</param>
+	/// <param name="payload">The payload of the job.</param>
+	/// <param name="jobId">The ID of the new job.</param>
+	/// <param name="expiresAt">The time the key expires at.</param>
+	/// <returns>The mapping of the scoped key to the job.</returns>
+	public static JobIdempotencyKey Create(string jobName, string? caller, string idempotencyKey, string payload, Guid jobId, DateTimeOffset expiresAt)
+	{
+		// Every part is length-prefixed, so different parts can never produce the same scoped key
+		caller ??= string.Empty;
+		var scope = $"{jobName.Length}:{jobName}{caller.Length}:{caller}{idempotencyKey.Length}:{idempotencyKey}";
+
+		return new JobIdempotencyKey
+		{
+			Key = Hash(scope),
+			JobId = jobId,
+			Fingerprint = Hash(payload),
+			ExpiresAt = expiresAt
+		};
+	}
+
+	/// <summary>
+	/// Determines whether the key has expired.
+	/// </summary>
+	/// <param name="now">The current time.</param>
+	/// <returns>True if the key has expired, otherwise false.</returns>
+	public bool IsExpired(DateTimeOffset now) => ExpiresAt <= now;
+
+	private static string Hash(string value)
+	{
+		return Convert.ToHexString(SHA256.HashData(Encoding.UTF8.GetBytes(value))).ToLowerInvariant();
+	}
+}
@@ -0,0 +1,33 @@
+using System;
+
+namespace AsyncEndpoints.JobProcessing;
+
+/// <summary>
+/// Represents the outcome of taking the limits of a claimed job.
+/// </summary>
+/// <param name="isAcquired">Whether the job may be processed now.</param>
+/// <param name="retryAfter">How long the job should be deferred when it may not be processed now.</param>
+public sealed class JobLimitAcquisition(bool isAcquired, TimeSpan retryAfter)
+{
+	/// <summary>
+	/// Gets the outcome of a job that may be processed now.
+	/// </summary>
+	public static JobLimitAcquisition Acquired { get; } = new(true, TimeSpan.Zero);
+
+	/// <summary>
+	/// Gets whether the job may be processed now.
+	/// </summary>
+	public bool IsAcquired { get; } = isAcquired;
+
+	/// <summary>
+	/// Gets how long the job should be deferred when a limit of its name is saturated.
+	/// </summary>
+	public TimeSpan RetryAfter { get; } = retryAfter;
+
+	/// <summary>
+	/// Creates the outcome of a job whose limits are saturated.
+	/// </summary>
+	/// <param name="retryAfter">How long the job should be deferred.</param>
+	/// <returns>The outcome of the saturated job.</returns>
+	public static JobLimitAcquisition Saturated(TimeSpan retryAfter) => new(false, retryAfter);
+}
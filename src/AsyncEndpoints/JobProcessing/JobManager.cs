@@ -1,32 +1,83 @@
 using AsyncEndpoints.Configuration;
 using AsyncEndpoints.Extensions;
 using AsyncEndpoints.Infrastructure;
+using AsyncEndpoints.Infrastructure.Blobs;
+using AsyncEndpoints.Infrastructure.Callbacks;
 using AsyncEndpoints.Infrastructure.Observability;
+using AsyncEndpoints.Infrastructure.Serialization;
 using AsyncEndpoints.Utilities;
 using Microsoft.AspNetCore.Http;
 using Microsoft.Extensions.Logging;
 using Microsoft.Extensions.Options;
 using System;
+using System.Collections.Generic;
+using System.Diagnostics;
+using System.IO;
+using System.Linq;
+using System.Text;
 using System.Threading;
 using System.Threading.Tasks;
 
 namespace AsyncEndpoints.JobProcessing;
 
 /// <inheritdoc />
-public class JobManager(IJobStore jobStore, ILogger<JobManager> logger, IOptions<AsyncEndpointsConfigurations> options, IDateTimeProvider dateTimeProvider, IAsyncEndpointsObservability metrics) : IJobManager
+public class JobManager(IJobStore jobStore, ILogger<JobManager> logger, IOptions<AsyncEndpointsConfigurations> options, IDateTimeProvider dateTimeProvider, IAsyncEndpointsObservability metrics, IJobCancellationNotifier jobCancellationNotifier, IJobCallbackQueue jobCallbackQueue, IEnumerable<JobContinuation> continuations, ISerializer serializer, IJobBlobStore? jobBlobStore = null) : IJobManager
 {
 	private readonly ILogger<JobManager> _logger = logger;
 	private readonly IJobStore _jobStore = jobStore;
+	private readonly IJobCancellationNotifier _jobCancellationNotifier = jobCancellationNotifier;
+	private readonly IJobCallbackQueue _jobCallbackQueue = jobCallbackQueue;
 	private readonly IDateTimeProvider _dateTimeProvider = dateTimeProvider;
 	private readonly AsyncEndpointsJobManagerConfigurations _jobManagerConfigurations = options.Value.JobManagerConfigurations;
+	private readonly AsyncEndpointsCallbackConfigurations _callbackConfigurations = options.Value.CallbackConfigurations;
+	private readonly AsyncEndpointsRetentionConfigurations _retentionConfigurations = options.Value.RetentionConfigurations;
+	private readonly AsyncEndpointsWorkerConfigurations _workerConfigurations = options.Value.WorkerConfigurations;
 	private readonly IAsyncEndpointsObservability _metrics = metrics;
+	private readonly List<JobContinuation> _continuations = [.. continuations];
+	private readonly ISerializer _serializer = serializer;
+	private readonly IJobBlobStore? _jobBlobStore = jobBlobStore;
+	private readonly AsyncEndpointsBlobStorageConfigurations _blobStorageConfigurations = options.Value.BlobStorageConfigurations;
 
 	/// <inheritdoc />
 	public async Task<MethodResult<Job>> SubmitJob(string jobName, string payload, HttpContext httpContext, CancellationToken cancellationToken)
+	{
+		var id = httpContext.GetOrCreateJobId();
+		if (!httpContext.TryGetRunAt(_dateTimeProvider.DateTimeOffsetNow, out var runAt))
+		{
+			_logger.LogWarning("Rejected job {JobId} with an invalid schedule", id);
+			return MethodResult<Job>.Failure(AsyncEndpointError.FromCode(AsyncEndpointsConstants.InvalidJobScheduleErrorCode,
+				$"Set either {AsyncEndpointsConstants.RunAtHeaderName} to an ISO 8601 time or {AsyncEndpointsConstants.DelayHeaderName} to a duration such as '30s' or '5m'"));
+		}
+
+		if (!httpContext.TryGetPriority(out var priority))
+		{
+			_logger.LogWarning("Rejected job {JobId} with an invalid priority", id);
+			return MethodResult<Job>.Failure(AsyncEndpointError.FromCode(AsyncEndpointsConstants.InvalidJobPriorityErrorCode,
+				$"Set {AsyncEndpointsConstants.PriorityHeaderName} to an integer"));
+		}
+
+		var options = new JobSubmissionOptions
+		{
+			JobId = id,
+			Headers = httpContext.GetHeadersFromContext(),
+			RouteParams = httpContext.GetRouteParamsFromContext(),
+			QueryParams = httpContext.GetQueryParamsFromContext(),
+			CallbackUrl = httpContext.GetCallbackUrl(),
+			RunAt = runAt,
+			Priority = priority,
+			IdempotencyKey = httpContext.GetIdempotencyKey(),
+			Caller = httpContext.GetCaller()
+		};
+
+		return await SubmitJob(jobName, payload, options, cancellationToken);
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<Job>> SubmitJob(string jobName, string payload, JobSubmissionOptions options, CancellationToken cancellationToken)
 	{
 		using var _ = _logger.BeginScope(new { JobName = jobName });
 
-		var id = httpContext.GetOrCreateJobId();
+		var id = options.JobId ?? Guid.NewGuid();
 
 		// Start activity only if tracing is enabled
 		using var activity = _metrics.StartJobSubmitActivity(jobName, _jobStore.GetType().Name, id);
@@ -43,23 +94,71 @@ public class JobManager(IJobStore jobStore, ILogger<JobManager> logger, IOptions
 			return MethodResult<Job>.Success(result.Data);
 		}
 
-		var headers = httpContext.GetHeadersFromContext();
-		var routeParams = httpContext.GetRouteParamsFromContext();
-		var queryParams = httpContext.GetQueryParamsFromContext();
+		var callbackUrl = options.CallbackUrl;
+		if (callbackUrl != null && !IsCallbackUrlAllowed(callbackUrl))
+		{
+			_logger.LogWarning("Rejected job {JobId} with disallowed callback URL {CallbackUrl}", id, callbackUrl);
+			return MethodResult<Job>.Failure(AsyncEndpointError.FromCode(AsyncEndpointsConstants.InvalidCallbackUrlErrorCode, $"Callback URL '{callbackUrl}' is not an allowed absolute HTTP(S) URL"));
+		}
 
-		var job = Job.Create(id, jobName, payload, headers, routeParams, queryParams, _jobManagerConfigurations.DefaultMaxRetries, _dateTimeProvider);
-		var createJobResult = await _jobStore.CreateJob(job, cancellationToken);
-		if (createJobResult.IsSuccess)
+		var idempotencyKey = options.IdempotencyKey;
+		if (idempotencyKey != null && (string.IsNullOrWhiteSpace(idempotencyKey) || idempotencyKey.Length > AsyncEndpointsConstants.MaximumIdempotencyKeyLength))
+		{
+			_logger.LogWarning("Rejected job {JobId} with an invalid idempotency key", id);
+			return MethodResult<Job>.Failure(AsyncEndpointError.FromCode(AsyncEndpointsConstants.InvalidIdempotencyKeyErrorCode,
+				$"Set {AsyncEndpointsConstants.IdempotencyKeyHeaderName} to a non-empty key of at most {AsyncEndpointsConstants.MaximumIdempotencyKeyLength} characters"));
+		}
+
+		var job = Job.Create(id, jobName, payload, options.Headers, options.RouteParams, options.QueryParams, _jobManagerConfigurations.GetMaxRetries(jobName), _dateTimeProvider,
+			callbackUrl, options.RunAt, options.Priority, _jobManagerConfigurations.GetQueue(jobName));
+		JobTraceContext.Capture(job, Activity.Current);
+		var offloadResult = await OffloadPayload(job, cancellationToken);
+		if (!offloadResult.IsSuccess)
+			return MethodResult<Job>.Failure(offloadResult.Error);
+
+		if (idempotencyKey != null)
 		{
-			_metrics.RecordJobCreated(jobName, _jobStore.GetType().Name);
+			var expiresAt = _dateTimeProvider.DateTimeOffsetNow + _jobManagerConfigurations.IdempotencyKeyExpiry;
+			var storeResult = await StoreNewJobWithIdempotencyKey(job, JobIdempotencyKey.Create(jobName, options.Caller, idempotencyKey, payload, id, expiresAt), cancellationToken);
 
-			return MethodResult<Job>.Success(job);
+			// The payload blob belongs to a job that was not created when the key returned an existing job or was rejected
+			if (job.PayloadBlobId != null && (storeResult.IsSuccess ? storeResult.Data.Id != job.Id : storeResult.Error.Code == AsyncEndpointsConstants.IdempotencyKeyMismatchErrorCode))
+			{
+				await DeleteBlob(job.PayloadBlobId);
+			}
+
+			return storeResult;
 		}
-		else
+
+		var storeJobResult = await StoreNewJob(job, cancellationToken);
+		if (!storeJobResult.IsSuccess)
 		{
-			_logger.LogError("Failed to create job {JobId} in store: {Error}", id, createJobResult.Error?.Message);
-			return MethodResult<Job>.Failure(createJobResult.Error!);
+			await DeleteUncreatedJobPayload(job);
 		}
+
+		return storeJobResult;
+	}
+
+	/// <inheritdoc />
+	public Task<MethodResult<Job>> ScheduleJob(string jobName, string payload, DateTimeOffset runAt, CancellationToken cancellationToken)
+	{
+		return ScheduleJob(Guid.NewGuid(), jobName, payload, runAt, cancellationToken);
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<Job>> ScheduleJob(Guid jobId, string jobName, string payload, DateTimeOffset runAt, CancellationToken cancellationToken)
+	{
+		using var _ = _logger.BeginScope(new { JobName = jobName });
+
+		// Start activity only if tracing is enabled
+		using var activity = _metrics.StartJobSubmitActivity(jobName, _jobStore.GetType().Name, jobId);
+
+		_logger.LogDebug("Scheduling job: {JobName} to run at {RunAt}", jobName, runAt);
+
+		var job = Job.Create(jobId, jobName, payload, [], [], [], _jobManagerConfigurations.GetMaxRetries(jobName), _dateTimeProvider,
+			runAt: runAt, queue: _jobManagerConfigurations.GetQueue(jobName));
+		JobTraceContext.Capture(job, Activity.Current);
+		return await StoreNewJobOnce(job, cancellationToken);
 	}
 
 	/// <inheritdoc />
@@ -67,7 +166,7 @@ public class JobManager(IJobStore jobStore, ILogger<JobManager> logger, IOptions
 	{
 		_logger.LogDebug("Attempting to claim next available job for worker {WorkerId}", workerId);
 
-		var claimedJob = await _jobStore.ClaimNextJobForWorker(workerId, cancellationToken);
+		var claimedJob = await ClaimNextJobFromQueues(workerId, cancellationToken);
 
 		if (claimedJob.IsSuccess)
 		{
@@ -75,6 +174,7 @@ public class JobManager(IJobStore jobStore, ILogger<JobManager> logger, IOptions
 			if (claimedJob.DataOrNull != null)
 			{
 				_metrics.RecordJobProcessed(claimedJob.DataOrNull.Name, "claimed", _jobStore.GetType().Name);
+				RecordQueueDuration(claimedJob.DataOrNull);
 			}
 		}
 		else if (claimedJob.IsSuccess && claimedJob.DataOrNull == null)
@@ -89,6 +189,28 @@ public class JobManager(IJobStore jobStore, ILogger<JobManager> logger, IOptions
 		return claimedJob;
 	}
 
+	/// <inheritdoc />
+	public async Task<MethodResult<List<Job>>> ClaimNextAvailableJobs(Guid workerId, int maxCount, CancellationToken cancellationToken)
+	{
+		_logger.LogDebug("Attempting to claim up to {MaxCount} available jobs for worker {WorkerId}", maxCount, workerId);
+
+		var claimedJobs = await ClaimNextJobsFromQueues(workerId, maxCount, cancellationToken);
+		if (!claimedJobs.IsSuccess)
+		{
+			_logger.LogError("Failed to claim jobs for worker {WorkerId}: {Error}", workerId, claimedJobs.Error?.Message);
+			return claimedJobs;
+		}
+
+		_logger.LogDebug("Claimed {ClaimedCount} jobs for worker {WorkerId}", claimedJobs.Data.Count, workerId);
+		foreach (var claimedJob in claimedJobs.Data)
+		{
+			_metrics.RecordJobProcessed(claimedJob.Name, "claimed", _jobStore.GetType().Name);
+			RecordQueueDuration(claimedJob);
+		}
+
+		return claimedJobs;
+	}
+
 	/// <inheritdoc />
 	public async Task<MethodResult> ProcessJobSuccess(Guid jobId, string result, CancellationToken cancellationToken)
 	{
@@ -104,18 +226,60 @@ public class JobManager(IJobStore jobStore, ILogger<JobManager> logger, IOptions
 		}
 
 		var job = jobResult.Data;
+		if (job.Status == JobStatus.Canceled)
+		{
+			_logger.LogInformation("Job {JobId} was canceled while processing, discarding result", jobId);
+			return MethodResult.Success();
+		}
+
+		// The job is only finished while the worker that processed it still holds it
+		var workerId = job.WorkerId;
+
 		_logger.LogDebug("Setting result for job {JobId}, result length: {ResultLength}", jobId, result.Length);
 
+		job.RecordRun(JobRunOutcome.Succeeded, null, _dateTimeProvider);
 		job.SetResult(result, _dateTimeProvider);
+		ApplyRetention(job);
+		AddContinuationJobIds(job, JobContinuationTrigger.OnSuccess);
 
-		var updateResult = await _jobStore.UpdateJob(job, cancellationToken);
-		if (updateResult.IsSuccess)
+		// Continuations get the result before it is moved to the blob store
+		var continuationSource = job.CreateCopy();
+		var offloadResult = await OffloadResult(job, cancellationToken);
+
+		// The handler is not run again for an outcome that cannot be stored, so the job fails instead of staying in progress
+		if (!offloadResult.IsSuccess)
+		{
+			job.Result = null;
+			FailProcessedJob(job, AsyncEndpointsConstants.ResultOffloadFailedErrorCode, "Failed to store the result of the job in the blob store", offloadResult.Error);
+		}
+
+		var updateResult = await _jobStore.UpdateInProgressJob(job, workerId, cancellationToken);
+		if (updateResult.IsSuccess && !updateResult.Data)
+		{
+			_logger.LogInformation("Job {JobId} was canceled, deleted or recovered while processing, discarding result", jobId);
+		}
+		else if (updateResult.IsSuccess)
 		{
-			_metrics.RecordJobProcessed(job.Name, "completed", _jobStore.GetType().Name);
-			var duration = (job.CompletedAt?.UtcDateTime - job.CreatedAt.UtcDateTime).GetValueOrDefault().TotalSeconds;
-			_metrics.RecordJobProcessingDuration(job.Name, "completed", duration);
+			if (job.Status == JobStatus.Completed)
+			{
+				await EnqueueContinuationsOfFinishedJob(job, continuationSource, JobContinuationTrigger.OnSuccess, cancellationToken);
+			}
+
+			// A job whose continuations could not be created is failed by now, so its final status is checked again
+			if (job.Status == JobStatus.Completed)
+			{
+				_metrics.RecordJobProcessed(job.Name, "completed", _jobStore.GetType().Name);
+				var duration = (job.CompletedAt?.UtcDateTime - job.CreatedAt.UtcDateTime).GetValueOrDefault().TotalSeconds;
+				_metrics.RecordJobProcessingDuration(job.Name, "completed", duration);
+			}
+			else
+			{
+				_metrics.RecordJobFailed(job.Name, job.Error!.Code, _jobStore.GetType().Name);
+			}
 
 			_logger.LogInformation("Successfully processed job {JobId} completion", jobId);
+			await ApplyBlobExpiry(job, cancellationToken);
+			EnqueueCallback(job);
 		}
 		else
 		{
@@ -140,14 +304,31 @@ public class JobManager(IJobStore jobStore, ILogger<JobManager> logger, IOptions
 		}
 
 		var job = jobResult.Data;
+		if (job.Status == JobStatus.Canceled)
+		{
+			_logger.LogInformation("Job {JobId} was canceled while processing, skipping failure handling", jobId);
+			return MethodResult.Success();
+		}
+
+		// The failure is only recorded while the worker that processed the job still holds it
+		var workerId = job.WorkerId;
+
 		_logger.LogDebug("Current retry count for job {JobId}: {RetryCount}/{MaxRetries}", jobId, job.RetryCount, job.MaxRetries);
 
+		job.RecordRun(JobRunOutcome.Failed, error, _dateTimeProvider);
+
+		var isRetryable = _jobManagerConfigurations.IsRetryable(job.Name, error);
+		if (!isRetryable)
+		{
+			_logger.LogDebug("Error {ErrorCode} of job {JobId} is not retryable", error.Code, jobId);
+		}
+
 		// Check if retry is possible
-		if (job.RetryCount < job.MaxRetries)
+		if (isRetryable && job.RetryCount < job.MaxRetries)
 		{
 			job.IncrementRetryCount();
 			_metrics.RecordJobRetries(job.Name, _jobStore.GetType().Name);
-			var retryDelay = CalculateRetryDelay(job.RetryCount);
+			var retryDelay = _jobManagerConfigurations.GetRetryDelay(job.Name, job.RetryCount, Random.Shared.NextDouble());
 			job.SetRetryTime(_dateTimeProvider.UtcNow.Add(retryDelay));
 			job.UpdateStatus(JobStatus.Scheduled, _dateTimeProvider);
 			job.WorkerId = null; // Release from current worker
@@ -159,14 +340,26 @@ public class JobManager(IJobStore jobStore, ILogger<JobManager> logger, IOptions
 		else
 		{
 			job.SetError(error, _dateTimeProvider);
+			ApplyRetention(job);
 			_metrics.RecordJobFailed(job.Name, error.Code, _jobStore.GetType().Name);
-			_logger.LogDebug("Max retries exceeded for job {JobId}, setting final error status", jobId);
+			_logger.LogDebug("Job {JobId} will not be retried, setting final error status", jobId);
+			AddContinuationJobIds(job, JobContinuationTrigger.OnFailure);
 		}
 
-		var updateResult = await _jobStore.UpdateJob(job, cancellationToken);
-		if (updateResult.IsSuccess)
+		var updateResult = await _jobStore.UpdateInProgressJob(job, workerId, cancellationToken);
+		if (updateResult.IsSuccess && !updateResult.Data)
+		{
+			_logger.LogInformation("Job {JobId} was canceled, deleted or recovered while processing, skipping failure handling", jobId);
+		}
+		else if (updateResult.IsSuccess)
 		{
 			_logger.LogInformation("Successfully processed job {JobId} failure", jobId);
+			if (job.Status == JobStatus.Failed)
+			{
+				await EnqueueContinuationsOfFinishedJob(job, job, JobContinuationTrigger.OnFailure, cancellationToken);
+				await ApplyBlobExpiry(job, cancellationToken);
+				EnqueueCallback(job);
+			}
 		}
 		else
 		{
@@ -176,15 +369,659 @@ public class JobManager(IJobStore jobStore, ILogger<JobManager> logger, IOptions
 		return updateResult;
 	}
 
+	/// <inheritdoc />
+	public async Task<MethodResult> DeferJob(Guid jobId, TimeSpan delay, CancellationToken cancellationToken)
+	{
+		using var _ = _logger.BeginScope(new { JobId = jobId });
+
+		var jobResult = await _jobStore.GetJobById(jobId, cancellationToken);
+		if (!jobResult.IsSuccess || jobResult.Data == null)
+		{
+			_logger.LogError("Job {JobId} not found when deferring it", jobId);
+			return MethodResult.Failure(new AsyncEndpointError("JOB_NOT_FOUND", $"Job {jobId} not found"));
+		}
+
+		var job = jobResult.Data;
+		if (job.Status != JobStatus.InProgress)
+		{
+			_logger.LogInformation("Job {JobId} is no longer in progress, skipping deferral", jobId);
+			return MethodResult.Success();
+		}
+
+		// The job is only deferred while the worker that claimed it still holds it, so a concurrent cancel is not overwritten
+		var workerId = job.WorkerId;
+
+		job.SetRetryTime(_dateTimeProvider.UtcNow.Add(delay));
+		job.UpdateStatus(JobStatus.Scheduled, _dateTimeProvider);
+		job.WorkerId = null; // Release from current worker
+
+		var updateResult = await _jobStore.UpdateInProgressJob(job, workerId, cancellationToken);
+		if (updateResult.IsSuccess && !updateResult.Data)
+		{
+			_logger.LogInformation("Job {JobId} was canceled, deleted or recovered before it was deferred, skipping deferral", jobId);
+		}
+		else if (updateResult.IsSuccess)
+		{
+			_logger.LogDebug("Deferred job {JobId} by {Delay}ms", jobId, delay.TotalMilliseconds);
+		}
+		else
+		{
+			_logger.LogError("Failed to update job {JobId} after deferring it: {Error}", jobId, updateResult.Error?.Message);
+		}
+
+		return updateResult;
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult> ReleaseJob(Guid jobId, Guid workerId, CancellationToken cancellationToken)
+	{
+		using var _ = _logger.BeginScope(new { JobId = jobId, WorkerId = workerId });
+
+		var releaseResult = await _jobStore.ReleaseJob(jobId, workerId, cancellationToken);
+		if (releaseResult.IsSuccess)
+		{
+			_logger.LogDebug("Released job {JobId} from worker {WorkerId}", jobId, workerId);
+		}
+		else
+		{
+			_logger.LogError("Failed to release job {JobId} from worker {WorkerId}: {Error}", jobId, workerId, releaseResult.Error?.Message);
+		}
+
+		return releaseResult;
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult> ReportJobProgress(Guid jobId, JobProgress progress, CancellationToken cancellationToken)
+	{
+		_logger.LogDebug("Reporting progress {PercentComplete}% for job {JobId}", progress.PercentComplete, jobId);
+
+		var updateResult = await _jobStore.UpdateJobProgress(jobId, progress, cancellationToken);
+		if (!updateResult.IsSuccess)
+		{
+			_logger.LogWarning("Failed to store progress of job {JobId}: {Error}", jobId, updateResult.Error?.Message);
+		}
+
+		return updateResult;
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<Job>> CancelJob(Guid jobId, CancellationToken cancellationToken)
+	{
+		using var _ = _logger.BeginScope(new { JobId = jobId });
+
+		_logger.LogDebug("Processing cancellation for job {JobId}", jobId);
+
+		var cancelResult = await _jobStore.CancelJob(jobId, cancellationToken);
+		if (!cancelResult.IsSuccess)
+		{
+			_logger.LogWarning("Failed to cancel job {JobId}: {Error}", jobId, cancelResult.Error.Message);
+			return cancelResult;
+		}
+
+		var job = cancelResult.Data;
+		_metrics.RecordJobProcessed(job.Name, "canceled", _jobStore.GetType().Name);
+
+		// Jobs that were already claimed need their worker to stop the running handler
+		if (job.WorkerId.HasValue)
+		{
+			_logger.LogDebug("Notifying worker {WorkerId} about cancellation of job {JobId}", job.WorkerId, jobId);
+			await _jobCancellationNotifier.NotifyCancellation(jobId, job.WorkerId.Value, cancellationToken);
+		}
+
+		// The worker of a canceled job stops without reporting back, so the run it was processing is recorded here
+		var runRecorded = job.WorkerId.HasValue && job.RecordRun(JobRunOutcome.Canceled, null, _dateTimeProvider);
+		var retentionApplied = job.ExpiresAt == null && ApplyRetention(job);
+		if (runRecorded || retentionApplied)
+		{
+			// The job is already canceled, so failing to store the run or the expiry only loses history or keeps it around longer
+			var updateResult = await _jobStore.UpdateJob(job, cancellationToken);
+			if (updateResult.IsSuccess)
+			{
+				await ApplyBlobExpiry(job, cancellationToken);
+			}
+			else
+			{
+				_logger.LogWarning("Failed to store run and expiry of canceled job {JobId}: {Error}", jobId, updateResult.Error?.Message);
+			}
+		}
+
+		_logger.LogInformation("Successfully canceled job {JobId}", jobId);
+		return cancelResult;
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<Job>> RequeueJob(Guid jobId, bool resetRetries, CancellationToken cancellationToken)
+	{
+		using var _ = _logger.BeginScope(new { JobId = jobId });
+
+		_logger.LogDebug("Requeuing failed job {JobId}, reset retries: {ResetRetries}", jobId, resetRetries);
+
+		var requeueResult = await _jobStore.RequeueJob(jobId, resetRetries, cancellationToken);
+		if (!requeueResult.IsSuccess)
+		{
+			_logger.LogWarning("Failed to requeue job {JobId}: {Error}", jobId, requeueResult.Error.Message);
+			return requeueResult;
+		}
+
+		_metrics.RecordJobProcessed(requeueResult.Data.Name, "requeued", _jobStore.GetType().Name);
+
+		// The requeued job no longer expires, so neither do its payload and result
+		await ApplyBlobExpiry(requeueResult.Data, cancellationToken);
+		_logger.LogInformation("Successfully requeued job {JobId}", jobId);
+		return requeueResult;
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<int>> RequeueFailedJobs(string jobName, bool resetRetries, CancellationToken cancellationToken)
+	{
+		using var _ = _logger.BeginScope(new { JobName = jobName });
+
+		var requeuedCount = 0;
+		var query = new JobQuery
+		{
+			Name = jobName,
+			Status = JobStatus.Failed,
+			PageSize = AsyncEndpointsConstants.MaximumJobQueryPageSize
+		};
+
+		do
+		{
+			var queryResult = await _jobStore.QueryJobs(query, cancellationToken);
+			if (!queryResult.IsSuccess)
+			{
+				_logger.LogWarning("Failed to query failed jobs of {JobName}: {Error}", jobName, queryResult.Error.Message);
+				return MethodResult<int>.Failure(queryResult.Error);
+			}
+
+			foreach (var job in queryResult.Data.Jobs)
+			{
+				// A job can be requeued or deleted by someone else in between, so a single failure does not stop the others
+				var requeueResult = await RequeueJob(job.Id, resetRetries, cancellationToken);
+				if (requeueResult.IsSuccess)
+				{
+					requeuedCount++;
+				}
+			}
+
+			query.Cursor = queryResult.Data.NextCursor;
+		}
+		while (query.Cursor != null);
+
+		_logger.LogInformation("Requeued {RequeuedCount} failed jobs of {JobName}", requeuedCount, jobName);
+		return MethodResult<int>.Success(requeuedCount);
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult> DeleteJob(Guid jobId, CancellationToken cancellationToken)
+	{
+		_logger.LogDebug("Deleting job {JobId}", jobId);
+
+		var deleteResult = await _jobStore.DeleteJob(jobId, cancellationToken);
+		if (!deleteResult.IsSuccess)
+		{
+			_logger.LogWarning("Failed to delete job {JobId}: {Error}", jobId, deleteResult.Error?.Message);
+			return deleteResult;
+		}
+
+		if (_jobBlobStore != null)
+		{
+			await DeleteBlob(GetPayloadBlobId(jobId));
+			await DeleteBlob(GetResultBlobId(jobId));
+		}
+
+		return deleteResult;
+	}
+
 	/// <inheritdoc />
 	public async Task<MethodResult<Job>> GetJobById(Guid jobId, CancellationToken cancellationToken)
 	{
 		return await _jobStore.GetJobById(jobId, cancellationToken);
 	}
 
-	private TimeSpan CalculateRetryDelay(int retryCount)
+	/// <inheritdoc />
+	public async Task<MethodResult<string>> GetJobPayload(Job job, CancellationToken cancellationToken)
+	{
+		if (job.PayloadBlobId == null)
+			return MethodResult<string>.Success(job.Payload);
+
+		var blobResult = await OpenBlob(job.PayloadBlobId, cancellationToken);
+		if (!blobResult.IsSuccess)
+		{
+			_logger.LogError("Failed to read the payload of job {JobId} from blob {BlobId}: {Error}", job.Id, job.PayloadBlobId, blobResult.Error.Message);
+			return MethodResult<string>.Failure(blobResult.Error);
+		}
+
+		using var reader = new StreamReader(blobResult.Data.Content, Encoding.UTF8);
+		return MethodResult<string>.Success(await reader.ReadToEndAsync(cancellationToken));
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<JobBlob>> GetJobResult(Guid jobId, CancellationToken cancellationToken)
 	{
-		// Exponential backoff: (2 ^ retryCount) * base delay
-		return TimeSpan.FromSeconds(Math.Pow(2, retryCount) * _jobManagerConfigurations.RetryDelayBaseSeconds);
+		var jobResult = await _jobStore.GetJobById(jobId, cancellationToken);
+		if (!jobResult.IsSuccess)
+			return MethodResult<JobBlob>.Failure(jobResult.Error);
+
+		var job = jobResult.DataOrNull;
+		if (job == null)
+			return MethodResult<JobBlob>.Failure(AsyncEndpointError.FromCode("JOB_NOT_FOUND", $"Job {jobId} not found"));
+
+		if (job.Status != JobStatus.Completed)
+		{
+			return MethodResult<JobBlob>.Failure(AsyncEndpointError.FromCode(AsyncEndpointsConstants.JobResultNotAvailableErrorCode,
+				$"Job {jobId} has no result because it is {job.Status}"));
+		}
+
+		if (job.ResultBlobId != null)
+			return await OpenBlob(job.ResultBlobId, cancellationToken);
+
+		var content = new MemoryStream(Encoding.UTF8.GetBytes(string.IsNullOrEmpty(job.Result) ? "null" : job.Result));
+		return MethodResult<JobBlob>.Success(new JobBlob(content, "application/json"));
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<JobQueryResult>> QueryJobs(JobQuery query, CancellationToken cancellationToken)
+	{
+		return await _jobStore.QueryJobs(query, cancellationToken);
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<List<WorkerHeartbeat>>> GetWorkers(CancellationToken cancellationToken)
+	{
+		return await _jobStore.GetWorkers(cancellationToken);
+	}
+
+	/// <inheritdoc />
+	public async Task<MethodResult<JobStats>> GetJobStats(CancellationToken cancellationToken)
+	{
+		return await _jobStore.GetJobStats(cancellationToken);
+	}
+
+	private void RecordQueueDuration(Job claimedJob)
+	{
+		// Retried jobs keep their creation time, so their queue duration includes the earlier attempts
+		var claimedAt = claimedJob.StartedAt ?? _dateTimeProvider.DateTimeOffsetNow;
+		_metrics.RecordJobQueueDuration(claimedJob.Name, _jobStore.GetType().Name, (claimedAt - claimedJob.CreatedAt).TotalSeconds);
+	}
+
+	private async Task<MethodResult<Job>> ClaimNextJobFromQueues(Guid workerId, CancellationToken cancellationToken)
+	{
+		var queues = _workerConfigurations.GetQueueClaimOrder(Random.Shared);
+		if (queues.Count == 0)
+			return await _jobStore.ClaimNextJobForWorker(workerId, null, cancellationToken);
+
+		// Queues are tried in weighted random order, so queues with a low weight are not starved by busier ones
+		foreach (var queue in queues)
+		{
+			var claimedJob = await _jobStore.ClaimNextJobForWorker(workerId, queue, cancellationToken);
+			if (!claimedJob.IsSuccess || claimedJob.DataOrNull != null)
+				return claimedJob;
+		}
+
+		return MethodResult<Job>.Success(default);
+	}
+
+	private async Task<MethodResult<List<Job>>> ClaimNextJobsFromQueues(Guid workerId, int maxCount, CancellationToken cancellationToken)
+	{
+		var queues = _workerConfigurations.GetQueueClaimOrder(Random.Shared);
+		if (queues.Count == 0)
+			return await _jobStore.ClaimNextJobsForWorker(workerId, null, maxCount, cancellationToken);
+
+		// The batch is filled from the queues in the same weighted random order as single claims
+		var claimedJobs = new List<Job>();
+		foreach (var queue in queues)
+		{
+			if (claimedJobs.Count >= maxCount)
+				break;
+
+			var queueJobs = await _jobStore.ClaimNextJobsForWorker(workerId, queue, maxCount - claimedJobs.Count, cancellationToken);
+			if (!queueJobs.IsSuccess)
+			{
+				// Jobs claimed from earlier queues are in progress already, so they are still handed to the worker
+				if (claimedJobs.Count > 0)
+					break;
+
+				return queueJobs;
+			}
+
+			claimedJobs.AddRange(queueJobs.Data);
+		}
+
+		return MethodResult<List<Job>>.Success(claimedJobs);
+	}
+
+	private List<JobContinuation> GetContinuations(Job job, JobContinuationTrigger trigger)
+	{
+		return [.. _continuations.Where(x => x.JobName == job.Name && x.Trigger == trigger)];
+	}
+
+	/// <summary>
+	/// Lists the continuations of a finishing job on the job, so they are stored together with its outcome.
+	/// </summary>
+	private void AddContinuationJobIds(Job job, JobContinuationTrigger trigger)
+	{
+		foreach (var continuation in GetContinuations(job, trigger))
+		{
+			var continuationJobId = continuation.GetContinuationJobId(job.Id);
+			if (!job.ContinuationJobIds.Contains(continuationJobId))
+			{
+				job.ContinuationJobIds.Add(continuationJobId);
+			}
+		}
+	}
+
+	/// <summary>
+	/// Creates the continuations of a job once its outcome is stored, so a job that was canceled or recovered while
+	/// processing does not start them. When they cannot be created, the job is failed so it can be requeued.
+	/// </summary>
+	private async Task EnqueueContinuationsOfFinishedJob(Job job, Job sourceJob, JobContinuationTrigger trigger, CancellationToken cancellationToken)
+	{
+		var continuationResult = await EnqueueContinuations(sourceJob, trigger, cancellationToken);
+		if (continuationResult.IsSuccess)
+			return;
+
+		// The job is no longer in progress, so its outcome is replaced directly
+		FailProcessedJob(job, AsyncEndpointsConstants.ContinuationFailedErrorCode, "Failed to enqueue the continuations of the job", continuationResult.Error);
+		var updateResult = await _jobStore.UpdateJob(job, cancellationToken);
+		if (!updateResult.IsSuccess)
+		{
+			_logger.LogError("Failed to update job {JobId} after its continuations failed: {Error}", job.Id, updateResult.Error.Message);
+		}
+	}
+
+	private async Task<MethodResult> EnqueueContinuations(Job job, JobContinuationTrigger trigger, CancellationToken cancellationToken)
+	{
+		var continuations = GetContinuations(job, trigger);
+		if (continuations.Count == 0)
+			return MethodResult.Success();
+
+		// Payload factories of failure continuations read the request of the job, so an offloaded payload is read back first
+		var sourceJob = job;
+		if (job.PayloadBlobId != null)
+		{
+			var payloadResult = await GetJobPayload(job, cancellationToken);
+			if (!payloadResult.IsSuccess)
+				return MethodResult.Failure(payloadResult.Error);
+
+			sourceJob = job.CreateCopy();
+			sourceJob.Payload = payloadResult.Data;
+		}
+
+		// Continuation IDs are derived from the job ID, so when the job is requeued and finishes again,
+		// the existing continuations are reused instead of duplicated.
+		foreach (var continuation in continuations)
+		{
+			var continuationJobId = continuation.GetContinuationJobId(job.Id);
+
+			string payload;
+			try
+			{
+				payload = continuation.PayloadFactory(_serializer, sourceJob);
+			}
+			catch (Exception ex)
+			{
+				_logger.LogError(ex, "Failed to create the payload of continuation {NextJobName} for job {JobId}", continuation.NextJobName, job.Id);
+				return MethodResult.Failure(ex);
+			}
+
+			var continuationJob = Job.Create(continuationJobId, continuation.NextJobName, payload,
+				new Dictionary<string, List<string?>>(job.Headers),
+				new Dictionary<string, object?>(job.RouteParams),
+				[.. job.QueryParams.Select(kvp => new KeyValuePair<string, List<string?>>(kvp.Key, [.. kvp.Value]))],
+				_jobManagerConfigurations.GetMaxRetries(continuation.NextJobName), _dateTimeProvider,
+				priority: job.Priority, queue: _jobManagerConfigurations.GetQueue(continuation.NextJobName));
+			continuationJob.ParentJobId = job.Id;
+			JobTraceContext.Capture(continuationJob, Activity.Current);
+
+			var result = await StoreNewJobOnce(continuationJob, cancellationToken);
+			if (!result.IsSuccess)
+			{
+				_logger.LogError("Failed to enqueue continuation {NextJobName} for job {JobId}: {Error}", continuation.NextJobName, job.Id, result.Error.Message);
+				return MethodResult.Failure(result.Error);
+			}
+
+			_logger.LogInformation("Enqueued continuation {NextJobName} of job {JobId} as job {ContinuationJobId}", continuation.NextJobName, job.Id, continuationJobId);
+		}
+
+		return MethodResult.Success();
+	}
+
+	/// <summary>
+	/// Fails a processed job whose outcome could not be fully stored, so it is not left in progress and can be requeued once the cause is fixed.
+	/// </summary>
+	private void FailProcessedJob(Job job, string errorCode, string message, AsyncEndpointError cause)
+	{
+		_logger.LogError("Failing processed job {JobId}: {Message}: {Error}", job.Id, message, cause.Message);
+
+		job.SetError(AsyncEndpointError.FromCode(errorCode, $"{message}: {cause.Message}"), _dateTimeProvider);
+		ApplyRetention(job);
+	}
+
+	private void EnqueueCallback(Job job)
+	{
+		if (job.Callback == null)
+			return;
+
+		if (!_jobCallbackQueue.Enqueue(job.Id))
+		{
+			_logger.LogWarning("Failed to queue callback delivery for job {JobId}", job.Id);
+		}
+	}
+
+	private bool IsCallbackUrlAllowed(string callbackUrl)
+	{
+		if (!Uri.TryCreate(callbackUrl, UriKind.Absolute, out var uri) || (uri.Scheme != Uri.UriSchemeHttp && uri.Scheme != Uri.UriSchemeHttps))
+			return false;
+
+		return _callbackConfigurations.AllowedHosts.Count == 0
+			|| _callbackConfigurations.AllowedHosts.Any(host => string.Equals(host, uri.Host, StringComparison.OrdinalIgnoreCase));
+	}
+
+	/// <summary>
+	/// Sets the expiry of a finished job from the retention configured for its name and status.
+	/// </summary>
+	/// <returns>True if a retention applies to the job, otherwise false.</returns>
+	private bool ApplyRetention(Job job)
+	{
+		var retention = _retentionConfigurations.GetRetention(job.Name, job.Status);
+		job.ExpiresAt = (job.CompletedAt ?? _dateTimeProvider.DateTimeOffsetNow) + retention;
+		return retention.HasValue;
+	}
+
+	private async Task<MethodResult<Job>> StoreNewJobOnce(Job job, CancellationToken cancellationToken)
+	{
+		var existingJob = await _jobStore.GetJobById(job.Id, cancellationToken);
+		if (existingJob.IsSuccess && existingJob.DataOrNull != null)
+		{
+			_logger.LogDebug("Found existing job {JobId} for job: {JobName}, returning existing job", job.Id, job.Name);
+			return MethodResult<Job>.Success(existingJob.Data);
+		}
+
+		var offloadResult = await OffloadPayload(job, cancellationToken);
+		if (!offloadResult.IsSuccess)
+			return MethodResult<Job>.Failure(offloadResult.Error);
+
+		var result = await StoreNewJob(job, cancellationToken);
+		if (result.IsSuccess)
+			return result;
+
+		// Another instance may have created the same job between the lookup and the creation
+		existingJob = await _jobStore.GetJobById(job.Id, cancellationToken);
+		if (existingJob.IsSuccess && existingJob.DataOrNull != null)
+		{
+			_logger.LogDebug("Job {JobId} was created concurrently, returning existing job", job.Id);
+			return MethodResult<Job>.Success(existingJob.Data);
+		}
+
+		// The payload blob would otherwise be kept forever, as it only expires together with its job
+		if (job.PayloadBlobId != null)
+		{
+			await DeleteBlob(job.PayloadBlobId);
+		}
+
+		return result;
+	}
+
+	private async Task<MethodResult<Job>> StoreNewJob(Job job, CancellationToken cancellationToken)
+	{
+		var createJobResult = await _jobStore.CreateJob(job, cancellationToken);
+		if (createJobResult.IsSuccess)
+		{
+			RecordNewJob(job);
+			return MethodResult<Job>.Success(job);
+		}
+		else
+		{
+			_logger.LogError("Failed to create job {JobId} in store: {Error}", job.Id, createJobResult.Error?.Message);
+			return MethodResult<Job>.Failure(createJobResult.Error!);
+		}
+	}
+
+	private async Task<MethodResult<Job>> StoreNewJobWithIdempotencyKey(Job job, JobIdempotencyKey idempotencyKey, CancellationToken cancellationToken)
+	{
+		var createJobResult = await _jobStore.CreateJobWithIdempotencyKey(job, idempotencyKey, cancellationToken);
+		if (!createJobResult.IsSuccess)
+		{
+			if (createJobResult.Error.Code == AsyncEndpointsConstants.IdempotencyKeyMismatchErrorCode)
+			{
+				_logger.LogWarning("Rejected job {JobId} reusing an idempotency key with a different payload", job.Id);
+			}
+			else
+			{
+				_logger.LogError("Failed to create job {JobId} in store: {Error}", job.Id, createJobResult.Error.Message);
+			}
+
+			return createJobResult;
+		}
+
+		if (createJobResult.Data.Id != job.Id)
+		{
+			_logger.LogDebug("Found existing job {JobId} for idempotency key of job: {JobName}, returning existing job", createJobResult.Data.Id, job.Name);
+			return createJobResult;
+		}
+
+		RecordNewJob(job);
+		return createJobResult;
+	}
+
+	/// <summary>
+	/// Moves the payload of a new job to the blob store if it is larger than the offload threshold.
+	/// </summary>
+	private async Task<MethodResult> OffloadPayload(Job job, CancellationToken cancellationToken)
+	{
+		if (!ShouldOffload(job.Payload))
+			return MethodResult.Success();
+
+		var blobId = GetPayloadBlobId(job.Id);
+		var saveResult = await _jobBlobStore!.SaveBlob(blobId, job.Payload, "application/json", null, cancellationToken);
+		if (!saveResult.IsSuccess)
+		{
+			_logger.LogError("Failed to store the payload of job {JobId} in the blob store: {Error}", job.Id, saveResult.Error.Message);
+			return saveResult;
+		}
+
+		_logger.LogDebug("Stored the payload of job {JobId} in blob {BlobId}", job.Id, blobId);
+		job.PayloadBlobId = blobId;
+		job.Payload = string.Empty;
+		return MethodResult.Success();
+	}
+
+	/// <summary>
+	/// Moves the result of a completed job to the blob store if it is larger than the offload threshold.
+	/// </summary>
+	private async Task<MethodResult> OffloadResult(Job job, CancellationToken cancellationToken)
+	{
+		if (!ShouldOffload(job.Result))
+			return MethodResult.Success();
+
+		var blobId = GetResultBlobId(job.Id);
+		var saveResult = await _jobBlobStore!.SaveBlob(blobId, job.Result!, "application/json", job.ExpiresAt, cancellationToken);
+		if (!saveResult.IsSuccess)
+		{
+			_logger.LogError("Failed to store the result of job {JobId} in the blob store: {Error}", job.Id, saveResult.Error.Message);
+			return saveResult;
+		}
+
+		_logger.LogDebug("Stored the result of job {JobId} in blob {BlobId}", job.Id, blobId);
+		job.ResultBlobId = blobId;
+		job.Result = null;
+		return MethodResult.Success();
+	}
+
+	private bool ShouldOffload(string? content)
+	{
+		return _jobBlobStore != null
+			&& content != null
+			&& Encoding.UTF8.GetByteCount(content) > _blobStorageConfigurations.OffloadThresholdBytes;
+	}
+
+	/// <summary>
+	/// Makes the blobs of a job expire together with the job, or keeps them while the job does not expire.
+	/// </summary>
+	private async Task ApplyBlobExpiry(Job job, CancellationToken cancellationToken)
+	{
+		if (_jobBlobStore == null)
+			return;
+
+		foreach (var blobId in new[] { job.PayloadBlobId, job.ResultBlobId })
+		{
+			if (blobId == null)
+				continue;
+
+			var expiryResult = await _jobBlobStore.SetBlobExpiry(blobId, job.ExpiresAt, cancellationToken);
+			if (!expiryResult.IsSuccess)
+			{
+				_logger.LogWarning("Failed to set the expiry of blob {BlobId} of job {JobId}: {Error}", blobId, job.Id, expiryResult.Error.Message);
+			}
+		}
+	}
+
+	private async Task<MethodResult<JobBlob>> OpenBlob(string blobId, CancellationToken cancellationToken)
+	{
+		if (_jobBlobStore == null)
+		{
+			return MethodResult<JobBlob>.Failure(AsyncEndpointError.FromCode(AsyncEndpointsConstants.BlobNotFoundErrorCode,
+				$"Blob {blobId} cannot be read because no blob store is registered"));
+		}
+
+		return await _jobBlobStore.OpenBlob(blobId, cancellationToken);
+	}
+
+	/// <summary>
+	/// Deletes the payload blob of a job that could not be created, unless a job with the same ID was created concurrently and shares the blob.
+	/// </summary>
+	private async Task DeleteUncreatedJobPayload(Job job)
+	{
+		if (job.PayloadBlobId == null)
+			return;
+
+		var existingJob = await _jobStore.GetJobById(job.Id, CancellationToken.None);
+		if (existingJob.IsSuccess && existingJob.DataOrNull != null)
+			return;
+
+		await DeleteBlob(job.PayloadBlobId);
+	}
+
+	private async Task DeleteBlob(string blobId)
+	{
+		// Deleting a blob is not canceled halfway, so the job and its blobs are not left half deleted
+		var deleteResult = await _jobBlobStore!.DeleteBlob(blobId, CancellationToken.None);
+		if (!deleteResult.IsSuccess)
+		{
+			_logger.LogWarning("Failed to delete blob {BlobId}: {Error}", blobId, deleteResult.Error.Message);
+		}
+	}
+
+	private static string GetPayloadBlobId(Guid jobId) => $"{jobId:N}-payload";
+
+	private static string GetResultBlobId(Guid jobId) => $"{jobId:N}-result";
+
+	private void RecordNewJob(Job job)
+	{
+		_metrics.RecordJobCreated(job.Name, _jobStore.GetType().Name);
+		if (job.Status == JobStatus.Scheduled)
+		{
+			_logger.LogInformation("Scheduled job {JobId} to run at {RunAt}", job.Id, job.RetryDelayUntil);
+		}
 	}
 }
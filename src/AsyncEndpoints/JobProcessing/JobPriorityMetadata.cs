@@ -0,0 +1,13 @@
+namespace AsyncEndpoints.JobProcessing;
+
+/// <summary>
+/// Endpoint metadata carrying the priority configured for jobs submitted through an async endpoint.
+/// </summary>
+/// <param name="priority">The priority of the jobs. Jobs with a higher priority are claimed first.</param>
+public sealed class JobPriorityMetadata(int priority)
+{
+	/// <summary>
+	/// Gets the priority of the jobs. Jobs with a higher priority are claimed first.
+	/// </summary>
+	public int Priority { get; } = priority;
+}
@@ -0,0 +1,29 @@
+using System;
+
+namespace AsyncEndpoints.JobProcessing;
+
+/// <summary>
+/// Represents the latest progress reported by the handler processing a job.
+/// </summary>
+public sealed class JobProgress
+{
+	/// <summary>
+	/// Gets or sets the percentage of the work completed, between 0 and 100.
+	/// </summary>
+	public double PercentComplete { get; set; } = 0;
+
+	/// <summary>
+	/// Gets or sets a short message describing the current state of the work, if any.
+	/// </summary>
+	public string? Message { get; set; } = null;
+
+	/// <summary>
+	/// Gets or sets the serialized intermediate data reported with the progress, if any.
+	/// </summary>
+	public string? Data { get; set; } = null;
+
+	/// <summary>
+	/// Gets or sets the date and time when the progress was reported.
+	/// </summary>
+	public DateTimeOffset ReportedAt { get; set; }
+}
@@ -0,0 +1,115 @@
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.Utilities;
+using System;
+
+namespace AsyncEndpoints.JobProcessing;
+
+/// <summary>
+/// Describes the filters and paging options used to query jobs from a job store.
+/// Jobs are returned newest first, ordered by creation time and then by ID.
+/// </summary>
+public sealed class JobQuery
+{
+	/// <summary>
+	/// The error code returned when a query has invalid paging options.
+	/// </summary>
+	public const string InvalidJobQueryErrorCode = "INVALID_JOB_QUERY";
+
+	/// <summary>
+	/// Gets or sets the job name to filter by.
+	/// </summary>
+	public string? Name { get; set; }
+
+	/// <summary>
+	/// Gets or sets the job status to filter by.
+	/// </summary>
+	public JobStatus? Status { get; set; }
+
+	/// <summary>
+	/// Gets or sets the inclusive lower bound of the job creation time.
+	/// </summary>
+	public DateTimeOffset? CreatedFrom { get; set; }
+
+	/// <summary>
+	/// Gets or sets the inclusive upper bound of the job creation time.
+	/// </summary>
+	public DateTimeOffset? CreatedTo { get; set; }
+
+	/// <summary>
+	/// Gets or sets the inclusive lower bound of the job completion time.
+	/// Jobs that have not completed are excluded when set.
+	/// </summary>
+	public DateTimeOffset? CompletedFrom { get; set; }
+
+	/// <summary>
+	/// Gets or sets the inclusive upper bound of the job completion time.
+	/// Jobs that have not completed are excluded when set.
+	/// </summary>
+	public DateTimeOffset? CompletedTo { get; set; }
+
+	/// <summary>
+	/// Gets or sets the ID of the worker assigned to the job to filter by.
+	/// </summary>
+	public Guid? WorkerId { get; set; }
+
+	/// <summary>
+	/// Gets or sets the maximum number of jobs to return in a page.
+	/// </summary>
+	public int PageSize { get; set; } = AsyncEndpointsConstants.DefaultJobQueryPageSize;
+
+	/// <summary>
+	/// Gets or sets the cursor returned by the previous page, or null to fetch the first page.
+	/// </summary>
+	public string? Cursor { get; set; }
+
+	/// <summary>
+	/// Validates the paging options of this query.
+	/// </summary>
+	/// <returns>A successful result if the query is valid, otherwise a failure with the INVALID_JOB_QUERY error code.</returns>
+	public MethodResult Validate()
+	{
+		if (PageSize < 1 || PageSize > AsyncEndpointsConstants.MaximumJobQueryPageSize)
+		{
+			return MethodResult.Failure(AsyncEndpointError.FromCode(InvalidJobQueryErrorCode,
+				$"Page size must be between 1 and {AsyncEndpointsConstants.MaximumJobQueryPageSize}"));
+		}
+
+		if (Cursor != null && !JobQueryCursor.TryDecode(Cursor, out _, out _))
+		{
+			return MethodResult.Failure(AsyncEndpointError.FromCode(InvalidJobQueryErrorCode, "Cursor is invalid"));
+		}
+
+		return MethodResult.Success();
+	}
+
+	/// <summary>
+	/// Determines whether a job matches all filters of this query. Paging options are not considered.
+	/// </summary>
+	/// <param name="job">The job to check.</param>
+	/// <returns>True if the job matches the filters, otherwise false.</returns>
+	public bool Matches(Job job)
+	{
+		if (Name != null && !string.Equals(job.Name, Name, StringComparison.Ordinal))
+			return false;
+
+		if (Status.HasValue && job.Status != Status.Value)
+			return false;
+
+		if (CreatedFrom.HasValue && job.CreatedAt < CreatedFrom.Value)
+			return false;
+
+		if (CreatedTo.HasValue && job.CreatedAt > CreatedTo.Value)
+			return false;
+
+		if (CompletedFrom.HasValue && (!job.CompletedAt.HasValue || job.CompletedAt.Value < CompletedFrom.Value))
+			return false;
+
+		if (CompletedTo.HasValue && (!job.CompletedAt.HasValue || job.CompletedAt.Value > CompletedTo.Value))
+			return false;
+
+		if (WorkerId.HasValue && job.WorkerId != WorkerId.Value)
+			return false;
+
+		return true;
+	}
+}
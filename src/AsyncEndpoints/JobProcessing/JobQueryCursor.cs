@@ -0,0 +1,64 @@
+using System;
+using System.Globalization;
+using System.Text;
+
+namespace AsyncEndpoints.JobProcessing;
+
+/// <summary>
+/// Encodes and decodes the opaque cursors used to page through job query results.
+/// A cursor points at the last job of a page by its creation time in Unix milliseconds and its ID.
+/// </summary>
+public static class JobQueryCursor
+{
+	/// <summary>
+	/// Creates the cursor pointing at the specified job.
+	/// </summary>
+	/// <param name="job">The last job of the current page.</param>
+	/// <returns>The encoded cursor.</returns>
+	public static string Encode(Job job)
+	{
+		var value = $"{job.CreatedAt.ToUnixTimeMilliseconds().ToString(CultureInfo.InvariantCulture)}:{job.Id}";
+		return Convert.ToBase64String(Encoding.UTF8.GetBytes(value));
+	}
+
+	/// <summary>
+	/// Attempts to decode a cursor created by <see cref="Encode(Job)"/>.
+	/// </summary>
+	/// <param name="cursor">The encoded cursor.</param>
+	/// <param name="createdAtUnixMilliseconds">The creation time of the job the cursor points at.</param>
+	/// <param name="jobId">The ID of the job the cursor points at.</param>
+	/// <returns>True if the cursor is valid, otherwise false.</returns>
+	public static bool TryDecode(string cursor, out long createdAtUnixMilliseconds, out Guid jobId)
+	{
+		createdAtUnixMilliseconds = 0;
+		jobId = Guid.Empty;
+
+		try
+		{
+			var parts = Encoding.UTF8.GetString(Convert.FromBase64String(cursor)).Split(':');
+			return parts.Length == 2
+				&& long.TryParse(parts[0], NumberStyles.Integer, CultureInfo.InvariantCulture, out createdAtUnixMilliseconds)
+				&& Guid.TryParse(parts[1], out jobId);
+		}
+		catch (FormatException)
+		{
+			return false;
+		}
+	}
+
+	/// <summary>
+	/// Determines whether a job comes after the cursor position in query order (newest first, then by descending ID).
+	/// </summary>
+	/// <param name="createdAtUnixMilliseconds">The creation time of the job, in Unix milliseconds.</param>
+	/// <param name="jobId">The ID of the job.</param>
+	/// <param name="cursorCreatedAtUnixMilliseconds">The creation time the cursor points at.</param>
+	/// <param name="cursorJobId">The job ID the cursor points at.</param>
+	/// <returns>True if the job belongs to a later page than the cursor, otherwise false.</returns>
+	public static bool IsAfter(long createdAtUnixMilliseconds, Guid jobId, long cursorCreatedAtUnixMilliseconds, Guid cursorJobId)
+	{
+		if (createdAtUnixMilliseconds != cursorCreatedAtUnixMilliseconds)
+			return createdAtUnixMilliseconds < cursorCreatedAtUnixMilliseconds;
+
+		return string.CompareOrdinal(jobId.ToString(), cursorJobId.ToString()) < 0;
+	}
+}
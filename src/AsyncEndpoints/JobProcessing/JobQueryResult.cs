@@ -0,0 +1,21 @@
+using System.Collections.Generic;
+
+namespace AsyncEndpoints.JobProcessing;
+
+/// <summary>
+/// Represents a single page of jobs returned by a job query.
+/// </summary>
+/// <param name="jobs">The jobs in the page.</param>
+/// <param name="nextCursor">The cursor of the next page, or null if this is the last page.</param>
+public sealed class JobQueryResult(IReadOnlyList<Job> jobs, string? nextCursor)
+{
+	/// <summary>
+	/// Gets the jobs in the page.
+	/// </summary>
+	public IReadOnlyList<Job> Jobs { get; } = jobs;
+
+	/// <summary>
+	/// Gets the cursor to pass to the next query to fetch the following page, or null if there are no more jobs.
+	/// </summary>
+	public string? NextCursor { get; } = nextCursor;
+}
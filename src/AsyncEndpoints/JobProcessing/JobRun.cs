@@ -0,0 +1,40 @@
+using AsyncEndpoints.Utilities;
+using System;
+
+namespace AsyncEndpoints.JobProcessing;
+
+/// <summary>
+/// Represents a single attempt at processing a job. Runs are recorded when an attempt ends and are never modified afterwards.
+/// </summary>
+public sealed class JobRun
+{
+	/// <summary>
+	/// Gets the number of the attempt, starting at 1.
+	/// </summary>
+	public int Attempt { get; init; }
+
+	/// <summary>
+	/// Gets the ID of the worker that processed the attempt, if known.
+	/// </summary>
+	public Guid? WorkerId { get; init; }
+
+	/// <summary>
+	/// Gets the date and time when the worker claimed the job for the attempt.
+	/// </summary>
+	public DateTimeOffset StartedAt { get; init; }
+
+	/// <summary>
+	/// Gets the date and time when the attempt ended.
+	/// </summary>
+	public DateTimeOffset EndedAt { get; init; }
+
+	/// <summary>
+	/// Gets how the attempt ended.
+	/// </summary>
+	public JobRunOutcome Outcome { get; init; }
+
+	/// <summary>
+	/// Gets the error the attempt failed with, if it failed.
+	/// </summary>
+	public AsyncEndpointError? Error { get; init; }
+}
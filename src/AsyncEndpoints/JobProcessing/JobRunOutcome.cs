@@ -0,0 +1,32 @@
+namespace AsyncEndpoints.JobProcessing;
+
+/// <summary>
+/// Represents how a single attempt at processing a job ended.
+/// </summary>
+public enum JobRunOutcome
+{
+	/// <summary>
+	/// The handler completed the job successfully.
+	/// </summary>
+	Succeeded = 100,
+
+	/// <summary>
+	/// The handler failed or timed out. The job may have been scheduled for a retry.
+	/// </summary>
+	Failed = 200,
+
+	/// <summary>
+	/// The job was canceled while the handler was running.
+	/// </summary>
+	Canceled = 300,
+
+	/// <summary>
+	/// The worker stopped renewing the lease of the job, so distributed recovery rescheduled or failed it.
+	/// </summary>
+	Abandoned = 400,
+
+	/// <summary>
+	/// The worker handed the job back to the queue without processing it to the end, for example while shutting down.
+	/// </summary>
+	Released = 500,
+}
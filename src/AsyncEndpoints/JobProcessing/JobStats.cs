@@ -0,0 +1,68 @@
+using System;
+using System.Collections.Generic;
+using System.Linq;
+
+namespace AsyncEndpoints.JobProcessing;
+
+/// <summary>
+/// Represents a snapshot of the jobs in the job store, used to monitor the depth and age of the queues.
+/// </summary>
+public sealed class JobStats
+{
+	/// <summary>
+	/// Gets or sets the number of jobs in each status, including statuses without jobs.
+	/// </summary>
+	public Dictionary<JobStatus, long> StatusCounts { get; set; } = Enum.GetValues<JobStatus>().ToDictionary(status => status, _ => 0L);
+
+	/// <summary>
+	/// Gets or sets the number of unfinished jobs of each job name, per status. Only queued, scheduled and in-progress jobs are counted.
+	/// </summary>
+	public Dictionary<string, Dictionary<JobStatus, long>> JobNameCounts { get; set; } = [];
+
+	/// <summary>
+	/// Gets or sets the creation time of the oldest queued job, or null if no job is queued.
+	/// </summary>
+	public DateTimeOffset? OldestQueuedJobCreatedAt { get; set; }
+
+	/// <summary>
+	/// Gets or sets the number of scheduled jobs waiting for a retry after a failed attempt.
+	/// </summary>
+	public long ScheduledRetryCount { get; set; }
+
+	/// <summary>
+	/// Gets or sets the time the snapshot was taken.
+	/// </summary>
+	public DateTimeOffset GeneratedAt { get; set; }
+
+	/// <summary>
+	/// Determines whether jobs in the specified status are counted per job name.
+	/// </summary>
+	/// <param name="status">The status of the jobs.</param>
+	/// <returns>True if the status is queued, scheduled or in progress, otherwise false.</returns>
+	public static bool IsUnfinished(JobStatus status) =>
+		status == JobStatus.Queued || status == JobStatus.Scheduled || status == JobStatus.InProgress;
+
+	/// <summary>
+	/// Adds unfinished jobs of a job name to the counts of that job name.
+	/// </summary>
+	/// <param name="jobName">The name of the jobs.</param>
+	/// <param name="status">The status of the jobs.</param>
+	/// <param name="count">The number of jobs.</param>
+	public void AddJobNameCount(string jobName, JobStatus status, long count)
+	{
+		if (!JobNameCounts.TryGetValue(jobName, out var statusCounts))
+		{
+			statusCounts = [];
+			JobNameCounts[jobName] = statusCounts;
+		}
+
+		statusCounts[status] = statusCounts.GetValueOrDefault(status) + count;
+	}
+
+	/// <summary>
+	/// Gets the age of the oldest queued job at the time the snapshot was taken.
+	/// </summary>
+	/// <returns>The age of the oldest queued job, or null if no job is queued.</returns>
+	public TimeSpan? GetOldestQueuedJobAge() =>
+		OldestQueuedJobCreatedAt.HasValue ? GeneratedAt - OldestQueuedJobCreatedAt.Value : null;
+}
@@ -0,0 +1,76 @@
+using System;
+using System.Threading;
+using System.Threading.Channels;
+using System.Threading.Tasks;
+
+namespace AsyncEndpoints.JobProcessing;
+
+/// <summary>
+/// Represents a client of the current instance waiting for status changes of a single job.
+/// </summary>
+public sealed class JobStatusSubscription : IDisposable
+{
+	// Only the latest change matters, the job itself is re-read after every change
+	private readonly Channel<JobStatus> _changes = Channel.CreateBounded<JobStatus>(new BoundedChannelOptions(1)
+	{
+		FullMode = BoundedChannelFullMode.DropOldest
+	});
+	private readonly Action _onDispose;
+	private bool _disposed = false;
+
+	internal JobStatusSubscription(Guid jobId, Action onDispose)
+	{
+		JobId = jobId;
+		_onDispose = onDispose;
+	}
+
+	/// <summary>
+	/// Gets the unique identifier of the watched job.
+	/// </summary>
+	public Guid JobId { get; }
+
+	/// <summary>
+	/// Waits until the job changes or the timeout elapses.
+	/// </summary>
+	/// <param name="timeout">The maximum time to wait.</param>
+	/// <param name="cancellationToken">Cancellation token.</param>
+	/// <returns>The status of the job after the change, or null if the timeout elapsed without a change.</returns>
+	public async Task<JobStatus?> WaitForChange(TimeSpan timeout, CancellationToken cancellationToken)
+	{
+		if (_changes.Reader.TryRead(out var status))
+			return status;
+
+		using var timeoutCts = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken);
+		timeoutCts.CancelAfter(timeout);
+
+		try
+		{
+			return await _changes.Reader.ReadAsync(timeoutCts.Token);
+		}
+		catch (OperationCanceledException) when (!cancellationToken.IsCancellationRequested)
+		{
+			return null;
+		}
+	}
+
+	internal void OnStatusChanged(JobStatus status)
+	{
+		if (!_disposed)
+		{
+			_changes.Writer.TryWrite(status);
+		}
+	}
+
+	/// <summary>
+	/// Removes the subscription from the watcher.
+	/// </summary>
+	public void Dispose()
+	{
+		if (_disposed)
+			return;
+
+		_disposed = true;
+		_onDispose();
+		_changes.Writer.TryComplete();
+	}
+}
@@ -0,0 +1,57 @@
+using System;
+using System.Collections.Generic;
+
+namespace AsyncEndpoints.JobProcessing;
+
+/// <inheritdoc />
+public class JobStatusWatcher : IJobStatusWatcher
+{
+	private readonly Dictionary<Guid, List<JobStatusSubscription>> _subscriptions = [];
+	private readonly object _lock = new();
+
+	/// <inheritdoc />
+	public JobStatusSubscription Watch(Guid jobId)
+	{
+		JobStatusSubscription? subscription = null;
+		subscription = new JobStatusSubscription(jobId, () => Unwatch(jobId, subscription!));
+
+		lock (_lock)
+		{
+			if (!_subscriptions.TryGetValue(jobId, out var jobSubscriptions))
+			{
+				jobSubscriptions = [];
+				_subscriptions[jobId] = jobSubscriptions;
+			}
+
+			jobSubscriptions.Add(subscription);
+		}
+
+		return subscription;
+	}
+
+	/// <inheritdoc />
+	public void OnStatusChanged(Guid jobId, JobStatus status)
+	{
+		lock (_lock)
+		{
+			if (!_subscriptions.TryGetValue(jobId, out var jobSubscriptions))
+				return;
+
+			foreach (var subscription in jobSubscriptions)
+			{
+				subscription.OnStatusChanged(status);
+			}
+		}
+	}
+
+	private void Unwatch(Guid jobId, JobStatusSubscription subscription)
+	{
+		lock (_lock)
+		{
+			if (_subscriptions.TryGetValue(jobId, out var jobSubscriptions) && jobSubscriptions.Remove(subscription) && jobSubscriptions.Count == 0)
+			{
+				_subscriptions.Remove(jobId);
+			}
+		}
+	}
+}
@@ -0,0 +1,58 @@
+using System;
+using System.Collections.Generic;
+
+namespace AsyncEndpoints.JobProcessing;
+
+/// <summary>
+/// Describes how a job submitted without an HTTP request is created.
+/// The headers, route parameters and query parameters are exposed to the handler through its AsyncContext,
+/// like the values of the HTTP request of jobs submitted through async endpoints.
+/// </summary>
+public sealed class JobSubmissionOptions
+{
+	/// <summary>
+	/// Gets or sets the ID of the job. Submitting an ID that already exists returns the existing job. A new ID is generated when null.
+	/// </summary>
+	public Guid? JobId { get; set; }
+
+	/// <summary>
+	/// Gets or sets the headers passed to the handler.
+	/// </summary>
+	public Dictionary<string, List<string?>> Headers { get; set; } = new(StringComparer.OrdinalIgnoreCase);
+
+	/// <summary>
+	/// Gets or sets the route parameters passed to the handler.
+	/// </summary>
+	public Dictionary<string, object?> RouteParams { get; set; } = [];
+
+	/// <summary>
+	/// Gets or sets the query parameters passed to the handler.
+	/// </summary>
+	public List<KeyValuePair<string, List<string?>>> QueryParams { get; set; } = [];
+
+	/// <summary>
+	/// Gets or sets the URL the job response is posted to once the job finishes.
+	/// </summary>
+	public string? CallbackUrl { get; set; }
+
+	/// <summary>
+	/// Gets or sets the time the job should run at. Jobs due in the future are created in the scheduled status.
+	/// </summary>
+	public DateTimeOffset? RunAt { get; set; }
+
+	/// <summary>
+	/// Gets or sets the priority of the job. Jobs with a higher priority are claimed first.
+	/// </summary>
+	public int Priority { get; set; }
+
+	/// <summary>
+	/// Gets or sets the idempotency key of the job. Submitting a key again with the same payload returns the existing job,
+	/// while submitting it with a different payload fails, until the key expires.
+	/// </summary>
+	public string? IdempotencyKey { get; set; }
+
+	/// <summary>
+	/// Gets or sets the identity of the caller the idempotency key is scoped to, or null for anonymous callers.
+	/// </summary>
+	public string? Caller { get; set; }
+}
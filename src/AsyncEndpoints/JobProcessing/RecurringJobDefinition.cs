@@ -0,0 +1,44 @@
+using AsyncEndpoints.Infrastructure.Serialization;
+using System;
+using System.Globalization;
+using System.Security.Cryptography;
+using System.Text;
+
+namespace AsyncEndpoints.JobProcessing;
+
+/// <summary>
+/// Describes a job that is enqueued on a cron schedule.
+/// </summary>
+/// <param name="name">The name of the handler that processes the job.</param>
+/// <param name="schedule">The cron schedule of the job.</param>
+/// <param name="payloadFactory">Creates the serialized request passed to the handler for every occurrence.</param>
+public sealed class RecurringJobDefinition(string name, CronExpression schedule, Func<ISerializer, string> payloadFactory)
+{
+	/// <summary>
+	/// Gets the name of the handler that processes the job.
+	/// </summary>
+	public string Name { get; } = name ?? throw new ArgumentNullException(nameof(name));
+
+	/// <summary>
+	/// Gets the cron schedule of the job.
+	/// </summary>
+	public CronExpression Schedule { get; } = schedule ?? throw new ArgumentNullException(nameof(schedule));
+
+	/// <summary>
+	/// Gets the factory that creates the serialized request passed to the handler for every occurrence.
+	/// </summary>
+	public Func<ISerializer, string> PayloadFactory { get; } = payloadFactory ?? throw new ArgumentNullException(nameof(payloadFactory));
+
+	/// <summary>
+	/// Gets the job ID of an occurrence. The ID is derived from the job name and the occurrence time only,
+	/// so every instance enqueuing the same occurrence uses the same ID.
+	/// </summary>
+	/// <param name="occurrence">The scheduled time of the occurrence.</param>
+	/// <returns>The job ID of the occurrence.</returns>
+	public Guid GetOccurrenceJobId(DateTimeOffset occurrence)
+	{
+		var value = $"{Name}:{occurrence.UtcTicks.ToString(CultureInfo.InvariantCulture)}";
+		var hash = SHA256.HashData(Encoding.UTF8.GetBytes(value));
+		return new Guid(hash.AsSpan(0, 16));
+	}
+}
@@ -0,0 +1,76 @@
+using AsyncEndpoints.Infrastructure;
+using System;
+using System.Collections.Generic;
+using System.Linq;
+
+namespace AsyncEndpoints.JobProcessing;
+
+/// <inheritdoc />
+public class RecurringJobRegistry : IRecurringJobRegistry
+{
+	private readonly List<RecurringJobDefinition> _definitions;
+	private readonly Dictionary<string, RecurringJobState> _states = [];
+	private readonly object _lock = new();
+
+	/// <summary>
+	/// Initializes a new instance of the <see cref="RecurringJobRegistry"/> class.
+	/// The first occurrence of every recurring job is the first one after the registry is created.
+	/// </summary>
+	/// <param name="definitions">The registered recurring job definitions.</param>
+	/// <param name="dateTimeProvider">Provider for current date and time.</param>
+	public RecurringJobRegistry(IEnumerable<RecurringJobDefinition> definitions, IDateTimeProvider dateTimeProvider)
+	{
+		_definitions = definitions.ToList();
+
+		var now = dateTimeProvider.DateTimeOffsetNow;
+		foreach (var definition in _definitions)
+		{
+			_states[definition.Name] = new RecurringJobState
+			{
+				Name = definition.Name,
+				CronExpression = definition.Schedule.ToString(),
+				NextRunAt = definition.Schedule.GetNextOccurrence(now)
+			};
+		}
+	}
+
+	/// <inheritdoc />
+	public IReadOnlyList<RecurringJobDefinition> Definitions => _definitions;
+
+	/// <inheritdoc />
+	public RecurringJobState? GetState(string name)
+	{
+		lock (_lock)
+		{
+			return _states.GetValueOrDefault(name);
+		}
+	}
+
+	/// <inheritdoc />
+	public IReadOnlyList<RecurringJobState> GetStates()
+	{
+		lock (_lock)
+		{
+			return _definitions.Select(x => _states[x.Name]).ToList();
+		}
+	}
+
+	/// <inheritdoc />
+	public void RecordRun(string name, DateTimeOffset runAt, Guid jobId, DateTimeOffset? nextRunAt)
+	{
+		lock (_lock)
+		{
+			if (!_states.TryGetValue(name, out var state))
+				return;
+
+			_states[name] = new RecurringJobState
+			{
+				Name = state.Name,
+				CronExpression = state.CronExpression,
+				NextRunAt = nextRunAt,
+				LastRunAt = runAt,
+				LastJobId = jobId
+			};
+		}
+	}
+}
@@ -0,0 +1,34 @@
+using System;
+
+namespace AsyncEndpoints.JobProcessing;
+
+/// <summary>
+/// Represents the schedule state of a recurring job as seen by the current instance.
+/// </summary>
+public sealed class RecurringJobState
+{
+	/// <summary>
+	/// Gets the name of the handler that processes the job.
+	/// </summary>
+	public string Name { get; init; } = string.Empty;
+
+	/// <summary>
+	/// Gets the cron expression of the job.
+	/// </summary>
+	public string CronExpression { get; init; } = string.Empty;
+
+	/// <summary>
+	/// Gets the time of the next occurrence, or null if the schedule has no further occurrences.
+	/// </summary>
+	public DateTimeOffset? NextRunAt { get; init; }
+
+	/// <summary>
+	/// Gets the time of the last occurrence enqueued since the application started, if any.
+	/// </summary>
+	public DateTimeOffset? LastRunAt { get; init; }
+
+	/// <summary>
+	/// Gets the ID of the job created for the last occurrence, if any.
+	/// </summary>
+	public Guid? LastJobId { get; init; }
+}
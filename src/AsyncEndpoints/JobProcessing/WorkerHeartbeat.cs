@@ -0,0 +1,57 @@
+using System;
+using System.Collections.Generic;
+
+namespace AsyncEndpoints.JobProcessing;
+
+/// <summary>
+/// Represents the latest heartbeat of a worker processing jobs, registering the worker as live until the heartbeat expires.
+/// </summary>
+public sealed class WorkerHeartbeat
+{
+	/// <summary>
+	/// Gets or sets the unique identifier of the worker.
+	/// </summary>
+	public Guid WorkerId { get; set; }
+
+	/// <summary>
+	/// Gets or sets the name of the machine the worker runs on.
+	/// </summary>
+	public string HostName { get; set; } = string.Empty;
+
+	/// <summary>
+	/// Gets or sets the maximum number of jobs the worker processes concurrently.
+	/// </summary>
+	public int MaximumConcurrency { get; set; }
+
+	/// <summary>
+	/// Gets or sets the queues the worker consumes, or an empty list if it consumes every queue.
+	/// </summary>
+	public List<string> Queues { get; set; } = [];
+
+	/// <summary>
+	/// Gets or sets the IDs of the jobs the worker holds, including claimed jobs waiting for a free slot.
+	/// </summary>
+	public List<Guid> JobIds { get; set; } = [];
+
+	/// <summary>
+	/// Gets or sets the time the worker started.
+	/// </summary>
+	public DateTimeOffset StartedAt { get; set; }
+
+	/// <summary>
+	/// Gets or sets the time the heartbeat was sent.
+	/// </summary>
+	public DateTimeOffset LastHeartbeatAt { get; set; }
+
+	/// <summary>
+	/// Gets or sets the time the heartbeat expires at. A worker without a newer heartbeat by then is considered dead.
+	/// </summary>
+	public DateTimeOffset ExpiresAt { get; set; }
+
+	/// <summary>
+	/// Determines whether the heartbeat has expired.
+	/// </summary>
+	/// <param name="now">The current time.</param>
+	/// <returns>True if the heartbeat has expired, otherwise false.</returns>
+	public bool IsExpired(DateTimeOffset now) => ExpiresAt <= now;
+}
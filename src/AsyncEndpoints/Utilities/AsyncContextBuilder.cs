@@ -14,15 +14,19 @@ public static class AsyncContextBuilder
 	/// <typeparam name="TRequest">The type of the request object.</typeparam>
 	/// <param name="request">The request object to include in the context.</param>
 	/// <param name="job">The job containing headers, route parameters, and query parameters to include in the context.</param>
+	/// <param name="progressReporter">Optional reporter the handler uses to report the progress of the job.</param>
 	/// <returns>A new <see cref="AsyncContext{TRequest}"/> instance containing the request and job information.</returns>
-	public static AsyncContext<TRequest> Build<TRequest>(TRequest request, Job job)
+	public static AsyncContext<TRequest> Build<TRequest>(TRequest request, Job job, IJobProgressReporter? progressReporter = null)
 	{
 		var context = new AsyncContext<TRequest>(
 			request,
 			job.Headers,
 			job.RouteParams,
 			job.QueryParams
-		);
+		)
+		{
+			Progress = progressReporter ?? NullJobProgressReporter.Instance
+		};
 
 		return context;
 	}
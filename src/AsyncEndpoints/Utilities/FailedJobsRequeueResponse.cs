@@ -0,0 +1,17 @@
+namespace AsyncEndpoints.Utilities;
+
+/// <summary>
+/// Represents the outcome of requeuing the failed jobs of a job name returned by the dead-letter requeue endpoint.
+/// </summary>
+public sealed class FailedJobsRequeueResponse
+{
+	/// <summary>
+	/// Gets or sets the name of the requeued jobs.
+	/// </summary>
+	public string JobName { get; set; } = string.Empty;
+
+	/// <summary>
+	/// Gets or sets the number of failed jobs moved back to the queue.
+	/// </summary>
+	public int RequeuedCount { get; set; }
+}
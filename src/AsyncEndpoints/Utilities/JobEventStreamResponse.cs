@@ -0,0 +1,94 @@
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.Extensions;
+using AsyncEndpoints.Infrastructure.Serialization;
+using AsyncEndpoints.JobProcessing;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Http.Features;
+using Microsoft.Extensions.DependencyInjection;
+using System;
+using System.Text;
+using System.Threading;
+using System.Threading.Tasks;
+
+namespace AsyncEndpoints.Utilities;
+
+/// <summary>
+/// Custom IResult implementation that streams the changes of a job as Server-Sent Events
+/// until the job finishes or the client disconnects.
+/// </summary>
+/// <remarks>
+/// Every change is sent as a <c>status</c> event whose data is the same JSON returned by the job details endpoint.
+/// The response takes ownership of the subscription and disposes it when the stream ends.
+/// </remarks>
+public class JobEventStreamResponse(Job job, JobStatusSubscription subscription) : IResult
+{
+	private readonly Job _job = job;
+	private readonly JobStatusSubscription _subscription = subscription;
+
+	public async Task ExecuteAsync(HttpContext httpContext)
+	{
+		using var _ = _subscription;
+
+		var jobManager = httpContext.RequestServices.GetRequiredService<IJobManager>();
+		var serializer = httpContext.RequestServices.GetRequiredService<ISerializer>();
+		var cancellationToken = httpContext.RequestAborted;
+		var keepAliveInterval = TimeSpan.FromSeconds(AsyncEndpointsConstants.JobEventsKeepAliveSeconds);
+
+		httpContext.Response.StatusCode = StatusCodes.Status200OK;
+		httpContext.Response.ContentType = "text/event-stream";
+		httpContext.Response.Headers.CacheControl = "no-cache";
+		httpContext.Features.Get<IHttpResponseBodyFeature>()?.DisableBuffering();
+
+		var status = _job.Status;
+		var lastUpdatedAt = _job.LastUpdatedAt;
+		await WriteJobEvent(httpContext, _job, serializer, cancellationToken);
+
+		try
+		{
+			while (!status.IsFinished())
+			{
+				if (await _subscription.WaitForChange(keepAliveInterval, cancellationToken) == null)
+				{
+					await WriteAndFlush(httpContext, ": keep-alive\n\n", cancellationToken);
+					continue;
+				}
+
+				var jobResult = await jobManager.GetJobById(_job.Id, cancellationToken);
+				if (!jobResult.IsSuccess || jobResult.DataOrNull == null)
+					return;
+
+				var job = jobResult.Data;
+				if (job.Status == status && job.LastUpdatedAt == lastUpdatedAt)
+					continue;
+
+				status = job.Status;
+				lastUpdatedAt = job.LastUpdatedAt;
+				await WriteJobEvent(httpContext, job, serializer, cancellationToken);
+			}
+		}
+		catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+		{
+			// The client disconnected
+		}
+	}
+
+	private static Task WriteJobEvent(HttpContext httpContext, Job job, ISerializer serializer, CancellationToken cancellationToken)
+	{
+		var builder = new StringBuilder("event: status\n");
+
+		// Raw job results may span multiple lines, each of which needs its own data field
+		foreach (var line in JobResponseMapper.ToJson(job, serializer).Split('\n'))
+		{
+			builder.Append("data: ").Append(line.TrimEnd('\r')).Append('\n');
+		}
+		builder.Append('\n');
+
+		return WriteAndFlush(httpContext, builder.ToString(), cancellationToken);
+	}
+
+	private static async Task WriteAndFlush(HttpContext httpContext, string text, CancellationToken cancellationToken)
+	{
+		await httpContext.Response.WriteAsync(text, cancellationToken);
+		await httpContext.Response.Body.FlushAsync(cancellationToken);
+	}
+}
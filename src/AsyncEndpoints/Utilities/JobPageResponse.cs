@@ -0,0 +1,19 @@
+using System.Collections.Generic;
+
+namespace AsyncEndpoints.Utilities;
+
+/// <summary>
+/// Represents a page of jobs returned by the job listing endpoint.
+/// </summary>
+public sealed class JobPageResponse
+{
+	/// <summary>
+	/// Gets or sets the jobs in the page.
+	/// </summary>
+	public List<JobResponse> Items { get; set; } = [];
+
+	/// <summary>
+	/// Gets or sets the cursor to request the next page, or null if there are no more jobs.
+	/// </summary>
+	public string? NextCursor { get; set; } = null;
+}
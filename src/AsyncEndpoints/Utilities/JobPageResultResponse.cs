@@ -0,0 +1,52 @@
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.Infrastructure.Serialization;
+using AsyncEndpoints.JobProcessing;
+using Microsoft.AspNetCore.Http;
+using Microsoft.Extensions.DependencyInjection;
+using System.Threading.Tasks;
+
+namespace AsyncEndpoints.Utilities;
+
+/// <summary>
+/// Custom IResult implementation that handles JobPageResponse serialization
+/// with proper handling of the Result field of every job to avoid string serialization.
+/// </summary>
+public class JobPageResultResponse(JobQueryResult queryResult, int statusCode = 200) : IResult
+{
+	private readonly JobQueryResult _queryResult = queryResult;
+	private readonly int _statusCode = statusCode;
+
+	/// <summary>
+	/// Creates a JobPageResultResponse for an OK response (200 status).
+	/// </summary>
+	public static JobPageResultResponse Ok(JobQueryResult queryResult)
+	{
+		return new JobPageResultResponse(queryResult, StatusCodes.Status200OK);
+	}
+
+	public async Task ExecuteAsync(HttpContext httpContext)
+	{
+		var pageResponse = new JobPageResponse { NextCursor = _queryResult.NextCursor };
+		for (var i = 0; i < _queryResult.Jobs.Count; i++)
+		{
+			var jobResponse = JobResponseMapper.ToResponse(_queryResult.Jobs[i]);
+			jobResponse.Result = GetPlaceholder(i);
+			pageResponse.Items.Add(jobResponse);
+		}
+
+		var serializer = httpContext.RequestServices.GetRequiredService<ISerializer>();
+		var responseString = serializer.Serialize(pageResponse);
+		for (var i = 0; i < _queryResult.Jobs.Count; i++)
+		{
+			var jobResult = string.IsNullOrEmpty(_queryResult.Jobs[i].Result) ? "null" : _queryResult.Jobs[i].Result;
+			responseString = responseString.Replace($"\"{GetPlaceholder(i)}\"", jobResult);
+		}
+
+		httpContext.Response.StatusCode = _statusCode;
+		httpContext.Response.ContentType = "application/json";
+
+		await httpContext.Response.WriteAsync(responseString);
+	}
+
+	private static string GetPlaceholder(int index) => $"{AsyncEndpointsConstants.JobResultPlaceholder}{index}";
+}
@@ -1,4 +1,6 @@
+using AsyncEndpoints.JobProcessing;
 using System;
+using System.Collections.Generic;
 
 namespace AsyncEndpoints.Utilities;
 
@@ -57,8 +59,38 @@ public sealed class JobResponse
 	/// </summary>
 	public string Result { get; set; } = string.Empty;
 
+	/// <summary>
+	/// Gets or sets whether the result was too large to be included and is served by the job result endpoint instead.
+	/// </summary>
+	public bool ResultOffloaded { get; set; }
+
 	/// <summary>
 	/// Gets or sets the error details if the job failed.
 	/// </summary>
 	public AsyncEndpointError? Error { get; set; } = null;
+
+	/// <summary>
+	/// Gets or sets the latest progress reported by the handler processing the job, if any.
+	/// </summary>
+	public JobProgress? Progress { get; set; } = null;
+
+	/// <summary>
+	/// Gets or sets the ID of the job whose completion enqueued this job, if the job is a continuation.
+	/// </summary>
+	public Guid? ParentJobId { get; set; } = null;
+
+	/// <summary>
+	/// Gets or sets the IDs of the continuation jobs enqueued when this job completed or failed.
+	/// </summary>
+	public List<Guid> ContinuationJobIds { get; set; } = [];
+
+	/// <summary>
+	/// Gets or sets the attempts made at processing the job, oldest first.
+	/// </summary>
+	public List<JobRunResponse> Runs { get; set; } = [];
+
+	/// <summary>
+	/// Gets or sets the time after which the finished job is deleted, if a retention period applies to it.
+	/// </summary>
+	public DateTimeOffset? ExpiresAt { get; set; } = null;
 }
@@ -1,4 +1,8 @@
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.Infrastructure.Serialization;
 using AsyncEndpoints.JobProcessing;
+using System.Collections.Generic;
+using System.Linq;
 
 namespace AsyncEndpoints.Utilities;
 
@@ -26,7 +30,48 @@ public static class JobResponseMapper
 			CompletedAt = job.CompletedAt,
 			LastUpdatedAt = job.LastUpdatedAt,
 			Result = job.Result ?? string.Empty,
+			ResultOffloaded = job.ResultBlobId != null,
 			Error = job.Error,
+			Progress = job.Progress,
+			ParentJobId = job.ParentJobId,
+			ContinuationJobIds = [.. job.ContinuationJobIds],
+			Runs = ToRunResponses(job),
+			ExpiresAt = job.ExpiresAt,
 		};
 	}
+
+	/// <summary>
+	/// Converts the runs of a Job entity to JobRunResponse objects, oldest first.
+	/// </summary>
+	/// <param name="job">The job entity whose runs to convert.</param>
+	/// <returns>A list of <see cref="JobRunResponse"/> objects, one per attempt.</returns>
+	public static List<JobRunResponse> ToRunResponses(Job job)
+	{
+		return [.. job.Runs.Select(run => new JobRunResponse
+		{
+			Attempt = run.Attempt,
+			WorkerId = run.WorkerId,
+			StartedAt = run.StartedAt,
+			EndedAt = run.EndedAt,
+			DurationMs = (run.EndedAt - run.StartedAt).TotalMilliseconds,
+			Outcome = run.Outcome.ToString(),
+			Error = run.Error
+		})];
+	}
+
+	/// <summary>
+	/// Converts a Job entity to the JSON representation of its JobResponse, embedding the raw job result instead of a string.
+	/// </summary>
+	/// <param name="job">The job entity to convert.</param>
+	/// <param name="serializer">The serializer used to serialize the response.</param>
+	/// <returns>The JSON representation of the job response.</returns>
+	public static string ToJson(Job job, ISerializer serializer)
+	{
+		var jobResponse = ToResponse(job);
+		jobResponse.Result = AsyncEndpointsConstants.JobResultPlaceholder;
+
+		var serializedResponse = serializer.Serialize(jobResponse);
+		var jobResult = string.IsNullOrEmpty(job.Result) ? "null" : job.Result;
+		return serializedResponse.Replace($"\"{AsyncEndpointsConstants.JobResultPlaceholder}\"", jobResult);
+	}
 }
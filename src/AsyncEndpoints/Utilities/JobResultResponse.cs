@@ -1,4 +1,3 @@
-using AsyncEndpoints.Configuration;
 using AsyncEndpoints.Infrastructure.Serialization;
 using AsyncEndpoints.JobProcessing;
 using Microsoft.AspNetCore.Http;
@@ -34,13 +33,8 @@ namespace AsyncEndpoints.Utilities
 
 		public async Task ExecuteAsync(HttpContext httpContext)
 		{
-			var jobResponse = JobResponseMapper.ToResponse(_job);
-			jobResponse.Result = AsyncEndpointsConstants.JobResultPlaceholder;
-
 			var serializer = httpContext.RequestServices.GetRequiredService<ISerializer>();
-			var serializedResponse = serializer.Serialize(jobResponse);
-			var jobResult = string.IsNullOrEmpty(_job.Result) ? "null" : _job.Result;
-			var responseString = serializedResponse.Replace($"\"{AsyncEndpointsConstants.JobResultPlaceholder}\"", jobResult);
+			var responseString = JobResponseMapper.ToJson(_job, serializer);
 
 			httpContext.Response.StatusCode = _statusCode;
 			httpContext.Response.ContentType = "application/json";
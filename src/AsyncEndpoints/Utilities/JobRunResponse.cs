@@ -0,0 +1,44 @@
+using System;
+
+namespace AsyncEndpoints.Utilities;
+
+/// <summary>
+/// Represents a single attempt at processing a job in the job runs and job details responses.
+/// </summary>
+public sealed class JobRunResponse
+{
+	/// <summary>
+	/// Gets or sets the number of the attempt, starting at 1.
+	/// </summary>
+	public int Attempt { get; set; }
+
+	/// <summary>
+	/// Gets or sets the ID of the worker that processed the attempt, if known.
+	/// </summary>
+	public Guid? WorkerId { get; set; }
+
+	/// <summary>
+	/// Gets or sets the date and time when the attempt started.
+	/// </summary>
+	public DateTimeOffset StartedAt { get; set; }
+
+	/// <summary>
+	/// Gets or sets the date and time when the attempt ended.
+	/// </summary>
+	public DateTimeOffset EndedAt { get; set; }
+
+	/// <summary>
+	/// Gets or sets the duration of the attempt in milliseconds.
+	/// </summary>
+	public double DurationMs { get; set; }
+
+	/// <summary>
+	/// Gets or sets how the attempt ended as a string.
+	/// </summary>
+	public string Outcome { get; set; } = string.Empty;
+
+	/// <summary>
+	/// Gets or sets the error the attempt failed with, if it failed.
+	/// </summary>
+	public AsyncEndpointError? Error { get; set; } = null;
+}
@@ -0,0 +1,40 @@
+using System;
+using System.Collections.Generic;
+
+namespace AsyncEndpoints.Utilities;
+
+/// <summary>
+/// Represents the job stats returned by the job stats endpoint.
+/// </summary>
+public sealed class JobStatsResponse
+{
+	/// <summary>
+	/// Gets or sets the number of jobs in each status, keyed by status name.
+	/// </summary>
+	public Dictionary<string, long> StatusCounts { get; set; } = [];
+
+	/// <summary>
+	/// Gets or sets the number of queued, scheduled and in-progress jobs of each job name, keyed by job name and status name.
+	/// </summary>
+	public Dictionary<string, Dictionary<string, long>> JobNameCounts { get; set; } = [];
+
+	/// <summary>
+	/// Gets or sets the creation time of the oldest queued job, or null if no job is queued.
+	/// </summary>
+	public DateTimeOffset? OldestQueuedJobCreatedAt { get; set; }
+
+	/// <summary>
+	/// Gets or sets the age in seconds of the oldest queued job, or null if no job is queued.
+	/// </summary>
+	public double? OldestQueuedJobAgeSeconds { get; set; }
+
+	/// <summary>
+	/// Gets or sets the number of scheduled jobs waiting for a retry after a failed attempt.
+	/// </summary>
+	public long ScheduledRetryCount { get; set; }
+
+	/// <summary>
+	/// Gets or sets the time the stats were generated.
+	/// </summary>
+	public DateTimeOffset GeneratedAt { get; set; }
+}
@@ -0,0 +1,39 @@
+using System;
+
+namespace AsyncEndpoints.Utilities;
+
+/// <summary>
+/// Represents a recurring job definition and its next and last occurrences returned by the recurring jobs endpoint.
+/// </summary>
+public sealed class RecurringJobResponse
+{
+	/// <summary>
+	/// Gets or sets the name of the job.
+	/// </summary>
+	public string Name { get; set; } = string.Empty;
+
+	/// <summary>
+	/// Gets or sets the cron expression of the job, evaluated in UTC.
+	/// </summary>
+	public string CronExpression { get; set; } = string.Empty;
+
+	/// <summary>
+	/// Gets or sets the time of the next occurrence, or null if the schedule has no further occurrences.
+	/// </summary>
+	public DateTimeOffset? NextRunAt { get; set; }
+
+	/// <summary>
+	/// Gets or sets the time of the last occurrence enqueued since the application started, if any.
+	/// </summary>
+	public DateTimeOffset? LastRunAt { get; set; }
+
+	/// <summary>
+	/// Gets or sets the ID of the job created for the last occurrence, if any.
+	/// </summary>
+	public Guid? LastJobId { get; set; }
+
+	/// <summary>
+	/// Gets or sets the current status of the job created for the last occurrence as a string, if it still exists.
+	/// </summary>
+	public string? LastJobStatus { get; set; }
+}
@@ -1,6 +1,10 @@
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.Infrastructure.Blobs;
 using AsyncEndpoints.JobProcessing;
 using Microsoft.AspNetCore.Http;
 using System;
+using System.Collections.Generic;
+using System.Linq;
 using System.Threading.Tasks;
 
 namespace AsyncEndpoints.Utilities;
@@ -27,15 +31,207 @@ public static class ResponseDefaults
 		return Task.FromResult<IResult>(JobResultResponse.Ok(job));
 	}
 
+	public static Task<IResult> DefaultJobResultResponseFactory(MethodResult<JobBlob> blobResult, HttpContext _)
+	{
+		if (!blobResult.IsSuccess)
+		{
+			var statusCode = blobResult.Error?.Code switch
+			{
+				"JOB_NOT_FOUND" or AsyncEndpointsConstants.BlobNotFoundErrorCode => 404,
+				AsyncEndpointsConstants.JobResultNotAvailableErrorCode => 409,
+				_ => 500
+			};
+
+			return Task.FromResult(Results.Problem(
+				detail: blobResult.Error?.Message ?? "An unknown error occurred while reading the job result",
+				title: "Job Result Retrieval Failed",
+				statusCode: statusCode
+			));
+		}
+
+		var blob = blobResult.Data;
+		return Task.FromResult(Results.Stream(blob.Content, blob.ContentType));
+	}
+
+	public static Task<IResult> DefaultJobRunsResponseFactory(MethodResult<Job> jobResult, HttpContext _)
+	{
+		if (!jobResult.IsSuccess)
+		{
+			var statusCode = jobResult.Error?.Code switch
+			{
+				"JOB_NOT_FOUND" => 404,
+				_ => 500
+			};
+
+			return Task.FromResult(Results.Problem(
+				detail: jobResult.Error?.Message ?? "An unknown error occurred while reading the job runs",
+				title: "Job Runs Retrieval Failed",
+				statusCode: statusCode
+			));
+		}
+
+		return Task.FromResult(Results.Ok(JobResponseMapper.ToRunResponses(jobResult.Data)));
+	}
+
 	public static Task<IResult> DefaultJobSubmissionErrorResponseFactory(AsyncEndpointError? error, HttpContext _)
 	{
+		var statusCode = error?.Code switch
+		{
+			AsyncEndpointsConstants.InvalidCallbackUrlErrorCode or AsyncEndpointsConstants.InvalidJobScheduleErrorCode or AsyncEndpointsConstants.InvalidIdempotencyKeyErrorCode => 400,
+			AsyncEndpointsConstants.IdempotencyKeyMismatchErrorCode => 422,
+			_ => 500
+		};
+
 		return Task.FromResult(Results.Problem(
 			detail: error?.Message ?? "An unknown error occurred while submitting the job",
 			title: "Job Submission Failed",
-			statusCode: 500
+			statusCode: statusCode
 		));
 	}
 
+	public static Task<IResult> DefaultJobCancellationResponseFactory(MethodResult<Job> jobResult, HttpContext _)
+	{
+		if (!jobResult.IsSuccess)
+		{
+			var statusCode = jobResult.Error?.Code switch
+			{
+				"JOB_NOT_FOUND" => 404,
+				"JOB_NOT_CANCELABLE" => 409,
+				_ => 500
+			};
+
+			return Task.FromResult(Results.Problem(
+				detail: jobResult.Error?.Message ?? "An unknown error occurred while canceling the job",
+				title: "Job Cancellation Failed",
+				statusCode: statusCode
+			));
+		}
+
+		var job = jobResult.Data;
+		return Task.FromResult<IResult>(JobResultResponse.Ok(job));
+	}
+
+	public static Task<IResult> DefaultJobListResponseFactory(MethodResult<JobQueryResult> queryResult, HttpContext _)
+	{
+		if (!queryResult.IsSuccess)
+		{
+			var statusCode = queryResult.Error?.Code == JobQuery.InvalidJobQueryErrorCode ? 400 : 500;
+
+			return Task.FromResult(Results.Problem(
+				detail: queryResult.Error?.Message ?? "An unknown error occurred while listing jobs",
+				title: "Job Listing Failed",
+				statusCode: statusCode
+			));
+		}
+
+		return Task.FromResult<IResult>(JobPageResultResponse.Ok(queryResult.Data));
+	}
+
+	public static Task<IResult> DefaultJobDeletionResponseFactory(MethodResult deleteResult, HttpContext _)
+	{
+		if (!deleteResult.IsSuccess)
+		{
+			var statusCode = deleteResult.Error?.Code == "JOB_NOT_FOUND" ? 404 : 500;
+
+			return Task.FromResult(Results.Problem(
+				detail: deleteResult.Error?.Message ?? "An unknown error occurred while deleting the job",
+				title: "Job Deletion Failed",
+				statusCode: statusCode
+			));
+		}
+
+		return Task.FromResult(Results.NoContent());
+	}
+
+	public static Task<IResult> DefaultJobRequeueResponseFactory(MethodResult<Job> jobResult, HttpContext _)
+	{
+		if (!jobResult.IsSuccess)
+		{
+			var statusCode = jobResult.Error?.Code switch
+			{
+				"JOB_NOT_FOUND" => 404,
+				"JOB_NOT_REQUEUEABLE" => 409,
+				_ => 500
+			};
+
+			return Task.FromResult(Results.Problem(
+				detail: jobResult.Error?.Message ?? "An unknown error occurred while requeuing the job",
+				title: "Job Requeue Failed",
+				statusCode: statusCode
+			));
+		}
+
+		var job = jobResult.Data;
+		return Task.FromResult<IResult>(JobResultResponse.Ok(job));
+	}
+
+	public static Task<IResult> DefaultFailedJobsRequeueResponseFactory(string jobName, MethodResult<int> requeueResult, HttpContext _)
+	{
+		if (!requeueResult.IsSuccess)
+		{
+			return Task.FromResult(Results.Problem(
+				detail: requeueResult.Error?.Message ?? "An unknown error occurred while requeuing failed jobs",
+				title: "Failed Jobs Requeue Failed",
+				statusCode: 500
+			));
+		}
+
+		return Task.FromResult(Results.Ok(new FailedJobsRequeueResponse
+		{
+			JobName = jobName,
+			RequeuedCount = requeueResult.Data
+		}));
+	}
+
+	public static Task<IResult> DefaultWorkerListResponseFactory(MethodResult<List<WorkerHeartbeat>> workersResult, HttpContext _)
+	{
+		if (!workersResult.IsSuccess)
+		{
+			return Task.FromResult(Results.Problem(
+				detail: workersResult.Error?.Message ?? "An unknown error occurred while listing workers",
+				title: "Worker Listing Failed",
+				statusCode: 500
+			));
+		}
+
+		var workers = workersResult.Data.Select(heartbeat => new WorkerResponse
+		{
+			WorkerId = heartbeat.WorkerId,
+			HostName = heartbeat.HostName,
+			MaximumConcurrency = heartbeat.MaximumConcurrency,
+			Queues = heartbeat.Queues,
+			JobIds = heartbeat.JobIds,
+			StartedAt = heartbeat.StartedAt,
+			LastHeartbeatAt = heartbeat.LastHeartbeatAt,
+			ExpiresAt = heartbeat.ExpiresAt
+		}).ToList();
+
+		return Task.FromResult(Results.Ok(workers));
+	}
+
+	public static Task<IResult> DefaultJobStatsResponseFactory(MethodResult<JobStats> statsResult, HttpContext _)
+	{
+		if (!statsResult.IsSuccess)
+		{
+			return Task.FromResult(Results.Problem(
+				detail: statsResult.Error?.Message ?? "An unknown error occurred while retrieving job stats",
+				title: "Job Stats Retrieval Failed",
+				statusCode: 500
+			));
+		}
+
+		var stats = statsResult.Data;
+		return Task.FromResult(Results.Ok(new JobStatsResponse
+		{
+			StatusCounts = stats.StatusCounts.ToDictionary(x => x.Key.ToString(), x => x.Value),
+			JobNameCounts = stats.JobNameCounts.ToDictionary(x => x.Key, x => x.Value.ToDictionary(y => y.Key.ToString(), y => y.Value)),
+			OldestQueuedJobCreatedAt = stats.OldestQueuedJobCreatedAt,
+			OldestQueuedJobAgeSeconds = stats.GetOldestQueuedJobAge()?.TotalSeconds,
+			ScheduledRetryCount = stats.ScheduledRetryCount,
+			GeneratedAt = stats.GeneratedAt
+		}));
+	}
+
 	public static Task<IResult> DefaultExceptionResponseFactory(Exception exception, HttpContext _)
 	{
 		return Task.FromResult(Results.Problem(
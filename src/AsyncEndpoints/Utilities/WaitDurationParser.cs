@@ -0,0 +1,38 @@
+using System;
+using System.Globalization;
+
+namespace AsyncEndpoints.Utilities;
+
+/// <summary>
+/// Parses the durations accepted by long-polling endpoints and delayed job submissions, such as "30s", "500ms", "1m" or "30".
+/// </summary>
+public static class WaitDurationParser
+{
+	/// <summary>
+	/// Tries to parse a wait duration. A value without a unit is interpreted as seconds.
+	/// </summary>
+	/// <param name="value">The wait duration to parse. Null or empty values are parsed as no wait.</param>
+	/// <param name="duration">The parsed duration, or <see cref="TimeSpan.Zero"/> if parsing failed.</param>
+	/// <returns>True if the value is a valid, non-negative duration, otherwise false.</returns>
+	public static bool TryParse(string? value, out TimeSpan duration)
+	{
+		duration = TimeSpan.Zero;
+		if (string.IsNullOrWhiteSpace(value))
+			return true;
+
+		var trimmed = value.Trim();
+		var (number, toTimeSpan) = trimmed switch
+		{
+			_ when trimmed.EndsWith("ms", StringComparison.OrdinalIgnoreCase) => (trimmed[..^2], (Func<double, TimeSpan>)TimeSpan.FromMilliseconds),
+			_ when trimmed.EndsWith('s') || trimmed.EndsWith('S') => (trimmed[..^1], TimeSpan.FromSeconds),
+			_ when trimmed.EndsWith('m') || trimmed.EndsWith('M') => (trimmed[..^1], TimeSpan.FromMinutes),
+			_ => (trimmed, TimeSpan.FromSeconds)
+		};
+
+		if (!double.TryParse(number, NumberStyles.AllowDecimalPoint, CultureInfo.InvariantCulture, out var amount))
+			return false;
+
+		duration = toTimeSpan(amount);
+		return true;
+	}
+}
@@ -0,0 +1,50 @@
+using System;
+using System.Collections.Generic;
+
+namespace AsyncEndpoints.Utilities;
+
+/// <summary>
+/// Represents a live worker returned by the workers endpoint.
+/// </summary>
+public sealed class WorkerResponse
+{
+	/// <summary>
+	/// Gets or sets the unique identifier of the worker.
+	/// </summary>
+	public Guid WorkerId { get; set; }
+
+	/// <summary>
+	/// Gets or sets the name of the machine the worker runs on.
+	/// </summary>
+	public string HostName { get; set; } = string.Empty;
+
+	/// <summary>
+	/// Gets or sets the maximum number of jobs the worker processes concurrently.
+	/// </summary>
+	public int MaximumConcurrency { get; set; }
+
+	/// <summary>
+	/// Gets or sets the queues the worker consumes, or an empty list if it consumes every queue.
+	/// </summary>
+	public List<string> Queues { get; set; } = [];
+
+	/// <summary>
+	/// Gets or sets the IDs of the jobs the worker held at its last heartbeat.
+	/// </summary>
+	public List<Guid> JobIds { get; set; } = [];
+
+	/// <summary>
+	/// Gets or sets the time the worker started.
+	/// </summary>
+	public DateTimeOffset StartedAt { get; set; }
+
+	/// <summary>
+	/// Gets or sets the time of the last heartbeat of the worker.
+	/// </summary>
+	public DateTimeOffset LastHeartbeatAt { get; set; }
+
+	/// <summary>
+	/// Gets or sets the time the worker is considered dead at, unless it sends another heartbeat.
+	/// </summary>
+	public DateTimeOffset ExpiresAt { get; set; }
+}
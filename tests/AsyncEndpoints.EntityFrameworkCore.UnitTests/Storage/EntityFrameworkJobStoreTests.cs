@@ -0,0 +1,650 @@
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.EntityFrameworkCore.Storage;
+using AsyncEndpoints.EntityFrameworkCore.UnitTests.TestSupport;
+using AsyncEndpoints.Infrastructure;
+using AsyncEndpoints.Infrastructure.Observability;
+using AsyncEndpoints.JobProcessing;
+using AsyncEndpoints.Utilities;
+using Microsoft.Data.Sqlite;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+using Moq;
+
+namespace AsyncEndpoints.EntityFrameworkCore.UnitTests.Storage;
+
+public class EntityFrameworkJobStoreTests : IDisposable
+{
+	private readonly SqliteConnection _connection;
+	private readonly ServiceProvider _serviceProvider;
+	private readonly Mock<IDateTimeProvider> _mockDateTimeProvider;
+	private readonly Mock<IJobStatusNotifier> _mockJobStatusNotifier;
+	private readonly AsyncEndpointsConfigurations _configurations = new();
+	private readonly EntityFrameworkJobStore<TestDbContext> _jobStore;
+	private readonly DateTimeOffset _now = new(2025, 1, 1, 12, 0, 0, TimeSpan.Zero);
+
+	public EntityFrameworkJobStoreTests()
+	{
+		// An in-memory SQLite database lives as long as its connection is open
+		_connection = new SqliteConnection("DataSource=:memory:");
+		_connection.Open();
+
+		var services = new ServiceCollection();
+		services.AddDbContext<TestDbContext>(options => options.UseSqlite(_connection));
+		_serviceProvider = services.BuildServiceProvider();
+
+		using (var scope = _serviceProvider.CreateScope())
+		{
+			scope.ServiceProvider.GetRequiredService<TestDbContext>().Database.EnsureCreated();
+		}
+
+		_mockDateTimeProvider = new Mock<IDateTimeProvider>();
+		_mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(_now);
+		_mockDateTimeProvider.Setup(x => x.UtcNow).Returns(_now.UtcDateTime);
+		_mockJobStatusNotifier = new Mock<IJobStatusNotifier>();
+
+		_jobStore = new EntityFrameworkJobStore<TestDbContext>(
+			Mock.Of<ILogger<EntityFrameworkJobStore<TestDbContext>>>(),
+			_serviceProvider.GetRequiredService<IServiceScopeFactory>(),
+			_mockDateTimeProvider.Object,
+			Mock.Of<IAsyncEndpointsObservability>(),
+			_mockJobStatusNotifier.Object,
+			Options.Create(_configurations));
+	}
+
+	public void Dispose()
+	{
+		_serviceProvider.Dispose();
+		_connection.Dispose();
+	}
+
+	/// <summary>
+	/// Verifies that a created job is read back with all of its JSON columns and timestamps intact.
+	/// </summary>
+	[Fact]
+	public async Task CreateJob_ThenGetJobById_RoundTripsAllFields()
+	{
+		// Arrange
+		var job = CreateJob("TestJob", _now);
+		job.Headers["X-Test"] = ["value"];
+		job.QueryParams.Add(new KeyValuePair<string, List<string?>>("page", ["2"]));
+		job.Callback = new JobCallback { Url = "https://example.com/callback" };
+		job.TraceParent = "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01";
+		job.Baggage = "tenant=acme";
+
+		// Act
+		var createResult = await _jobStore.CreateJob(job, CancellationToken.None);
+		var getResult = await _jobStore.GetJobById(job.Id, CancellationToken.None);
+
+		// Assert
+		Assert.True(createResult.IsSuccess);
+		Assert.True(getResult.IsSuccess);
+		Assert.Equal(job.Name, getResult.Data.Name);
+		Assert.Equal(job.Payload, getResult.Data.Payload);
+		Assert.Equal(JobStatus.Queued, getResult.Data.Status);
+		Assert.Equal(["value"], getResult.Data.Headers["X-Test"]);
+		Assert.Equal("page", Assert.Single(getResult.Data.QueryParams).Key);
+		Assert.Equal("https://example.com/callback", getResult.Data.Callback?.Url);
+		Assert.Equal(job.TraceParent, getResult.Data.TraceParent);
+		Assert.Equal(job.Baggage, getResult.Data.Baggage);
+		Assert.Equal(job.CreatedAt, getResult.Data.CreatedAt);
+	}
+
+	/// <summary>
+	/// Verifies that creating a job with an ID that already exists fails.
+	/// </summary>
+	[Fact]
+	public async Task CreateJob_ReturnsFailure_WhenJobAlreadyExists()
+	{
+		// Arrange
+		var job = CreateJob("TestJob", _now);
+		await _jobStore.CreateJob(job, CancellationToken.None);
+
+		// Act
+		var result = await _jobStore.CreateJob(CreateJob("TestJob", _now, job.Id), CancellationToken.None);
+
+		// Assert
+		Assert.False(result.IsSuccess);
+		Assert.Equal("JOB_CREATE_FAILED", result.Error.Code);
+	}
+
+	/// <summary>
+	/// Verifies that a job submitted again with the same idempotency key and payload returns the first job
+	/// instead of creating a second one.
+	/// </summary>
+	[Fact]
+	public async Task CreateJobWithIdempotencyKey_ReturnsExistingJob_WhenKeyIsReusedWithSamePayload()
+	{
+		// Arrange
+		var firstJob = CreateJob("TestJob", _now);
+		var secondJob = CreateJob("TestJob", _now);
+		var expiresAt = _now.AddHours(1);
+
+		// Act
+		var firstResult = await _jobStore.CreateJobWithIdempotencyKey(firstJob, JobIdempotencyKey.Create("TestJob", "caller", "key-1", "{}", firstJob.Id, expiresAt), CancellationToken.None);
+		var secondResult = await _jobStore.CreateJobWithIdempotencyKey(secondJob, JobIdempotencyKey.Create("TestJob", "caller", "key-1", "{}", secondJob.Id, expiresAt), CancellationToken.None);
+
+		// Assert
+		Assert.True(firstResult.IsSuccess);
+		Assert.True(secondResult.IsSuccess);
+		Assert.Equal(firstJob.Id, secondResult.Data.Id);
+		Assert.False((await _jobStore.GetJobById(secondJob.Id, CancellationToken.None)).IsSuccess);
+	}
+
+	/// <summary>
+	/// Verifies that reusing an idempotency key with a different payload fails, while an expired key creates a new job.
+	/// </summary>
+	[Fact]
+	public async Task CreateJobWithIdempotencyKey_RejectsDifferentPayload_UntilKeyExpires()
+	{
+		// Arrange
+		var firstJob = CreateJob("TestJob", _now);
+		var secondJob = CreateJob("TestJob", _now);
+		var thirdJob = CreateJob("TestJob", _now);
+		await _jobStore.CreateJobWithIdempotencyKey(firstJob, JobIdempotencyKey.Create("TestJob", null, "key-1", "{}", firstJob.Id, _now.AddMinutes(1)), CancellationToken.None);
+
+		// Act
+		var mismatchResult = await _jobStore.CreateJobWithIdempotencyKey(secondJob, JobIdempotencyKey.Create("TestJob", null, "key-1", "{\"a\":1}", secondJob.Id, _now.AddMinutes(1)), CancellationToken.None);
+		_mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(_now.AddMinutes(2));
+		var expiredResult = await _jobStore.CreateJobWithIdempotencyKey(thirdJob, JobIdempotencyKey.Create("TestJob", null, "key-1", "{\"a\":1}", thirdJob.Id, _now.AddMinutes(3)), CancellationToken.None);
+
+		// Assert
+		Assert.False(mismatchResult.IsSuccess);
+		Assert.Equal(AsyncEndpointsConstants.IdempotencyKeyMismatchErrorCode, mismatchResult.Error.Code);
+		Assert.True(expiredResult.IsSuccess);
+		Assert.Equal(thirdJob.Id, expiredResult.Data.Id);
+	}
+
+	/// <summary>
+	/// Verifies that a queued job is claimed by exactly one worker and that the oldest job is claimed first.
+	/// </summary>
+	[Fact]
+	public async Task ClaimNextJobForWorker_ClaimsOldestJobOnlyOnce()
+	{
+		// Arrange
+		var olderJob = CreateJob("TestJob", _now.AddMinutes(-2));
+		var newerJob = CreateJob("TestJob", _now.AddMinutes(-1));
+		await _jobStore.CreateJob(newerJob, CancellationToken.None);
+		await _jobStore.CreateJob(olderJob, CancellationToken.None);
+		var firstWorkerId = Guid.NewGuid();
+		var secondWorkerId = Guid.NewGuid();
+
+		// Act
+		var firstClaim = await _jobStore.ClaimNextJobForWorker(firstWorkerId, null, CancellationToken.None);
+		var secondClaim = await _jobStore.ClaimNextJobForWorker(secondWorkerId, null, CancellationToken.None);
+		var thirdClaim = await _jobStore.ClaimNextJobForWorker(Guid.NewGuid(), null, CancellationToken.None);
+
+		// Assert
+		Assert.Equal(olderJob.Id, firstClaim.Data?.Id);
+		Assert.Equal(JobStatus.InProgress, firstClaim.Data?.Status);
+		Assert.Equal(firstWorkerId, firstClaim.Data?.WorkerId);
+		Assert.Equal(newerJob.Id, secondClaim.Data?.Id);
+		Assert.Equal(secondWorkerId, secondClaim.Data?.WorkerId);
+		Assert.True(thirdClaim.IsSuccess);
+		Assert.Null(thirdClaim.Data);
+	}
+
+	/// <summary>
+	/// Verifies that a batch claim takes up to the requested number of jobs, oldest first, and leaves the rest for other workers.
+	/// </summary>
+	[Fact]
+	public async Task ClaimNextJobsForWorker_ClaimsUpToMaxCount_OldestFirst()
+	{
+		// Arrange
+		var oldestJob = CreateJob("TestJob", _now.AddMinutes(-3));
+		var olderJob = CreateJob("TestJob", _now.AddMinutes(-2));
+		var newestJob = CreateJob("TestJob", _now.AddMinutes(-1));
+		await _jobStore.CreateJob(newestJob, CancellationToken.None);
+		await _jobStore.CreateJob(oldestJob, CancellationToken.None);
+		await _jobStore.CreateJob(olderJob, CancellationToken.None);
+		var workerId = Guid.NewGuid();
+
+		// Act
+		var batch = await _jobStore.ClaimNextJobsForWorker(workerId, null, 2, CancellationToken.None);
+		var remaining = await _jobStore.ClaimNextJobsForWorker(Guid.NewGuid(), null, 2, CancellationToken.None);
+
+		// Assert
+		Assert.True(batch.IsSuccess);
+		Assert.Equal(new[] { oldestJob.Id, olderJob.Id }, batch.Data.Select(x => x.Id));
+		Assert.All(batch.Data, job => Assert.Equal(workerId, job.WorkerId));
+		Assert.Equal(new[] { newestJob.Id }, remaining.Data.Select(x => x.Id));
+	}
+
+	/// <summary>
+	/// Verifies that a higher priority job is claimed before an older job, and that jobs are only claimed from the requested queue.
+	/// </summary>
+	[Fact]
+	public async Task ClaimNextJobForWorker_ClaimsHigherPriorityJobFirst_FromRequestedQueue()
+	{
+		// Arrange
+		var olderJob = CreateJob("TestJob", _now.AddMinutes(-2));
+		var priorityJob = CreateJob("TestJob", _now.AddMinutes(-1));
+		priorityJob.Priority = 5;
+		var exportJob = CreateJob("TestJob", _now.AddMinutes(-10));
+		exportJob.Queue = "exports";
+		await _jobStore.CreateJob(olderJob, CancellationToken.None);
+		await _jobStore.CreateJob(priorityJob, CancellationToken.None);
+		await _jobStore.CreateJob(exportJob, CancellationToken.None);
+
+		// Act
+		var firstClaim = await _jobStore.ClaimNextJobForWorker(Guid.NewGuid(), AsyncEndpointsConstants.DefaultQueueName, CancellationToken.None);
+		var secondClaim = await _jobStore.ClaimNextJobForWorker(Guid.NewGuid(), AsyncEndpointsConstants.DefaultQueueName, CancellationToken.None);
+		var thirdClaim = await _jobStore.ClaimNextJobForWorker(Guid.NewGuid(), AsyncEndpointsConstants.DefaultQueueName, CancellationToken.None);
+
+		// Assert
+		Assert.Equal(priorityJob.Id, firstClaim.Data?.Id);
+		Assert.Equal(olderJob.Id, secondClaim.Data?.Id);
+		Assert.True(thirdClaim.IsSuccess);
+		Assert.Null(thirdClaim.Data);
+	}
+
+	/// <summary>
+	/// Verifies that a scheduled job is not claimed before its retry delay has passed.
+	/// </summary>
+	[Fact]
+	public async Task ClaimNextJobForWorker_SkipsScheduledJob_WhenRetryDelayHasNotPassed()
+	{
+		// Arrange
+		var job = CreateJob("TestJob", _now);
+		job.Status = JobStatus.Scheduled;
+		job.RetryDelayUntil = _now.UtcDateTime.AddMinutes(1);
+		await _jobStore.CreateJob(job, CancellationToken.None);
+
+		// Act
+		var result = await _jobStore.ClaimNextJobForWorker(Guid.NewGuid(), null, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Null(result.Data);
+	}
+
+	/// <summary>
+	/// Verifies that canceling an in-progress job keeps the worker ID and rejects progress reported afterwards.
+	/// </summary>
+	[Fact]
+	public async Task CancelJob_CancelsInProgressJob_AndIgnoresLaterProgress()
+	{
+		// Arrange
+		var job = CreateJob("TestJob", _now);
+		await _jobStore.CreateJob(job, CancellationToken.None);
+		var workerId = Guid.NewGuid();
+		await _jobStore.ClaimNextJobForWorker(workerId, null, CancellationToken.None);
+
+		// Act
+		var cancelResult = await _jobStore.CancelJob(job.Id, CancellationToken.None);
+		var progressResult = await _jobStore.UpdateJobProgress(job.Id, new JobProgress { PercentComplete = 50 }, CancellationToken.None);
+		var getResult = await _jobStore.GetJobById(job.Id, CancellationToken.None);
+
+		// Assert
+		Assert.True(cancelResult.IsSuccess);
+		Assert.Equal(JobStatus.Canceled, cancelResult.Data.Status);
+		Assert.Equal(workerId, cancelResult.Data.WorkerId);
+		Assert.True(progressResult.IsSuccess);
+		Assert.Equal(JobStatus.Canceled, getResult.Data.Status);
+		Assert.Null(getResult.Data.Progress);
+	}
+
+	/// <summary>
+	/// Verifies that completed jobs cannot be canceled.
+	/// </summary>
+	[Fact]
+	public async Task CancelJob_ReturnsNotCancelable_WhenJobCompleted()
+	{
+		// Arrange
+		var job = CreateJob("TestJob", _now);
+		job.Status = JobStatus.Completed;
+		await _jobStore.CreateJob(job, CancellationToken.None);
+
+		// Act
+		var result = await _jobStore.CancelJob(job.Id, CancellationToken.None);
+
+		// Assert
+		Assert.False(result.IsSuccess);
+		Assert.Equal("JOB_NOT_CANCELABLE", result.Error.Code);
+	}
+
+	/// <summary>
+	/// Verifies that progress of an in-progress job is stored and that status watchers are notified.
+	/// </summary>
+	[Fact]
+	public async Task UpdateJobProgress_StoresProgress_WhenJobInProgress()
+	{
+		// Arrange
+		var job = CreateJob("TestJob", _now);
+		await _jobStore.CreateJob(job, CancellationToken.None);
+		await _jobStore.ClaimNextJobForWorker(Guid.NewGuid(), null, CancellationToken.None);
+		var progress = new JobProgress { PercentComplete = 40, Message = "Halfway there", ReportedAt = _now };
+
+		// Act
+		var result = await _jobStore.UpdateJobProgress(job.Id, progress, CancellationToken.None);
+		var getResult = await _jobStore.GetJobById(job.Id, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Equal(40, getResult.Data.Progress?.PercentComplete);
+		Assert.Equal("Halfway there", getResult.Data.Progress?.Message);
+		_mockJobStatusNotifier.Verify(x => x.NotifyStatusChanged(job.Id, JobStatus.InProgress, It.IsAny<CancellationToken>()), Times.Exactly(2));
+	}
+
+	/// <summary>
+	/// Verifies that the callback of a job is stored without touching its other fields, and that a missing job is reported as not found.
+	/// </summary>
+	[Fact]
+	public async Task UpdateJobCallback_StoresCallback_WithoutOverwritingOtherFields()
+	{
+		// Arrange
+		var job = CreateJob("TestJob", _now);
+		job.Callback = new JobCallback { Url = "https://example.com/callback" };
+		await _jobStore.CreateJob(job, CancellationToken.None);
+		await _jobStore.ClaimNextJobForWorker(Guid.NewGuid(), null, CancellationToken.None);
+		var callback = new JobCallback { Url = "https://example.com/callback" };
+		callback.RecordFailure("Receiver unavailable", _now, 5);
+
+		// Act
+		var result = await _jobStore.UpdateJobCallback(job.Id, callback, CancellationToken.None);
+		var missingResult = await _jobStore.UpdateJobCallback(Guid.NewGuid(), callback, CancellationToken.None);
+		var getResult = await _jobStore.GetJobById(job.Id, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Equal(JobStatus.InProgress, getResult.Data.Status);
+		Assert.Equal(1, getResult.Data.Callback?.Attempts);
+		Assert.Equal("Receiver unavailable", getResult.Data.Callback?.LastError);
+		Assert.False(missingResult.IsSuccess);
+		Assert.Equal("JOB_NOT_FOUND", missingResult.Error.Code);
+	}
+
+	/// <summary>
+	/// Verifies that updating a job stores the new status, result and recorded runs.
+	/// </summary>
+	[Fact]
+	public async Task UpdateJob_StoresStatusResultAndRuns()
+	{
+		// Arrange
+		var job = CreateJob("TestJob", _now);
+		await _jobStore.CreateJob(job, CancellationToken.None);
+		var claimResult = await _jobStore.ClaimNextJobForWorker(Guid.NewGuid(), null, CancellationToken.None);
+		var claimedJob = claimResult.Data!;
+		claimedJob.RecordRun(JobRunOutcome.Succeeded, null, _mockDateTimeProvider.Object);
+		claimedJob.SetResult("{\"value\":42}", _mockDateTimeProvider.Object);
+
+		// Act
+		var result = await _jobStore.UpdateJob(claimedJob, CancellationToken.None);
+		var getResult = await _jobStore.GetJobById(job.Id, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Equal(JobStatus.Completed, getResult.Data.Status);
+		Assert.Equal("{\"value\":42}", getResult.Data.Result);
+		Assert.Equal(_now, getResult.Data.CompletedAt);
+		var run = Assert.Single(getResult.Data.Runs);
+		Assert.Equal(claimedJob.WorkerId, run.WorkerId);
+		Assert.Equal(JobRunOutcome.Succeeded, run.Outcome);
+	}
+
+	/// <summary>
+	/// Verifies that only jobs whose expiry has passed are deleted, up to the maximum count.
+	/// </summary>
+	[Fact]
+	public async Task DeleteExpiredJobs_DeletesOnlyExpiredJobs_UpToMaxCount()
+	{
+		// Arrange
+		var oldestExpiredJob = CreateJob("TestJob", _now.AddDays(-3));
+		oldestExpiredJob.ExpiresAt = _now.AddHours(-2);
+		var expiredJob = CreateJob("TestJob", _now.AddDays(-2));
+		expiredJob.ExpiresAt = _now.AddHours(-1);
+		var retainedJob = CreateJob("TestJob", _now.AddDays(-1));
+		retainedJob.ExpiresAt = _now.AddHours(1);
+		var activeJob = CreateJob("TestJob", _now);
+		foreach (var job in new[] { oldestExpiredJob, expiredJob, retainedJob, activeJob })
+		{
+			await _jobStore.CreateJob(job, CancellationToken.None);
+		}
+
+		// Act
+		var firstResult = await _jobStore.DeleteExpiredJobs(1, CancellationToken.None);
+		var secondResult = await _jobStore.DeleteExpiredJobs(10, CancellationToken.None);
+
+		// Assert
+		Assert.Equal(1, firstResult.Data);
+		Assert.Equal(1, secondResult.Data);
+		Assert.False((await _jobStore.GetJobById(oldestExpiredJob.Id, CancellationToken.None)).IsSuccess);
+		Assert.False((await _jobStore.GetJobById(expiredJob.Id, CancellationToken.None)).IsSuccess);
+		Assert.True((await _jobStore.GetJobById(retainedJob.Id, CancellationToken.None)).IsSuccess);
+		Assert.True((await _jobStore.GetJobById(activeJob.Id, CancellationToken.None)).IsSuccess);
+	}
+
+	/// <summary>
+	/// Verifies that deleting a job removes it, and that deleting it again returns a JOB_NOT_FOUND error.
+	/// </summary>
+	[Fact]
+	public async Task DeleteJob_RemovesJob_ThenReturnsNotFound()
+	{
+		// Arrange
+		var job = CreateJob("TestJob", _now);
+		await _jobStore.CreateJob(job, CancellationToken.None);
+
+		// Act
+		var firstResult = await _jobStore.DeleteJob(job.Id, CancellationToken.None);
+		var secondResult = await _jobStore.DeleteJob(job.Id, CancellationToken.None);
+
+		// Assert
+		Assert.True(firstResult.IsSuccess);
+		Assert.False(secondResult.IsSuccess);
+		Assert.Equal("JOB_NOT_FOUND", secondResult.Error.Code);
+		Assert.False((await _jobStore.GetJobById(job.Id, CancellationToken.None)).IsSuccess);
+	}
+
+	/// <summary>
+	/// Verifies that requeuing moves a failed job back to the queue where it can be claimed again, and that only failed jobs can be requeued.
+	/// </summary>
+	[Fact]
+	public async Task RequeueJob_QueuesFailedJob_AndRejectsOtherJobs()
+	{
+		// Arrange
+		var failedJob = CreateJob("TestJob", _now.AddMinutes(-1));
+		failedJob.Status = JobStatus.Failed;
+		failedJob.RetryCount = failedJob.MaxRetries;
+		failedJob.CompletedAt = _now;
+		failedJob.ExpiresAt = _now.AddDays(1);
+		var completedJob = CreateJob("TestJob", _now);
+		completedJob.Status = JobStatus.Completed;
+		await _jobStore.CreateJob(failedJob, CancellationToken.None);
+		await _jobStore.CreateJob(completedJob, CancellationToken.None);
+
+		// Act
+		var requeueResult = await _jobStore.RequeueJob(failedJob.Id, true, CancellationToken.None);
+		var rejectedResult = await _jobStore.RequeueJob(completedJob.Id, true, CancellationToken.None);
+		var claimResult = await _jobStore.ClaimNextJobForWorker(Guid.NewGuid(), null, CancellationToken.None);
+
+		// Assert
+		Assert.True(requeueResult.IsSuccess);
+		Assert.Equal(JobStatus.Queued, requeueResult.Data.Status);
+		Assert.Equal(0, requeueResult.Data.RetryCount);
+		Assert.Null(requeueResult.Data.CompletedAt);
+		Assert.Null(requeueResult.Data.ExpiresAt);
+		Assert.False(rejectedResult.IsSuccess);
+		Assert.Equal("JOB_NOT_REQUEUEABLE", rejectedResult.Error.Code);
+		Assert.Equal(failedJob.Id, claimResult.DataOrNull?.Id);
+	}
+
+	/// <summary>
+	/// Verifies that recovery reschedules stuck jobs with retries left and fails stuck jobs without, matching the Redis store.
+	/// Both record the attempt of the worker that stopped renewing the lease as an abandoned run.
+	/// </summary>
+	[Fact]
+	public async Task RecoverStuckJobs_ReschedulesOrFailsStuckJobs()
+	{
+		// Arrange
+		var retryableJob = CreateJob("TestJob", _now.AddHours(-1));
+		retryableJob.Status = JobStatus.InProgress;
+		retryableJob.WorkerId = Guid.NewGuid();
+		retryableJob.StartedAt = _now.AddMinutes(-30);
+		var exhaustedJob = CreateJob("TestJob", _now.AddHours(-1));
+		exhaustedJob.Status = JobStatus.InProgress;
+		exhaustedJob.WorkerId = Guid.NewGuid();
+		exhaustedJob.StartedAt = _now.AddMinutes(-30);
+		exhaustedJob.RetryCount = exhaustedJob.MaxRetries;
+		var activeJob = CreateJob("TestJob", _now);
+		activeJob.Status = JobStatus.InProgress;
+		activeJob.WorkerId = Guid.NewGuid();
+		activeJob.StartedAt = _now;
+		await _jobStore.CreateJob(retryableJob, CancellationToken.None);
+		await _jobStore.CreateJob(exhaustedJob, CancellationToken.None);
+		await _jobStore.CreateJob(activeJob, CancellationToken.None);
+
+		// Act
+		var recoveredCount = await _jobStore.RecoverStuckJobs(_now.AddMinutes(-10).ToUnixTimeSeconds(), 3, CancellationToken.None);
+
+		// Assert
+		Assert.Equal(1, recoveredCount);
+
+		var retryable = (await _jobStore.GetJobById(retryableJob.Id, CancellationToken.None)).Data;
+		Assert.Equal(JobStatus.Scheduled, retryable.Status);
+		Assert.Equal(1, retryable.RetryCount);
+		Assert.Null(retryable.WorkerId);
+		Assert.Null(retryable.StartedAt);
+		var retryableRun = Assert.Single(retryable.Runs);
+		Assert.Equal(JobRunOutcome.Abandoned, retryableRun.Outcome);
+		Assert.Equal(retryableJob.WorkerId, retryableRun.WorkerId);
+
+		var exhausted = (await _jobStore.GetJobById(exhaustedJob.Id, CancellationToken.None)).Data;
+		Assert.Equal(JobStatus.Failed, exhausted.Status);
+		Assert.Equal("Job failed after maximum retries", exhausted.Error?.Message);
+		Assert.Equal(JobRunOutcome.Abandoned, Assert.Single(exhausted.Runs).Outcome);
+
+		var active = (await _jobStore.GetJobById(activeJob.Id, CancellationToken.None)).Data;
+		Assert.Equal(JobStatus.InProgress, active.Status);
+	}
+
+	/// <summary>
+	/// Verifies that a stuck job failed by recovery expires after the failed retention of its job name, like a job failed by its handler.
+	/// </summary>
+	[Fact]
+	public async Task RecoverStuckJobs_AppliesFailedRetention_WhenJobIsFailed()
+	{
+		// Arrange
+		_configurations.RetentionConfigurations.FailedJobRetention = TimeSpan.FromDays(7);
+		_configurations.RetentionConfigurations.JobNameOverrides["ShortLivedJob"] = new AsyncEndpointsJobRetentionOverride { FailedJobRetention = TimeSpan.FromHours(1) };
+		var defaultJob = CreateJob("TestJob", _now.AddHours(-1));
+		var overriddenJob = CreateJob("ShortLivedJob", _now.AddHours(-1));
+		foreach (var job in new[] { defaultJob, overriddenJob })
+		{
+			job.Status = JobStatus.InProgress;
+			job.WorkerId = Guid.NewGuid();
+			job.StartedAt = _now.AddMinutes(-30);
+			job.RetryCount = job.MaxRetries;
+			await _jobStore.CreateJob(job, CancellationToken.None);
+		}
+
+		// Act
+		await _jobStore.RecoverStuckJobs(_now.AddMinutes(-10).ToUnixTimeSeconds(), 3, CancellationToken.None);
+
+		// Assert
+		var defaultResult = (await _jobStore.GetJobById(defaultJob.Id, CancellationToken.None)).Data;
+		Assert.Equal(JobStatus.Failed, defaultResult.Status);
+		Assert.Equal(_now.AddDays(7), defaultResult.ExpiresAt);
+
+		var overriddenResult = (await _jobStore.GetJobById(overriddenJob.Id, CancellationToken.None)).Data;
+		Assert.Equal(JobStatus.Failed, overriddenResult.Status);
+		Assert.Equal(_now.AddHours(1), overriddenResult.ExpiresAt);
+	}
+
+	/// <summary>
+	/// Verifies that a heartbeat renews the leases of the jobs its worker holds, so they are not recovered although they started long ago.
+	/// </summary>
+	[Fact]
+	public async Task SaveWorkerHeartbeat_RenewsLeasesOfHeldJobs_SoRecoverySkipsThem()
+	{
+		// Arrange
+		var workerId = Guid.NewGuid();
+		var heldJob = CreateJob("TestJob", _now.AddHours(-1));
+		heldJob.Status = JobStatus.InProgress;
+		heldJob.WorkerId = workerId;
+		heldJob.StartedAt = _now.AddMinutes(-30);
+		heldJob.LeaseRenewedAt = _now.AddMinutes(-30);
+		var abandonedJob = CreateJob("TestJob", _now.AddHours(-1));
+		abandonedJob.Status = JobStatus.InProgress;
+		abandonedJob.WorkerId = Guid.NewGuid();
+		abandonedJob.StartedAt = _now.AddMinutes(-30);
+		abandonedJob.LeaseRenewedAt = _now.AddMinutes(-30);
+		await _jobStore.CreateJob(heldJob, CancellationToken.None);
+		await _jobStore.CreateJob(abandonedJob, CancellationToken.None);
+		var heartbeat = new WorkerHeartbeat
+		{
+			WorkerId = workerId,
+			HostName = "worker-1",
+			Queues = ["reports"],
+			JobIds = [heldJob.Id, abandonedJob.Id],
+			StartedAt = _now.AddHours(-2),
+			LastHeartbeatAt = _now,
+			ExpiresAt = _now.AddMinutes(1)
+		};
+
+		// Act
+		var saveResult = await _jobStore.SaveWorkerHeartbeat(heartbeat, CancellationToken.None);
+		var recoveredCount = await _jobStore.RecoverStuckJobs(_now.AddMinutes(-1).ToUnixTimeSeconds(), 3, CancellationToken.None);
+		var workersResult = await _jobStore.GetWorkers(CancellationToken.None);
+
+		// Assert
+		Assert.True(saveResult.IsSuccess);
+		Assert.Equal(1, recoveredCount);
+
+		var held = (await _jobStore.GetJobById(heldJob.Id, CancellationToken.None)).Data;
+		Assert.Equal(JobStatus.InProgress, held.Status);
+		Assert.Equal(_now, held.LeaseRenewedAt);
+
+		var abandoned = (await _jobStore.GetJobById(abandonedJob.Id, CancellationToken.None)).Data;
+		Assert.Equal(JobStatus.Scheduled, abandoned.Status);
+
+		var worker = Assert.Single(workersResult.Data);
+		Assert.Equal(["reports"], worker.Queues);
+		Assert.Equal(heartbeat.JobIds, worker.JobIds);
+	}
+
+	/// <summary>
+	/// Verifies that paging through jobs returns every matching job exactly once, newest first,
+	/// including jobs created in the same millisecond.
+	/// </summary>
+	[Fact]
+	public async Task QueryJobs_PagesThroughMatchingJobsNewestFirst()
+	{
+		// Arrange
+		var expectedJobs = new List<Job>();
+		for (var i = 0; i < 5; i++)
+		{
+			// Pairs of jobs share a creation time, so ties are ordered by ID
+			var job = CreateJob("TestJob", _now.AddSeconds(-(i / 2)));
+			expectedJobs.Add(job);
+			await _jobStore.CreateJob(job, CancellationToken.None);
+		}
+		await _jobStore.CreateJob(CreateJob("OtherJob", _now), CancellationToken.None);
+
+		expectedJobs = expectedJobs
+			.OrderByDescending(job => job.CreatedAt)
+			.ThenByDescending(job => job.Id.ToString(), StringComparer.Ordinal)
+			.ToList();
+
+		// Act
+		var firstPage = await _jobStore.QueryJobs(new JobQuery { Name = "TestJob", PageSize = 2 }, CancellationToken.None);
+		var secondPage = await _jobStore.QueryJobs(new JobQuery { Name = "TestJob", PageSize = 2, Cursor = firstPage.Data.NextCursor }, CancellationToken.None);
+		var thirdPage = await _jobStore.QueryJobs(new JobQuery { Name = "TestJob", PageSize = 2, Cursor = secondPage.Data.NextCursor }, CancellationToken.None);
+
+		// Assert
+		var pagedJobIds = firstPage.Data.Jobs.Concat(secondPage.Data.Jobs).Concat(thirdPage.Data.Jobs).Select(job => job.Id);
+		Assert.Equal(expectedJobs.Select(job => job.Id), pagedJobIds);
+		Assert.NotNull(secondPage.Data.NextCursor);
+		Assert.Null(thirdPage.Data.NextCursor);
+	}
+
+	private static Job CreateJob(string name, DateTimeOffset createdAt, Guid? id = null)
+	{
+		return new Job(createdAt)
+		{
+			Id = id ?? Guid.NewGuid(),
+			Name = name,
+			Payload = "{}"
+		};
+	}
+}
@@ -0,0 +1,12 @@
+using AsyncEndpoints.EntityFrameworkCore.Extensions;
+using Microsoft.EntityFrameworkCore;
+
+namespace AsyncEndpoints.EntityFrameworkCore.UnitTests.TestSupport;
+
+public class TestDbContext(DbContextOptions<TestDbContext> options) : DbContext(options)
+{
+	protected override void OnModelCreating(ModelBuilder modelBuilder)
+	{
+		modelBuilder.ApplyAsyncEndpointsJobConfiguration();
+	}
+}
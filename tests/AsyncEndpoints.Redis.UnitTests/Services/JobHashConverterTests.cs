@@ -136,4 +136,87 @@ public class JobHashConverterTests
 		Assert.Equal(workerId, job.WorkerId);
 		Assert.Equal(createdAt, job.CreatedAt);
 	}
+
+	/// <summary>
+	/// Verifies that the IDs of offloaded payload and result blobs survive a round trip through Redis hash entries.
+	/// </summary>
+	[Fact]
+	public void ConvertFromHashEntries_RoundTripsBlobIds()
+	{
+		// Arrange
+		var mockDateTimeProvider = new Mock<AsyncEndpoints.Infrastructure.IDateTimeProvider>();
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(DateTimeOffset.UtcNow);
+		var job = Job.Create(Guid.NewGuid(), "TestJob", string.Empty, [], [], [], 3, mockDateTimeProvider.Object);
+		job.PayloadBlobId = $"{job.Id:N}-payload";
+		job.ResultBlobId = $"{job.Id:N}-result";
+
+		var mockSerializer = new Mock<ISerializer>();
+		mockSerializer.Setup(s => s.Serialize(It.IsAny<object>(), null)).Returns("serialized_value");
+		var converter = new JobHashConverter(mockSerializer.Object);
+
+		// Act
+		var roundTripped = converter.ConvertFromHashEntries(converter.ConvertToHashEntries(job));
+
+		// Assert
+		Assert.Equal(job.PayloadBlobId, roundTripped.PayloadBlobId);
+		Assert.Equal(job.ResultBlobId, roundTripped.ResultBlobId);
+	}
+
+	/// <summary>
+	/// Verifies that the lease renewal time survives a round trip, and that jobs stored before leases were introduced read back without one.
+	/// </summary>
+	[Fact]
+	public void ConvertFromHashEntries_RoundTripsLeaseRenewedAt()
+	{
+		// Arrange
+		var mockDateTimeProvider = new Mock<AsyncEndpoints.Infrastructure.IDateTimeProvider>();
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(DateTimeOffset.UtcNow);
+		var job = Job.Create(Guid.NewGuid(), "TestJob", string.Empty, [], [], [], 3, mockDateTimeProvider.Object);
+		job.LeaseRenewedAt = new DateTimeOffset(2025, 1, 1, 12, 0, 0, TimeSpan.Zero);
+
+		var mockSerializer = new Mock<ISerializer>();
+		mockSerializer.Setup(s => s.Serialize(It.IsAny<object>(), null)).Returns("serialized_value");
+		var converter = new JobHashConverter(mockSerializer.Object);
+		var hashEntries = converter.ConvertToHashEntries(job);
+
+		// Act
+		var roundTripped = converter.ConvertFromHashEntries(hashEntries);
+		var legacyJob = converter.ConvertFromHashEntries([.. hashEntries.Where(entry => entry.Name != nameof(Job.LeaseRenewedAt))]);
+
+		// Assert
+		Assert.Equal(job.LeaseRenewedAt, roundTripped.LeaseRenewedAt);
+		Assert.Null(legacyJob.LeaseRenewedAt);
+	}
+
+	/// <summary>
+	/// Verifies that the trace context the job was submitted in survives a round trip, and that jobs stored before it was captured read back without one.
+	/// </summary>
+	[Fact]
+	public void ConvertFromHashEntries_RoundTripsTraceContext()
+	{
+		// Arrange
+		var mockDateTimeProvider = new Mock<AsyncEndpoints.Infrastructure.IDateTimeProvider>();
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(DateTimeOffset.UtcNow);
+		var job = Job.Create(Guid.NewGuid(), "TestJob", string.Empty, [], [], [], 3, mockDateTimeProvider.Object);
+		job.TraceParent = "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01";
+		job.TraceState = "vendor=value";
+		job.Baggage = "tenant=acme";
+
+		var mockSerializer = new Mock<ISerializer>();
+		mockSerializer.Setup(s => s.Serialize(It.IsAny<object>(), null)).Returns("serialized_value");
+		var converter = new JobHashConverter(mockSerializer.Object);
+		var hashEntries = converter.ConvertToHashEntries(job);
+		string[] traceFields = [nameof(Job.TraceParent), nameof(Job.TraceState), nameof(Job.Baggage)];
+
+		// Act
+		var roundTripped = converter.ConvertFromHashEntries(hashEntries);
+		var legacyJob = converter.ConvertFromHashEntries([.. hashEntries.Where(entry => !traceFields.Contains(entry.Name.ToString()))]);
+
+		// Assert
+		Assert.Equal(job.TraceParent, roundTripped.TraceParent);
+		Assert.Equal(job.TraceState, roundTripped.TraceState);
+		Assert.Equal(job.Baggage, roundTripped.Baggage);
+		Assert.Null(legacyJob.TraceParent);
+		Assert.Null(legacyJob.Baggage);
+	}
 }
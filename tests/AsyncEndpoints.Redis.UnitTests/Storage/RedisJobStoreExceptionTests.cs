@@ -34,11 +34,10 @@ public class RedisJobStoreExceptionTests
 			.Setup(x => x.ConvertToHashEntries(job))
 			.Returns(hashEntries);
 
-		mockDatabase
-			.Setup(x => x.HashSetAsync(It.IsAny<RedisKey>(), It.IsAny<HashEntry[]>(), CommandFlags.None))
-			.Throws(new RedisException("Redis operation failed"));
-
 		var mockRedisLuaScriptService = new Mock<IRedisLuaScriptService>();
+		mockRedisLuaScriptService
+			.Setup(x => x.CreateJob(mockDatabase.Object, job, hashEntries, It.IsAny<double>(), null))
+			.ThrowsAsync(new RedisException("Redis operation failed"));
 		var mockMetrics = new Mock<IAsyncEndpointsObservability>();
 		var store = new RedisJobStore(mockLogger.Object, mockDatabase.Object, mockDateTimeProvider.Object, mockJobHashConverter.Object, mockSerializer.Object, mockRedisLuaScriptService.Object, mockMetrics.Object);
 
@@ -103,15 +102,11 @@ public class RedisJobStoreExceptionTests
 			.Setup(x => x.ConvertToHashEntries(job))
 			.Returns(hashEntries);
 
-		mockDatabase
-			.Setup(x => x.KeyExistsAsync(It.IsAny<RedisKey>(), CommandFlags.None))
-			.ReturnsAsync(true);
-
-		mockDatabase
-			.Setup(x => x.HashSetAsync(It.IsAny<RedisKey>(), It.IsAny<HashEntry[]>(), CommandFlags.None))
+		var mockRedisLuaScriptService = new Mock<IRedisLuaScriptService>();
+		mockRedisLuaScriptService
+			.Setup(x => x.UpdateJob(mockDatabase.Object, job, hashEntries, It.IsAny<double>(), false, null))
 			.ThrowsAsync(new RedisException("Redis operation failed"));
 
-		var mockRedisLuaScriptService = new Mock<IRedisLuaScriptService>();
 		var mockMetrics = new Mock<IAsyncEndpointsObservability>();
 		var store = new RedisJobStore(mockLogger.Object, mockDatabase.Object, mockDateTimeProvider.Object, mockJobHashConverter.Object, mockSerializer.Object, mockRedisLuaScriptService.Object, mockMetrics.Object);
 
@@ -5,6 +5,7 @@ using AsyncEndpoints.Infrastructure.Serialization;
 using AsyncEndpoints.JobProcessing;
 using AsyncEndpoints.Redis.Services;
 using AsyncEndpoints.Redis.Storage;
+using AsyncEndpoints.Utilities;
 using Microsoft.Extensions.Logging;
 using Moq;
 using StackExchange.Redis;
@@ -17,6 +18,7 @@ public class RedisJobStoreTests
 	private readonly Mock<ILogger<RedisJobStore>> _mockLogger;
 	private readonly Mock<ISerializer> _mockSerializer;
 	private readonly Mock<IJobHashConverter> _mockJobHashConverter;
+	private readonly Mock<IRedisLuaScriptService> _mockRedisLuaScriptService;
 	private readonly RedisJobStore _redisJobStore;
 
 	public RedisJobStoreTests()
@@ -25,15 +27,15 @@ public class RedisJobStoreTests
 		_mockLogger = new Mock<ILogger<RedisJobStore>>();
 		_mockSerializer = new Mock<ISerializer>();
 		_mockJobHashConverter = new Mock<IJobHashConverter>();
+		_mockRedisLuaScriptService = new Mock<IRedisLuaScriptService>();
 		var mockDateTimeProvider = new Mock<IDateTimeProvider>();
-		var mockRedisLuaScriptService = new Mock<IRedisLuaScriptService>();
 		var mockMetrics = new Mock<IAsyncEndpointsObservability>();
-		_redisJobStore = new RedisJobStore(_mockLogger.Object, _mockDatabase.Object, mockDateTimeProvider.Object, _mockJobHashConverter.Object, _mockSerializer.Object, mockRedisLuaScriptService.Object, mockMetrics.Object);
+		_redisJobStore = new RedisJobStore(_mockLogger.Object, _mockDatabase.Object, mockDateTimeProvider.Object, _mockJobHashConverter.Object, _mockSerializer.Object, _mockRedisLuaScriptService.Object, mockMetrics.Object);
 	}
 
 	/// <summary>
 	/// Verifies that the RedisJobStore can successfully create a new job when the job ID doesn't already exist.
-	/// This test ensures proper job storage functionality in Redis.
+	/// This test ensures the job is stored, queued and indexed by a single script.
 	/// </summary>
 	[Fact]
 	public async Task CreateJob_ValidJob_ReturnsSuccess()
@@ -58,19 +60,115 @@ public class RedisJobStoreTests
 			lastUpdatedAt: DateTimeOffset.UtcNow,
 			dateTimeProvider: mockDateTimeProvider.Object);
 
-		_mockDatabase.Setup(db => db.KeyExistsAsync($"ae:job:{job.Id}", It.IsAny<CommandFlags>()))
-					 .ReturnsAsync(false);
-		_mockDatabase.Setup(db => db.SortedSetAddAsync("ae:jobs:queue", job.Id.ToString(),
-					 It.IsAny<double>(), It.IsAny<When>(), It.IsAny<CommandFlags>()))
-					 .ReturnsAsync(true);
+		var hashEntries = new[] { new HashEntry("Id", job.Id.ToString()) };
+		_mockJobHashConverter.Setup(x => x.ConvertToHashEntries(job)).Returns(hashEntries);
+		_mockRedisLuaScriptService.Setup(x => x.CreateJob(_mockDatabase.Object, job, hashEntries, It.IsAny<double>(), null))
+			.ReturnsAsync(MethodResult<Guid?>.Success(null));
+
+		// Act
+		var result = await _redisJobStore.CreateJob(job, default);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		_mockRedisLuaScriptService.Verify(x => x.CreateJob(_mockDatabase.Object, job, hashEntries, It.IsAny<double>(), null), Times.Once);
+		_mockDatabase.Verify(db => db.HashSetAsync(It.IsAny<RedisKey>(), It.IsAny<HashEntry[]>(), It.IsAny<CommandFlags>()), Times.Never);
+		_mockDatabase.Verify(db => db.SortedSetAddAsync(It.IsAny<RedisKey>(), It.IsAny<RedisValue>(),
+			It.IsAny<double>(), It.IsAny<When>(), It.IsAny<CommandFlags>()), Times.Never);
+	}
+
+	/// <summary>
+	/// Verifies that a job scheduled to run later is handed to the create script with its due time as queue score,
+	/// so that it is not claimed before it is due.
+	/// </summary>
+	[Fact]
+	public async Task CreateJob_ScheduledJob_AddsJobToQueueAtDueTime()
+	{
+		// Arrange
+		var mockDateTimeProvider = new Mock<IDateTimeProvider>();
+		var now = DateTimeOffset.UtcNow;
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(now);
+		var runAt = now.AddMinutes(10);
+		var job = Job.Create(Guid.NewGuid(), "TestJob", "{}", [], [], [], AsyncEndpointsConstants.MaximumRetries, mockDateTimeProvider.Object, runAt: runAt);
+		var expectedScore = (runAt.UtcDateTime - DateTime.UnixEpoch).TotalSeconds;
+
+		_mockRedisLuaScriptService.Setup(x => x.CreateJob(_mockDatabase.Object, job, It.IsAny<HashEntry[]>(), It.IsAny<double>(), null))
+			.ReturnsAsync(MethodResult<Guid?>.Success(null));
 
 		// Act
 		var result = await _redisJobStore.CreateJob(job, default);
 
 		// Assert
 		Assert.True(result.IsSuccess);
-		_mockDatabase.Verify(db => db.HashSetAsync($"ae:job:{job.Id}", It.IsAny<HashEntry[]>(), CommandFlags.None), Times.Once);
-		_mockJobHashConverter.Verify(x => x.ConvertToHashEntries(job), Times.Once);
+		_mockRedisLuaScriptService.Verify(x => x.CreateJob(_mockDatabase.Object, job, It.IsAny<HashEntry[]>(), expectedScore, null), Times.Once);
+	}
+
+	/// <summary>
+	/// Verifies that the RedisJobStore returns a failure when the create script finds a job with the same ID.
+	/// This test ensures concurrent creations of a deterministic job ID store the job only once.
+	/// </summary>
+	[Fact]
+	public async Task CreateJob_ExistingJobId_ReturnsFailure()
+	{
+		// Arrange
+		var mockDateTimeProvider = new Mock<IDateTimeProvider>();
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(DateTimeOffset.UtcNow);
+		var job = Job.Create(Guid.NewGuid(), "TestJob", "{}", [], [], [], AsyncEndpointsConstants.MaximumRetries, mockDateTimeProvider.Object);
+
+		_mockRedisLuaScriptService.Setup(x => x.CreateJob(_mockDatabase.Object, job, It.IsAny<HashEntry[]>(), It.IsAny<double>(), null))
+			.ReturnsAsync(MethodResult<Guid?>.Failure(AsyncEndpointError.FromCode("DUPLICATE_JOB", $"Job with ID {job.Id} already exists")));
+
+		// Act
+		var result = await _redisJobStore.CreateJob(job, default);
+
+		// Assert
+		Assert.False(result.IsSuccess);
+		Assert.Contains("already exists", result.Error.Message);
+	}
+
+	/// <summary>
+	/// Verifies that the RedisJobStore rejects an idempotency key that is already mapped to a job submitted with a different payload.
+	/// </summary>
+	[Fact]
+	public async Task CreateJobWithIdempotencyKey_KeyReusedWithDifferentPayload_ReturnsMismatch()
+	{
+		// Arrange
+		var now = DateTimeOffset.UtcNow;
+		var job = new Job(now) { Name = "TestJob", Payload = "{\"a\":1}" };
+		var idempotencyKey = JobIdempotencyKey.Create(job.Name, null, "key-1", job.Payload, job.Id, now.AddHours(1));
+		_mockRedisLuaScriptService.Setup(x => x.CreateJob(_mockDatabase.Object, job, It.IsAny<HashEntry[]>(), It.IsAny<double>(), idempotencyKey))
+			.ReturnsAsync(MethodResult<Guid?>.Failure(AsyncEndpointError.FromCode(AsyncEndpointsConstants.IdempotencyKeyMismatchErrorCode, "Idempotency key was already used with a different payload")));
+
+		// Act
+		var result = await _redisJobStore.CreateJobWithIdempotencyKey(job, idempotencyKey, default);
+
+		// Assert
+		Assert.False(result.IsSuccess);
+		Assert.Equal(AsyncEndpointsConstants.IdempotencyKeyMismatchErrorCode, result.Error.Code);
+	}
+
+	/// <summary>
+	/// Verifies that the RedisJobStore returns the existing job when the create script finds the idempotency key mapped to it.
+	/// </summary>
+	[Fact]
+	public async Task CreateJobWithIdempotencyKey_KeyMappedToExistingJob_ReturnsExistingJob()
+	{
+		// Arrange
+		var now = DateTimeOffset.UtcNow;
+		var job = new Job(now) { Name = "TestJob", Payload = "{\"a\":1}" };
+		var existingJob = new Job(now) { Name = "TestJob", Payload = job.Payload };
+		var existingHash = new[] { new HashEntry("Id", existingJob.Id.ToString()) };
+		var idempotencyKey = JobIdempotencyKey.Create(job.Name, null, "key-1", job.Payload, job.Id, now.AddHours(1));
+		_mockRedisLuaScriptService.Setup(x => x.CreateJob(_mockDatabase.Object, job, It.IsAny<HashEntry[]>(), It.IsAny<double>(), idempotencyKey))
+			.ReturnsAsync(MethodResult<Guid?>.Success(existingJob.Id));
+		_mockDatabase.Setup(db => db.HashGetAllAsync($"ae:job:{existingJob.Id}", It.IsAny<CommandFlags>())).ReturnsAsync(existingHash);
+		_mockJobHashConverter.Setup(x => x.ConvertFromHashEntries(existingHash)).Returns(existingJob);
+
+		// Act
+		var result = await _redisJobStore.CreateJobWithIdempotencyKey(job, idempotencyKey, default);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Same(existingJob, result.Data);
 	}
 
 	/// <summary>
@@ -199,18 +297,16 @@ public class RedisJobStoreTests
 		var mockMetrics = new Mock<IAsyncEndpointsObservability>();
 		var redisJobStore = new RedisJobStore(_mockLogger.Object, _mockDatabase.Object, mockDateTimeProvider.Object, _mockJobHashConverter.Object, _mockSerializer.Object, mockRedisLuaScriptService.Object, mockMetrics.Object);
 
-		_mockDatabase.Setup(db => db.KeyExistsAsync($"ae:job:{job.Id}", It.IsAny<CommandFlags>()))
-					 .ReturnsAsync(true);
 		_mockJobHashConverter.Setup(x => x.ConvertToHashEntries(It.IsAny<Job>())).Returns(hashEntries);
-		_mockDatabase.Setup(db => db.SortedSetRemoveAsync("ae:jobs:queue", job.Id.ToString(), It.IsAny<CommandFlags>()))
-					 .ReturnsAsync(true);
+		mockRedisLuaScriptService.Setup(x => x.UpdateJob(_mockDatabase.Object, job, hashEntries, It.IsAny<double>(), false, null))
+								 .ReturnsAsync(MethodResult<bool>.Success(true));
 
 		// Act
 		var result = await redisJobStore.UpdateJob(job, default);
 
 		// Assert
 		Assert.True(result.IsSuccess);
-		_mockDatabase.Verify(db => db.HashSetAsync($"ae:job:{job.Id}", hashEntries, CommandFlags.None), Times.Once);
+		mockRedisLuaScriptService.Verify(x => x.UpdateJob(_mockDatabase.Object, job, hashEntries, It.IsAny<double>(), false, null), Times.Once);
 	}
 
 	/// <summary>
@@ -232,14 +328,361 @@ public class RedisJobStoreTests
 			[],
 			AsyncEndpointsConstants.MaximumRetries,
 			mockDateTimeProvider.Object);
-		_mockDatabase.Setup(db => db.KeyExistsAsync($"ae:job:{job.Id}", It.IsAny<CommandFlags>()))
-					 .ReturnsAsync(false);
+
+		var mockRedisLuaScriptService = new Mock<IRedisLuaScriptService>();
+		var redisJobStore = new RedisJobStore(_mockLogger.Object, _mockDatabase.Object, mockDateTimeProvider.Object, _mockJobHashConverter.Object, _mockSerializer.Object, mockRedisLuaScriptService.Object, Mock.Of<IAsyncEndpointsObservability>());
+
+		_mockJobHashConverter.Setup(x => x.ConvertToHashEntries(It.IsAny<Job>())).Returns([]);
+		mockRedisLuaScriptService.Setup(x => x.UpdateJob(_mockDatabase.Object, job, It.IsAny<HashEntry[]>(), It.IsAny<double>(), false, null))
+								 .ReturnsAsync(MethodResult<bool>.Failure(AsyncEndpointError.FromCode("JOB_NOT_FOUND", $"Job with ID {job.Id} not found")));
 
 		// Act
-		var result = await _redisJobStore.UpdateJob(job, default);
+		var result = await redisJobStore.UpdateJob(job, default);
 
 		// Assert
 		Assert.False(result.IsSuccess);
+		Assert.Equal("JOB_NOT_FOUND", result.Error.Code);
 		Assert.Contains("not found", result.Error.Message);
 	}
+
+	/// <summary>
+	/// Verifies that updating a job with an expiry leaves the hash, the expiry and the index sets to the update script,
+	/// so that they are changed atomically instead of by separate commands.
+	/// </summary>
+	[Fact]
+	public async Task UpdateJob_JobWithExpiry_UpdatesJobInSingleScript()
+	{
+		// Arrange
+		var mockDateTimeProvider = new Mock<IDateTimeProvider>();
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(DateTimeOffset.UtcNow);
+		var job = Job.Create(
+			Guid.NewGuid(),
+			"TestJob",
+			"{}",
+			[],
+			[],
+			[],
+			AsyncEndpointsConstants.MaximumRetries,
+			mockDateTimeProvider.Object);
+		job.Status = JobStatus.Completed;
+		job.ExpiresAt = DateTimeOffset.UtcNow.AddHours(1);
+
+		var mockRedisLuaScriptService = new Mock<IRedisLuaScriptService>();
+		var redisJobStore = new RedisJobStore(_mockLogger.Object, _mockDatabase.Object, mockDateTimeProvider.Object, _mockJobHashConverter.Object, _mockSerializer.Object, mockRedisLuaScriptService.Object, Mock.Of<IAsyncEndpointsObservability>());
+
+		_mockJobHashConverter.Setup(x => x.ConvertToHashEntries(It.IsAny<Job>())).Returns([]);
+		mockRedisLuaScriptService.Setup(x => x.UpdateJob(_mockDatabase.Object, job, It.IsAny<HashEntry[]>(), It.IsAny<double>(), false, null))
+								 .ReturnsAsync(MethodResult<bool>.Success(true));
+
+		// Act
+		var result = await redisJobStore.UpdateJob(job, default);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		mockRedisLuaScriptService.Verify(x => x.UpdateJob(_mockDatabase.Object, It.Is<Job>(j => j.ExpiresAt == job.ExpiresAt), It.IsAny<HashEntry[]>(), It.IsAny<double>(), false, null), Times.Once);
+		_mockDatabase.Verify(db => db.HashSetAsync(It.IsAny<RedisKey>(), It.IsAny<HashEntry[]>(), It.IsAny<CommandFlags>()), Times.Never);
+		_mockDatabase.Verify(db => db.SortedSetAddAsync(It.IsAny<RedisKey>(), It.IsAny<RedisValue>(), It.IsAny<double>(), It.IsAny<SortedSetWhen>(), It.IsAny<CommandFlags>()), Times.Never);
+		_mockDatabase.Verify(db => db.SortedSetRemoveAsync(It.IsAny<RedisKey>(), It.IsAny<RedisValue>(), It.IsAny<CommandFlags>()), Times.Never);
+		_mockDatabase.Verify(db => db.KeyExpireAsync(It.IsAny<RedisKey>(), It.IsAny<DateTime?>(), It.IsAny<ExpireWhen>(), It.IsAny<CommandFlags>()), Times.Never);
+	}
+
+	/// <summary>
+	/// Verifies that deleting a job removes its hash and its entries in the queue and index sets.
+	/// </summary>
+	[Fact]
+	public async Task DeleteJob_ExistingJob_DeletesKeyAndIndexEntries()
+	{
+		// Arrange
+		var jobId = Guid.NewGuid();
+		_mockDatabase.Setup(db => db.HashGetAsync($"ae:job:{jobId}", "Name", It.IsAny<CommandFlags>()))
+					 .ReturnsAsync("export-report");
+
+		// Act
+		var result = await _redisJobStore.DeleteJob(jobId, default);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		_mockDatabase.Verify(db => db.KeyDeleteAsync($"ae:job:{jobId}", It.IsAny<CommandFlags>()), Times.Once);
+		_mockDatabase.Verify(db => db.SortedSetRemoveAsync("ae:jobs:queue", jobId.ToString(), It.IsAny<CommandFlags>()), Times.Once);
+		_mockDatabase.Verify(db => db.SortedSetRemoveAsync("ae:jobs:index:created", jobId.ToString(), It.IsAny<CommandFlags>()), Times.Once);
+		_mockDatabase.Verify(db => db.SortedSetRemoveAsync("ae:jobs:index:name:export-report", jobId.ToString(), It.IsAny<CommandFlags>()), Times.Once);
+		_mockDatabase.Verify(db => db.SortedSetRemoveAsync("ae:jobs:index:expiry", $"{jobId}:export-report", It.IsAny<CommandFlags>()), Times.Once);
+	}
+
+	/// <summary>
+	/// Verifies that deleting a job that does not exist returns a JOB_NOT_FOUND error without touching the index sets.
+	/// </summary>
+	[Fact]
+	public async Task DeleteJob_NonExistingJob_ReturnsFailure()
+	{
+		// Arrange
+		var jobId = Guid.NewGuid();
+		_mockDatabase.Setup(db => db.HashGetAsync($"ae:job:{jobId}", "Name", It.IsAny<CommandFlags>()))
+					 .ReturnsAsync(RedisValue.Null);
+
+		// Act
+		var result = await _redisJobStore.DeleteJob(jobId, default);
+
+		// Assert
+		Assert.False(result.IsSuccess);
+		Assert.Equal("JOB_NOT_FOUND", result.Error.Code);
+		_mockDatabase.Verify(db => db.SortedSetRemoveAsync(It.IsAny<RedisKey>(), It.IsAny<RedisValue>(), It.IsAny<CommandFlags>()), Times.Never);
+	}
+
+	/// <summary>
+	/// Verifies that jobs found in the expiry index are removed from the index sets, including jobs whose hash Redis already evicted.
+	/// </summary>
+	[Fact]
+	public async Task DeleteExpiredJobs_RemovesExpiredJobsFromIndexes()
+	{
+		// Arrange
+		var firstJobId = Guid.NewGuid();
+		var secondJobId = Guid.NewGuid();
+		var workerId = Guid.NewGuid();
+		_mockDatabase.Setup(db => db.SortedSetRangeByScoreAsync("ae:jobs:index:expiry", double.NegativeInfinity, It.IsAny<double>(), It.IsAny<Exclude>(), It.IsAny<Order>(), It.IsAny<long>(), 50, It.IsAny<CommandFlags>()))
+					 .ReturnsAsync([$"{firstJobId}:export-report", $"{secondJobId}:tenant:cleanup"]);
+		_mockDatabase.Setup(db => db.HashGetAsync("ae:jobs:index:workerids", firstJobId.ToString(), It.IsAny<CommandFlags>()))
+					 .ReturnsAsync(workerId.ToString());
+
+		// Act
+		var result = await _redisJobStore.DeleteExpiredJobs(50, default);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Equal(2, result.Data);
+		_mockDatabase.Verify(db => db.KeyDeleteAsync($"ae:job:{firstJobId}", It.IsAny<CommandFlags>()), Times.Once);
+		_mockDatabase.Verify(db => db.SortedSetRemoveAsync("ae:jobs:index:name:export-report", firstJobId.ToString(), It.IsAny<CommandFlags>()), Times.Once);
+		_mockDatabase.Verify(db => db.SortedSetRemoveAsync("ae:jobs:index:name:tenant:cleanup", secondJobId.ToString(), It.IsAny<CommandFlags>()), Times.Once);
+		_mockDatabase.Verify(db => db.SortedSetRemoveAsync("ae:jobs:index:expiry", $"{secondJobId}:tenant:cleanup", It.IsAny<CommandFlags>()), Times.Once);
+		_mockDatabase.Verify(db => db.SortedSetRemoveAsync("ae:jobs:index:completed", firstJobId.ToString(), It.IsAny<CommandFlags>()), Times.Once);
+		_mockDatabase.Verify(db => db.SortedSetRemoveAsync($"ae:jobs:index:worker:{workerId}", firstJobId.ToString(), It.IsAny<CommandFlags>()), Times.Once);
+		_mockDatabase.Verify(db => db.HashDeleteAsync("ae:jobs:index:workerids", firstJobId.ToString(), It.IsAny<CommandFlags>()), Times.Once);
+	}
+
+	/// <summary>
+	/// Verifies that the RedisJobStore returns the canceled job after the cancel script succeeds.
+	/// This test ensures the worker assignment is available to notify the worker processing the job.
+	/// </summary>
+	[Fact]
+	public async Task CancelJob_CancelableJob_ReturnsCanceledJob()
+	{
+		// Arrange
+		var workerId = Guid.NewGuid();
+		var job = new Job { Name = "TestJob", Status = JobStatus.Canceled, WorkerId = workerId };
+		var hashEntries = new[] { new HashEntry("Id", job.Id.ToString()) };
+
+		var mockRedisLuaScriptService = new Mock<IRedisLuaScriptService>();
+		var redisJobStore = new RedisJobStore(_mockLogger.Object, _mockDatabase.Object, Mock.Of<IDateTimeProvider>(), _mockJobHashConverter.Object, _mockSerializer.Object, mockRedisLuaScriptService.Object, Mock.Of<IAsyncEndpointsObservability>());
+
+		mockRedisLuaScriptService.Setup(x => x.CancelJob(_mockDatabase.Object, job.Id))
+								 .ReturnsAsync(MethodResult.Success());
+		_mockDatabase.Setup(db => db.HashGetAllAsync($"ae:job:{job.Id}", It.IsAny<CommandFlags>()))
+					 .ReturnsAsync(hashEntries);
+		_mockJobHashConverter.Setup(x => x.ConvertFromHashEntries(hashEntries)).Returns(job);
+
+		// Act
+		var result = await redisJobStore.CancelJob(job.Id, default);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Equal(JobStatus.Canceled, result.Data.Status);
+		Assert.Equal(workerId, result.Data.WorkerId);
+	}
+
+	/// <summary>
+	/// Verifies that the RedisJobStore propagates the failure returned by the cancel script.
+	/// This test ensures finished jobs are reported as not cancelable.
+	/// </summary>
+	[Fact]
+	public async Task CancelJob_NotCancelableJob_ReturnsFailure()
+	{
+		// Arrange
+		var jobId = Guid.NewGuid();
+		var mockRedisLuaScriptService = new Mock<IRedisLuaScriptService>();
+		var redisJobStore = new RedisJobStore(_mockLogger.Object, _mockDatabase.Object, Mock.Of<IDateTimeProvider>(), _mockJobHashConverter.Object, _mockSerializer.Object, mockRedisLuaScriptService.Object, Mock.Of<IAsyncEndpointsObservability>());
+
+		mockRedisLuaScriptService.Setup(x => x.CancelJob(_mockDatabase.Object, jobId))
+								 .ReturnsAsync(MethodResult.Failure(AsyncEndpointError.FromCode("JOB_NOT_CANCELABLE", "Job cannot be canceled")));
+
+		// Act
+		var result = await redisJobStore.CancelJob(jobId, default);
+
+		// Assert
+		Assert.False(result.IsSuccess);
+		Assert.Equal("JOB_NOT_CANCELABLE", result.Error.Code);
+		_mockDatabase.Verify(db => db.HashGetAllAsync(It.IsAny<RedisKey>(), It.IsAny<CommandFlags>()), Times.Never);
+	}
+
+	/// <summary>
+	/// Verifies that the RedisJobStore returns the requeued job after the requeue script succeeds.
+	/// This test ensures the reset retry flag is passed on to the script.
+	/// </summary>
+	[Fact]
+	public async Task RequeueJob_FailedJob_ReturnsQueuedJob()
+	{
+		// Arrange
+		var job = new Job { Name = "TestJob", Status = JobStatus.Queued };
+		var hashEntries = new[] { new HashEntry("Id", job.Id.ToString()) };
+
+		var mockRedisLuaScriptService = new Mock<IRedisLuaScriptService>();
+		var redisJobStore = new RedisJobStore(_mockLogger.Object, _mockDatabase.Object, Mock.Of<IDateTimeProvider>(), _mockJobHashConverter.Object, _mockSerializer.Object, mockRedisLuaScriptService.Object, Mock.Of<IAsyncEndpointsObservability>());
+
+		mockRedisLuaScriptService.Setup(x => x.RequeueJob(_mockDatabase.Object, job.Id, true))
+								 .ReturnsAsync(MethodResult.Success());
+		_mockDatabase.Setup(db => db.HashGetAllAsync($"ae:job:{job.Id}", It.IsAny<CommandFlags>()))
+					 .ReturnsAsync(hashEntries);
+		_mockJobHashConverter.Setup(x => x.ConvertFromHashEntries(hashEntries)).Returns(job);
+
+		// Act
+		var result = await redisJobStore.RequeueJob(job.Id, true, default);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Equal(JobStatus.Queued, result.Data.Status);
+		mockRedisLuaScriptService.Verify(x => x.RequeueJob(_mockDatabase.Object, job.Id, true), Times.Once);
+	}
+
+	/// <summary>
+	/// Verifies that the RedisJobStore stores job progress through the progress script instead of rewriting the whole job hash.
+	/// This test ensures progress updates cannot overwrite concurrent status changes such as cancellations.
+	/// </summary>
+	[Fact]
+	public async Task UpdateJobProgress_StoresSerializedProgressThroughScript()
+	{
+		// Arrange
+		var jobId = Guid.NewGuid();
+		var progress = new JobProgress { PercentComplete = 40, Message = "Imported 40000 rows" };
+		var mockRedisLuaScriptService = new Mock<IRedisLuaScriptService>();
+		var redisJobStore = new RedisJobStore(_mockLogger.Object, _mockDatabase.Object, Mock.Of<IDateTimeProvider>(), _mockJobHashConverter.Object, _mockSerializer.Object, mockRedisLuaScriptService.Object, Mock.Of<IAsyncEndpointsObservability>());
+
+		_mockSerializer.Setup(x => x.Serialize(progress, null)).Returns("serialized-progress");
+		mockRedisLuaScriptService.Setup(x => x.UpdateJobProgress(_mockDatabase.Object, jobId, "serialized-progress"))
+								 .ReturnsAsync(MethodResult.Success());
+
+		// Act
+		var result = await redisJobStore.UpdateJobProgress(jobId, progress, default);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		mockRedisLuaScriptService.Verify(x => x.UpdateJobProgress(_mockDatabase.Object, jobId, "serialized-progress"), Times.Once);
+		_mockDatabase.Verify(db => db.HashSetAsync(It.IsAny<RedisKey>(), It.IsAny<HashEntry[]>(), It.IsAny<CommandFlags>()), Times.Never);
+	}
+
+	/// <summary>
+	/// Verifies that the RedisJobStore stores a job callback through the callback script instead of rewriting the whole job hash.
+	/// This test ensures callback delivery status updates cannot overwrite concurrent changes of the job.
+	/// </summary>
+	[Fact]
+	public async Task UpdateJobCallback_StoresSerializedCallbackThroughScript()
+	{
+		// Arrange
+		var jobId = Guid.NewGuid();
+		var callback = new JobCallback { Url = "https://receiver.example.com/callbacks", Status = JobCallbackStatus.Delivered };
+		var mockRedisLuaScriptService = new Mock<IRedisLuaScriptService>();
+		var redisJobStore = new RedisJobStore(_mockLogger.Object, _mockDatabase.Object, Mock.Of<IDateTimeProvider>(), _mockJobHashConverter.Object, _mockSerializer.Object, mockRedisLuaScriptService.Object, Mock.Of<IAsyncEndpointsObservability>());
+
+		_mockSerializer.Setup(x => x.Serialize(callback, null)).Returns("serialized-callback");
+		mockRedisLuaScriptService.Setup(x => x.UpdateJobCallback(_mockDatabase.Object, jobId, "serialized-callback"))
+								 .ReturnsAsync(MethodResult.Success());
+
+		// Act
+		var result = await redisJobStore.UpdateJobCallback(jobId, callback, default);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		mockRedisLuaScriptService.Verify(x => x.UpdateJobCallback(_mockDatabase.Object, jobId, "serialized-callback"), Times.Once);
+		_mockDatabase.Verify(db => db.HashSetAsync(It.IsAny<RedisKey>(), It.IsAny<HashEntry[]>(), It.IsAny<CommandFlags>()), Times.Never);
+	}
+
+	/// <summary>
+	/// Verifies that the RedisJobStore queries jobs through the name index and applies the remaining filters to the loaded jobs.
+	/// This test ensures job queries use secondary indexes instead of scanning keys.
+	/// </summary>
+	[Fact]
+	public async Task QueryJobs_ByName_UsesNameIndexAndFiltersJobs()
+	{
+		// Arrange
+		var failedJob = new Job { Name = "export-report", Status = JobStatus.Failed };
+		var completedJob = new Job { Name = "export-report", Status = JobStatus.Completed };
+		var failedHash = new[] { new HashEntry("Id", failedJob.Id.ToString()) };
+		var completedHash = new[] { new HashEntry("Id", completedJob.Id.ToString()) };
+
+		_mockDatabase.Setup(db => db.SortedSetRangeByScoreWithScoresAsync("ae:jobs:index:name:export-report", It.IsAny<double>(), It.IsAny<double>(), Exclude.None, Order.Descending, 0, It.IsAny<long>(), It.IsAny<CommandFlags>()))
+					 .ReturnsAsync(
+					 [
+						 new SortedSetEntry(failedJob.Id.ToString(), failedJob.CreatedAt.ToUnixTimeMilliseconds()),
+						 new SortedSetEntry(completedJob.Id.ToString(), completedJob.CreatedAt.ToUnixTimeMilliseconds())
+					 ]);
+		_mockDatabase.Setup(db => db.HashGetAllAsync($"ae:job:{failedJob.Id}", It.IsAny<CommandFlags>())).ReturnsAsync(failedHash);
+		_mockDatabase.Setup(db => db.HashGetAllAsync($"ae:job:{completedJob.Id}", It.IsAny<CommandFlags>())).ReturnsAsync(completedHash);
+		_mockJobHashConverter.Setup(x => x.ConvertFromHashEntries(failedHash)).Returns(failedJob);
+		_mockJobHashConverter.Setup(x => x.ConvertFromHashEntries(completedHash)).Returns(completedJob);
+
+		// Act
+		var result = await _redisJobStore.QueryJobs(new JobQuery { Name = "export-report", Status = JobStatus.Failed }, default);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		var job = Assert.Single(result.Data.Jobs);
+		Assert.Equal(failedJob.Id, job.Id);
+		Assert.Null(result.Data.NextCursor);
+	}
+
+	/// <summary>
+	/// Verifies that the RedisJobStore queries the jobs of a worker through the worker index.
+	/// </summary>
+	[Fact]
+	public async Task QueryJobs_ByWorker_UsesWorkerIndex()
+	{
+		// Arrange
+		var workerId = Guid.NewGuid();
+		var job = new Job { Name = "export-report", Status = JobStatus.Completed, WorkerId = workerId };
+		var hash = new[] { new HashEntry("Id", job.Id.ToString()) };
+
+		_mockDatabase.Setup(db => db.SortedSetRangeByScoreWithScoresAsync($"ae:jobs:index:worker:{workerId}", It.IsAny<double>(), It.IsAny<double>(), Exclude.None, Order.Descending, 0, It.IsAny<long>(), It.IsAny<CommandFlags>()))
+					 .ReturnsAsync([new SortedSetEntry(job.Id.ToString(), job.CreatedAt.ToUnixTimeMilliseconds())]);
+		_mockDatabase.Setup(db => db.HashGetAllAsync($"ae:job:{job.Id}", It.IsAny<CommandFlags>())).ReturnsAsync(hash);
+		_mockJobHashConverter.Setup(x => x.ConvertFromHashEntries(hash)).Returns(job);
+
+		// Act
+		var result = await _redisJobStore.QueryJobs(new JobQuery { Name = "export-report", WorkerId = workerId }, default);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Equal(job.Id, Assert.Single(result.Data.Jobs).Id);
+		_mockDatabase.Verify(db => db.SortedSetRangeByScoreWithScoresAsync("ae:jobs:index:name:export-report", It.IsAny<double>(), It.IsAny<double>(), It.IsAny<Exclude>(), It.IsAny<Order>(), It.IsAny<long>(), It.IsAny<long>(), It.IsAny<CommandFlags>()), Times.Never);
+	}
+
+	/// <summary>
+	/// Verifies that the RedisJobStore finds jobs completed in a range through the completed index
+	/// and returns them newest created first, like the other indexes.
+	/// </summary>
+	[Fact]
+	public async Task QueryJobs_ByCompletionRange_UsesCompletedIndexAndOrdersByCreationTime()
+	{
+		// Arrange
+		var now = DateTimeOffset.UtcNow;
+		var olderJob = new Job { Name = "export-report", Status = JobStatus.Completed, CreatedAt = now.AddMinutes(-10), CompletedAt = now.AddMinutes(-1) };
+		var newerJob = new Job { Name = "export-report", Status = JobStatus.Completed, CreatedAt = now.AddMinutes(-5), CompletedAt = now.AddMinutes(-2) };
+		var olderHash = new[] { new HashEntry("Id", olderJob.Id.ToString()) };
+		var newerHash = new[] { new HashEntry("Id", newerJob.Id.ToString()) };
+		var completedFrom = now.AddMinutes(-3);
+
+		_mockDatabase.Setup(db => db.SortedSetRangeByScoreAsync("ae:jobs:index:completed", completedFrom.ToUnixTimeMilliseconds(), double.PositiveInfinity, It.IsAny<Exclude>(), It.IsAny<Order>(), It.IsAny<long>(), It.IsAny<long>(), It.IsAny<CommandFlags>()))
+					 .ReturnsAsync([olderJob.Id.ToString(), newerJob.Id.ToString()]);
+		_mockDatabase.Setup(db => db.SortedSetScoresAsync("ae:jobs:index:created", It.IsAny<RedisValue[]>(), It.IsAny<CommandFlags>()))
+					 .ReturnsAsync([olderJob.CreatedAt.ToUnixTimeMilliseconds(), newerJob.CreatedAt.ToUnixTimeMilliseconds()]);
+		_mockDatabase.Setup(db => db.HashGetAllAsync($"ae:job:{olderJob.Id}", It.IsAny<CommandFlags>())).ReturnsAsync(olderHash);
+		_mockDatabase.Setup(db => db.HashGetAllAsync($"ae:job:{newerJob.Id}", It.IsAny<CommandFlags>())).ReturnsAsync(newerHash);
+		_mockJobHashConverter.Setup(x => x.ConvertFromHashEntries(olderHash)).Returns(olderJob);
+		_mockJobHashConverter.Setup(x => x.ConvertFromHashEntries(newerHash)).Returns(newerJob);
+
+		// Act
+		var result = await _redisJobStore.QueryJobs(new JobQuery { Status = JobStatus.Completed, CompletedFrom = completedFrom }, default);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Equal(new[] { newerJob.Id, olderJob.Id }, result.Data.Jobs.Select(job => job.Id));
+		_mockDatabase.Verify(db => db.SortedSetRangeByScoreWithScoresAsync(It.IsAny<RedisKey>(), It.IsAny<double>(), It.IsAny<double>(), It.IsAny<Exclude>(), It.IsAny<Order>(), It.IsAny<long>(), It.IsAny<long>(), It.IsAny<CommandFlags>()), Times.Never);
+	}
 }
@@ -1,5 +1,6 @@
 using AsyncEndpoints.Configuration;
 using AsyncEndpoints.UnitTests.TestSupport;
+using AsyncEndpoints.Utilities;
 
 namespace AsyncEndpoints.UnitTests;
 
@@ -95,4 +96,130 @@ public class AsyncEndpointsWorkerConfigurationsTests
 		Assert.Equal(batchSize, config.BatchSize);
 		Assert.Equal(maximumQueueSize, config.MaximumQueueSize);
 	}
+
+	/// <summary>
+	/// Verifies that a timeout registered for a job name replaces the global job timeout, and that a global timeout of 0 disables it.
+	/// </summary>
+	[Fact]
+	public void GetJobTimeout_PrefersJobNameTimeout_OverGlobalTimeout()
+	{
+		// Arrange
+		var config = new AsyncEndpointsWorkerConfigurations { JobTimeoutMinutes = 0 };
+		config.JobTimeouts["SlowJob"] = TimeSpan.FromHours(2);
+
+		// Act & Assert
+		Assert.Equal(TimeSpan.FromHours(2), config.GetJobTimeout("SlowJob"));
+		Assert.Null(config.GetJobTimeout("OtherJob"));
+
+		config.JobTimeoutMinutes = 30;
+		Assert.Equal(TimeSpan.FromMinutes(30), config.GetJobTimeout("OtherJob"));
+	}
+
+	/// <summary>
+	/// Verifies that every consumed queue is tried once per claim, and that queues with a higher weight are usually tried first.
+	/// </summary>
+	[Fact]
+	public void GetQueueClaimOrder_OrdersQueuesByWeight()
+	{
+		// Arrange
+		var config = new AsyncEndpointsWorkerConfigurations();
+		config.Queues["critical"] = 9;
+		config.Queues["bulk"] = 1;
+		var random = new Random(42);
+
+		// Act
+		var claimOrders = Enumerable.Range(0, 1000).Select(_ => config.GetQueueClaimOrder(random)).ToList();
+
+		// Assert
+		Assert.All(claimOrders, claimOrder => Assert.Equal(new[] { "bulk", "critical" }, claimOrder.Order()));
+		Assert.InRange(claimOrders.Count(claimOrder => claimOrder[0] == "critical"), 850, 950);
+		Assert.Empty(new AsyncEndpointsWorkerConfigurations().GetQueueClaimOrder(random));
+	}
+}
+
+public class AsyncEndpointsJobManagerConfigurationsTests
+{
+	/// <summary>
+	/// Verifies that jobs without a retry policy keep the default exponential backoff and maximum retries.
+	/// </summary>
+	[Fact]
+	public void GetRetryDelay_UsesExponentialBackoff_WhenNoRetryPolicyRegistered()
+	{
+		// Arrange
+		var config = new AsyncEndpointsJobManagerConfigurations { RetryDelayBaseSeconds = 2.0 };
+
+		// Act
+		var delay = config.GetRetryDelay("TestJob", 3, 0.5);
+
+		// Assert
+		Assert.Equal(TimeSpan.FromSeconds(16), delay);
+		Assert.Equal(AsyncEndpointsConstants.MaximumRetries, config.GetMaxRetries("TestJob"));
+	}
+
+	/// <summary>
+	/// Verifies that the backoff type of a retry policy decides how the delay grows, and that the maximum delay caps it.
+	/// </summary>
+	[Theory]
+	[InlineData(RetryBackoffType.Fixed, 4, 5)]
+	[InlineData(RetryBackoffType.Linear, 4, 20)]
+	[InlineData(RetryBackoffType.Exponential, 4, 60)]
+	public void GetRetryDelay_AppliesBackoffTypeAndMaximumDelay(RetryBackoffType backoffType, int retryCount, double expectedSeconds)
+	{
+		// Arrange
+		var config = new AsyncEndpointsJobManagerConfigurations();
+		config.RetryPolicies["TestJob"] = new AsyncEndpointsRetryPolicy
+		{
+			BackoffType = backoffType,
+			BaseDelaySeconds = 5,
+			MaxDelaySeconds = 60
+		};
+
+		// Act
+		var delay = config.GetRetryDelay("TestJob", retryCount, 0);
+
+		// Assert
+		Assert.Equal(TimeSpan.FromSeconds(expectedSeconds), delay);
+	}
+
+	/// <summary>
+	/// Verifies that jitter takes up to the configured fraction off the retry delay.
+	/// </summary>
+	[Fact]
+	public void GetRetryDelay_TakesJitterOffDelay()
+	{
+		// Arrange
+		var config = new AsyncEndpointsJobManagerConfigurations();
+		config.RetryPolicies["TestJob"] = new AsyncEndpointsRetryPolicy
+		{
+			BackoffType = RetryBackoffType.Fixed,
+			BaseDelaySeconds = 10,
+			JitterFactor = 0.5
+		};
+
+		// Act
+		var minimumDelay = config.GetRetryDelay("TestJob", 1, 1);
+		var maximumDelay = config.GetRetryDelay("TestJob", 1, 0);
+
+		// Assert
+		Assert.Equal(TimeSpan.FromSeconds(5), minimumDelay);
+		Assert.Equal(TimeSpan.FromSeconds(10), maximumDelay);
+	}
+
+	/// <summary>
+	/// Verifies that error codes are non-retryable when listed globally or in the retry policy of the job name only.
+	/// </summary>
+	[Fact]
+	public void IsRetryable_ReturnsFalse_ForNonRetryableErrorCodes()
+	{
+		// Arrange
+		var config = new AsyncEndpointsJobManagerConfigurations();
+		config.NonRetryableErrorCodes.Add("UNAUTHORIZED");
+		config.RetryPolicies["TestJob"] = new AsyncEndpointsRetryPolicy { NonRetryableErrorCodes = ["VALIDATION_FAILED"] };
+
+		// Act & Assert
+		Assert.False(config.IsRetryable("TestJob", AsyncEndpointError.FromCode("VALIDATION_FAILED", "Invalid request")));
+		Assert.False(config.IsRetryable("OtherJob", AsyncEndpointError.FromCode("UNAUTHORIZED", "Unauthorized")));
+		Assert.True(config.IsRetryable("OtherJob", AsyncEndpointError.FromCode("VALIDATION_FAILED", "Invalid request")));
+		Assert.True(config.IsRetryable("TestJob", AsyncEndpointError.FromCode("TIMEOUT", "Timed out")));
+	}
 }
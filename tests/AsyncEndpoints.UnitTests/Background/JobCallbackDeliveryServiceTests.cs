@@ -0,0 +1,183 @@
+using AsyncEndpoints.Background;
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.Infrastructure;
+using AsyncEndpoints.Infrastructure.Callbacks;
+using AsyncEndpoints.JobProcessing;
+using AsyncEndpoints.UnitTests.TestSupport;
+using AsyncEndpoints.Utilities;
+using AutoFixture.Xunit2;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+using Moq;
+
+namespace AsyncEndpoints.UnitTests.Background;
+
+public class JobCallbackDeliveryServiceTests
+{
+	/// <summary>
+	/// Verifies that a successful delivery marks the callback as delivered and stores only the callback of the job,
+	/// so changes made to the job during the delivery are kept.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task DeliverAsync_MarksCallbackDelivered_WhenSendSucceeds(
+		[Frozen] Mock<ILogger<JobCallbackDeliveryService>> mockLogger,
+		Mock<IJobCallbackSender> mockJobCallbackSender,
+		Mock<IJobStore> mockJobStore,
+		Mock<IDateTimeProvider> mockDateTimeProvider,
+		Job job)
+	{
+		// Arrange
+		var now = DateTimeOffset.UtcNow;
+		job.Callback = new JobCallback { Url = "https://receiver.example.com/callbacks" };
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(now);
+		mockJobStore
+			.Setup(x => x.GetJobById(job.Id, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(job));
+		mockJobStore
+			.Setup(x => x.UpdateJobCallback(job.Id, It.IsAny<JobCallback>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Success());
+		mockJobCallbackSender
+			.Setup(x => x.SendAsync(job, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Success());
+
+		var service = CreateService(mockLogger, mockJobCallbackSender, mockJobStore, mockDateTimeProvider, new AsyncEndpointsConfigurations());
+
+		// Act
+		await service.DeliverAsync(job.Id, CancellationToken.None);
+
+		// Assert
+		Assert.Equal(JobCallbackStatus.Delivered, job.Callback.Status);
+		Assert.Equal(1, job.Callback.Attempts);
+		Assert.Equal(now, job.Callback.DeliveredAt);
+		mockJobStore.Verify(x => x.UpdateJobCallback(job.Id, job.Callback, It.IsAny<CancellationToken>()), Times.Once);
+		mockJobStore.Verify(x => x.UpdateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()), Times.Never);
+	}
+
+	/// <summary>
+	/// Verifies that failed deliveries are retried until the maximum number of attempts is reached,
+	/// after which the callback is marked as failed with the last error recorded.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task DeliverAsync_MarksCallbackFailed_WhenMaximumAttemptsReached(
+		[Frozen] Mock<ILogger<JobCallbackDeliveryService>> mockLogger,
+		Mock<IJobCallbackSender> mockJobCallbackSender,
+		Mock<IJobStore> mockJobStore,
+		Mock<IDateTimeProvider> mockDateTimeProvider,
+		Job job)
+	{
+		// Arrange
+		var configurations = new AsyncEndpointsConfigurations();
+		configurations.CallbackConfigurations.MaximumAttempts = 3;
+		configurations.CallbackConfigurations.RetryDelayBaseSeconds = 0;
+
+		job.Callback = new JobCallback { Url = "https://receiver.example.com/callbacks" };
+		mockJobStore
+			.Setup(x => x.GetJobById(job.Id, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(job));
+		mockJobStore
+			.Setup(x => x.UpdateJobCallback(job.Id, It.IsAny<JobCallback>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Success());
+		mockJobCallbackSender
+			.Setup(x => x.SendAsync(job, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Failure("Receiver unavailable"));
+
+		var service = CreateService(mockLogger, mockJobCallbackSender, mockJobStore, mockDateTimeProvider, configurations);
+
+		// Act
+		await service.DeliverAsync(job.Id, CancellationToken.None);
+
+		// Assert
+		Assert.Equal(JobCallbackStatus.Failed, job.Callback.Status);
+		Assert.Equal(3, job.Callback.Attempts);
+		Assert.Equal("Receiver unavailable", job.Callback.LastError);
+		mockJobCallbackSender.Verify(x => x.SendAsync(job, It.IsAny<CancellationToken>()), Times.Exactly(3));
+		mockJobStore.Verify(x => x.UpdateJobCallback(job.Id, job.Callback, It.IsAny<CancellationToken>()), Times.Exactly(3));
+	}
+
+	/// <summary>
+	/// Verifies that a callback that was already delivered is not sent again.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task DeliverAsync_SkipsDelivery_WhenCallbackAlreadyDelivered(
+		[Frozen] Mock<ILogger<JobCallbackDeliveryService>> mockLogger,
+		Mock<IJobCallbackSender> mockJobCallbackSender,
+		Mock<IJobStore> mockJobStore,
+		Mock<IDateTimeProvider> mockDateTimeProvider,
+		Job job)
+	{
+		// Arrange
+		job.Callback = new JobCallback { Url = "https://receiver.example.com/callbacks", Status = JobCallbackStatus.Delivered };
+		mockJobStore
+			.Setup(x => x.GetJobById(job.Id, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(job));
+
+		var service = CreateService(mockLogger, mockJobCallbackSender, mockJobStore, mockDateTimeProvider, new AsyncEndpointsConfigurations());
+
+		// Act
+		await service.DeliverAsync(job.Id, CancellationToken.None);
+
+		// Assert
+		mockJobCallbackSender.Verify(x => x.SendAsync(It.IsAny<Job>(), It.IsAny<CancellationToken>()), Times.Never);
+		mockJobStore.Verify(x => x.UpdateJobCallback(It.IsAny<Guid>(), It.IsAny<JobCallback>(), It.IsAny<CancellationToken>()), Times.Never);
+	}
+
+	/// <summary>
+	/// Verifies that the sweep resumes the delivery of a pending callback that stalled, but leaves callbacks
+	/// of jobs that just finished to the instance that finished them.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task SweepPendingCallbacksAsync_DeliversStalledCallbacks_AndSkipsRecentOnes(
+		[Frozen] Mock<ILogger<JobCallbackDeliveryService>> mockLogger,
+		Mock<IJobCallbackSender> mockJobCallbackSender,
+		Mock<IJobStore> mockJobStore,
+		Mock<IDateTimeProvider> mockDateTimeProvider,
+		Job stalledJob,
+		Job recentJob)
+	{
+		// Arrange
+		var now = DateTimeOffset.UtcNow;
+		stalledJob.Status = JobStatus.Failed;
+		stalledJob.CompletedAt = now.AddMinutes(-10);
+		stalledJob.Callback = new JobCallback { Url = "https://receiver.example.com/callbacks" };
+		recentJob.Status = JobStatus.Failed;
+		recentJob.CompletedAt = now;
+		recentJob.Callback = new JobCallback { Url = "https://receiver.example.com/callbacks" };
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(now);
+		mockJobStore
+			.Setup(x => x.QueryJobs(It.IsAny<JobQuery>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync((JobQuery query, CancellationToken _) => MethodResult<JobQueryResult>.Success(
+				new JobQueryResult(query.Status == JobStatus.Failed ? [stalledJob, recentJob] : [], null)));
+		mockJobStore
+			.Setup(x => x.GetJobById(stalledJob.Id, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(stalledJob));
+		var delivered = new TaskCompletionSource();
+		mockJobStore
+			.Setup(x => x.UpdateJobCallback(stalledJob.Id, It.IsAny<JobCallback>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Success())
+			.Callback(() => delivered.TrySetResult());
+		mockJobCallbackSender
+			.Setup(x => x.SendAsync(It.IsAny<Job>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Success());
+
+		var service = CreateService(mockLogger, mockJobCallbackSender, mockJobStore, mockDateTimeProvider, new AsyncEndpointsConfigurations());
+
+		// Act
+		var startedCount = await service.SweepPendingCallbacksAsync(CancellationToken.None);
+		await delivered.Task.WaitAsync(TimeSpan.FromSeconds(5));
+
+		// Assert
+		Assert.Equal(1, startedCount);
+		Assert.Equal(JobCallbackStatus.Delivered, stalledJob.Callback.Status);
+		mockJobCallbackSender.Verify(x => x.SendAsync(stalledJob, It.IsAny<CancellationToken>()), Times.Once);
+		mockJobCallbackSender.Verify(x => x.SendAsync(recentJob, It.IsAny<CancellationToken>()), Times.Never);
+		mockJobStore.Verify(x => x.QueryJobs(It.Is<JobQuery>(query => query.CompletedFrom == now.AddDays(-1)), It.IsAny<CancellationToken>()), Times.Exactly(3));
+	}
+
+	private static JobCallbackDeliveryService CreateService(
+		Mock<ILogger<JobCallbackDeliveryService>> mockLogger,
+		Mock<IJobCallbackSender> mockJobCallbackSender,
+		Mock<IJobStore> mockJobStore,
+		Mock<IDateTimeProvider> mockDateTimeProvider,
+		AsyncEndpointsConfigurations configurations) =>
+		new(mockLogger.Object, Options.Create(configurations), new JobCallbackQueue(), mockJobCallbackSender.Object, mockJobStore.Object, mockDateTimeProvider.Object);
+}
@@ -0,0 +1,140 @@
+using AsyncEndpoints.Background;
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.Infrastructure;
+using AsyncEndpoints.UnitTests.TestSupport;
+using Moq;
+
+namespace AsyncEndpoints.UnitTests.Background;
+
+public class JobCancellationRegistryTests
+{
+	/// <summary>
+	/// Verifies that requesting cancellation of a running job cancels the token handed to its handler.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public void RequestCancellation_CancelsToken_WhenJobIsRunning(
+		Mock<IDateTimeProvider> mockDateTimeProvider,
+		Guid jobId)
+	{
+		// Arrange
+		var registry = new JobCancellationRegistry(mockDateTimeProvider.Object);
+		using var scope = registry.Register(jobId, CancellationToken.None);
+
+		// Act
+		registry.RequestCancellation(jobId);
+
+		// Assert
+		Assert.True(scope.Token.IsCancellationRequested);
+		Assert.True(scope.IsJobCanceled);
+	}
+
+	/// <summary>
+	/// Verifies that a cancellation requested before the job starts processing is applied once the job is registered.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public void Register_ReturnsCanceledScope_WhenCancellationRequestedBeforehand(
+		Mock<IDateTimeProvider> mockDateTimeProvider,
+		Guid jobId)
+	{
+		// Arrange
+		var registry = new JobCancellationRegistry(mockDateTimeProvider.Object);
+		registry.RequestCancellation(jobId);
+
+		// Act
+		using var scope = registry.Register(jobId, CancellationToken.None);
+
+		// Assert
+		Assert.True(scope.IsJobCanceled);
+	}
+
+	/// <summary>
+	/// Verifies that stopping the worker cancels the job token without reporting the job itself as canceled.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public void Register_DoesNotReportJobCanceled_WhenWorkerStops(
+		Mock<IDateTimeProvider> mockDateTimeProvider,
+		Guid jobId)
+	{
+		// Arrange
+		var registry = new JobCancellationRegistry(mockDateTimeProvider.Object);
+		using var stoppingTokenSource = new CancellationTokenSource();
+		using var scope = registry.Register(jobId, stoppingTokenSource.Token);
+
+		// Act
+		stoppingTokenSource.Cancel();
+
+		// Assert
+		Assert.True(scope.Token.IsCancellationRequested);
+		Assert.False(scope.IsJobCanceled);
+	}
+
+	/// <summary>
+	/// Verifies that an expired job timeout cancels the job token and is reported as a timeout rather than a cancellation.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public void Register_CancelsToken_WhenTimeoutExpires(
+		Mock<IDateTimeProvider> mockDateTimeProvider,
+		Guid jobId)
+	{
+		// Arrange
+		var registry = new JobCancellationRegistry(mockDateTimeProvider.Object);
+
+		// Act
+		using var scope = registry.Register(jobId, CancellationToken.None, TimeSpan.FromMilliseconds(10));
+		var canceled = scope.Token.WaitHandle.WaitOne(TimeSpan.FromSeconds(5));
+
+		// Assert
+		Assert.True(canceled);
+		Assert.True(scope.IsTimedOut);
+		Assert.False(scope.IsJobCanceled);
+	}
+
+	/// <summary>
+	/// Verifies that a cancellation requested for a job that has not started is kept within the retention window,
+	/// even when the job timeout is disabled.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public void Register_ReturnsCanceledScope_WhenPendingCancellationIsWithinRetentionWindow(
+		Mock<IDateTimeProvider> mockDateTimeProvider,
+		Guid jobId,
+		Guid otherJobId)
+	{
+		// Arrange
+		var requestedAt = DateTime.UtcNow;
+		var registry = new JobCancellationRegistry(mockDateTimeProvider.Object);
+		mockDateTimeProvider.Setup(x => x.UtcNow).Returns(requestedAt);
+		registry.RequestCancellation(jobId);
+		mockDateTimeProvider.Setup(x => x.UtcNow).Returns(requestedAt.AddMinutes(AsyncEndpointsConstants.PendingJobCancellationRetentionMinutes - 1));
+		registry.RequestCancellation(otherJobId);
+
+		// Act
+		using var scope = registry.Register(jobId, CancellationToken.None);
+
+		// Assert
+		Assert.True(scope.IsJobCanceled);
+	}
+
+	/// <summary>
+	/// Verifies that a cancellation pending for longer than the retention window is dropped once another cancellation is requested.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public void Register_DoesNotCancelScope_WhenPendingCancellationExceededRetentionWindow(
+		Mock<IDateTimeProvider> mockDateTimeProvider,
+		Guid jobId,
+		Guid otherJobId)
+	{
+		// Arrange
+		var requestedAt = DateTime.UtcNow;
+		var registry = new JobCancellationRegistry(mockDateTimeProvider.Object);
+		mockDateTimeProvider.Setup(x => x.UtcNow).Returns(requestedAt);
+		registry.RequestCancellation(jobId);
+		mockDateTimeProvider.Setup(x => x.UtcNow).Returns(requestedAt.AddMinutes(AsyncEndpointsConstants.PendingJobCancellationRetentionMinutes + 1));
+		registry.RequestCancellation(otherJobId);
+
+		// Act
+		using var scope = registry.Register(jobId, CancellationToken.None);
+
+		// Assert
+		Assert.False(scope.IsJobCanceled);
+	}
+}
@@ -1,8 +1,11 @@
 using AsyncEndpoints.Background;
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.Infrastructure;
 using AsyncEndpoints.JobProcessing;
 using AsyncEndpoints.UnitTests.TestSupport;
 using AsyncEndpoints.Utilities;
 using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
 using Moq;
 using System.Threading.Channels;
 
@@ -21,7 +24,7 @@ public class JobClaimingServiceTests
 		Mock<IJobChannelEnqueuer> mockJobChannelEnqueuer)
 	{
 		// Act
-		var service = new JobClaimingService(mockLogger.Object, mockJobManager.Object, mockJobChannelEnqueuer.Object);
+		var service = new JobClaimingService(mockLogger.Object, mockJobManager.Object, mockJobChannelEnqueuer.Object, CreateJobLimiter(), new WorkerJobTracker());
 
 		// Assert
 		Assert.NotNull(service);
@@ -32,7 +35,7 @@ public class JobClaimingServiceTests
 	/// This ensures proper error handling when the job manager fails to claim a job.
 	/// </summary>
 	[Theory, AutoMoqData]
-	public async Task ClaimAndEnqueueJobAsync_ReturnsErrorOccurred_WhenClaimingFails(
+	public async Task ClaimAndEnqueueJobsAsync_ReturnsErrorOccurred_WhenClaimingFails(
 		Mock<ILogger<JobClaimingService>> mockLogger,
 		Mock<IJobManager> mockJobManager,
 		Mock<IJobChannelEnqueuer> mockJobChannelEnqueuer,
@@ -44,13 +47,13 @@ public class JobClaimingServiceTests
 		var cancellationToken = CancellationToken.None;
 
 		mockJobManager
-			.Setup(x => x.ClaimNextAvailableJob(workerId, cancellationToken))
-			.ReturnsAsync(MethodResult<Job>.Failure(error));
+			.Setup(x => x.ClaimNextAvailableJobs(workerId, 5, cancellationToken))
+			.ReturnsAsync(MethodResult<List<Job>>.Failure(error));
 
-		var service = new JobClaimingService(mockLogger.Object, mockJobManager.Object, mockJobChannelEnqueuer.Object);
+		var service = new JobClaimingService(mockLogger.Object, mockJobManager.Object, mockJobChannelEnqueuer.Object, CreateJobLimiter(), new WorkerJobTracker());
 
 		// Act
-		var result = await service.ClaimAndEnqueueJobAsync(channel.Writer, workerId, cancellationToken);
+		var result = await service.ClaimAndEnqueueJobsAsync(channel.Writer, workerId, 5, cancellationToken);
 
 		// Assert
 		Assert.Equal(JobClaimingState.ErrorOccurred, result);
@@ -61,7 +64,7 @@ public class JobClaimingServiceTests
 	/// This ensures proper handling of empty queues during the job claiming process.
 	/// </summary>
 	[Theory, AutoMoqData]
-	public async Task ClaimAndEnqueueJobAsync_ReturnsNoJobFound_WhenNoJobAvailable(
+	public async Task ClaimAndEnqueueJobsAsync_ReturnsNoJobFound_WhenNoJobAvailable(
 		Mock<ILogger<JobClaimingService>> mockLogger,
 		Mock<IJobManager> mockJobManager,
 		Mock<IJobChannelEnqueuer> mockJobChannelEnqueuer,
@@ -72,13 +75,13 @@ public class JobClaimingServiceTests
 		var cancellationToken = CancellationToken.None;
 
 		mockJobManager
-			.Setup(x => x.ClaimNextAvailableJob(workerId, cancellationToken))
-			.ReturnsAsync(MethodResult<Job>.Success(default(Job)));
+			.Setup(x => x.ClaimNextAvailableJobs(workerId, 5, cancellationToken))
+			.ReturnsAsync(MethodResult<List<Job>>.Success([]));
 
-		var service = new JobClaimingService(mockLogger.Object, mockJobManager.Object, mockJobChannelEnqueuer.Object);
+		var service = new JobClaimingService(mockLogger.Object, mockJobManager.Object, mockJobChannelEnqueuer.Object, CreateJobLimiter(), new WorkerJobTracker());
 
 		// Act
-		var result = await service.ClaimAndEnqueueJobAsync(channel.Writer, workerId, cancellationToken);
+		var result = await service.ClaimAndEnqueueJobsAsync(channel.Writer, workerId, 5, cancellationToken);
 
 		// Assert
 		Assert.Equal(JobClaimingState.NoJobFound, result);
@@ -89,7 +92,7 @@ public class JobClaimingServiceTests
 	/// This ensures proper error handling when the channel is full or unavailable.
 	/// </summary>
 	[Theory, AutoMoqData]
-	public async Task ClaimAndEnqueueJobAsync_ReturnsFailedToEnqueue_WhenChannelEnqueueFails(
+	public async Task ClaimAndEnqueueJobsAsync_ReturnsFailedToEnqueue_WhenChannelEnqueueFails(
 		Mock<ILogger<JobClaimingService>> mockLogger,
 		Mock<IJobManager> mockJobManager,
 		Mock<IJobChannelEnqueuer> mockJobChannelEnqueuer,
@@ -101,20 +104,22 @@ public class JobClaimingServiceTests
 		var cancellationToken = CancellationToken.None;
 
 		mockJobManager
-			.Setup(x => x.ClaimNextAvailableJob(workerId, cancellationToken))
-			.ReturnsAsync(MethodResult<Job>.Success(job));
+			.Setup(x => x.ClaimNextAvailableJobs(workerId, 5, cancellationToken))
+			.ReturnsAsync(MethodResult<List<Job>>.Success([job]));
 
 		mockJobChannelEnqueuer
 			.Setup(x => x.Enqueue(channel.Writer, job, cancellationToken))
 			.ReturnsAsync(false); // Simulate enqueue failure
 
-		var service = new JobClaimingService(mockLogger.Object, mockJobManager.Object, mockJobChannelEnqueuer.Object);
+		var workerJobTracker = new WorkerJobTracker();
+		var service = new JobClaimingService(mockLogger.Object, mockJobManager.Object, mockJobChannelEnqueuer.Object, CreateJobLimiter(), workerJobTracker);
 
 		// Act
-		var result = await service.ClaimAndEnqueueJobAsync(channel.Writer, workerId, cancellationToken);
+		var result = await service.ClaimAndEnqueueJobsAsync(channel.Writer, workerId, 5, cancellationToken);
 
 		// Assert
 		Assert.Equal(JobClaimingState.FailedToEnqueue, result);
+		Assert.Empty(workerJobTracker.GetJobIds());
 	}
 
 	/// <summary>
@@ -122,7 +127,7 @@ public class JobClaimingServiceTests
 	/// This ensures the complete successful workflow is handled correctly.
 	/// </summary>
 	[Theory, AutoMoqData]
-	public async Task ClaimAndEnqueueJobAsync_ReturnsJobSuccessfullyEnqueued_WhenJobClaimedAndEnqueued(
+	public async Task ClaimAndEnqueueJobsAsync_ReturnsJobSuccessfullyEnqueued_WhenJobClaimedAndEnqueued(
 		Mock<ILogger<JobClaimingService>> mockLogger,
 		Mock<IJobManager> mockJobManager,
 		Mock<IJobChannelEnqueuer> mockJobChannelEnqueuer,
@@ -134,28 +139,30 @@ public class JobClaimingServiceTests
 		var cancellationToken = CancellationToken.None;
 
 		mockJobManager
-			.Setup(x => x.ClaimNextAvailableJob(workerId, cancellationToken))
-			.ReturnsAsync(MethodResult<Job>.Success(job));
+			.Setup(x => x.ClaimNextAvailableJobs(workerId, 5, cancellationToken))
+			.ReturnsAsync(MethodResult<List<Job>>.Success([job]));
 
 		mockJobChannelEnqueuer
 			.Setup(x => x.Enqueue(channel.Writer, job, cancellationToken))
 			.ReturnsAsync(true); // Simulate successful enqueue
 
-		var service = new JobClaimingService(mockLogger.Object, mockJobManager.Object, mockJobChannelEnqueuer.Object);
+		var workerJobTracker = new WorkerJobTracker();
+		var service = new JobClaimingService(mockLogger.Object, mockJobManager.Object, mockJobChannelEnqueuer.Object, CreateJobLimiter(), workerJobTracker);
 
 		// Act
-		var result = await service.ClaimAndEnqueueJobAsync(channel.Writer, workerId, cancellationToken);
+		var result = await service.ClaimAndEnqueueJobsAsync(channel.Writer, workerId, 5, cancellationToken);
 
 		// Assert
 		Assert.Equal(JobClaimingState.JobSuccessfullyEnqueued, result);
+		Assert.Equal([job.Id], workerJobTracker.GetJobIds());
 	}
 
 	/// <summary>
-	/// Verifies that the JobClaimingService calls the JobManager's ClaimNextAvailableJob method with the correct parameters.
+	/// Verifies that the JobClaimingService calls the JobManager's ClaimNextAvailableJobs method with the correct parameters.
 	/// This ensures the job claiming service properly delegates to the job manager for job claiming.
 	/// </summary>
 	[Theory, AutoMoqData]
-	public async Task ClaimAndEnqueueJobAsync_CallsJobManagerClaimNextAvailableJob_WithCorrectParameters(
+	public async Task ClaimAndEnqueueJobsAsync_CallsJobManagerClaimNextAvailableJobs_WithCorrectParameters(
 		Mock<ILogger<JobClaimingService>> mockLogger,
 		Mock<IJobManager> mockJobManager,
 		Mock<IJobChannelEnqueuer> mockJobChannelEnqueuer,
@@ -167,20 +174,20 @@ public class JobClaimingServiceTests
 		var channel = Channel.CreateBounded<Job>(new BoundedChannelOptions(10));
 
 		mockJobManager
-			.Setup(x => x.ClaimNextAvailableJob(workerId, cancellationToken))
-			.ReturnsAsync(MethodResult<Job>.Success(job));
+			.Setup(x => x.ClaimNextAvailableJobs(workerId, 5, cancellationToken))
+			.ReturnsAsync(MethodResult<List<Job>>.Success([job]));
 
 		mockJobChannelEnqueuer
 			.Setup(x => x.Enqueue(channel.Writer, job, cancellationToken))
 			.ReturnsAsync(true);
 
-		var service = new JobClaimingService(mockLogger.Object, mockJobManager.Object, mockJobChannelEnqueuer.Object);
+		var service = new JobClaimingService(mockLogger.Object, mockJobManager.Object, mockJobChannelEnqueuer.Object, CreateJobLimiter(), new WorkerJobTracker());
 
 		// Act
-		await service.ClaimAndEnqueueJobAsync(channel.Writer, workerId, cancellationToken);
+		await service.ClaimAndEnqueueJobsAsync(channel.Writer, workerId, 5, cancellationToken);
 
 		// Assert
-		mockJobManager.Verify(x => x.ClaimNextAvailableJob(workerId, cancellationToken), Times.Once);
+		mockJobManager.Verify(x => x.ClaimNextAvailableJobs(workerId, 5, cancellationToken), Times.Once);
 	}
 
 	/// <summary>
@@ -188,7 +195,7 @@ public class JobClaimingServiceTests
 	/// This ensures the job claiming service properly delegates to the channel enqueuer for job placement.
 	/// </summary>
 	[Theory, AutoMoqData]
-	public async Task ClaimAndEnqueueJobAsync_CallsJobChannelEnqueuer_WithCorrectParameters(
+	public async Task ClaimAndEnqueueJobsAsync_CallsJobChannelEnqueuer_WithCorrectParameters(
 		Mock<ILogger<JobClaimingService>> mockLogger,
 		Mock<IJobManager> mockJobManager,
 		Mock<IJobChannelEnqueuer> mockJobChannelEnqueuer,
@@ -200,19 +207,95 @@ public class JobClaimingServiceTests
 		var channel = Channel.CreateBounded<Job>(new BoundedChannelOptions(10));
 
 		mockJobManager
-			.Setup(x => x.ClaimNextAvailableJob(workerId, cancellationToken))
-			.ReturnsAsync(MethodResult<Job>.Success(job));
+			.Setup(x => x.ClaimNextAvailableJobs(workerId, 5, cancellationToken))
+			.ReturnsAsync(MethodResult<List<Job>>.Success([job]));
 
 		mockJobChannelEnqueuer
 			.Setup(x => x.Enqueue(channel.Writer, job, cancellationToken))
 			.ReturnsAsync(true);
 
-		var service = new JobClaimingService(mockLogger.Object, mockJobManager.Object, mockJobChannelEnqueuer.Object);
+		var service = new JobClaimingService(mockLogger.Object, mockJobManager.Object, mockJobChannelEnqueuer.Object, CreateJobLimiter(), new WorkerJobTracker());
 
 		// Act
-		await service.ClaimAndEnqueueJobAsync(channel.Writer, workerId, cancellationToken);
+		await service.ClaimAndEnqueueJobsAsync(channel.Writer, workerId, 5, cancellationToken);
 
 		// Assert
 		mockJobChannelEnqueuer.Verify(x => x.Enqueue(channel.Writer, job, cancellationToken), Times.Once);
 	}
+	/// <summary>
+	/// Verifies that a claimed job whose job name limits are saturated is deferred instead of enqueued.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ClaimAndEnqueueJobsAsync_DefersJob_WhenJobLimitsAreSaturated(
+		Mock<ILogger<JobClaimingService>> mockLogger,
+		Mock<IJobManager> mockJobManager,
+		Mock<IJobChannelEnqueuer> mockJobChannelEnqueuer,
+		Mock<IJobLimiter> mockJobLimiter,
+		Guid workerId,
+		Job job)
+	{
+		// Arrange
+		var channel = Channel.CreateBounded<Job>(new BoundedChannelOptions(10));
+		var retryAfter = TimeSpan.FromSeconds(3);
+
+		mockJobManager
+			.Setup(x => x.ClaimNextAvailableJobs(workerId, 5, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<List<Job>>.Success([job]));
+		mockJobManager
+			.Setup(x => x.DeferJob(job.Id, retryAfter, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Success());
+		mockJobLimiter
+			.Setup(x => x.TryAcquire(job, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<JobLimitAcquisition>.Success(JobLimitAcquisition.Saturated(retryAfter)));
+
+		var service = new JobClaimingService(mockLogger.Object, mockJobManager.Object, mockJobChannelEnqueuer.Object, mockJobLimiter.Object, new WorkerJobTracker());
+
+		// Act
+		var result = await service.ClaimAndEnqueueJobsAsync(channel.Writer, workerId, 5, CancellationToken.None);
+
+		// Assert
+		Assert.Equal(JobClaimingState.JobDeferred, result);
+		mockJobManager.Verify(x => x.DeferJob(job.Id, retryAfter, It.IsAny<CancellationToken>()), Times.Once);
+		mockJobChannelEnqueuer.Verify(x => x.Enqueue(It.IsAny<ChannelWriter<Job>>(), It.IsAny<Job>(), It.IsAny<CancellationToken>()), Times.Never);
+	}
+
+	/// <summary>
+	/// Verifies that once a job of a claimed batch cannot be enqueued, it is released along with the rest of the batch instead of staying in progress.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ClaimAndEnqueueJobsAsync_ReleasesFailedAndRemainingJobs_WhenEnqueueFails(
+		Mock<ILogger<JobClaimingService>> mockLogger,
+		Mock<IJobManager> mockJobManager,
+		Mock<IJobChannelEnqueuer> mockJobChannelEnqueuer,
+		Guid workerId,
+		Job firstJob,
+		Job secondJob)
+	{
+		// Arrange
+		var channel = Channel.CreateBounded<Job>(new BoundedChannelOptions(10));
+
+		mockJobManager
+			.Setup(x => x.ClaimNextAvailableJobs(workerId, 5, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<List<Job>>.Success([firstJob, secondJob]));
+		mockJobManager
+			.Setup(x => x.ReleaseJob(It.IsAny<Guid>(), workerId, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Success());
+		mockJobChannelEnqueuer
+			.Setup(x => x.Enqueue(channel.Writer, firstJob, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(false);
+
+		var service = new JobClaimingService(mockLogger.Object, mockJobManager.Object, mockJobChannelEnqueuer.Object, CreateJobLimiter(), new WorkerJobTracker());
+
+		// Act
+		var result = await service.ClaimAndEnqueueJobsAsync(channel.Writer, workerId, 5, CancellationToken.None);
+
+		// Assert
+		Assert.Equal(JobClaimingState.FailedToEnqueue, result);
+		mockJobManager.Verify(x => x.ReleaseJob(firstJob.Id, workerId, CancellationToken.None), Times.Once);
+		mockJobManager.Verify(x => x.ReleaseJob(secondJob.Id, workerId, CancellationToken.None), Times.Once);
+		mockJobChannelEnqueuer.Verify(x => x.Enqueue(It.IsAny<ChannelWriter<Job>>(), secondJob, It.IsAny<CancellationToken>()), Times.Never);
+	}
+
+	private static InMemoryJobLimiter CreateJobLimiter() =>
+		new(Options.Create(new AsyncEndpointsConfigurations()), Mock.Of<IDateTimeProvider>());
 }
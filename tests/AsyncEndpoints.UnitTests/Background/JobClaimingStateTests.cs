@@ -12,6 +12,8 @@ public class JobClaimingStateTests
 		Assert.Equal(200, (int)JobClaimingState.NoJobFound);
 		Assert.Equal(300, (int)JobClaimingState.FailedToEnqueue);
 		Assert.Equal(400, (int)JobClaimingState.ErrorOccurred);
+		Assert.Equal(500, (int)JobClaimingState.JobDeferred);
+		Assert.Equal(600, (int)JobClaimingState.ChannelFull);
 	}
 
 	[Fact]
@@ -22,5 +24,7 @@ public class JobClaimingStateTests
 		Assert.Equal("NoJobFound", JobClaimingState.NoJobFound.ToString());
 		Assert.Equal("FailedToEnqueue", JobClaimingState.FailedToEnqueue.ToString());
 		Assert.Equal("ErrorOccurred", JobClaimingState.ErrorOccurred.ToString());
+		Assert.Equal("JobDeferred", JobClaimingState.JobDeferred.ToString());
+		Assert.Equal("ChannelFull", JobClaimingState.ChannelFull.ToString());
 	}
 }
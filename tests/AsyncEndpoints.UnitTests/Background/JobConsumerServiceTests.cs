@@ -70,9 +70,56 @@ public class JobConsumerServiceTests
 
 		// Act & Assert - Should not throw exception
 		var exception = await Record.ExceptionAsync(() =>
-			service.ConsumeJobsAsync(channel.Reader, semaphoreSlim, cancellationTokenSource.Token));
+			service.ConsumeJobsAsync(channel.Reader, semaphoreSlim, cancellationTokenSource.Token, CancellationToken.None));
 
 		Assert.Null(exception);
 		mockJobProcessorService.Verify(x => x.ProcessAsync(job, It.IsAny<CancellationToken>()), Times.Once);
 	}
+
+	/// <summary>
+	/// Verifies that jobs left in the channel when the worker stops are released back to the queue instead of being processed.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ConsumeJobsAsync_ReleasesBufferedJobs_WhenStopped(
+		[Frozen] Mock<IServiceProvider> mockServiceProvider,
+		[Frozen] Mock<IServiceScope> mockScope,
+		[Frozen] Mock<IServiceScopeFactory> mockScopeFactory,
+		[Frozen] Mock<IJobProcessorService> mockJobProcessorService,
+		[Frozen] Mock<ILogger<JobConsumerService>> mockLogger,
+		[Frozen] Mock<IAsyncEndpointsObservability> mockMetrics,
+		SemaphoreSlim semaphoreSlim,
+		Job firstJob,
+		Job secondJob)
+	{
+		// Arrange
+		mockServiceProvider
+			.Setup(x => x.GetService(typeof(IJobProcessorService)))
+			.Returns(mockJobProcessorService.Object);
+
+		mockScope
+			.Setup(x => x.ServiceProvider)
+			.Returns(mockServiceProvider.Object);
+
+		mockScopeFactory
+			.Setup(x => x.CreateScope())
+			.Returns(mockScope.Object);
+
+		var channel = Channel.CreateBounded<Job>(new BoundedChannelOptions(10));
+		await channel.Writer.WriteAsync(firstJob, CancellationToken.None);
+		await channel.Writer.WriteAsync(secondJob, CancellationToken.None);
+
+		using var cancellationTokenSource = new CancellationTokenSource();
+		cancellationTokenSource.Cancel();
+
+		var service = new JobConsumerService(mockLogger.Object, mockScopeFactory.Object, mockMetrics.Object);
+
+		// Act
+		await service.ConsumeJobsAsync(channel.Reader, semaphoreSlim, cancellationTokenSource.Token, CancellationToken.None);
+
+		// Assert
+		Assert.Equal(0, channel.Reader.Count);
+		mockJobProcessorService.Verify(x => x.ReleaseAsync(firstJob, It.IsAny<CancellationToken>()), Times.Once);
+		mockJobProcessorService.Verify(x => x.ReleaseAsync(secondJob, It.IsAny<CancellationToken>()), Times.Once);
+		mockJobProcessorService.Verify(x => x.ProcessAsync(It.IsAny<Job>(), It.IsAny<CancellationToken>()), Times.Never);
+	}
 }
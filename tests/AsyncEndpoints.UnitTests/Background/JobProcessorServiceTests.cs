@@ -1,4 +1,6 @@
 using AsyncEndpoints.Background;
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.Infrastructure;
 using AsyncEndpoints.Infrastructure.Observability;
 using AsyncEndpoints.Infrastructure.Serialization;
 using AsyncEndpoints.JobProcessing;
@@ -6,6 +8,7 @@ using AsyncEndpoints.UnitTests.TestSupport;
 using AsyncEndpoints.Utilities;
 using AutoFixture.Xunit2;
 using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
 using Moq;
 
 namespace AsyncEndpoints.UnitTests.Background;
@@ -18,10 +21,11 @@ public class JobProcessorServiceTests
 		Mock<IJobManager> mockJobManager,
 		Mock<IHandlerExecutionService> mockHandlerExecutionService,
 		Mock<ISerializer> mockSerializer,
-		Mock<IAsyncEndpointsObservability> mockMetrics)
+		Mock<IAsyncEndpointsObservability> mockMetrics,
+		Mock<IJobCancellationRegistry> mockJobCancellationRegistry)
 	{
 		// Act
-		var service = new JobProcessorService(mockLogger.Object, mockJobManager.Object, mockHandlerExecutionService.Object, mockSerializer.Object, mockMetrics.Object);
+		var service = new JobProcessorService(mockLogger.Object, mockJobManager.Object, mockHandlerExecutionService.Object, mockSerializer.Object, mockMetrics.Object, mockJobCancellationRegistry.Object, CreateJobLimiter(), new WorkerJobTracker(), Options.Create(new AsyncEndpointsConfigurations()));
 
 		// Assert
 		Assert.NotNull(service);
@@ -68,7 +72,7 @@ public class JobProcessorServiceTests
 			.Setup(x => x.ExecuteHandlerAsync(job.Name, It.IsAny<object>(), job, It.IsAny<CancellationToken>()))
 			.ReturnsAsync(handlerResult);
 
-		var jobProcessorService = new JobProcessorService(mockLogger.Object, mockJobManager.Object, mockHandlerExecutionService.Object, new Mock<ISerializer>().Object, Mock.Of<IAsyncEndpointsObservability>());
+		var jobProcessorService = new JobProcessorService(mockLogger.Object, mockJobManager.Object, mockHandlerExecutionService.Object, new Mock<ISerializer>().Object, Mock.Of<IAsyncEndpointsObservability>(), CreateJobCancellationRegistry(), CreateJobLimiter(), new WorkerJobTracker(), Options.Create(new AsyncEndpointsConfigurations()));
 
 		// Act & Assert - Should not throw exception
 		var exception = await Record.ExceptionAsync(() =>
@@ -77,4 +81,156 @@ public class JobProcessorServiceTests
 		Assert.Null(exception);
 		mockJobManager.Verify(x => x.ProcessJobFailure(job.Id, It.IsAny<AsyncEndpointError>(), It.IsAny<CancellationToken>()), Times.Once);
 	}
+
+	/// <summary>
+	/// Verifies that a job canceled after it was claimed but before processing started is neither marked as failed nor completed,
+	/// leaving the canceled status set by the cancellation request untouched.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ProcessAsync_SkipsStatusUpdate_WhenJobCanceledBeforeProcessing(
+		[Frozen] Mock<ILogger<JobProcessorService>> mockLogger,
+		[Frozen] Mock<IJobManager> mockJobManager,
+		[Frozen] Mock<IHandlerExecutionService> mockHandlerExecutionService,
+		Job job)
+	{
+		// Arrange
+		var jobCancellationRegistry = CreateJobCancellationRegistry();
+		jobCancellationRegistry.RequestCancellation(job.Id);
+
+		var jobProcessorService = new JobProcessorService(mockLogger.Object, mockJobManager.Object, mockHandlerExecutionService.Object, new Mock<ISerializer>().Object, Mock.Of<IAsyncEndpointsObservability>(), jobCancellationRegistry, CreateJobLimiter(), new WorkerJobTracker(), Options.Create(new AsyncEndpointsConfigurations()));
+
+		// Act
+		await jobProcessorService.ProcessAsync(job, CancellationToken.None);
+
+		// Assert
+		mockJobManager.Verify(x => x.ProcessJobFailure(It.IsAny<Guid>(), It.IsAny<AsyncEndpointError>(), It.IsAny<CancellationToken>()), Times.Never);
+		mockJobManager.Verify(x => x.ProcessJobSuccess(It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<CancellationToken>()), Times.Never);
+	}
+
+	/// <summary>
+	/// Verifies that a handler that is still running when the job timeout expires gets its token canceled,
+	/// and that the job failure is reported with the timeout error code so it goes through the normal retry path.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ProcessAsync_ProcessesTimeoutFailure_WhenHandlerExceedsTimeout(
+		[Frozen] Mock<ILogger<JobProcessorService>> mockLogger,
+		[Frozen] Mock<IJobManager> mockJobManager,
+		[Frozen] Mock<IHandlerExecutionService> mockHandlerExecutionService,
+		Job job)
+	{
+		// Arrange
+		var configurations = new AsyncEndpointsConfigurations();
+		configurations.WorkerConfigurations.JobTimeouts[job.Name] = TimeSpan.FromMilliseconds(50);
+
+		var mockSerializer = new Mock<ISerializer>();
+		mockSerializer.Setup(x => x.Deserialize(job.Payload, It.IsAny<Type>(), null)).Returns(new object());
+		HandlerRegistrationTracker.Register<object, object>(job.Name, (_, _, _, _) => Task.FromResult(MethodResult<object>.Success(new object())));
+
+		mockHandlerExecutionService
+			.Setup(x => x.ExecuteHandlerAsync(job.Name, It.IsAny<object>(), job, It.IsAny<CancellationToken>()))
+			.Returns(async (string _, object _, Job _, CancellationToken cancellationToken) =>
+			{
+				await Task.Delay(Timeout.Infinite, cancellationToken);
+				return MethodResult<object>.Success(new object());
+			});
+
+		var jobProcessorService = new JobProcessorService(mockLogger.Object, mockJobManager.Object, mockHandlerExecutionService.Object, mockSerializer.Object, Mock.Of<IAsyncEndpointsObservability>(), CreateJobCancellationRegistry(), CreateJobLimiter(), new WorkerJobTracker(), Options.Create(configurations));
+
+		// Act
+		await jobProcessorService.ProcessAsync(job, CancellationToken.None);
+
+		// Assert
+		mockJobManager.Verify(x => x.ProcessJobFailure(job.Id, It.Is<AsyncEndpointError>(e => e.Code == AsyncEndpointsConstants.JobTimeoutErrorCode), It.IsAny<CancellationToken>()), Times.Once);
+	}
+
+	/// <summary>
+	/// Verifies that a handler ignoring its canceled token keeps its job and concurrency slot until it returns,
+	/// so the job is not retried while the handler still runs, and that its late success is reported as a timeout.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ProcessAsync_ProcessesTimeoutFailure_WhenHandlerIgnoresCancellation(
+		[Frozen] Mock<ILogger<JobProcessorService>> mockLogger,
+		[Frozen] Mock<IJobManager> mockJobManager,
+		[Frozen] Mock<IHandlerExecutionService> mockHandlerExecutionService,
+		Job job)
+	{
+		// Arrange
+		var configurations = new AsyncEndpointsConfigurations();
+		configurations.WorkerConfigurations.JobTimeouts[job.Name] = TimeSpan.FromMilliseconds(50);
+		var handlerCompletion = new TaskCompletionSource<MethodResult<object>>(TaskCreationOptions.RunContinuationsAsynchronously);
+		var workerJobTracker = new WorkerJobTracker();
+		workerJobTracker.Track(job.Id);
+		var mockJobLimiter = new Mock<IJobLimiter>();
+		mockJobLimiter
+			.Setup(x => x.Release(job, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Success());
+
+		var mockSerializer = new Mock<ISerializer>();
+		mockSerializer.Setup(x => x.Deserialize(job.Payload, It.IsAny<Type>(), null)).Returns(new object());
+		HandlerRegistrationTracker.Register<object, object>(job.Name, (_, _, _, _) => Task.FromResult(MethodResult<object>.Success(new object())));
+
+		mockHandlerExecutionService
+			.Setup(x => x.ExecuteHandlerAsync(job.Name, It.IsAny<object>(), job, It.IsAny<CancellationToken>()))
+			.Returns(handlerCompletion.Task);
+
+		var jobProcessorService = new JobProcessorService(mockLogger.Object, mockJobManager.Object, mockHandlerExecutionService.Object, mockSerializer.Object, Mock.Of<IAsyncEndpointsObservability>(), CreateJobCancellationRegistry(), mockJobLimiter.Object, workerJobTracker, Options.Create(configurations));
+
+		// Act
+		var processingTask = jobProcessorService.ProcessAsync(job, CancellationToken.None);
+		await Task.Delay(TimeSpan.FromMilliseconds(250));
+		var completedBeforeHandler = processingTask.IsCompleted;
+		var trackedBeforeHandler = workerJobTracker.GetJobIds().Contains(job.Id);
+		handlerCompletion.SetResult(MethodResult<object>.Success(new object()));
+		await processingTask;
+
+		// Assert
+		Assert.False(completedBeforeHandler);
+		Assert.True(trackedBeforeHandler);
+		mockJobLimiter.Verify(x => x.Release(job, It.IsAny<CancellationToken>()), Times.Once);
+		mockJobManager.Verify(x => x.ProcessJobFailure(job.Id, It.Is<AsyncEndpointError>(e => e.Code == AsyncEndpointsConstants.JobTimeoutErrorCode), It.IsAny<CancellationToken>()), Times.Once);
+		mockJobManager.Verify(x => x.ProcessJobSuccess(It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<CancellationToken>()), Times.Never);
+		Assert.Empty(workerJobTracker.GetJobIds());
+	}
+
+	/// <summary>
+	/// Verifies that a handler still running when the shutdown timeout of the worker expires gets its job released back to the queue,
+	/// instead of reporting a failure that would count a retry.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ProcessAsync_ReleasesJob_WhenWorkerStopsBeforeHandlerFinishes(
+		[Frozen] Mock<ILogger<JobProcessorService>> mockLogger,
+		[Frozen] Mock<IJobManager> mockJobManager,
+		[Frozen] Mock<IHandlerExecutionService> mockHandlerExecutionService,
+		Job job)
+	{
+		// Arrange
+		var configurations = new AsyncEndpointsConfigurations();
+		using var processingTokenSource = new CancellationTokenSource(TimeSpan.FromMilliseconds(50));
+
+		var mockSerializer = new Mock<ISerializer>();
+		mockSerializer.Setup(x => x.Deserialize(job.Payload, It.IsAny<Type>(), null)).Returns(new object());
+		HandlerRegistrationTracker.Register<object, object>(job.Name, (_, _, _, _) => Task.FromResult(MethodResult<object>.Success(new object())));
+
+		mockHandlerExecutionService
+			.Setup(x => x.ExecuteHandlerAsync(job.Name, It.IsAny<object>(), job, It.IsAny<CancellationToken>()))
+			.Returns(async (string _, object _, Job _, CancellationToken cancellationToken) =>
+			{
+				await Task.Delay(Timeout.Infinite, cancellationToken);
+				return MethodResult<object>.Success(new object());
+			});
+
+		var jobProcessorService = new JobProcessorService(mockLogger.Object, mockJobManager.Object, mockHandlerExecutionService.Object, mockSerializer.Object, Mock.Of<IAsyncEndpointsObservability>(), CreateJobCancellationRegistry(), CreateJobLimiter(), new WorkerJobTracker(), Options.Create(configurations));
+
+		// Act
+		await jobProcessorService.ProcessAsync(job, processingTokenSource.Token);
+
+		// Assert
+		mockJobManager.Verify(x => x.ReleaseJob(job.Id, configurations.WorkerConfigurations.WorkerId, CancellationToken.None), Times.Once);
+		mockJobManager.Verify(x => x.ProcessJobFailure(It.IsAny<Guid>(), It.IsAny<AsyncEndpointError>(), It.IsAny<CancellationToken>()), Times.Never);
+	}
+
+	private static JobCancellationRegistry CreateJobCancellationRegistry() =>
+		new(Mock.Of<IDateTimeProvider>());
+	private static InMemoryJobLimiter CreateJobLimiter() =>
+		new(Options.Create(new AsyncEndpointsConfigurations()), Mock.Of<IDateTimeProvider>());
 }
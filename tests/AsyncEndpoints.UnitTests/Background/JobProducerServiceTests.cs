@@ -22,6 +22,7 @@ public class JobProducerServiceTests
 		Mock<IOptions<AsyncEndpointsConfigurations>> mockConfigurations,
 		Mock<IDelayCalculatorService> mockDelayCalculatorService,
 		Mock<IServiceScopeFactory> mockServiceScopeFactory,
+		Mock<IJobStatusNotifier> mockJobStatusNotifier,
 		AsyncEndpointsConfigurations configurations)
 	{
 		// Arrange
@@ -34,7 +35,8 @@ public class JobProducerServiceTests
 			mockLogger.Object,
 			mockConfigurations.Object,
 			mockDelayCalculatorService.Object,
-			mockServiceScopeFactory.Object);
+			mockServiceScopeFactory.Object,
+			mockJobStatusNotifier.Object);
 
 		// Assert
 		Assert.NotNull(service);
@@ -50,6 +52,7 @@ public class JobProducerServiceTests
 		Mock<IOptions<AsyncEndpointsConfigurations>> mockConfigurations,
 		Mock<IDelayCalculatorService> mockDelayCalculatorService,
 		Mock<IServiceScopeFactory> mockServiceScopeFactory,
+		Mock<IJobStatusNotifier> mockJobStatusNotifier,
 		Mock<IServiceScope> mockServiceScope,
 		Mock<IJobClaimingService> mockJobClaimingService)
 	{
@@ -73,10 +76,11 @@ public class JobProducerServiceTests
 			mockLogger.Object,
 			mockConfigurations.Object,
 			mockDelayCalculatorService.Object,
-			mockServiceScopeFactory.Object);
+			mockServiceScopeFactory.Object,
+			mockJobStatusNotifier.Object);
 
 		// Act
-		await jobProducerService.ProduceJobsAsync(channel.Writer, cancellationTokenSource.Token);
+		await jobProducerService.ProduceJobsAsync(channel, cancellationTokenSource.Token);
 
 		// Assert
 		Assert.True(channel.Reader.Completion.IsCompleted);
@@ -92,6 +96,7 @@ public class JobProducerServiceTests
 		Mock<IOptions<AsyncEndpointsConfigurations>> mockConfigurations,
 		Mock<IDelayCalculatorService> mockDelayCalculatorService,
 		Mock<IServiceScopeFactory> mockServiceScopeFactory,
+		Mock<IJobStatusNotifier> mockJobStatusNotifier,
 		Mock<IServiceScope> mockServiceScope,
 		Mock<IJobClaimingService> mockJobClaimingService,
 		Guid workerId)
@@ -116,7 +121,7 @@ public class JobProducerServiceTests
 
 		// Setup the job claiming service to return a specific result
 		mockJobClaimingService
-			.Setup(x => x.ClaimAndEnqueueJobAsync(channel.Writer, workerId, cancellationToken))
+			.Setup(x => x.ClaimAndEnqueueJobsAsync(channel.Writer, workerId, workerConfigurations.BatchSize, cancellationToken))
 			.ReturnsAsync(result);
 
 		// Setup the delay calculator to return a specific delay
@@ -129,11 +134,12 @@ public class JobProducerServiceTests
 			mockLogger.Object,
 			mockConfigurations.Object,
 			mockDelayCalculatorService.Object,
-			mockServiceScopeFactory.Object);
+			mockServiceScopeFactory.Object,
+			mockJobStatusNotifier.Object);
 
 		// Act & Assert - Use a short timeout to prevent hanging
 		var timeoutTask = Task.Delay(150); // Give it a bit more time than the delay
-		var serviceTask = jobProducerService.ProduceJobsAsync(channel.Writer, cancellationToken);
+		var serviceTask = jobProducerService.ProduceJobsAsync(channel, cancellationToken);
 
 		// Cancel after a short time to prevent infinite loop
 		await Task.Delay(50);
@@ -143,7 +149,7 @@ public class JobProducerServiceTests
 
 		// Verify the service was called at least once
 		mockServiceScopeFactory.Verify(x => x.CreateScope(), Times.AtLeastOnce);
-		mockJobClaimingService.Verify(x => x.ClaimAndEnqueueJobAsync(channel.Writer, workerId, cancellationToken), Times.AtLeastOnce);
+		mockJobClaimingService.Verify(x => x.ClaimAndEnqueueJobsAsync(channel.Writer, workerId, workerConfigurations.BatchSize, cancellationToken), Times.AtLeastOnce);
 		mockDelayCalculatorService.Verify(x => x.CalculateDelay(result, workerConfigurations), Times.AtLeastOnce);
 	}
 
@@ -158,6 +164,7 @@ public class JobProducerServiceTests
 		Mock<IOptions<AsyncEndpointsConfigurations>> mockConfigurations,
 		Mock<IDelayCalculatorService> mockDelayCalculatorService,
 		Mock<IServiceScopeFactory> mockServiceScopeFactory,
+		Mock<IJobStatusNotifier> mockJobStatusNotifier,
 		Mock<IServiceScope> mockServiceScope,
 		Mock<IJobClaimingService> mockJobClaimingService,
 		Guid workerId)
@@ -181,7 +188,7 @@ public class JobProducerServiceTests
 
 		// Setup the job claiming service to throw an exception
 		mockJobClaimingService
-			.Setup(x => x.ClaimAndEnqueueJobAsync(channel.Writer, workerId, cancellationToken))
+			.Setup(x => x.ClaimAndEnqueueJobsAsync(channel.Writer, workerId, workerConfigurations.BatchSize, cancellationToken))
 			.ThrowsAsync(new InvalidOperationException("Test exception"));
 
 		// Setup the delay calculator to return a specific delay for error state
@@ -195,11 +202,12 @@ public class JobProducerServiceTests
 			mockLogger.Object,
 			mockConfigurations.Object,
 			mockDelayCalculatorService.Object,
-			mockServiceScopeFactory.Object);
+			mockServiceScopeFactory.Object,
+			mockJobStatusNotifier.Object);
 
 		// Act & Assert - Use a short timeout to prevent hanging
 		var timeoutTask = Task.Delay(200);
-		var serviceTask = jobProducerService.ProduceJobsAsync(channel.Writer, cancellationToken);
+		var serviceTask = jobProducerService.ProduceJobsAsync(channel, cancellationToken);
 
 		// Cancel after a short time to prevent infinite loop
 		await Task.Delay(50);
@@ -210,4 +218,192 @@ public class JobProducerServiceTests
 		// Verify the delay calculator was called with the error state
 		mockDelayCalculatorService.Verify(x => x.CalculateDelay(errorState, workerConfigurations), Times.AtLeastOnce);
 	}
+
+	/// <summary>
+	/// Verifies that the job producer service does not claim jobs while the channel has no free capacity,
+	/// leaving them in the store for other workers.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ProduceJobsAsync_SkipsClaiming_WhenChannelIsFull(
+		Mock<ILogger<JobProducerService>> mockLogger,
+		Mock<IOptions<AsyncEndpointsConfigurations>> mockConfigurations,
+		Mock<IDelayCalculatorService> mockDelayCalculatorService,
+		Mock<IServiceScopeFactory> mockServiceScopeFactory,
+		Mock<IJobStatusNotifier> mockJobStatusNotifier,
+		Mock<IServiceScope> mockServiceScope,
+		Mock<IJobClaimingService> mockJobClaimingService,
+		Job queuedJob)
+	{
+		// Arrange
+		var workerConfigurations = new AsyncEndpointsWorkerConfigurations { MaximumQueueSize = 1 };
+		var configurations = new AsyncEndpointsConfigurations { WorkerConfigurations = workerConfigurations };
+		mockConfigurations.Setup(x => x.Value).Returns(configurations);
+
+		mockServiceScopeFactory
+			.Setup(x => x.CreateScope())
+			.Returns(mockServiceScope.Object);
+
+		mockServiceScope
+			.Setup(x => x.ServiceProvider.GetService(typeof(IJobClaimingService)))
+			.Returns(mockJobClaimingService.Object);
+
+		var channel = Channel.CreateBounded<Job>(new BoundedChannelOptions(1));
+		channel.Writer.TryWrite(queuedJob);
+		var cancellationTokenSource = new CancellationTokenSource();
+
+		mockDelayCalculatorService
+			.Setup(x => x.CalculateDelay(JobClaimingState.ChannelFull, workerConfigurations))
+			.Returns(TimeSpan.FromMilliseconds(10));
+
+		var jobProducerService = new JobProducerService(
+			mockLogger.Object,
+			mockConfigurations.Object,
+			mockDelayCalculatorService.Object,
+			mockServiceScopeFactory.Object,
+			mockJobStatusNotifier.Object);
+
+		// Act
+		var timeoutTask = Task.Delay(200);
+		var serviceTask = jobProducerService.ProduceJobsAsync(channel, cancellationTokenSource.Token);
+
+		await Task.Delay(50);
+		cancellationTokenSource.Cancel();
+
+		await Task.WhenAny(serviceTask, timeoutTask);
+
+		// Assert
+		mockDelayCalculatorService.Verify(x => x.CalculateDelay(JobClaimingState.ChannelFull, workerConfigurations), Times.AtLeastOnce);
+		mockJobClaimingService.Verify(x => x.ClaimAndEnqueueJobsAsync(It.IsAny<ChannelWriter<Job>>(), It.IsAny<Guid>(), It.IsAny<int>(), It.IsAny<CancellationToken>()), Times.Never);
+	}
+
+	/// <summary>
+	/// Verifies that the job producer service claims no more jobs than the channel can take
+	/// when its free capacity is smaller than the batch size.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ProduceJobsAsync_ClaimsFreeCapacity_WhenSmallerThanBatchSize(
+		Mock<ILogger<JobProducerService>> mockLogger,
+		Mock<IOptions<AsyncEndpointsConfigurations>> mockConfigurations,
+		Mock<IDelayCalculatorService> mockDelayCalculatorService,
+		Mock<IServiceScopeFactory> mockServiceScopeFactory,
+		Mock<IJobStatusNotifier> mockJobStatusNotifier,
+		Mock<IServiceScope> mockServiceScope,
+		Mock<IJobClaimingService> mockJobClaimingService,
+		Guid workerId,
+		Job queuedJob)
+	{
+		// Arrange
+		var workerConfigurations = new AsyncEndpointsWorkerConfigurations { WorkerId = workerId, BatchSize = 5, MaximumQueueSize = 3 };
+		var configurations = new AsyncEndpointsConfigurations { WorkerConfigurations = workerConfigurations };
+		mockConfigurations.Setup(x => x.Value).Returns(configurations);
+
+		mockServiceScopeFactory
+			.Setup(x => x.CreateScope())
+			.Returns(mockServiceScope.Object);
+
+		mockServiceScope
+			.Setup(x => x.ServiceProvider.GetService(typeof(IJobClaimingService)))
+			.Returns(mockJobClaimingService.Object);
+
+		var channel = Channel.CreateBounded<Job>(new BoundedChannelOptions(3));
+		channel.Writer.TryWrite(queuedJob);
+		var cancellationTokenSource = new CancellationTokenSource();
+
+		mockJobClaimingService
+			.Setup(x => x.ClaimAndEnqueueJobsAsync(channel.Writer, workerId, It.IsAny<int>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(JobClaimingState.NoJobFound);
+		mockDelayCalculatorService
+			.Setup(x => x.CalculateDelay(JobClaimingState.NoJobFound, workerConfigurations))
+			.Returns(TimeSpan.FromMinutes(5));
+
+		var jobProducerService = new JobProducerService(
+			mockLogger.Object,
+			mockConfigurations.Object,
+			mockDelayCalculatorService.Object,
+			mockServiceScopeFactory.Object,
+			mockJobStatusNotifier.Object);
+
+		// Act
+		var timeoutTask = Task.Delay(200);
+		var serviceTask = jobProducerService.ProduceJobsAsync(channel, cancellationTokenSource.Token);
+
+		await Task.Delay(50);
+		cancellationTokenSource.Cancel();
+
+		await Task.WhenAny(serviceTask, timeoutTask);
+
+		// Assert
+		mockJobClaimingService.Verify(x => x.ClaimAndEnqueueJobsAsync(channel.Writer, workerId, 2, It.IsAny<CancellationToken>()), Times.Once);
+	}
+
+	/// <summary>
+	/// Verifies that an idle job producer claims again as soon as a job is queued,
+	/// instead of waiting for the polling delay to elapse.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ProduceJobsAsync_ClaimsImmediately_WhenJobIsQueuedWhileIdle(
+		Mock<ILogger<JobProducerService>> mockLogger,
+		Mock<IOptions<AsyncEndpointsConfigurations>> mockConfigurations,
+		Mock<IDelayCalculatorService> mockDelayCalculatorService,
+		Mock<IServiceScopeFactory> mockServiceScopeFactory,
+		Mock<IServiceScope> mockServiceScope,
+		Mock<IJobClaimingService> mockJobClaimingService,
+		Guid workerId,
+		Guid jobId)
+	{
+		// Arrange
+		var workerConfigurations = new AsyncEndpointsWorkerConfigurations { WorkerId = workerId };
+		var configurations = new AsyncEndpointsConfigurations { WorkerConfigurations = workerConfigurations };
+		mockConfigurations.Setup(x => x.Value).Returns(configurations);
+
+		mockServiceScopeFactory
+			.Setup(x => x.CreateScope())
+			.Returns(mockServiceScope.Object);
+
+		mockServiceScope
+			.Setup(x => x.ServiceProvider.GetService(typeof(IJobClaimingService)))
+			.Returns(mockJobClaimingService.Object);
+
+		var channel = Channel.CreateBounded<Job>(new BoundedChannelOptions(10));
+		var cancellationTokenSource = new CancellationTokenSource();
+		var jobStatusNotifier = new InMemoryJobStatusNotifier();
+
+		var claimCount = 0;
+		var secondClaim = new TaskCompletionSource(TaskCreationOptions.RunContinuationsAsynchronously);
+		mockJobClaimingService
+			.Setup(x => x.ClaimAndEnqueueJobsAsync(channel.Writer, workerId, workerConfigurations.BatchSize, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(() =>
+			{
+				if (Interlocked.Increment(ref claimCount) == 2)
+				{
+					secondClaim.TrySetResult();
+				}
+				return JobClaimingState.NoJobFound;
+			});
+
+		// The polling delay is far longer than the test, so only the wake-up can trigger the second claim
+		mockDelayCalculatorService
+			.Setup(x => x.CalculateDelay(JobClaimingState.NoJobFound, workerConfigurations))
+			.Returns(TimeSpan.FromMinutes(5));
+
+		var jobProducerService = new JobProducerService(
+			mockLogger.Object,
+			mockConfigurations.Object,
+			mockDelayCalculatorService.Object,
+			mockServiceScopeFactory.Object,
+			jobStatusNotifier);
+
+		var serviceTask = jobProducerService.ProduceJobsAsync(channel, cancellationTokenSource.Token);
+		await Task.Delay(50);
+
+		// Act
+		await jobStatusNotifier.NotifyStatusChanged(jobId, JobStatus.Queued, CancellationToken.None);
+		var completedTask = await Task.WhenAny(secondClaim.Task, Task.Delay(TimeSpan.FromSeconds(5)));
+
+		cancellationTokenSource.Cancel();
+		await serviceTask;
+
+		// Assert
+		Assert.Same(secondClaim.Task, completedTask);
+	}
 }
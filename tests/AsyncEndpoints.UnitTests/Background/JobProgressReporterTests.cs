@@ -0,0 +1,140 @@
+using AsyncEndpoints.Background;
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.Infrastructure;
+using AsyncEndpoints.Infrastructure.Serialization;
+using AsyncEndpoints.JobProcessing;
+using AsyncEndpoints.UnitTests.TestSupport;
+using AsyncEndpoints.Utilities;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+using Moq;
+
+namespace AsyncEndpoints.UnitTests.Background;
+
+public class JobProgressReporterTests
+{
+	/// <summary>
+	/// Verifies that the first report is written right away while reports within the update interval are held back
+	/// until the reporter is flushed, and that only the latest held back report is written.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ReportProgress_ThrottlesWrites_WithinUpdateInterval(
+		Mock<IJobManager> mockJobManager,
+		Mock<IDateTimeProvider> mockDateTimeProvider,
+		Guid jobId)
+	{
+		// Arrange
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(DateTimeOffset.UtcNow);
+		mockJobManager
+			.Setup(x => x.ReportJobProgress(jobId, It.IsAny<JobProgress>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Success());
+		var reporter = CreateReporter(mockJobManager.Object, mockDateTimeProvider.Object);
+		reporter.Attach(jobId);
+
+		// Act
+		await reporter.ReportProgress(10, "Imported 10000 rows");
+		await reporter.ReportProgress(20, "Imported 20000 rows");
+		await reporter.ReportProgress(30, "Imported 30000 rows");
+
+		// Assert
+		mockJobManager.Verify(x => x.ReportJobProgress(jobId, It.IsAny<JobProgress>(), It.IsAny<CancellationToken>()), Times.Once);
+		mockJobManager.Verify(x => x.ReportJobProgress(jobId, It.Is<JobProgress>(p => p.PercentComplete == 10), It.IsAny<CancellationToken>()), Times.Once);
+
+		// Act
+		await reporter.Flush(CancellationToken.None);
+
+		// Assert
+		mockJobManager.Verify(x => x.ReportJobProgress(jobId, It.IsAny<JobProgress>(), It.IsAny<CancellationToken>()), Times.Exactly(2));
+		mockJobManager.Verify(x => x.ReportJobProgress(jobId, It.Is<JobProgress>(p => p.PercentComplete == 30 && p.Message == "Imported 30000 rows"), It.IsAny<CancellationToken>()), Times.Once);
+	}
+
+	/// <summary>
+	/// Verifies that reporting completion is written immediately, even within the update interval.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ReportProgress_WritesCompletionImmediately(
+		Mock<IJobManager> mockJobManager,
+		Mock<IDateTimeProvider> mockDateTimeProvider,
+		Guid jobId)
+	{
+		// Arrange
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(DateTimeOffset.UtcNow);
+		mockJobManager
+			.Setup(x => x.ReportJobProgress(jobId, It.IsAny<JobProgress>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Success());
+		var reporter = CreateReporter(mockJobManager.Object, mockDateTimeProvider.Object);
+		reporter.Attach(jobId);
+
+		// Act
+		await reporter.ReportProgress(50);
+		await reporter.ReportProgress(100, "Done");
+
+		// Assert
+		mockJobManager.Verify(x => x.ReportJobProgress(jobId, It.Is<JobProgress>(p => p.PercentComplete == 100), It.IsAny<CancellationToken>()), Times.Once);
+	}
+
+	/// <summary>
+	/// Verifies that intermediate data is serialized and stored with the progress.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ReportProgress_SerializesData(
+		Mock<IJobManager> mockJobManager,
+		Mock<IDateTimeProvider> mockDateTimeProvider,
+		Mock<ISerializer> mockSerializer,
+		Guid jobId)
+	{
+		// Arrange
+		var data = new[] { "row 17 is invalid" };
+		mockSerializer.Setup(x => x.Serialize(data, null)).Returns("[\"row 17 is invalid\"]");
+		mockJobManager
+			.Setup(x => x.ReportJobProgress(jobId, It.IsAny<JobProgress>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Success());
+		var reporter = CreateReporter(mockJobManager.Object, mockDateTimeProvider.Object, mockSerializer.Object);
+		reporter.Attach(jobId);
+
+		// Act
+		await reporter.ReportProgress(25, "Validating rows", data);
+
+		// Assert
+		mockJobManager.Verify(x => x.ReportJobProgress(jobId, It.Is<JobProgress>(p => p.Data == "[\"row 17 is invalid\"]"), It.IsAny<CancellationToken>()), Times.Once);
+	}
+
+	/// <summary>
+	/// Verifies that progress outside of 0 to 100 percent is rejected.
+	/// </summary>
+	[Theory]
+	[InlineData(-1)]
+	[InlineData(100.5)]
+	[InlineData(double.NaN)]
+	public async Task ReportProgress_Throws_WhenPercentCompleteOutOfRange(double percentComplete)
+	{
+		// Arrange
+		var reporter = CreateReporter(Mock.Of<IJobManager>(), Mock.Of<IDateTimeProvider>());
+		reporter.Attach(Guid.NewGuid());
+
+		// Act & Assert
+		await Assert.ThrowsAsync<ArgumentOutOfRangeException>(() => reporter.ReportProgress(percentComplete));
+	}
+
+	/// <summary>
+	/// Verifies that progress reported by a reporter that is not bound to a job is ignored.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ReportProgress_IgnoresProgress_WhenNotAttachedToJob(
+		Mock<IJobManager> mockJobManager,
+		Mock<IDateTimeProvider> mockDateTimeProvider)
+	{
+		// Arrange
+		var reporter = CreateReporter(mockJobManager.Object, mockDateTimeProvider.Object);
+
+		// Act
+		await reporter.ReportProgress(100);
+		await reporter.Flush(CancellationToken.None);
+
+		// Assert
+		mockJobManager.Verify(x => x.ReportJobProgress(It.IsAny<Guid>(), It.IsAny<JobProgress>(), It.IsAny<CancellationToken>()), Times.Never);
+	}
+
+	private static JobProgressReporter CreateReporter(IJobManager jobManager, IDateTimeProvider dateTimeProvider, ISerializer? serializer = null) =>
+		new(Mock.Of<ILogger<JobProgressReporter>>(), jobManager, serializer ?? Mock.Of<ISerializer>(), dateTimeProvider, Options.Create(new AsyncEndpointsConfigurations()));
+}
@@ -0,0 +1,69 @@
+using AsyncEndpoints.Background;
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.JobProcessing;
+using AsyncEndpoints.Utilities;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+using Moq;
+
+namespace AsyncEndpoints.UnitTests.Background;
+
+public class JobRetentionPurgeServiceTests
+{
+	/// <summary>
+	/// Verifies that the purge keeps deleting batches of expired jobs until a batch comes back smaller than the batch size.
+	/// </summary>
+	[Fact]
+	public async Task PurgeExpiredJobs_DeletesBatches_UntilBatchIsNotFull()
+	{
+		// Arrange
+		var mockJobStore = new Mock<IJobStore>();
+		mockJobStore
+			.SetupSequence(x => x.DeleteExpiredJobs(10, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<int>.Success(10))
+			.ReturnsAsync(MethodResult<int>.Success(10))
+			.ReturnsAsync(MethodResult<int>.Success(3));
+
+		var service = CreateService(mockJobStore, batchSize: 10);
+
+		// Act
+		var purgedCount = await service.PurgeExpiredJobs(CancellationToken.None);
+
+		// Assert
+		Assert.Equal(23, purgedCount);
+		mockJobStore.Verify(x => x.DeleteExpiredJobs(10, It.IsAny<CancellationToken>()), Times.Exactly(3));
+	}
+
+	/// <summary>
+	/// Verifies that the purge stops at the first store failure instead of retrying within the same cycle.
+	/// </summary>
+	[Fact]
+	public async Task PurgeExpiredJobs_StopsPurging_WhenStoreFails()
+	{
+		// Arrange
+		var mockJobStore = new Mock<IJobStore>();
+		mockJobStore
+			.Setup(x => x.DeleteExpiredJobs(It.IsAny<int>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<int>.Failure(AsyncEndpointError.FromCode("JOB_STORE_ERROR", "Store unavailable")));
+
+		var service = CreateService(mockJobStore, batchSize: 10);
+
+		// Act
+		var purgedCount = await service.PurgeExpiredJobs(CancellationToken.None);
+
+		// Assert
+		Assert.Equal(0, purgedCount);
+		mockJobStore.Verify(x => x.DeleteExpiredJobs(It.IsAny<int>(), It.IsAny<CancellationToken>()), Times.Once);
+	}
+
+	private static JobRetentionPurgeService CreateService(Mock<IJobStore> mockJobStore, int batchSize)
+	{
+		var configurations = new AsyncEndpointsConfigurations();
+		configurations.RetentionConfigurations.PurgeBatchSize = batchSize;
+
+		return new JobRetentionPurgeService(
+			Mock.Of<ILogger<JobRetentionPurgeService>>(),
+			mockJobStore.Object,
+			Options.Create(configurations));
+	}
+}
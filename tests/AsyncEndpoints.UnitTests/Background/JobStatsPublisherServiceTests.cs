@@ -0,0 +1,77 @@
+using AsyncEndpoints.Background;
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.Infrastructure.Observability;
+using AsyncEndpoints.JobProcessing;
+using AsyncEndpoints.Utilities;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+using Moq;
+
+namespace AsyncEndpoints.UnitTests.Background;
+
+public class JobStatsPublisherServiceTests
+{
+	/// <summary>
+	/// Verifies that the job stats are published to the job count, oldest queued job age and scheduled retry gauges.
+	/// </summary>
+	[Fact]
+	public async Task PublishJobStats_SetsGauges_FromJobStats()
+	{
+		// Arrange
+		var now = DateTimeOffset.UtcNow;
+		var stats = new JobStats { GeneratedAt = now, OldestQueuedJobCreatedAt = now.AddSeconds(-90), ScheduledRetryCount = 4 };
+		stats.StatusCounts[JobStatus.Queued] = 7;
+
+		var mockJobStore = new Mock<IJobStore>();
+		mockJobStore
+			.Setup(x => x.GetJobStats(It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<JobStats>.Success(stats));
+		var mockMetrics = new Mock<IAsyncEndpointsObservability>();
+		var storeType = mockJobStore.Object.GetType().Name;
+
+		var service = CreateService(mockJobStore, mockMetrics);
+
+		// Act
+		var published = await service.PublishJobStats(CancellationToken.None);
+
+		// Assert
+		Assert.True(published);
+		mockMetrics.Verify(x => x.SetJobCurrentCount(nameof(JobStatus.Queued), storeType, 7), Times.Once);
+		mockMetrics.Verify(x => x.SetJobCurrentCount(nameof(JobStatus.Failed), storeType, 0), Times.Once);
+		mockMetrics.Verify(x => x.SetOldestQueuedJobAge(storeType, 90), Times.Once);
+		mockMetrics.Verify(x => x.SetScheduledRetryCount(storeType, 4), Times.Once);
+	}
+
+	/// <summary>
+	/// Verifies that no gauge is set when the job stats cannot be retrieved, so the last published values are kept.
+	/// </summary>
+	[Fact]
+	public async Task PublishJobStats_SetsNoGauges_WhenStoreFails()
+	{
+		// Arrange
+		var mockJobStore = new Mock<IJobStore>();
+		mockJobStore
+			.Setup(x => x.GetJobStats(It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<JobStats>.Failure(AsyncEndpointError.FromCode("JOB_STORE_ERROR", "Store unavailable")));
+		var mockMetrics = new Mock<IAsyncEndpointsObservability>();
+
+		var service = CreateService(mockJobStore, mockMetrics);
+
+		// Act
+		var published = await service.PublishJobStats(CancellationToken.None);
+
+		// Assert
+		Assert.False(published);
+		mockMetrics.Verify(x => x.SetJobCurrentCount(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<long>()), Times.Never);
+		mockMetrics.Verify(x => x.SetOldestQueuedJobAge(It.IsAny<string>(), It.IsAny<double>()), Times.Never);
+	}
+
+	private static JobStatsPublisherService CreateService(Mock<IJobStore> mockJobStore, Mock<IAsyncEndpointsObservability> mockMetrics)
+	{
+		return new JobStatsPublisherService(
+			Mock.Of<ILogger<JobStatsPublisherService>>(),
+			mockJobStore.Object,
+			mockMetrics.Object,
+			Options.Create(new AsyncEndpointsConfigurations()));
+	}
+}
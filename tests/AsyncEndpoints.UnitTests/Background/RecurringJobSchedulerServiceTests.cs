@@ -0,0 +1,138 @@
+using AsyncEndpoints.Background;
+using AsyncEndpoints.Infrastructure;
+using AsyncEndpoints.Infrastructure.Serialization;
+using AsyncEndpoints.JobProcessing;
+using AsyncEndpoints.Utilities;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Logging;
+using Moq;
+
+namespace AsyncEndpoints.UnitTests.Background;
+
+public class RecurringJobSchedulerServiceTests
+{
+	private static readonly DateTimeOffset _registeredAt = new(2026, 10, 19, 2, 59, 0, TimeSpan.Zero);
+	private static readonly DateTimeOffset _occurrence = new(2026, 10, 19, 3, 0, 0, TimeSpan.Zero);
+
+	/// <summary>
+	/// Verifies that a due occurrence is scheduled through the job manager with the job ID derived from the occurrence,
+	/// and that the registry moves the recurring job to its next occurrence.
+	/// </summary>
+	[Fact]
+	public async Task EnqueueDueJobs_SchedulesDueOccurrence_WithOccurrenceJobId()
+	{
+		// Arrange
+		var mockJobManager = new Mock<IJobManager>();
+		var (service, registry, mockDateTimeProvider) = CreateService(mockJobManager);
+		var definition = registry.Definitions[0];
+		var expectedJobId = definition.GetOccurrenceJobId(_occurrence);
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(_occurrence.AddSeconds(30));
+		mockJobManager
+			.Setup(x => x.ScheduleJob(expectedJobId, "cleanup", "{}", _occurrence, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(new Job { Id = expectedJobId, Name = "cleanup" }));
+
+		// Act
+		await service.EnqueueDueJobs(CancellationToken.None);
+
+		// Assert
+		mockJobManager.Verify(x => x.ScheduleJob(expectedJobId, "cleanup", "{}", _occurrence, It.IsAny<CancellationToken>()), Times.Once);
+		var state = registry.GetState("cleanup");
+		Assert.NotNull(state);
+		Assert.Equal(_occurrence, state.LastRunAt);
+		Assert.Equal(expectedJobId, state.LastJobId);
+		Assert.Equal(_occurrence.AddDays(1), state.NextRunAt);
+	}
+
+	/// <summary>
+	/// Verifies that separate instances enqueue the same occurrence with the same job ID,
+	/// so that a shared job store creates the occurrence only once.
+	/// </summary>
+	[Fact]
+	public async Task EnqueueDueJobs_UsesSameJobId_AcrossInstances()
+	{
+		// Arrange
+		var scheduledJobIds = new List<Guid>();
+		var mockJobManager = new Mock<IJobManager>();
+		mockJobManager
+			.Setup(x => x.ScheduleJob(It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<string>(), It.IsAny<DateTimeOffset>(), It.IsAny<CancellationToken>()))
+			.Callback<Guid, string, string, DateTimeOffset, CancellationToken>((jobId, _, _, _, _) => scheduledJobIds.Add(jobId))
+			.ReturnsAsync((Guid jobId, string jobName, string _, DateTimeOffset _, CancellationToken _) => MethodResult<Job>.Success(new Job { Id = jobId, Name = jobName }));
+
+		var (firstService, _, firstDateTimeProvider) = CreateService(mockJobManager);
+		var (secondService, _, secondDateTimeProvider) = CreateService(mockJobManager);
+		firstDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(_occurrence.AddSeconds(1));
+		secondDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(_occurrence.AddSeconds(20));
+
+		// Act
+		await firstService.EnqueueDueJobs(CancellationToken.None);
+		await secondService.EnqueueDueJobs(CancellationToken.None);
+
+		// Assert
+		Assert.Equal(2, scheduledJobIds.Count);
+		Assert.Equal(scheduledJobIds[0], scheduledJobIds[1]);
+	}
+
+	/// <summary>
+	/// Verifies that nothing is enqueued before the next occurrence is due.
+	/// </summary>
+	[Fact]
+	public async Task EnqueueDueJobs_DoesNothing_WhenNoOccurrenceIsDue()
+	{
+		// Arrange
+		var mockJobManager = new Mock<IJobManager>();
+		var (service, _, mockDateTimeProvider) = CreateService(mockJobManager);
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(_occurrence.AddSeconds(-1));
+
+		// Act
+		await service.EnqueueDueJobs(CancellationToken.None);
+
+		// Assert
+		mockJobManager.Verify(x => x.ScheduleJob(It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<string>(), It.IsAny<DateTimeOffset>(), It.IsAny<CancellationToken>()), Times.Never);
+	}
+
+	/// <summary>
+	/// Verifies that an occurrence that could not be enqueued stays due, so that it is retried on the next cycle.
+	/// </summary>
+	[Fact]
+	public async Task EnqueueDueJobs_KeepsOccurrenceDue_WhenSchedulingFails()
+	{
+		// Arrange
+		var mockJobManager = new Mock<IJobManager>();
+		var (service, registry, mockDateTimeProvider) = CreateService(mockJobManager);
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(_occurrence.AddSeconds(30));
+		mockJobManager
+			.Setup(x => x.ScheduleJob(It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<string>(), It.IsAny<DateTimeOffset>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Failure("Store unavailable"));
+
+		// Act
+		await service.EnqueueDueJobs(CancellationToken.None);
+
+		// Assert
+		var state = registry.GetState("cleanup");
+		Assert.NotNull(state);
+		Assert.Equal(_occurrence, state.NextRunAt);
+		Assert.Null(state.LastRunAt);
+	}
+
+	private static (RecurringJobSchedulerService Service, RecurringJobRegistry Registry, Mock<IDateTimeProvider> DateTimeProvider) CreateService(Mock<IJobManager> mockJobManager)
+	{
+		var mockDateTimeProvider = new Mock<IDateTimeProvider>();
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(_registeredAt);
+
+		var definition = new RecurringJobDefinition("cleanup", CronExpression.Parse("0 3 * * *"), serializer => "{}");
+		var registry = new RecurringJobRegistry([definition], mockDateTimeProvider.Object);
+
+		var services = new ServiceCollection();
+		services.AddScoped(_ => mockJobManager.Object);
+		var serviceScopeFactory = services.BuildServiceProvider().GetRequiredService<IServiceScopeFactory>();
+
+		var service = new RecurringJobSchedulerService(
+			Mock.Of<ILogger<RecurringJobSchedulerService>>(),
+			registry,
+			serviceScopeFactory,
+			Mock.Of<ISerializer>(),
+			mockDateTimeProvider.Object);
+
+		return (service, registry, mockDateTimeProvider);
+	}
+}
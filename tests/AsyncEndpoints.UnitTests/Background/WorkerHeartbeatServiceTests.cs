@@ -0,0 +1,62 @@
+using AsyncEndpoints.Background;
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.Infrastructure;
+using AsyncEndpoints.JobProcessing;
+using AsyncEndpoints.Utilities;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+using Moq;
+
+namespace AsyncEndpoints.UnitTests.Background;
+
+public class WorkerHeartbeatServiceTests
+{
+	/// <summary>
+	/// Verifies that a heartbeat carries the jobs held by the worker and expires after the lease duration.
+	/// </summary>
+	[Fact]
+	public async Task SendHeartbeat_StoresHeartbeat_WithTrackedJobsAndLeaseExpiry()
+	{
+		// Arrange
+		var now = new DateTimeOffset(2025, 1, 1, 12, 0, 0, TimeSpan.Zero);
+		var configurations = new AsyncEndpointsConfigurations();
+		configurations.WorkerConfigurations.MaximumConcurrency = 4;
+		configurations.WorkerConfigurations.Queues = new() { ["reports"] = 1, ["emails"] = 2 };
+		var recoveryConfigurations = new AsyncEndpointsRecoveryConfigurations { LeaseDurationSeconds = 60 };
+
+		var mockDateTimeProvider = new Mock<IDateTimeProvider>();
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(now);
+
+		var jobId = Guid.NewGuid();
+		var workerJobTracker = new WorkerJobTracker();
+		workerJobTracker.Track(jobId);
+
+		WorkerHeartbeat? storedHeartbeat = null;
+		var mockJobStore = new Mock<IJobStore>();
+		mockJobStore
+			.Setup(x => x.SaveWorkerHeartbeat(It.IsAny<WorkerHeartbeat>(), It.IsAny<CancellationToken>()))
+			.Callback<WorkerHeartbeat, CancellationToken>((heartbeat, _) => storedHeartbeat = heartbeat)
+			.ReturnsAsync(MethodResult.Success());
+
+		var service = new WorkerHeartbeatService(
+			Mock.Of<ILogger<WorkerHeartbeatService>>(),
+			mockJobStore.Object,
+			workerJobTracker,
+			mockDateTimeProvider.Object,
+			Options.Create(configurations),
+			recoveryConfigurations);
+
+		// Act
+		var result = await service.SendHeartbeat(CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.NotNull(storedHeartbeat);
+		Assert.Equal(configurations.WorkerConfigurations.WorkerId, storedHeartbeat.WorkerId);
+		Assert.Equal(4, storedHeartbeat.MaximumConcurrency);
+		Assert.Equal(["emails", "reports"], storedHeartbeat.Queues);
+		Assert.Equal([jobId], storedHeartbeat.JobIds);
+		Assert.Equal(now, storedHeartbeat.LastHeartbeatAt);
+		Assert.Equal(now.AddSeconds(60), storedHeartbeat.ExpiresAt);
+	}
+}
@@ -1,5 +1,6 @@
 using AsyncEndpoints.Configuration;
 using AsyncEndpoints.Extensions;
+using AsyncEndpoints.JobProcessing;
 using AsyncEndpoints.UnitTests.TestSupport;
 using Microsoft.AspNetCore.Http;
 
@@ -35,6 +36,39 @@ public class HttpContextExtensionsTests
 		Assert.NotEqual(Guid.Empty, result);
 	}
 
+	[Fact]
+	public void TryGetPriority_PrefersHeader_OverEndpointMetadata()
+	{
+		// Arrange
+		var httpContext = new DefaultHttpContext();
+		httpContext.SetEndpoint(new Endpoint(null, new EndpointMetadataCollection(new JobPriorityMetadata(5)), "Test"));
+
+		// Act
+		var metadataResult = httpContext.TryGetPriority(out var metadataPriority);
+		httpContext.Request.Headers[AsyncEndpointsConstants.PriorityHeaderName] = "-2";
+		var headerResult = httpContext.TryGetPriority(out var headerPriority);
+
+		// Assert
+		Assert.True(metadataResult);
+		Assert.Equal(5, metadataPriority);
+		Assert.True(headerResult);
+		Assert.Equal(-2, headerPriority);
+	}
+
+	[Fact]
+	public void TryGetPriority_ReturnsFalse_WhenHeaderIsNotAnInteger()
+	{
+		// Arrange
+		var httpContext = new DefaultHttpContext();
+		httpContext.Request.Headers[AsyncEndpointsConstants.PriorityHeaderName] = "high";
+
+		// Act
+		var result = httpContext.TryGetPriority(out _);
+
+		// Assert
+		Assert.False(result);
+	}
+
 	[Theory, AutoMoqData]
 	public void GetHeadersFromContext_ReturnsCorrectHeaders(
 		string headerName,
@@ -0,0 +1,94 @@
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.Infrastructure.Blobs;
+using AsyncEndpoints.Utilities;
+using Microsoft.Extensions.Logging;
+using Moq;
+
+namespace AsyncEndpoints.UnitTests.Infrastructure.Blobs;
+
+public class FileSystemJobBlobStoreTests : IDisposable
+{
+	private readonly string _rootPath;
+	private readonly Mock<IDateTimeProvider> _mockDateTimeProvider;
+	private readonly FileSystemJobBlobStore _blobStore;
+	private readonly DateTimeOffset _now = new(2025, 1, 1, 12, 0, 0, TimeSpan.Zero);
+
+	public FileSystemJobBlobStoreTests()
+	{
+		_rootPath = Path.Combine(Path.GetTempPath(), $"asyncendpoints-blobs-{Guid.NewGuid():N}");
+
+		_mockDateTimeProvider = new Mock<IDateTimeProvider>();
+		_mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(_now);
+
+		_blobStore = new FileSystemJobBlobStore(_rootPath, Mock.Of<ILogger<FileSystemJobBlobStore>>(), _mockDateTimeProvider.Object);
+	}
+
+	public void Dispose()
+	{
+		if (Directory.Exists(_rootPath))
+		{
+			Directory.Delete(_rootPath, recursive: true);
+		}
+	}
+
+	/// <summary>
+	/// Verifies that a saved blob is read back with its content and content type.
+	/// </summary>
+	[Fact]
+	public async Task SaveBlob_ThenOpenBlob_RoundTripsContentAndContentType()
+	{
+		// Arrange
+		var content = "{\"value\":\"large result\"}";
+
+		// Act
+		var saveResult = await _blobStore.SaveBlob("job-result", content, "application/json", null, CancellationToken.None);
+		var openResult = await _blobStore.OpenBlob("job-result", CancellationToken.None);
+
+		// Assert
+		Assert.True(saveResult.IsSuccess);
+		Assert.True(openResult.IsSuccess);
+		Assert.Equal("application/json", openResult.Data.ContentType);
+		using var reader = new StreamReader(openResult.Data.Content);
+		Assert.Equal(content, await reader.ReadToEndAsync());
+	}
+
+	/// <summary>
+	/// Verifies that expired blobs are reported as not found and deleted, while blobs without an expiry are kept.
+	/// </summary>
+	[Fact]
+	public async Task DeleteExpiredBlobs_DeletesOnlyExpiredBlobs()
+	{
+		// Arrange
+		await _blobStore.SaveBlob("expired", "{}", "application/json", _now.AddMinutes(-1), CancellationToken.None);
+		await _blobStore.SaveBlob("retained", "{}", "application/json", null, CancellationToken.None);
+
+		// Act
+		var openExpiredResult = await _blobStore.OpenBlob("expired", CancellationToken.None);
+		var deleteResult = await _blobStore.DeleteExpiredBlobs(100, CancellationToken.None);
+
+		// Assert
+		Assert.False(openExpiredResult.IsSuccess);
+		Assert.Equal(AsyncEndpointsConstants.BlobNotFoundErrorCode, openExpiredResult.Error.Code);
+		Assert.True(deleteResult.IsSuccess);
+		Assert.Equal(1, deleteResult.Data);
+		Assert.False(File.Exists(Path.Combine(_rootPath, "expired.blob")));
+		Assert.True(File.Exists(Path.Combine(_rootPath, "retained.blob")));
+	}
+
+	/// <summary>
+	/// Verifies that blob IDs that could address files outside the blob directory are rejected.
+	/// </summary>
+	[Theory]
+	[InlineData("..")]
+	[InlineData("../outside")]
+	[InlineData("")]
+	public async Task SaveBlob_ReturnsFailure_WhenBlobIdIsInvalid(string blobId)
+	{
+		// Act
+		var result = await _blobStore.SaveBlob(blobId, "{}", "application/json", null, CancellationToken.None);
+
+		// Assert
+		Assert.False(result.IsSuccess);
+		Assert.Equal("INVALID_BLOB_ID", result.Error.Code);
+	}
+}
@@ -0,0 +1,109 @@
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.Infrastructure.Callbacks;
+using AsyncEndpoints.Infrastructure.Serialization;
+using AsyncEndpoints.JobProcessing;
+using AsyncEndpoints.UnitTests.TestSupport;
+using AsyncEndpoints.Utilities;
+using AutoFixture.Xunit2;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+using Moq;
+using System.Net;
+using System.Text.Json;
+
+namespace AsyncEndpoints.UnitTests.Infrastructure.Callbacks;
+
+public class JobCallbackSenderTests
+{
+	/// <summary>
+	/// Verifies that the callback signature is the lowercase hex HMAC-SHA256 of the body prefixed with the algorithm name.
+	/// This ensures receivers can verify callbacks with standard HMAC tooling.
+	/// </summary>
+	[Fact]
+	public void ComputeSignature_ReturnsHmacSha256OfBody()
+	{
+		// Act
+		var signature = JobCallbackSender.ComputeSignature("The quick brown fox jumps over the lazy dog", "key");
+
+		// Assert
+		Assert.Equal("sha256=f7bc83f430538424b13298e6aa6fb143ef4d59a14946175997479dbc2d1a3cd8", signature);
+	}
+
+	/// <summary>
+	/// Verifies that the callback is posted to the callback URL of the job with the job ID and signature headers.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task SendAsync_PostsSignedJobResponse_WhenSigningSecretConfigured(
+		[Frozen] Mock<ILogger<JobCallbackSender>> mockLogger,
+		Mock<IHttpClientFactory> mockHttpClientFactory,
+		Mock<ISerializer> mockSerializer,
+		Job job)
+	{
+		// Arrange
+		job.Result = null;
+		job.Callback = new JobCallback { Url = "https://receiver.example.com/callbacks" };
+		var configurations = new AsyncEndpointsConfigurations();
+		configurations.CallbackConfigurations.SigningSecret = "secret";
+
+		var handler = new RecordingHttpMessageHandler(HttpStatusCode.OK);
+		mockHttpClientFactory
+			.Setup(x => x.CreateClient(AsyncEndpointsConstants.CallbackHttpClientName))
+			.Returns(new HttpClient(handler));
+		mockSerializer
+			.Setup(x => x.Serialize(It.IsAny<JobResponse>(), It.IsAny<JsonSerializerOptions?>()))
+			.Returns("{\"result\":null}");
+
+		var sender = new JobCallbackSender(mockLogger.Object, mockHttpClientFactory.Object, mockSerializer.Object, Options.Create(configurations));
+
+		// Act
+		var result = await sender.SendAsync(job, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.NotNull(handler.Request);
+		Assert.Equal(HttpMethod.Post, handler.Request.Method);
+		Assert.Equal(job.Callback.Url, handler.Request.RequestUri?.ToString());
+		Assert.Equal(job.Id.ToString(), handler.Request.Headers.GetValues(AsyncEndpointsConstants.JobIdHeaderName).Single());
+		Assert.Equal(JobCallbackSender.ComputeSignature("{\"result\":null}", "secret"), handler.Request.Headers.GetValues(AsyncEndpointsConstants.CallbackSignatureHeaderName).Single());
+	}
+
+	/// <summary>
+	/// Verifies that a non-success status code from the receiver is reported as a failed delivery.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task SendAsync_ReturnsFailure_WhenReceiverRespondsWithError(
+		[Frozen] Mock<ILogger<JobCallbackSender>> mockLogger,
+		Mock<IHttpClientFactory> mockHttpClientFactory,
+		Mock<ISerializer> mockSerializer,
+		Job job)
+	{
+		// Arrange
+		job.Callback = new JobCallback { Url = "https://receiver.example.com/callbacks" };
+		mockHttpClientFactory
+			.Setup(x => x.CreateClient(AsyncEndpointsConstants.CallbackHttpClientName))
+			.Returns(new HttpClient(new RecordingHttpMessageHandler(HttpStatusCode.ServiceUnavailable)));
+		mockSerializer
+			.Setup(x => x.Serialize(It.IsAny<JobResponse>(), It.IsAny<JsonSerializerOptions?>()))
+			.Returns("{}");
+
+		var sender = new JobCallbackSender(mockLogger.Object, mockHttpClientFactory.Object, mockSerializer.Object, Options.Create(new AsyncEndpointsConfigurations()));
+
+		// Act
+		var result = await sender.SendAsync(job, CancellationToken.None);
+
+		// Assert
+		Assert.False(result.IsSuccess);
+		Assert.Equal("CALLBACK_DELIVERY_FAILED", result.Error.Code);
+	}
+
+	private sealed class RecordingHttpMessageHandler(HttpStatusCode statusCode) : HttpMessageHandler
+	{
+		public HttpRequestMessage? Request { get; private set; }
+
+		protected override Task<HttpResponseMessage> SendAsync(HttpRequestMessage request, CancellationToken cancellationToken)
+		{
+			Request = request;
+			return Task.FromResult(new HttpResponseMessage(statusCode));
+		}
+	}
+}
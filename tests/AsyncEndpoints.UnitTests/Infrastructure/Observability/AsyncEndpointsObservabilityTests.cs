@@ -1,8 +1,10 @@
 using AsyncEndpoints.Configuration;
 using AsyncEndpoints.Infrastructure.Observability;
+using AsyncEndpoints.JobProcessing;
 using AsyncEndpoints.UnitTests.TestSupport;
 using Microsoft.Extensions.Options;
 using Moq;
+using System.Diagnostics;
 
 namespace AsyncEndpoints.UnitTests.Infrastructure.Observability;
 
@@ -75,4 +77,36 @@ public class AsyncEndpointsObservabilityTests
 		Assert.NotNull(timer);
 		Assert.IsType<IDisposable>(timer, exactMatch: false);
 	}
+
+	/// <summary>
+	/// Verifies that the processing activity of a job continues the trace the job was submitted in and carries its baggage.
+	/// </summary>
+	[Fact]
+	public void StartJobProcessActivity_WhenJobHasTraceContext_ContinuesSubmittedTrace()
+	{
+		// Arrange
+		using var listener = new ActivityListener
+		{
+			ShouldListenTo = source => source.Name == "AsyncEndpoints",
+			Sample = (ref ActivityCreationOptions<ActivityContext> _) => ActivitySamplingResult.AllDataAndRecorded
+		};
+		ActivitySource.AddActivityListener(listener);
+
+		var observability = new AsyncEndpointsObservability(Options.Create(new AsyncEndpointsConfigurations()));
+		var job = new Job
+		{
+			Name = "TestJob",
+			TraceParent = "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01",
+			Baggage = "tenant=acme"
+		};
+
+		// Act
+		using var activity = observability.StartJobProcessActivity("InMemory", job);
+
+		// Assert
+		Assert.NotNull(activity);
+		Assert.Equal("0af7651916cd43dd8448eb211c80319c", activity.TraceId.ToHexString());
+		Assert.Equal("b7ad6b7169203331", activity.ParentSpanId.ToHexString());
+		Assert.Equal("acme", activity.GetBaggageItem("tenant"));
+	}
 }
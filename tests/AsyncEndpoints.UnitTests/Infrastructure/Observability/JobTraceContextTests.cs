@@ -0,0 +1,56 @@
+using AsyncEndpoints.Infrastructure.Observability;
+using AsyncEndpoints.JobProcessing;
+using System.Diagnostics;
+
+namespace AsyncEndpoints.UnitTests.Infrastructure.Observability;
+
+public class JobTraceContextTests
+{
+	/// <summary>
+	/// Verifies that the trace context and baggage captured from an activity are restored as the remote parent context and baggage of the job.
+	/// </summary>
+	[Fact]
+	public void Capture_StoresTraceContext_ThatIsRestoredAsParentContext()
+	{
+		// Arrange
+		using var activity = new Activity("Job.Submit").SetIdFormat(ActivityIdFormat.W3C);
+		activity.TraceStateString = "vendor=value";
+		activity.AddBaggage("tenant", "acme corp");
+		activity.AddBaggage("region", "eu");
+		activity.Start();
+		var job = new Job();
+
+		// Act
+		JobTraceContext.Capture(job, activity);
+		var restored = JobTraceContext.TryGetParentContext(job, out var parentContext);
+
+		// Assert
+		Assert.Equal(activity.Id, job.TraceParent);
+		Assert.True(restored);
+		Assert.Equal(activity.TraceId, parentContext.TraceId);
+		Assert.Equal(activity.SpanId, parentContext.SpanId);
+		Assert.Equal("vendor=value", parentContext.TraceState);
+		Assert.True(parentContext.IsRemote);
+		Assert.Equal(
+			[new KeyValuePair<string, string?>("tenant", "acme corp"), new KeyValuePair<string, string?>("region", "eu")],
+			JobTraceContext.GetBaggage(job));
+	}
+
+	/// <summary>
+	/// Verifies that jobs submitted outside of an activity carry no trace context.
+	/// </summary>
+	[Fact]
+	public void Capture_LeavesTraceContextEmpty_WhenNoActivity()
+	{
+		// Arrange
+		var job = new Job();
+
+		// Act
+		JobTraceContext.Capture(job, null);
+
+		// Assert
+		Assert.Null(job.TraceParent);
+		Assert.False(JobTraceContext.TryGetParentContext(job, out _));
+		Assert.Empty(JobTraceContext.GetBaggage(job));
+	}
+}
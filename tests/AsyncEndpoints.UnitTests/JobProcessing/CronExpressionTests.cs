@@ -0,0 +1,116 @@
+using AsyncEndpoints.JobProcessing;
+
+namespace AsyncEndpoints.UnitTests.JobProcessing;
+
+public class CronExpressionTests
+{
+	private static readonly DateTimeOffset _monday = new(2026, 10, 19, 12, 34, 56, TimeSpan.Zero);
+
+	/// <summary>
+	/// Verifies that the next occurrence of common cron expressions is computed in UTC from the given time.
+	/// </summary>
+	[Theory]
+	[InlineData("0 3 * * *", "2026-10-20T03:00:00+00:00")]
+	[InlineData("*/15 * * * *", "2026-10-19T12:45:00+00:00")]
+	[InlineData("0 0 1 * *", "2026-11-01T00:00:00+00:00")]
+	[InlineData("0 9 * * 1-5", "2026-10-20T09:00:00+00:00")]
+	[InlineData("5/20 * * * *", "2026-10-19T12:45:00+00:00")]
+	[InlineData("0 0 * * 7", "2026-10-25T00:00:00+00:00")]
+	[InlineData("0 0 29 2 *", "2028-02-29T00:00:00+00:00")]
+	public void GetNextOccurrence_ReturnsNextMatchingTime(string expression, string expectedOccurrence)
+	{
+		// Arrange
+		var cronExpression = CronExpression.Parse(expression);
+
+		// Act
+		var occurrence = cronExpression.GetNextOccurrence(_monday);
+
+		// Assert
+		Assert.Equal(DateTimeOffset.Parse(expectedOccurrence), occurrence);
+	}
+
+	/// <summary>
+	/// Verifies that an occurrence time itself is not returned as its own next occurrence.
+	/// </summary>
+	[Fact]
+	public void GetNextOccurrence_ReturnsLaterOccurrence_WhenTimeIsAnOccurrence()
+	{
+		// Arrange
+		var cronExpression = CronExpression.Parse("0 3 * * *");
+		var occurrence = new DateTimeOffset(2026, 10, 20, 3, 0, 0, TimeSpan.Zero);
+
+		// Act
+		var nextOccurrence = cronExpression.GetNextOccurrence(occurrence);
+
+		// Assert
+		Assert.Equal(occurrence.AddDays(1), nextOccurrence);
+	}
+
+	/// <summary>
+	/// Verifies that a day matches either day field when both the day of month and the day of week are restricted, as in standard cron.
+	/// </summary>
+	[Fact]
+	public void GetNextOccurrence_MatchesEitherDayField_WhenBothAreRestricted()
+	{
+		// Arrange
+		var cronExpression = CronExpression.Parse("0 0 13 * 5");
+
+		// Act
+		var occurrence = cronExpression.GetNextOccurrence(_monday);
+
+		// Assert
+		Assert.Equal(new DateTimeOffset(2026, 10, 23, 0, 0, 0, TimeSpan.Zero), occurrence);
+	}
+
+	/// <summary>
+	/// Verifies that an expression that never matches a real date has no next occurrence.
+	/// </summary>
+	[Fact]
+	public void GetNextOccurrence_ReturnsNull_WhenExpressionNeverMatches()
+	{
+		// Arrange
+		var cronExpression = CronExpression.Parse("0 0 30 2 *");
+
+		// Act
+		var occurrence = cronExpression.GetNextOccurrence(_monday);
+
+		// Assert
+		Assert.Null(occurrence);
+	}
+
+	/// <summary>
+	/// Verifies that malformed expressions and out of range values are rejected.
+	/// </summary>
+	[Theory]
+	[InlineData(null)]
+	[InlineData("")]
+	[InlineData("* * * *")]
+	[InlineData("* * * * * *")]
+	[InlineData("60 * * * *")]
+	[InlineData("* 24 * * *")]
+	[InlineData("* * 0 * *")]
+	[InlineData("* * * 13 *")]
+	[InlineData("* * * * 8")]
+	[InlineData("*/0 * * * *")]
+	[InlineData("5-1 * * * *")]
+	[InlineData("a * * * *")]
+	public void TryParse_ReturnsFalse_WhenExpressionIsInvalid(string? expression)
+	{
+		// Act
+		var success = CronExpression.TryParse(expression, out var cronExpression);
+
+		// Assert
+		Assert.False(success);
+		Assert.Null(cronExpression);
+	}
+
+	/// <summary>
+	/// Verifies that parsing an invalid expression throws a format exception.
+	/// </summary>
+	[Fact]
+	public void Parse_Throws_WhenExpressionIsInvalid()
+	{
+		// Act & Assert
+		Assert.Throws<FormatException>(() => CronExpression.Parse("every night"));
+	}
+}
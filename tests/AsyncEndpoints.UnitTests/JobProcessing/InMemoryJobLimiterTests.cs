@@ -0,0 +1,79 @@
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.Infrastructure;
+using AsyncEndpoints.JobProcessing;
+using Microsoft.Extensions.Options;
+using Moq;
+
+namespace AsyncEndpoints.UnitTests.JobProcessing;
+
+public class InMemoryJobLimiterTests
+{
+	private static readonly DateTimeOffset _now = new(2025, 1, 1, 12, 0, 0, TimeSpan.Zero);
+
+	/// <summary>
+	/// Verifies that jobs beyond the concurrency limit of their name are saturated until a running job releases its slot.
+	/// </summary>
+	[Fact]
+	public async Task TryAcquire_SaturatesJobs_BeyondConcurrencyLimit_UntilReleased()
+	{
+		// Arrange
+		var limiter = CreateLimiter(new AsyncEndpointsJobLimits { MaxConcurrency = 2 }, Mock.Of<IDateTimeProvider>());
+		var firstJob = CreateJob();
+		var secondJob = CreateJob();
+		var thirdJob = CreateJob();
+
+		// Act
+		var firstResult = await limiter.TryAcquire(firstJob, CancellationToken.None);
+		var secondResult = await limiter.TryAcquire(secondJob, CancellationToken.None);
+		var saturatedResult = await limiter.TryAcquire(thirdJob, CancellationToken.None);
+		await limiter.Release(firstJob, CancellationToken.None);
+		var releasedResult = await limiter.TryAcquire(thirdJob, CancellationToken.None);
+
+		// Assert
+		Assert.True(firstResult.Data.IsAcquired);
+		Assert.True(secondResult.Data.IsAcquired);
+		Assert.False(saturatedResult.Data.IsAcquired);
+		Assert.Equal(TimeSpan.FromMilliseconds(AsyncEndpointsConstants.JobLimitDeferDelayMs), saturatedResult.Data.RetryAfter);
+		Assert.True(releasedResult.Data.IsAcquired);
+	}
+
+	/// <summary>
+	/// Verifies that the rate limit allows a burst of its permits and then defers jobs until the next permit is refilled.
+	/// </summary>
+	[Fact]
+	public async Task TryAcquire_DefersJobs_UntilRateLimitPermitIsRefilled()
+	{
+		// Arrange
+		var mockDateTimeProvider = new Mock<IDateTimeProvider>();
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(_now);
+		var limiter = CreateLimiter(new AsyncEndpointsJobLimits { RateLimitPermits = 2, RateLimitPeriod = TimeSpan.FromMinutes(1) }, mockDateTimeProvider.Object);
+
+		// Act
+		var firstResult = await limiter.TryAcquire(CreateJob(), CancellationToken.None);
+		var secondResult = await limiter.TryAcquire(CreateJob(), CancellationToken.None);
+		var saturatedResult = await limiter.TryAcquire(CreateJob(), CancellationToken.None);
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(_now.AddSeconds(30));
+		var refilledResult = await limiter.TryAcquire(CreateJob(), CancellationToken.None);
+
+		// Assert
+		Assert.True(firstResult.Data.IsAcquired);
+		Assert.True(secondResult.Data.IsAcquired);
+		Assert.False(saturatedResult.Data.IsAcquired);
+		Assert.Equal(TimeSpan.FromSeconds(30), saturatedResult.Data.RetryAfter);
+		Assert.True(refilledResult.Data.IsAcquired);
+	}
+
+	private static InMemoryJobLimiter CreateLimiter(AsyncEndpointsJobLimits limits, IDateTimeProvider dateTimeProvider)
+	{
+		var configurations = new AsyncEndpointsConfigurations();
+		configurations.WorkerConfigurations.JobLimits["CallPartnerApi"] = limits;
+		return new InMemoryJobLimiter(Options.Create(configurations), dateTimeProvider);
+	}
+
+	private static Job CreateJob() => new(_now)
+	{
+		Id = Guid.NewGuid(),
+		Name = "CallPartnerApi",
+		Payload = "{}"
+	};
+}
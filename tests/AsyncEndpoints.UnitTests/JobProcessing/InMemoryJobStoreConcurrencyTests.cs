@@ -32,7 +32,7 @@ public class InMemoryJobStoreConcurrencyTests
 			.Returns((Activity?)null);
 
 		// Create store manually with the required dependencies
-		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object);
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
 
 		// Setup datetime mock
 		var expectedTime = DateTimeOffset.UtcNow;
@@ -100,7 +100,7 @@ public class InMemoryJobStoreConcurrencyTests
 			.Returns((Activity?)null);
 
 		// Create store manually with the required dependencies
-		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object);
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
 
 		// Setup datetime mock
 		var expectedTime = DateTimeOffset.UtcNow;
@@ -116,9 +116,9 @@ public class InMemoryJobStoreConcurrencyTests
 		var worker2Id = Guid.NewGuid();
 		var worker3Id = Guid.NewGuid();
 
-		var claimTask1 = store.ClaimNextJobForWorker(worker1Id, CancellationToken.None);
-		var claimTask2 = store.ClaimNextJobForWorker(worker2Id, CancellationToken.None);
-		var claimTask3 = store.ClaimNextJobForWorker(worker3Id, CancellationToken.None);
+		var claimTask1 = store.ClaimNextJobForWorker(worker1Id, null, CancellationToken.None);
+		var claimTask2 = store.ClaimNextJobForWorker(worker2Id, null, CancellationToken.None);
+		var claimTask3 = store.ClaimNextJobForWorker(worker3Id, null, CancellationToken.None);
 
 		// Act
 		var claimResults = await Task.WhenAll(claimTask1, claimTask2, claimTask3);
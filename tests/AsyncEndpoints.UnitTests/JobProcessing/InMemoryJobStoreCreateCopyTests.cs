@@ -33,7 +33,7 @@ public class InMemoryJobStoreCreateCopyTests
 			.Returns((Activity?)null);
 
 		// Create store manually with the required dependencies
-		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object);
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
 
 		// Setup datetime mock
 		var expectedTime = DateTimeOffset.UtcNow;
@@ -85,7 +85,7 @@ public class InMemoryJobStoreCreateCopyTests
 			.Returns((Activity?)null);
 
 		// Create store manually with the required dependencies
-		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object);
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
 
 		// Setup datetime mock
 		var expectedTime = DateTimeOffset.UtcNow;
@@ -164,7 +164,7 @@ public class InMemoryJobStoreCreateCopyTests
 			.Returns((Activity?)null);
 
 		// Create store manually with the required dependencies
-		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object);
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
 
 		// Setup datetime mock
 		var expectedTime = DateTimeOffset.UtcNow;
@@ -176,7 +176,7 @@ public class InMemoryJobStoreCreateCopyTests
 		await store.CreateJob(job, CancellationToken.None);
 
 		// Act
-		var result = await store.ClaimNextJobForWorker(workerId, CancellationToken.None);
+		var result = await store.ClaimNextJobForWorker(workerId, null, CancellationToken.None);
 
 		// Assert
 		Assert.True(result.IsSuccess);
@@ -206,7 +206,7 @@ public class InMemoryJobStoreCreateCopyTests
 			.Returns((Activity?)null);
 
 		// Create store manually with the required dependencies
-		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object);
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
 
 		// Setup datetime mock
 		var expectedTime = DateTimeOffset.UtcNow;
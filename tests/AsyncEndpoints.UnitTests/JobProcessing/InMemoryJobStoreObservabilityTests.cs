@@ -28,7 +28,7 @@ public class InMemoryJobStoreObservabilityTests
 			.Returns((Activity?)null);
 
 		// Arrange
-		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object);
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
 
 		// Act
 		var result = await store.CreateJob(job, CancellationToken.None);
@@ -55,7 +55,7 @@ public class InMemoryJobStoreObservabilityTests
 			.Returns((Activity?)null);
 
 		// Arrange
-		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object);
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
 
 		// Act
 		var result = await store.GetJobById(Guid.Empty, CancellationToken.None);
@@ -83,7 +83,7 @@ public class InMemoryJobStoreObservabilityTests
 			.Returns((Activity?)null);
 
 		// Arrange
-		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object);
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
 
 		// First create the job
 		await store.CreateJob(job, CancellationToken.None);
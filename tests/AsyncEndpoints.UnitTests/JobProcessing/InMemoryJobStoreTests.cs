@@ -1,3 +1,4 @@
+using AsyncEndpoints.Configuration;
 using AsyncEndpoints.Infrastructure;
 using AsyncEndpoints.Infrastructure.Observability;
 using AsyncEndpoints.JobProcessing;
@@ -22,7 +23,7 @@ public class InMemoryJobStoreTests
 		Mock<IAsyncEndpointsObservability> mockMetrics)
 	{
 		// Act
-		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object);
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
 
 		// Assert
 		Assert.NotNull(store);
@@ -45,7 +46,7 @@ public class InMemoryJobStoreTests
 			.Returns((Activity?)null);
 
 		// Create store manually with the required dependencies
-		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object);
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
 
 		// Act
 		var result = await store.CreateJob(job, CancellationToken.None);
@@ -76,7 +77,7 @@ public class InMemoryJobStoreTests
 			.Returns((Activity?)null);
 
 		// Create store manually with the required dependencies
-		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object);
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
 
 		// Arrange
 		await store.CreateJob(job, CancellationToken.None);
@@ -106,7 +107,7 @@ public class InMemoryJobStoreTests
 			.Returns((Activity?)null);
 
 		// Create store manually with the required dependencies
-		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object);
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
 
 		// Arrange
 		await store.CreateJob(job, CancellationToken.None);
@@ -117,7 +118,45 @@ public class InMemoryJobStoreTests
 		// Assert
 		Assert.True(result.IsSuccess);
 		Assert.NotNull(result.Data);
-		Assert.Equal(job, result.Data);
+		Assert.Equal(job.Id, result.Data.Id);
+		Assert.Equal(job.Name, result.Data.Name);
+		Assert.Equal(job.Status, result.Data.Status);
+	}
+
+	/// <summary>
+	/// Verifies that the InMemoryJobStore hands out copies of its jobs, so changing the submitted or a retrieved job
+	/// does not change the stored job until it is written back.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task GetJobById_ReturnsCopy_ThatDoesNotChangeStoredJob(
+		[Frozen] Mock<ILogger<InMemoryJobStore>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		[Frozen] Mock<IAsyncEndpointsObservability> mockMetrics,
+		Job job)
+	{
+		// Setup the observability to return null for activity (which is what happens in unit tests)
+		mockMetrics
+			.Setup(x => x.StartStoreOperationActivity(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<Guid?>()))
+			.Returns((Activity?)null);
+
+		// Create store manually with the required dependencies
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
+
+		// Arrange
+		job.Status = JobStatus.InProgress;
+		await store.CreateJob(job, CancellationToken.None);
+		job.Status = JobStatus.Failed;
+
+		// Act
+		var retrievedJob = (await store.GetJobById(job.Id, CancellationToken.None)).Data;
+		retrievedJob.Status = JobStatus.Completed;
+		retrievedJob.Result = "changed";
+		var result = await store.GetJobById(job.Id, CancellationToken.None);
+
+		// Assert
+		Assert.NotSame(retrievedJob, result.Data);
+		Assert.Equal(JobStatus.InProgress, result.Data.Status);
+		Assert.NotEqual("changed", result.Data.Result);
 	}
 
 	/// <summary>
@@ -137,7 +176,7 @@ public class InMemoryJobStoreTests
 			.Returns((Activity?)null);
 
 		// Create store manually with the required dependencies
-		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object);
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
 
 		// Act
 		var result = await store.GetJobById(jobId, CancellationToken.None);
@@ -164,7 +203,7 @@ public class InMemoryJobStoreTests
 			.Returns((Activity?)null);
 
 		// Create store manually with the required dependencies
-		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object);
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
 
 		// Setup datetime mock
 		var expectedTime = DateTimeOffset.UtcNow;
@@ -198,7 +237,7 @@ public class InMemoryJobStoreTests
 			.Returns((Activity?)null);
 
 		// Create store manually with the required dependencies
-		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object);
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
 
 		// Act
 		var result = await store.UpdateJob(job, CancellationToken.None);
@@ -208,6 +247,117 @@ public class InMemoryJobStoreTests
 		Assert.NotNull(result.Error);
 	}
 
+	/// <summary>
+	/// Verifies that the IDs of the continuations enqueued by a finished job are stored with the job.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task UpdateJob_StoresContinuationJobIds(
+		[Frozen] Mock<ILogger<InMemoryJobStore>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		[Frozen] Mock<IAsyncEndpointsObservability> mockMetrics,
+		Job job,
+		Guid continuationJobId)
+	{
+		// Arrange
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
+		job.ContinuationJobIds = [];
+		await store.CreateJob(job, CancellationToken.None);
+
+		var updatedJob = job.CreateCopy(continuationJobIds: [continuationJobId]);
+
+		// Act
+		var result = await store.UpdateJob(updatedJob, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		var storedJob = await store.GetJobById(job.Id, CancellationToken.None);
+		Assert.Equal(new[] { continuationJobId }, storedJob.Data!.ContinuationJobIds);
+	}
+
+	/// <summary>
+	/// Verifies that a deleted job can no longer be retrieved.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task DeleteJob_RemovesJob_WhenJobExists(
+		[Frozen] Mock<ILogger<InMemoryJobStore>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		[Frozen] Mock<IAsyncEndpointsObservability> mockMetrics,
+		Job job)
+	{
+		// Arrange
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
+		await store.CreateJob(job, CancellationToken.None);
+
+		// Act
+		var result = await store.DeleteJob(job.Id, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		var storedJob = await store.GetJobById(job.Id, CancellationToken.None);
+		Assert.False(storedJob.IsSuccess);
+	}
+
+	/// <summary>
+	/// Verifies that deleting a job that does not exist returns a JOB_NOT_FOUND error.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task DeleteJob_ReturnsJobNotFound_WhenJobDoesNotExist(
+		[Frozen] Mock<ILogger<InMemoryJobStore>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		[Frozen] Mock<IAsyncEndpointsObservability> mockMetrics,
+		Guid jobId)
+	{
+		// Arrange
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
+
+		// Act
+		var result = await store.DeleteJob(jobId, CancellationToken.None);
+
+		// Assert
+		Assert.False(result.IsSuccess);
+		Assert.Equal("JOB_NOT_FOUND", result.Error.Code);
+	}
+
+	/// <summary>
+	/// Verifies that only jobs whose expiry has passed are deleted, oldest expiry first, up to the maximum count.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task DeleteExpiredJobs_DeletesOnlyExpiredJobs_UpToMaxCount(
+		[Frozen] Mock<ILogger<InMemoryJobStore>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		[Frozen] Mock<IAsyncEndpointsObservability> mockMetrics,
+		Job oldestExpiredJob,
+		Job expiredJob,
+		Job activeJob,
+		Job retainedJob)
+	{
+		// Arrange
+		var now = DateTimeOffset.UtcNow;
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(now);
+		oldestExpiredJob.ExpiresAt = now.AddHours(-2);
+		expiredJob.ExpiresAt = now.AddHours(-1);
+		activeJob.ExpiresAt = null;
+		retainedJob.ExpiresAt = now.AddHours(1);
+
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
+		foreach (var job in new[] { oldestExpiredJob, expiredJob, activeJob, retainedJob })
+		{
+			await store.CreateJob(job, CancellationToken.None);
+		}
+
+		// Act
+		var firstResult = await store.DeleteExpiredJobs(1, CancellationToken.None);
+		var secondResult = await store.DeleteExpiredJobs(10, CancellationToken.None);
+
+		// Assert
+		Assert.Equal(1, firstResult.Data);
+		Assert.Equal(1, secondResult.Data);
+		Assert.False((await store.GetJobById(oldestExpiredJob.Id, CancellationToken.None)).IsSuccess);
+		Assert.False((await store.GetJobById(expiredJob.Id, CancellationToken.None)).IsSuccess);
+		Assert.True((await store.GetJobById(activeJob.Id, CancellationToken.None)).IsSuccess);
+		Assert.True((await store.GetJobById(retainedJob.Id, CancellationToken.None)).IsSuccess);
+	}
+
 	/// <summary>
 	/// Verifies that the InMemoryJobStore can claim the next available job for a worker when jobs exist.
 	/// This test ensures the job claiming functionality works correctly, updating the job status and assigning it to the worker.
@@ -227,7 +377,7 @@ public class InMemoryJobStoreTests
 			.Returns((Activity?)null);
 
 		// Create store manually with the required dependencies
-		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object);
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
 
 		// Setup datetime mock
 		var expectedTime = DateTimeOffset.UtcNow;
@@ -243,7 +393,7 @@ public class InMemoryJobStoreTests
 		await store.CreateJob(job2, CancellationToken.None);
 
 		// Act
-		var result = await store.ClaimNextJobForWorker(workerId, CancellationToken.None);
+		var result = await store.ClaimNextJobForWorker(workerId, null, CancellationToken.None);
 
 		// Assert
 		Assert.True(result.IsSuccess);
@@ -269,13 +419,779 @@ public class InMemoryJobStoreTests
 			.Returns((Activity?)null);
 
 		// Create store manually with the required dependencies
-		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object);
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
 
 		// Act
-		var result = await store.ClaimNextJobForWorker(workerId, CancellationToken.None);
+		var result = await store.ClaimNextJobForWorker(workerId, null, CancellationToken.None);
 
 		// Assert
 		Assert.True(result.IsSuccess);
 		Assert.Null(result.DataOrNull);
 	}
+
+	/// <summary>
+	/// Verifies that jobs are claimed by priority, unless a job with a lower priority has waited longer than the priority difference is worth.
+	/// This test ensures urgent jobs go first without starving long-waiting jobs.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ClaimNextJobForWorker_ClaimsByPriority_WithoutStarvingWaitingJobs(
+		[Frozen] Mock<ILogger<InMemoryJobStore>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		[Frozen] Mock<IAsyncEndpointsObservability> mockMetrics,
+		Guid workerId)
+	{
+		// Arrange
+		var now = DateTimeOffset.UtcNow;
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(now);
+		mockDateTimeProvider.Setup(x => x.UtcNow).Returns(now.UtcDateTime);
+
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
+
+		// Every priority level is worth one aging interval of waiting
+		var agingInterval = TimeSpan.FromSeconds(AsyncEndpointsConstants.PriorityAgingSeconds);
+		var starvedJob = new Job(now - 3 * agingInterval) { Name = "bulk-export", Priority = 0 };
+		var urgentJob = new Job(now - agingInterval) { Name = "user-request", Priority = 1 };
+		var bulkJob = new Job(now - 2 * agingInterval) { Name = "bulk-export", Priority = 0 };
+		await store.CreateJob(bulkJob, CancellationToken.None);
+		await store.CreateJob(urgentJob, CancellationToken.None);
+		await store.CreateJob(starvedJob, CancellationToken.None);
+
+		// Act
+		var firstClaim = await store.ClaimNextJobForWorker(workerId, null, CancellationToken.None);
+		var secondClaim = await store.ClaimNextJobForWorker(workerId, null, CancellationToken.None);
+		var thirdClaim = await store.ClaimNextJobForWorker(workerId, null, CancellationToken.None);
+
+		// Assert
+		Assert.Equal(starvedJob.Id, firstClaim.Data.Id);
+		Assert.Equal(urgentJob.Id, secondClaim.Data.Id);
+		Assert.Equal(bulkJob.Id, thirdClaim.Data.Id);
+	}
+
+	/// <summary>
+	/// Verifies that a batch claim takes up to the requested number of jobs in claim order and leaves the rest for other workers.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ClaimNextJobsForWorker_ClaimsUpToMaxCount_InClaimOrder(
+		[Frozen] Mock<ILogger<InMemoryJobStore>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		[Frozen] Mock<IAsyncEndpointsObservability> mockMetrics,
+		Guid workerId)
+	{
+		// Arrange
+		var now = DateTimeOffset.UtcNow;
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(now);
+		mockDateTimeProvider.Setup(x => x.UtcNow).Returns(now.UtcDateTime);
+
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
+
+		var oldestJob = new Job(now.AddMinutes(-3)) { Name = "export" };
+		var olderJob = new Job(now.AddMinutes(-2)) { Name = "export" };
+		var newestJob = new Job(now.AddMinutes(-1)) { Name = "export" };
+		await store.CreateJob(newestJob, CancellationToken.None);
+		await store.CreateJob(oldestJob, CancellationToken.None);
+		await store.CreateJob(olderJob, CancellationToken.None);
+
+		// Act
+		var batch = await store.ClaimNextJobsForWorker(workerId, null, 2, CancellationToken.None);
+		var remaining = await store.ClaimNextJobsForWorker(Guid.NewGuid(), null, 2, CancellationToken.None);
+
+		// Assert
+		Assert.True(batch.IsSuccess);
+		Assert.Equal(new[] { oldestJob.Id, olderJob.Id }, batch.Data.Select(x => x.Id));
+		Assert.All(batch.Data, job =>
+		{
+			Assert.Equal(JobStatus.InProgress, job.Status);
+			Assert.Equal(workerId, job.WorkerId);
+		});
+		Assert.Equal(new[] { newestJob.Id }, remaining.Data.Select(x => x.Id));
+	}
+
+	/// <summary>
+	/// Verifies that a worker claiming from a queue only receives jobs placed in that queue.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ClaimNextJobForWorker_ClaimsOnlyFromRequestedQueue(
+		[Frozen] Mock<ILogger<InMemoryJobStore>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		[Frozen] Mock<IAsyncEndpointsObservability> mockMetrics,
+		Guid workerId)
+	{
+		// Arrange
+		var now = DateTimeOffset.UtcNow;
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(now);
+		mockDateTimeProvider.Setup(x => x.UtcNow).Returns(now.UtcDateTime);
+
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
+
+		var defaultQueueJob = new Job(now.AddMinutes(-5)) { Name = "user-request" };
+		var exportQueueJob = new Job(now) { Name = "bulk-export", Queue = "exports" };
+		await store.CreateJob(defaultQueueJob, CancellationToken.None);
+		await store.CreateJob(exportQueueJob, CancellationToken.None);
+
+		// Act
+		var firstClaim = await store.ClaimNextJobForWorker(workerId, "exports", CancellationToken.None);
+		var secondClaim = await store.ClaimNextJobForWorker(workerId, "exports", CancellationToken.None);
+
+		// Assert
+		Assert.Equal(exportQueueJob.Id, firstClaim.Data.Id);
+		Assert.Null(secondClaim.DataOrNull);
+	}
+
+	/// <summary>
+	/// Verifies that the InMemoryJobStore cancels an in-progress job and keeps the worker assignment.
+	/// This test ensures the canceled job can be used to notify the worker that is processing it.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task CancelJob_SetsCanceledStatus_WhenJobInProgress(
+		[Frozen] Mock<ILogger<InMemoryJobStore>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		[Frozen] Mock<IAsyncEndpointsObservability> mockMetrics,
+		Job job,
+		Guid workerId)
+	{
+		// Setup the observability to return null for activity (which is what happens in unit tests)
+		mockMetrics
+			.Setup(x => x.StartStoreOperationActivity(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<Guid?>()))
+			.Returns((Activity?)null);
+
+		// Create store manually with the required dependencies
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
+
+		// Setup datetime mock
+		var expectedTime = DateTimeOffset.UtcNow;
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(expectedTime);
+
+		// Arrange
+		job.Status = JobStatus.InProgress;
+		job.WorkerId = workerId;
+		await store.CreateJob(job, CancellationToken.None);
+
+		// Act
+		var result = await store.CancelJob(job.Id, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Equal(JobStatus.Canceled, result.Data.Status);
+		Assert.Equal(workerId, result.Data.WorkerId);
+		Assert.Equal(expectedTime, result.Data.CompletedAt);
+	}
+
+	/// <summary>
+	/// Verifies that the InMemoryJobStore publishes the new status when a job is updated.
+	/// This test ensures long-polling and streaming clients are woken up by status changes.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task UpdateJob_NotifiesStatusChange(
+		[Frozen] Mock<ILogger<InMemoryJobStore>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		[Frozen] Mock<IAsyncEndpointsObservability> mockMetrics,
+		Mock<IJobStatusNotifier> mockJobStatusNotifier,
+		Job job)
+	{
+		// Setup the observability to return null for activity (which is what happens in unit tests)
+		mockMetrics
+			.Setup(x => x.StartStoreOperationActivity(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<Guid?>()))
+			.Returns((Activity?)null);
+
+		// Create store manually with the required dependencies
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, mockJobStatusNotifier.Object);
+
+		// Arrange
+		job.Status = JobStatus.InProgress;
+		await store.CreateJob(job, CancellationToken.None);
+		job.Status = JobStatus.Completed;
+
+		// Act
+		var result = await store.UpdateJob(job, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		mockJobStatusNotifier.Verify(x => x.NotifyStatusChanged(job.Id, JobStatus.Completed, It.IsAny<CancellationToken>()), Times.Once);
+	}
+
+	/// <summary>
+	/// Verifies that the InMemoryJobStore stores the progress of an in-progress job and refreshes its last updated time.
+	/// This test ensures clients polling the job see the progress reported by the handler.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task UpdateJobProgress_StoresProgress_WhenJobInProgress(
+		[Frozen] Mock<ILogger<InMemoryJobStore>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		[Frozen] Mock<IAsyncEndpointsObservability> mockMetrics,
+		Job job)
+	{
+		// Setup the observability to return null for activity (which is what happens in unit tests)
+		mockMetrics
+			.Setup(x => x.StartStoreOperationActivity(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<Guid?>()))
+			.Returns((Activity?)null);
+
+		// Create store manually with the required dependencies
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
+
+		// Setup datetime mock
+		var expectedTime = DateTimeOffset.UtcNow;
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(expectedTime);
+
+		// Arrange
+		job.Status = JobStatus.InProgress;
+		await store.CreateJob(job, CancellationToken.None);
+		var progress = new JobProgress { PercentComplete = 40, Message = "Imported 40000 rows", ReportedAt = expectedTime };
+
+		// Act
+		var result = await store.UpdateJobProgress(job.Id, progress, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		var storedJob = await store.GetJobById(job.Id, CancellationToken.None);
+		Assert.Same(progress, storedJob.Data.Progress);
+		Assert.Equal(expectedTime, storedJob.Data.LastUpdatedAt);
+	}
+
+	/// <summary>
+	/// Verifies that the InMemoryJobStore ignores progress reported for a job that is no longer in progress.
+	/// This test ensures late progress reports do not change canceled or finished jobs.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task UpdateJobProgress_IgnoresProgress_WhenJobNotInProgress(
+		[Frozen] Mock<ILogger<InMemoryJobStore>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		[Frozen] Mock<IAsyncEndpointsObservability> mockMetrics,
+		Job job)
+	{
+		// Setup the observability to return null for activity (which is what happens in unit tests)
+		mockMetrics
+			.Setup(x => x.StartStoreOperationActivity(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<Guid?>()))
+			.Returns((Activity?)null);
+
+		// Create store manually with the required dependencies
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
+
+		// Arrange
+		job.Status = JobStatus.Canceled;
+		job.Progress = null;
+		await store.CreateJob(job, CancellationToken.None);
+
+		// Act
+		var result = await store.UpdateJobProgress(job.Id, new JobProgress { PercentComplete = 90 }, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		var storedJob = await store.GetJobById(job.Id, CancellationToken.None);
+		Assert.Null(storedJob.Data.Progress);
+	}
+
+	/// <summary>
+	/// Verifies that the InMemoryJobStore stores the callback of a job without touching its other fields.
+	/// This test ensures a callback delivery status written from a stale copy of the job does not undo a concurrent status change.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task UpdateJobCallback_StoresCallback_WithoutOverwritingOtherFields(
+		[Frozen] Mock<ILogger<InMemoryJobStore>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		[Frozen] Mock<IAsyncEndpointsObservability> mockMetrics,
+		Job job)
+	{
+		// Setup the observability to return null for activity (which is what happens in unit tests)
+		mockMetrics
+			.Setup(x => x.StartStoreOperationActivity(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<Guid?>()))
+			.Returns((Activity?)null);
+
+		// Create store manually with the required dependencies
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
+
+		// Arrange
+		job.Status = JobStatus.Failed;
+		job.Callback = new JobCallback { Url = "https://receiver.example.com/callbacks" };
+		await store.CreateJob(job, CancellationToken.None);
+		var staleJob = (await store.GetJobById(job.Id, CancellationToken.None)).Data;
+		await store.RequeueJob(job.Id, false, CancellationToken.None);
+		staleJob.Callback!.RecordDelivery(DateTimeOffset.UtcNow);
+
+		// Act
+		var result = await store.UpdateJobCallback(job.Id, staleJob.Callback, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		var storedJob = await store.GetJobById(job.Id, CancellationToken.None);
+		Assert.Equal(JobStatus.Queued, storedJob.Data.Status);
+		Assert.Equal(JobCallbackStatus.Delivered, storedJob.Data.Callback?.Status);
+		Assert.NotSame(staleJob.Callback, storedJob.Data.Callback);
+	}
+
+	/// <summary>
+	/// Verifies that the InMemoryJobStore refuses to cancel a job that has already completed.
+	/// This test ensures finished jobs keep their final status and result.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task CancelJob_Fails_WhenJobCompleted(
+		[Frozen] Mock<ILogger<InMemoryJobStore>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		[Frozen] Mock<IAsyncEndpointsObservability> mockMetrics,
+		Job job)
+	{
+		// Setup the observability to return null for activity (which is what happens in unit tests)
+		mockMetrics
+			.Setup(x => x.StartStoreOperationActivity(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<Guid?>()))
+			.Returns((Activity?)null);
+
+		// Create store manually with the required dependencies
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
+
+		// Arrange
+		job.Status = JobStatus.Completed;
+		await store.CreateJob(job, CancellationToken.None);
+
+		// Act
+		var result = await store.CancelJob(job.Id, CancellationToken.None);
+
+		// Assert
+		Assert.False(result.IsSuccess);
+		Assert.Equal("JOB_NOT_CANCELABLE", result.Error.Code);
+		var getResult = await store.GetJobById(job.Id, CancellationToken.None);
+		Assert.Equal(JobStatus.Completed, getResult.Data.Status);
+	}
+
+	/// <summary>
+	/// Verifies that the InMemoryJobStore moves a failed job back to the queue and keeps its retry count when not resetting retries.
+	/// This test ensures a requeued job can be claimed again by any worker.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task RequeueJob_QueuesFailedJob_WhenJobFailed(
+		[Frozen] Mock<ILogger<InMemoryJobStore>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		[Frozen] Mock<IAsyncEndpointsObservability> mockMetrics,
+		Job job,
+		Guid workerId)
+	{
+		// Setup the observability to return null for activity (which is what happens in unit tests)
+		mockMetrics
+			.Setup(x => x.StartStoreOperationActivity(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<Guid?>()))
+			.Returns((Activity?)null);
+
+		// Create store manually with the required dependencies
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(DateTimeOffset.UtcNow);
+
+		// Arrange
+		job.Status = JobStatus.Failed;
+		job.WorkerId = workerId;
+		job.RetryCount = job.MaxRetries;
+		await store.CreateJob(job, CancellationToken.None);
+
+		// Act
+		var result = await store.RequeueJob(job.Id, false, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Equal(JobStatus.Queued, result.Data.Status);
+		Assert.Equal(job.MaxRetries, result.Data.RetryCount);
+		Assert.Null(result.Data.WorkerId);
+		var getResult = await store.GetJobById(job.Id, CancellationToken.None);
+		Assert.Equal(JobStatus.Queued, getResult.Data.Status);
+	}
+
+	/// <summary>
+	/// Verifies that the InMemoryJobStore refuses to requeue a job that has not failed.
+	/// This test ensures requeuing cannot restart jobs that are still running or completed.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task RequeueJob_Fails_WhenJobNotFailed(
+		[Frozen] Mock<ILogger<InMemoryJobStore>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		[Frozen] Mock<IAsyncEndpointsObservability> mockMetrics,
+		Job job)
+	{
+		// Setup the observability to return null for activity (which is what happens in unit tests)
+		mockMetrics
+			.Setup(x => x.StartStoreOperationActivity(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<Guid?>()))
+			.Returns((Activity?)null);
+
+		// Create store manually with the required dependencies
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
+
+		// Arrange
+		job.Status = JobStatus.Completed;
+		await store.CreateJob(job, CancellationToken.None);
+
+		// Act
+		var result = await store.RequeueJob(job.Id, true, CancellationToken.None);
+
+		// Assert
+		Assert.False(result.IsSuccess);
+		Assert.Equal("JOB_NOT_REQUEUEABLE", result.Error.Code);
+		var getResult = await store.GetJobById(job.Id, CancellationToken.None);
+		Assert.Equal(JobStatus.Completed, getResult.Data.Status);
+	}
+
+	/// <summary>
+	/// Verifies that the InMemoryJobStore returns an in-progress job to the queue when the worker holding it releases it.
+	/// This test ensures a released job is claimable again, does not count a retry and records the interrupted attempt as a released run.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ReleaseJob_QueuesJob_WhenHeldByWorker(
+		[Frozen] Mock<ILogger<InMemoryJobStore>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		[Frozen] Mock<IAsyncEndpointsObservability> mockMetrics,
+		Job job,
+		Guid workerId)
+	{
+		// Setup the observability to return null for activity (which is what happens in unit tests)
+		mockMetrics
+			.Setup(x => x.StartStoreOperationActivity(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<Guid?>()))
+			.Returns((Activity?)null);
+
+		// Create store manually with the required dependencies
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(DateTimeOffset.UtcNow);
+
+		// Arrange
+		job.Status = JobStatus.InProgress;
+		job.WorkerId = workerId;
+		job.StartedAt = DateTimeOffset.UtcNow;
+		job.LeaseRenewedAt = job.StartedAt;
+		job.RetryCount = 1;
+		await store.CreateJob(job, CancellationToken.None);
+
+		// Act
+		var result = await store.ReleaseJob(job.Id, workerId, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		var getResult = await store.GetJobById(job.Id, CancellationToken.None);
+		Assert.Equal(JobStatus.Queued, getResult.Data.Status);
+		Assert.Equal(1, getResult.Data.RetryCount);
+		Assert.Null(getResult.Data.WorkerId);
+		Assert.Null(getResult.Data.StartedAt);
+		Assert.Null(getResult.Data.LeaseRenewedAt);
+		var run = getResult.Data.Runs[^1];
+		Assert.Equal(JobRunOutcome.Released, run.Outcome);
+		Assert.Equal(workerId, run.WorkerId);
+		Assert.Equal(job.StartedAt, run.StartedAt);
+	}
+
+	/// <summary>
+	/// Verifies that the InMemoryJobStore leaves a job alone when it is released by a worker that no longer holds it.
+	/// This test ensures a worker cannot release a job that was recovered and claimed by another worker.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ReleaseJob_LeavesJob_WhenHeldByAnotherWorker(
+		[Frozen] Mock<ILogger<InMemoryJobStore>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		[Frozen] Mock<IAsyncEndpointsObservability> mockMetrics,
+		Job job,
+		Guid workerId,
+		Guid otherWorkerId)
+	{
+		// Setup the observability to return null for activity (which is what happens in unit tests)
+		mockMetrics
+			.Setup(x => x.StartStoreOperationActivity(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<Guid?>()))
+			.Returns((Activity?)null);
+
+		// Create store manually with the required dependencies
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
+
+		// Arrange
+		job.Status = JobStatus.InProgress;
+		job.WorkerId = otherWorkerId;
+		await store.CreateJob(job, CancellationToken.None);
+
+		// Act
+		var result = await store.ReleaseJob(job.Id, workerId, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		var getResult = await store.GetJobById(job.Id, CancellationToken.None);
+		Assert.Equal(JobStatus.InProgress, getResult.Data.Status);
+		Assert.Equal(otherWorkerId, getResult.Data.WorkerId);
+	}
+
+	/// <summary>
+	/// Verifies that the InMemoryJobStore does not store the outcome of a job that was canceled while it was processed.
+	/// This test ensures a finishing worker cannot overwrite a concurrent cancellation.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task UpdateInProgressJob_LeavesJob_WhenCanceledDuringProcessing(
+		[Frozen] Mock<ILogger<InMemoryJobStore>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		[Frozen] Mock<IAsyncEndpointsObservability> mockMetrics,
+		Job job,
+		Guid workerId,
+		string result)
+	{
+		// Setup the observability to return null for activity (which is what happens in unit tests)
+		mockMetrics
+			.Setup(x => x.StartStoreOperationActivity(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<Guid?>()))
+			.Returns((Activity?)null);
+
+		// Create store manually with the required dependencies
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(DateTimeOffset.UtcNow);
+
+		// Arrange
+		job.Status = JobStatus.InProgress;
+		job.WorkerId = workerId;
+		await store.CreateJob(job, CancellationToken.None);
+		var processedJob = (await store.GetJobById(job.Id, CancellationToken.None)).Data;
+		await store.CancelJob(job.Id, CancellationToken.None);
+		processedJob.SetResult(result, mockDateTimeProvider.Object);
+
+		// Act
+		var updateResult = await store.UpdateInProgressJob(processedJob, workerId, CancellationToken.None);
+
+		// Assert
+		Assert.True(updateResult.IsSuccess);
+		Assert.False(updateResult.Data);
+		var getResult = await store.GetJobById(job.Id, CancellationToken.None);
+		Assert.Equal(JobStatus.Canceled, getResult.Data.Status);
+		Assert.Null(getResult.Data.Result);
+	}
+
+	/// <summary>
+	/// Verifies that the InMemoryJobStore returns only the jobs matching the query filters, newest first.
+	/// This test ensures name and status filters are combined when querying jobs.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task QueryJobs_ReturnsMatchingJobs_NewestFirst(
+		[Frozen] Mock<ILogger<InMemoryJobStore>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		[Frozen] Mock<IAsyncEndpointsObservability> mockMetrics)
+	{
+		// Setup the observability to return null for activity (which is what happens in unit tests)
+		mockMetrics
+			.Setup(x => x.StartStoreOperationActivity(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<Guid?>()))
+			.Returns((Activity?)null);
+
+		// Create store manually with the required dependencies
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
+
+		// Arrange
+		var now = DateTimeOffset.UtcNow;
+		var olderFailedJob = new Job(now.AddMinutes(-10)) { Name = "export-report", Status = JobStatus.Failed };
+		var newerFailedJob = new Job(now.AddMinutes(-5)) { Name = "export-report", Status = JobStatus.Failed };
+		var completedJob = new Job(now.AddMinutes(-1)) { Name = "export-report", Status = JobStatus.Completed };
+		var otherJob = new Job(now) { Name = "import-data", Status = JobStatus.Failed };
+		await store.CreateJob(olderFailedJob, CancellationToken.None);
+		await store.CreateJob(newerFailedJob, CancellationToken.None);
+		await store.CreateJob(completedJob, CancellationToken.None);
+		await store.CreateJob(otherJob, CancellationToken.None);
+
+		// Act
+		var result = await store.QueryJobs(new JobQuery { Name = "export-report", Status = JobStatus.Failed }, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Equal(new[] { newerFailedJob.Id, olderFailedJob.Id }, result.Data.Jobs.Select(x => x.Id));
+		Assert.Null(result.Data.NextCursor);
+	}
+
+	/// <summary>
+	/// Verifies that the InMemoryJobStore pages through query results using the returned cursor.
+	/// This test ensures every job is returned exactly once across pages.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task QueryJobs_PagesThroughResults_UsingCursor(
+		[Frozen] Mock<ILogger<InMemoryJobStore>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		[Frozen] Mock<IAsyncEndpointsObservability> mockMetrics)
+	{
+		// Setup the observability to return null for activity (which is what happens in unit tests)
+		mockMetrics
+			.Setup(x => x.StartStoreOperationActivity(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<Guid?>()))
+			.Returns((Activity?)null);
+
+		// Create store manually with the required dependencies
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
+
+		// Arrange
+		var now = DateTimeOffset.UtcNow;
+		var createdJobIds = new List<Guid>();
+		for (var i = 0; i < 5; i++)
+		{
+			// Two jobs share each creation time to exercise the ID tie-breaker
+			var job = new Job(now.AddSeconds(-(i / 2))) { Name = "export-report" };
+			createdJobIds.Add(job.Id);
+			await store.CreateJob(job, CancellationToken.None);
+		}
+
+		// Act
+		var firstPage = await store.QueryJobs(new JobQuery { PageSize = 2 }, CancellationToken.None);
+		var secondPage = await store.QueryJobs(new JobQuery { PageSize = 2, Cursor = firstPage.Data.NextCursor }, CancellationToken.None);
+		var thirdPage = await store.QueryJobs(new JobQuery { PageSize = 2, Cursor = secondPage.Data.NextCursor }, CancellationToken.None);
+
+		// Assert
+		Assert.NotNull(firstPage.Data.NextCursor);
+		Assert.NotNull(secondPage.Data.NextCursor);
+		Assert.Null(thirdPage.Data.NextCursor);
+		var pagedJobIds = firstPage.Data.Jobs.Concat(secondPage.Data.Jobs).Concat(thirdPage.Data.Jobs).Select(x => x.Id).ToList();
+		Assert.Equal(5, pagedJobIds.Distinct().Count());
+		Assert.All(createdJobIds, id => Assert.Contains(id, pagedJobIds));
+	}
+
+	/// <summary>
+	/// Verifies that the InMemoryJobStore rejects queries with an invalid cursor.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task QueryJobs_Fails_WhenCursorIsInvalid(
+		[Frozen] Mock<ILogger<InMemoryJobStore>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		[Frozen] Mock<IAsyncEndpointsObservability> mockMetrics)
+	{
+		// Arrange
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
+
+		// Act
+		var result = await store.QueryJobs(new JobQuery { Cursor = "not-a-cursor" }, CancellationToken.None);
+
+		// Assert
+		Assert.False(result.IsSuccess);
+		Assert.Equal(JobQuery.InvalidJobQueryErrorCode, result.Error.Code);
+	}
+
+	/// <summary>
+	/// Verifies that the InMemoryJobStore returns the first job when an idempotency key is reused with the same payload,
+	/// and rejects the key when it is reused with a different payload.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task CreateJobWithIdempotencyKey_ReturnsExistingJob_OrRejectsDifferentPayload(
+		[Frozen] Mock<ILogger<InMemoryJobStore>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		[Frozen] Mock<IAsyncEndpointsObservability> mockMetrics)
+	{
+		// Arrange
+		var now = DateTimeOffset.UtcNow;
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(now);
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
+		var firstJob = new Job(now) { Name = "export-report", Payload = "{}" };
+		var secondJob = new Job(now) { Name = "export-report", Payload = "{}" };
+		var thirdJob = new Job(now) { Name = "export-report", Payload = "{\"a\":1}" };
+
+		// Act
+		var firstResult = await store.CreateJobWithIdempotencyKey(firstJob, JobIdempotencyKey.Create(firstJob.Name, "caller", "key-1", firstJob.Payload, firstJob.Id, now.AddHours(1)), CancellationToken.None);
+		var secondResult = await store.CreateJobWithIdempotencyKey(secondJob, JobIdempotencyKey.Create(secondJob.Name, "caller", "key-1", secondJob.Payload, secondJob.Id, now.AddHours(1)), CancellationToken.None);
+		var thirdResult = await store.CreateJobWithIdempotencyKey(thirdJob, JobIdempotencyKey.Create(thirdJob.Name, "caller", "key-1", thirdJob.Payload, thirdJob.Id, now.AddHours(1)), CancellationToken.None);
+
+		// Assert
+		Assert.True(firstResult.IsSuccess);
+		Assert.Equal(firstJob.Id, secondResult.Data.Id);
+		Assert.False((await store.GetJobById(secondJob.Id, CancellationToken.None)).IsSuccess);
+		Assert.False(thirdResult.IsSuccess);
+		Assert.Equal(AsyncEndpointsConstants.IdempotencyKeyMismatchErrorCode, thirdResult.Error.Code);
+	}
+
+	/// <summary>
+	/// Verifies that idempotency keys are scoped per caller and that an expired key creates a new job.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task CreateJobWithIdempotencyKey_CreatesNewJob_ForOtherCallerOrExpiredKey(
+		[Frozen] Mock<ILogger<InMemoryJobStore>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		[Frozen] Mock<IAsyncEndpointsObservability> mockMetrics)
+	{
+		// Arrange
+		var now = DateTimeOffset.UtcNow;
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(now);
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
+		var firstJob = new Job(now) { Name = "export-report", Payload = "{}" };
+		var otherCallerJob = new Job(now) { Name = "export-report", Payload = "{}" };
+		var expiredKeyJob = new Job(now) { Name = "export-report", Payload = "{}" };
+		await store.CreateJobWithIdempotencyKey(firstJob, JobIdempotencyKey.Create(firstJob.Name, "caller", "key-1", "{}", firstJob.Id, now.AddMinutes(1)), CancellationToken.None);
+
+		// Act
+		var otherCallerResult = await store.CreateJobWithIdempotencyKey(otherCallerJob, JobIdempotencyKey.Create(otherCallerJob.Name, "other-caller", "key-1", "{}", otherCallerJob.Id, now.AddMinutes(1)), CancellationToken.None);
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(now.AddMinutes(2));
+		var expiredKeyResult = await store.CreateJobWithIdempotencyKey(expiredKeyJob, JobIdempotencyKey.Create(expiredKeyJob.Name, "caller", "key-1", "{}", expiredKeyJob.Id, now.AddMinutes(3)), CancellationToken.None);
+
+		// Assert
+		Assert.Equal(otherCallerJob.Id, otherCallerResult.Data.Id);
+		Assert.Equal(expiredKeyJob.Id, expiredKeyResult.Data.Id);
+	}
+
+	/// <summary>
+	/// Verifies that live workers are listed with their latest heartbeat, while workers whose heartbeat expired are not.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task GetWorkers_ReturnsLiveWorkers_ExcludingExpiredHeartbeats(
+		[Frozen] Mock<ILogger<InMemoryJobStore>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		[Frozen] Mock<IAsyncEndpointsObservability> mockMetrics)
+	{
+		// Arrange
+		var now = DateTimeOffset.UtcNow;
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(now);
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
+		var liveWorker = new WorkerHeartbeat { WorkerId = Guid.NewGuid(), HostName = "worker-1", MaximumConcurrency = 4, JobIds = [Guid.NewGuid()], StartedAt = now.AddMinutes(-5), LastHeartbeatAt = now, ExpiresAt = now.AddMinutes(1) };
+		var deadWorker = new WorkerHeartbeat { WorkerId = Guid.NewGuid(), HostName = "worker-2", StartedAt = now.AddMinutes(-10), LastHeartbeatAt = now.AddMinutes(-2), ExpiresAt = now.AddMinutes(-1) };
+		await store.SaveWorkerHeartbeat(liveWorker, CancellationToken.None);
+		await store.SaveWorkerHeartbeat(deadWorker, CancellationToken.None);
+
+		// Act
+		var result = await store.GetWorkers(CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		var worker = Assert.Single(result.Data);
+		Assert.Equal(liveWorker.WorkerId, worker.WorkerId);
+		Assert.Equal(liveWorker.JobIds, worker.JobIds);
+	}
+
+	/// <summary>
+	/// Verifies that a removed worker is no longer listed.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task RemoveWorker_RemovesWorkerFromList(
+		[Frozen] Mock<ILogger<InMemoryJobStore>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		[Frozen] Mock<IAsyncEndpointsObservability> mockMetrics)
+	{
+		// Arrange
+		var now = DateTimeOffset.UtcNow;
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(now);
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
+		var heartbeat = new WorkerHeartbeat { WorkerId = Guid.NewGuid(), HostName = "worker-1", StartedAt = now, LastHeartbeatAt = now, ExpiresAt = now.AddMinutes(1) };
+		await store.SaveWorkerHeartbeat(heartbeat, CancellationToken.None);
+
+		// Act
+		var removeResult = await store.RemoveWorker(heartbeat.WorkerId, CancellationToken.None);
+		var getResult = await store.GetWorkers(CancellationToken.None);
+
+		// Assert
+		Assert.True(removeResult.IsSuccess);
+		Assert.Empty(getResult.Data);
+	}
+
+	/// <summary>
+	/// Verifies that the job stats count every status, the unfinished jobs per job name, the oldest queued job and the scheduled retries.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task GetJobStats_CountsJobs_PerStatusAndJobName(
+		[Frozen] Mock<ILogger<InMemoryJobStore>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		[Frozen] Mock<IAsyncEndpointsObservability> mockMetrics)
+	{
+		// Arrange
+		var now = DateTimeOffset.UtcNow;
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(now);
+		var store = new InMemoryJobStore(mockLogger.Object, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobStatusNotifier>());
+		await store.CreateJob(new Job(now.AddMinutes(-10)) { Name = "export-report", Status = JobStatus.Queued }, CancellationToken.None);
+		await store.CreateJob(new Job(now.AddMinutes(-5)) { Name = "export-report", Status = JobStatus.Queued }, CancellationToken.None);
+		await store.CreateJob(new Job(now.AddMinutes(-20)) { Name = "export-report", Status = JobStatus.Scheduled, RetryCount = 1 }, CancellationToken.None);
+		await store.CreateJob(new Job(now.AddMinutes(-1)) { Name = "import-data", Status = JobStatus.Scheduled }, CancellationToken.None);
+		await store.CreateJob(new Job(now.AddMinutes(-30)) { Name = "import-data", Status = JobStatus.Completed }, CancellationToken.None);
+
+		// Act
+		var result = await store.GetJobStats(CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Equal(2, result.Data.StatusCounts[JobStatus.Queued]);
+		Assert.Equal(2, result.Data.StatusCounts[JobStatus.Scheduled]);
+		Assert.Equal(1, result.Data.StatusCounts[JobStatus.Completed]);
+		Assert.Equal(0, result.Data.StatusCounts[JobStatus.Failed]);
+		Assert.Equal(2, result.Data.JobNameCounts["export-report"][JobStatus.Queued]);
+		Assert.Equal(1, result.Data.JobNameCounts["export-report"][JobStatus.Scheduled]);
+		Assert.False(result.Data.JobNameCounts["import-data"].ContainsKey(JobStatus.Completed));
+		Assert.Equal(now.AddMinutes(-10), result.Data.OldestQueuedJobCreatedAt);
+		Assert.Equal(TimeSpan.FromMinutes(10), result.Data.GetOldestQueuedJobAge());
+		Assert.Equal(1, result.Data.ScheduledRetryCount);
+	}
 }
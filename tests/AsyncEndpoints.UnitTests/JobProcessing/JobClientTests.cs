@@ -0,0 +1,126 @@
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.Handlers;
+using AsyncEndpoints.Infrastructure.Serialization;
+using AsyncEndpoints.JobProcessing;
+using AsyncEndpoints.UnitTests.TestSupport;
+using AsyncEndpoints.Utilities;
+using AutoFixture.Xunit2;
+using Microsoft.Extensions.Logging;
+using Moq;
+
+namespace AsyncEndpoints.UnitTests.JobProcessing;
+
+public class JobClientTests
+{
+	/// <summary>
+	/// Verifies that a typed request is serialized through the registered serializer and submitted with the supplied options.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task SubmitJob_SerializesRequestAndSubmitsJob_WhenHandlerIsRegistered(
+		[Frozen] Mock<IJobManager> mockJobManager,
+		[Frozen] Mock<ISerializer> mockSerializer,
+		Mock<ILogger<JobClient>> mockLogger,
+		Job job)
+	{
+		// Arrange
+		var jobName = nameof(SubmitJob_SerializesRequestAndSubmitsJob_WhenHandlerIsRegistered);
+		RegisterHandler<TestRequest>(jobName);
+		var request = new TestRequest { Value = "value" };
+		var options = new JobSubmissionOptions { JobId = Guid.NewGuid(), Headers = { ["X-Tenant"] = ["tenant-1"] } };
+
+		mockSerializer.Setup(x => x.Serialize(request, null)).Returns("{\"value\":\"value\"}");
+		mockJobManager
+			.Setup(x => x.SubmitJob(jobName, "{\"value\":\"value\"}", options, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(job));
+
+		var jobClient = new JobClient(mockLogger.Object, mockJobManager.Object, mockSerializer.Object);
+
+		// Act
+		var result = await jobClient.SubmitJob(jobName, request, options);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Same(job, result.Data);
+	}
+
+	/// <summary>
+	/// Verifies that a job without a registered handler is rejected without being submitted.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task SubmitJob_ReturnsUnknownJobName_WhenHandlerIsNotRegistered(
+		[Frozen] Mock<IJobManager> mockJobManager,
+		[Frozen] Mock<ISerializer> mockSerializer,
+		Mock<ILogger<JobClient>> mockLogger)
+	{
+		// Arrange
+		var jobClient = new JobClient(mockLogger.Object, mockJobManager.Object, mockSerializer.Object);
+
+		// Act
+		var result = await jobClient.SubmitJob("unregistered-job", new TestRequest());
+
+		// Assert
+		Assert.False(result.IsSuccess);
+		Assert.Equal(AsyncEndpointsConstants.UnknownJobNameErrorCode, result.Error.Code);
+		mockJobManager.Verify(x => x.SubmitJob(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<JobSubmissionOptions>(), It.IsAny<CancellationToken>()), Times.Never);
+	}
+
+	/// <summary>
+	/// Verifies that a request whose type does not match the registered handler is rejected,
+	/// since the worker could not deserialize it as the handler request.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task SubmitJob_ReturnsInvalidRequestType_WhenRequestTypeDoesNotMatchHandler(
+		[Frozen] Mock<IJobManager> mockJobManager,
+		[Frozen] Mock<ISerializer> mockSerializer,
+		Mock<ILogger<JobClient>> mockLogger)
+	{
+		// Arrange
+		var jobName = nameof(SubmitJob_ReturnsInvalidRequestType_WhenRequestTypeDoesNotMatchHandler);
+		RegisterHandler<TestRequest>(jobName);
+		var jobClient = new JobClient(mockLogger.Object, mockJobManager.Object, mockSerializer.Object);
+
+		// Act
+		var noBodyResult = await jobClient.SubmitJob(jobName);
+		var typedResult = await jobClient.SubmitJob(jobName, new TestResponse());
+
+		// Assert
+		Assert.Equal(AsyncEndpointsConstants.InvalidJobRequestTypeErrorCode, noBodyResult.Error.Code);
+		Assert.Equal(AsyncEndpointsConstants.InvalidJobRequestTypeErrorCode, typedResult.Error.Code);
+		mockJobManager.Verify(x => x.SubmitJob(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<JobSubmissionOptions>(), It.IsAny<CancellationToken>()), Times.Never);
+	}
+
+	/// <summary>
+	/// Verifies that a job whose handler takes no request body is submitted with a serialized empty request.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task SubmitJob_SubmitsNoBodyRequest_WhenHandlerTakesNoBody(
+		[Frozen] Mock<IJobManager> mockJobManager,
+		[Frozen] Mock<ISerializer> mockSerializer,
+		Mock<ILogger<JobClient>> mockLogger,
+		Job job)
+	{
+		// Arrange
+		var jobName = nameof(SubmitJob_SubmitsNoBodyRequest_WhenHandlerTakesNoBody);
+		RegisterHandler<NoBodyRequest>(jobName);
+
+		mockSerializer.Setup(x => x.Serialize(It.IsAny<NoBodyRequest>(), null)).Returns("{}");
+		mockJobManager
+			.Setup(x => x.SubmitJob(jobName, "{}", It.IsAny<JobSubmissionOptions>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(job));
+
+		var jobClient = new JobClient(mockLogger.Object, mockJobManager.Object, mockSerializer.Object);
+
+		// Act
+		var result = await jobClient.SubmitJob(jobName);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Same(job, result.Data);
+	}
+
+	private static void RegisterHandler<TRequest>(string jobName)
+	{
+		HandlerRegistrationTracker.Register<TRequest, TestResponse>(jobName,
+			(serviceProvider, request, job, cancellationToken) => Task.FromResult(MethodResult<TestResponse>.Success(new TestResponse())));
+	}
+}
@@ -1,6 +1,8 @@
 using AsyncEndpoints.Configuration;
 using AsyncEndpoints.Infrastructure;
+using AsyncEndpoints.Infrastructure.Callbacks;
 using AsyncEndpoints.Infrastructure.Observability;
+using AsyncEndpoints.Infrastructure.Serialization;
 using AsyncEndpoints.JobProcessing;
 using AsyncEndpoints.UnitTests.TestSupport;
 using AsyncEndpoints.Utilities;
@@ -52,7 +54,11 @@ public class JobManagerObservabilityTests
 			mockLogger.Object,
 			mockOptions.Object,
 			mockDateTimeProvider.Object,
-			mockMetrics.Object);
+			mockMetrics.Object,
+			Mock.Of<IJobCancellationNotifier>(),
+			Mock.Of<IJobCallbackQueue>(),
+			[],
+			Mock.Of<ISerializer>());
 
 		// Act
 		await jobManager.SubmitJob(jobName, payload, httpContext, CancellationToken.None);
@@ -97,15 +103,19 @@ public class JobManagerObservabilityTests
 			dateTimeProvider: mockDateTimeProvider.Object);
 		mockJobStore.Setup(store => store.GetJobById(jobId, It.IsAny<CancellationToken>()))
 			.ReturnsAsync(MethodResult<Job>.Success(job));
-		mockJobStore.Setup(store => store.UpdateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()))
-			.ReturnsAsync(MethodResult.Success);
+		mockJobStore.Setup(store => store.UpdateInProgressJob(It.IsAny<Job>(), It.IsAny<Guid?>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<bool>.Success(true));
 
 		var jobManager = new JobManager(
 			mockJobStore.Object,
 			mockLogger.Object,
 			mockOptions.Object,
 			mockDateTimeProvider.Object,
-			mockMetrics.Object);
+			mockMetrics.Object,
+			Mock.Of<IJobCancellationNotifier>(),
+			Mock.Of<IJobCallbackQueue>(),
+			[],
+			Mock.Of<ISerializer>());
 
 		// Act
 		await jobManager.ProcessJobFailure(jobId, error, CancellationToken.None);
@@ -150,15 +160,19 @@ public class JobManagerObservabilityTests
 			dateTimeProvider: mockDateTimeProvider.Object);
 		mockJobStore.Setup(store => store.GetJobById(jobId, It.IsAny<CancellationToken>()))
 			.ReturnsAsync(MethodResult<Job>.Success(job));
-		mockJobStore.Setup(store => store.UpdateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()))
-			.ReturnsAsync(MethodResult.Success);
+		mockJobStore.Setup(store => store.UpdateInProgressJob(It.IsAny<Job>(), It.IsAny<Guid?>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<bool>.Success(true));
 
 		var jobManager = new JobManager(
 			mockJobStore.Object,
 			mockLogger.Object,
 			mockOptions.Object,
 			mockDateTimeProvider.Object,
-			mockMetrics.Object);
+			mockMetrics.Object,
+			Mock.Of<IJobCancellationNotifier>(),
+			Mock.Of<IJobCallbackQueue>(),
+			[],
+			Mock.Of<ISerializer>());
 
 		// Act
 		await jobManager.ProcessJobFailure(jobId, error, CancellationToken.None);
@@ -1,6 +1,9 @@
 using AsyncEndpoints.Configuration;
 using AsyncEndpoints.Infrastructure;
+using AsyncEndpoints.Infrastructure.Blobs;
+using AsyncEndpoints.Infrastructure.Callbacks;
 using AsyncEndpoints.Infrastructure.Observability;
+using AsyncEndpoints.Infrastructure.Serialization;
 using AsyncEndpoints.JobProcessing;
 using AsyncEndpoints.UnitTests.TestSupport;
 using AsyncEndpoints.Utilities;
@@ -9,6 +12,7 @@ using Microsoft.AspNetCore.Http;
 using Microsoft.Extensions.Logging;
 using Microsoft.Extensions.Options;
 using Moq;
+using System.Diagnostics;
 
 namespace AsyncEndpoints.UnitTests.JobProcessing;
 
@@ -29,7 +33,7 @@ public class JobManagerTests
 		var options = Options.Create(new AsyncEndpointsConfigurations());
 
 		// Act
-		var manager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, mockMetrics.Object);
+		var manager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
 
 		// Assert
 		Assert.NotNull(manager);
@@ -59,7 +63,7 @@ public class JobManagerTests
 			.Setup(x => x.CreateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()))
 			.ReturnsAsync(MethodResult<Job>.Success(newJob));
 
-		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>());
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
 
 		// Act
 		var result = await jobManager.SubmitJob(jobName, payload, httpContext, CancellationToken.None);
@@ -70,204 +74,1680 @@ public class JobManagerTests
 		mockJobStore.Verify(x => x.CreateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()), Times.Once);
 	}
 
+	/// <summary>
+	/// Verifies that a job submitted with a delay header is created in the scheduled status and becomes due after the delay.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task SubmitJob_CreatesScheduledJob_WhenDelayHeaderIsSet(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		string jobName,
+		string payload)
+	{
+		// Arrange
+		var now = new DateTimeOffset(2025, 1, 1, 12, 0, 0, TimeSpan.Zero);
+		var mockDateTimeProvider = new Mock<IDateTimeProvider>();
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(now);
+		var httpContext = new DefaultHttpContext();
+		httpContext.Request.Headers[AsyncEndpointsConstants.DelayHeaderName] = "5m";
+		var options = Options.Create(new AsyncEndpointsConfigurations());
+
+		mockJobStore
+			.Setup(x => x.GetJobById(It.IsAny<Guid>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Failure("Job not found"));
+		mockJobStore
+			.Setup(x => x.CreateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Success());
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.SubmitJob(jobName, payload, httpContext, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Equal(JobStatus.Scheduled, result.Data.Status);
+		Assert.Equal(now.AddMinutes(5).UtcDateTime, result.Data.RetryDelayUntil);
+	}
+
+	/// <summary>
+	/// Verifies that a job submitted with an unparsable run-at header is rejected without being stored.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task SubmitJob_ReturnsInvalidSchedule_WhenRunAtHeaderIsInvalid(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		string jobName,
+		string payload)
+	{
+		// Arrange
+		var httpContext = new DefaultHttpContext();
+		httpContext.Request.Headers[AsyncEndpointsConstants.RunAtHeaderName] = "tomorrow";
+		var options = Options.Create(new AsyncEndpointsConfigurations());
+
+		mockJobStore
+			.Setup(x => x.GetJobById(It.IsAny<Guid>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Failure("Job not found"));
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.SubmitJob(jobName, payload, httpContext, CancellationToken.None);
+
+		// Assert
+		Assert.False(result.IsSuccess);
+		Assert.Equal(AsyncEndpointsConstants.InvalidJobScheduleErrorCode, result.Error.Code);
+		mockJobStore.Verify(x => x.CreateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()), Times.Never);
+	}
+
+	/// <summary>
+	/// Verifies that a job submitted without an HTTP request is created with the ID, headers and parameters of the submission options.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task SubmitJob_CreatesJobFromOptions_WhenSubmittedWithoutHttpContext(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		string jobName,
+		string payload)
+	{
+		// Arrange
+		var jobId = Guid.NewGuid();
+		var options = Options.Create(new AsyncEndpointsConfigurations());
+		var submissionOptions = new JobSubmissionOptions
+		{
+			JobId = jobId,
+			Headers = { ["X-Tenant"] = ["tenant-1"] },
+			RouteParams = { ["resourceId"] = "42" }
+		};
+
+		mockJobStore
+			.Setup(x => x.GetJobById(jobId, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Failure("Job not found"));
+		mockJobStore
+			.Setup(x => x.CreateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Success());
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.SubmitJob(jobName, payload, submissionOptions, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Equal(jobId, result.Data.Id);
+		Assert.Equal(new List<string?> { "tenant-1" }, result.Data.Headers["X-Tenant"]);
+		Assert.Equal("42", result.Data.RouteParams["resourceId"]);
+		Assert.Equal(JobStatus.Queued, result.Data.Status);
+	}
+
+	/// <summary>
+	/// Verifies that the payload moved to the blob store is deleted when the job cannot be created, so the blob is not orphaned.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task SubmitJob_DeletesPayloadBlob_WhenJobCannotBeCreated(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		Mock<IJobBlobStore> mockJobBlobStore,
+		string jobName)
+	{
+		// Arrange
+		var jobId = Guid.NewGuid();
+		var configurations = new AsyncEndpointsConfigurations();
+		configurations.BlobStorageConfigurations.OffloadThresholdBytes = 8;
+		var payload = "{\"value\":\"larger than the threshold\"}";
+		var expectedBlobId = $"{jobId:N}-payload";
+
+		mockJobStore
+			.Setup(x => x.GetJobById(jobId, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Failure(AsyncEndpointError.FromCode("JOB_NOT_FOUND", "Job not found")));
+		mockJobStore
+			.Setup(x => x.CreateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Failure(AsyncEndpointError.FromCode("JOB_STORE_ERROR", "Store unavailable")));
+		mockJobBlobStore
+			.Setup(x => x.SaveBlob(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string>(), It.IsAny<DateTimeOffset?>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Success());
+		mockJobBlobStore
+			.Setup(x => x.DeleteBlob(It.IsAny<string>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Success());
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, Options.Create(configurations), mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>(), mockJobBlobStore.Object);
+
+		// Act
+		var result = await jobManager.SubmitJob(jobName, payload, new JobSubmissionOptions { JobId = jobId }, CancellationToken.None);
+
+		// Assert
+		Assert.False(result.IsSuccess);
+		Assert.Equal("JOB_STORE_ERROR", result.Error.Code);
+		mockJobBlobStore.Verify(x => x.DeleteBlob(expectedBlobId, It.IsAny<CancellationToken>()), Times.Once);
+	}
+
+	/// <summary>
+	/// Verifies that a submitted job keeps its priority and is placed in the queue registered for its job name.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task SubmitJob_PlacesJobInRegisteredQueue_WithSubmittedPriority(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		string payload)
+	{
+		// Arrange
+		var configurations = new AsyncEndpointsConfigurations();
+		configurations.JobManagerConfigurations.JobQueues["ExportReport"] = "exports";
+
+		mockJobStore
+			.Setup(x => x.GetJobById(It.IsAny<Guid>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Failure("Job not found"));
+		mockJobStore
+			.Setup(x => x.CreateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Success());
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, Options.Create(configurations), mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var exportResult = await jobManager.SubmitJob("ExportReport", payload, new JobSubmissionOptions { Priority = 5 }, CancellationToken.None);
+		var otherResult = await jobManager.SubmitJob("SendEmail", payload, new JobSubmissionOptions(), CancellationToken.None);
+
+		// Assert
+		Assert.Equal(5, exportResult.Data.Priority);
+		Assert.Equal("exports", exportResult.Data.Queue);
+		Assert.Equal(0, otherResult.Data.Priority);
+		Assert.Equal(AsyncEndpointsConstants.DefaultQueueName, otherResult.Data.Queue);
+	}
+
+	/// <summary>
+	/// Verifies that a job submitted within an activity stores its trace context, so the worker processing it joins the same trace.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task SubmitJob_StoresTraceContext_OfCurrentActivity(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		string jobName,
+		string payload)
+	{
+		// Arrange
+		mockJobStore
+			.Setup(x => x.GetJobById(It.IsAny<Guid>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Failure("Job not found"));
+		mockJobStore
+			.Setup(x => x.CreateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Success());
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, Options.Create(new AsyncEndpointsConfigurations()), mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+		using var requestActivity = new Activity("POST /jobs").SetIdFormat(ActivityIdFormat.W3C).AddBaggage("tenant", "acme").Start();
+
+		// Act
+		var result = await jobManager.SubmitJob(jobName, payload, new JobSubmissionOptions(), CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Equal(requestActivity.Id, result.Data.TraceParent);
+		Assert.Equal("tenant=acme", result.Data.Baggage);
+	}
+
+	/// <summary>
+	/// Verifies that a programmatically scheduled job is stored in the scheduled status with its due time.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ScheduleJob_CreatesScheduledJob(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		string jobName,
+		string payload)
+	{
+		// Arrange
+		var now = new DateTimeOffset(2025, 1, 1, 12, 0, 0, TimeSpan.Zero);
+		var runAt = now.AddHours(1);
+		var mockDateTimeProvider = new Mock<IDateTimeProvider>();
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(now);
+		var options = Options.Create(new AsyncEndpointsConfigurations());
+
+		mockJobStore
+			.Setup(x => x.GetJobById(It.IsAny<Guid>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Failure("Job not found"));
+		mockJobStore
+			.Setup(x => x.CreateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Success());
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.ScheduleJob(jobName, payload, runAt, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		mockJobStore.Verify(x => x.CreateJob(It.Is<Job>(job =>
+			job.Name == jobName &&
+			job.Payload == payload &&
+			job.Status == JobStatus.Scheduled &&
+			job.RetryDelayUntil == runAt.UtcDateTime), It.IsAny<CancellationToken>()), Times.Once);
+	}
+
+	/// <summary>
+	/// Verifies that scheduling a job ID that already exists returns the existing job without creating another one.
+	/// This ensures recurring job occurrences enqueued by several instances are created only once.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ScheduleJob_ReturnsExistingJob_WhenJobIdAlreadyExists(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		string jobName,
+		string payload,
+		Job existingJob)
+	{
+		// Arrange
+		var jobId = Guid.NewGuid();
+		var options = Options.Create(new AsyncEndpointsConfigurations());
+
+		mockJobStore
+			.Setup(x => x.GetJobById(jobId, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(existingJob));
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.ScheduleJob(jobId, jobName, payload, DateTimeOffset.UtcNow, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Same(existingJob, result.Data);
+		mockJobStore.Verify(x => x.CreateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()), Times.Never);
+	}
+
+	/// <summary>
+	/// Verifies that when another instance creates the same job ID between the lookup and the creation,
+	/// the JobManager returns the job created by the other instance instead of a failure.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ScheduleJob_ReturnsConcurrentlyCreatedJob_WhenCreateFails(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		string jobName,
+		string payload,
+		Job existingJob)
+	{
+		// Arrange
+		var jobId = Guid.NewGuid();
+		var options = Options.Create(new AsyncEndpointsConfigurations());
+
+		mockJobStore
+			.SetupSequence(x => x.GetJobById(jobId, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Failure("Job not found"))
+			.ReturnsAsync(MethodResult<Job>.Success(existingJob));
+		mockJobStore
+			.Setup(x => x.CreateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Failure("Job already exists"));
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.ScheduleJob(jobId, jobName, payload, DateTimeOffset.UtcNow, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Same(existingJob, result.Data);
+	}
+
 	/// <summary>
 	/// Verifies that when a job ID is provided in the request headers and the job already exists, 
 	/// the JobManager returns the existing job instead of creating a new one.
 	/// This ensures idempotent behavior for job submissions with duplicate IDs.
 	/// </summary>
 	[Theory, AutoMoqData]
-	public async Task SubmitJob_ReturnsExistingJob_WhenJobAlreadyExists(
+	public async Task SubmitJob_ReturnsExistingJob_WhenJobAlreadyExists(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		string jobName,
+		string payload,
+		Job existingJob)
+	{
+		// Arrange
+		var jobId = Guid.NewGuid();
+		var httpContext = new DefaultHttpContext();
+		var options = Options.Create(new AsyncEndpointsConfigurations());
+
+		httpContext.Request.Headers[AsyncEndpointsConstants.JobIdHeaderName] = jobId.ToString();
+
+		mockJobStore
+			.Setup(x => x.GetJobById(jobId, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(existingJob));
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.SubmitJob(jobName, payload, httpContext, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Same(existingJob, result.Data);
+		mockJobStore.Verify(x => x.CreateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()), Times.Never);
+	}
+
+	/// <summary>
+	/// Verifies that a job submitted with an idempotency key is stored together with a key scoped to the job name and caller,
+	/// expiring after the configured window.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task SubmitJob_StoresIdempotencyKey_WhenIdempotencyKeyHeaderIsSet(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		string jobName,
+		string payload)
+	{
+		// Arrange
+		var now = new DateTimeOffset(2025, 1, 1, 12, 0, 0, TimeSpan.Zero);
+		var mockDateTimeProvider = new Mock<IDateTimeProvider>();
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(now);
+		var httpContext = new DefaultHttpContext();
+		httpContext.Request.Headers[AsyncEndpointsConstants.IdempotencyKeyHeaderName] = "order-42";
+		var configurations = new AsyncEndpointsConfigurations();
+		configurations.JobManagerConfigurations.IdempotencyKeyExpiry = TimeSpan.FromHours(2);
+		var options = Options.Create(configurations);
+
+		JobIdempotencyKey? storedKey = null;
+		mockJobStore
+			.Setup(x => x.GetJobById(It.IsAny<Guid>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Failure("Job not found"));
+		mockJobStore
+			.Setup(x => x.CreateJobWithIdempotencyKey(It.IsAny<Job>(), It.IsAny<JobIdempotencyKey>(), It.IsAny<CancellationToken>()))
+			.Callback<Job, JobIdempotencyKey, CancellationToken>((_, key, _) => storedKey = key)
+			.ReturnsAsync((Job job, JobIdempotencyKey _, CancellationToken _) => MethodResult<Job>.Success(job));
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.SubmitJob(jobName, payload, httpContext, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.NotNull(storedKey);
+		Assert.Equal(result.Data.Id, storedKey.JobId);
+		Assert.Equal(JobIdempotencyKey.Create(jobName, null, "order-42", payload, result.Data.Id, now.AddHours(2)).Key, storedKey.Key);
+		Assert.Equal(now.AddHours(2), storedKey.ExpiresAt);
+		mockJobStore.Verify(x => x.CreateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()), Times.Never);
+	}
+
+	/// <summary>
+	/// Verifies that a job submitted with an idempotency key that is too long is rejected without being stored.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task SubmitJob_ReturnsInvalidIdempotencyKey_WhenKeyIsTooLong(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		string jobName,
+		string payload)
+	{
+		// Arrange
+		var httpContext = new DefaultHttpContext();
+		httpContext.Request.Headers[AsyncEndpointsConstants.IdempotencyKeyHeaderName] = new string('k', AsyncEndpointsConstants.MaximumIdempotencyKeyLength + 1);
+		var options = Options.Create(new AsyncEndpointsConfigurations());
+
+		mockJobStore
+			.Setup(x => x.GetJobById(It.IsAny<Guid>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Failure("Job not found"));
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.SubmitJob(jobName, payload, httpContext, CancellationToken.None);
+
+		// Assert
+		Assert.False(result.IsSuccess);
+		Assert.Equal(AsyncEndpointsConstants.InvalidIdempotencyKeyErrorCode, result.Error.Code);
+		mockJobStore.Verify(x => x.CreateJobWithIdempotencyKey(It.IsAny<Job>(), It.IsAny<JobIdempotencyKey>(), It.IsAny<CancellationToken>()), Times.Never);
+	}
+
+	/// <summary>
+	/// Verifies that the JobManager can claim the next available job for a worker when one is available.
+	/// This test ensures the job claiming functionality works correctly for worker assignment.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ClaimNextAvailableJob_ReturnsJob_WhenJobAvailable(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		Guid workerId,
+		Job job)
+	{
+		// Arrange
+		var options = Options.Create(new AsyncEndpointsConfigurations());
+
+		mockJobStore
+			.Setup(x => x.ClaimNextJobForWorker(workerId, null, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(job));
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.ClaimNextAvailableJob(workerId, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Same(job, result.Data);
+	}
+
+	/// <summary>
+	/// Verifies that a worker consuming named queues tries its queues until one of them has a job, and never claims from every queue.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ClaimNextAvailableJob_TriesConsumedQueues_UntilJobFound(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		Guid workerId,
+		Job job)
+	{
+		// Arrange
+		var configurations = new AsyncEndpointsConfigurations();
+		configurations.WorkerConfigurations.Queues["exports"] = 1;
+		configurations.WorkerConfigurations.Queues["reports"] = 1;
+
+		mockJobStore
+			.Setup(x => x.ClaimNextJobForWorker(workerId, "exports", It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(default));
+		mockJobStore
+			.Setup(x => x.ClaimNextJobForWorker(workerId, "reports", It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(job));
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, Options.Create(configurations), mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.ClaimNextAvailableJob(workerId, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Same(job, result.Data);
+		mockJobStore.Verify(x => x.ClaimNextJobForWorker(workerId, "reports", It.IsAny<CancellationToken>()), Times.Once);
+		mockJobStore.Verify(x => x.ClaimNextJobForWorker(workerId, null, It.IsAny<CancellationToken>()), Times.Never);
+	}
+
+	/// <summary>
+	/// Verifies that a batch claim fills the batch from the consumed queues, asking each queue only for the jobs still missing.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ClaimNextAvailableJobs_FillsBatchAcrossConsumedQueues(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		Job firstJob,
+		Job secondJob,
+		Guid workerId)
+	{
+		// Arrange
+		var configurations = new AsyncEndpointsConfigurations();
+		configurations.WorkerConfigurations.Queues["exports"] = 1;
+		configurations.WorkerConfigurations.Queues["reports"] = 1;
+
+		// The queues are tried in random order, so whichever queue comes first returns one job and the second one is asked for the rest
+		mockJobStore
+			.Setup(x => x.ClaimNextJobsForWorker(workerId, It.IsAny<string>(), 3, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<List<Job>>.Success([firstJob]));
+		mockJobStore
+			.Setup(x => x.ClaimNextJobsForWorker(workerId, It.IsAny<string>(), 2, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<List<Job>>.Success([secondJob]));
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, Options.Create(configurations), mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.ClaimNextAvailableJobs(workerId, 3, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Equal(2, result.Data.Count);
+		Assert.Contains(firstJob, result.Data);
+		Assert.Contains(secondJob, result.Data);
+	}
+
+	/// <summary>
+	/// Verifies that claiming a job records the time it waited since it was created as its queue duration.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ClaimNextAvailableJobs_RecordsQueueDuration_FromCreatedAt(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		Guid workerId)
+	{
+		// Arrange
+		var now = DateTimeOffset.UtcNow;
+		var job = new Job(now.AddSeconds(-45)) { Name = "export-report", Status = JobStatus.InProgress, StartedAt = now };
+		mockJobStore
+			.Setup(x => x.ClaimNextJobsForWorker(workerId, null, 1, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<List<Job>>.Success([job]));
+		var mockMetrics = new Mock<IAsyncEndpointsObservability>();
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, Options.Create(new AsyncEndpointsConfigurations()), mockDateTimeProvider.Object, mockMetrics.Object, Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.ClaimNextAvailableJobs(workerId, 1, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		mockMetrics.Verify(x => x.RecordJobQueueDuration("export-report", mockJobStore.Object.GetType().Name, 45), Times.Once);
+	}
+
+	/// <summary>
+	/// Verifies that when a job completes successfully, the JobManager updates the job status to Completed 
+	/// and stores the result data.
+	/// This ensures successful job completion is properly recorded.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ProcessJobSuccess_UpdatesJobWithResult_WhenJobExists(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		Guid jobId,
+		string resultData,
+		Job job)
+	{
+		// Arrange
+		var options = Options.Create(new AsyncEndpointsConfigurations());
+
+		mockJobStore
+			.Setup(x => x.GetJobById(jobId, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(job));
+		mockJobStore
+			.Setup(x => x.UpdateInProgressJob(It.IsAny<Job>(), It.IsAny<Guid?>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<bool>.Success(true));
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.ProcessJobSuccess(jobId, resultData, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Equal(JobStatus.Completed, job.Status);
+		Assert.Equal(resultData, job.Result);
+	}
+
+	/// <summary>
+	/// Verifies that when a job doesn't exist, the JobManager returns a failure when trying to process job success.
+	/// This ensures appropriate error handling when attempting to update non-existent jobs.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ProcessJobSuccess_ReturnsFailure_WhenJobDoesNotExist(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		Guid jobId,
+		string resultData)
+	{
+		// Arrange
+		var options = Options.Create(new AsyncEndpointsConfigurations());
+
+		mockJobStore
+			.Setup(x => x.GetJobById(jobId, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Failure("Job not found"));
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.ProcessJobSuccess(jobId, resultData, CancellationToken.None);
+
+		// Assert
+		Assert.False(result.IsSuccess);
+	}
+
+	/// <summary>
+	/// Verifies that the result of a job is discarded when the job is no longer held by the worker that processed it,
+	/// because it was canceled, deleted or recovered in the meantime.
+	/// This ensures a finishing worker never overwrites a concurrent change and never delivers a callback for it.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ProcessJobSuccess_DiscardsResult_WhenJobNoLongerHeldByWorker(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		Mock<IJobCallbackQueue> mockJobCallbackQueue,
+		string resultData,
+		Job job)
+	{
+		// Arrange
+		job.Status = JobStatus.InProgress;
+		job.WorkerId = Guid.NewGuid();
+		job.Callback = new JobCallback { Url = "https://example.com/callback" };
+
+		mockJobStore
+			.Setup(x => x.GetJobById(job.Id, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(job));
+		mockJobStore
+			.Setup(x => x.UpdateInProgressJob(It.IsAny<Job>(), It.IsAny<Guid?>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<bool>.Success(false));
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, Options.Create(new AsyncEndpointsConfigurations()), mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), mockJobCallbackQueue.Object, [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.ProcessJobSuccess(job.Id, resultData, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		mockJobStore.Verify(x => x.UpdateInProgressJob(job, job.WorkerId, It.IsAny<CancellationToken>()), Times.Once);
+		mockJobStore.Verify(x => x.UpdateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()), Times.Never);
+		mockJobCallbackQueue.Verify(x => x.Enqueue(It.IsAny<Guid>()), Times.Never);
+	}
+
+	/// <summary>
+	/// Verifies that when maximum retries are reached, the JobManager sets the job status to Failed and records the error.
+	/// This ensures failed jobs with exhausted retries are properly marked as permanently failed.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ProcessJobFailure_SetsError_WhenMaxRetriesReached(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		Guid jobId,
+		string error,
+		Job job)
+	{
+		// Arrange
+		var options = Options.Create(new AsyncEndpointsConfigurations());
+
+		job.MaxRetries = 0; // Force max retries to be reached
+		mockJobStore
+			.Setup(x => x.GetJobById(jobId, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(job));
+		mockJobStore
+			.Setup(x => x.UpdateInProgressJob(It.IsAny<Job>(), It.IsAny<Guid?>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<bool>.Success(true));
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.ProcessJobFailure(jobId, AsyncEndpointError.FromMessage(error), CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Equal(JobStatus.Failed, job.Status);
+		Assert.Equal(error, job.Error?.Message);
+	}
+
+	/// <summary>
+	/// Verifies that deferring a claimed job schedules it again after the delay, releases its worker and does not count a retry.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task DeferJob_SchedulesJobAfterDelay_WithoutCountingRetry(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		Job job)
+	{
+		// Arrange
+		var now = new DateTime(2025, 1, 1, 12, 0, 0, DateTimeKind.Utc);
+		mockDateTimeProvider.Setup(x => x.UtcNow).Returns(now);
+		var workerId = Guid.NewGuid();
+		job.Status = JobStatus.InProgress;
+		job.WorkerId = workerId;
+		job.RetryCount = 1;
+
+		mockJobStore
+			.Setup(x => x.GetJobById(job.Id, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(job));
+		mockJobStore
+			.Setup(x => x.UpdateInProgressJob(It.IsAny<Job>(), It.IsAny<Guid?>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<bool>.Success(true));
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, Options.Create(new AsyncEndpointsConfigurations()), mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.DeferJob(job.Id, TimeSpan.FromSeconds(30), CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Equal(JobStatus.Scheduled, job.Status);
+		Assert.Null(job.WorkerId);
+		Assert.Equal(now.AddSeconds(30), job.RetryDelayUntil);
+		Assert.Equal(1, job.RetryCount);
+		mockJobStore.Verify(x => x.UpdateInProgressJob(job, workerId, It.IsAny<CancellationToken>()), Times.Once);
+		mockJobStore.Verify(x => x.UpdateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()), Times.Never);
+	}
+
+	/// <summary>
+	/// Verifies that a job canceled while it was being deferred stays canceled, because the deferral only applies
+	/// while the worker that claimed the job still holds it.
+	/// </summary>
+	[Fact]
+	public async Task DeferJob_DoesNotOverwriteCancel_WhenJobCanceledConcurrently()
+	{
+		// Arrange
+		var dateTimeProvider = new DateTimeProvider();
+		var jobStore = new InMemoryJobStore(Mock.Of<ILogger<InMemoryJobStore>>(), dateTimeProvider, Mock.Of<IAsyncEndpointsObservability>(), new InMemoryJobStatusNotifier());
+		var job = Job.Create(Guid.NewGuid(), "TestJob", "{}", [], [], [], AsyncEndpointsConstants.MaximumRetries, dateTimeProvider);
+		await jobStore.CreateJob(job, CancellationToken.None);
+		await jobStore.ClaimNextJobForWorker(Guid.NewGuid(), null, CancellationToken.None);
+
+		var mockJobStore = new Mock<IJobStore>();
+		mockJobStore
+			.Setup(x => x.GetJobById(job.Id, It.IsAny<CancellationToken>()))
+			.Returns(async (Guid id, CancellationToken token) =>
+			{
+				// The job is read by the deferral right before it is canceled
+				var claimedJob = await jobStore.GetJobById(id, token);
+				await jobStore.CancelJob(id, token);
+				return claimedJob;
+			});
+		mockJobStore
+			.Setup(x => x.UpdateInProgressJob(It.IsAny<Job>(), It.IsAny<Guid?>(), It.IsAny<CancellationToken>()))
+			.Returns((Job updated, Guid? workerId, CancellationToken token) => jobStore.UpdateInProgressJob(updated, workerId, token));
+
+		var jobManager = new JobManager(mockJobStore.Object, Mock.Of<ILogger<JobManager>>(), Options.Create(new AsyncEndpointsConfigurations()), dateTimeProvider, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.DeferJob(job.Id, TimeSpan.FromSeconds(30), CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		var storedJob = (await jobStore.GetJobById(job.Id, CancellationToken.None)).Data;
+		Assert.Equal(JobStatus.Canceled, storedJob.Status);
+	}
+
+	/// <summary>
+	/// Verifies that a failure with an error code the retry policy marks as non-retryable fails the job immediately,
+	/// even when retries are left.
+	/// This ensures errors such as validation failures are not retried pointlessly.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ProcessJobFailure_SetsError_WhenErrorNotRetryable(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		Guid jobId,
+		Job job)
+	{
+		// Arrange
+		var configurations = new AsyncEndpointsConfigurations();
+		configurations.JobManagerConfigurations.RetryPolicies[job.Name] = new AsyncEndpointsRetryPolicy { NonRetryableErrorCodes = ["VALIDATION_FAILED"] };
+		var options = Options.Create(configurations);
+
+		job.MaxRetries = 3;
+		job.RetryCount = 0;
+		mockJobStore
+			.Setup(x => x.GetJobById(jobId, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(job));
+		mockJobStore
+			.Setup(x => x.UpdateInProgressJob(It.IsAny<Job>(), It.IsAny<Guid?>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<bool>.Success(true));
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.ProcessJobFailure(jobId, AsyncEndpointError.FromCode("VALIDATION_FAILED", "Invalid request"), CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Equal(JobStatus.Failed, job.Status);
+		Assert.Equal(0, job.RetryCount);
+		Assert.Equal("VALIDATION_FAILED", job.Error?.Code);
+	}
+
+	/// <summary>
+	/// Verifies that when retries are available, the JobManager schedules a retry by setting the job status to Scheduled 
+	/// and incrementing the retry count.
+	/// This ensures failed jobs with remaining retries are properly queued for retry attempts.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ProcessJobFailure_SchedulesRetry_WhenRetriesAvailable(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		Guid jobId,
+		string error,
+		Job job)
+	{
+		// Arrange
+		var options = Options.Create(new AsyncEndpointsConfigurations());
+
+		job.MaxRetries = 3;
+		job.RetryCount = 0;
+		mockJobStore
+			.Setup(x => x.GetJobById(jobId, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(job));
+		mockJobStore
+			.Setup(x => x.UpdateInProgressJob(It.IsAny<Job>(), It.IsAny<Guid?>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<bool>.Success(true));
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.ProcessJobFailure(jobId, AsyncEndpointError.FromMessage(error), CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Equal(JobStatus.Scheduled, job.Status);
+		Assert.Equal(1, job.RetryCount);
+		Assert.Equal(error, job.Error?.Message);
+	}
+
+	/// <summary>
+	/// Verifies that canceling an in-progress job notifies the worker that is processing it.
+	/// This ensures the running handler receives a cancellation signal instead of running to completion.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task CancelJob_NotifiesWorker_WhenJobInProgress(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		Mock<IJobCancellationNotifier> mockJobCancellationNotifier,
+		Guid workerId,
+		Job job)
+	{
+		// Arrange
+		var options = Options.Create(new AsyncEndpointsConfigurations());
+
+		job.Status = JobStatus.Canceled;
+		job.WorkerId = workerId;
+		mockJobStore
+			.Setup(x => x.CancelJob(job.Id, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(job));
+		mockJobStore
+			.Setup(x => x.UpdateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Success());
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), mockJobCancellationNotifier.Object, Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.CancelJob(job.Id, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		mockJobCancellationNotifier.Verify(x => x.NotifyCancellation(job.Id, workerId, It.IsAny<CancellationToken>()), Times.Once);
+	}
+
+	/// <summary>
+	/// Verifies that when the store rejects the cancellation, the JobManager returns the failure without notifying any worker.
+	/// This ensures completed or failed jobs are not affected by cancellation requests.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task CancelJob_ReturnsFailure_WhenJobNotCancelable(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		Mock<IJobCancellationNotifier> mockJobCancellationNotifier,
+		Guid jobId)
+	{
+		// Arrange
+		var options = Options.Create(new AsyncEndpointsConfigurations());
+
+		mockJobStore
+			.Setup(x => x.CancelJob(jobId, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Failure(AsyncEndpointError.FromCode("JOB_NOT_CANCELABLE", "Job cannot be canceled")));
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), mockJobCancellationNotifier.Object, Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.CancelJob(jobId, CancellationToken.None);
+
+		// Assert
+		Assert.False(result.IsSuccess);
+		Assert.Equal("JOB_NOT_CANCELABLE", result.Error.Code);
+		mockJobCancellationNotifier.Verify(x => x.NotifyCancellation(It.IsAny<Guid>(), It.IsAny<Guid>(), It.IsAny<CancellationToken>()), Times.Never);
+	}
+
+	/// <summary>
+	/// Verifies that requeuing the failed jobs of a job name walks every page of failed jobs and counts only the jobs that were requeued.
+	/// This ensures a job that cannot be requeued anymore does not stop the remaining jobs from being requeued.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task RequeueFailedJobs_RequeuesFailedJobsOfEveryPage(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		Job firstJob,
+		Job secondJob,
+		Job thirdJob)
+	{
+		// Arrange
+		var options = Options.Create(new AsyncEndpointsConfigurations());
+
+		mockJobStore
+			.Setup(x => x.QueryJobs(It.Is<JobQuery>(q => q.Name == "TestJob" && q.Status == JobStatus.Failed && q.Cursor == null), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<JobQueryResult>.Success(new JobQueryResult([firstJob, secondJob], "next")));
+		mockJobStore
+			.Setup(x => x.QueryJobs(It.Is<JobQuery>(q => q.Cursor == "next"), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<JobQueryResult>.Success(new JobQueryResult([thirdJob], null)));
+		mockJobStore
+			.Setup(x => x.RequeueJob(It.IsAny<Guid>(), true, It.IsAny<CancellationToken>()))
+			.ReturnsAsync((Guid id, bool _, CancellationToken _) => MethodResult<Job>.Success(new Job { Id = id, Name = "TestJob", Status = JobStatus.Queued }));
+		mockJobStore
+			.Setup(x => x.RequeueJob(secondJob.Id, true, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Failure(AsyncEndpointError.FromCode("JOB_NOT_REQUEUEABLE", "Job cannot be requeued")));
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.RequeueFailedJobs("TestJob", true, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Equal(2, result.Data);
+		mockJobStore.Verify(x => x.RequeueJob(firstJob.Id, true, It.IsAny<CancellationToken>()), Times.Once);
+		mockJobStore.Verify(x => x.RequeueJob(thirdJob.Id, true, It.IsAny<CancellationToken>()), Times.Once);
+	}
+
+	/// <summary>
+	/// Verifies that a completed job is stored with an expiry derived from the retention configured for its name.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ProcessJobSuccess_SetsExpiresAt_WhenRetentionConfigured(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		string result,
+		Job job)
+	{
+		// Arrange
+		var now = DateTimeOffset.UtcNow;
+		var configurations = new AsyncEndpointsConfigurations();
+		configurations.RetentionConfigurations.CompletedJobRetention = TimeSpan.FromDays(7);
+		configurations.RetentionConfigurations.JobNameOverrides[job.Name] = new AsyncEndpointsJobRetentionOverride { CompletedJobRetention = TimeSpan.FromHours(1) };
+		var options = Options.Create(configurations);
+
+		job.Status = JobStatus.InProgress;
+		job.ExpiresAt = null;
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(now);
+		mockJobStore
+			.Setup(x => x.GetJobById(job.Id, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(job));
+		mockJobStore
+			.Setup(x => x.UpdateInProgressJob(It.IsAny<Job>(), It.IsAny<Guid?>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<bool>.Success(true));
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var processResult = await jobManager.ProcessJobSuccess(job.Id, result, CancellationToken.None);
+
+		// Assert
+		Assert.True(processResult.IsSuccess);
+		mockJobStore.Verify(x => x.UpdateInProgressJob(It.Is<Job>(updated => updated.ExpiresAt == now.AddHours(1)), It.IsAny<Guid?>(), It.IsAny<CancellationToken>()), Times.Once);
+	}
+
+	/// <summary>
+	/// Verifies that a canceled job is updated with an expiry when a retention for canceled jobs is configured.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task CancelJob_StoresExpiresAt_WhenCanceledRetentionConfigured(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		Job job)
+	{
+		// Arrange
+		var canceledAt = DateTimeOffset.UtcNow;
+		var configurations = new AsyncEndpointsConfigurations();
+		configurations.RetentionConfigurations.CanceledJobRetention = TimeSpan.FromMinutes(30);
+		var options = Options.Create(configurations);
+
+		job.Status = JobStatus.Canceled;
+		job.WorkerId = null;
+		job.CompletedAt = canceledAt;
+		job.ExpiresAt = null;
+		mockJobStore
+			.Setup(x => x.CancelJob(job.Id, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(job));
+		mockJobStore
+			.Setup(x => x.UpdateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Success());
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.CancelJob(job.Id, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Equal(canceledAt.AddMinutes(30), job.ExpiresAt);
+		mockJobStore.Verify(x => x.UpdateJob(job, It.IsAny<CancellationToken>()), Times.Once);
+	}
+
+	/// <summary>
+	/// Verifies that a job submitted with a callback URL that is not an absolute HTTP(S) URL is rejected without being created.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task SubmitJob_ReturnsFailure_WhenCallbackUrlIsInvalid(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		string jobName,
+		string payload)
+	{
+		// Arrange
+		var httpContext = new DefaultHttpContext();
+		var options = Options.Create(new AsyncEndpointsConfigurations());
+
+		httpContext.Request.Headers[AsyncEndpointsConstants.CallbackUrlHeaderName] = "ftp://receiver.example.com/callbacks";
+
+		mockJobStore
+			.Setup(x => x.GetJobById(It.IsAny<Guid>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Failure("Job not found"));
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.SubmitJob(jobName, payload, httpContext, CancellationToken.None);
+
+		// Assert
+		Assert.False(result.IsSuccess);
+		Assert.Equal(AsyncEndpointsConstants.InvalidCallbackUrlErrorCode, result.Error.Code);
+		mockJobStore.Verify(x => x.CreateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()), Times.Never);
+	}
+
+	/// <summary>
+	/// Verifies that the callback URL supplied in the request header is stored with the created job as a pending callback.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task SubmitJob_StoresPendingCallback_WhenCallbackUrlHeaderProvided(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		string jobName,
+		string payload)
+	{
+		// Arrange
+		var callbackUrl = "https://receiver.example.com/callbacks";
+		var httpContext = new DefaultHttpContext();
+		var options = Options.Create(new AsyncEndpointsConfigurations());
+
+		httpContext.Request.Headers[AsyncEndpointsConstants.CallbackUrlHeaderName] = callbackUrl;
+
+		mockJobStore
+			.Setup(x => x.GetJobById(It.IsAny<Guid>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Failure("Job not found"));
+		mockJobStore
+			.Setup(x => x.CreateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Success());
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.SubmitJob(jobName, payload, httpContext, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Equal(callbackUrl, result.Data.Callback?.Url);
+		Assert.Equal(JobCallbackStatus.Pending, result.Data.Callback?.Status);
+	}
+
+	/// <summary>
+	/// Verifies that completing a job with a callback queues the callback for delivery.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ProcessJobSuccess_EnqueuesCallback_WhenJobHasCallback(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		Mock<IJobCallbackQueue> mockJobCallbackQueue,
+		string resultData,
+		Job job)
+	{
+		// Arrange
+		var options = Options.Create(new AsyncEndpointsConfigurations());
+
+		job.Status = JobStatus.InProgress;
+		job.Callback = new JobCallback { Url = "https://receiver.example.com/callbacks" };
+		mockJobStore
+			.Setup(x => x.GetJobById(job.Id, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(job));
+		mockJobStore
+			.Setup(x => x.UpdateInProgressJob(It.IsAny<Job>(), It.IsAny<Guid?>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<bool>.Success(true));
+		mockJobCallbackQueue
+			.Setup(x => x.Enqueue(job.Id))
+			.Returns(true);
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), mockJobCallbackQueue.Object, [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.ProcessJobSuccess(job.Id, resultData, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		mockJobCallbackQueue.Verify(x => x.Enqueue(job.Id), Times.Once);
+	}
+
+	/// <summary>
+	/// Verifies that completing a job stored in the in-memory store saves the result and queues the callback.
+	/// The store hands out copies, so the finished job is not mistaken for one that was changed by another writer.
+	/// </summary>
+	[Fact]
+	public async Task ProcessJobSuccess_CompletesJobAndEnqueuesCallback_WhenRunAgainstInMemoryStore()
+	{
+		// Arrange
+		var options = Options.Create(new AsyncEndpointsConfigurations());
+		var dateTimeProvider = new DateTimeProvider();
+		var jobStore = new InMemoryJobStore(Mock.Of<ILogger<InMemoryJobStore>>(), dateTimeProvider, Mock.Of<IAsyncEndpointsObservability>(), new InMemoryJobStatusNotifier());
+		var mockJobCallbackQueue = new Mock<IJobCallbackQueue>();
+		var workerId = Guid.NewGuid();
+
+		var job = Job.Create(Guid.NewGuid(), "TestJob", "{}", [], [], [], AsyncEndpointsConstants.MaximumRetries, dateTimeProvider,
+			callbackUrl: "https://receiver.example.com/callbacks");
+		await jobStore.CreateJob(job, CancellationToken.None);
+		await jobStore.ClaimNextJobForWorker(workerId, null, CancellationToken.None);
+		mockJobCallbackQueue
+			.Setup(x => x.Enqueue(job.Id))
+			.Returns(true);
+
+		var jobManager = new JobManager(jobStore, Mock.Of<ILogger<JobManager>>(), options, dateTimeProvider, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), mockJobCallbackQueue.Object, [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.ProcessJobSuccess(job.Id, "\"done\"", CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		var storedJob = (await jobStore.GetJobById(job.Id, CancellationToken.None)).Data;
+		Assert.Equal(JobStatus.Completed, storedJob.Status);
+		Assert.Equal("\"done\"", storedJob.Result);
+		mockJobCallbackQueue.Verify(x => x.Enqueue(job.Id), Times.Once);
+	}
+
+	/// <summary>
+	/// Verifies that a failure that schedules a retry does not queue the callback, since the job has not finished yet.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ProcessJobFailure_DoesNotEnqueueCallback_WhenRetryScheduled(
 		[Frozen] Mock<IJobStore> mockJobStore,
 		[Frozen] Mock<ILogger<JobManager>> mockLogger,
 		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
-		string jobName,
-		string payload,
-		Job existingJob)
+		Mock<IJobCallbackQueue> mockJobCallbackQueue,
+		string error,
+		Job job)
 	{
 		// Arrange
-		var jobId = Guid.NewGuid();
-		var httpContext = new DefaultHttpContext();
 		var options = Options.Create(new AsyncEndpointsConfigurations());
 
-		httpContext.Request.Headers[AsyncEndpointsConstants.JobIdHeaderName] = jobId.ToString();
-
+		job.Status = JobStatus.InProgress;
+		job.RetryCount = 0;
+		job.MaxRetries = 3;
+		job.Callback = new JobCallback { Url = "https://receiver.example.com/callbacks" };
 		mockJobStore
-			.Setup(x => x.GetJobById(jobId, It.IsAny<CancellationToken>()))
-			.ReturnsAsync(MethodResult<Job>.Success(existingJob));
+			.Setup(x => x.GetJobById(job.Id, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(job));
+		mockJobStore
+			.Setup(x => x.UpdateInProgressJob(It.IsAny<Job>(), It.IsAny<Guid?>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<bool>.Success(true));
 
-		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>());
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), mockJobCallbackQueue.Object, [], Mock.Of<ISerializer>());
 
 		// Act
-		var result = await jobManager.SubmitJob(jobName, payload, httpContext, CancellationToken.None);
+		var result = await jobManager.ProcessJobFailure(job.Id, AsyncEndpointError.FromMessage(error), CancellationToken.None);
 
 		// Assert
 		Assert.True(result.IsSuccess);
-		Assert.Same(existingJob, result.Data);
-		mockJobStore.Verify(x => x.CreateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()), Times.Never);
+		mockJobCallbackQueue.Verify(x => x.Enqueue(It.IsAny<Guid>()), Times.Never);
 	}
 
 	/// <summary>
-	/// Verifies that the JobManager can claim the next available job for a worker when one is available.
-	/// This test ensures the job claiming functionality works correctly for worker assignment.
+	/// Verifies that a successful job enqueues its continuation with a derived ID and a link back to the job,
+	/// and that the continuation is only created once the job is stored as completed with the continuation ID.
 	/// </summary>
 	[Theory, AutoMoqData]
-	public async Task ClaimNextAvailableJob_ReturnsJob_WhenJobAvailable(
+	public async Task ProcessJobSuccess_EnqueuesContinuation_AfterCompletingJob(
 		[Frozen] Mock<IJobStore> mockJobStore,
 		[Frozen] Mock<ILogger<JobManager>> mockLogger,
 		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
-		Guid workerId,
+		string resultData,
 		Job job)
 	{
 		// Arrange
 		var options = Options.Create(new AsyncEndpointsConfigurations());
+		var continuation = new JobContinuation(job.Name, "next-job", JobContinuationTrigger.OnSuccess, (_, parent) => parent.Result!);
+		var continuationJobId = continuation.GetContinuationJobId(job.Id);
 
+		job.Status = JobStatus.InProgress;
+		job.ContinuationJobIds = [];
+		Job? continuationJob = null;
+		Job? updatedJob = null;
+		var completedBeforeContinuation = false;
 		mockJobStore
-			.Setup(x => x.ClaimNextJobForWorker(workerId, It.IsAny<CancellationToken>()))
+			.Setup(x => x.GetJobById(job.Id, It.IsAny<CancellationToken>()))
 			.ReturnsAsync(MethodResult<Job>.Success(job));
+		mockJobStore
+			.Setup(x => x.GetJobById(continuationJobId, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Failure(AsyncEndpointError.FromCode("JOB_NOT_FOUND", "Job not found")));
+		mockJobStore
+			.Setup(x => x.CreateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()))
+			.Callback<Job, CancellationToken>((created, _) =>
+			{
+				continuationJob = created;
+				completedBeforeContinuation = updatedJob != null;
+			})
+			.ReturnsAsync(MethodResult.Success());
+		mockJobStore
+			.Setup(x => x.UpdateInProgressJob(It.IsAny<Job>(), It.IsAny<Guid?>(), It.IsAny<CancellationToken>()))
+			.Callback<Job, Guid?, CancellationToken>((updated, _, _) => updatedJob = updated)
+			.ReturnsAsync(MethodResult<bool>.Success(true));
 
-		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>());
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [continuation], Mock.Of<ISerializer>());
 
 		// Act
-		var result = await jobManager.ClaimNextAvailableJob(workerId, CancellationToken.None);
+		var result = await jobManager.ProcessJobSuccess(job.Id, resultData, CancellationToken.None);
 
 		// Assert
 		Assert.True(result.IsSuccess);
-		Assert.Same(job, result.Data);
+		Assert.NotNull(continuationJob);
+		Assert.Equal(continuationJobId, continuationJob.Id);
+		Assert.Equal("next-job", continuationJob.Name);
+		Assert.Equal(resultData, continuationJob.Payload);
+		Assert.Equal(job.Id, continuationJob.ParentJobId);
+		Assert.True(completedBeforeContinuation);
+		Assert.NotNull(updatedJob);
+		Assert.Equal(JobStatus.Completed, updatedJob.Status);
+		Assert.Equal(new[] { continuationJobId }, updatedJob.ContinuationJobIds);
 	}
 
 	/// <summary>
-	/// Verifies that when a job completes successfully, the JobManager updates the job status to Completed 
-	/// and stores the result data.
-	/// This ensures successful job completion is properly recorded.
+	/// Verifies that no continuation is created for a job that was canceled, deleted or recovered while it was processing.
 	/// </summary>
 	[Theory, AutoMoqData]
-	public async Task ProcessJobSuccess_UpdatesJobWithResult_WhenJobExists(
+	public async Task ProcessJobSuccess_DoesNotEnqueueContinuation_WhenJobIsNoLongerHeldByWorker(
 		[Frozen] Mock<IJobStore> mockJobStore,
 		[Frozen] Mock<ILogger<JobManager>> mockLogger,
 		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
-		Guid jobId,
 		string resultData,
 		Job job)
 	{
 		// Arrange
 		var options = Options.Create(new AsyncEndpointsConfigurations());
+		var continuation = new JobContinuation(job.Name, "next-job", JobContinuationTrigger.OnSuccess, (_, parent) => parent.Result!);
 
+		job.Status = JobStatus.InProgress;
 		mockJobStore
-			.Setup(x => x.GetJobById(jobId, It.IsAny<CancellationToken>()))
+			.Setup(x => x.GetJobById(job.Id, It.IsAny<CancellationToken>()))
 			.ReturnsAsync(MethodResult<Job>.Success(job));
 		mockJobStore
-			.Setup(x => x.UpdateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()))
-			.ReturnsAsync(MethodResult.Success());
+			.Setup(x => x.UpdateInProgressJob(It.IsAny<Job>(), It.IsAny<Guid?>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<bool>.Success(false));
 
-		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>());
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [continuation], Mock.Of<ISerializer>());
 
 		// Act
-		var result = await jobManager.ProcessJobSuccess(jobId, resultData, CancellationToken.None);
+		var result = await jobManager.ProcessJobSuccess(job.Id, resultData, CancellationToken.None);
 
 		// Assert
 		Assert.True(result.IsSuccess);
-		Assert.Equal(JobStatus.Completed, job.Status);
-		Assert.Equal(resultData, job.Result);
+		mockJobStore.Verify(x => x.CreateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()), Times.Never);
 	}
 
 	/// <summary>
-	/// Verifies that when a job doesn't exist, the JobManager returns a failure when trying to process job success.
-	/// This ensures appropriate error handling when attempting to update non-existent jobs.
+	/// Verifies that completing a job again reuses the continuation created the first time instead of creating a second one.
 	/// </summary>
 	[Theory, AutoMoqData]
-	public async Task ProcessJobSuccess_ReturnsFailure_WhenJobDoesNotExist(
+	public async Task ProcessJobSuccess_ReusesExistingContinuation_WhenJobCompletesAgain(
 		[Frozen] Mock<IJobStore> mockJobStore,
 		[Frozen] Mock<ILogger<JobManager>> mockLogger,
 		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
-		Guid jobId,
-		string resultData)
+		string resultData,
+		Job job,
+		Job existingContinuationJob)
 	{
 		// Arrange
 		var options = Options.Create(new AsyncEndpointsConfigurations());
+		var continuation = new JobContinuation(job.Name, "next-job", JobContinuationTrigger.OnSuccess, (_, parent) => parent.Result!);
+		var continuationJobId = continuation.GetContinuationJobId(job.Id);
 
+		job.Status = JobStatus.InProgress;
+		job.ContinuationJobIds = [];
 		mockJobStore
-			.Setup(x => x.GetJobById(jobId, It.IsAny<CancellationToken>()))
-			.ReturnsAsync(MethodResult<Job>.Failure("Job not found"));
+			.Setup(x => x.GetJobById(job.Id, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(job));
+		mockJobStore
+			.Setup(x => x.GetJobById(continuationJobId, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(existingContinuationJob));
+		mockJobStore
+			.Setup(x => x.UpdateInProgressJob(It.IsAny<Job>(), It.IsAny<Guid?>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<bool>.Success(true));
 
-		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>());
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [continuation], Mock.Of<ISerializer>());
 
 		// Act
-		var result = await jobManager.ProcessJobSuccess(jobId, resultData, CancellationToken.None);
+		var result = await jobManager.ProcessJobSuccess(job.Id, resultData, CancellationToken.None);
 
 		// Assert
-		Assert.False(result.IsSuccess);
+		Assert.True(result.IsSuccess);
+		Assert.Equal(new[] { continuationJobId }, job.ContinuationJobIds);
+		mockJobStore.Verify(x => x.CreateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()), Times.Never);
 	}
 
 	/// <summary>
-	/// Verifies that when maximum retries are reached, the JobManager sets the job status to Failed and records the error.
-	/// This ensures failed jobs with exhausted retries are properly marked as permanently failed.
+	/// Verifies that a completed job whose continuation cannot be created is stored again as failed with the continuation error,
+	/// so the missing continuation is visible and the job can be requeued.
 	/// </summary>
 	[Theory, AutoMoqData]
-	public async Task ProcessJobFailure_SetsError_WhenMaxRetriesReached(
+	public async Task ProcessJobSuccess_FailsJob_WhenContinuationCannotBeCreated(
 		[Frozen] Mock<IJobStore> mockJobStore,
 		[Frozen] Mock<ILogger<JobManager>> mockLogger,
 		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
-		Guid jobId,
-		string error,
+		string resultData,
 		Job job)
 	{
 		// Arrange
 		var options = Options.Create(new AsyncEndpointsConfigurations());
+		var continuation = new JobContinuation(job.Name, "next-job", JobContinuationTrigger.OnSuccess, (_, parent) => parent.Result!);
 
-		job.MaxRetries = 0; // Force max retries to be reached
+		job.Status = JobStatus.InProgress;
 		mockJobStore
-			.Setup(x => x.GetJobById(jobId, It.IsAny<CancellationToken>()))
+			.Setup(x => x.GetJobById(job.Id, It.IsAny<CancellationToken>()))
 			.ReturnsAsync(MethodResult<Job>.Success(job));
+		mockJobStore
+			.Setup(x => x.GetJobById(continuation.GetContinuationJobId(job.Id), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Failure(AsyncEndpointError.FromCode("JOB_NOT_FOUND", "Job not found")));
+		mockJobStore
+			.Setup(x => x.CreateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Failure(AsyncEndpointError.FromCode("JOB_STORE_ERROR", "Store unavailable")));
+		mockJobStore
+			.Setup(x => x.UpdateInProgressJob(It.IsAny<Job>(), It.IsAny<Guid?>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<bool>.Success(true));
 		mockJobStore
 			.Setup(x => x.UpdateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()))
 			.ReturnsAsync(MethodResult.Success());
 
-		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>());
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [continuation], Mock.Of<ISerializer>());
 
 		// Act
-		var result = await jobManager.ProcessJobFailure(jobId, AsyncEndpointError.FromMessage(error), CancellationToken.None);
+		var result = await jobManager.ProcessJobSuccess(job.Id, resultData, CancellationToken.None);
 
 		// Assert
 		Assert.True(result.IsSuccess);
 		Assert.Equal(JobStatus.Failed, job.Status);
-		Assert.Equal(error, job.Error?.Message);
+		Assert.Equal(AsyncEndpointsConstants.ContinuationFailedErrorCode, job.Error?.Code);
+		mockJobStore.Verify(x => x.UpdateInProgressJob(job, It.IsAny<Guid?>(), It.IsAny<CancellationToken>()), Times.Once);
+		mockJobStore.Verify(x => x.UpdateJob(job, It.IsAny<CancellationToken>()), Times.Once);
 	}
 
 	/// <summary>
-	/// Verifies that when retries are available, the JobManager schedules a retry by setting the job status to Scheduled 
-	/// and incrementing the retry count.
-	/// This ensures failed jobs with remaining retries are properly queued for retry attempts.
+	/// Verifies that failure continuations are enqueued only once the job has exhausted its retries.
 	/// </summary>
 	[Theory, AutoMoqData]
-	public async Task ProcessJobFailure_SchedulesRetry_WhenRetriesAvailable(
+	public async Task ProcessJobFailure_EnqueuesFailureContinuation_WhenRetriesAreExhausted(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		string error,
+		Job job)
+	{
+		// Arrange
+		var options = Options.Create(new AsyncEndpointsConfigurations());
+		var successContinuation = new JobContinuation(job.Name, "next-job", JobContinuationTrigger.OnSuccess, (_, parent) => parent.Result!);
+		var failureContinuation = new JobContinuation(job.Name, "cleanup-job", JobContinuationTrigger.OnFailure, (_, parent) => parent.Payload);
+		var continuationJobId = failureContinuation.GetContinuationJobId(job.Id);
+
+		job.Status = JobStatus.InProgress;
+		job.RetryCount = 3;
+		job.MaxRetries = 3;
+		job.ContinuationJobIds = [];
+		Job? continuationJob = null;
+		mockJobStore
+			.Setup(x => x.GetJobById(job.Id, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(job));
+		mockJobStore
+			.Setup(x => x.GetJobById(continuationJobId, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Failure(AsyncEndpointError.FromCode("JOB_NOT_FOUND", "Job not found")));
+		mockJobStore
+			.Setup(x => x.CreateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()))
+			.Callback<Job, CancellationToken>((created, _) => continuationJob = created)
+			.ReturnsAsync(MethodResult.Success());
+		mockJobStore
+			.Setup(x => x.UpdateInProgressJob(It.IsAny<Job>(), It.IsAny<Guid?>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<bool>.Success(true));
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [successContinuation, failureContinuation], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.ProcessJobFailure(job.Id, AsyncEndpointError.FromMessage(error), CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.NotNull(continuationJob);
+		Assert.Equal("cleanup-job", continuationJob.Name);
+		Assert.Equal(job.Payload, continuationJob.Payload);
+		Assert.Equal(job.Id, continuationJob.ParentJobId);
+		Assert.Equal(new[] { continuationJobId }, job.ContinuationJobIds);
+		mockJobStore.Verify(x => x.CreateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()), Times.Once);
+	}
+
+	/// <summary>
+	/// Verifies that a failure that schedules a retry does not enqueue failure continuations.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ProcessJobFailure_DoesNotEnqueueFailureContinuation_WhenRetryScheduled(
 		[Frozen] Mock<IJobStore> mockJobStore,
 		[Frozen] Mock<ILogger<JobManager>> mockLogger,
 		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
-		Guid jobId,
 		string error,
 		Job job)
 	{
 		// Arrange
 		var options = Options.Create(new AsyncEndpointsConfigurations());
+		var failureContinuation = new JobContinuation(job.Name, "cleanup-job", JobContinuationTrigger.OnFailure, (_, parent) => parent.Payload);
 
+		job.Status = JobStatus.InProgress;
+		job.RetryCount = 0;
 		job.MaxRetries = 3;
+		mockJobStore
+			.Setup(x => x.GetJobById(job.Id, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(job));
+		mockJobStore
+			.Setup(x => x.UpdateInProgressJob(It.IsAny<Job>(), It.IsAny<Guid?>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<bool>.Success(true));
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [failureContinuation], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.ProcessJobFailure(job.Id, AsyncEndpointError.FromMessage(error), CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		mockJobStore.Verify(x => x.CreateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()), Times.Never);
+	}
+
+	/// <summary>
+	/// Verifies that a result larger than the offload threshold is stored in the blob store and removed from the job.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ProcessJobSuccess_OffloadsResult_WhenResultExceedsThreshold(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		Mock<IJobBlobStore> mockJobBlobStore,
+		Job job)
+	{
+		// Arrange
+		var configurations = new AsyncEndpointsConfigurations();
+		configurations.BlobStorageConfigurations.OffloadThresholdBytes = 8;
+		var options = Options.Create(configurations);
+		var result = "{\"value\":\"larger than the threshold\"}";
+		var expectedBlobId = $"{job.Id:N}-result";
+
+		job.Status = JobStatus.InProgress;
+		mockJobStore
+			.Setup(x => x.GetJobById(job.Id, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(job));
+		mockJobStore
+			.Setup(x => x.UpdateInProgressJob(It.IsAny<Job>(), It.IsAny<Guid?>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<bool>.Success(true));
+		mockJobBlobStore
+			.Setup(x => x.SaveBlob(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string>(), It.IsAny<DateTimeOffset?>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Success());
+		mockJobBlobStore
+			.Setup(x => x.SetBlobExpiry(It.IsAny<string>(), It.IsAny<DateTimeOffset?>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Success());
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>(), mockJobBlobStore.Object);
+
+		// Act
+		var processResult = await jobManager.ProcessJobSuccess(job.Id, result, CancellationToken.None);
+
+		// Assert
+		Assert.True(processResult.IsSuccess);
+		mockJobBlobStore.Verify(x => x.SaveBlob(expectedBlobId, result, "application/json", It.IsAny<DateTimeOffset?>(), It.IsAny<CancellationToken>()), Times.Once);
+		mockJobStore.Verify(x => x.UpdateInProgressJob(It.Is<Job>(updated => updated.Result == null && updated.ResultBlobId == expectedBlobId), It.IsAny<Guid?>(), It.IsAny<CancellationToken>()), Times.Once);
+	}
+
+	/// <summary>
+	/// Verifies that a job whose result cannot be stored in the blob store is stored as failed with the offload error,
+	/// instead of being left in progress and running its handler again.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ProcessJobSuccess_FailsJob_WhenResultCannotBeOffloaded(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		Mock<IJobBlobStore> mockJobBlobStore,
+		Job job)
+	{
+		// Arrange
+		var configurations = new AsyncEndpointsConfigurations();
+		configurations.BlobStorageConfigurations.OffloadThresholdBytes = 8;
+		var options = Options.Create(configurations);
+		var result = "{\"value\":\"larger than the threshold\"}";
+
+		job.Status = JobStatus.InProgress;
+		mockJobStore
+			.Setup(x => x.GetJobById(job.Id, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(job));
+		mockJobStore
+			.Setup(x => x.UpdateInProgressJob(It.IsAny<Job>(), It.IsAny<Guid?>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<bool>.Success(true));
+		mockJobBlobStore
+			.Setup(x => x.SaveBlob(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string>(), It.IsAny<DateTimeOffset?>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Failure(AsyncEndpointError.FromCode("BLOB_STORE_ERROR", "Blob store unavailable")));
+		mockJobBlobStore
+			.Setup(x => x.SetBlobExpiry(It.IsAny<string>(), It.IsAny<DateTimeOffset?>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult.Success());
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>(), mockJobBlobStore.Object);
+
+		// Act
+		var processResult = await jobManager.ProcessJobSuccess(job.Id, result, CancellationToken.None);
+
+		// Assert
+		Assert.True(processResult.IsSuccess);
+		mockJobStore.Verify(x => x.UpdateInProgressJob(It.Is<Job>(updated => updated.Status == JobStatus.Failed
+			&& updated.Error!.Code == AsyncEndpointsConstants.ResultOffloadFailedErrorCode
+			&& updated.Result == null
+			&& updated.ResultBlobId == null), It.IsAny<Guid?>(), It.IsAny<CancellationToken>()), Times.Once);
+	}
+
+	/// <summary>
+	/// Verifies that the result of a job that has not completed is reported as not available.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task GetJobResult_ReturnsResultNotAvailable_WhenJobNotCompleted(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		Job job)
+	{
+		// Arrange
+		var options = Options.Create(new AsyncEndpointsConfigurations());
+
+		job.Status = JobStatus.InProgress;
+		mockJobStore
+			.Setup(x => x.GetJobById(job.Id, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(job));
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.GetJobResult(job.Id, CancellationToken.None);
+
+		// Assert
+		Assert.False(result.IsSuccess);
+		Assert.Equal(AsyncEndpointsConstants.JobResultNotAvailableErrorCode, result.Error.Code);
+	}
+
+	/// <summary>
+	/// Verifies that a failed attempt is recorded as a run with its worker and error before the job is scheduled for a retry.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task ProcessJobFailure_RecordsFailedRun_WhenRetryScheduled(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		Guid workerId,
+		Job job)
+	{
+		// Arrange
+		var options = Options.Create(new AsyncEndpointsConfigurations());
+		var now = DateTimeOffset.UtcNow;
+		var startedAt = now.AddSeconds(-3);
+		var error = AsyncEndpointError.FromMessage("Handler failed");
+
+		job.Status = JobStatus.InProgress;
+		job.WorkerId = workerId;
+		job.StartedAt = startedAt;
 		job.RetryCount = 0;
+		job.MaxRetries = 3;
+		job.Runs = [];
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(now);
+		mockDateTimeProvider.Setup(x => x.UtcNow).Returns(now.UtcDateTime);
 		mockJobStore
-			.Setup(x => x.GetJobById(jobId, It.IsAny<CancellationToken>()))
+			.Setup(x => x.GetJobById(job.Id, It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<Job>.Success(job));
+		mockJobStore
+			.Setup(x => x.UpdateInProgressJob(It.IsAny<Job>(), It.IsAny<Guid?>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(MethodResult<bool>.Success(true));
+
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
+
+		// Act
+		var result = await jobManager.ProcessJobFailure(job.Id, error, CancellationToken.None);
+
+		// Assert
+		Assert.True(result.IsSuccess);
+		Assert.Equal(JobStatus.Scheduled, job.Status);
+		var run = Assert.Single(job.Runs);
+		Assert.Equal(workerId, run.WorkerId);
+		Assert.Equal(startedAt, run.StartedAt);
+		Assert.Equal(now, run.EndedAt);
+		Assert.Equal(JobRunOutcome.Failed, run.Outcome);
+		Assert.Equal(error.Message, run.Error?.Message);
+	}
+
+	/// <summary>
+	/// Verifies that canceling an in-progress job records the interrupted attempt as a canceled run, since its worker stops without reporting back.
+	/// </summary>
+	[Theory, AutoMoqData]
+	public async Task CancelJob_RecordsCanceledRun_WhenJobInProgress(
+		[Frozen] Mock<IJobStore> mockJobStore,
+		[Frozen] Mock<ILogger<JobManager>> mockLogger,
+		[Frozen] Mock<IDateTimeProvider> mockDateTimeProvider,
+		Guid workerId,
+		Job job)
+	{
+		// Arrange
+		var options = Options.Create(new AsyncEndpointsConfigurations());
+
+		job.Status = JobStatus.Canceled;
+		job.WorkerId = workerId;
+		job.StartedAt = DateTimeOffset.UtcNow.AddMinutes(-1);
+		job.ExpiresAt = null;
+		job.Runs = [];
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(DateTimeOffset.UtcNow);
+		mockJobStore
+			.Setup(x => x.CancelJob(job.Id, It.IsAny<CancellationToken>()))
 			.ReturnsAsync(MethodResult<Job>.Success(job));
 		mockJobStore
 			.Setup(x => x.UpdateJob(It.IsAny<Job>(), It.IsAny<CancellationToken>()))
 			.ReturnsAsync(MethodResult.Success());
 
-		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>());
+		var jobManager = new JobManager(mockJobStore.Object, mockLogger.Object, options, mockDateTimeProvider.Object, Mock.Of<IAsyncEndpointsObservability>(), Mock.Of<IJobCancellationNotifier>(), Mock.Of<IJobCallbackQueue>(), [], Mock.Of<ISerializer>());
 
 		// Act
-		var result = await jobManager.ProcessJobFailure(jobId, AsyncEndpointError.FromMessage(error), CancellationToken.None);
+		var result = await jobManager.CancelJob(job.Id, CancellationToken.None);
 
 		// Assert
 		Assert.True(result.IsSuccess);
-		Assert.Equal(JobStatus.Scheduled, job.Status);
-		Assert.Equal(1, job.RetryCount);
-		Assert.Equal(error, job.Error?.Message);
+		var run = Assert.Single(job.Runs);
+		Assert.Equal(JobRunOutcome.Canceled, run.Outcome);
+		mockJobStore.Verify(x => x.UpdateJob(It.Is<Job>(updated => updated.Runs.Count == 1), It.IsAny<CancellationToken>()), Times.Once);
 	}
 }
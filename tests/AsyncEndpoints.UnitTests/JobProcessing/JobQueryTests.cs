@@ -0,0 +1,67 @@
+using AsyncEndpoints.Configuration;
+using AsyncEndpoints.JobProcessing;
+
+namespace AsyncEndpoints.UnitTests.JobProcessing;
+
+public class JobQueryTests
+{
+	/// <summary>
+	/// Verifies that a job matches a query only when it satisfies every filter.
+	/// </summary>
+	[Fact]
+	public void Matches_ReturnsTrue_OnlyWhenAllFiltersMatch()
+	{
+		// Arrange
+		var workerId = Guid.NewGuid();
+		var now = DateTimeOffset.UtcNow;
+		var job = new Job(now) { Name = "export-report", Status = JobStatus.Failed, WorkerId = workerId, CompletedAt = now };
+		var query = new JobQuery
+		{
+			Name = "export-report",
+			Status = JobStatus.Failed,
+			CompletedFrom = now.AddHours(-1),
+			WorkerId = workerId
+		};
+
+		// Act & Assert
+		Assert.True(query.Matches(job));
+		Assert.False(new JobQuery { Name = "import-data" }.Matches(job));
+		Assert.False(new JobQuery { CreatedFrom = now.AddMinutes(1) }.Matches(job));
+		Assert.False(new JobQuery { CompletedTo = now.AddHours(-1) }.Matches(job));
+		Assert.False(new JobQuery { WorkerId = Guid.NewGuid() }.Matches(job));
+	}
+
+	/// <summary>
+	/// Verifies that the page size must be within the supported range.
+	/// </summary>
+	[Theory]
+	[InlineData(0)]
+	[InlineData(AsyncEndpointsConstants.MaximumJobQueryPageSize + 1)]
+	public void Validate_Fails_WhenPageSizeOutOfRange(int pageSize)
+	{
+		// Act
+		var result = new JobQuery { PageSize = pageSize }.Validate();
+
+		// Assert
+		Assert.False(result.IsSuccess);
+		Assert.Equal(JobQuery.InvalidJobQueryErrorCode, result.Error.Code);
+	}
+
+	/// <summary>
+	/// Verifies that an encoded cursor can be decoded back to the job position it points at.
+	/// </summary>
+	[Fact]
+	public void JobQueryCursor_RoundTrips_JobPosition()
+	{
+		// Arrange
+		var job = new Job(DateTimeOffset.UtcNow);
+
+		// Act
+		var decoded = JobQueryCursor.TryDecode(JobQueryCursor.Encode(job), out var createdAt, out var jobId);
+
+		// Assert
+		Assert.True(decoded);
+		Assert.Equal(job.CreatedAt.ToUnixTimeMilliseconds(), createdAt);
+		Assert.Equal(job.Id, jobId);
+	}
+}
@@ -0,0 +1,84 @@
+using AsyncEndpoints.JobProcessing;
+
+namespace AsyncEndpoints.UnitTests.JobProcessing;
+
+public class JobStatusWatcherTests
+{
+	/// <summary>
+	/// Verifies that a subscription is woken with the new status when the watched job changes.
+	/// </summary>
+	[Fact]
+	public async Task WaitForChange_ReturnsStatus_WhenWatchedJobChanges()
+	{
+		// Arrange
+		var watcher = new JobStatusWatcher();
+		var jobId = Guid.NewGuid();
+		using var subscription = watcher.Watch(jobId);
+
+		// Act
+		var waitTask = subscription.WaitForChange(TimeSpan.FromSeconds(5), CancellationToken.None);
+		watcher.OnStatusChanged(jobId, JobStatus.InProgress);
+		var status = await waitTask;
+
+		// Assert
+		Assert.Equal(JobStatus.InProgress, status);
+	}
+
+	/// <summary>
+	/// Verifies that a change signaled between watching and waiting is not lost.
+	/// </summary>
+	[Fact]
+	public async Task WaitForChange_ReturnsStatus_WhenJobChangedBeforeWaiting()
+	{
+		// Arrange
+		var watcher = new JobStatusWatcher();
+		var jobId = Guid.NewGuid();
+		using var subscription = watcher.Watch(jobId);
+		watcher.OnStatusChanged(jobId, JobStatus.InProgress);
+		watcher.OnStatusChanged(jobId, JobStatus.Completed);
+
+		// Act
+		var status = await subscription.WaitForChange(TimeSpan.FromSeconds(5), CancellationToken.None);
+
+		// Assert
+		Assert.Equal(JobStatus.Completed, status);
+	}
+
+	/// <summary>
+	/// Verifies that changes of other jobs do not wake the subscription and the wait ends with null after the timeout.
+	/// </summary>
+	[Fact]
+	public async Task WaitForChange_ReturnsNull_WhenTimeoutElapsesWithoutChange()
+	{
+		// Arrange
+		var watcher = new JobStatusWatcher();
+		using var subscription = watcher.Watch(Guid.NewGuid());
+		watcher.OnStatusChanged(Guid.NewGuid(), JobStatus.Completed);
+
+		// Act
+		var status = await subscription.WaitForChange(TimeSpan.FromMilliseconds(50), CancellationToken.None);
+
+		// Assert
+		Assert.Null(status);
+	}
+
+	/// <summary>
+	/// Verifies that a disposed subscription no longer receives changes.
+	/// </summary>
+	[Fact]
+	public async Task OnStatusChanged_IgnoresDisposedSubscription()
+	{
+		// Arrange
+		var watcher = new JobStatusWatcher();
+		var jobId = Guid.NewGuid();
+		var subscription = watcher.Watch(jobId);
+		subscription.Dispose();
+
+		// Act
+		watcher.OnStatusChanged(jobId, JobStatus.Completed);
+		var status = await subscription.WaitForChange(TimeSpan.FromMilliseconds(50), CancellationToken.None);
+
+		// Assert
+		Assert.Null(status);
+	}
+}
@@ -1,6 +1,7 @@
 using AsyncEndpoints.Configuration;
 using AsyncEndpoints.Infrastructure;
 using AsyncEndpoints.JobProcessing;
+using AsyncEndpoints.Utilities;
 using Moq;
 
 namespace AsyncEndpoints.UnitTests.JobProcessing;
@@ -39,6 +40,46 @@ public class JobTests
 		Assert.Equal(expectedTime, job.LastUpdatedAt);
 	}
 
+	/// <summary>
+	/// Verifies that a job due in the future is created in the scheduled status and is not claimable before its due time.
+	/// </summary>
+	[Fact]
+	public void Create_SchedulesJob_WhenRunAtIsInFuture()
+	{
+		// Arrange
+		var mockDateTimeProvider = new Mock<IDateTimeProvider>();
+		var now = DateTimeOffset.UtcNow;
+		var runAt = now.AddMinutes(5);
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(now);
+
+		// Act
+		var job = Job.Create(Guid.NewGuid(), "TestJob", "{}", [], [], [], 2, mockDateTimeProvider.Object, runAt: runAt);
+
+		// Assert
+		Assert.Equal(JobStatus.Scheduled, job.Status);
+		Assert.Equal(runAt.UtcDateTime, job.RetryDelayUntil);
+		Assert.Equal(DateTimeKind.Utc, job.RetryDelayUntil?.Kind);
+	}
+
+	/// <summary>
+	/// Verifies that a job whose run time has already passed is queued immediately.
+	/// </summary>
+	[Fact]
+	public void Create_QueuesJob_WhenRunAtIsInPast()
+	{
+		// Arrange
+		var mockDateTimeProvider = new Mock<IDateTimeProvider>();
+		var now = DateTimeOffset.UtcNow;
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(now);
+
+		// Act
+		var job = Job.Create(Guid.NewGuid(), "TestJob", "{}", [], [], [], 2, mockDateTimeProvider.Object, runAt: now.AddMinutes(-5));
+
+		// Assert
+		Assert.Equal(JobStatus.Queued, job.Status);
+		Assert.Null(job.RetryDelayUntil);
+	}
+
 	[Fact]
 	public void UpdateStatus_UpdatesStatusAndLastUpdatedAt()
 	{
@@ -248,6 +289,80 @@ public class JobTests
 		Assert.Equal(JobStatus.Queued, job.Status);
 	}
 
+	[Fact]
+	public void Requeue_FromFailed_ClearsProcessingStateAndResetsRetries()
+	{
+		// Arrange
+		var mockDateTimeProvider = new Mock<IDateTimeProvider>();
+		var expectedTime = DateTimeOffset.UtcNow;
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(expectedTime);
+		var job = Job.Create(Guid.NewGuid(), "TestJob", "{\"data\":\"value\"}", [], [], [], 2, mockDateTimeProvider.Object);
+		job.UpdateStatus(JobStatus.InProgress, mockDateTimeProvider.Object);
+		job.WorkerId = Guid.NewGuid();
+		job.RetryCount = 2;
+		job.SetError(AsyncEndpointError.FromMessage("Handler failed"), mockDateTimeProvider.Object);
+		job.ExpiresAt = expectedTime.AddDays(1);
+
+		// Act
+		job.Requeue(true, mockDateTimeProvider.Object);
+
+		// Assert
+		Assert.Equal(JobStatus.Queued, job.Status);
+		Assert.Equal(0, job.RetryCount);
+		Assert.Null(job.WorkerId);
+		Assert.Null(job.StartedAt);
+		Assert.Null(job.CompletedAt);
+		Assert.Null(job.ExpiresAt);
+		Assert.Equal("Handler failed", job.Error?.Message);
+	}
+
+	[Fact]
+	public void RecordRun_AddsRunForCurrentAttempt_OnlyOnce()
+	{
+		// Arrange
+		var mockDateTimeProvider = new Mock<IDateTimeProvider>();
+		var startedAt = DateTimeOffset.UtcNow;
+		var endedAt = startedAt.AddSeconds(5);
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(startedAt);
+		var job = Job.Create(Guid.NewGuid(), "TestJob", "{\"data\":\"value\"}", [], [], [], 2, mockDateTimeProvider.Object);
+		var workerId = Guid.NewGuid();
+		job.UpdateStatus(JobStatus.InProgress, mockDateTimeProvider.Object);
+		job.WorkerId = workerId;
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(endedAt);
+		var error = AsyncEndpointError.FromMessage("Handler failed");
+
+		// Act
+		var firstRecorded = job.RecordRun(JobRunOutcome.Failed, error, mockDateTimeProvider.Object);
+		var secondRecorded = job.RecordRun(JobRunOutcome.Canceled, null, mockDateTimeProvider.Object);
+
+		// Assert
+		Assert.True(firstRecorded);
+		Assert.False(secondRecorded);
+		var run = Assert.Single(job.Runs);
+		Assert.Equal(1, run.Attempt);
+		Assert.Equal(workerId, run.WorkerId);
+		Assert.Equal(startedAt, run.StartedAt);
+		Assert.Equal(endedAt, run.EndedAt);
+		Assert.Equal(JobRunOutcome.Failed, run.Outcome);
+		Assert.Same(error, run.Error);
+	}
+
+	[Fact]
+	public void RecordRun_DoesNothing_WhenJobWasNeverStarted()
+	{
+		// Arrange
+		var mockDateTimeProvider = new Mock<IDateTimeProvider>();
+		mockDateTimeProvider.Setup(x => x.DateTimeOffsetNow).Returns(DateTimeOffset.UtcNow);
+		var job = Job.Create(Guid.NewGuid(), "TestJob", "{\"data\":\"value\"}", [], [], [], 2, mockDateTimeProvider.Object);
+
+		// Act
+		var recorded = job.RecordRun(JobRunOutcome.Succeeded, null, mockDateTimeProvider.Object);
+
+		// Assert
+		Assert.False(recorded);
+		Assert.Empty(job.Runs);
+	}
+
 	[Fact]
 	public void CreateCopy_CreatesNewInstanceWithSameProperties()
 	{
@@ -3,11 +3,13 @@ using AsyncEndpoints.Configuration;
 using AsyncEndpoints.Extensions;
 using AsyncEndpoints.Handlers;
 using AsyncEndpoints.Infrastructure;
+using AsyncEndpoints.Infrastructure.Callbacks;
 using AsyncEndpoints.JobProcessing;
 using AsyncEndpoints.UnitTests.TestSupport;
 using Microsoft.AspNetCore.Http;
 using Microsoft.Extensions.DependencyInjection;
 using Microsoft.Extensions.Hosting;
+using Microsoft.Extensions.Options;
 
 namespace AsyncEndpoints.UnitTests;
 
@@ -35,6 +37,12 @@ public class ServiceCollectionExtensionsTests
 		// Verify the correct implementation is registered
 		var requestDelegate = provider.GetService<IAsyncEndpointRequestDelegate>();
 		Assert.IsType<AsyncEndpointRequestDelegate>(requestDelegate);
+		Assert.IsType<JobClient>(provider.GetService<IJobClient>());
+
+		// Verify job status change notifications are wired up for long-polling and event streams
+		Assert.IsType<InMemoryJobStatusNotifier>(provider.GetService<IJobStatusNotifier>());
+		Assert.NotNull(provider.GetService<IJobStatusWatcher>());
+		Assert.Contains(provider.GetServices<IHostedService>(), s => s is JobStatusListenerService);
 	}
 
 	[Fact]
@@ -108,6 +116,18 @@ public class ServiceCollectionExtensionsTests
 		var hostedServices = provider.GetServices<IHostedService>();
 		var backgroundService = hostedServices.FirstOrDefault(s => s is AsyncEndpointsBackgroundService);
 		Assert.NotNull(backgroundService);
+
+		// Verify job cancellation is wired to the worker
+		Assert.IsType<JobCancellationRegistry>(provider.GetService<IJobCancellationRegistry>());
+		Assert.Contains(hostedServices, s => s is JobCancellationListenerService);
+
+		// Verify completion callbacks are delivered by the worker
+		Assert.IsType<JobCallbackSender>(provider.GetService<IJobCallbackSender>());
+		Assert.Contains(hostedServices, s => s is JobCallbackDeliveryService);
+
+		// Verify handlers and the handler execution service share the progress reporter of their scope
+		using var scope = provider.CreateScope();
+		Assert.Same(scope.ServiceProvider.GetService<JobProgressReporter>(), scope.ServiceProvider.GetService<IJobProgressReporter>());
 	}
 
 	[Fact]
@@ -130,6 +150,55 @@ public class ServiceCollectionExtensionsTests
 		Assert.IsType<TestAsyncEndpointRequestHandler>(handler);
 	}
 
+	/// <summary>
+	/// Verifies that a retry policy configured when registering a handler is stored for its job name.
+	/// </summary>
+	[Fact]
+	public void AddAsyncEndpointHandler_StoresRetryPolicy()
+	{
+		// Arrange
+		var services = new ServiceCollection();
+
+		// Act
+		services.AddAsyncEndpointHandler<TestAsyncEndpointRequestHandler, TestRequest, TestResponse>("test-job", retryPolicy =>
+		{
+			retryPolicy.MaxRetries = 5;
+			retryPolicy.NonRetryableErrorCodes.Add("VALIDATION_FAILED");
+		});
+
+		// Assert
+		var provider = services.BuildServiceProvider();
+		var jobManagerConfigurations = provider.GetRequiredService<IOptions<AsyncEndpointsConfigurations>>().Value.JobManagerConfigurations;
+		Assert.Equal(5, jobManagerConfigurations.GetMaxRetries("test-job"));
+		Assert.Contains("VALIDATION_FAILED", jobManagerConfigurations.RetryPolicies["test-job"].NonRetryableErrorCodes);
+	}
+
+	/// <summary>
+	/// Verifies that the concurrency and rate limits configured when registering a handler are stored for its job name.
+	/// </summary>
+	[Fact]
+	public void AddAsyncEndpointHandler_StoresJobLimits()
+	{
+		// Arrange
+		var services = new ServiceCollection();
+
+		// Act
+		services.AddAsyncEndpointHandler<TestAsyncEndpointRequestHandler, TestRequest, TestResponse>("test-job", configureLimits: limits =>
+		{
+			limits.MaxConcurrency = 5;
+			limits.RateLimitPermits = 100;
+		});
+
+		// Assert
+		var provider = services.BuildServiceProvider();
+		var workerConfigurations = provider.GetRequiredService<IOptions<AsyncEndpointsConfigurations>>().Value.WorkerConfigurations;
+		var jobLimits = workerConfigurations.GetJobLimits("test-job");
+		Assert.NotNull(jobLimits);
+		Assert.Equal(5, jobLimits.MaxConcurrency);
+		Assert.Equal(100, jobLimits.RateLimitPermits);
+		Assert.Null(workerConfigurations.GetJobLimits("other-job"));
+	}
+
 	/// <summary>
 	/// Verifies that the AddAsyncEndpointHandler method for no-body requests registers the handler correctly.
 	/// This ensures handlers without request body can be registered and resolved from the service container.
@@ -153,4 +222,76 @@ public class ServiceCollectionExtensionsTests
 		Assert.NotNull(handler);
 		Assert.IsType<TestNoBodyRequestHandler>(handler);
 	}
+
+	/// <summary>
+	/// Verifies that registering recurring jobs adds their definitions, a shared registry and a single scheduler service.
+	/// </summary>
+	[Fact]
+	public void AddAsyncEndpointsRecurringJob_RegistersDefinitionsAndScheduler()
+	{
+		// Arrange
+		var services = new ServiceCollection();
+		services.AddLogging();
+		services.AddAsyncEndpointsInMemoryStore();
+		services.AddAsyncEndpoints();
+
+		// Act
+		services.AddAsyncEndpointsRecurringJob("cleanup", "0 3 * * *", () => new TestRequest());
+		services.AddAsyncEndpointsRecurringJob("report", "*/15 * * * *", () => new TestRequest());
+
+		// Assert
+		var provider = services.BuildServiceProvider();
+		var registry = provider.GetRequiredService<IRecurringJobRegistry>();
+		Assert.Equal(new[] { "cleanup", "report" }, registry.Definitions.Select(x => x.Name));
+		Assert.Single(provider.GetServices<IHostedService>(), s => s is RecurringJobSchedulerService);
+	}
+
+	/// <summary>
+	/// Verifies that invalid cron expressions and duplicate recurring job names are rejected at registration.
+	/// </summary>
+	[Fact]
+	public void AddAsyncEndpointsRecurringJob_Throws_WhenCronExpressionIsInvalidOrNameIsDuplicated()
+	{
+		// Arrange
+		var services = new ServiceCollection();
+		services.AddAsyncEndpointsRecurringJob("cleanup", "0 3 * * *", () => new TestRequest());
+
+		// Act & Assert
+		Assert.Throws<ArgumentException>(() => services.AddAsyncEndpointsRecurringJob("report", "every night", () => new TestRequest()));
+		Assert.Throws<ArgumentException>(() => services.AddAsyncEndpointsRecurringJob("cleanup", "0 4 * * *", () => new TestRequest()));
+	}
+
+	/// <summary>
+	/// Verifies that continuations are registered as definitions resolved by the job manager.
+	/// </summary>
+	[Fact]
+	public void AddAsyncEndpointsContinuation_RegistersContinuations()
+	{
+		// Arrange
+		var services = new ServiceCollection();
+
+		// Act
+		services.AddAsyncEndpointsContinuation<TestResponse, TestRequest>("import", "report", response => new TestRequest());
+		services.AddAsyncEndpointsFailureContinuation("import", "cleanup");
+
+		// Assert
+		var continuations = services.BuildServiceProvider().GetServices<JobContinuation>().ToList();
+		Assert.Equal(2, continuations.Count);
+		Assert.Contains(continuations, x => x.JobName == "import" && x.NextJobName == "report" && x.Trigger == JobContinuationTrigger.OnSuccess);
+		Assert.Contains(continuations, x => x.JobName == "import" && x.NextJobName == "cleanup" && x.Trigger == JobContinuationTrigger.OnFailure);
+	}
+
+	/// <summary>
+	/// Verifies that registering the same continuation twice is rejected at registration.
+	/// </summary>
+	[Fact]
+	public void AddAsyncEndpointsContinuation_Throws_WhenContinuationIsDuplicated()
+	{
+		// Arrange
+		var services = new ServiceCollection();
+		services.AddAsyncEndpointsContinuation("import", "report");
+
+		// Act & Assert
+		Assert.Throws<ArgumentException>(() => services.AddAsyncEndpointsContinuation("import", "report"));
+	}
 }
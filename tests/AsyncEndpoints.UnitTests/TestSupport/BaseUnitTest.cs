@@ -1,12 +1,16 @@
 using AutoFixture;
 using AutoFixture.AutoMoq;
 using AutoFixture.Xunit2;
+using AsyncEndpoints.JobProcessing;
 
 namespace AsyncEndpoints.UnitTests.TestSupport;
 
 public class AutoMoqDataAttribute : AutoDataAttribute
 {
-	public AutoMoqDataAttribute() : base(() => new Fixture().Customize(new AutoMoqCustomization()))
+	// Generated jobs keep their payload and result in the job, as jobs without a blob store do
+	public AutoMoqDataAttribute() : base(() => new Fixture()
+		.Customize(new AutoMoqCustomization())
+		.Customize<Job>(composer => composer.Without(job => job.PayloadBlobId).Without(job => job.ResultBlobId)))
 	{
 	}
 }
@@ -1,3 +1,4 @@
+using AsyncEndpoints.Handlers;
 using AsyncEndpoints.JobProcessing;
 using AsyncEndpoints.UnitTests.TestSupport;
 using AsyncEndpoints.Utilities;
@@ -48,4 +49,17 @@ public class AsyncContextBuilderTests
 		Assert.Equal(job.RouteParams, context.RouteParams);
 		Assert.Equal(job.QueryParams, context.QueryParams);
 	}
+
+	[Theory, AutoMoqData]
+	public void Build_WithProgressReporter_ExposesReporterOnContext(
+		TestRequest request,
+		Job job,
+		IJobProgressReporter progressReporter)
+	{
+		// Act
+		var context = AsyncContextBuilder.Build(request, job, progressReporter);
+
+		// Assert
+		Assert.Same(progressReporter, context.Progress);
+	}
 }
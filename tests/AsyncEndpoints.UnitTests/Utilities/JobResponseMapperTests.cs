@@ -26,6 +26,10 @@ public class JobResponseMapperTests
 		Assert.Equal(job.StartedAt, result.StartedAt);
 		Assert.Equal(job.CompletedAt, result.CompletedAt);
 		Assert.Equal(job.LastUpdatedAt, result.LastUpdatedAt);
+		Assert.Equal(job.Progress, result.Progress);
+		Assert.Equal(job.ParentJobId, result.ParentJobId);
+		Assert.Equal(job.ContinuationJobIds, result.ContinuationJobIds);
+		Assert.Equal(job.ExpiresAt, result.ExpiresAt);
 	}
 
 	[Theory, AutoMoqData]
@@ -47,4 +51,29 @@ public class JobResponseMapperTests
 		Assert.Equal(string.Empty, result.Result);
 		Assert.Null(result.Error);
 	}
+
+	[Theory, AutoMoqData]
+	public void ToRunResponses_MapsRunsWithOutcomeAndDuration(Job job, Guid workerId)
+	{
+		// Arrange
+		var startedAt = DateTimeOffset.UtcNow;
+		job.Runs =
+		[
+			new JobRun { Attempt = 1, WorkerId = workerId, StartedAt = startedAt, EndedAt = startedAt.AddSeconds(2), Outcome = JobRunOutcome.Failed, Error = AsyncEndpointError.FromMessage("Handler failed") },
+			new JobRun { Attempt = 2, WorkerId = workerId, StartedAt = startedAt.AddSeconds(10), EndedAt = startedAt.AddSeconds(11), Outcome = JobRunOutcome.Succeeded }
+		];
+
+		// Act
+		var result = JobResponseMapper.ToRunResponses(job);
+
+		// Assert
+		Assert.Equal(2, result.Count);
+		Assert.Equal(1, result[0].Attempt);
+		Assert.Equal("Failed", result[0].Outcome);
+		Assert.Equal(2000, result[0].DurationMs);
+		Assert.Equal("Handler failed", result[0].Error?.Message);
+		Assert.Equal("Succeeded", result[1].Outcome);
+		Assert.Equal(workerId, result[1].WorkerId);
+		Assert.Null(result[1].Error);
+	}
 }
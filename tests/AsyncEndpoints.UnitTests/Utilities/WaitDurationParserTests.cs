@@ -0,0 +1,45 @@
+using AsyncEndpoints.Utilities;
+
+namespace AsyncEndpoints.UnitTests.Utilities;
+
+public class WaitDurationParserTests
+{
+	/// <summary>
+	/// Verifies that wait durations with and without units are parsed, with bare numbers interpreted as seconds.
+	/// </summary>
+	[Theory]
+	[InlineData("30s", 30_000)]
+	[InlineData("30", 30_000)]
+	[InlineData("500ms", 500)]
+	[InlineData("1m", 60_000)]
+	[InlineData("1.5s", 1_500)]
+	[InlineData(null, 0)]
+	[InlineData("", 0)]
+	public void TryParse_ReturnsDuration_WhenValueIsValid(string? value, int expectedMilliseconds)
+	{
+		// Act
+		var success = WaitDurationParser.TryParse(value, out var duration);
+
+		// Assert
+		Assert.True(success);
+		Assert.Equal(TimeSpan.FromMilliseconds(expectedMilliseconds), duration);
+	}
+
+	/// <summary>
+	/// Verifies that malformed or negative wait durations are rejected.
+	/// </summary>
+	[Theory]
+	[InlineData("abc")]
+	[InlineData("-5s")]
+	[InlineData("ms")]
+	[InlineData("10h")]
+	public void TryParse_ReturnsFalse_WhenValueIsInvalid(string value)
+	{
+		// Act
+		var success = WaitDurationParser.TryParse(value, out var duration);
+
+		// Assert
+		Assert.False(success);
+		Assert.Equal(TimeSpan.Zero, duration);
+	}
+}